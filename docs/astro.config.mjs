@@ -22,12 +22,18 @@ export default defineConfig({
 
 						// Security
 						{ label: 'API Keys', slug: 'guides/api-keys' },
+						{ label: 'JWT Authentication', slug: 'guides/jwt-authentication' },
 						{ label: 'Secrets', slug: 'guides/secrets' },
 						{ label: 'CORS', slug: 'guides/cors' },
+						{ label: 'Webhook Signatures', slug: 'guides/webhook-signatures' },
+						{ label: 'Client IP Access', slug: 'guides/ip-access' },
 
 						// Monitoring
 						{ label: 'Logs', slug: 'guides/logs' },
+						{ label: 'Errors', slug: 'guides/errors' },
+						{ label: 'Alerts', slug: 'guides/alerts' },
 						{ label: 'Metrics', slug: 'guides/metrics' },
+						{ label: 'Tracing', slug: 'guides/tracing' },
 					],
 				},
 				{
@@ -13,22 +13,37 @@ import { ProcessIsolator } from "./src/process/process_isolator.ts";
 const processIsolator = new ProcessIsolator();
 processIsolator.install();
 
+// Install fetch tracking so handlers' outbound calls are logged, measured and
+// checked against their function's allowed hosts. System code is unaffected.
+import { FetchInterceptor } from "./src/outbound/fetch_interceptor.ts";
+const fetchInterceptor = new FetchInterceptor();
+fetchInterceptor.install();
+
 import { createAuth } from "./src/auth/auth.ts";
 import { ApiKeyService } from "./src/keys/api_key_service.ts";
-import { FunctionsService } from "./src/routes/functions_service.ts";
+import { ApiKeyUsageService } from "./src/keys/api_key_usage_service.ts";
+import {
+  FunctionsService,
+  FUNCTION_CRON_JOB_TYPE,
+  type FunctionCronJobPayload,
+} from "./src/routes/functions_service.ts";
 import { FunctionRouter } from "./src/functions/function_router.ts";
 import { FileService } from "./src/files/file_service.ts";
 import { SourceFileService } from "./src/files/source_file_service.ts";
 import { CodeSourceService } from "./src/sources/code_source_service.ts";
 import { ManualCodeSourceProvider } from "./src/sources/manual_code_source_provider.ts";
 import { GitCodeSourceProvider } from "./src/sources/git_code_source_provider.ts";
+import { FunctionManifestService } from "./src/sources/function_manifest_service.ts";
+import { SourceDeploymentService } from "./src/sources/source_deployment_service.ts";
 import type { SyncJobPayload } from "./src/sources/types.ts";
 import { ConsoleLogService } from "./src/logs/console_log_service.ts";
 import { StreamInterceptor } from "./src/logs/stream_interceptor.ts";
 import { ExecutionMetricsService } from "./src/metrics/execution_metrics_service.ts";
+import { PrometheusMetricsService } from "./src/metrics/prometheus_metrics_service.ts";
 import { MetricsAggregationService } from "./src/metrics/metrics_aggregation_service.ts";
 import { MetricsStateService } from "./src/metrics/metrics_state_service.ts";
 import type { MetricsAggregationConfig } from "./src/metrics/types.ts";
+import { TracingService } from "./src/tracing/tracing_service.ts";
 import { LogTrimmingService } from "./src/logs/log_trimming_service.ts";
 import type { LogTrimmingConfig } from "./src/logs/log_trimming_types.ts";
 import { KeyStorageService } from "./src/encryption/key_storage_service.ts";
@@ -37,6 +52,12 @@ import { KeyRotationService } from "./src/encryption/key_rotation_service.ts";
 import { HashService } from "./src/encryption/hash_service.ts";
 import type { KeyRotationConfig } from "./src/encryption/key_rotation_types.ts";
 import { SecretsService } from "./src/secrets/secrets_service.ts";
+import { RateLimitService } from "./src/rate_limits/rate_limit_service.ts";
+import { ErrorGroupService } from "./src/error_groups/error_group_service.ts";
+import { AlertService } from "./src/alerts/alert_service.ts";
+import { KvService } from "./src/kv/kv_service.ts";
+import { AsyncInvocationService } from "./src/invocations/async_invocation_service.ts";
+import { ASYNC_INVOCATION_JOB_TYPE } from "./src/invocations/types.ts";
 import { SettingsService } from "./src/settings/settings_service.ts";
 import { SettingNames } from "./src/settings/types.ts";
 import { UserService } from "./src/users/user_service.ts";
@@ -322,12 +343,24 @@ const userService = new UserService({
 // Must be installed after migrations but before handling requests
 // Captures both console.* methods AND direct process.stdout/stderr writes
 const consoleLogService = new ConsoleLogService({ surrealFactory, settingsService });
+await consoleLogService.refreshSettings();
 const streamInterceptor = new StreamInterceptor({ logService: consoleLogService });
 streamInterceptor.install();
 
 // Initialize execution metrics service (SurrealDB)
 const executionMetricsService = new ExecutionMetricsService({ surrealFactory });
 
+// Initialize Prometheus exporter (in-memory counters, read by GET /metrics)
+const prometheusMetricsService = new PrometheusMetricsService({
+  jobQueueService,
+  consoleLogService,
+  surrealSupervisor,
+});
+
+// Initialize trace exporter (OTLP/HTTP, enabled in settings)
+const tracingService = new TracingService({ settingsService });
+await tracingService.start();
+
 // Initialize metrics state service for aggregation watermarks (SurrealDB)
 const metricsStateService = new MetricsStateService({ surrealFactory });
 
@@ -383,30 +416,6 @@ const schedulingService = new SchedulingService({
   jobQueueService,
 });
 
-// Initialize code source service
-const codeSourceService = new CodeSourceService({
-  surrealFactory,
-  encryptionService,
-  jobQueueService,
-  schedulingService,
-  codeDirectory: "./code",
-});
-
-// Register code source providers
-// Manual provider has no sensitive fields
-const manualCodeSourceProvider = new ManualCodeSourceProvider({
-  codeDirectory: "./code",
-});
-codeSourceService.registerProvider(manualCodeSourceProvider);
-
-// Git provider needs encryption service for authToken encryption
-const gitCodeSourceProvider = new GitCodeSourceProvider({
-  codeDirectory: "./code",
-  encryptionService,
-});
-codeSourceService.registerProvider(gitCodeSourceProvider);
-console.log("✓ Code source service initialized (manual, git)");
-
 // Initialize API key service
 const apiKeyService = new ApiKeyService({
   surrealFactory,
@@ -414,6 +423,10 @@ const apiKeyService = new ApiKeyService({
   hashService,
 });
 
+// Initialize API key usage tracking (buffered, written every 30 seconds)
+const apiKeyUsageService = new ApiKeyUsageService({ surrealFactory });
+apiKeyUsageService.start();
+
 // Bootstrap management group (creates if not exists)
 await apiKeyService.bootstrapManagementGroup();
 
@@ -431,11 +444,68 @@ const secretsService = new SecretsService({
   encryptionService,
 });
 
+// Initialize rate limit service
+const rateLimitService = new RateLimitService({
+  surrealFactory,
+  settingsService,
+});
+
+// Initialize error grouping (handler failures for the errors dashboard)
+const errorGroupService = new ErrorGroupService({ surrealFactory });
+
+// Initialize function key-value store
+const kvService = new KvService({ surrealFactory });
+
+// Initialize asynchronous invocations (run as jobs, results polled via /run-status)
+const asyncInvocationService = new AsyncInvocationService({
+  surrealFactory,
+  jobQueueService,
+  settingsService,
+  encryptionService,
+});
+
 // Initialize routes service
 const functionsService = new FunctionsService({
   surrealFactory,
   secretsService, // For cascade delete of function-scoped secrets
+  schedulingService, // For cron-triggered functions
+});
+
+// Initialize function manifests (functions declared in a source's crude.json)
+const functionManifestService = new FunctionManifestService({
+  functionsService,
+  apiKeyService,
+  codeDirectory: "./code",
+});
+
+// Initialize deployment history (one record per source sync)
+const sourceDeploymentService = new SourceDeploymentService({ surrealFactory });
+
+// Initialize code source service
+const codeSourceService = new CodeSourceService({
+  surrealFactory,
+  encryptionService,
+  jobQueueService,
+  schedulingService,
+  codeDirectory: "./code",
+  manifestService: functionManifestService, // Reconciles crude.json manifests after sync
+  deploymentService: sourceDeploymentService, // Records deployment history for rollback
+});
+
+// Register code source providers
+// Manual provider has no sensitive fields
+const manualCodeSourceProvider = new ManualCodeSourceProvider({
+  codeDirectory: "./code",
+});
+codeSourceService.registerProvider(manualCodeSourceProvider);
+
+// Git provider needs encryption service for authToken encryption
+const gitCodeSourceProvider = new GitCodeSourceProvider({
+  codeDirectory: "./code",
+  encryptionService,
 });
+codeSourceService.registerProvider(gitCodeSourceProvider);
+console.log("✓ Code source service initialized (manual, git)");
 
 // Initialize function router
 const functionRouter = new FunctionRouter({
@@ -444,9 +514,37 @@ const functionRouter = new FunctionRouter({
   consoleLogService,
   executionMetricsService,
   secretsService,
+  kvService,
+  settingsService,
+  rateLimitService,
+  asyncInvocationService,
+  prometheusMetricsService,
+  tracingService,
+  errorGroupService,
+  apiKeyUsageService,
   codeDirectory: "./code",
 });
 
+// Initialize alert rules (evaluated by the alert-evaluation job)
+const alertService = new AlertService({
+  surrealFactory,
+  settingsService,
+  secretsService,
+  codeSourceService,
+  schedulingService,
+  executionMetricsService,
+  metricsStateService,
+  functionsService,
+  invokeFunction: (name, notification) => functionRouter.invokeAlert(name, notification),
+});
+
+// Notify database_unavailable rules when the supervisor gives up restarting SurrealDB
+surrealSupervisor.onRestartsExhausted((error) => {
+  alertService.notifyDatabaseUnavailable(error).catch((err) => {
+    console.error("[Alerts] Failed to send database alert:", err);
+  });
+});
+
 // ============================================================================
 // Job Processing and Scheduling Setup
 // ============================================================================
@@ -465,13 +563,58 @@ jobProcessorService.registerHandler("metrics-aggregation", async (_job, token) =
   return { success: true };
 });
 
+jobProcessorService.registerHandler("kv-purge", async (_job, token) => {
+  token.throwIfCancelled();
+  return { purged: await kvService.purgeExpired() };
+});
+
+jobProcessorService.registerHandler("api-key-maintenance", async (_job, token) => {
+  token.throwIfCancelled();
+  // Write buffered usage first, so keys used since the last flush aren't disabled
+  await apiKeyUsageService.flush();
+  const usageTrimmed = await apiKeyUsageService.trimUsage();
+
+  // Rotated keys stop working when their grace period ends - this deletes them
+  const retired = await apiKeyService.retireRotatedKeys();
+  for (const key of retired) {
+    console.log(`[ApiKeys] Retired rotated key '${key.name}' in group '${key.groupName}'`);
+  }
+
+  const unusedDays = await getIntSetting(SettingNames.API_KEYS_AUTO_DISABLE_UNUSED_DAYS, 0);
+  const disabled = unusedDays > 0 ? await apiKeyService.disableUnusedKeys(unusedDays) : [];
+  for (const key of disabled) {
+    console.log(`[ApiKeys] Disabled key '${key.name}' in group '${key.groupName}' (unused for ${unusedDays} days)`);
+  }
+  return { usageTrimmed, keysRetired: retired.length, keysDisabled: disabled.length };
+});
+
+jobProcessorService.registerHandler("async-invocation-purge", async (_job, token) => {
+  token.throwIfCancelled();
+  return { purged: await asyncInvocationService.purgeExpired() };
+});
+
 jobProcessorService.registerHandler("key-rotation", async (_job, token) => {
   return await keyRotationService.performRotationCheck(token);
 });
 
+jobProcessorService.registerHandler("alert-evaluation", async (_job, token) => {
+  token.throwIfCancelled();
+  return await alertService.evaluate();
+});
+
 jobProcessorService.registerHandler("source_sync", async (job, token) => {
   const payload = job.payload as SyncJobPayload;
-  return await codeSourceService.syncSource(payload.sourceId, token);
+  return await codeSourceService.syncSource(payload.sourceId, token, payload.triggeredBy);
+});
+
+jobProcessorService.registerHandler(FUNCTION_CRON_JOB_TYPE, async (job, token) => {
+  token.throwIfCancelled();
+  return await functionRouter.invokeScheduled(job.payload as FunctionCronJobPayload);
+});
+
+jobProcessorService.registerHandler(ASYNC_INVOCATION_JOB_TYPE, async (job, token) => {
+  token.throwIfCancelled();
+  return await functionRouter.invokeAsync(job);
 });
 
 // Start scheduling service (clears transient schedules, loads persistent)
@@ -496,6 +639,42 @@ await schedulingService.registerSchedule({
   jobType: "metrics-aggregation",
 });
 
+await schedulingService.registerSchedule({
+  name: "api-key-maintenance",
+  description: "Trims API key usage history, retires rotated keys and disables unused keys",
+  type: "sequential_interval",
+  isPersistent: false,
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  jobType: "api-key-maintenance",
+});
+
+await schedulingService.registerSchedule({
+  name: "kv-purge",
+  description: "Deletes expired function key-value entries",
+  type: "sequential_interval",
+  isPersistent: false,
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  jobType: "kv-purge",
+});
+
+await schedulingService.registerSchedule({
+  name: "async-invocation-purge",
+  description: "Deletes stored async invocation responses past their retention period",
+  type: "sequential_interval",
+  isPersistent: false,
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  jobType: "async-invocation-purge",
+});
+
+await schedulingService.registerSchedule({
+  name: "alert-evaluation",
+  description: "Evaluates alert rules and sends notifications",
+  type: "sequential_interval",
+  isPersistent: false,
+  intervalMs: 60 * 1000, // 1 minute
+  jobType: "alert-evaluation",
+});
+
 // Register persistent key rotation schedule (only if not exists)
 const existingKeyRotationSchedule = await schedulingService.getSchedule("key-rotation");
 if (!existingKeyRotationSchedule) {
@@ -527,6 +706,9 @@ if (!existingKeyRotationSchedule) {
   });
 }
 
+// Reconcile function cron schedules (functions may have changed while stopped)
+await functionsService.reconcileCronSchedules();
+
 console.log("✓ Job processor and scheduling services started");
 
 // ============================================================================
@@ -556,27 +738,36 @@ const managementApp = createManagementApp({
   auth,
   surrealFactory,
   apiKeyService,
+  apiKeyUsageService,
   functionsService,
   consoleLogService,
   executionMetricsService,
+  prometheusMetricsService,
   encryptionService,
+  hashService,
   keyStorageService,
   keyRotationService,
   secretsService,
+  kvService,
   settingsService,
+  rateLimitService,
+  errorGroupService,
+  alertService,
   userService,
   codeSourceService,
   sourceFileService,
   schedulingService,
+  jobQueueService,
   csrfService,
   errorStateService,
   codeDirectory: "./code",
+  metricsToken: Deno.env.get("METRICS_TOKEN") || undefined,
 });
 
 console.log("✓ Hono apps created");
 
 // Export apps and services for testing
-export { functionApp, managementApp, apiKeyService, functionsService, functionRouter, fileService, sourceFileService, codeSourceService, consoleLogService, executionMetricsService, logTrimmingService, keyRotationService, secretsService, settingsService, userService, processIsolator, jobQueueService, jobProcessorService, schedulingService, surrealFactory, surrealProcessManager, surrealSupervisor };
+export { functionApp, managementApp, apiKeyService, apiKeyUsageService, functionsService, functionRouter, fileService, sourceFileService, codeSourceService, consoleLogService, executionMetricsService, tracingService, logTrimmingService, keyRotationService, secretsService, kvService, rateLimitService, errorGroupService, alertService, asyncInvocationService, settingsService, userService, processIsolator, fetchInterceptor, jobQueueService, jobProcessorService, schedulingService, surrealFactory, surrealProcessManager, surrealSupervisor };
 
 // Graceful shutdown handler
 async function gracefulShutdown(signal: string) {
@@ -601,15 +792,25 @@ async function gracefulShutdown(signal: string) {
     await consoleLogService.shutdown();
     console.log("Console log service flushed");
 
-    // 5. Stop scheduling service (stops triggering new jobs)
+    // 5. Write buffered API key usage and rate limit counters
+    await apiKeyUsageService.stop();
+    console.log("API key usage flushed");
+    await rateLimitService.flush();
+    console.log("Rate limit counters flushed");
+
+    // 6. Export remaining trace spans
+    await tracingService.stop();
+    console.log("Tracing service flushed");
+
+    // 7. Stop scheduling service (stops triggering new jobs)
     await schedulingService.stop();
     console.log("Scheduling service stopped");
 
-    // 6. Stop job processor (waits for current job)
+    // 8. Stop job processor (waits for current job)
     await jobProcessorService.stop();
     console.log("Job processor stopped");
 
-    // 7. Stop SurrealDB supervisor (handles monitor, DB connection, and process)
+    // 9. Stop SurrealDB supervisor (handles monitor, DB connection, and process)
     if (surrealSupervisor.isHealthy() || surrealProcessManager.isRunning) {
       await surrealSupervisor.stop();
       console.log("SurrealDB supervisor stopped");
@@ -642,6 +843,9 @@ if (import.meta.main) {
     // Single port mode: mount function routes on management app
     managementApp.all("/run/*", (c) => functionRouter.handle(c));
     managementApp.all("/run", (c) => functionRouter.handle(c));
+    managementApp.all("/run-async/*", (c) => functionRouter.handle(c));
+    managementApp.all("/run-async", (c) => functionRouter.handle(c));
+    managementApp.get("/run-status/:jobId", (c) => functionRouter.handleAsyncStatus(c));
 
     Deno.serve({
       port: functionPort,
@@ -0,0 +1,228 @@
+import { Hono } from "@hono/hono";
+import type { AlertService } from "./alert_service.ts";
+import {
+  AlertDeliveryError,
+  AlertRuleNotFoundError,
+  DuplicateAlertRuleError,
+  InvalidAlertRuleError,
+} from "./errors.ts";
+import type { AlertHistoryEntry, AlertRule, AlertRuleUpdate, NewAlertRule } from "./types.ts";
+import { ALERT_CHANNELS, ALERT_CONDITIONS, isAlertChannel, isAlertCondition } from "./types.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+
+/**
+ * Transform AlertRule entity to API response format.
+ */
+function ruleToResponse(rule: AlertRule) {
+  return {
+    id: recordIdToString(rule.id),
+    name: rule.name,
+    enabled: rule.enabled,
+    condition: rule.condition,
+    threshold: rule.threshold ?? null,
+    windowMinutes: rule.windowMinutes ?? null,
+    minExecutions: rule.minExecutions ?? null,
+    channel: rule.channel,
+    target: rule.target,
+    cooldownMinutes: rule.cooldownMinutes,
+    notifyOnResolve: rule.notifyOnResolve,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * Transform AlertHistoryEntry entity to API response format.
+ */
+function historyToResponse(entry: AlertHistoryEntry) {
+  return {
+    id: recordIdToString(entry.id),
+    ruleId: entry.ruleId ? recordIdToString(entry.ruleId) : null,
+    ruleName: entry.ruleName,
+    condition: entry.condition,
+    subject: entry.subject,
+    status: entry.status,
+    message: entry.message,
+    channel: entry.channel,
+    target: entry.target,
+    delivered: entry.delivered,
+    error: entry.error ?? null,
+    createdAt: entry.createdAt,
+  };
+}
+
+/**
+ * Map alert errors to JSON error responses.
+ * Returns null for errors that should propagate.
+ */
+function alertErrorResponse(error: unknown): { message: string; status: 400 | 404 | 409 | 502 } | null {
+  if (error instanceof AlertRuleNotFoundError) {
+    return { message: error.message, status: 404 };
+  }
+  if (error instanceof DuplicateAlertRuleError) {
+    return { message: error.message, status: 409 };
+  }
+  if (error instanceof InvalidAlertRuleError) {
+    return { message: error.message, status: 400 };
+  }
+  if (error instanceof AlertDeliveryError) {
+    return { message: error.message, status: 502 };
+  }
+  return null;
+}
+
+/**
+ * Create routes for alert rules and history.
+ * Mounted at /api/alerts
+ */
+export function createAlertRoutes(alertService: AlertService): Hono {
+  const routes = new Hono();
+
+  // GET /api/alerts/rules - List rules
+  routes.get("/rules", async (c) => {
+    const rules = await alertService.getRules();
+    return c.json({ rules: rules.map(ruleToResponse) });
+  });
+
+  // GET /api/alerts/rules/:id - Get rule by ID
+  routes.get("/rules/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid alert rule ID" }, 400);
+    }
+
+    const rule = await alertService.getRuleById(id);
+    if (!rule) {
+      return c.json({ error: "Alert rule not found" }, 404);
+    }
+    return c.json(ruleToResponse(rule));
+  });
+
+  // POST /api/alerts/rules - Create a rule
+  routes.post("/rules", async (c) => {
+    let body: Partial<Record<keyof NewAlertRule, unknown>>;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    if (typeof body.name !== "string" || typeof body.target !== "string") {
+      return c.json({ error: "Missing required fields: name, target" }, 400);
+    }
+    if (typeof body.condition !== "string" || !isAlertCondition(body.condition)) {
+      return c.json(
+        { error: `Missing or invalid condition. Must be one of: ${ALERT_CONDITIONS.join(", ")}` },
+        400,
+      );
+    }
+    if (typeof body.channel !== "string" || !isAlertChannel(body.channel)) {
+      return c.json(
+        { error: `Missing or invalid channel. Must be one of: ${ALERT_CHANNELS.join(", ")}` },
+        400,
+      );
+    }
+
+    try {
+      const rule = await alertService.createRule({
+        ...(body as Omit<NewAlertRule, "name" | "target" | "condition" | "channel">),
+        name: body.name,
+        target: body.target,
+        condition: body.condition,
+        channel: body.channel,
+      });
+      return c.json(ruleToResponse(rule), 201);
+    } catch (error) {
+      const response = alertErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // PUT /api/alerts/rules/:id - Update a rule (omitted fields are kept)
+  routes.put("/rules/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid alert rule ID" }, 400);
+    }
+
+    let body: AlertRuleUpdate;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    try {
+      const rule = await alertService.updateRule(id, body);
+      return c.json(ruleToResponse(rule));
+    } catch (error) {
+      const response = alertErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // DELETE /api/alerts/rules/:id - Delete a rule
+  routes.delete("/rules/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid alert rule ID" }, 400);
+    }
+
+    try {
+      await alertService.deleteRule(id);
+      return c.json({ success: true });
+    } catch (error) {
+      const response = alertErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // POST /api/alerts/rules/:id/test - Send a test notification (502 if delivery fails)
+  routes.post("/rules/:id/test", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid alert rule ID" }, 400);
+    }
+
+    try {
+      await alertService.sendTest(id);
+      return c.json({ success: true });
+    } catch (error) {
+      const response = alertErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // GET /api/alerts/history - Sent notifications (?ruleId=, ?limit= up to 1000, default 100)
+  routes.get("/history", async (c) => {
+    const ruleIdParam = c.req.query("ruleId");
+    const ruleId = ruleIdParam !== undefined ? validateSurrealId(ruleIdParam) : undefined;
+    if (ruleId === null) {
+      return c.json({ error: "Invalid ruleId parameter" }, 400);
+    }
+
+    const limitParam = c.req.query("limit");
+    const limit = limitParam !== undefined ? parseInt(limitParam, 10) : 100;
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      return c.json({ error: "Invalid limit. Must be between 1 and 1000" }, 400);
+    }
+
+    const history = await alertService.getHistory({ limit, ruleId });
+    return c.json({ history: history.map(historyToResponse) });
+  });
+
+  return routes;
+}
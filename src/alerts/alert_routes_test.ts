@@ -0,0 +1,135 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { AlertService } from "./alert_service.ts";
+import { createAlertRoutes } from "./alert_routes.ts";
+
+/**
+ * Create a test app with alert routes. Webhook deliveries go to a stub
+ * answering with the given status.
+ */
+async function createTestApp(webhookStatus = 204) {
+  const ctx = await TestSetupBuilder.create().withAll().build();
+
+  const alertService = new AlertService({
+    surrealFactory: ctx.surrealFactory,
+    settingsService: ctx.settingsService,
+    secretsService: ctx.secretsService,
+    codeSourceService: ctx.codeSourceService,
+    schedulingService: ctx.schedulingService,
+    executionMetricsService: ctx.executionMetricsService,
+    metricsStateService: ctx.metricsStateService,
+    functionsService: ctx.functionsService,
+    fetchFn: () => Promise.resolve(new Response(null, { status: webhookStatus })),
+  });
+  const app = new Hono();
+  app.route("/api/alerts", createAlertRoutes(alertService));
+  return { app, ctx };
+}
+
+function postRule(app: Hono, body: Record<string, unknown>) {
+  return app.request("/api/alerts/rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const webhookRule = {
+  name: "Schedule errors",
+  condition: "schedule_error",
+  channel: "webhook",
+  target: "http://127.0.0.1:9/hook",
+};
+
+integrationTest("POST /api/alerts/rules creates a rule and GET lists it", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await postRule(app, webhookRule);
+    expect(res.status).toBe(201);
+
+    const created = await res.json();
+    expect(created.name).toBe("Schedule errors");
+    expect(created.threshold).toBeNull();
+    expect(created.cooldownMinutes).toBe(60);
+
+    const list = await (await app.request("/api/alerts/rules")).json();
+    expect(list.rules.map((r: { id: string }) => r.id)).toEqual([created.id]);
+
+    const single = await app.request(`/api/alerts/rules/${created.id}`);
+    expect((await single.json()).target).toBe(webhookRule.target);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/alerts/rules rejects invalid and duplicate rules", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    expect((await postRule(app, { ...webhookRule, condition: "cpu" })).status).toBe(400);
+    expect((await postRule(app, { ...webhookRule, channel: "sms" })).status).toBe(400);
+    expect((await postRule(app, { ...webhookRule, condition: "error_rate", threshold: 150 })).status).toBe(400);
+    expect((await postRule(app, { condition: "schedule_error", channel: "webhook" })).status).toBe(400);
+
+    expect((await postRule(app, webhookRule)).status).toBe(201);
+    expect((await postRule(app, webhookRule)).status).toBe(409);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("PUT and DELETE /api/alerts/rules/:id update and delete a rule", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const created = await (await postRule(app, webhookRule)).json();
+
+    const updated = await app.request(`/api/alerts/rules/${created.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: false, cooldownMinutes: 5 }),
+    });
+    expect(updated.status).toBe(200);
+    const body = await updated.json();
+    expect(body.enabled).toBe(false);
+    expect(body.cooldownMinutes).toBe(5);
+    expect(body.name).toBe("Schedule errors");
+
+    expect((await app.request(`/api/alerts/rules/${created.id}`, { method: "DELETE" })).status).toBe(200);
+    expect((await app.request(`/api/alerts/rules/${created.id}`, { method: "DELETE" })).status).toBe(404);
+    expect((await app.request(`/api/alerts/rules/${created.id}`)).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/alerts/rules/:id/test sends a notification and records it", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const created = await (await postRule(app, webhookRule)).json();
+
+    const res = await app.request(`/api/alerts/rules/${created.id}/test`, { method: "POST" });
+    expect(res.status).toBe(200);
+
+    const history = await (await app.request(`/api/alerts/history?ruleId=${created.id}`)).json();
+    expect(history.history.length).toBe(1);
+    expect(history.history[0]).toMatchObject({ ruleId: created.id, status: "test", delivered: true, error: null });
+
+    expect((await app.request("/api/alerts/history?limit=0")).status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/alerts/rules/:id/test returns 502 when delivery fails", async () => {
+  const { app, ctx } = await createTestApp(500);
+  try {
+    const created = await (await postRule(app, webhookRule)).json();
+
+    const res = await app.request(`/api/alerts/rules/${created.id}/test`, { method: "POST" });
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toContain("HTTP 500");
+  } finally {
+    await ctx.cleanup();
+  }
+});
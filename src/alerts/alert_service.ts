@@ -0,0 +1,838 @@
+import { RecordId } from "surrealdb";
+import { Mutex } from "@core/asyncutil/mutex";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import { recordIdToString, toDate } from "../database/surreal_helpers.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
+import type { SettingName } from "../settings/types.ts";
+import type { SecretsService } from "../secrets/secrets_service.ts";
+import type { CodeSourceService } from "../sources/code_source_service.ts";
+import type { SchedulingService } from "../scheduling/scheduling_service.ts";
+import type { ExecutionMetricsService } from "../metrics/execution_metrics_service.ts";
+import type { MetricsStateService } from "../metrics/metrics_state_service.ts";
+import type { AggregationResult } from "../metrics/types.ts";
+import type { FunctionsService } from "../routes/functions_service.ts";
+import { logger } from "../utils/logger.ts";
+import { sendMail, SmtpError } from "./smtp_client.ts";
+import type { SmtpConfig, SmtpSecurity } from "./smtp_client.ts";
+import {
+  AlertDeliveryError,
+  AlertRuleNotFoundError,
+  DuplicateAlertRuleError,
+  InvalidAlertRuleError,
+} from "./errors.ts";
+import { isAlertChannel, isAlertCondition } from "./types.ts";
+import type {
+  AlertEvaluationResult,
+  AlertFinding,
+  AlertHistoryEntry,
+  AlertHistoryRow,
+  AlertNotification,
+  AlertNotificationStatus,
+  AlertRule,
+  AlertRuleRow,
+  AlertRuleUpdate,
+  AlertStateRow,
+  NewAlertRule,
+} from "./types.ts";
+
+/** Number of history entries kept (older ones are deleted) */
+export const MAX_ALERT_HISTORY = 1000;
+
+/** Defaults of the error_rate parameters */
+export const DEFAULT_ERROR_RATE_WINDOW_MINUTES = 15;
+export const DEFAULT_ERROR_RATE_MIN_EXECUTIONS = 10;
+
+/** Upper bounds of a rule's window and cooldown (1 week) */
+const MAX_WINDOW_MINUTES = 10080;
+const MAX_COOLDOWN_MINUTES = 10080;
+
+/** Timeout of webhook deliveries */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+$/;
+
+/** A validated rule with its defaults filled in, as written to the database */
+type NormalizedAlertRule = NewAlertRule & { enabled: boolean; cooldownMinutes: number; notifyOnResolve: boolean };
+
+export interface AlertServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+  settingsService: SettingsService;
+  /** Resolves the SMTP password secret */
+  secretsService: SecretsService;
+  codeSourceService: CodeSourceService;
+  schedulingService: SchedulingService;
+  executionMetricsService: ExecutionMetricsService;
+  metricsStateService: MetricsStateService;
+  functionsService: FunctionsService;
+  /** Delivers notifications of the function channel - without it, function rules can't be notified */
+  invokeFunction?: (name: string, notification: AlertNotification) => Promise<unknown>;
+  /** Used for webhook deliveries (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Service for alert rules and their notifications.
+ *
+ * evaluate() runs periodically as a job: every enabled rule's condition is
+ * checked and each subject it finds (a source, schedule or function) fires
+ * once, is re-notified after the rule's cooldown while it keeps firing, and
+ * sends a resolved notification when it clears. Firing subjects are stored in
+ * the alertState table and every notification in the alertHistory table.
+ *
+ * database_unavailable rules are notified by the SurrealDB supervisor instead
+ * (notifyDatabaseUnavailable), from rules and settings cached at the last
+ * evaluation since the database can't be queried at that point.
+ *
+ * ID Handling: All IDs are RecordId internally. Convert to string only at API/UI boundaries.
+ */
+export class AlertService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+  private readonly settingsService: SettingsService;
+  private readonly secretsService: SecretsService;
+  private readonly codeSourceService: CodeSourceService;
+  private readonly schedulingService: SchedulingService;
+  private readonly executionMetricsService: ExecutionMetricsService;
+  private readonly metricsStateService: MetricsStateService;
+  private readonly functionsService: FunctionsService;
+  private readonly invokeFunction?: (name: string, notification: AlertNotification) => Promise<unknown>;
+  private readonly fetchFn: typeof fetch;
+  private readonly writeMutex = new Mutex();
+  private readonly evaluateMutex = new Mutex();
+
+  // Cached for notifications sent while the database is unavailable
+  private cachedRules: AlertRule[] = [];
+  private cachedSmtpConfig: SmtpConfig | null = null;
+  private cachedServerName = GlobalSettingDefaults[SettingNames.SERVER_NAME];
+  /** Last database_unavailable notification per rule ID (in-memory cooldown) */
+  private readonly databaseAlertsSentAt = new Map<string, number>();
+
+  constructor(options: AlertServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+    this.settingsService = options.settingsService;
+    this.secretsService = options.secretsService;
+    this.codeSourceService = options.codeSourceService;
+    this.schedulingService = options.schedulingService;
+    this.executionMetricsService = options.executionMetricsService;
+    this.metricsStateService = options.metricsStateService;
+    this.functionsService = options.functionsService;
+    this.invokeFunction = options.invokeFunction;
+    this.fetchFn = options.fetchFn ?? fetch;
+  }
+
+  // ============== Rule Management ==============
+
+  /**
+   * List all rules, ordered by name.
+   */
+  async getRules(): Promise<AlertRule[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[AlertRuleRow[]]>(`SELECT * FROM alertRule ORDER BY name`);
+      return (rows ?? []).map((row) => this.rowToRule(row));
+    });
+  }
+
+  /**
+   * Get a rule by ID.
+   * @returns null if the rule doesn't exist
+   */
+  async getRuleById(id: string): Promise<AlertRule | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[AlertRuleRow[]]>(
+        `SELECT * FROM $recordId`,
+        { recordId: new RecordId("alertRule", id) },
+      );
+      return rows?.[0] ? this.rowToRule(rows[0]) : null;
+    });
+  }
+
+  /**
+   * Create a rule.
+   * @throws InvalidAlertRuleError if the condition parameters, channel or target are invalid
+   * @throws DuplicateAlertRuleError if a rule with the name already exists
+   */
+  async createRule(input: NewAlertRule): Promise<AlertRule> {
+    using _lock = await this.writeMutex.acquire();
+    const rule = await this.normalizeRule(input);
+
+    try {
+      const created = await this.surrealFactory.withSystemConnection({}, async (db) => {
+        const [rows] = await db.query<[AlertRuleRow[]]>(
+          `CREATE alertRule SET
+            name = $name,
+            enabled = $enabled,
+            condition = $condition,
+            threshold = $threshold,
+            windowMinutes = $windowMinutes,
+            minExecutions = $minExecutions,
+            channel = $channel,
+            target = $target,
+            cooldownMinutes = $cooldownMinutes,
+            notifyOnResolve = $notifyOnResolve`,
+          { ...rule },
+        );
+        return this.rowToRule(rows[0]);
+      });
+      await this.refreshCachedRules();
+      return created;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("unique_alertRule_name")) {
+        throw new DuplicateAlertRuleError(rule.name);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule. Disabling a rule or changing its condition forgets its
+   * firing alerts without notifying.
+   * @throws AlertRuleNotFoundError if the rule doesn't exist
+   * @throws InvalidAlertRuleError if the resulting rule is invalid
+   * @throws DuplicateAlertRuleError if the new name is taken by another rule
+   */
+  async updateRule(id: string, update: AlertRuleUpdate): Promise<AlertRule> {
+    using _lock = await this.writeMutex.acquire();
+
+    const existing = await this.getRuleById(id);
+    if (!existing) {
+      throw new AlertRuleNotFoundError(id);
+    }
+
+    const merged: NewAlertRule = {
+      name: update.name ?? existing.name,
+      enabled: update.enabled ?? existing.enabled,
+      condition: update.condition ?? existing.condition,
+      threshold: "threshold" in update ? update.threshold : existing.threshold,
+      windowMinutes: "windowMinutes" in update ? update.windowMinutes : existing.windowMinutes,
+      minExecutions: "minExecutions" in update ? update.minExecutions : existing.minExecutions,
+      channel: update.channel ?? existing.channel,
+      target: update.target ?? existing.target,
+      cooldownMinutes: update.cooldownMinutes ?? existing.cooldownMinutes,
+      notifyOnResolve: update.notifyOnResolve ?? existing.notifyOnResolve,
+    };
+    const rule = await this.normalizeRule(merged);
+    const forgetState = !rule.enabled || rule.condition !== existing.condition;
+
+    try {
+      const updated = await this.surrealFactory.withSystemConnection({}, async (db) => {
+        const [rows] = await db.query<[AlertRuleRow[]]>(
+          `UPDATE $recordId SET
+            name = $name,
+            enabled = $enabled,
+            condition = $condition,
+            threshold = $threshold,
+            windowMinutes = $windowMinutes,
+            minExecutions = $minExecutions,
+            channel = $channel,
+            target = $target,
+            cooldownMinutes = $cooldownMinutes,
+            notifyOnResolve = $notifyOnResolve`,
+          { ...rule, recordId: existing.id },
+        );
+        if (forgetState) {
+          await db.query(`DELETE alertState WHERE ruleId = $ruleId`, { ruleId: existing.id });
+        }
+        return this.rowToRule(rows[0]);
+      });
+      await this.refreshCachedRules();
+      return updated;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("unique_alertRule_name")) {
+        throw new DuplicateAlertRuleError(rule.name);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a rule. Its firing alerts are deleted and its history is kept.
+   * @throws AlertRuleNotFoundError if the rule doesn't exist
+   */
+  async deleteRule(id: string): Promise<void> {
+    using _lock = await this.writeMutex.acquire();
+
+    const deleted = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      // Firing alerts and history links are cleaned up by the delete_alertRule_state event
+      const [rows] = await db.query<[AlertRuleRow[]]>(
+        `DELETE $recordId RETURN BEFORE`,
+        { recordId: new RecordId("alertRule", id) },
+      );
+      return rows ?? [];
+    });
+
+    if (deleted.length === 0) {
+      throw new AlertRuleNotFoundError(id);
+    }
+    this.databaseAlertsSentAt.delete(id);
+    await this.refreshCachedRules();
+  }
+
+  // ============== Evaluation ==============
+
+  /**
+   * Check the conditions of all enabled rules and send the notifications due.
+   * Runs as the alert-evaluation job; overlapping calls wait for each other.
+   *
+   * @param now - Evaluation time (for tests)
+   */
+  async evaluate(now = new Date()): Promise<AlertEvaluationResult> {
+    using _lock = await this.evaluateMutex.acquire();
+
+    const rules = await this.getRules();
+    const smtpConfig = await this.loadSmtpConfig();
+    const serverName = await this.loadServerName();
+    this.cachedRules = rules;
+    this.cachedSmtpConfig = smtpConfig;
+    this.cachedServerName = serverName;
+
+    const result: AlertEvaluationResult = { rulesEvaluated: 0, notificationsSent: 0, deliveryFailures: 0 };
+    const count = (delivered: boolean) => {
+      if (delivered) result.notificationsSent++;
+      else result.deliveryFailures++;
+    };
+
+    for (const rule of rules) {
+      if (!rule.enabled || rule.condition === "database_unavailable") continue;
+      result.rulesEvaluated++;
+
+      let findings: AlertFinding[];
+      try {
+        findings = await this.findFiring(rule, now);
+      } catch (error) {
+        logger.error(`[Alerts] Failed to evaluate rule '${rule.name}':`, error);
+        continue;
+      }
+
+      const states = await this.getStates(rule.id);
+      const statesBySubject = new Map(states.map((state) => [state.subject, state]));
+      const cooldownMs = rule.cooldownMinutes * 60 * 1000;
+
+      for (const finding of findings) {
+        const state = statesBySubject.get(finding.subject);
+        statesBySubject.delete(finding.subject);
+
+        // Undelivered alerts are retried on the next evaluation
+        if (
+          state?.lastNotifiedAt !== undefined &&
+          now.getTime() - toDate(state.lastNotifiedAt).getTime() < cooldownMs
+        ) {
+          continue;
+        }
+
+        const delivered = await this.notify(rule, "firing", finding, now, smtpConfig, serverName);
+        count(delivered);
+        await this.saveState(rule, finding, state, now, delivered);
+      }
+
+      // Firing subjects that weren't found again have cleared
+      for (const state of statesBySubject.values()) {
+        await this.surrealFactory.withSystemConnection({}, async (db) => {
+          await db.query(`DELETE $recordId`, { recordId: state.id });
+        });
+        if (rule.notifyOnResolve) {
+          const finding = { subject: state.subject, message: `Resolved: ${state.message}` };
+          count(await this.notify(rule, "resolved", finding, now, smtpConfig, serverName));
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Notify the enabled database_unavailable rules. Called by the SurrealDB
+   * supervisor when it runs out of restart attempts.
+   *
+   * Uses the rules and SMTP settings cached at the last evaluation, and keeps
+   * each rule's cooldown in memory. History is recorded if the database
+   * accepts it. No resolved notification is sent for this condition.
+   */
+  async notifyDatabaseUnavailable(error?: Error): Promise<void> {
+    const now = new Date();
+    const finding: AlertFinding = {
+      subject: "database",
+      message: `SurrealDB is unavailable and the supervisor ran out of restart attempts${
+        error ? `: ${error.message}` : ""
+      }. Manual intervention required.`,
+    };
+
+    for (const rule of this.cachedRules) {
+      if (!rule.enabled || rule.condition !== "database_unavailable") continue;
+
+      const ruleId = recordIdToString(rule.id);
+      const lastSentAt = this.databaseAlertsSentAt.get(ruleId);
+      if (lastSentAt !== undefined && now.getTime() - lastSentAt < rule.cooldownMinutes * 60 * 1000) {
+        continue;
+      }
+      this.databaseAlertsSentAt.set(ruleId, now.getTime());
+
+      await this.notify(rule, "firing", finding, now, this.cachedSmtpConfig, this.cachedServerName);
+    }
+  }
+
+  /**
+   * Send a test notification through a rule's channel.
+   * @throws AlertRuleNotFoundError if the rule doesn't exist
+   * @throws AlertDeliveryError if the channel didn't accept the notification
+   */
+  async sendTest(ruleId: string): Promise<void> {
+    const rule = await this.getRuleById(ruleId);
+    if (!rule) {
+      throw new AlertRuleNotFoundError(ruleId);
+    }
+
+    const finding: AlertFinding = {
+      subject: "test",
+      message: `Test notification of alert rule '${rule.name}'`,
+    };
+    const notification = this.buildNotification(rule, "test", finding, new Date(), await this.loadServerName());
+
+    let deliveryError: string | undefined;
+    try {
+      await this.deliver(rule, notification, await this.loadSmtpConfig());
+    } catch (error) {
+      deliveryError = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.recordHistory(rule, notification, deliveryError);
+    if (deliveryError !== undefined) {
+      throw new AlertDeliveryError(deliveryError);
+    }
+  }
+
+  // ============== History ==============
+
+  /**
+   * List sent notifications, newest first.
+   */
+  async getHistory(options: { limit?: number; ruleId?: string } = {}): Promise<AlertHistoryEntry[]> {
+    const limit = options.limit ?? 100;
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = options.ruleId
+        ? await db.query<[AlertHistoryRow[]]>(
+          `SELECT * FROM alertHistory WHERE ruleId = $ruleId ORDER BY createdAt DESC LIMIT $limit`,
+          { ruleId: new RecordId("alertRule", options.ruleId), limit },
+        )
+        : await db.query<[AlertHistoryRow[]]>(
+          `SELECT * FROM alertHistory ORDER BY createdAt DESC LIMIT $limit`,
+          { limit },
+        );
+      return (rows ?? []).map((row) => ({ ...row, createdAt: toDate(row.createdAt) }));
+    });
+  }
+
+  // ============== Conditions ==============
+
+  /**
+   * The subjects a rule's condition currently fires for.
+   */
+  private async findFiring(rule: AlertRule, now: Date): Promise<AlertFinding[]> {
+    switch (rule.condition) {
+      case "source_sync_failed": {
+        const sources = await this.codeSourceService.getAll();
+        return sources
+          .filter((source) => source.enabled && source.lastSyncError)
+          .map((source) => ({
+            subject: `source:${source.id}`,
+            message: `Sync of code source '${source.name}' failed: ${source.lastSyncError}`,
+          }));
+      }
+      case "schedule_error": {
+        const schedules = await this.schedulingService.getSchedules("error");
+        return schedules.map((schedule) => ({
+          subject: `schedule:${schedule.name}`,
+          message: `Schedule '${schedule.name}' entered the error state: ${schedule.lastError ?? "unknown error"}`,
+        }));
+      }
+      case "error_rate":
+        return await this.findErrorRates(rule, now);
+      case "database_unavailable":
+        return [];
+    }
+  }
+
+  /**
+   * Functions whose share of failed executions (errors, timeouts and load
+   * errors) in the rule's window reaches the threshold.
+   */
+  private async findErrorRates(rule: AlertRule, now: Date): Promise<AlertFinding[]> {
+    const windowMinutes = rule.windowMinutes ?? DEFAULT_ERROR_RATE_WINDOW_MINUTES;
+    const minExecutions = rule.minExecutions ?? DEFAULT_ERROR_RATE_MIN_EXECUTIONS;
+    const threshold = rule.threshold ?? 0;
+    const start = new Date(now.getTime() - windowMinutes * 60 * 1000);
+
+    // Executions before the minute marker were rolled up into minute records
+    // and deleted - count those from minute records and the rest individually
+    const marker = await this.metricsStateService.getMarker("lastProcessedMinute");
+    const split = marker && marker > start ? (marker < now ? marker : now) : start;
+    const [minutes, executions] = await Promise.all([
+      split > start
+        ? this.executionMetricsService.aggregatePerFunctionInTimeWindow("minute", start, split)
+        : Promise.resolve(new Map<string, AggregationResult>()),
+      this.executionMetricsService.aggregatePerFunctionInTimeWindow("execution", split, now),
+    ]);
+
+    const totals = new Map<string, { executions: number; failed: number }>();
+    for (const results of [minutes, executions]) {
+      for (const [functionId, result] of results) {
+        const total = totals.get(functionId) ?? { executions: 0, failed: 0 };
+        total.executions += result.executionCount;
+        total.failed += result.errorCount + result.timeoutCount + result.loadErrorCount;
+        totals.set(functionId, total);
+      }
+    }
+
+    const functions = await this.functionsService.getAll();
+    const names = new Map(functions.map((fn) => [recordIdToString(fn.id), fn.name]));
+
+    const findings: AlertFinding[] = [];
+    for (const [functionId, total] of totals) {
+      const name = names.get(functionId);
+      if (!name || total.executions < minExecutions) continue;
+
+      const rate = (total.failed / total.executions) * 100;
+      if (rate >= threshold) {
+        findings.push({
+          subject: `function:${functionId}`,
+          message: `Function '${name}': ${total.failed} of ${total.executions} executions failed in the last ${windowMinutes} minutes (${
+            rate.toFixed(1)
+          }%, threshold ${threshold}%)`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  // ============== Notifications ==============
+
+  /**
+   * Deliver a notification and record it in the history.
+   * @returns Whether the channel accepted the notification
+   */
+  private async notify(
+    rule: AlertRule,
+    status: AlertNotificationStatus,
+    finding: AlertFinding,
+    now: Date,
+    smtpConfig: SmtpConfig | null,
+    serverName: string,
+  ): Promise<boolean> {
+    const notification = this.buildNotification(rule, status, finding, now, serverName);
+
+    let deliveryError: string | undefined;
+    try {
+      await this.deliver(rule, notification, smtpConfig);
+    } catch (error) {
+      deliveryError = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Alerts] Failed to deliver ${status} notification of rule '${rule.name}': ${deliveryError}`);
+    }
+
+    try {
+      await this.recordHistory(rule, notification, deliveryError);
+    } catch (error) {
+      logger.warn(`[Alerts] Failed to record notification of rule '${rule.name}':`, error);
+    }
+    return deliveryError === undefined;
+  }
+
+  private buildNotification(
+    rule: AlertRule,
+    status: AlertNotificationStatus,
+    finding: AlertFinding,
+    now: Date,
+    serverName: string,
+  ): AlertNotification {
+    return {
+      rule: rule.name,
+      condition: rule.condition,
+      status,
+      subject: finding.subject,
+      message: finding.message,
+      timestamp: now.toISOString(),
+      server: serverName,
+    };
+  }
+
+  /**
+   * Send a notification through the rule's channel.
+   * @throws AlertDeliveryError if the channel didn't accept it
+   */
+  private async deliver(
+    rule: AlertRule,
+    notification: AlertNotification,
+    smtpConfig: SmtpConfig | null,
+  ): Promise<void> {
+    switch (rule.channel) {
+      case "webhook": {
+        let response: Response;
+        try {
+          response = await this.fetchFn(rule.target, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(notification),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+          });
+        } catch (error) {
+          throw new AlertDeliveryError(
+            `Webhook request failed: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+        await response.body?.cancel();
+        if (!response.ok) {
+          throw new AlertDeliveryError(`Webhook responded with HTTP ${response.status}`);
+        }
+        return;
+      }
+      case "email": {
+        if (!smtpConfig) {
+          throw new AlertDeliveryError(`SMTP host is not configured (${SettingNames.ALERTS_SMTP_HOST})`);
+        }
+        try {
+          await sendMail(smtpConfig, {
+            to: parseEmailAddresses(rule.target),
+            subject: `[${notification.server}] ${notification.status.toUpperCase()}: ${rule.name}`,
+            text: [
+              notification.message,
+              "",
+              `Rule: ${rule.name} (${rule.condition})`,
+              `Subject: ${notification.subject}`,
+              `Time: ${notification.timestamp}`,
+            ].join("\n"),
+          });
+        } catch (error) {
+          throw new AlertDeliveryError(error instanceof SmtpError ? error.message : String(error));
+        }
+        return;
+      }
+      case "function": {
+        if (!this.invokeFunction) {
+          throw new AlertDeliveryError("Function notifications are not available");
+        }
+        try {
+          await this.invokeFunction(rule.target, notification);
+        } catch (error) {
+          throw new AlertDeliveryError(error instanceof Error ? error.message : String(error));
+        }
+        return;
+      }
+    }
+  }
+
+  private async recordHistory(
+    rule: AlertRule,
+    notification: AlertNotification,
+    deliveryError: string | undefined,
+  ): Promise<void> {
+    using _lock = await this.writeMutex.acquire();
+
+    await this.surrealFactory.withSystemConnection({}, async (db) => {
+      await db.query(
+        `CREATE alertHistory SET
+          ruleId = $ruleId,
+          ruleName = $ruleName,
+          condition = $condition,
+          subject = $subject,
+          status = $status,
+          message = $message,
+          channel = $channel,
+          target = $target,
+          delivered = $delivered,
+          error = $error`,
+        {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          condition: rule.condition,
+          subject: notification.subject,
+          status: notification.status,
+          message: notification.message,
+          channel: rule.channel,
+          target: rule.target,
+          delivered: deliveryError === undefined,
+          error: deliveryError,
+        },
+      );
+
+      await db.query(
+        `DELETE alertHistory WHERE id NOT IN (
+          SELECT id, createdAt FROM alertHistory ORDER BY createdAt DESC LIMIT $keep
+        ).id`,
+        { keep: MAX_ALERT_HISTORY },
+      );
+    });
+  }
+
+  // ============== Helper Methods ==============
+
+  private async getStates(ruleId: RecordId): Promise<AlertStateRow[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[AlertStateRow[]]>(
+        `SELECT * FROM alertState WHERE ruleId = $ruleId`,
+        { ruleId },
+      );
+      return rows ?? [];
+    });
+  }
+
+  /**
+   * Create or update the state of a firing alert. The notification time is
+   * only recorded when the notification was delivered.
+   */
+  private async saveState(
+    rule: AlertRule,
+    finding: AlertFinding,
+    existing: AlertStateRow | undefined,
+    now: Date,
+    delivered: boolean,
+  ): Promise<void> {
+    const notifiedAt = delivered ? now : undefined;
+    await this.surrealFactory.withSystemConnection({}, async (db) => {
+      if (existing) {
+        await db.query(
+          delivered
+            ? `UPDATE $recordId SET message = $message, lastNotifiedAt = $notifiedAt`
+            : `UPDATE $recordId SET message = $message`,
+          { recordId: existing.id, message: finding.message, notifiedAt },
+        );
+      } else {
+        await db.query(
+          `CREATE alertState SET
+            ruleId = $ruleId,
+            subject = $subject,
+            message = $message,
+            firingSince = $now,
+            lastNotifiedAt = $notifiedAt`,
+          { ruleId: rule.id, subject: finding.subject, message: finding.message, now, notifiedAt },
+        );
+      }
+    });
+  }
+
+  /**
+   * Validate a rule and fill in defaults. Parameters that don't apply to the
+   * condition are dropped.
+   * @throws InvalidAlertRuleError
+   */
+  private async normalizeRule(input: NewAlertRule): Promise<NormalizedAlertRule> {
+    const name = input.name?.trim() ?? "";
+    if (!name || name.length > 100) {
+      throw new InvalidAlertRuleError("Name must be 1-100 characters");
+    }
+    if (!isAlertCondition(input.condition)) {
+      throw new InvalidAlertRuleError(`Invalid condition '${input.condition}'`);
+    }
+    if (!isAlertChannel(input.channel)) {
+      throw new InvalidAlertRuleError(`Invalid channel '${input.channel}'`);
+    }
+
+    const cooldownMinutes = input.cooldownMinutes ?? 60;
+    if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0 || cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+      throw new InvalidAlertRuleError(`Cooldown must be an integer between 0 and ${MAX_COOLDOWN_MINUTES} minutes`);
+    }
+
+    let threshold: number | undefined;
+    let windowMinutes: number | undefined;
+    let minExecutions: number | undefined;
+    if (input.condition === "error_rate") {
+      threshold = input.threshold;
+      if (typeof threshold !== "number" || !(threshold > 0 && threshold <= 100)) {
+        throw new InvalidAlertRuleError("error_rate rules need a threshold between 0 and 100 (percent)");
+      }
+      windowMinutes = input.windowMinutes ?? DEFAULT_ERROR_RATE_WINDOW_MINUTES;
+      if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_WINDOW_MINUTES) {
+        throw new InvalidAlertRuleError(`Window must be an integer between 1 and ${MAX_WINDOW_MINUTES} minutes`);
+      }
+      minExecutions = input.minExecutions ?? DEFAULT_ERROR_RATE_MIN_EXECUTIONS;
+      if (!Number.isInteger(minExecutions) || minExecutions < 1) {
+        throw new InvalidAlertRuleError("Minimum executions must be a positive integer");
+      }
+    }
+
+    const target = input.target?.trim() ?? "";
+    switch (input.channel) {
+      case "webhook": {
+        let url: URL | null = null;
+        try {
+          url = new URL(target);
+        } catch {
+          // Reported below
+        }
+        if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+          throw new InvalidAlertRuleError("Webhook target must be an http(s) URL");
+        }
+        break;
+      }
+      case "email":
+        if (parseEmailAddresses(target).length === 0) {
+          throw new InvalidAlertRuleError("Email target must be a comma-separated list of addresses");
+        }
+        break;
+      case "function":
+        if (!(await this.functionsService.getByName(target))) {
+          throw new InvalidAlertRuleError(`Function '${target}' does not exist`);
+        }
+        break;
+    }
+
+    return {
+      name,
+      enabled: input.enabled ?? true,
+      condition: input.condition,
+      threshold,
+      windowMinutes,
+      minExecutions,
+      channel: input.channel,
+      target,
+      cooldownMinutes,
+      notifyOnResolve: input.notifyOnResolve ?? true,
+    };
+  }
+
+  /**
+   * Read the SMTP settings.
+   * @returns null if no SMTP host is configured
+   */
+  private async loadSmtpConfig(): Promise<SmtpConfig | null> {
+    const setting = async (name: SettingName) =>
+      (await this.settingsService.getGlobalSetting(name)) ?? GlobalSettingDefaults[name];
+
+    const host = await setting(SettingNames.ALERTS_SMTP_HOST);
+    if (!host) return null;
+
+    const username = await setting(SettingNames.ALERTS_SMTP_USERNAME);
+    const passwordSecret = await setting(SettingNames.ALERTS_SMTP_PASSWORD_SECRET);
+    return {
+      host,
+      port: parseInt(await setting(SettingNames.ALERTS_SMTP_PORT), 10) || 587,
+      security: (await setting(SettingNames.ALERTS_SMTP_SECURITY)) as SmtpSecurity,
+      username: username || undefined,
+      password: passwordSecret ? await this.secretsService.getSecretByScope(passwordSecret, "global") : undefined,
+      from: await setting(SettingNames.ALERTS_SMTP_FROM),
+    };
+  }
+
+  private async loadServerName(): Promise<string> {
+    return (await this.settingsService.getGlobalSetting(SettingNames.SERVER_NAME)) ??
+      GlobalSettingDefaults[SettingNames.SERVER_NAME];
+  }
+
+  private async refreshCachedRules(): Promise<void> {
+    this.cachedRules = await this.getRules();
+  }
+
+  private rowToRule(row: AlertRuleRow): AlertRule {
+    return {
+      ...row,
+      createdAt: toDate(row.createdAt),
+      updatedAt: toDate(row.updatedAt),
+    };
+  }
+}
+
+/**
+ * Split a comma-separated recipient list.
+ * @returns An empty array if any address is malformed
+ */
+export function parseEmailAddresses(value: string): string[] {
+  const addresses = value.split(",").map((address) => address.trim()).filter((address) => address !== "");
+  return addresses.every((address) => EMAIL_PATTERN.test(address)) ? addresses : [];
+}
@@ -0,0 +1,298 @@
+import { expect } from "@std/expect";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import type { FullTestContext } from "../test/types.ts";
+import { AlertService } from "./alert_service.ts";
+import { AlertDeliveryError, DuplicateAlertRuleError, InvalidAlertRuleError } from "./errors.ts";
+import type { AlertNotification } from "./types.ts";
+
+/**
+ * Local HTTP receiver recording the webhook notifications it gets.
+ */
+function startWebhookReceiver(status = 200) {
+  const received: AlertNotification[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (req) => {
+    received.push(await req.json());
+    return new Response(null, { status });
+  });
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/hook`,
+    received,
+    close: () => server.shutdown(),
+  };
+}
+
+/**
+ * Create an alert service whose function channel records the notifications.
+ * @param failedInvocations - Number of invocations that fail before they succeed
+ */
+function createAlertService(
+  ctx: FullTestContext,
+  invoked: { name: string; notification: AlertNotification }[] = [],
+  failedInvocations = 0,
+) {
+  return new AlertService({
+    surrealFactory: ctx.surrealFactory,
+    settingsService: ctx.settingsService,
+    secretsService: ctx.secretsService,
+    codeSourceService: ctx.codeSourceService,
+    schedulingService: ctx.schedulingService,
+    executionMetricsService: ctx.executionMetricsService,
+    metricsStateService: ctx.metricsStateService,
+    functionsService: ctx.functionsService,
+    invokeFunction: (name, notification) => {
+      if (failedInvocations > 0) {
+        failedInvocations--;
+        return Promise.reject(new Error("function unavailable"));
+      }
+      invoked.push({ name, notification });
+      return Promise.resolve();
+    },
+  });
+}
+
+/**
+ * Store one execution metric per outcome for a function.
+ */
+async function storeExecutions(ctx: FullTestContext, functionName: string, succeeded: number, failed: number) {
+  const fn = await ctx.functionsService.getByName(functionName);
+  for (let i = 0; i < succeeded + failed; i++) {
+    await ctx.executionMetricsService.store({
+      functionId: fn!.id,
+      type: "execution",
+      avgTimeUs: 1000,
+      maxTimeUs: 1000,
+      executionCount: 1,
+      errorCount: i < failed ? 1 : 0,
+    });
+  }
+}
+
+integrationTest("AlertService validates rules", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/notify", "notify.ts", { name: "notify", methods: ["POST"] })
+    .build();
+  try {
+    const alertService = createAlertService(ctx);
+
+    const rule = await alertService.createRule({
+      name: "Errors",
+      condition: "error_rate",
+      threshold: 50,
+      channel: "function",
+      target: "notify",
+    });
+    expect(rule.windowMinutes).toBe(15);
+    expect(rule.minExecutions).toBe(10);
+    expect(rule.cooldownMinutes).toBe(60);
+    expect(rule.enabled).toBe(true);
+
+    await expect(
+      alertService.createRule({ name: "Errors", condition: "schedule_error", channel: "function", target: "notify" }),
+    ).rejects.toThrow(DuplicateAlertRuleError);
+    await expect(
+      alertService.createRule({ name: "No threshold", condition: "error_rate", channel: "function", target: "notify" }),
+    ).rejects.toThrow(InvalidAlertRuleError);
+    await expect(
+      alertService.createRule({ name: "Bad URL", condition: "schedule_error", channel: "webhook", target: "ftp://x" }),
+    ).rejects.toThrow(InvalidAlertRuleError);
+    await expect(
+      alertService.createRule({
+        name: "Header injection",
+        condition: "schedule_error",
+        channel: "email",
+        target: "ops@example.com\r\nBcc: x@example.com",
+      }),
+    ).rejects.toThrow(InvalidAlertRuleError);
+    await expect(
+      alertService.createRule({ name: "Missing function", condition: "schedule_error", channel: "function", target: "nope" }),
+    ).rejects.toThrow(InvalidAlertRuleError);
+
+    // Switching away from error_rate drops its parameters
+    const updated = await alertService.updateRule(recordIdToString(rule.id), { condition: "schedule_error" });
+    expect(updated.condition).toBe("schedule_error");
+    expect(updated.threshold).toBeUndefined();
+    expect(updated.name).toBe("Errors");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AlertService notifies a webhook once per cooldown and when the error rate clears", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/flaky", "flaky.ts", { name: "flaky", methods: ["GET"] })
+    .withFunction("/stable", "stable.ts", { name: "stable", methods: ["GET"] })
+    .build();
+  const receiver = startWebhookReceiver();
+  try {
+    const alertService = createAlertService(ctx);
+    await alertService.createRule({
+      name: "Error rate",
+      condition: "error_rate",
+      threshold: 25,
+      windowMinutes: 5,
+      minExecutions: 4,
+      channel: "webhook",
+      target: receiver.url,
+      cooldownMinutes: 10,
+    });
+    await storeExecutions(ctx, "flaky", 2, 2);
+    await storeExecutions(ctx, "stable", 4, 0);
+
+    const now = new Date();
+    const first = await alertService.evaluate(now);
+    expect(first).toEqual({ rulesEvaluated: 1, notificationsSent: 1, deliveryFailures: 0 });
+    expect(receiver.received.length).toBe(1);
+    expect(receiver.received[0]).toMatchObject({ rule: "Error rate", condition: "error_rate", status: "firing" });
+    expect(receiver.received[0].message).toContain("'flaky': 2 of 4 executions failed");
+
+    // Still firing within the cooldown - no new notification
+    const second = await alertService.evaluate(new Date(now.getTime() + 60 * 1000));
+    expect(second.notificationsSent).toBe(0);
+
+    // Executions left the window - the alert resolves
+    const resolved = await alertService.evaluate(new Date(now.getTime() + 6 * 60 * 1000));
+    expect(resolved.notificationsSent).toBe(1);
+    expect(receiver.received[1]).toMatchObject({ status: "resolved", subject: receiver.received[0].subject });
+
+    const history = await alertService.getHistory();
+    expect(history.map((entry) => entry.status)).toEqual(["resolved", "firing"]);
+    expect(history.every((entry) => entry.delivered)).toBe(true);
+  } finally {
+    await receiver.close();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AlertService re-notifies after the cooldown and invokes functions", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/notify", "notify.ts", { name: "notify", methods: ["POST"] })
+    .build();
+  try {
+    const invoked: { name: string; notification: AlertNotification }[] = [];
+    const alertService = createAlertService(ctx, invoked);
+    await alertService.createRule({
+      name: "Sync failures",
+      condition: "source_sync_failed",
+      channel: "function",
+      target: "notify",
+      cooldownMinutes: 30,
+    });
+
+    const source = await ctx.codeSourceService.create({ name: "broken", type: "manual" });
+    await ctx.codeSourceService.markSyncFailed(source.id, "repository not found");
+
+    const now = new Date();
+    await alertService.evaluate(now);
+    await alertService.evaluate(new Date(now.getTime() + 29 * 60 * 1000));
+    await alertService.evaluate(new Date(now.getTime() + 31 * 60 * 1000));
+
+    expect(invoked.length).toBe(2);
+    expect(invoked[0].name).toBe("notify");
+    expect(invoked[0].notification.subject).toBe(`source:${source.id}`);
+    expect(invoked[0].notification.message).toContain("repository not found");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AlertService retries undelivered notifications on the next evaluation", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/notify", "notify.ts", { name: "notify", methods: ["POST"] })
+    .build();
+  try {
+    const invoked: { name: string; notification: AlertNotification }[] = [];
+    const alertService = createAlertService(ctx, invoked, 1);
+    await alertService.createRule({
+      name: "Sync failures",
+      condition: "source_sync_failed",
+      channel: "function",
+      target: "notify",
+      cooldownMinutes: 30,
+    });
+
+    const source = await ctx.codeSourceService.create({ name: "broken", type: "manual" });
+    await ctx.codeSourceService.markSyncFailed(source.id, "repository not found");
+
+    // The first delivery fails, the next evaluation retries despite the cooldown
+    const now = new Date();
+    const first = await alertService.evaluate(now);
+    expect(first).toEqual({ rulesEvaluated: 1, notificationsSent: 0, deliveryFailures: 1 });
+    const second = await alertService.evaluate(new Date(now.getTime() + 60 * 1000));
+    expect(second).toEqual({ rulesEvaluated: 1, notificationsSent: 1, deliveryFailures: 0 });
+    expect(invoked.length).toBe(1);
+
+    // Delivered - the cooldown applies again
+    const third = await alertService.evaluate(new Date(now.getTime() + 2 * 60 * 1000));
+    expect(third.notificationsSent).toBe(0);
+    expect(invoked.length).toBe(1);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AlertService.sendTest records failed deliveries", async () => {
+  const ctx = await TestSetupBuilder.create().withAll().build();
+  const receiver = startWebhookReceiver(500);
+  try {
+    const alertService = createAlertService(ctx);
+    const rule = await alertService.createRule({
+      name: "Schedules",
+      condition: "schedule_error",
+      channel: "webhook",
+      target: receiver.url,
+    });
+
+    await expect(alertService.sendTest(recordIdToString(rule.id))).rejects.toThrow(AlertDeliveryError);
+
+    const history = await alertService.getHistory({ ruleId: recordIdToString(rule.id) });
+    expect(history.length).toBe(1);
+    expect(history[0].status).toBe("test");
+    expect(history[0].delivered).toBe(false);
+    expect(history[0].error).toContain("HTTP 500");
+
+    // History outlives the rule
+    await alertService.deleteRule(recordIdToString(rule.id));
+    const [entry] = await alertService.getHistory();
+    expect(entry.ruleName).toBe("Schedules");
+    expect(entry.ruleId).toBeUndefined();
+  } finally {
+    await receiver.close();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AlertService notifies database_unavailable rules from cached rules", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/notify", "notify.ts", { name: "notify", methods: ["POST"] })
+    .build();
+  try {
+    const invoked: { name: string; notification: AlertNotification }[] = [];
+    const alertService = createAlertService(ctx, invoked);
+    await alertService.createRule({
+      name: "Database",
+      condition: "database_unavailable",
+      channel: "function",
+      target: "notify",
+    });
+
+    // Evaluation skips the rule - the supervisor triggers it
+    const result = await alertService.evaluate();
+    expect(result.rulesEvaluated).toBe(0);
+
+    await alertService.notifyDatabaseUnavailable(new Error("connection refused"));
+    await alertService.notifyDatabaseUnavailable(new Error("connection refused"));
+
+    expect(invoked.length).toBe(1);
+    expect(invoked[0].notification).toMatchObject({ condition: "database_unavailable", status: "firing" });
+    expect(invoked[0].notification.message).toContain("connection refused");
+  } finally {
+    await ctx.cleanup();
+  }
+});
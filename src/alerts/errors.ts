@@ -0,0 +1,52 @@
+/**
+ * Base error class for alert errors.
+ */
+export class AlertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertError";
+  }
+}
+
+/**
+ * Thrown when an alert rule is not found by ID.
+ */
+export class AlertRuleNotFoundError extends AlertError {
+  public readonly ruleId: string;
+
+  constructor(ruleId: string) {
+    super(`Alert rule '${ruleId}' not found`);
+    this.name = "AlertRuleNotFoundError";
+    this.ruleId = ruleId;
+  }
+}
+
+/**
+ * Thrown when creating or renaming a rule to a name that is already taken.
+ */
+export class DuplicateAlertRuleError extends AlertError {
+  constructor(name: string) {
+    super(`An alert rule named '${name}' already exists`);
+    this.name = "DuplicateAlertRuleError";
+  }
+}
+
+/**
+ * Thrown when a rule's condition parameters, channel or target are invalid.
+ */
+export class InvalidAlertRuleError extends AlertError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAlertRuleError";
+  }
+}
+
+/**
+ * Thrown when a notification could not be delivered to its channel.
+ */
+export class AlertDeliveryError extends AlertError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertDeliveryError";
+  }
+}
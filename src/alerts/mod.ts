@@ -0,0 +1,50 @@
+/**
+ * Alerts Module
+ *
+ * Notifies operators when things break:
+ * - Failed source syncs, schedules in error state, function error rates,
+ *   and the database supervisor running out of restart attempts
+ * - Webhook, SMTP email and function notification channels
+ * - Cooldown per firing subject, resolved notifications and a history
+ */
+
+// Service
+export {
+  AlertService,
+  MAX_ALERT_HISTORY,
+  DEFAULT_ERROR_RATE_WINDOW_MINUTES,
+  DEFAULT_ERROR_RATE_MIN_EXECUTIONS,
+  parseEmailAddresses,
+} from "./alert_service.ts";
+export type { AlertServiceOptions } from "./alert_service.ts";
+
+// Routes
+export { createAlertRoutes } from "./alert_routes.ts";
+
+// SMTP
+export { sendMail, formatMessage, SmtpError } from "./smtp_client.ts";
+export type { SmtpConfig, SmtpSecurity, MailMessage } from "./smtp_client.ts";
+
+// Errors
+export {
+  AlertError,
+  AlertRuleNotFoundError,
+  DuplicateAlertRuleError,
+  InvalidAlertRuleError,
+  AlertDeliveryError,
+} from "./errors.ts";
+
+// Types
+export { ALERT_CONDITIONS, ALERT_CHANNELS, isAlertCondition, isAlertChannel } from "./types.ts";
+export type {
+  AlertCondition,
+  AlertChannel,
+  AlertRule,
+  NewAlertRule,
+  AlertRuleUpdate,
+  AlertFinding,
+  AlertNotificationStatus,
+  AlertNotification,
+  AlertHistoryEntry,
+  AlertEvaluationResult,
+} from "./types.ts";
@@ -0,0 +1,228 @@
+/**
+ * Minimal SMTP client for alert emails (RFC 5321).
+ *
+ * Supports plain connections, STARTTLS and implicit TLS, AUTH PLAIN, and
+ * plain text UTF-8 messages - enough to hand notifications to a mail relay.
+ */
+
+/** Connection security of the SMTP server */
+export type SmtpSecurity = "none" | "starttls" | "tls";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  /** Username for AUTH PLAIN (no authentication when empty) */
+  username?: string;
+  password?: string;
+  /** Sender address */
+  from: string;
+  /** Timeout of the whole exchange in milliseconds (default: 15000) */
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Thrown when the server rejects a command or the exchange fails.
+ */
+export class SmtpError extends Error {
+  /** Reply code of the rejected command (undefined for connection errors) */
+  public readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = "SmtpError";
+    this.code = code;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Line-oriented SMTP session over a TCP or TLS connection.
+ */
+class SmtpSession {
+  private buffer = "";
+  private readonly decoder = new TextDecoder();
+
+  constructor(private conn: Deno.Conn | Deno.TlsConn) {}
+
+  async readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    while (true) {
+      const line = await this.readLine();
+      const code = parseInt(line.slice(0, 3), 10);
+      if (isNaN(code)) {
+        throw new SmtpError(`Malformed SMTP reply: ${line}`);
+      }
+      lines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        return { code, lines };
+      }
+    }
+  }
+
+  /**
+   * Send a command and check the reply code.
+   */
+  async command(command: string, expected: number[], display = command): Promise<SmtpReply> {
+    await this.write(`${command}\r\n`);
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${display} rejected: ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply;
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+
+  /**
+   * Upgrade the connection to TLS (after a successful STARTTLS command).
+   */
+  async startTls(hostname: string): Promise<void> {
+    this.conn = await Deno.startTls(this.conn as Deno.TcpConn, { hostname });
+    this.buffer = "";
+  }
+
+  close(): void {
+    try {
+      this.conn.close();
+    } catch {
+      // Already closed
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    while (!this.buffer.includes("\r\n")) {
+      const read = await this.conn.read(chunk);
+      if (read === null) {
+        throw new SmtpError("SMTP server closed the connection");
+      }
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+    const end = this.buffer.indexOf("\r\n");
+    const line = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end + 2);
+    return line;
+  }
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it isn't plain ASCII.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const bytes = encoder.encode(value);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+}
+
+/**
+ * Build the message in RFC 5322 format, dot-stuffed for the DATA command.
+ */
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = from.includes("@") ? from.slice(from.lastIndexOf("@") + 1) : "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+/**
+ * Send a plain text email.
+ * @throws SmtpError if the server rejects the message or the exchange fails
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new SmtpError("No recipients");
+  }
+
+  let conn: Deno.Conn | Deno.TlsConn;
+  try {
+    conn = config.security === "tls"
+      ? await Deno.connectTls({ hostname: config.host, port: config.port })
+      : await Deno.connect({ hostname: config.host, port: config.port });
+  } catch (error) {
+    throw new SmtpError(
+      `Could not connect to ${config.host}:${config.port}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const session = new SmtpSession(conn);
+  // Closing the connection makes pending reads fail, ending the exchange
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    session.close();
+  }, config.timeoutMs ?? 15000);
+
+  try {
+    const greeting = await session.readReply();
+    if (greeting.code !== 220) {
+      throw new SmtpError(`SMTP server not ready: ${greeting.code} ${greeting.lines.join(" ")}`, greeting.code);
+    }
+
+    const ehlo = await session.command("EHLO crude-functions", [250]);
+    if (config.security === "starttls") {
+      if (!ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+        throw new SmtpError("SMTP server does not support STARTTLS");
+      }
+      await session.command("STARTTLS", [220]);
+      await session.startTls(config.host);
+      await session.command("EHLO crude-functions", [250]);
+    }
+
+    if (config.username) {
+      const credentials = btoa(
+        String.fromCharCode(...encoder.encode(`\0${config.username}\0${config.password ?? ""}`)),
+      );
+      await session.command(`AUTH PLAIN ${credentials}`, [235], "AUTH PLAIN");
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    await session.command(`${formatMessage(config.from, message)}.`, [250], "message");
+    await session.command("QUIT", [221]).catch(() => {});
+  } catch (error) {
+    if (timedOut) {
+      throw new SmtpError(`SMTP exchange with ${config.host}:${config.port} timed out`);
+    }
+    if (error instanceof SmtpError) throw error;
+    throw new SmtpError(`SMTP exchange failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+    session.close();
+  }
+}
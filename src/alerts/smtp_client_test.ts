@@ -0,0 +1,133 @@
+import { expect } from "@std/expect";
+import { formatMessage, sendMail, SmtpError } from "./smtp_client.ts";
+
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Local SMTP sink: accepts one session and records its commands and message.
+ * `rejectRecipients` answers RCPT TO with 550.
+ */
+function startSmtpSink(options: { rejectRecipients?: boolean } = {}) {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const received = (async (): Promise<ReceivedMail> => {
+    const conn = await listener.accept();
+    const mail: ReceivedMail = { commands: [], data: "" };
+    const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+
+    await reply("220 sink ready");
+    let buffer = "";
+    let inData = false;
+    const chunk = new Uint8Array(4096);
+
+    try {
+      while (true) {
+        const read = await conn.read(chunk);
+        if (read === null) break;
+        buffer += decoder.decode(chunk.subarray(0, read));
+
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) continue;
+          mail.data = buffer.slice(0, end + 2);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          await reply("250 queued");
+        }
+
+        let lineEnd;
+        while (!inData && (lineEnd = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          mail.commands.push(line);
+
+          if (line.startsWith("EHLO")) {
+            await reply("250-sink");
+            await reply("250 AUTH PLAIN");
+          } else if (line.startsWith("AUTH PLAIN")) await reply("235 authenticated");
+          else if (line.startsWith("MAIL FROM")) await reply("250 ok");
+          else if (line.startsWith("RCPT TO")) await reply(options.rejectRecipients ? "550 no such user" : "250 ok");
+          else if (line === "DATA") {
+            await reply("354 go ahead");
+            inData = true;
+          } else if (line === "QUIT") {
+            await reply("221 bye");
+            return mail;
+          } else await reply("502 unknown");
+        }
+      }
+      return mail;
+    } finally {
+      conn.close();
+      listener.close();
+    }
+  })();
+
+  return { port: (listener.addr as Deno.NetAddr).port, received };
+}
+
+Deno.test("sendMail delivers a message to a local SMTP sink", async () => {
+  const sink = startSmtpSink();
+
+  await sendMail(
+    { host: "127.0.0.1", port: sink.port, security: "none", username: "alerts", password: "s3cret", from: "alerts@example.com" },
+    { to: ["ops@example.com", "dev@example.com"], subject: "Source sync failed ⚠", text: "Line one\n.hidden dot line" },
+  );
+
+  const mail = await sink.received;
+  expect(mail.commands).toEqual([
+    "EHLO crude-functions",
+    `AUTH PLAIN ${btoa("\0alerts\0s3cret")}`,
+    "MAIL FROM:<alerts@example.com>",
+    "RCPT TO:<ops@example.com>",
+    "RCPT TO:<dev@example.com>",
+    "DATA",
+    "QUIT",
+  ]);
+  expect(mail.data).toContain("To: ops@example.com, dev@example.com\r\n");
+  expect(mail.data).toContain("Subject: =?UTF-8?B?");
+  expect(mail.data).toContain("\r\n\r\nLine one\r\n..hidden dot line\r\n");
+});
+
+Deno.test("sendMail reports rejected recipients", async () => {
+  const sink = startSmtpSink({ rejectRecipients: true });
+
+  const error = await sendMail(
+    { host: "127.0.0.1", port: sink.port, security: "none", from: "alerts@example.com" },
+    { to: ["nobody@example.com"], subject: "Test", text: "Test" },
+  ).catch((e) => e);
+
+  expect(error).toBeInstanceOf(SmtpError);
+  expect(error.code).toBe(550);
+  await sink.received;
+});
+
+Deno.test("sendMail fails when the server is unreachable", async () => {
+  // Grab a free port and release it so nothing listens there
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const port = (listener.addr as Deno.NetAddr).port;
+  listener.close();
+
+  await expect(
+    sendMail({ host: "127.0.0.1", port, security: "none", from: "a@example.com" }, { to: ["b@example.com"], subject: "x", text: "x" }),
+  ).rejects.toThrow(SmtpError);
+});
+
+Deno.test("formatMessage builds headers and keeps ASCII subjects readable", () => {
+  const message = formatMessage(
+    "alerts@example.com",
+    { to: ["ops@example.com"], subject: "[Crude Functions] FIRING", text: "Body" },
+    new Date("2026-01-02T03:04:05Z"),
+  );
+
+  expect(message).toContain("From: alerts@example.com\r\n");
+  expect(message).toContain("Subject: [Crude Functions] FIRING\r\n");
+  expect(message).toContain("Date: Fri, 02 Jan 2026 03:04:05 GMT\r\n");
+  expect(message).toMatch(/Message-ID: <[0-9a-f-]+@example\.com>/);
+  expect(message.endsWith("\r\n\r\nBody\r\n")).toBe(true);
+});
@@ -0,0 +1,183 @@
+/**
+ * Types for alert rules and notifications
+ *
+ * ID Handling Pattern:
+ * - Runtime/Interfaces: Always use RecordId type
+ * - API/Web UI boundaries: Convert to string via recordIdToString()
+ */
+
+import type { RecordId } from "surrealdb";
+
+/**
+ * What an alert rule watches.
+ * - source_sync_failed: a code source's last sync failed (one alert per source)
+ * - schedule_error: a schedule entered the error status (one alert per schedule)
+ * - error_rate: a function's failed executions exceed a percentage (one alert per function)
+ * - database_unavailable: the SurrealDB supervisor ran out of restart attempts
+ */
+export type AlertCondition = "source_sync_failed" | "schedule_error" | "error_rate" | "database_unavailable";
+
+export const ALERT_CONDITIONS: readonly AlertCondition[] = [
+  "source_sync_failed",
+  "schedule_error",
+  "error_rate",
+  "database_unavailable",
+];
+
+/**
+ * Type guard for alert condition strings (e.g. from request bodies).
+ */
+export function isAlertCondition(value: string): value is AlertCondition {
+  return (ALERT_CONDITIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Where notifications of a rule are sent.
+ * - webhook: JSON POST to the target URL
+ * - email: plain text email to the comma-separated target addresses (SMTP settings)
+ * - function: POST to the function named by the target (ctx.trigger "alert")
+ */
+export type AlertChannel = "webhook" | "email" | "function";
+
+export const ALERT_CHANNELS: readonly AlertChannel[] = ["webhook", "email", "function"];
+
+/**
+ * Type guard for alert channel strings (e.g. from request bodies).
+ */
+export function isAlertChannel(value: string): value is AlertChannel {
+  return (ALERT_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * An alert rule.
+ */
+export interface AlertRule {
+  id: RecordId;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  /** error_rate: percentage (0-100) of failed executions that fires the alert */
+  threshold?: number;
+  /** error_rate: how far back executions are counted */
+  windowMinutes?: number;
+  /** error_rate: executions in the window below which the rule doesn't fire */
+  minExecutions?: number;
+  channel: AlertChannel;
+  /** Webhook URL, comma-separated email addresses or function name */
+  target: string;
+  /** Minimum time between notifications about the same subject while it keeps firing */
+  cooldownMinutes: number;
+  /** Whether a notification is sent when the condition clears */
+  notifyOnResolve: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Raw alertRule record - dates come as SurrealDB DateTime objects.
+ */
+export interface AlertRuleRow extends Omit<AlertRule, "createdAt" | "updatedAt"> {
+  createdAt: unknown;
+  updatedAt: unknown;
+}
+
+/**
+ * Input for creating an alert rule.
+ */
+export interface NewAlertRule {
+  name: string;
+  enabled?: boolean;
+  condition: AlertCondition;
+  threshold?: number;
+  windowMinutes?: number;
+  minExecutions?: number;
+  channel: AlertChannel;
+  target: string;
+  /** Default: 60 */
+  cooldownMinutes?: number;
+  /** Default: true */
+  notifyOnResolve?: boolean;
+}
+
+/**
+ * Partial update of an alert rule.
+ */
+export type AlertRuleUpdate = Partial<NewAlertRule>;
+
+/**
+ * Something a rule's condition found wrong - one alert per subject.
+ */
+export interface AlertFinding {
+  /** Stable identity of what is alerting, e.g. "source:abc123" */
+  subject: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/** Kind of notification - test notifications are sent from a rule's test action */
+export type AlertNotificationStatus = "firing" | "resolved" | "test";
+
+/**
+ * Notification payload sent to a channel (the webhook and function request body).
+ */
+export interface AlertNotification {
+  rule: string;
+  condition: AlertCondition;
+  status: AlertNotificationStatus;
+  subject: string;
+  message: string;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  /** Server name setting of this instance */
+  server: string;
+}
+
+/**
+ * A sent notification.
+ */
+export interface AlertHistoryEntry {
+  id: RecordId;
+  /** Undefined once the rule was deleted */
+  ruleId?: RecordId;
+  ruleName: string;
+  condition: string;
+  subject: string;
+  status: AlertNotificationStatus;
+  message: string;
+  channel: string;
+  target: string;
+  /** Whether the channel accepted the notification */
+  delivered: boolean;
+  /** Delivery error */
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Raw alertHistory record - the timestamp comes as a SurrealDB DateTime object.
+ */
+export interface AlertHistoryRow extends Omit<AlertHistoryEntry, "createdAt"> {
+  createdAt: unknown;
+}
+
+/**
+ * A firing alert - one per rule and subject.
+ */
+export interface AlertStateRow {
+  id: RecordId;
+  ruleId: RecordId;
+  subject: string;
+  message: string;
+  firingSince: unknown;
+  /** Undefined until a notification was delivered */
+  lastNotifiedAt?: unknown;
+}
+
+/**
+ * Outcome of an evaluation run.
+ */
+export interface AlertEvaluationResult {
+  rulesEvaluated: number;
+  notificationsSent: number;
+  deliveryFailures: number;
+}
@@ -18,6 +18,9 @@ import type { FunctionRouter } from "../functions/function_router.ts";
  * - Handler loading and execution
  * - Console log capture
  * - Metrics collection
+ *
+ * /run-async/* invokes the same functions asynchronously (202 with a job ID),
+ * and /run-status/:jobId returns the status and stored response of such a job.
  */
 export function createFunctionApp(functionRouter: FunctionRouter): Hono {
   const app = new Hono();
@@ -26,5 +29,10 @@ export function createFunctionApp(functionRouter: FunctionRouter): Hono {
   app.all("/run/*", (c) => functionRouter.handle(c));
   app.all("/run", (c) => functionRouter.handle(c));
 
+  // Asynchronous invocation and polling
+  app.all("/run-async/*", (c) => functionRouter.handle(c));
+  app.all("/run-async", (c) => functionRouter.handle(c));
+  app.get("/run-status/:jobId", (c) => functionRouter.handleAsyncStatus(c));
+
   return app;
 }
@@ -3,18 +3,26 @@ import { Hono } from "@hono/hono";
 import type { Auth } from "../auth/auth.ts";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import type { ApiKeyService } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import type { FunctionsService } from "../routes/functions_service.ts";
 import type { ConsoleLogService } from "../logs/console_log_service.ts";
 import type { ExecutionMetricsService } from "../metrics/execution_metrics_service.ts";
+import type { PrometheusMetricsService } from "../metrics/prometheus_metrics_service.ts";
 import type { VersionedEncryptionService } from "../encryption/versioned_encryption_service.ts";
+import type { HashService } from "../encryption/hash_service.ts";
 import type { KeyStorageService } from "../encryption/key_storage_service.ts";
 import type { KeyRotationService } from "../encryption/key_rotation_service.ts";
 import type { SecretsService } from "../secrets/secrets_service.ts";
+import type { RateLimitService } from "../rate_limits/rate_limit_service.ts";
+import type { ErrorGroupService } from "../error_groups/error_group_service.ts";
+import type { AlertService } from "../alerts/alert_service.ts";
+import type { KvService } from "../kv/kv_service.ts";
 import type { SettingsService } from "../settings/settings_service.ts";
 import type { UserService } from "../users/user_service.ts";
 import type { CodeSourceService } from "../sources/code_source_service.ts";
 import type { SourceFileService } from "../files/source_file_service.ts";
 import type { SchedulingService } from "../scheduling/scheduling_service.ts";
+import type { JobQueueService } from "../jobs/job_queue_service.ts";
 import type { CsrfService } from "../csrf/csrf_service.ts";
 import type { ErrorStateService } from "../errors/mod.ts";
 
@@ -29,9 +37,15 @@ import { createFileSearchRoutes } from "../files/file_search_routes.ts";
 import { createRotationRoutes } from "../encryption/rotation_routes.ts";
 import { createSettingsRoutes } from "../settings/settings_routes.ts";
 import { createSecretsRoutes } from "../secrets/secrets_routes.ts";
+import { createRateLimitRoutes } from "../rate_limits/rate_limit_routes.ts";
+import { createErrorGroupRoutes } from "../error_groups/error_group_routes.ts";
+import { createAlertRoutes } from "../alerts/alert_routes.ts";
 import { createLogsRoutes } from "../logs/logs_routes.ts";
 import { createMetricsRoutes } from "../metrics/metrics_routes.ts";
+import { createPrometheusRoutes } from "../metrics/prometheus_routes.ts";
 import { createUserRoutes } from "../users/user_routes.ts";
+import { createSchedulingRoutes } from "../scheduling/scheduling_routes.ts";
+import { createJobRoutes } from "../jobs/job_routes.ts";
 import { createWebRoutes } from "../web/web_routes.ts";
 
 /**
@@ -41,22 +55,32 @@ export interface ManagementAppDeps {
   auth: Auth;
   surrealFactory: SurrealConnectionFactory;
   apiKeyService: ApiKeyService;
+  apiKeyUsageService: ApiKeyUsageService;
   functionsService: FunctionsService;
   consoleLogService: ConsoleLogService;
   executionMetricsService: ExecutionMetricsService;
+  prometheusMetricsService: PrometheusMetricsService;
   encryptionService: VersionedEncryptionService;
+  hashService: HashService;
   keyStorageService: KeyStorageService;
   keyRotationService: KeyRotationService;
   secretsService: SecretsService;
+  rateLimitService: RateLimitService;
+  errorGroupService: ErrorGroupService;
+  alertService: AlertService;
+  kvService: KvService;
   settingsService: SettingsService;
   userService: UserService;
   codeSourceService: CodeSourceService;
   sourceFileService: SourceFileService;
   schedulingService: SchedulingService;
+  jobQueueService: JobQueueService;
   csrfService: CsrfService;
   errorStateService: ErrorStateService;
   /** Base directory containing all code sources */
   codeDirectory: string;
+  /** Optional - dedicated bearer token for the Prometheus /metrics endpoint */
+  metricsToken?: string;
 }
 
 /**
@@ -65,6 +89,7 @@ export interface ManagementAppDeps {
  * This app handles all management operations:
  * - /api/auth/* - Authentication (Better Auth, public)
  * - /api/* - Management API (protected by hybrid auth)
+ * - /metrics - Prometheus scrape endpoint (protected by metrics token or key groups)
  * - /web/* - Web UI (protected by session auth)
  *
  * Runs on a separate port from the function app, allowing network-level
@@ -83,6 +108,7 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
     auth: deps.auth,
     apiKeyService: deps.apiKeyService,
     settingsService: deps.settingsService,
+    apiKeyUsageService: deps.apiKeyUsageService,
   });
 
   // Create CSRF middleware (validates tokens on state-changing requests)
@@ -101,6 +127,18 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
     codeSourceService: deps.codeSourceService,
   }));
 
+  // ============================================================================
+  // Prometheus Endpoint (uses its own token / access group validation)
+  // ============================================================================
+  app.route("/metrics", createPrometheusRoutes({
+    prometheusMetricsService: deps.prometheusMetricsService,
+    apiKeyService: deps.apiKeyService,
+    settingsService: deps.settingsService,
+    hashService: deps.hashService,
+    token: deps.metricsToken,
+    apiKeyUsageService: deps.apiKeyUsageService,
+  }));
+
   // ============================================================================
   // Protected API Routes
   // ============================================================================
@@ -115,7 +153,7 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
 
   // API Key management
   api.route("/key-groups", createApiKeyGroupRoutes(deps.apiKeyService));
-  api.route("/keys", createApiKeyRoutes(deps.apiKeyService));
+  api.route("/keys", createApiKeyRoutes(deps.apiKeyService, deps.apiKeyUsageService));
 
   // Function route management
   api.route("/functions", createFunctionsRoutes(deps.functionsService));
@@ -155,6 +193,15 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
   // Secrets management
   api.route("/secrets", createSecretsRoutes(deps.secretsService));
 
+  // Rate limit rules
+  api.route("/rate-limits", createRateLimitRoutes(deps.rateLimitService));
+
+  // Grouped handler errors
+  api.route("/errors", createErrorGroupRoutes(deps.errorGroupService));
+
+  // Alert rules and notification history
+  api.route("/alerts", createAlertRoutes(deps.alertService));
+
   // Logs API
   api.route("/logs", createLogsRoutes({
     consoleLogService: deps.consoleLogService,
@@ -171,6 +218,10 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
   // User management
   api.route("/users", createUserRoutes(deps.userService));
 
+  // Schedule and job queue management
+  api.route("/schedules", createSchedulingRoutes(deps.schedulingService));
+  api.route("/jobs", createJobRoutes(deps.jobQueueService));
+
   // Mount the protected API router
   app.route("/api", api);
 
@@ -273,12 +324,18 @@ export function createManagementApp(deps: ManagementAppDeps): Hono {
     userService: deps.userService,
     functionsService: deps.functionsService,
     apiKeyService: deps.apiKeyService,
+    apiKeyUsageService: deps.apiKeyUsageService,
     consoleLogService: deps.consoleLogService,
     executionMetricsService: deps.executionMetricsService,
     encryptionService: deps.encryptionService,
+    kvService: deps.kvService,
     settingsService: deps.settingsService,
     codeSourceService: deps.codeSourceService,
     sourceFileService: deps.sourceFileService,
+    schedulingService: deps.schedulingService,
+    jobQueueService: deps.jobQueueService,
+    errorGroupService: deps.errorGroupService,
+    alertService: deps.alertService,
     errorStateService: deps.errorStateService,
   }));
 
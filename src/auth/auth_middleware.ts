@@ -1,8 +1,10 @@
 import type { Context, Next } from "@hono/hono";
 import type { Auth } from "./auth.ts";
-import type { ApiKeyService } from "../keys/api_key_service.ts";
+import { getApiKeyStatus, type ApiKeyService } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import type { SettingsService } from "../settings/settings_service.ts";
 import { SettingNames } from "../settings/types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
 
 /**
  * Options for the session-only auth middleware.
@@ -60,6 +62,8 @@ export interface HybridAuthMiddlewareOptions {
   apiKeyService: ApiKeyService;
   /** Settings service for reading access group configuration */
   settingsService: SettingsService;
+  /** Optional - when provided, API key requests are counted towards the key's usage */
+  apiKeyUsageService?: ApiKeyUsageService;
 }
 
 /**
@@ -69,6 +73,7 @@ export interface HybridAuthMiddlewareOptions {
  * Used for Management API routes that need both browser and programmatic access.
  *
  * API key validation checks against groups configured in the api.access-groups setting.
+ * Expired and disabled keys are rejected with a message saying so.
  *
  * Sets on context:
  * - `user`: The authenticated user object (if session auth)
@@ -78,7 +83,7 @@ export interface HybridAuthMiddlewareOptions {
  */
 export function createHybridAuthMiddleware(options: HybridAuthMiddlewareOptions) {
   return async (c: Context, next: Next) => {
-    const { auth, apiKeyService, settingsService } = options;
+    const { auth, apiKeyService, settingsService, apiKeyUsageService } = options;
 
     // 1. Try Better Auth session first
     const session = await auth.api.getSession({
@@ -95,6 +100,7 @@ export function createHybridAuthMiddleware(options: HybridAuthMiddlewareOptions)
 
     // 2. Fall back to API key validation against configured groups
     const apiKey = c.req.header("X-API-Key");
+    let inactiveMessage: string | undefined;
 
     if (apiKey) {
       // Get allowed group IDs from settings
@@ -111,19 +117,30 @@ export function createHybridAuthMiddleware(options: HybridAuthMiddlewareOptions)
 
         // Check API key against each allowed group by ID
         for (const groupId of groupIds) {
-          if (await apiKeyService.hasKeyInGroup(groupId, apiKey)) {
-            // Fetch group name for context
-            const group = await apiKeyService.getGroupById(groupId);
-            c.set("authMethod", "api-key");
-            c.set("apiKeyGroup", group?.name ?? `group-${groupId}`);
-            await next();
-            return;
+          const keyInfo = await apiKeyService.getKeyByValueInGroup(groupId, apiKey);
+          if (!keyInfo) {
+            continue;
           }
+
+          const status = getApiKeyStatus(keyInfo);
+          if (status !== "active") {
+            inactiveMessage ??= status === "expired" ? "API key expired" : "API key is disabled";
+            continue;
+          }
+
+          apiKeyUsageService?.record(recordIdToString(keyInfo.keyId));
+          c.set("authMethod", "api-key");
+          c.set("apiKeyGroup", keyInfo.groupName);
+          await next();
+          return;
         }
       }
     }
 
     // 3. Both failed - unauthorized
+    if (inactiveMessage) {
+      return c.json({ error: "Unauthorized", message: inactiveMessage }, 401);
+    }
     return c.json({ error: "Unauthorized" }, 401);
   };
 }
@@ -325,6 +325,43 @@ integrationTest("HybridAuth: rejects invalid API key even when access groups con
   }
 });
 
+integrationTest("HybridAuth: rejects expired and disabled API keys with a message", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()  // Required for auth middleware and API access groups
+    .withApiKeyGroup("management", "Management")
+    .withApiKey("management", "expired-key-value", "expired-key")
+    .withApiKey("management", "disabled-key-value", "disabled-key")
+    .build();
+
+  try {
+    const mgmtGroup = await ctx.apiKeyService.getGroupByName("management");
+    if (!mgmtGroup) throw new Error("management group not found");
+
+    await ctx.settingsService.setGlobalSetting(
+      SettingNames.API_ACCESS_GROUPS,
+      recordIdToString(mgmtGroup.id)
+    );
+
+    const keys = await ctx.apiKeyService.getKeys("management");
+    const idOf = (name: string) => recordIdToString(keys!.find((k) => k.name === name)!.id);
+    await ctx.apiKeyService.updateKey(idOf("expired-key"), { expiresAt: new Date(Date.now() - 1000) });
+    await ctx.apiKeyService.updateKey(idOf("disabled-key"), { enabled: false });
+
+    const auth = createMockAuth({ authenticated: false });
+    const app = createTestApp(ctx, auth);
+
+    const expired = await app.request("/api/test", { headers: { "X-API-Key": "expired-key-value" } });
+    expect(expired.status).toBe(401);
+    expect((await expired.json()).message).toBe("API key expired");
+
+    const disabled = await app.request("/api/test", { headers: { "X-API-Key": "disabled-key-value" } });
+    expect(disabled.status).toBe(401);
+    expect((await disabled.json()).message).toBe("API key is disabled");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 integrationTest("HybridAuth: handles malformed access groups setting gracefully", async () => {
   const ctx = await TestSetupBuilder.create()
     .withSettings()  // Required for auth middleware and API access groups
@@ -76,6 +76,7 @@ export class SurrealSupervisor {
   private isRestarting = false;
   private isRunning = false;
   private unsubscribeHealthMonitor?: () => void;
+  private readonly exhaustedListeners = new Set<(error?: Error) => void>();
 
   constructor(options: SurrealSupervisorOptions) {
     this.processManager = options.processManager;
@@ -211,6 +212,9 @@ export class SurrealSupervisor {
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       console.error(`[SurrealSupervisor] Restart failed:`, err);
+      if (attemptNumber >= this.maxRestartAttempts) {
+        this.notifyRestartsExhausted(err);
+      }
 
       return {
         success: false,
@@ -268,6 +272,28 @@ export class SurrealSupervisor {
     return this.healthMonitor.onStatusChange(listener);
   }
 
+  /**
+   * Register a listener called when the database is unhealthy and no restart
+   * attempts are left (manual intervention required).
+   * The listener receives the error of the last failed restart, if any.
+   *
+   * @returns Function that unregisters the listener
+   */
+  onRestartsExhausted(listener: (error?: Error) => void): () => void {
+    this.exhaustedListeners.add(listener);
+    return () => this.exhaustedListeners.delete(listener);
+  }
+
+  private notifyRestartsExhausted(error?: Error): void {
+    for (const listener of this.exhaustedListeners) {
+      try {
+        listener(error);
+      } catch (listenerError) {
+        console.error(`[SurrealSupervisor] Restarts exhausted listener failed:`, listenerError);
+      }
+    }
+  }
+
   /**
    * Handle health status changes - trigger restart if unhealthy.
    */
@@ -282,6 +308,7 @@ export class SurrealSupervisor {
       console.error(
         `[SurrealSupervisor] Max restart attempts (${this.maxRestartAttempts}) exceeded. Manual intervention required.`
       );
+      this.notifyRestartsExhausted(event.lastError);
       return;
     }
 
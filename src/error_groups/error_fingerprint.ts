@@ -0,0 +1,69 @@
+/** Stack frames included in a fingerprint - deeper frames are mostly framework code */
+const FINGERPRINT_FRAMES = 5;
+
+/** Name, message and stack of a thrown value */
+export interface ErrorDetails {
+  errorType: string;
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Get the name, message and stack of a thrown value.
+ * Non-Error values (e.g. `throw "oops"`) are reported as type "Error".
+ */
+export function describeError(error: unknown): ErrorDetails {
+  if (error instanceof Error) {
+    return { errorType: error.name || "Error", message: error.message, stack: error.stack };
+  }
+  return { errorType: "Error", message: String(error) };
+}
+
+/**
+ * Replace the variable parts of an error message (UUIDs, hex IDs, numbers)
+ * with placeholders, so "User 42 not found" and "User 43 not found" match.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<hex>")
+    .replace(/\d+(\.\d+)?/g, "<n>");
+}
+
+/**
+ * Extract the frames of a V8 stack trace without line/column numbers and
+ * query strings (handlers are imported with a cache-busting ?v= parameter).
+ * Runtime-internal frames (ext:, node:) are skipped.
+ */
+export function stackFrames(stack: string | undefined): string[] {
+  if (!stack) return [];
+
+  return stack
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("at ") && !/\((?:ext|node):|^at (?:ext|node):/.test(line))
+    .map((line) =>
+      line
+        .slice(3)
+        .replace(/\?[^:)\s]*/g, "")
+        .replace(/:\d+:\d+(?=\)?$)/, "")
+    );
+}
+
+/**
+ * Compute the fingerprint that groups repeated occurrences of an error.
+ *
+ * Errors with a stack are grouped by their type and top stack frames, so the
+ * same failure groups together even when its message contains request data.
+ * Without a stack, the type and normalized message are used.
+ */
+export async function fingerprintError(details: ErrorDetails): Promise<string> {
+  const frames = stackFrames(details.stack).slice(0, FINGERPRINT_FRAMES);
+  const material = [
+    details.errorType,
+    ...(frames.length > 0 ? frames : [normalizeMessage(details.message)]),
+  ].join("\n");
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
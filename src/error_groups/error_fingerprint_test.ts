@@ -0,0 +1,59 @@
+import { expect } from "@std/expect";
+import { describeError, fingerprintError, normalizeMessage, stackFrames } from "./error_fingerprint.ts";
+
+const STACK = `TypeError: Cannot read properties of undefined (reading 'id')
+    at getUser (file:///app/code/users.ts?v=1700000000000:12:18)
+    at default (file:///app/code/users.ts?v=1700000000000:4:10)
+    at ext:core/01_core.js:178:7
+    at async handle (file:///app/src/functions/handler_worker.ts:88:5)`;
+
+Deno.test("stackFrames strips positions, query strings and runtime frames", () => {
+  expect(stackFrames(STACK)).toEqual([
+    "getUser (file:///app/code/users.ts)",
+    "default (file:///app/code/users.ts)",
+    "async handle (file:///app/src/functions/handler_worker.ts)",
+  ]);
+  expect(stackFrames(undefined)).toEqual([]);
+});
+
+Deno.test("normalizeMessage replaces IDs and numbers with placeholders", () => {
+  expect(normalizeMessage("User 42 not found")).toBe("User <n> not found");
+  expect(normalizeMessage("Order 3f2a9c1b7e4d not found")).toBe("Order <hex> not found");
+  expect(normalizeMessage("Job 0b9c1e4e-6f1a-4d2b-9c3e-8a7f6d5e4c3b failed")).toBe("Job <uuid> failed");
+  expect(normalizeMessage("Invalid email")).toBe("Invalid email");
+});
+
+Deno.test("describeError handles Error instances and thrown values", () => {
+  const error = new RangeError("out of range");
+  expect(describeError(error)).toEqual({ errorType: "RangeError", message: "out of range", stack: error.stack });
+  expect(describeError("plain string")).toEqual({ errorType: "Error", message: "plain string" });
+});
+
+Deno.test("fingerprintError groups by stack frames regardless of message and line numbers", async () => {
+  const first = await fingerprintError({ errorType: "TypeError", message: "a", stack: STACK });
+  const redeployed = await fingerprintError({
+    errorType: "TypeError",
+    message: "b",
+    stack: STACK.replaceAll("1700000000000", "1700000099999").replace(":12:18", ":14:18"),
+  });
+  const otherType = await fingerprintError({ errorType: "RangeError", message: "a", stack: STACK });
+  const otherFunction = await fingerprintError({
+    errorType: "TypeError",
+    message: "a",
+    stack: STACK.replace("getUser", "getOrder"),
+  });
+
+  expect(first).toMatch(/^[0-9a-f]{32}$/);
+  expect(redeployed).toBe(first);
+  expect(otherType).not.toBe(first);
+  expect(otherFunction).not.toBe(first);
+});
+
+Deno.test("fingerprintError falls back to the normalized message without a stack", async () => {
+  const first = await fingerprintError({ errorType: "Error", message: "User 1 not found" });
+  const second = await fingerprintError({ errorType: "Error", message: "User 2 not found" });
+  const other = await fingerprintError({ errorType: "Error", message: "Invalid email" });
+
+  expect(second).toBe(first);
+  expect(other).not.toBe(first);
+});
@@ -0,0 +1,115 @@
+import { Hono } from "@hono/hono";
+import type { ErrorGroupService } from "./error_group_service.ts";
+import { ErrorGroupNotFoundError } from "./errors.ts";
+import type { ErrorEvent, ErrorGroup, ErrorGroupStatus } from "./types.ts";
+import { isErrorGroupStatus } from "./types.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+
+/**
+ * Transform ErrorGroup entity to API response format.
+ */
+function groupToResponse(group: ErrorGroup) {
+  return {
+    id: recordIdToString(group.id),
+    functionId: recordIdToString(group.functionId),
+    fingerprint: group.fingerprint,
+    kind: group.kind,
+    errorType: group.errorType,
+    message: group.message,
+    stack: group.stack ?? null,
+    status: group.status,
+    count: group.count,
+    firstSeen: group.firstSeen.toISOString(),
+    lastSeen: group.lastSeen.toISOString(),
+    resolvedAt: group.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Transform ErrorEvent entity to API response format.
+ */
+function eventToResponse(event: ErrorEvent) {
+  return {
+    id: recordIdToString(event.id),
+    requestId: event.requestId,
+    method: event.method,
+    url: event.url,
+    trigger: event.trigger,
+    keyGroup: event.keyGroup ?? null,
+    message: event.message,
+    stack: event.stack ?? null,
+    timestamp: event.timestamp.toISOString(),
+  };
+}
+
+/**
+ * Create routes for grouped handler errors.
+ * Mounted at /api/errors
+ */
+export function createErrorGroupRoutes(errorGroupService: ErrorGroupService): Hono {
+  const routes = new Hono();
+
+  // GET /api/errors - List error groups (optional ?status= and ?functionId= filters)
+  routes.get("/", async (c) => {
+    const status = c.req.query("status");
+    if (status !== undefined && !isErrorGroupStatus(status)) {
+      return c.json(
+        { error: `Invalid status '${status}'. Must be one of: open, resolved, ignored` },
+        400,
+      );
+    }
+
+    const functionIdParam = c.req.query("functionId");
+    const functionId = functionIdParam !== undefined ? validateSurrealId(functionIdParam) : undefined;
+    if (functionId === null) {
+      return c.json({ error: "Invalid functionId" }, 400);
+    }
+
+    const groups = await errorGroupService.getGroups({ status, functionId });
+    return c.json({ groups: groups.map(groupToResponse) });
+  });
+
+  // GET /api/errors/:id - Get error group with its recent events
+  routes.get("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid error group ID" }, 400);
+    }
+
+    const group = await errorGroupService.getGroupById(id);
+    if (!group) {
+      return c.json({ error: "Error group not found" }, 404);
+    }
+
+    const events = await errorGroupService.getEvents(id);
+    return c.json({ ...groupToResponse(group), events: events.map(eventToResponse) });
+  });
+
+  // PUT /api/errors/:id/resolve, /ignore, /reopen - Change workflow status (idempotent)
+  const statusActions: [string, ErrorGroupStatus][] = [
+    ["resolve", "resolved"],
+    ["ignore", "ignored"],
+    ["reopen", "open"],
+  ];
+  for (const [action, status] of statusActions) {
+    routes.put(`/:id/${action}`, async (c) => {
+      const id = validateSurrealId(c.req.param("id"));
+      if (!id) {
+        return c.json({ error: "Invalid error group ID" }, 400);
+      }
+
+      try {
+        const group = await errorGroupService.setStatus(id, status);
+        return c.json(groupToResponse(group));
+      } catch (error) {
+        if (error instanceof ErrorGroupNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    });
+  }
+
+  return routes;
+}
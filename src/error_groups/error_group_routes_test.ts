@@ -0,0 +1,93 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { ErrorGroupService } from "./error_group_service.ts";
+import { createErrorGroupRoutes } from "./error_group_routes.ts";
+
+/**
+ * Create a test app with error group routes and one captured error.
+ */
+async function createTestApp() {
+  const ctx = await TestSetupBuilder.create()
+    .withFunctions()
+    .withFunction("/failing", "failing.ts", { name: "failing", methods: ["GET"] })
+    .build();
+
+  const route = await ctx.functionsService.getByName("failing");
+  const functionId = recordIdToString(route!.id);
+  const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+  const group = await errorGroupService.capture({
+    functionId,
+    kind: "execution",
+    error: new TypeError("boom"),
+    requestId: "req-1",
+    method: "GET",
+    url: "http://localhost/run/failing",
+    trigger: "http",
+  });
+
+  const app = new Hono();
+  app.route("/api/errors", createErrorGroupRoutes(errorGroupService));
+  return { app, ctx, functionId, groupId: recordIdToString(group.id) };
+}
+
+integrationTest("GET /api/errors lists groups with status and function filters", async () => {
+  const { app, ctx, functionId, groupId } = await createTestApp();
+  try {
+    const list = await (await app.request("/api/errors?status=open")).json();
+    expect(list.groups.length).toBe(1);
+    expect(list.groups[0].id).toBe(groupId);
+    expect(list.groups[0].functionId).toBe(functionId);
+    expect(list.groups[0].errorType).toBe("TypeError");
+    expect(list.groups[0].count).toBe(1);
+
+    const resolved = await (await app.request("/api/errors?status=resolved")).json();
+    expect(resolved.groups).toEqual([]);
+
+    const byFunction = await (await app.request(`/api/errors?functionId=${functionId}`)).json();
+    expect(byFunction.groups.length).toBe(1);
+
+    expect((await app.request("/api/errors?status=closed")).status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/errors/:id returns the group with its events", async () => {
+  const { app, ctx, groupId } = await createTestApp();
+  try {
+    const res = await app.request(`/api/errors/${groupId}`);
+    expect(res.status).toBe(200);
+
+    const group = await res.json();
+    expect(group.message).toBe("boom");
+    expect(group.events.length).toBe(1);
+    expect(group.events[0].requestId).toBe("req-1");
+    expect(group.events[0].url).toBe("http://localhost/run/failing");
+
+    expect((await app.request("/api/errors/missing")).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("PUT /api/errors/:id/resolve, ignore and reopen change the status", async () => {
+  const { app, ctx, groupId } = await createTestApp();
+  try {
+    const resolved = await (await app.request(`/api/errors/${groupId}/resolve`, { method: "PUT" })).json();
+    expect(resolved.status).toBe("resolved");
+    expect(resolved.resolvedAt).not.toBeNull();
+
+    const ignored = await (await app.request(`/api/errors/${groupId}/ignore`, { method: "PUT" })).json();
+    expect(ignored.status).toBe("ignored");
+
+    const reopened = await (await app.request(`/api/errors/${groupId}/reopen`, { method: "PUT" })).json();
+    expect(reopened.status).toBe("open");
+
+    expect((await app.request("/api/errors/missing/resolve", { method: "PUT" })).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -0,0 +1,216 @@
+import { RecordId } from "surrealdb";
+import { Mutex } from "@core/asyncutil/mutex";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import { toDate } from "../database/surreal_helpers.ts";
+import { ErrorGroupNotFoundError } from "./errors.ts";
+import { describeError, fingerprintError } from "./error_fingerprint.ts";
+import type {
+  ErrorEvent,
+  ErrorEventRow,
+  ErrorGroup,
+  ErrorGroupFilter,
+  ErrorGroupRow,
+  ErrorGroupStatus,
+  ErrorOccurrence,
+} from "./types.ts";
+
+/** Number of events kept per group (older ones are deleted) */
+export const MAX_EVENTS_PER_GROUP = 20;
+
+export interface ErrorGroupServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+}
+
+/**
+ * Service for grouped handler errors.
+ *
+ * Every captured failure is fingerprinted and counted in the error group of
+ * its function with the same fingerprint, and stored as an event with the
+ * failed request's metadata. A resolved group is reopened when its error
+ * occurs again; ignored groups keep counting but stay ignored.
+ *
+ * ID Handling: All IDs are RecordId internally. Convert to string only at API/UI boundaries.
+ */
+export class ErrorGroupService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+  private readonly writeMutex = new Mutex();
+
+  constructor(options: ErrorGroupServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+  }
+
+  /**
+   * Record a failure in its error group, creating the group on first occurrence.
+   */
+  async capture(occurrence: ErrorOccurrence): Promise<ErrorGroup> {
+    const details = describeError(occurrence.error);
+    // Load errors are thrown by the loader, whose stack is the same for every
+    // failure - their message tells them apart
+    const fingerprint = await fingerprintError(
+      occurrence.kind === "load" ? { ...details, stack: undefined } : details,
+    );
+    const functionId = new RecordId("functionDef", occurrence.functionId);
+
+    using _lock = await this.writeMutex.acquire();
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [existing] = await db.query<[ErrorGroupRow[]]>(
+        `SELECT * FROM errorGroup WHERE functionId = $functionId AND fingerprint = $fingerprint LIMIT 1`,
+        { functionId, fingerprint },
+      );
+
+      const [groups] = existing?.[0]
+        ? await db.query<[ErrorGroupRow[]]>(
+          `UPDATE $recordId SET
+            count += 1,
+            lastSeen = time::now(),
+            message = $message,
+            stack = $stack,
+            status = $status`,
+          {
+            recordId: existing[0].id,
+            message: details.message,
+            stack: details.stack,
+            status: existing[0].status === "resolved" ? "open" : existing[0].status,
+          },
+        )
+        : await db.query<[ErrorGroupRow[]]>(
+          `CREATE errorGroup SET
+            functionId = $functionId,
+            fingerprint = $fingerprint,
+            kind = $kind,
+            errorType = $errorType,
+            message = $message,
+            stack = $stack,
+            firstSeen = time::now(),
+            lastSeen = time::now()`,
+          {
+            functionId,
+            fingerprint,
+            kind: occurrence.kind,
+            errorType: details.errorType,
+            message: details.message,
+            stack: details.stack,
+          },
+        );
+      const group = groups[0];
+
+      await db.query(
+        `CREATE errorEvent SET
+          groupId = $groupId,
+          requestId = $requestId,
+          method = $method,
+          url = $url,
+          trigger = $trigger,
+          keyGroup = $keyGroup,
+          message = $message,
+          stack = $stack,
+          timestamp = time::now()`,
+        {
+          groupId: group.id,
+          requestId: occurrence.requestId,
+          method: occurrence.method,
+          url: occurrence.url,
+          trigger: occurrence.trigger,
+          keyGroup: occurrence.keyGroup,
+          message: details.message,
+          stack: details.stack,
+        },
+      );
+
+      // Keep only the latest events of the group
+      await db.query(
+        `DELETE errorEvent WHERE groupId = $groupId AND id NOT IN (
+          SELECT id, timestamp FROM errorEvent WHERE groupId = $groupId
+            ORDER BY timestamp DESC LIMIT $keep
+        ).id`,
+        { groupId: group.id, keep: MAX_EVENTS_PER_GROUP },
+      );
+
+      return this.rowToGroup(group);
+    });
+  }
+
+  /**
+   * List error groups, most recently seen first.
+   */
+  async getGroups(filter: ErrorGroupFilter = {}): Promise<ErrorGroup[]> {
+    const conditions: string[] = [];
+    if (filter.status) conditions.push("status = $status");
+    if (filter.functionId) conditions.push("functionId = $functionId");
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[ErrorGroupRow[]]>(
+        `SELECT * FROM errorGroup ${where} ORDER BY lastSeen DESC`,
+        {
+          status: filter.status,
+          functionId: filter.functionId ? new RecordId("functionDef", filter.functionId) : undefined,
+        },
+      );
+      return (rows ?? []).map((row) => this.rowToGroup(row));
+    });
+  }
+
+  /**
+   * Get an error group by ID.
+   * @returns null if the group doesn't exist
+   */
+  async getGroupById(id: string): Promise<ErrorGroup | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[ErrorGroupRow[]]>(
+        `SELECT * FROM $recordId`,
+        { recordId: new RecordId("errorGroup", id) },
+      );
+      return rows?.[0] ? this.rowToGroup(rows[0]) : null;
+    });
+  }
+
+  /**
+   * Get the recent events of a group, newest first.
+   */
+  async getEvents(groupId: string, limit = MAX_EVENTS_PER_GROUP): Promise<ErrorEvent[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[ErrorEventRow[]]>(
+        `SELECT * FROM errorEvent WHERE groupId = $groupId ORDER BY timestamp DESC LIMIT $limit`,
+        { groupId: new RecordId("errorGroup", groupId), limit },
+      );
+      return (rows ?? []).map((row) => ({ ...row, timestamp: toDate(row.timestamp) }));
+    });
+  }
+
+  /**
+   * Change the workflow status of a group.
+   * Marking a group resolved records when it was resolved.
+   * @throws ErrorGroupNotFoundError if the group doesn't exist
+   */
+  async setStatus(id: string, status: ErrorGroupStatus): Promise<ErrorGroup> {
+    using _lock = await this.writeMutex.acquire();
+
+    const existing = await this.getGroupById(id);
+    if (!existing) {
+      throw new ErrorGroupNotFoundError(id);
+    }
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[ErrorGroupRow[]]>(
+        status === "resolved"
+          ? `UPDATE $recordId SET status = $status, resolvedAt = time::now()`
+          : `UPDATE $recordId SET status = $status`,
+        { recordId: existing.id, status },
+      );
+      return this.rowToGroup(rows[0]);
+    });
+  }
+
+  // ============== Helper Methods ==============
+
+  private rowToGroup(row: ErrorGroupRow): ErrorGroup {
+    return {
+      ...row,
+      firstSeen: toDate(row.firstSeen),
+      lastSeen: toDate(row.lastSeen),
+      resolvedAt: row.resolvedAt ? toDate(row.resolvedAt) : undefined,
+    };
+  }
+}
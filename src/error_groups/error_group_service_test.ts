@@ -0,0 +1,127 @@
+import { expect } from "@std/expect";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { ErrorGroupService, MAX_EVENTS_PER_GROUP } from "./error_group_service.ts";
+import { ErrorGroupNotFoundError } from "./errors.ts";
+import type { ErrorOccurrence } from "./types.ts";
+
+/** Throw from a fixed location so repeated occurrences share their stack */
+function failWith(message: string): Error {
+  try {
+    throw new TypeError(message);
+  } catch (error) {
+    return error as Error;
+  }
+}
+
+function occurrence(functionId: string, error: unknown, requestId: string = crypto.randomUUID()): ErrorOccurrence {
+  return {
+    functionId,
+    kind: "execution",
+    error,
+    requestId,
+    method: "GET",
+    url: "http://localhost/run/failing",
+    trigger: "http",
+    keyGroup: "partners",
+  };
+}
+
+integrationTest("ErrorGroupService groups repeated errors and counts occurrences", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/failing", "failing.ts", { name: "failing", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.failing;
+  const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+  try {
+    const first = await errorGroupService.capture(occurrence(functionId, failWith("User 1 not found"), "req-1"));
+    const second = await errorGroupService.capture(occurrence(functionId, failWith("User 2 not found"), "req-2"));
+
+    expect(recordIdToString(second.id)).toBe(recordIdToString(first.id));
+    expect(second.count).toBe(2);
+    expect(second.errorType).toBe("TypeError");
+    expect(second.message).toBe("User 2 not found");
+    expect(second.status).toBe("open");
+    expect(second.lastSeen.getTime()).toBeGreaterThanOrEqual(first.firstSeen.getTime());
+
+    const events = await errorGroupService.getEvents(recordIdToString(first.id));
+    expect(events.map((e) => e.requestId)).toEqual(["req-2", "req-1"]);
+    expect(events[0].keyGroup).toBe("partners");
+    expect(events[0].trigger).toBe("http");
+
+    // A different error gets its own group
+    await errorGroupService.capture(occurrence(functionId, new RangeError("out of range")));
+    expect((await errorGroupService.getGroups({ functionId })).length).toBe(2);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ErrorGroupService reopens resolved groups but keeps ignored ones ignored", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/failing", "failing.ts", { name: "failing", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.failing;
+  const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+  try {
+    const group = await errorGroupService.capture(occurrence(functionId, failWith("boom")));
+    const id = recordIdToString(group.id);
+
+    const resolved = await errorGroupService.setStatus(id, "resolved");
+    expect(resolved.status).toBe("resolved");
+    expect(resolved.resolvedAt).toBeInstanceOf(Date);
+    expect(await errorGroupService.getGroups({ status: "open" })).toEqual([]);
+
+    const reopened = await errorGroupService.capture(occurrence(functionId, failWith("boom")));
+    expect(reopened.status).toBe("open");
+
+    await errorGroupService.setStatus(id, "ignored");
+    const ignored = await errorGroupService.capture(occurrence(functionId, failWith("boom")));
+    expect(ignored.status).toBe("ignored");
+    expect(ignored.count).toBe(3);
+
+    await expect(errorGroupService.setStatus("missing", "resolved")).rejects.toThrow(ErrorGroupNotFoundError);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ErrorGroupService keeps only the latest events of a group", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/failing", "failing.ts", { name: "failing", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.failing;
+  const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+  try {
+    let group;
+    for (let i = 0; i < MAX_EVENTS_PER_GROUP + 3; i++) {
+      group = await errorGroupService.capture(occurrence(functionId, failWith("boom"), `req-${i}`));
+    }
+
+    expect(group!.count).toBe(MAX_EVENTS_PER_GROUP + 3);
+    const events = await errorGroupService.getEvents(recordIdToString(group!.id), 100);
+    expect(events.length).toBe(MAX_EVENTS_PER_GROUP);
+    expect(events[0].requestId).toBe(`req-${MAX_EVENTS_PER_GROUP + 2}`);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ErrorGroupService groups are deleted with their function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/failing", "failing.ts", { name: "failing", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.failing;
+  const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+  try {
+    const group = await errorGroupService.capture(occurrence(functionId, failWith("boom")));
+
+    await ctx.functionsService.removeFunction("failing");
+
+    expect(await errorGroupService.getGroups()).toEqual([]);
+    expect(await errorGroupService.getEvents(recordIdToString(group.id))).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -0,0 +1,12 @@
+/**
+ * Thrown when an error group is not found by ID.
+ */
+export class ErrorGroupNotFoundError extends Error {
+  public readonly groupId: string;
+
+  constructor(groupId: string) {
+    super(`Error group '${groupId}' not found`);
+    this.name = "ErrorGroupNotFoundError";
+    this.groupId = groupId;
+  }
+}
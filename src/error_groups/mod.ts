@@ -0,0 +1,33 @@
+/**
+ * Error Groups Module
+ *
+ * Groups handler failures into first-class records:
+ * - Execution and load errors fingerprinted by type and stack frames
+ * - Per-group count, first/last seen and recent events with request metadata
+ * - Open/resolved/ignored workflow, reopened when a resolved error recurs
+ */
+
+// Service
+export { ErrorGroupService, MAX_EVENTS_PER_GROUP } from "./error_group_service.ts";
+export type { ErrorGroupServiceOptions } from "./error_group_service.ts";
+
+// Routes
+export { createErrorGroupRoutes } from "./error_group_routes.ts";
+
+// Fingerprinting
+export { describeError, fingerprintError, normalizeMessage, stackFrames } from "./error_fingerprint.ts";
+export type { ErrorDetails } from "./error_fingerprint.ts";
+
+// Errors
+export { ErrorGroupNotFoundError } from "./errors.ts";
+
+// Types
+export { ERROR_GROUP_STATUSES, isErrorGroupStatus } from "./types.ts";
+export type {
+  ErrorEvent,
+  ErrorGroup,
+  ErrorGroupFilter,
+  ErrorGroupStatus,
+  ErrorKind,
+  ErrorOccurrence,
+} from "./types.ts";
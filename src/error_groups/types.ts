@@ -0,0 +1,115 @@
+/**
+ * Types for error grouping
+ *
+ * ID Handling Pattern:
+ * - Runtime/Interfaces: Always use RecordId type
+ * - API/Web UI boundaries: Convert to string via recordIdToString()
+ */
+
+import type { RecordId } from "surrealdb";
+import type { InvocationTrigger } from "../functions/types.ts";
+
+/**
+ * Workflow state of an error group.
+ * - open: needs attention
+ * - resolved: marked fixed - reopened when the error occurs again
+ * - ignored: still counted, but hidden from the open list
+ */
+export type ErrorGroupStatus = "open" | "resolved" | "ignored";
+
+export const ERROR_GROUP_STATUSES: readonly ErrorGroupStatus[] = ["open", "resolved", "ignored"];
+
+/**
+ * Type guard for error group status strings (e.g. from query parameters).
+ */
+export function isErrorGroupStatus(value: string): value is ErrorGroupStatus {
+  return (ERROR_GROUP_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * What failed.
+ * - execution: the handler threw
+ * - load: the handler could not be loaded (missing file, syntax error, no default export)
+ */
+export type ErrorKind = "execution" | "load";
+
+/**
+ * Repeated occurrences of the same error in a function.
+ */
+export interface ErrorGroup {
+  id: RecordId;
+  functionId: RecordId;
+  /** Hash of the error type and its normalized stack frames (or message) */
+  fingerprint: string;
+  kind: ErrorKind;
+  /** Error class name, e.g. TypeError */
+  errorType: string;
+  /** Message of the latest occurrence */
+  message: string;
+  /** Stack trace of the latest occurrence */
+  stack?: string;
+  status: ErrorGroupStatus;
+  /** Number of occurrences */
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  /** When the group was last marked resolved */
+  resolvedAt?: Date;
+}
+
+/**
+ * Raw errorGroup record - dates come as SurrealDB DateTime objects.
+ */
+export interface ErrorGroupRow extends Omit<ErrorGroup, "firstSeen" | "lastSeen" | "resolvedAt"> {
+  firstSeen: unknown;
+  lastSeen: unknown;
+  resolvedAt?: unknown;
+}
+
+/**
+ * A single occurrence of an error group, with the failed request's metadata.
+ */
+export interface ErrorEvent {
+  id: RecordId;
+  groupId: RecordId;
+  requestId: string;
+  method: string;
+  url: string;
+  trigger: InvocationTrigger;
+  keyGroup?: string;
+  message: string;
+  stack?: string;
+  timestamp: Date;
+}
+
+/**
+ * Raw errorEvent record - the timestamp comes as a SurrealDB DateTime object.
+ */
+export interface ErrorEventRow extends Omit<ErrorEvent, "timestamp"> {
+  timestamp: unknown;
+}
+
+/**
+ * A failure to capture, as reported by FunctionRouter.
+ */
+export interface ErrorOccurrence {
+  /** SurrealDB RecordId string of the functionDef */
+  functionId: string;
+  kind: ErrorKind;
+  /** The thrown error (the handler's original error, not the router's wrapper) */
+  error: unknown;
+  requestId: string;
+  method: string;
+  url: string;
+  trigger: InvocationTrigger;
+  keyGroup?: string;
+}
+
+/**
+ * Filter for listing error groups.
+ */
+export interface ErrorGroupFilter {
+  status?: ErrorGroupStatus;
+  /** SurrealDB RecordId string of the functionDef */
+  functionId?: string;
+}
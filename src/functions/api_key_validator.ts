@@ -1,10 +1,18 @@
 import type { Context } from "@hono/hono";
-import type { ApiKeyService } from "../keys/api_key_service.ts";
+import { getApiKeyStatus, type ApiKeyService, type ApiKeyStatus } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import type { ApiKeyExtractor } from "./extractors/mod.ts";
+import type { IpAccessConfig } from "./types.ts";
 import { createDefaultExtractors } from "./extractors/mod.ts";
 import { logger } from "../utils/logger.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 
+/**
+ * Why a request was rejected (logged with the exec_reject entry).
+ * Missing and unknown keys are both "invalid_api_key".
+ */
+export type ApiKeyRejectionReason = "invalid_api_key" | "expired_api_key" | "disabled_api_key";
+
 export interface ApiKeyValidationResult {
   /** Whether the API key is valid */
   valid: boolean;
@@ -12,30 +20,49 @@ export interface ApiKeyValidationResult {
   keyGroup?: string;
   /** The API key group ID (database ID) */
   keyGroupId?: string;
-  /** The API key ID (database ID) */
+  /** Client IP restrictions of the matched key group */
+  keyGroupIpAccess?: IpAccessConfig;
+  /**
+   * The API key ID (database ID). For a rotated key in its grace period this
+   * is the successor, which holds the key-scoped secrets and rate limit rule.
+   */
   keyId?: string;
   /** Where the API key was found (e.g., "X-API-Key header", "Authorization Bearer") */
   source?: string;
   /** Error message if validation failed */
   error?: string;
+  /** Rejection reason if validation failed */
+  reason?: ApiKeyRejectionReason;
 }
 
 export interface ApiKeyValidatorOptions {
   apiKeyService: ApiKeyService;
+  /** Optional - when provided, requests are counted towards the matched key's usage */
+  apiKeyUsageService?: ApiKeyUsageService;
   /** Custom extractors to use. If not provided, uses default extractors. */
   extractors?: ApiKeyExtractor[];
 }
 
+/** Error messages of keys that exist but don't authenticate requests */
+const INACTIVE_KEY_ERRORS: Record<Exclude<ApiKeyStatus, "active">, { error: string; reason: ApiKeyRejectionReason }> = {
+  expired: { error: "API key expired", reason: "expired_api_key" },
+  disabled: { error: "API key is disabled", reason: "disabled_api_key" },
+};
+
 /**
  * Validates API keys against allowed key groups for function routes.
  * Supports multiple locations for API key extraction.
+ * Expired and disabled keys are rejected with their own error.
+ * A rotated key authenticates as its successor until it's retired.
  */
 export class ApiKeyValidator {
   private readonly apiKeyService: ApiKeyService;
+  private readonly apiKeyUsageService?: ApiKeyUsageService;
   private readonly extractors: ApiKeyExtractor[];
 
   constructor(options: ApiKeyValidatorOptions) {
     this.apiKeyService = options.apiKeyService;
+    this.apiKeyUsageService = options.apiKeyUsageService;
     this.extractors = options.extractors ?? createDefaultExtractors();
   }
 
@@ -67,28 +94,57 @@ export class ApiKeyValidator {
       return {
         valid: false,
         error: "Missing API key",
+        reason: "invalid_api_key",
       };
     }
 
-    // Check each allowed key group by ID
+    // Check each allowed key group by ID. The same value can be an expired key
+    // in one group and an active key in another - only reject once none is active.
+    let inactiveStatus: Exclude<ApiKeyStatus, "active"> | null = null;
     for (const groupId of allowedGroupIds) {
       const keyInfo = await this.apiKeyService.getKeyByValueInGroup(groupId, apiKey);
-      if (keyInfo) {
+      if (!keyInfo) {
+        continue;
+      }
+
+      const status = getApiKeyStatus(keyInfo);
+      if (status !== "active") {
+        inactiveStatus ??= status;
+        continue;
+      }
+
+      // Usage is counted for the key that was sent - it tells whether callers
+      // still use a rotated key
+      const keyId = recordIdToString(keyInfo.keyId);
+      this.apiKeyUsageService?.record(keyId);
+      if (keyInfo.rotatedToId) {
+        logger.debug(`API key validated with a rotated key (key group: ${keyInfo.groupName}, key: ${keyInfo.keyName})`);
+      } else {
         logger.debug(`API key validated successfully (key group: ${keyInfo.groupName}, source: ${source})`);
-        return {
-          valid: true,
-          keyGroup: keyInfo.groupName,
-          keyGroupId: keyInfo.groupId,
-          keyId: recordIdToString(keyInfo.keyId),
-          source: source!,
-        };
       }
+      return {
+        valid: true,
+        keyGroup: keyInfo.groupName,
+        keyGroupId: keyInfo.groupId,
+        keyGroupIpAccess: keyInfo.groupIpAccess,
+        keyId: keyInfo.rotatedToId ? recordIdToString(keyInfo.rotatedToId) : keyId,
+        source: source!,
+      };
+    }
+
+    if (inactiveStatus) {
+      logger.debug(`API key validation failed: key is ${inactiveStatus} (source: ${source})`);
+      return {
+        valid: false,
+        ...INACTIVE_KEY_ERRORS[inactiveStatus],
+      };
     }
 
     logger.debug(`API key validation failed: key not found (source: ${source})`);
     return {
       valid: false,
       error: "Invalid API key",
+      reason: "invalid_api_key",
     };
   }
 }
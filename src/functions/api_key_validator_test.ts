@@ -8,6 +8,7 @@ import type { ApiKeyService } from "../keys/api_key_service.ts";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 import { RecordId } from "surrealdb";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 
 // Helper to create a mock context from a Request (same pattern as extractors_test.ts)
 async function createContext(request: Request): Promise<Context> {
@@ -34,19 +35,28 @@ function createMockExtractor(
   };
 }
 
+interface MockKeyInfo {
+  keyId: RecordId;
+  groupId: string;
+  keyName: string;
+  groupName: string;
+  enabled?: boolean;
+  expiresAt?: Date;
+  rotatedToId?: RecordId;
+}
+
 // Mock ApiKeyService with configurable behavior using group IDs
-// keyGroups maps groupId -> Map<keyValue, keyInfo>
+// keyGroups maps groupId -> Map<keyValue, keyInfo>, keys are enabled unless stated otherwise
 function createMockApiKeyService(
-  keyGroups: Map<string, Map<string, { keyId: RecordId; groupId: string; keyName: string; groupName: string }>>
+  keyGroups: Map<string, Map<string, MockKeyInfo>>
 ): ApiKeyService {
   return {
     getKeyByValueInGroup: (
       groupId: string,
       keyValue: string
-    ): Promise<{ keyId: RecordId; groupId: string; keyName: string; groupName: string } | null> => {
-      const groupKeys = keyGroups.get(groupId);
-      if (!groupKeys) return Promise.resolve(null);
-      return Promise.resolve(groupKeys.get(keyValue) ?? null);
+    ): Promise<MockKeyInfo | null> => {
+      const keyInfo = keyGroups.get(groupId)?.get(keyValue);
+      return Promise.resolve(keyInfo ? { enabled: true, ...keyInfo } : null);
     },
   } as unknown as ApiKeyService;
 }
@@ -496,3 +506,145 @@ integrationTest("ApiKeyValidator rejects when allowed groups list is empty", asy
   expect(result.valid).toBe(false);
   expect(result.error).toBe("Invalid API key");
 });
+
+// ==========================
+// Expired and Disabled Keys
+// ==========================
+
+integrationTest("ApiKeyValidator rejects expired and disabled keys with their own reason", async () => {
+  const keyGroups = new Map([
+    [
+      "1",
+      new Map<string, MockKeyInfo>([
+        ["expired-key", {
+          keyId: new RecordId("apiKey", "1"),
+          groupId: "1",
+          keyName: "contractor",
+          groupName: "partners",
+          expiresAt: new Date(Date.now() - 1000),
+        }],
+        ["disabled-key", {
+          keyId: new RecordId("apiKey", "2"),
+          groupId: "1",
+          keyName: "old",
+          groupName: "partners",
+          enabled: false,
+        }],
+      ]),
+    ],
+  ]);
+  const mockApiKeyService = createMockApiKeyService(keyGroups);
+  const c = await createContext(new Request("http://localhost/test"));
+
+  const expired = await new ApiKeyValidator({
+    apiKeyService: mockApiKeyService,
+    extractors: [createMockExtractor("test", { key: "expired-key", source: "test" })],
+  }).validate(c, ["1"]);
+  expect(expired.valid).toBe(false);
+  expect(expired.error).toBe("API key expired");
+  expect(expired.reason).toBe("expired_api_key");
+
+  const disabled = await new ApiKeyValidator({
+    apiKeyService: mockApiKeyService,
+    extractors: [createMockExtractor("test", { key: "disabled-key", source: "test" })],
+  }).validate(c, ["1"]);
+  expect(disabled.valid).toBe(false);
+  expect(disabled.error).toBe("API key is disabled");
+  expect(disabled.reason).toBe("disabled_api_key");
+
+  const unknown = await new ApiKeyValidator({
+    apiKeyService: mockApiKeyService,
+    extractors: [createMockExtractor("test", { key: "unknown-key", source: "test" })],
+  }).validate(c, ["1"]);
+  expect(unknown.reason).toBe("invalid_api_key");
+});
+
+integrationTest("ApiKeyValidator accepts a value that is active in another allowed group", async () => {
+  const keyGroups = new Map([
+    [
+      "1",
+      new Map<string, MockKeyInfo>([
+        ["shared-key", { keyId: new RecordId("apiKey", "1"), groupId: "1", keyName: "a", groupName: "old", enabled: false }],
+      ]),
+    ],
+    [
+      "2",
+      new Map<string, MockKeyInfo>([
+        ["shared-key", { keyId: new RecordId("apiKey", "2"), groupId: "2", keyName: "b", groupName: "new" }],
+      ]),
+    ],
+  ]);
+
+  const validator = new ApiKeyValidator({
+    apiKeyService: createMockApiKeyService(keyGroups),
+    extractors: [createMockExtractor("test", { key: "shared-key", source: "test" })],
+  });
+
+  const c = await createContext(new Request("http://localhost/test"));
+  const result = await validator.validate(c, ["1", "2"]);
+
+  expect(result.valid).toBe(true);
+  expect(result.keyGroup).toBe("new");
+});
+
+integrationTest("ApiKeyValidator records usage of accepted keys only", async () => {
+  const keyGroups = new Map([
+    [
+      "1",
+      new Map<string, MockKeyInfo>([
+        ["good-key", { keyId: new RecordId("apiKey", "good"), groupId: "1", keyName: "good", groupName: "g" }],
+        ["off-key", { keyId: new RecordId("apiKey", "off"), groupId: "1", keyName: "off", groupName: "g", enabled: false }],
+      ]),
+    ],
+  ]);
+  const recorded: string[] = [];
+  const usageService = { record: (keyId: string) => recorded.push(keyId) } as unknown as ApiKeyUsageService;
+  const c = await createContext(new Request("http://localhost/test"));
+
+  for (const key of ["good-key", "off-key", "unknown-key", "good-key"]) {
+    await new ApiKeyValidator({
+      apiKeyService: createMockApiKeyService(keyGroups),
+      apiKeyUsageService: usageService,
+      extractors: [createMockExtractor("test", { key, source: "test" })],
+    }).validate(c, ["1"]);
+  }
+
+  expect(recorded).toEqual(["good", "good"]);
+});
+
+integrationTest("ApiKeyValidator authenticates a rotated key as its successor", async () => {
+  const keyGroups = new Map([
+    [
+      "1",
+      new Map<string, MockKeyInfo>([
+        ["new-key", { keyId: new RecordId("apiKey", "new"), groupId: "1", keyName: "billing", groupName: "g" }],
+        ["old-key", {
+          keyId: new RecordId("apiKey", "old"),
+          groupId: "1",
+          keyName: "billing-retiring",
+          groupName: "g",
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          rotatedToId: new RecordId("apiKey", "new"),
+        }],
+      ]),
+    ],
+  ]);
+  const recorded: string[] = [];
+  const usageService = { record: (keyId: string) => recorded.push(keyId) } as unknown as ApiKeyUsageService;
+  const c = await createContext(new Request("http://localhost/test"));
+
+  const results = [];
+  for (const key of ["old-key", "new-key"]) {
+    results.push(
+      await new ApiKeyValidator({
+        apiKeyService: createMockApiKeyService(keyGroups),
+        apiKeyUsageService: usageService,
+        extractors: [createMockExtractor("test", { key, source: "test" })],
+      }).validate(c, ["1"]),
+    );
+  }
+
+  // Secrets and rate limits follow the successor, usage is counted per key sent
+  expect(results.map((result) => result.keyId)).toEqual(["new", "new"]);
+  expect(recorded).toEqual(["old", "new"]);
+});
@@ -72,3 +72,49 @@ export class HandlerExecutionError extends HandlerError {
     this.originalError = originalError;
   }
 }
+
+/**
+ * Thrown (as the abort reason) when a handler exceeds its execution timeout
+ */
+export class HandlerTimeoutError extends HandlerError {
+  public readonly timeoutMs: number;
+
+  constructor(handlerPath: string, timeoutMs: number) {
+    super(`Handler timed out after ${timeoutMs}ms: ${handlerPath}`, handlerPath);
+    this.name = "HandlerTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown by ctx.invoke() when the target function doesn't exist or is disabled
+ */
+export class InvokeTargetNotFoundError extends Error {
+  constructor(public readonly functionName: string) {
+    super(`Function not found or disabled: ${functionName}`);
+    this.name = "InvokeTargetNotFoundError";
+  }
+}
+
+/**
+ * Thrown by ctx.invoke() when a call would exceed the maximum invocation depth
+ */
+export class InvokeDepthExceededError extends Error {
+  constructor(
+    public readonly functionName: string,
+    public readonly maxDepth: number
+  ) {
+    super(`Maximum invoke depth of ${maxDepth} exceeded calling: ${functionName}`);
+    this.name = "InvokeDepthExceededError";
+  }
+}
+
+/**
+ * Thrown by fetch() in a handler when the host is not in the function's allowed hosts
+ */
+export class OutboundHostBlockedError extends Error {
+  constructor(public readonly host: string) {
+    super(`Outbound request to ${host} blocked: host is not in the function's allowed hosts`);
+    this.name = "OutboundHostBlockedError";
+  }
+}
@@ -1,7 +1,7 @@
 export type { ApiKeyExtractor, ApiKeyExtractResult } from "./types.ts";
 export { HeaderExtractor } from "./header_extractor.ts";
 export { AuthorizationExtractor } from "./authorization_extractor.ts";
-export { QueryParamExtractor } from "./query_extractor.ts";
+export { API_KEY_QUERY_PARAMS, QueryParamExtractor } from "./query_extractor.ts";
 
 import { HeaderExtractor } from "./header_extractor.ts";
 import { AuthorizationExtractor } from "./authorization_extractor.ts";
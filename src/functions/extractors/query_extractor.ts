@@ -5,7 +5,7 @@ import { logger } from "../../utils/logger.ts";
 /**
  * Default query parameter names to check for API keys
  */
-const DEFAULT_PARAMS = ["api_key", "apiKey"] as const;
+export const API_KEY_QUERY_PARAMS = ["api_key", "apiKey"] as const;
 
 /**
  * Extracts API keys from URL query parameters.
@@ -16,7 +16,7 @@ export class QueryParamExtractor implements ApiKeyExtractor {
   readonly name = "QueryParam";
   private readonly params: readonly string[];
 
-  constructor(params: readonly string[] = DEFAULT_PARAMS) {
+  constructor(params: readonly string[] = API_KEY_QUERY_PARAMS) {
     this.params = params;
   }
 
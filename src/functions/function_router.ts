@@ -1,24 +1,100 @@
 import { Hono, type Context } from "@hono/hono";
 import { cors } from "@hono/hono/cors";
-import { FunctionsService, type FunctionDefinition } from "../routes/functions_service.ts";
+import type { RecordId } from "surrealdb";
+import {
+  FunctionsService,
+  type FunctionDefinition,
+  type FunctionCronJobPayload,
+} from "../routes/functions_service.ts";
 import type { ApiKeyService } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import type { ConsoleLogService } from "../logs/console_log_service.ts";
 import type { ExecutionMetricsService } from "../metrics/execution_metrics_service.ts";
+import type { PrometheusMetricsService } from "../metrics/prometheus_metrics_service.ts";
+import type { ExecutionOutcome } from "../metrics/types.ts";
 import type { SecretsService } from "../secrets/secrets_service.ts";
+import type { RateLimitService } from "../rate_limits/rate_limit_service.ts";
+import type { KvService } from "../kv/kv_service.ts";
+import {
+  type AsyncInvocationService,
+  MAX_ASYNC_BODY_BYTES,
+} from "../invocations/async_invocation_service.ts";
+import type { AsyncInvocationRequest } from "../invocations/types.ts";
+import type { Job } from "../jobs/types.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { TracingService } from "../tracing/tracing_service.ts";
+import type { ErrorGroupService } from "../error_groups/error_group_service.ts";
+import type { ErrorOccurrence } from "../error_groups/types.ts";
+import { type Span, withChildSpan } from "../tracing/span.ts";
+import { parseTraceparent } from "../tracing/trace_context.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
 import { HandlerLoader } from "./handler_loader.ts";
-import { ApiKeyValidator } from "./api_key_validator.ts";
-import type { FunctionContext, RouteInfo, CorsConfig } from "./types.ts";
+import { WorkerExecutor } from "./worker_executor.ts";
+import { API_KEY_QUERY_PARAMS } from "./extractors/mod.ts";
+import { type ApiKeyRejectionReason, ApiKeyValidator } from "./api_key_validator.ts";
+import { extractBearerJwt, type JwtRejectionReason, JwtValidator } from "./jwt_validator.ts";
+import { SignatureVerifier } from "./signature_verifier.ts";
+import { checkIpAccess, getClientIp, type IpRejectionReason, parseIpList } from "./ip_access.ts";
+import type {
+  FunctionContext,
+  FunctionInvokeInit,
+  RouteInfo,
+  CorsConfig,
+  InvocationTrigger,
+  IpAccessConfig,
+} from "./types.ts";
 import {
   HandlerNotFoundError,
   HandlerExportError,
   HandlerSyntaxError,
   HandlerLoadError,
   HandlerExecutionError,
+  HandlerTimeoutError,
+  InvokeDepthExceededError,
+  InvokeTargetNotFoundError,
 } from "./errors.ts";
 import { runInRequestContext } from "../logs/request_context.ts";
+import type { RequestContext } from "../logs/types.ts";
+import { createFunctionLogger } from "../logs/function_logger.ts";
+import { OutboundTracker } from "../outbound/outbound_tracker.ts";
 import { runInEnvContext, createEnvContext } from "../env/env_context.ts";
 import { originalConsole } from "../logs/stream_interceptor.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateSurrealId } from "../validation/common.ts";
+
+/** Response messages of requests rejected because of their client IP */
+const IP_REJECTION_MESSAGES: Record<IpRejectionReason, string> = {
+  ip_denied: "Client IP is denied",
+  ip_not_allowed: "Client IP is not allowed",
+};
+
+/** Caller identity established by the request that was admitted (async jobs and ctx.invoke inherit it) */
+type InvocationCaller = Pick<AsyncInvocationRequest, "authenticatedKeyGroup" | "keyGroupId" | "keyId" | "jwtClaims">;
+
+/** Caller identity established by an API key or a JWT */
+interface AuthenticationResult extends InvocationCaller {
+  valid: boolean;
+  /** Error message if authentication failed */
+  error?: string;
+  /** Rejection reason if authentication failed (logged with the exec_reject entry) */
+  reason?: ApiKeyRejectionReason | JwtRejectionReason;
+  /** Client IP restrictions of the API key's group */
+  keyGroupIpAccess?: IpAccessConfig;
+}
+
+/** Origin of an invocation that didn't come straight from an HTTP request */
+interface InvocationOrigin {
+  /** Identity of the original caller */
+  caller?: InvocationCaller;
+  /** Request that called this function via ctx.invoke() */
+  parentRequestId?: string;
+  /** Nesting depth of ctx.invoke() calls (0 = top-level invocation) */
+  depth?: number;
+  /** Span of the ctx.invoke() call (parent of the execution span) */
+  parentSpan?: Span;
+  /** Secret values read by the calling requests (redacted from this request's logs too) */
+  resolvedSecrets?: Set<string>;
+}
 
 export interface FunctionDefinitionrOptions {
   functionsService: FunctionsService;
@@ -26,6 +102,21 @@ export interface FunctionDefinitionrOptions {
   consoleLogService: ConsoleLogService;
   executionMetricsService: ExecutionMetricsService;
   secretsService: SecretsService;
+  kvService: KvService;
+  /** Optional - when provided, the default handler timeout is read from settings */
+  settingsService?: SettingsService;
+  /** Optional - when provided, HTTP requests are checked against rate limit rules */
+  rateLimitService?: RateLimitService;
+  /** Optional - when provided, requests can be invoked asynchronously (202 + job ID) */
+  asyncInvocationService?: AsyncInvocationService;
+  /** Optional - when provided, executions are counted for the Prometheus /metrics endpoint */
+  prometheusMetricsService?: PrometheusMetricsService;
+  /** Optional - when provided, executions are exported as OpenTelemetry spans */
+  tracingService?: TracingService;
+  /** Optional - when provided, execution and load errors are grouped for the errors dashboard */
+  errorGroupService?: ErrorGroupService;
+  /** Optional - when provided, requests are counted towards the usage of their API key */
+  apiKeyUsageService?: ApiKeyUsageService;
   /** Base directory for code files (default: current working directory) */
   codeDirectory?: string;
 }
@@ -33,21 +124,61 @@ export interface FunctionDefinitionrOptions {
 export class FunctionRouter {
   private readonly functionsService: FunctionsService;
   private readonly apiKeyValidator: ApiKeyValidator;
+  private readonly jwtValidator = new JwtValidator();
+  private readonly signatureVerifier: SignatureVerifier;
   private readonly handlerLoader: HandlerLoader;
+  private readonly workerExecutor: WorkerExecutor;
   private readonly consoleLogService: ConsoleLogService;
   private readonly executionMetricsService: ExecutionMetricsService;
   private readonly secretsService: SecretsService;
+  private readonly kvService: KvService;
+  private readonly settingsService?: SettingsService;
+  private readonly rateLimitService?: RateLimitService;
+  private readonly asyncInvocationService?: AsyncInvocationService;
+  private readonly prometheusMetricsService?: PrometheusMetricsService;
+  private readonly tracingService?: TracingService;
+  private readonly errorGroupService?: ErrorGroupService;
   private router: Hono = this.createEmptyRouter();
 
+  // Settings (refreshed periodically)
+  private defaultTimeoutMs = parseInt(
+    GlobalSettingDefaults[SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS],
+    10,
+  );
+  private maxInvokeDepth = parseInt(
+    GlobalSettingDefaults[SettingNames.FUNCTION_MAX_INVOKE_DEPTH],
+    10,
+  );
+  private globalIpAccess: IpAccessConfig = {};
+  private trustedProxies: string[] = [];
+  private lastSettingsRefresh = 0;
+  private settingsRefresh: Promise<void> | null = null;
+  private readonly settingsRefreshIntervalMs = 5000;
+
   constructor(options: FunctionDefinitionrOptions) {
     this.functionsService = options.functionsService;
-    this.apiKeyValidator = new ApiKeyValidator({ apiKeyService: options.apiKeyService });
+    this.apiKeyValidator = new ApiKeyValidator({
+      apiKeyService: options.apiKeyService,
+      apiKeyUsageService: options.apiKeyUsageService,
+    });
     this.handlerLoader = new HandlerLoader({
       baseDirectory: options.codeDirectory ?? Deno.cwd(),
     });
     this.consoleLogService = options.consoleLogService;
+    this.workerExecutor = new WorkerExecutor({
+      handlerLoader: this.handlerLoader,
+      consoleLogService: options.consoleLogService,
+    });
     this.executionMetricsService = options.executionMetricsService;
     this.secretsService = options.secretsService;
+    this.signatureVerifier = new SignatureVerifier({ secretsService: options.secretsService });
+    this.kvService = options.kvService;
+    this.settingsService = options.settingsService;
+    this.rateLimitService = options.rateLimitService;
+    this.asyncInvocationService = options.asyncInvocationService;
+    this.prometheusMetricsService = options.prometheusMetricsService;
+    this.tracingService = options.tracingService;
+    this.errorGroupService = options.errorGroupService;
   }
 
   async handle(c: Context): Promise<Response> {
@@ -57,18 +188,290 @@ export class FunctionRouter {
     });
 
     // Delegate to internal router
-    // Strip /run prefix before passing to internal router
-    const path = c.req.path.replace(/^\/run/, "") || "/";
+    // Strip /run (or /run-async) prefix before passing to internal router
+    const isAsyncPath = /^\/run-async(\/|$)/.test(c.req.path);
+    const path = c.req.path.replace(/^\/run(-async)?/, "") || "/";
     const url = new URL(c.req.url);
     url.pathname = path;
 
+    // /run-async/* is shorthand for the "Prefer: respond-async" header
+    const headers = new Headers(c.req.raw.headers);
+    if (isAsyncPath) {
+      headers.set("Prefer", "respond-async");
+    }
+
     const newRequest = new Request(url.toString(), {
       method: c.req.method,
-      headers: c.req.raw.headers,
+      headers,
       body: c.req.raw.body,
     });
 
-    return this.router.fetch(newRequest);
+    // Pass the connection info along - the client IP is read from it
+    return this.router.fetch(newRequest, c.env);
+  }
+
+  /**
+   * Invoke a function from one of its cron schedules.
+   *
+   * Builds a synthetic request to the function's route and runs it through the
+   * same handler pipeline as HTTP requests (exec_start/exec_end logs, metrics,
+   * error handling). API key validation is skipped - the scheduler is trusted.
+   *
+   * @param payload - Payload of the function_cron job
+   * @returns The HTTP status returned by the handler
+   * @throws Error if the function doesn't exist, is disabled, or the handler responds with an error status
+   */
+  async invokeScheduled(
+    payload: FunctionCronJobPayload,
+  ): Promise<{ status: number; durationMs: number }> {
+    const route = await this.functionsService.getById(payload.functionId);
+    if (!route) {
+      throw new Error(`Function with id '${payload.functionId}' not found`);
+    }
+    if (!route.enabled) {
+      throw new Error(`Function '${route.name}' is disabled`);
+    }
+
+    const method = (payload.method ?? route.methods[0] ?? "GET").toUpperCase();
+    const scheduledAt = new Date().toISOString();
+    const hasBody = method !== "GET" && method !== "HEAD";
+
+    const request = new Request(new URL(route.routePath, "http://localhost"), {
+      method,
+      headers: {
+        "X-Crude-Trigger": "scheduled",
+        ...(hasBody ? { "Content-Type": "application/json" } : {}),
+      },
+      body: hasBody
+        ? JSON.stringify({
+          trigger: "scheduled",
+          expression: payload.expression,
+          timezone: payload.timezone,
+          scheduledAt,
+        })
+        : undefined,
+    });
+
+    // Single-route app - the synthetic request always reaches this handler
+    const app = new Hono();
+    app.all("*", this.createHandler(route, "scheduled"));
+
+    const startTime = performance.now();
+    const response = await app.fetch(request);
+    const durationMs = Math.round(performance.now() - startTime);
+    // Drain the body so the handler's stream is released
+    await response.body?.cancel();
+
+    if (response.status >= 400) {
+      throw new Error(
+        `Scheduled invocation of '${route.name}' failed with HTTP ${response.status}`,
+      );
+    }
+
+    return { status: response.status, durationMs };
+  }
+
+  /**
+   * Invoke a function as the channel of an alert rule.
+   *
+   * POSTs the notification as JSON to the function's route through the same
+   * handler pipeline as HTTP requests. API key validation is skipped - alert
+   * evaluation is trusted.
+   *
+   * @param name - Name of the function
+   * @param notification - Notification payload, sent as the request body
+   * @returns The HTTP status returned by the handler
+   * @throws Error if the function doesn't exist, is disabled, doesn't accept POST, or responds with an error status
+   */
+  async invokeAlert(
+    name: string,
+    notification: unknown,
+  ): Promise<{ status: number; durationMs: number }> {
+    const route = await this.functionsService.getByName(name);
+    if (!route) {
+      throw new Error(`Function '${name}' not found`);
+    }
+    if (!route.enabled) {
+      throw new Error(`Function '${route.name}' is disabled`);
+    }
+    if (!route.methods.includes("POST")) {
+      throw new Error(`Function '${route.name}' does not accept POST requests`);
+    }
+
+    const request = new Request(new URL(route.routePath, "http://localhost"), {
+      method: "POST",
+      headers: {
+        "X-Crude-Trigger": "alert",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(notification),
+    });
+
+    // Single-route app - the synthetic request always reaches this handler
+    const app = new Hono();
+    app.all("*", this.createHandler(route, "alert"));
+
+    const startTime = performance.now();
+    const response = await app.fetch(request);
+    const durationMs = Math.round(performance.now() - startTime);
+    await response.body?.cancel();
+
+    if (response.status >= 400) {
+      throw new Error(`Alert invocation of '${route.name}' failed with HTTP ${response.status}`);
+    }
+
+    return { status: response.status, durationMs };
+  }
+
+  /**
+   * Run the job of an asynchronous invocation.
+   *
+   * Replays the captured request through the same handler pipeline as
+   * synchronous requests (exec_start/exec_end logs, metrics, error handling)
+   * and stores the response for polling. API key validation and rate limiting
+   * already happened when the request was accepted.
+   *
+   * @param job - Job enqueued by AsyncInvocationService
+   * @returns The HTTP status returned by the handler
+   * @throws Error if the function doesn't exist or is disabled (stored as the invocation's failure)
+   */
+  async invokeAsync(job: Job): Promise<{ status: number; durationMs: number }> {
+    if (!this.asyncInvocationService) {
+      throw new Error("Asynchronous invocations are not enabled");
+    }
+
+    const invocation = await this.asyncInvocationService.getRequest(job);
+    const route = await this.functionsService.getById(invocation.functionId);
+    if (!route || !route.enabled) {
+      const message = route
+        ? `Function '${route.name}' is disabled`
+        : `Function with id '${invocation.functionId}' not found`;
+      await this.asyncInvocationService.storeFailure(job, message);
+      throw new Error(message);
+    }
+
+    const request = new Request(invocation.url, {
+      method: invocation.method,
+      headers: invocation.headers,
+      body: invocation.body ? new Uint8Array(invocation.body) : undefined,
+    });
+
+    // Single-route app - registered on the route path so params are extracted
+    const app = new Hono();
+    app.all(route.routePath, this.createHandler(route, "async", { caller: invocation }));
+    app.all("*", (c) => c.json({ error: "Function not found" }, 404));
+
+    const startTime = performance.now();
+    const response = await app.fetch(request);
+    const durationMs = Math.round(performance.now() - startTime);
+
+    await this.asyncInvocationService.storeResponse(job, response);
+
+    return { status: response.status, durationMs };
+  }
+
+  /**
+   * Respond with the status (and, once completed, the stored response) of an
+   * asynchronous invocation. Mounted at /run-status/:jobId.
+   *
+   * Requires a valid API key if the invoked function requires one. Once the
+   * function has been deleted, there's nothing to authenticate against - its
+   * invocations are reported as not found.
+   */
+  async handleAsyncStatus(c: Context): Promise<Response> {
+    const jobId = validateSurrealId(c.req.param("jobId"));
+    const status = jobId && this.asyncInvocationService
+      ? await this.asyncInvocationService.getStatus(jobId)
+      : null;
+    const route = status ? await this.functionsService.getById(status.functionId) : null;
+
+    if (!status || !route) {
+      return c.json({ error: "Job not found" }, 404);
+    }
+
+    await this.maybeRefreshSettings();
+    const clientIp = getClientIp(c, this.trustedProxies);
+    const ipRejection = checkIpAccess(clientIp, [this.globalIpAccess, route.ipAccess]);
+    if (ipRejection) {
+      return c.json({ error: "Forbidden", message: IP_REJECTION_MESSAGES[ipRejection] }, 403);
+    }
+
+    if (this.requiresAuthentication(route)) {
+      const validation = await this.authenticate(c, route);
+      if (!validation.valid) {
+        return c.json({ error: "Unauthorized", message: validation.error }, 401);
+      }
+      const keyGroupRejection = checkIpAccess(clientIp, [validation.keyGroupIpAccess]);
+      if (keyGroupRejection) {
+        return c.json({ error: "Forbidden", message: IP_REJECTION_MESSAGES[keyGroupRejection] }, 403);
+      }
+    }
+
+    return c.json(status);
+  }
+
+  /**
+   * Whether HTTP requests to a function need an API key or a JWT.
+   */
+  private requiresAuthentication(route: FunctionDefinition): boolean {
+    return (route.keys !== undefined && route.keys.length > 0) || route.jwt !== undefined;
+  }
+
+  /**
+   * Authenticate a request to a function that requires an API key, a JWT or
+   * either of them. A bearer token shaped like a JWT is checked against the
+   * function's JWT settings; any other credential is checked as an API key.
+   */
+  private async authenticate(c: Context, route: FunctionDefinition): Promise<AuthenticationResult> {
+    const acceptsKeys = route.keys !== undefined && route.keys.length > 0;
+    if (route.jwt && (!acceptsKeys || extractBearerJwt(c))) {
+      const validation = await this.jwtValidator.validate(c, route.jwt);
+      return {
+        valid: validation.valid,
+        error: validation.error,
+        reason: validation.reason,
+        jwtClaims: validation.claims,
+      };
+    }
+
+    const validation = await this.apiKeyValidator.validate(c, route.keys ?? []);
+    return {
+      valid: validation.valid,
+      error: validation.error,
+      reason: validation.reason,
+      authenticatedKeyGroup: validation.keyGroup,
+      keyGroupId: validation.keyGroupId,
+      keyGroupIpAccess: validation.keyGroupIpAccess,
+      keyId: validation.keyId,
+    };
+  }
+
+  /**
+   * Log a request rejected because of its client IP and respond with 403.
+   */
+  private rejectClientIp(
+    c: Context,
+    reason: IpRejectionReason,
+    clientIp: string | null,
+    requestId: string,
+    functionId: string,
+  ): Response {
+    this.consoleLogService.store({
+      requestId,
+      functionId,
+      level: "exec_reject",
+      message: `${c.req.method} ${c.req.url}`,
+      args: JSON.stringify({ reason, ip: clientIp }),
+    });
+
+    return c.json(
+      {
+        error: "Forbidden",
+        message: IP_REJECTION_MESSAGES[reason],
+        requestId,
+      },
+      403
+    );
   }
 
   private createEmptyRouter(): Hono {
@@ -137,7 +540,11 @@ export class FunctionRouter {
     };
   }
 
-  private createHandler(route: FunctionDefinition) {
+  private createHandler(
+    route: FunctionDefinition,
+    trigger: InvocationTrigger = "http",
+    invocationOrigin?: InvocationOrigin,
+  ) {
     return async (c: Context): Promise<Response> => {
       const requestId = crypto.randomUUID();
       const method = c.req.method;
@@ -146,13 +553,27 @@ export class FunctionRouter {
       // Convert route.id to string for logs/metrics (they expect string IDs now)
       const functionIdString = recordIdToString(route.id);
 
-      // 1. API Key Validation (if required)
-      let authenticatedKeyGroup: string | undefined;
-      let keyGroupId: string | undefined;
-      let keyId: string | undefined;
+      // 1. Client IP access (global and function lists - only HTTP requests have a client IP,
+      // async invocations were checked when they were accepted)
+      let clientIp: string | null = null;
+      if (trigger === "http") {
+        await this.maybeRefreshSettings();
+        clientIp = getClientIp(c, this.trustedProxies);
+        const ipRejection = checkIpAccess(clientIp, [this.globalIpAccess, route.ipAccess]);
+        if (ipRejection) {
+          return this.rejectClientIp(c, ipRejection, clientIp, requestId, functionIdString);
+        }
+      }
+
+      // 2. API key / JWT authentication (if required - scheduled invocations are trusted,
+      // async and ctx.invoke() invocations carry the identity of the admitted request)
+      let authenticatedKeyGroup = invocationOrigin?.caller?.authenticatedKeyGroup;
+      let keyGroupId = invocationOrigin?.caller?.keyGroupId;
+      let keyId = invocationOrigin?.caller?.keyId;
+      let jwtClaims = invocationOrigin?.caller?.jwtClaims;
 
-      if (route.keys && route.keys.length > 0) {
-        const validation = await this.apiKeyValidator.validate(c, route.keys);
+      if (trigger === "http" && this.requiresAuthentication(route)) {
+        const validation = await this.authenticate(c, route);
 
         if (!validation.valid) {
           // Log rejected request
@@ -161,7 +582,7 @@ export class FunctionRouter {
             functionId: functionIdString,
             level: "exec_reject",
             message: `${method} ${fullUrl}`,
-            args: JSON.stringify({ reason: "invalid_api_key" }),
+            args: JSON.stringify({ reason: validation.reason }),
           });
 
           return c.json(
@@ -174,12 +595,86 @@ export class FunctionRouter {
           );
         }
 
-        authenticatedKeyGroup = validation.keyGroup;
+        // Keys of a group with IP restrictions only work from its addresses
+        const keyGroupRejection = checkIpAccess(clientIp, [validation.keyGroupIpAccess]);
+        if (keyGroupRejection) {
+          return this.rejectClientIp(c, keyGroupRejection, clientIp, requestId, functionIdString);
+        }
+
+        authenticatedKeyGroup = validation.authenticatedKeyGroup;
         keyGroupId = validation.keyGroupId;
         keyId = validation.keyId;
+        jwtClaims = validation.jwtClaims;
+      }
+
+      // 3. Request signature verification (if required - only HTTP requests are signed)
+      if (trigger === "http" && route.signature) {
+        const verification = await this.signatureVerifier.verify(c, route.signature, functionIdString);
+
+        if (!verification.valid) {
+          this.consoleLogService.store({
+            requestId,
+            functionId: functionIdString,
+            level: "exec_reject",
+            message: `${method} ${fullUrl}`,
+            args: JSON.stringify({ reason: "invalid_signature" }),
+          });
+
+          return c.json(
+            {
+              error: "Unauthorized",
+              message: verification.error,
+              requestId,
+            },
+            401
+          );
+        }
       }
 
-      // 2. Build FunctionContext
+      // 4. Rate limiting (function, key group and key rules - scheduled invocations are exempt)
+      if (trigger === "http" && this.rateLimitService) {
+        const decision = await this.rateLimitService.check({
+          functionId: functionIdString,
+          keyGroupId,
+          keyId,
+        });
+
+        if (!decision.allowed) {
+          this.consoleLogService.store({
+            requestId,
+            functionId: functionIdString,
+            level: "exec_reject",
+            message: `${method} ${fullUrl}`,
+            args: JSON.stringify({ reason: "rate_limited", scope: decision.scopeType }),
+          });
+
+          c.header("Retry-After", String(decision.retryAfterSeconds));
+          return c.json(
+            {
+              error: "Too Many Requests",
+              message: `Rate limit exceeded (${decision.scopeType}), retry after ${decision.retryAfterSeconds}s`,
+              requestId,
+            },
+            429
+          );
+        }
+      }
+
+      // 5. Asynchronous invocation - enqueue the request and respond with a job handle
+      if (
+        trigger === "http" &&
+        this.asyncInvocationService &&
+        prefersRespondAsync(c.req.header("prefer"))
+      ) {
+        return await this.enqueueAsync(c, functionIdString, requestId, {
+          authenticatedKeyGroup,
+          keyGroupId,
+          keyId,
+          jwtClaims,
+        });
+      }
+
+      // 6. Build FunctionContext
       const routeInfo: RouteInfo = {
         name: route.name,
         description: route.description,
@@ -192,53 +687,131 @@ export class FunctionRouter {
       // Capture functionId for secret closures (string ID)
       const functionId = functionIdString;
 
+      // Execution span - a child of the ctx.invoke() call, or of the caller's traceparent
+      const span = this.tracingService?.startSpan(`${method} ${route.routePath}`, {
+        kind: trigger === "http" || trigger === "async" ? "server" : "internal",
+        parent: invocationOrigin?.parentSpan ?? parseTraceparent(c.req.header("traceparent")),
+        attributes: {
+          "http.request.method": method,
+          "http.route": route.routePath,
+          "crude.function.id": functionIdString,
+          "crude.function.name": route.name,
+          "crude.request_id": requestId,
+          "crude.trigger": trigger,
+        },
+      });
+      span?.setAttribute("crude.key_group", authenticatedKeyGroup);
+      span?.setAttribute("enduser.id", typeof jwtClaims?.sub === "string" ? jwtClaims.sub : undefined);
+
+      // Request context for console log capture. Secret values the handler
+      // reads are collected here so they are redacted from its logs, and its
+      // fetch() calls are logged and checked against the allowed hosts.
+      // ctx.invoke() chains share one set, so a child that logs values it was
+      // passed by its caller doesn't leak the caller's secrets.
+      const resolvedSecrets = invocationOrigin?.resolvedSecrets ?? new Set<string>();
+      const requestContext: RequestContext = { requestId, functionId: functionIdString, resolvedSecrets };
+      const outbound = new OutboundTracker({
+        allowedHosts: route.allowedHosts,
+        span,
+        log: (message, fields) =>
+          this.consoleLogService.store(
+            { requestId, functionId: functionIdString, level: "outbound", message, fields },
+            requestContext,
+          ),
+      });
+      requestContext.outbound = outbound;
+      const trackSecret = (value: string | undefined) => {
+        if (value !== undefined) resolvedSecrets.add(value);
+        return value;
+      };
+
+      // Per-function timeout, falling back to the global default (0 = no timeout)
+      await this.maybeRefreshSettings();
+      const timeoutMs = route.timeoutMs ?? this.defaultTimeoutMs;
+      const abortController = new AbortController();
+
       const ctx: FunctionContext = {
         route: routeInfo,
         params: c.req.param() as Record<string, string>,
         query: this.parseQueryParams(c),
         authenticatedKeyGroup,
+        jwtClaims,
         requestedAt: new Date(),
         requestId,
+        trigger,
+        signal: abortController.signal,
+        kv: this.kvService.forFunction(functionId),
+        log: createFunctionLogger((level, message, fields) =>
+          this.consoleLogService.store(
+            { requestId, functionId: functionIdString, level, message, fields },
+            requestContext,
+          )
+        ),
+        invoke: (functionName: string, init?: FunctionInvokeInit) =>
+          withChildSpan(span, `invoke ${functionName}`, { "crude.invoke.function": functionName }, async (invokeSpan) => {
+            const response = await this.invokeFromHandler(functionName, init, {
+              requestId,
+              depth: invocationOrigin?.depth ?? 0,
+              caller: { authenticatedKeyGroup, keyGroupId, keyId, jwtClaims },
+              span: invokeSpan,
+              resolvedSecrets,
+            });
+            invokeSpan?.setAttribute("http.response.status_code", response.status);
+            return response;
+          }),
 
         // Secret accessor closures with embedded IDs
-        getSecret: async (
+        getSecret: (
           name: string,
           scope?: "global" | "function" | "group" | "key"
-        ): Promise<string | undefined> => {
-          if (scope) {
-            // Use scope-specific lookup
-            return await this.secretsService.getSecretByScope(
+        ): Promise<string | undefined> =>
+          withChildSpan(span, "secret lookup", {
+            "crude.secret.name": name,
+            "crude.secret.scope": scope ?? "hierarchical",
+          }, async (secretSpan) => {
+            const value = scope
+              // Use scope-specific lookup
+              ? await this.secretsService.getSecretByScope(
+                name,
+                scope,
+                functionId,
+                keyGroupId,
+                keyId
+              )
+              // No scope specified - use hierarchical resolution
+              : await this.secretsService.getSecretHierarchical(
+                name,
+                functionId,
+                keyGroupId,
+                keyId
+              );
+            secretSpan?.setAttribute("crude.secret.found", value !== undefined);
+            return trackSecret(value);
+          }),
+
+        getCompleteSecret: (name: string) =>
+          withChildSpan(span, "secret lookup", {
+            "crude.secret.name": name,
+            "crude.secret.scope": "all",
+          }, async (secretSpan) => {
+            const secret = await this.secretsService.getCompleteSecret(
               name,
-              scope,
               functionId,
               keyGroupId,
               keyId
             );
-          }
-
-          // No scope specified - use hierarchical resolution
-          return await this.secretsService.getSecretHierarchical(
-            name,
-            functionId,
-            keyGroupId,
-            keyId
-          );
-        },
-
-        getCompleteSecret: async (name: string) => {
-          return await this.secretsService.getCompleteSecret(
-            name,
-            functionId,
-            keyGroupId,
-            keyId
-          );
-        },
+            secretSpan?.setAttribute("crude.secret.found", secret !== undefined);
+            trackSecret(secret?.global);
+            trackSecret(secret?.function);
+            trackSecret(secret?.group?.value);
+            trackSecret(secret?.key?.value);
+            return secret;
+          }),
       };
 
-      // 3. Execute Handler within request context (for console log capture)
+      // 7. Execute Handler within request context (for console log capture)
       // Handler loading happens INSIDE the env context so module-level code
       // sees the isolated environment, not the real system environment.
-      const requestContext = { requestId, functionId: functionIdString };
 
       // Prepare execution logging data
       const origin = c.req.header("origin") || c.req.header("referer") || "";
@@ -252,11 +825,23 @@ export class FunctionRouter {
         functionId: functionIdString,
         level: "exec_start",
         message: `${method} ${fullUrl}`,
-        args: JSON.stringify({ origin, keyGroup, contentLength }),
+        args: JSON.stringify(
+          trigger === "http"
+            ? { origin, keyGroup, contentLength }
+            : { origin, keyGroup, contentLength, trigger },
+        ),
+        parentRequestId: invocationOrigin?.parentRequestId,
       });
 
-      try {
-        const response = await runInRequestContext(requestContext, async () => {
+      // Worker-isolated functions run in a dedicated Deno Worker with their own permissions
+      const execution = route.worker
+        ? this.workerExecutor.execute({
+          permissions: route.worker,
+          request: c.req.raw,
+          ctx,
+          requestContext,
+        })
+        : Promise.resolve(runInRequestContext(requestContext, async () => {
           // Create isolated env context - handler loading and execution both happen inside
           // This ensures module-level code in handlers sees isolated env (empty by default)
           const envContext = createEnvContext();
@@ -265,7 +850,22 @@ export class FunctionRouter {
             const handler = await this.handlerLoader.load(route.handler);
             return await handler(c, ctx);
           });
-        });
+        }));
+
+      let timeoutId: number | undefined;
+
+      try {
+        const response = timeoutMs > 0
+          ? await Promise.race([
+            execution,
+            new Promise<never>((_, reject) => {
+              timeoutId = setTimeout(
+                () => reject(new HandlerTimeoutError(route.handler, timeoutMs)),
+                timeoutMs,
+              );
+            }),
+          ])
+          : await execution;
 
         // Log execution end (success)
         const durationMs = Math.round(performance.now() - startTime);
@@ -275,23 +875,35 @@ export class FunctionRouter {
           level: "exec_end",
           message: `${durationMs}ms`,
         });
+        this.prometheusMetricsService?.recordExecution(functionIdString, route.name, "success", durationMs);
 
-        // Store execution metric with microseconds precision
-        const durationUs = Math.round((performance.now() - startTime) * 1000);
-        this.executionMetricsService.store({
-          functionId: route.id,
-          type: "execution",
-          avgTimeUs: durationUs,
-          maxTimeUs: durationUs,
-          executionCount: 1,
-        }).catch((error) => {
-          globalThis.console.error("[FunctionDefinitionr] Failed to store metric:", error);
-        });
+        this.storeExecutionMetric(route.id, startTime, "success", response.status, outbound);
+        this.endExecutionSpan(span, "success", response.status, requestContext);
 
         return response;
       } catch (error) {
         const durationMs = Math.round(performance.now() - startTime);
 
+        // Timeout: signal the handler to stop and respond without waiting for it
+        if (error instanceof HandlerTimeoutError) {
+          abortController.abort(error);
+          // The handler may still settle later - its outcome is no longer relevant
+          execution.catch(() => {});
+
+          this.consoleLogService.store({
+            requestId,
+            functionId: functionIdString,
+            level: "exec_end",
+            message: `${durationMs}ms (timeout)`,
+          });
+          this.prometheusMetricsService?.recordExecution(functionIdString, route.name, "timeout", durationMs);
+
+          const timeoutResponse = this.handleTimeoutError(c, error, requestId);
+          this.storeExecutionMetric(route.id, startTime, "timeout", timeoutResponse.status, outbound);
+          this.endExecutionSpan(span, "timeout", timeoutResponse.status, requestContext, error);
+          return timeoutResponse;
+        }
+
         // Check if this is a handler load error (not an execution error)
         if (
           error instanceof HandlerNotFoundError ||
@@ -299,15 +911,31 @@ export class FunctionRouter {
           error instanceof HandlerSyntaxError ||
           error instanceof HandlerLoadError
         ) {
-          // Log execution end (load error) - no metrics for load failures
+          // Log execution end (load error)
           this.consoleLogService.store({
             requestId,
             functionId: functionIdString,
             level: "exec_end",
             message: `${durationMs}ms (load error)`,
           });
+          this.prometheusMetricsService?.recordExecution(functionIdString, route.name, "load_error", durationMs);
 
-          return this.handleLoadError(c, error, requestId);
+          const loadErrorResponse = this.handleLoadError(c, error, requestId);
+          this.captureError({
+            functionId: functionIdString,
+            kind: "load",
+            error: error instanceof HandlerSyntaxError || error instanceof HandlerLoadError
+              ? error.originalError
+              : error,
+            requestId,
+            method,
+            url: c.req.url,
+            trigger,
+            keyGroup: authenticatedKeyGroup,
+          }, requestContext);
+          this.storeExecutionMetric(route.id, startTime, "load_error", loadErrorResponse.status, outbound);
+          this.endExecutionSpan(span, "load_error", loadErrorResponse.status, requestContext, error);
+          return loadErrorResponse;
         }
 
         // Log execution end (execution error)
@@ -317,25 +945,268 @@ export class FunctionRouter {
           level: "exec_end",
           message: `${durationMs}ms (error)`,
         });
-
-        // Store metric for failed executions with microseconds precision
-        const failedDurationUs = Math.round((performance.now() - startTime) * 1000);
-        this.executionMetricsService.store({
-          functionId: route.id,
-          type: "execution",
-          avgTimeUs: failedDurationUs,
-          maxTimeUs: failedDurationUs,
-          executionCount: 1,
-        }).catch((metricError) => {
-          globalThis.console.error("[FunctionDefinitionr] Failed to store metric:", metricError);
-        });
+        this.prometheusMetricsService?.recordExecution(functionIdString, route.name, "error", durationMs);
 
         const executionError = new HandlerExecutionError(route.handler, error);
-        return this.handleExecutionError(c, executionError, requestId);
+        const errorResponse = this.handleExecutionError(c, executionError, requestId);
+        this.captureError({
+          functionId: functionIdString,
+          kind: "execution",
+          error,
+          requestId,
+          method,
+          url: c.req.url,
+          trigger,
+          keyGroup: authenticatedKeyGroup,
+        }, requestContext);
+        this.storeExecutionMetric(route.id, startTime, "error", errorResponse.status, outbound);
+        this.endExecutionSpan(span, "error", errorResponse.status, requestContext, error);
+        return errorResponse;
+      } finally {
+        clearTimeout(timeoutId);
       }
     };
   }
 
+  /**
+   * Store the raw execution metric with microseconds precision (fire-and-forget).
+   * Includes the outbound calls the handler made until now.
+   */
+  private storeExecutionMetric(
+    functionId: RecordId,
+    startTime: number,
+    outcome: ExecutionOutcome,
+    statusCode: number,
+    outbound: OutboundTracker,
+  ): void {
+    const durationUs = Math.round((performance.now() - startTime) * 1000);
+    this.executionMetricsService.store({
+      functionId,
+      type: "execution",
+      avgTimeUs: durationUs,
+      maxTimeUs: durationUs,
+      executionCount: 1,
+      outcome,
+      statusCode,
+      outboundCallCount: outbound.callCount,
+      outboundTimeUs: outbound.totalTimeUs,
+    }).catch((error) => {
+      globalThis.console.error("[FunctionDefinitionr] Failed to store metric:", error);
+    });
+  }
+
+  /**
+   * Record a failed execution in its error group (fire-and-forget).
+   * The error and URL are redacted like the request's logs, and API keys
+   * passed as query parameters are removed from the URL.
+   */
+  private captureError(occurrence: ErrorOccurrence, context: RequestContext): void {
+    if (!this.errorGroupService) return;
+
+    const redact = (text: string) => this.consoleLogService.redact(text, context);
+    const url = new URL(occurrence.url);
+    for (const param of API_KEY_QUERY_PARAMS) {
+      url.searchParams.delete(param);
+    }
+
+    const original = occurrence.error;
+    let error: unknown;
+    if (original instanceof Error) {
+      const redacted = new Error(redact(original.message));
+      redacted.name = original.name;
+      redacted.stack = original.stack !== undefined ? redact(original.stack) : undefined;
+      error = redacted;
+    } else {
+      error = redact(String(original));
+    }
+
+    this.errorGroupService.capture({ ...occurrence, error, url: redact(url.toString()) }).catch((error) => {
+      globalThis.console.error("[FunctionDefinitionr] Failed to capture error:", error);
+    });
+  }
+
+  /**
+   * End the execution span with the response status.
+   * Failed executions and 5xx responses mark the span as failed, with the
+   * error message redacted like the request's logs.
+   */
+  private endExecutionSpan(
+    span: Span | undefined,
+    outcome: ExecutionOutcome,
+    statusCode: number,
+    context: RequestContext,
+    error?: unknown,
+  ): void {
+    if (!span) return;
+
+    span.setAttribute("http.response.status_code", statusCode);
+    span.setAttribute("crude.outcome", outcome);
+    if (error !== undefined) {
+      const message = error instanceof Error ? error.message : String(error);
+      span.setError(this.consoleLogService.redact(message, context));
+    } else if (statusCode >= 500) {
+      span.setError(`HTTP ${statusCode}`);
+    }
+    span.end();
+  }
+
+  /**
+   * Capture the request as an async invocation job and respond with 202.
+   */
+  private async enqueueAsync(
+    c: Context,
+    functionId: string,
+    requestId: string,
+    caller: InvocationCaller,
+  ): Promise<Response> {
+    const body = new Uint8Array(await c.req.arrayBuffer());
+    if (body.length > MAX_ASYNC_BODY_BYTES) {
+      return c.json(
+        {
+          error: "Payload Too Large",
+          message: `Asynchronous invocations accept request bodies up to ${MAX_ASYNC_BODY_BYTES} bytes`,
+          requestId,
+        },
+        413
+      );
+    }
+
+    const jobId = await this.asyncInvocationService!.enqueue({
+      functionId,
+      method: c.req.method,
+      url: c.req.url,
+      headers: [...c.req.raw.headers],
+      body: body.length > 0 ? body : undefined,
+      ...caller,
+    });
+
+    const statusUrl = `/run-status/${jobId}`;
+    c.header("Location", statusUrl);
+    c.header("Preference-Applied", "respond-async");
+    return c.json({ jobId, status: "pending", statusUrl }, 202);
+  }
+
+  /**
+   * Run a function for a handler's ctx.invoke() call and return its response.
+   *
+   * The request runs through the same handler pipeline as HTTP requests
+   * (exec_start/exec_end logs, metrics, error handling) and is logged as a
+   * child of the calling request. API key validation and rate limiting are
+   * skipped - the call happens inside a request that was already admitted,
+   * and the child inherits its caller's identity. The caller's secret values
+   * are redacted from the child's logs as well.
+   *
+   * @throws InvokeDepthExceededError if the caller is already at the maximum depth
+   * @throws InvokeTargetNotFoundError if the function doesn't exist or is disabled
+   */
+  private async invokeFromHandler(
+    functionName: string,
+    init: FunctionInvokeInit = {},
+    parent: {
+      requestId: string;
+      depth: number;
+      caller: InvocationCaller;
+      span?: Span;
+      resolvedSecrets: Set<string>;
+    },
+  ): Promise<Response> {
+    await this.maybeRefreshSettings();
+    if (parent.depth >= this.maxInvokeDepth) {
+      throw new InvokeDepthExceededError(functionName, this.maxInvokeDepth);
+    }
+
+    const route = await this.functionsService.getByName(functionName);
+    if (!route || !route.enabled) {
+      throw new InvokeTargetNotFoundError(functionName);
+    }
+
+    const { path, ...requestInit } = init;
+    const headers = new Headers(requestInit.headers);
+    headers.set("X-Crude-Trigger", "invoke");
+
+    const request = new Request(new URL(path ?? route.routePath, "http://localhost"), {
+      ...requestInit,
+      method: (requestInit.method ?? route.methods[0] ?? "GET").toUpperCase(),
+      headers,
+    });
+
+    // Single-route app - registered on the route path so params are extracted
+    const app = new Hono();
+    app.all(
+      route.routePath,
+      this.createHandler(route, "invoke", {
+        caller: parent.caller,
+        parentRequestId: parent.requestId,
+        depth: parent.depth + 1,
+        parentSpan: parent.span,
+        resolvedSecrets: parent.resolvedSecrets,
+      }),
+    );
+    app.all("*", (c) => c.json({ error: "Function not found" }, 404));
+
+    return await app.fetch(request);
+  }
+
+  /**
+   * Refresh the default timeout, max invoke depth and client IP lists from settings
+   * if the refresh interval has elapsed.
+   *
+   * Concurrent callers wait for the same load, so no request is checked against
+   * IP lists that haven't been loaded yet.
+   */
+  private async maybeRefreshSettings(): Promise<void> {
+    if (!this.settingsService) return;
+    if (Date.now() - this.lastSettingsRefresh < this.settingsRefreshIntervalMs) return;
+
+    this.settingsRefresh ??= this.refreshSettings(this.settingsService).finally(() => {
+      this.settingsRefresh = null;
+    });
+    await this.settingsRefresh;
+  }
+
+  /**
+   * Load the settings. A failed load keeps the previous values and is retried by
+   * the next request - unless nothing was loaded yet, as requests can't be
+   * checked against the global IP lists then.
+   */
+  private async refreshSettings(settingsService: SettingsService): Promise<void> {
+    try {
+      const timeoutStr = await settingsService.getGlobalSetting(
+        SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS
+      );
+
+      if (timeoutStr) {
+        const parsed = parseInt(timeoutStr, 10);
+        if (!isNaN(parsed) && parsed >= 0) {
+          this.defaultTimeoutMs = parsed;
+        }
+      }
+
+      const depthStr = await settingsService.getGlobalSetting(
+        SettingNames.FUNCTION_MAX_INVOKE_DEPTH
+      );
+
+      if (depthStr) {
+        const parsed = parseInt(depthStr, 10);
+        if (!isNaN(parsed) && parsed > 0) {
+          this.maxInvokeDepth = parsed;
+        }
+      }
+
+      const allowList = await settingsService.getGlobalSetting(SettingNames.IP_ALLOWLIST);
+      const denyList = await settingsService.getGlobalSetting(SettingNames.IP_DENYLIST);
+      const trustedProxies = await settingsService.getGlobalSetting(SettingNames.IP_TRUSTED_PROXIES);
+      this.globalIpAccess = { allow: parseIpList(allowList ?? ""), deny: parseIpList(denyList ?? "") };
+      this.trustedProxies = parseIpList(trustedProxies ?? "");
+      this.lastSettingsRefresh = Date.now();
+    } catch (error) {
+      globalThis.console.error("[FunctionDefinitionr] Failed to refresh settings:", error);
+      if (this.lastSettingsRefresh === 0) {
+        throw error;
+      }
+    }
+  }
+
   private parseQueryParams(c: Context): Record<string, string> {
     const url = new URL(c.req.url);
     const query: Record<string, string> = {};
@@ -406,6 +1277,25 @@ export class FunctionRouter {
     );
   }
 
+  private handleTimeoutError(
+    c: Context,
+    error: HandlerTimeoutError,
+    requestId: string
+  ): Response {
+    originalConsole.error(
+      `Handler timeout [${requestId}] in ${error.handlerPath} after ${error.timeoutMs}ms`
+    );
+
+    return c.json(
+      {
+        error: "Handler timed out",
+        message: `Handler did not respond within ${error.timeoutMs}ms`,
+        requestId,
+      },
+      504
+    );
+  }
+
   private handleExecutionError(
     c: Context,
     error: HandlerExecutionError,
@@ -433,3 +1323,13 @@ export class FunctionRouter {
     );
   }
 }
+
+/**
+ * Check a Prefer header (RFC 7240) for the respond-async preference.
+ */
+function prefersRespondAsync(prefer: string | undefined): boolean {
+  if (!prefer) return false;
+  return prefer
+    .split(",")
+    .some((preference) => preference.split(";")[0].trim().toLowerCase() === "respond-async");
+}
@@ -3,24 +3,34 @@ import { expect } from "@std/expect";
 import { Hono } from "@hono/hono";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import { FunctionRouter } from "./function_router.ts";
+import { KvService } from "../kv/kv_service.ts";
+import { RateLimitService } from "../rate_limits/rate_limit_service.ts";
+import { AsyncInvocationService } from "../invocations/async_invocation_service.ts";
+import { createFunctionApp } from "../apps/function_app.ts";
+import { TracingService } from "../tracing/tracing_service.ts";
+import { ErrorGroupService } from "../error_groups/error_group_service.ts";
+import { SettingNames } from "../settings/types.ts";
+import { RecordId } from "surrealdb";
 import type { TestContext } from "../test/types.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 
 /** Creates a FunctionRouter with all required services from TestSetupBuilder context */
-function createFunctionRouterWithContext(ctx: TestContext) {
+function createFunctionRouterWithContext(ctx: TestContext, rateLimitService?: RateLimitService) {
   return new FunctionRouter({
     functionsService: ctx.functionsService,
     apiKeyService: ctx.apiKeyService,
     consoleLogService: ctx.consoleLogService,
     executionMetricsService: ctx.executionMetricsService,
     secretsService: ctx.secretsService,
+    kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+    rateLimitService,
     codeDirectory: ctx.codeDir,
   });
 }
 
 /** Creates Hono app with FunctionRouter mounted at /run */
-function createAppWithRouter(ctx: TestContext) {
-  const functionRouter = createFunctionRouterWithContext(ctx);
+function createAppWithRouter(ctx: TestContext, rateLimitService?: RateLimitService) {
+  const functionRouter = createFunctionRouterWithContext(ctx, rateLimitService);
   const app = new Hono();
   app.all("/run/*", (c) => functionRouter.handle(c));
   app.all("/run", (c) => functionRouter.handle(c));
@@ -617,6 +627,1240 @@ integrationTest("FunctionRouter returns 500 when handler throws error", async ()
   }
 });
 
+// Handler that never responds on its own, but records when its signal is aborted
+const slowHandler = `
+export default async function(c, ctx) {
+  await new Promise((resolve) => ctx.signal.addEventListener("abort", resolve));
+  globalThis.__slowHandlerAborted = ctx.signal.reason?.name ?? "aborted";
+  return c.json({ done: true });
+}
+`;
+
+integrationTest("FunctionRouter returns 504 when handler exceeds its timeout", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/slow", "slow.ts", { name: "slow", methods: ["GET"], timeoutMs: 50 })
+    .withFile("slow.ts", slowHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/slow");
+    expect(res.status).toBe(504);
+
+    const json = await res.json();
+    expect(json.error).toBe("Handler timed out");
+    expect(json.message).toContain("50ms");
+    expect(json.requestId).toBeDefined();
+
+    // The handler's abort signal fires with the timeout error as its reason
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect((globalThis as Record<string, unknown>).__slowHandlerAborted).toBe("HandlerTimeoutError");
+
+    const route = await ctx.functionsService.getByName("slow");
+    const functionId = recordIdToString(route!.id);
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(functionId);
+    const end = logs.find((log) => log.level === "exec_end");
+    expect(end!.message).toContain("(timeout)");
+  } finally {
+    delete (globalThis as Record<string, unknown>).__slowHandlerAborted;
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Request signature tests
+// ========================
+
+integrationTest("FunctionRouter rejects requests without a valid signature", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/hook", "hook.ts", {
+      name: "hook",
+      methods: ["POST"],
+      signature: { header: "X-Hub-Signature-256", secret: "WEBHOOK_SECRET", prefix: "sha256=" },
+    })
+    .withFile("hook.ts", echoHandler)
+    .build();
+
+  try {
+    const route = await ctx.functionsService.getByName("hook");
+    const functionId = recordIdToString(route!.id);
+    await ctx.secretsService.createFunctionSecret(functionId, "WEBHOOK_SECRET", "s3cret");
+
+    const body = JSON.stringify({ event: "push" });
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode("s3cret"),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const signature = Array.from(
+      new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body))),
+      (b) => b.toString(16).padStart(2, "0")
+    ).join("");
+
+    const app = createAppWithRouter(ctx);
+
+    // The handler can still read the verified body
+    const signed = await app.request("/run/hook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Hub-Signature-256": `sha256=${signature}` },
+      body,
+    });
+    expect(signed.status).toBe(200);
+    expect((await signed.json()).received).toEqual({ event: "push" });
+
+    const unsigned = await app.request("/run/hook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+    expect(unsigned.status).toBe(401);
+    const json = await unsigned.json();
+    expect(json.error).toBe("Unauthorized");
+    expect(json.message).toBe("Missing request signature");
+
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(functionId);
+    const reject = logs.find((log) => log.level === "exec_reject");
+    expect(JSON.parse(reject!.args!)).toEqual({ reason: "invalid_signature" });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// JWT authentication tests
+// ========================
+
+/** Handler that returns the caller's identity */
+const identityHandler = `
+export default async function(c, ctx) {
+  return c.json({ keyGroup: ctx.authenticatedKeyGroup ?? null, sub: ctx.jwtClaims?.sub ?? null });
+}
+`;
+
+/** Create an RSA key pair and a function signing RS256 tokens with it */
+async function createJwtIssuer() {
+  const keys = await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"]
+  );
+  const encode = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  const encodeJson = (value: unknown) => encode(new TextEncoder().encode(JSON.stringify(value)));
+
+  const sign = async (claims: Record<string, unknown>) => {
+    const input = `${encodeJson({ alg: "RS256", typ: "JWT" })}.${encodeJson(claims)}`;
+    const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", keys.privateKey, new TextEncoder().encode(input));
+    return `${input}.${encode(new Uint8Array(signature))}`;
+  };
+  const publicKey = JSON.stringify(await crypto.subtle.exportKey("jwk", keys.publicKey));
+  return { sign, publicKey };
+}
+
+integrationTest("FunctionRouter authenticates JWT bearer tokens and exposes their claims", async () => {
+  const issuer = await createJwtIssuer();
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/me", "me.ts", {
+      name: "me",
+      methods: ["GET"],
+      jwt: { issuer: "https://auth.example.com/", audience: "crude", publicKey: issuer.publicKey },
+    })
+    .withFile("me.ts", identityHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const exp = Math.floor(Date.now() / 1000) + 300;
+
+    const token = await issuer.sign({ iss: "https://auth.example.com/", aud: "crude", sub: "user-1", exp });
+    const res = await app.request("/run/me", { headers: { Authorization: `Bearer ${token}` } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ keyGroup: null, sub: "user-1" });
+
+    const missing = await app.request("/run/me");
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).message).toBe("Missing bearer token");
+
+    const wrongAudience = await issuer.sign({ iss: "https://auth.example.com/", aud: "other", sub: "user-1", exp });
+    const rejected = await app.request("/run/me", { headers: { Authorization: `Bearer ${wrongAudience}` } });
+    expect(rejected.status).toBe(401);
+    expect((await rejected.json()).message).toBe("JWT audience does not match");
+
+    const route = await ctx.functionsService.getByName("me");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const reasons = logs.filter((log) => log.level === "exec_reject").map((log) => JSON.parse(log.args!).reason);
+    expect(reasons.sort()).toEqual(["invalid_jwt", "missing_jwt"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter accepts either an API key or a JWT when both are configured", async () => {
+  const issuer = await createJwtIssuer();
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("api", "Test API group")
+    .withApiKey("api", "secret123")
+    .withFunction("/either", "either.ts", {
+      name: "either",
+      methods: ["GET"],
+      keys: ["api"],
+      jwt: { issuer: "https://auth.example.com/", publicKey: issuer.publicKey },
+    })
+    .withFile("either.ts", identityHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const token = await issuer.sign({
+      iss: "https://auth.example.com/",
+      sub: "user-1",
+      exp: Math.floor(Date.now() / 1000) + 300,
+    });
+
+    const withJwt = await app.request("/run/either", { headers: { Authorization: `Bearer ${token}` } });
+    expect(await withJwt.json()).toEqual({ keyGroup: null, sub: "user-1" });
+
+    const withKey = await app.request("/run/either", { headers: { Authorization: "Bearer secret123" } });
+    expect(await withKey.json()).toEqual({ keyGroup: "api", sub: null });
+
+    const missing = await app.request("/run/either");
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).message).toBe("Missing API key");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Client IP access tests
+// ========================
+
+/** Hono env carrying the connection info of a request from the given address */
+function fromAddress(hostname: string) {
+  return { remoteAddr: { transport: "tcp" as const, hostname, port: 40000 } };
+}
+
+integrationTest("FunctionRouter rejects clients outside the function and key group IP lists", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("office", "Office keys")
+    .withApiKey("office", "secret123")
+    .withFunction("/internal", "internal.ts", {
+      name: "internal",
+      methods: ["GET"],
+      keys: ["office"],
+      ipAccess: { allow: ["10.0.0.0/8"], deny: ["10.0.0.66"] },
+    })
+    .withFile("internal.ts", simpleHandler)
+    .build();
+
+  try {
+    const group = await ctx.apiKeyService.getGroupByName("office");
+    await ctx.apiKeyService.updateGroup(recordIdToString(group!.id), "Office keys", { allow: ["10.1.0.0/16"] });
+
+    const app = createAppWithRouter(ctx);
+    const withKey = { headers: { "X-API-Key": "secret123" } };
+
+    const allowed = await app.request("/run/internal", withKey, fromAddress("10.1.2.3"));
+    expect(allowed.status).toBe(200);
+
+    // Addresses outside the function's lists are rejected before authentication
+    const outside = await app.request("/run/internal", {}, fromAddress("192.0.2.1"));
+    expect(outside.status).toBe(403);
+    expect(await outside.json()).toMatchObject({ error: "Forbidden", message: "Client IP is not allowed" });
+
+    const denied = await app.request("/run/internal", withKey, fromAddress("10.0.0.66"));
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).message).toBe("Client IP is denied");
+
+    // The key only works from the group's network
+    const otherNetwork = await app.request("/run/internal", withKey, fromAddress("10.2.0.1"));
+    expect(otherNetwork.status).toBe(403);
+
+    const route = await ctx.functionsService.getByName("internal");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const rejections = logs.filter((log) => log.level === "exec_reject").map((log) => JSON.parse(log.args!));
+    expect(rejections).toHaveLength(3);
+    expect(rejections).toEqual(expect.arrayContaining([
+      { reason: "ip_not_allowed", ip: "192.0.2.1" },
+      { reason: "ip_denied", ip: "10.0.0.66" },
+      { reason: "ip_not_allowed", ip: "10.2.0.1" },
+    ]));
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter applies the global IP lists to the client behind a trusted proxy", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withSetting(SettingNames.IP_DENYLIST, "198.51.100.0/24")
+    .withSetting(SettingNames.IP_TRUSTED_PROXIES, "10.0.0.1")
+    .withFunction("/public", "public.ts", { name: "public", methods: ["GET"] })
+    .withFile("public.ts", simpleHandler)
+    .build();
+
+  try {
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      settingsService: ctx.settingsService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    const forwarded = (xff: string) => ({ headers: { "X-Forwarded-For": xff } });
+
+    const viaProxy = await app.request("/run/public", forwarded("198.51.100.7"), fromAddress("10.0.0.1"));
+    expect(viaProxy.status).toBe(403);
+
+    // Only the entry added by the trusted proxy counts - the client can't prepend its own
+    const prepended = await app.request("/run/public", forwarded("198.51.100.7, 203.0.113.9"), fromAddress("10.0.0.1"));
+    expect(prepended.status).toBe(200);
+
+    // The header of a client that isn't a trusted proxy is ignored
+    const spoofed = await app.request("/run/public", forwarded("203.0.113.9"), fromAddress("198.51.100.7"));
+    expect(spoofed.status).toBe(403);
+
+    const direct = await app.request("/run/public", {}, fromAddress("203.0.113.9"));
+    expect(direct.status).toBe(200);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter applies the global deny list to concurrent first requests", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withSetting(SettingNames.IP_DENYLIST, "198.51.100.0/24")
+    .withFunction("/public", "public.ts", { name: "public", methods: ["GET"] })
+    .withFile("public.ts", simpleHandler)
+    .build();
+
+  try {
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      settingsService: ctx.settingsService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    // None of them may be checked before the lists are loaded
+    const responses = await Promise.all(
+      [1, 2, 3].map((n) => app.request("/run/public", {}, fromAddress(`198.51.100.${n}`))),
+    );
+    expect(responses.map((res) => res.status)).toEqual([403, 403, 403]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Rate limiting tests
+// ========================
+
+integrationTest("FunctionRouter returns 429 with Retry-After when function rate limit is exceeded", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .withFile("limited.ts", simpleHandler)
+    .build();
+
+  try {
+    const rateLimitService = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    const route = await ctx.functionsService.getByName("limited");
+    const functionId = recordIdToString(route!.id);
+    await rateLimitService.createRule({
+      scopeType: "function",
+      scopeId: functionId,
+      requests: 2,
+      windowSeconds: 60,
+    });
+
+    const app = createAppWithRouter(ctx, rateLimitService);
+    expect((await app.request("/run/limited")).status).toBe(200);
+    expect((await app.request("/run/limited")).status).toBe(200);
+
+    const res = await app.request("/run/limited");
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+
+    const json = await res.json();
+    expect(json.error).toBe("Too Many Requests");
+    expect(json.requestId).toBeDefined();
+
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(functionId);
+    const reject = logs.find((log) => log.level === "exec_reject");
+    expect(JSON.parse(reject!.args!)).toEqual({ reason: "rate_limited", scope: "function" });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter applies key rate limits per authenticated key", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("api", "Test API group")
+    .withApiKey("api", "key-one", "one")
+    .withApiKey("api", "key-two", "two")
+    .withFunction("/protected", "protected.ts", { methods: ["GET"], keys: ["api"] })
+    .withFile("protected.ts", simpleHandler)
+    .build();
+
+  try {
+    const rateLimitService = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    const keys = await ctx.apiKeyService.getKeys("api");
+    const keyOne = keys!.find((key) => key.value === "key-one")!;
+    await rateLimitService.createRule({
+      scopeType: "key",
+      scopeId: recordIdToString(keyOne.id),
+      requests: 1,
+      windowSeconds: 10,
+    });
+
+    const app = createAppWithRouter(ctx, rateLimitService);
+    const request = (key: string) => app.request("/run/protected", { headers: { "X-API-Key": key } });
+
+    expect((await request("key-one")).status).toBe(200);
+    expect((await request("key-one")).status).toBe(429);
+    // Other keys in the same group have their own (unlimited) budget
+    expect((await request("key-two")).status).toBe(200);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Asynchronous invocation tests
+// ========================
+
+// Handler that echoes its params, body and trigger
+const asyncReportHandler = `
+export default async function(c, ctx) {
+  const body = await c.req.json();
+  return c.json({ id: ctx.params.id, month: body.month, trigger: ctx.trigger }, 201);
+}
+`;
+
+/** Creates a FunctionRouter with async invocations enabled, mounted like the function app */
+function createAsyncApp(ctx: TestContext) {
+  const functionRouter = new FunctionRouter({
+    functionsService: ctx.functionsService,
+    apiKeyService: ctx.apiKeyService,
+    consoleLogService: ctx.consoleLogService,
+    executionMetricsService: ctx.executionMetricsService,
+    secretsService: ctx.secretsService,
+    kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+    asyncInvocationService: new AsyncInvocationService({
+      surrealFactory: ctx.surrealFactory,
+      jobQueueService: ctx.jobQueueService,
+      encryptionService: ctx.encryptionService,
+    }),
+    codeDirectory: ctx.codeDir,
+  });
+  return { functionRouter, app: createFunctionApp(functionRouter) };
+}
+
+integrationTest("FunctionRouter enqueues async invocations and stores the handler response", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/reports/:id", "report.ts", { name: "report", methods: ["POST"] })
+    .withFile("report.ts", asyncReportHandler)
+    .build();
+
+  try {
+    const { functionRouter, app } = createAsyncApp(ctx);
+
+    const res = await app.request("/run/reports/7", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Prefer": "respond-async" },
+      body: JSON.stringify({ month: "2026-01" }),
+    });
+    expect(res.status).toBe(202);
+    expect(res.headers.get("Preference-Applied")).toBe("respond-async");
+
+    const { jobId, statusUrl } = await res.json();
+    expect(res.headers.get("Location")).toBe(statusUrl);
+    expect((await (await app.request(statusUrl)).json()).status).toBe("pending");
+
+    // Run the job as the job processor would
+    const job = await ctx.jobQueueService.claimJob(new RecordId("job", jobId));
+    expect(await functionRouter.invokeAsync(job)).toMatchObject({ status: 201 });
+
+    const status = await (await app.request(statusUrl)).json();
+    expect(status.status).toBe("completed");
+    expect(status.response.status).toBe(201);
+    expect(status.response.bodyEncoding).toBe("utf8");
+    expect(JSON.parse(status.response.body)).toEqual({ id: "7", month: "2026-01", trigger: "async" });
+
+    // The job execution is logged like a synchronous request
+    await ctx.consoleLogService.flush();
+    const route = await ctx.functionsService.getByName("report");
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    expect(logs.map((log) => log.level)).toEqual(expect.arrayContaining(["exec_start", "exec_end"]));
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter validates API keys for async invocations and status polling", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("api", "Test API group")
+    .withApiKey("api", "secret123")
+    .withFunction("/protected", "protected.ts", { methods: ["GET"], keys: ["api"] })
+    .withFile("protected.ts", simpleHandler)
+    .build();
+
+  try {
+    const { app } = createAsyncApp(ctx);
+
+    expect((await app.request("/run-async/protected")).status).toBe(401);
+
+    const res = await app.request("/run-async/protected", { headers: { "X-API-Key": "secret123" } });
+    expect(res.status).toBe(202);
+    const { statusUrl } = await res.json();
+
+    expect((await app.request(statusUrl)).status).toBe(401);
+    const status = await app.request(statusUrl, { headers: { "X-API-Key": "secret123" } });
+    expect(status.status).toBe(200);
+
+    expect((await app.request("/run-status/unknown")).status).toBe(404);
+
+    // Without the function there's no key to check - the result isn't handed out
+    await ctx.functionsService.removeFunction("protected");
+    expect((await app.request(statusUrl)).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter stores a failure when the async function was disabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/later", "later.ts", { name: "later", methods: ["GET"] })
+    .withFile("later.ts", simpleHandler)
+    .build();
+
+  try {
+    const { functionRouter, app } = createAsyncApp(ctx);
+
+    const { jobId, statusUrl } = await (await app.request("/run-async/later")).json();
+    const route = await ctx.functionsService.getByName("later");
+    await ctx.functionsService.setFunctionEnabled(recordIdToString(route!.id), false);
+
+    const job = await ctx.jobQueueService.claimJob(new RecordId("job", jobId));
+    await expect(functionRouter.invokeAsync(job)).rejects.toThrow("disabled");
+
+    const status = await (await app.request(statusUrl)).json();
+    expect(status.status).toBe("failed");
+    expect(status.error).toBe("Function 'later' is disabled");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// Handler that counts visits in its key-value store
+const kvCounterHandler = `
+export default async function(c, ctx) {
+  const visits = (await ctx.kv.get("visits") ?? 0) + 1;
+  await ctx.kv.set("visits", visits);
+  const claimed = await ctx.kv.compareAndSet("owner", undefined, ctx.requestId);
+  const keys = (await ctx.kv.list("vis")).map((entry) => entry.key);
+  return c.json({ visits, claimed, keys });
+}
+`;
+
+for (const worker of [undefined, {}]) {
+  integrationTest(`FunctionRouter exposes ctx.kv to ${worker ? "worker-isolated" : "in-process"} handlers`, async () => {
+    const ctx = await TestSetupBuilder.create()
+      .withAll()
+      .withFunction("/counter", "counter.ts", { name: "counter", methods: ["GET"], worker })
+      .withFile("counter.ts", kvCounterHandler)
+      .build();
+
+    try {
+      const app = createAppWithRouter(ctx);
+
+      const first = await (await app.request("/run/counter")).json();
+      expect(first).toEqual({ visits: 1, claimed: true, keys: ["visits"] });
+
+      const second = await (await app.request("/run/counter")).json();
+      expect(second).toEqual({ visits: 2, claimed: false, keys: ["visits"] });
+    } finally {
+      await ctx.cleanup();
+    }
+  });
+}
+
+// Handler that calls the "greet" function and wraps its response
+const invokeParentHandler = `
+export default async function(c, ctx) {
+  const res = await ctx.invoke("greet", { path: "/greet/ada?excited=1", method: "POST", body: "hi" });
+  return c.json({ requestId: ctx.requestId, status: res.status, child: await res.json() });
+}
+`;
+
+const invokeChildHandler = `
+export default async function(c, ctx) {
+  return c.json({
+    name: ctx.params.name,
+    excited: ctx.query.excited,
+    body: await c.req.text(),
+    trigger: ctx.trigger,
+    keyGroup: ctx.authenticatedKeyGroup ?? null,
+  });
+}
+`;
+
+for (const worker of [undefined, {}]) {
+  integrationTest(`FunctionRouter dispatches ctx.invoke from ${worker ? "worker-isolated" : "in-process"} handlers`, async () => {
+    const ctx = await TestSetupBuilder.create()
+      .withAll()
+      .withApiKeyGroup("api", "Test API group")
+      .withApiKey("api", "secret123")
+      .withFunction("/parent", "parent.ts", { name: "parent", methods: ["GET"], keys: ["api"], worker })
+      .withFunction("/greet/:name", "greet.ts", { name: "greet", methods: ["POST"], keys: ["api"] })
+      .withFile("parent.ts", invokeParentHandler)
+      .withFile("greet.ts", invokeChildHandler)
+      .build();
+
+    try {
+      const app = createAppWithRouter(ctx);
+      const res = await app.request("/run/parent", { headers: { "X-API-Key": "secret123" } });
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.status).toBe(200);
+      // The child skips API key validation and inherits the caller's identity
+      expect(json.child).toEqual({
+        name: "ada",
+        excited: "1",
+        body: "hi",
+        trigger: "invoke",
+        keyGroup: "api",
+      });
+
+      // The child's logs link back to the calling request
+      await ctx.consoleLogService.flush();
+      const calls = await ctx.consoleLogService.getChildInvocations(json.requestId);
+      expect(calls.length).toBe(1);
+
+      const greet = await ctx.functionsService.getByName("greet");
+      expect(calls[0].functionId).toBe(recordIdToString(greet!.id));
+      expect(calls[0].parentRequestId).toBe(json.requestId);
+      expect(JSON.parse(calls[0].args!).trigger).toBe("invoke");
+    } finally {
+      await ctx.cleanup();
+    }
+  });
+}
+
+// Handler that reads a secret and calls the "greet" function
+const tracedHandler = `
+export default async function(c, ctx) {
+  await ctx.getSecret("API_TOKEN");
+  const res = await ctx.invoke("greet", { path: "/greet/ada", method: "POST" });
+  return c.json({ status: res.status });
+}
+`;
+
+integrationTest("FunctionRouter exports execution spans continuing the caller's trace", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withSetting(SettingNames.TRACING_ENABLED, "true")
+    .withFunction("/traced", "traced.ts", { name: "traced", methods: ["GET"] })
+    .withFunction("/greet/:name", "greet.ts", { name: "greet", methods: ["POST"] })
+    .withFile("traced.ts", tracedHandler)
+    .withFile("greet.ts", invokeChildHandler)
+    .build();
+
+  try {
+    const exported: { name: string; kind: number; traceId: string; spanId: string; parentSpanId?: string }[] = [];
+    const tracingService = new TracingService({
+      settingsService: ctx.settingsService,
+      fetchFn: (_input, init) => {
+        exported.push(...JSON.parse(init!.body as string).resourceSpans[0].scopeSpans[0].spans);
+        return Promise.resolve(new Response(null, { status: 200 }));
+      },
+    });
+    await tracingService.refreshSettings();
+
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      tracingService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const res = await app.request("/run/traced", {
+      headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+    });
+    expect(res.status).toBe(200);
+    await tracingService.flush();
+
+    const byName = new Map(exported.map((span) => [span.name, span]));
+    const server = byName.get("GET /traced")!;
+    expect(server.kind).toBe(2);
+    expect(server.parentSpanId).toBe("00f067aa0ba902b7");
+    expect(byName.get("secret lookup")?.parentSpanId).toBe(server.spanId);
+
+    const invoke = byName.get("invoke greet")!;
+    expect(invoke.parentSpanId).toBe(server.spanId);
+    expect(byName.get("POST /greet/:name")?.parentSpanId).toBe(invoke.spanId);
+    expect(exported.every((span) => span.traceId === traceId)).toBe(true);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// Handler that calls itself until ctx.invoke refuses to go deeper
+const recursiveHandler = `
+export default async function(c, ctx) {
+  try {
+    const res = await ctx.invoke("recurse");
+    const { calls, error } = await res.json();
+    return c.json({ calls: calls + 1, error });
+  } catch (error) {
+    return c.json({ calls: 0, error: error.name });
+  }
+}
+`;
+
+integrationTest("FunctionRouter stops ctx.invoke recursion at the maximum depth", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/recurse", "recurse.ts", { name: "recurse", methods: ["GET"] })
+    .withFile("recurse.ts", recursiveHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/recurse");
+    expect(res.status).toBe(200);
+
+    // Default max depth is 5 - the top-level request plus five nested calls
+    expect(await res.json()).toEqual({ calls: 5, error: "InvokeDepthExceededError" });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Worker isolation tests
+// ========================
+
+// Handler that reports what it can access from inside its worker
+const workerHandler = `
+export default async function(c, ctx) {
+  console.log("hello from worker", { id: ctx.params.id });
+  let homeDenied = false;
+  try {
+    Deno.env.get("HOME");
+  } catch {
+    homeDenied = true;
+  }
+  return c.json({
+    id: c.req.param("id"),
+    requestId: ctx.requestId,
+    allowedEnv: Deno.env.get("CRUDE_WORKER_TEST") ?? null,
+    homeDenied,
+    secret: await ctx.getSecret("WORKER_SECRET"),
+  });
+}
+`;
+
+integrationTest("FunctionRouter runs worker-isolated handler with its permission set", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/isolated/:id", "isolated.ts", {
+      name: "isolated",
+      methods: ["GET"],
+      worker: { env: ["CRUDE_WORKER_TEST"] },
+    })
+    .withFile("isolated.ts", workerHandler)
+    .build();
+
+  Deno.env.set("CRUDE_WORKER_TEST", "visible");
+  try {
+    await ctx.secretsService.createGlobalSecret("WORKER_SECRET", "s3cret");
+
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/isolated/42");
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.id).toBe("42");
+    expect(json.allowedEnv).toBe("visible");
+    expect(json.homeDenied).toBe(true);
+    expect(json.secret).toBe("s3cret");
+
+    // Console output from the worker is captured under the request
+    const route = await ctx.functionsService.getByName("isolated");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const log = logs.find((entry) => entry.message === "hello from worker");
+    expect(log?.level).toBe("log");
+    expect(log?.requestId).toBe(json.requestId);
+  } finally {
+    Deno.env.delete("CRUDE_WORKER_TEST");
+    await ctx.cleanup();
+  }
+});
+
+// Handler that (accidentally) logs a secret it read
+const secretLoggingHandler = `
+export default async function(c, ctx) {
+  const token = await ctx.getSecret("UPSTREAM_TOKEN");
+  console.log("calling upstream with", { token });
+  return c.json({ ok: true });
+}
+`;
+
+integrationTest("FunctionRouter redacts secrets read by the handler from its logs", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/leaky", "leaky.ts", { name: "leaky", methods: ["GET"], worker: {} })
+    .withFile("leaky.ts", secretLoggingHandler)
+    .build();
+
+  try {
+    await ctx.secretsService.createGlobalSecret("UPSTREAM_TOKEN", "tok_very_secret");
+
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/leaky");
+    expect(res.status).toBe(200);
+
+    const route = await ctx.functionsService.getByName("leaky");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const log = logs.find((entry) => entry.message === "calling upstream with");
+    expect(log?.args).toBe('[{"token":"[REDACTED]"}]');
+    expect(logs.some((entry) => `${entry.message}${entry.args ?? ""}`.includes("tok_very_secret"))).toBe(false);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// Worker handler that posts a log message posing as an execution event
+const forgedLogHandler = `
+export default async function(c, ctx) {
+  self.postMessage({ type: "log", level: "exec_end", message: "0ms (forged)" });
+  return c.json({ ok: true });
+}
+`;
+
+integrationTest("FunctionRouter stores unexpected worker log levels as plain logs", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/forged", "forged.ts", { name: "forged", methods: ["GET"], worker: {} })
+    .withFile("forged.ts", forgedLogHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    expect((await app.request("/run/forged")).status).toBe(200);
+
+    const route = await ctx.functionsService.getByName("forged");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    expect(logs.find((entry) => entry.message === "0ms (forged)")?.level).toBe("log");
+    expect(logs.filter((entry) => entry.level === "exec_end").length).toBe(1);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// Handler that passes a secret it read on to a child function
+const secretForwardingHandler = `
+export default async function(c, ctx) {
+  const token = await ctx.getSecret("UPSTREAM_TOKEN");
+  const res = await ctx.invoke("echo", { method: "POST", body: token });
+  return c.json({ status: res.status });
+}
+`;
+
+// Child that logs whatever it receives
+const bodyLoggingHandler = `
+export default async function(c, ctx) {
+  console.log("received", await c.req.text());
+  return c.json({ ok: true });
+}
+`;
+
+integrationTest("FunctionRouter redacts the caller's secrets from ctx.invoke child logs", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/forward", "forward.ts", { name: "forward", methods: ["GET"] })
+    .withFunction("/echo", "echo.ts", { name: "echo", methods: ["POST"] })
+    .withFile("forward.ts", secretForwardingHandler)
+    .withFile("echo.ts", bodyLoggingHandler)
+    .build();
+
+  try {
+    await ctx.secretsService.createGlobalSecret("UPSTREAM_TOKEN", "tok_very_secret");
+
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/forward");
+    expect(res.status).toBe(200);
+    expect((await res.json()).status).toBe(200);
+
+    const route = await ctx.functionsService.getByName("echo");
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const log = logs.find((entry) => entry.message === "received");
+    expect(log?.args).toContain("[REDACTED]");
+    expect(logs.some((entry) => `${entry.message}${entry.args ?? ""}`.includes("tok_very_secret"))).toBe(false);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+const structuredLoggingHandler = `
+export default async function(c, ctx) {
+  ctx.log.info("order paid", { userId: 42, paid: true, note: undefined });
+  return c.json({ ok: true });
+}
+`;
+
+integrationTest("FunctionRouter stores ctx.log entries with their fields", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/structured", "structured.ts", { name: "structured", methods: ["GET"] })
+    .withFunction("/structured-isolated", "structured.ts", {
+      name: "structured-isolated",
+      methods: ["GET"],
+      worker: {},
+    })
+    .withFile("structured.ts", structuredLoggingHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    expect((await app.request("/run/structured")).status).toBe(200);
+    expect((await app.request("/run/structured-isolated")).status).toBe(200);
+    await ctx.consoleLogService.flush();
+
+    for (const name of ["structured", "structured-isolated"]) {
+      const route = await ctx.functionsService.getByName(name);
+      const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+      const log = logs.find((entry) => entry.message === "order paid");
+      expect(log?.level).toBe("info");
+      expect(log?.fields).toEqual({ userId: 42, paid: true });
+    }
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+const blockedFetchHandler = `
+export default async function(c, ctx) {
+  try {
+    await fetch("https://not-allowed.test/data");
+    return c.json({ blocked: false });
+  } catch (error) {
+    return c.json({ blocked: true, error: error.name });
+  }
+}
+`;
+
+integrationTest("FunctionRouter blocks and logs fetch calls to hosts outside allowedHosts", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/outbound", "outbound.ts", {
+      name: "outbound",
+      methods: ["GET"],
+      worker: {},
+      allowedHosts: ["api.example.com"],
+    })
+    .withFile("outbound.ts", blockedFetchHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/outbound");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ blocked: true, error: "OutboundHostBlockedError" });
+    await ctx.consoleLogService.flush();
+
+    const route = await ctx.functionsService.getByName("outbound");
+    const logs = await ctx.consoleLogService.getByFunctionId(recordIdToString(route!.id));
+    const log = logs.find((entry) => entry.level === "outbound");
+    expect(log?.message).toBe("GET not-allowed.test blocked (not an allowed host)");
+    expect(log?.fields).toMatchObject({ method: "GET", host: "not-allowed.test", blocked: true });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter groups execution and load errors by function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/error", "error.ts", { name: "error", methods: ["GET"] })
+    .withFunction("/no-export", "no-export.ts", { name: "no-export", methods: ["GET"] })
+    .withFile("error.ts", errorHandler)
+    .withFile("no-export.ts", noExportHandler)
+    .build();
+
+  try {
+    const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      errorGroupService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    for (let i = 0; i < 2; i++) {
+      expect((await app.request("/run/error")).status).toBe(500);
+    }
+    expect((await app.request("/run/no-export")).status).toBe(500);
+
+    // Errors are captured in the background
+    let groups = await errorGroupService.getGroups();
+    for (let attempt = 0; attempt < 20 && groups.reduce((sum, g) => sum + g.count, 0) < 3; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      groups = await errorGroupService.getGroups();
+    }
+
+    const execution = groups.find((group) => group.kind === "execution");
+    expect(execution?.message).toBe("Handler error!");
+    expect(execution?.count).toBe(2);
+
+    const load = groups.find((group) => group.kind === "load");
+    expect(load?.errorType).toBe("HandlerExportError");
+    expect(load?.count).toBe(1);
+
+    const events = await errorGroupService.getEvents(recordIdToString(execution!.id));
+    expect(events[0].method).toBe("GET");
+    expect(events[0].url).toBe("http://localhost/run/error");
+    expect(events[0].trigger).toBe("http");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+const secretThrowingHandler = `
+export default async function(c, ctx) {
+  const token = await ctx.getSecret("UPSTREAM_TOKEN");
+  throw new Error("upstream rejected " + token);
+}
+`;
+
+integrationTest("FunctionRouter redacts secrets and API keys from captured errors", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/secret-error", "secret-error.ts", { name: "secret-error", methods: ["GET"] })
+    .withFile("secret-error.ts", secretThrowingHandler)
+    .build();
+
+  try {
+    await ctx.secretsService.createGlobalSecret("UPSTREAM_TOKEN", "tok_very_secret");
+
+    const errorGroupService = new ErrorGroupService({ surrealFactory: ctx.surrealFactory });
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      errorGroupService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    expect((await app.request("/run/secret-error?api_key=key_123&page=2")).status).toBe(500);
+
+    // Errors are captured in the background
+    let groups = await errorGroupService.getGroups();
+    for (let attempt = 0; attempt < 20 && groups.length === 0; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      groups = await errorGroupService.getGroups();
+    }
+
+    expect(groups.length).toBe(1);
+    expect(groups[0].message).toBe("upstream rejected [REDACTED]");
+    expect(groups[0].stack).not.toContain("tok_very_secret");
+
+    const events = await errorGroupService.getEvents(recordIdToString(groups[0].id));
+    expect(events[0].url).toBe("http://localhost/run/secret-error?page=2");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter redacts secrets from execution span errors", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withSetting(SettingNames.TRACING_ENABLED, "true")
+    .withFunction("/secret-error", "secret-error.ts", { name: "secret-error", methods: ["GET"] })
+    .withFile("secret-error.ts", secretThrowingHandler)
+    .build();
+
+  try {
+    await ctx.secretsService.createGlobalSecret("UPSTREAM_TOKEN", "tok_very_secret");
+
+    const exported: { name: string; status: { code: number; message?: string } }[] = [];
+    const tracingService = new TracingService({
+      settingsService: ctx.settingsService,
+      fetchFn: (_input, init) => {
+        exported.push(...JSON.parse(init!.body as string).resourceSpans[0].scopeSpans[0].spans);
+        return Promise.resolve(new Response(null, { status: 200 }));
+      },
+    });
+    await tracingService.refreshSettings();
+
+    const functionRouter = new FunctionRouter({
+      functionsService: ctx.functionsService,
+      apiKeyService: ctx.apiKeyService,
+      consoleLogService: ctx.consoleLogService,
+      executionMetricsService: ctx.executionMetricsService,
+      secretsService: ctx.secretsService,
+      kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
+      tracingService,
+      codeDirectory: ctx.codeDir,
+    });
+    const app = new Hono();
+    app.all("/run/*", (c) => functionRouter.handle(c));
+
+    expect((await app.request("/run/secret-error")).status).toBe(500);
+    await tracingService.flush();
+
+    const server = exported.find((span) => span.name === "GET /secret-error");
+    expect(server?.status.message).toBe("upstream rejected [REDACTED]");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter returns 500 when worker-isolated handler throws", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/isolated-error", "isolated-error.ts", {
+      name: "isolated-error",
+      methods: ["GET"],
+      worker: {},
+    })
+    .withFile("isolated-error.ts", errorHandler)
+    .build();
+
+  try {
+    const app = createAppWithRouter(ctx);
+    const res = await app.request("/run/isolated-error");
+    expect(res.status).toBe(500);
+
+    const json = await res.json();
+    expect(json.error).toBe("Handler execution failed");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// ========================
+// Scheduled invocation tests
+// ========================
+
+// Handler that reports how it was triggered
+const triggerHandler = `
+export default async function(c, ctx) {
+  const body = c.req.method === "POST" ? await c.req.json() : null;
+  console.log("trigger:" + ctx.trigger);
+  return c.json({ trigger: ctx.trigger, header: c.req.header("X-Crude-Trigger") ?? null, body });
+}
+`;
+
+integrationTest("FunctionRouter.invokeScheduled runs handler without API key and logs trigger", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("api", "Test API group")
+    .withApiKey("api", "secret123")
+    .withFunction("/scheduled", "scheduled.ts", { name: "scheduled", methods: ["POST"], keys: ["api"] })
+    .withFile("scheduled.ts", triggerHandler)
+    .build();
+
+  try {
+    const router = createFunctionRouterWithContext(ctx);
+    const route = await ctx.functionsService.getByName("scheduled");
+    const functionId = recordIdToString(route!.id);
+
+    const result = await router.invokeScheduled({
+      functionId,
+      expression: "* * * * *",
+      timezone: "UTC",
+    });
+    expect(result.status).toBe(200);
+
+    await ctx.consoleLogService.flush();
+    const logs = await ctx.consoleLogService.getByFunctionId(functionId);
+    const start = logs.find((log) => log.level === "exec_start");
+    expect(JSON.parse(start!.args!).trigger).toBe("scheduled");
+    expect(logs.some((log) => log.level === "exec_end")).toBe(true);
+    expect(logs.some((log) => log.message.includes("trigger:scheduled"))).toBe(true);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionRouter.invokeScheduled throws when handler fails", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withFunction("/error", "error.ts", { name: "error", methods: ["GET"] })
+    .withFile("error.ts", errorHandler)
+    .build();
+
+  try {
+    const router = createFunctionRouterWithContext(ctx);
+    const route = await ctx.functionsService.getByName("error");
+
+    await expect(
+      router.invokeScheduled({
+        functionId: recordIdToString(route!.id),
+        expression: "* * * * *",
+        timezone: "UTC",
+      }),
+    ).rejects.toThrow("HTTP 500");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 // ========================
 // Route hot-reload tests
 // ========================
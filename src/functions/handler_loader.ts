@@ -14,6 +14,13 @@ export interface HandlerLoaderOptions {
   baseDirectory?: string;
 }
 
+export interface ResolvedHandlerFile {
+  /** Absolute path of the handler file (validated to be inside the base directory) */
+  filePath: string;
+  /** File modification time */
+  fileModTime: number;
+}
+
 export interface LoadedHandler {
   handler: FunctionHandler;
   /** File modification time when handler was loaded */
@@ -26,7 +33,8 @@ export interface LoadedHandler {
  * Handles cache invalidation based on file modification time.
  */
 export class HandlerLoader {
-  private readonly baseDirectory: string;
+  /** Absolute base directory that handler paths are resolved against */
+  readonly baseDirectory: string;
   private readonly cache = new Map<string, LoadedHandler>();
 
   constructor(options: HandlerLoaderOptions = {}) {
@@ -47,23 +55,9 @@ export class HandlerLoader {
    * @param forceReload - Force reload even if cached
    */
   async load(handlerPath: string, forceReload = false): Promise<FunctionHandler> {
-    logger.debug(`Loading handler: ${handlerPath}`);
-    const absolutePath = this.resolveAbsolutePath(handlerPath);
-    logger.debug(`Resolved absolute path: ${absolutePath}`);
-
-    // Check if file exists and get its modification time
-    const stat = await this.getFileStat(absolutePath);
-    if (!stat) {
-      logger.debug(`Handler file not found: ${absolutePath}`);
-      throw new HandlerNotFoundError(handlerPath);
-    }
-    logger.debug(`Handler file exists, mtime: ${stat.mtime}`);
-
-    // SECURITY: Verify the real path (following symlinks) is still within base directory
-    await this.validateRealPath(absolutePath, handlerPath);
+    const { filePath: absolutePath, fileModTime } = await this.resolve(handlerPath);
 
     const cached = this.cache.get(handlerPath);
-    const fileModTime = stat.mtime?.getTime() ?? 0;
 
     // Use cache if file hasn't been modified since last load
     if (!forceReload && cached && cached.fileModTime === fileModTime) {
@@ -90,6 +84,30 @@ export class HandlerLoader {
     return handler;
   }
 
+  /**
+   * Resolve a handler path to its file without importing it.
+   * Applies the same existence and directory escape checks as load().
+   * @param handlerPath - Relative path like "code/hello.ts"
+   */
+  async resolve(handlerPath: string): Promise<ResolvedHandlerFile> {
+    logger.debug(`Resolving handler: ${handlerPath}`);
+    const absolutePath = this.resolveAbsolutePath(handlerPath);
+    logger.debug(`Resolved absolute path: ${absolutePath}`);
+
+    // Check if file exists and get its modification time
+    const stat = await this.getFileStat(absolutePath);
+    if (!stat) {
+      logger.debug(`Handler file not found: ${absolutePath}`);
+      throw new HandlerNotFoundError(handlerPath);
+    }
+    logger.debug(`Handler file exists, mtime: ${stat.mtime}`);
+
+    // SECURITY: Verify the real path (following symlinks) is still within base directory
+    await this.validateRealPath(absolutePath, handlerPath);
+
+    return { filePath: absolutePath, fileModTime: stat.mtime?.getTime() ?? 0 };
+  }
+
   /**
    * Import module with cache-busting query parameter
    */
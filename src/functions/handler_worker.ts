@@ -0,0 +1,234 @@
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+/**
+ * Entry point of the Deno Worker that runs a worker-isolated function handler.
+ *
+ * Receives a single "invoke" message from WorkerExecutor, runs the handler with a
+ * Hono context rebuilt from the marshalled request, and streams the response back.
+ * Console output, ctx.log entries, fetch() calls, secret lookups, ctx.kv and ctx.invoke() calls are forwarded to the
+ * main thread, which stores logs, resolves secrets, runs the store and dispatches the
+ * called function - the worker itself has no database access.
+ */
+
+import { Hono } from "@hono/hono";
+import type { ConsoleLogLevel } from "../logs/types.ts";
+import { serializeArgs, serializeMessage } from "../logs/log_serialization.ts";
+import { createFunctionLogger } from "../logs/function_logger.ts";
+import { trackFetch } from "../outbound/outbound_fetch.ts";
+import type { FunctionContext, FunctionInvokeInit, HandlerModule } from "./types.ts";
+import type { FunctionKv, KvEntry, KvListOptions } from "../kv/types.ts";
+import type {
+  WorkerCallResponse,
+  WorkerInboundMessage,
+  WorkerInvokeMessage,
+  WorkerKvMethod,
+  WorkerOutboundMessage,
+} from "./worker_executor.ts";
+
+type ConsoleMethod = "log" | "debug" | "info" | "warn" | "error" | "trace";
+
+const CONSOLE_METHODS: ConsoleMethod[] = ["log", "debug", "info", "warn", "error", "trace"];
+
+/** Pending calls proxied to the main thread, keyed by request id */
+const pendingRequests = new Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (error: Error) => void }
+>();
+let nextRequestId = 0;
+
+function send(message: WorkerOutboundMessage): void {
+  self.postMessage(message);
+}
+
+function sendLog(level: ConsoleLogLevel, message: string, args?: string): void {
+  send({ type: "log", level, message, args });
+}
+
+/**
+ * Forward console.* and Deno.stdout/stderr output to the main thread.
+ */
+function captureOutput(): void {
+  for (const method of CONSOLE_METHODS) {
+    console[method] = (...args: unknown[]) => {
+      const [firstArg, ...restArgs] = args;
+      sendLog(method, serializeMessage(firstArg), serializeArgs(restArgs));
+    };
+  }
+
+  const decoder = new TextDecoder();
+  for (const [stream, level] of [[Deno.stdout, "stdout"], [Deno.stderr, "stderr"]] as const) {
+    stream.writeSync = (p: Uint8Array) => {
+      const message = decoder.decode(p).replace(/\n$/, "");
+      if (message.length > 0) sendLog(level, message);
+      return p.length;
+    };
+    stream.write = (p: Uint8Array) => Promise.resolve(stream.writeSync(p));
+  }
+}
+
+/**
+ * Report fetch() calls to the main thread and enforce the function's allowed hosts.
+ */
+function trackOutboundCalls(allowedHosts: string[] | undefined): void {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) =>
+    trackFetch(originalFetch, input, init, allowedHosts, (call) => send({ type: "outbound", call }));
+}
+
+/**
+ * Send a request to the main thread and wait for its result message.
+ */
+function request(build: (id: number) => WorkerOutboundMessage): Promise<unknown> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    send(build(id));
+  });
+}
+
+function requestSecret(
+  name: string,
+  scope: "global" | "function" | "group" | "key" | undefined,
+  complete: boolean,
+): Promise<unknown> {
+  return request((id) => ({ type: "secret", id, name, scope, complete }));
+}
+
+function requestKv<T>(method: WorkerKvMethod, args: unknown[]): Promise<T> {
+  return request((id) => ({ type: "kv", id, method, args })) as Promise<T>;
+}
+
+/**
+ * ctx.kv backed by the main thread's store.
+ */
+function createKvProxy(): FunctionKv {
+  return {
+    get: <T>(key: string) => requestKv<T | undefined>("get", [key]),
+    set: (key, value, options) => requestKv<void>("set", [key, value, options]),
+    delete: (key) => requestKv<boolean>("delete", [key]),
+    list: <T>(prefix?: string, options?: KvListOptions) => requestKv<KvEntry<T>[]>("list", [prefix, options]),
+    compareAndSet: (key, expected, value, options) =>
+      requestKv<boolean>("compareAndSet", [key, expected, value, options]),
+  };
+}
+
+/**
+ * ctx.invoke() dispatched by the main thread. Request and response bodies are buffered;
+ * RequestInit options other than method, headers and body are not forwarded.
+ */
+async function invokeFunction(functionName: string, init: FunctionInvokeInit = {}): Promise<Response> {
+  const body = init.body != null ? await new Response(init.body).arrayBuffer() : null;
+  const result = await request((id) => ({
+    type: "call",
+    id,
+    functionName,
+    request: {
+      method: init.method,
+      path: init.path,
+      headers: [...new Headers(init.headers).entries()],
+      body,
+    },
+  })) as WorkerCallResponse;
+
+  return new Response(result.body, {
+    status: result.status,
+    statusText: result.statusText,
+    headers: result.headers,
+  });
+}
+
+function sendError(kind: "export" | "syntax" | "load" | "execution", error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  send({ type: "error", kind, name: err.name, message: err.message, stack: err.stack });
+}
+
+async function invoke(message: WorkerInvokeMessage): Promise<void> {
+  let module: HandlerModule;
+  try {
+    module = await import(message.handlerUrl);
+  } catch (error) {
+    sendError(error instanceof SyntaxError ? "syntax" : "load", error);
+    return;
+  }
+
+  if (typeof module.default !== "function") {
+    sendError("export", new Error("Handler must export a default function"));
+    return;
+  }
+  const handler = module.default;
+
+  // Only aborted if the worker is asked to stop - timeouts terminate the worker outright
+  const abortController = new AbortController();
+
+  const ctx: FunctionContext = {
+    ...message.context,
+    signal: abortController.signal,
+    kv: createKvProxy(),
+    log: createFunctionLogger((level, message, fields) => send({ type: "log", level, message, fields })),
+    invoke: invokeFunction,
+    getSecret: (name, scope) =>
+      requestSecret(name, scope, false) as Promise<string | undefined>,
+    getCompleteSecret: (name) =>
+      requestSecret(name, undefined, true) as ReturnType<FunctionContext["getCompleteSecret"]>,
+  };
+
+  // Register on the route pattern so c.req.param() matches the main router
+  const app = new Hono();
+  app.on(message.request.method, message.routePath, (c) => handler(c, ctx));
+  // Rethrow instead of Hono's default 500 so the main thread reports it like an in-process error
+  app.onError((error) => {
+    throw error;
+  });
+
+  const { method, url, headers, body } = message.request;
+  let response: Response;
+  try {
+    response = await app.fetch(new Request(url, { method, headers, body }));
+  } catch (error) {
+    sendError("execution", error);
+    return;
+  }
+
+  send({
+    type: "response",
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    hasBody: response.body !== null,
+  });
+
+  if (response.body) {
+    try {
+      for await (const chunk of response.body) {
+        send({ type: "chunk", data: chunk });
+      }
+    } catch (error) {
+      sendError("execution", error);
+      return;
+    }
+  }
+
+  send({ type: "end" });
+}
+
+self.onmessage = (event: MessageEvent<WorkerInboundMessage>) => {
+  const message = event.data;
+
+  if (message.type === "result") {
+    const pending = pendingRequests.get(message.id);
+    if (pending) {
+      pendingRequests.delete(message.id);
+      if (message.error !== undefined) {
+        pending.reject(new Error(message.error));
+      } else {
+        pending.resolve(message.value);
+      }
+    }
+    return;
+  }
+
+  captureOutput();
+  trackOutboundCalls(message.allowedHosts);
+  invoke(message).catch((error) => sendError("execution", error));
+};
@@ -0,0 +1,216 @@
+import type { Context } from "@hono/hono";
+import type { IpAccessConfig } from "./types.ts";
+
+/**
+ * Why a request was rejected because of its client IP (logged with the exec_reject entry).
+ * - ip_denied: The address is on a deny list
+ * - ip_not_allowed: The address isn't on an allow list
+ */
+export type IpRejectionReason = "ip_denied" | "ip_not_allowed";
+
+/** A parsed address (4 bytes for IPv4, 16 for IPv6) and the number of leading bits that must match */
+interface IpRange {
+  bytes: Uint8Array;
+  prefixLength: number;
+}
+
+function parseIPv4(value: string): Uint8Array | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+
+  const bytes = new Uint8Array(4);
+  for (let i = 0; i < 4; i++) {
+    if (!/^\d{1,3}$/.test(parts[i]) || Number(parts[i]) > 255) return null;
+    bytes[i] = Number(parts[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Parse the colon-separated groups of one side of an IPv6 "::".
+ * The last group may be an embedded IPv4 address (::ffff:192.0.2.1).
+ */
+function parseIPv6Groups(part: string, allowIPv4: boolean): number[] | null {
+  if (part === "") return [];
+
+  const groups: number[] = [];
+  const pieces = part.split(":");
+  for (let i = 0; i < pieces.length; i++) {
+    if (allowIPv4 && i === pieces.length - 1 && pieces[i].includes(".")) {
+      const ipv4 = parseIPv4(pieces[i]);
+      if (!ipv4) return null;
+      groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+    } else if (/^[0-9a-fA-F]{1,4}$/.test(pieces[i])) {
+      groups.push(parseInt(pieces[i], 16));
+    } else {
+      return null;
+    }
+  }
+  return groups;
+}
+
+function parseIPv6(value: string): Uint8Array | null {
+  // Zone IDs (fe80::1%eth0) only mean something to the local host
+  const halves = value.replace(/%[^%]+$/, "").split("::");
+  if (halves.length > 2) return null;
+
+  const compressed = halves.length === 2;
+  const head = parseIPv6Groups(halves[0], !compressed);
+  const tail = compressed ? parseIPv6Groups(halves[1], true) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (compressed ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, i) => {
+    bytes[i * 2] = group >> 8;
+    bytes[i * 2 + 1] = group & 0xff;
+  });
+  return bytes;
+}
+
+/** Whether an IPv6 address is an IPv4-mapped address (::ffff:0:0/96) */
+function isIPv4Mapped(bytes: Uint8Array): boolean {
+  return bytes.length === 16 && bytes.subarray(0, 10).every((b) => b === 0) && bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+}
+
+/**
+ * Parse an address or CIDR range ("192.0.2.1", "10.0.0.0/8", "2001:db8::/32").
+ * IPv4-mapped IPv6 addresses are treated as the IPv4 address they carry, so
+ * dual-stack listeners match IPv4 ranges.
+ */
+function parseRange(entry: string): IpRange | null {
+  const [address, prefix, ...rest] = entry.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const bytes = address.includes(":") ? parseIPv6(address) : parseIPv4(address);
+  if (!bytes) return null;
+
+  let prefixLength = bytes.length * 8;
+  if (prefix !== undefined) {
+    if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > prefixLength) return null;
+    prefixLength = Number(prefix);
+  }
+
+  if (isIPv4Mapped(bytes) && prefixLength >= 96) {
+    return { bytes: bytes.slice(12), prefixLength: prefixLength - 96 };
+  }
+  return { bytes, prefixLength };
+}
+
+function rangeContains(range: IpRange, address: Uint8Array): boolean {
+  if (range.bytes.length !== address.length) return false;
+
+  const fullBytes = Math.floor(range.prefixLength / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (range.bytes[i] !== address[i]) return false;
+  }
+
+  const remainingBits = range.prefixLength % 8;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (range.bytes[fullBytes] & mask) === (address[fullBytes] & mask);
+}
+
+/**
+ * Whether an entry is a valid IPv4/IPv6 address or CIDR range.
+ */
+export function isValidIpRange(entry: string): boolean {
+  return parseRange(entry) !== null;
+}
+
+/**
+ * Split a list of addresses and CIDR ranges from a setting or a form field
+ * (one per line - commas and spaces separate entries too).
+ */
+export function parseIpList(value: string): string[] {
+  return value.split(/[\s,]+/).filter((entry) => entry.length > 0);
+}
+
+/**
+ * Whether an address is in any of the given addresses and CIDR ranges.
+ * Invalid entries never match.
+ */
+export function matchesIpRanges(ip: string, entries: string[]): boolean {
+  const address = parseRange(ip);
+  if (!address) return false;
+
+  return entries.some((entry) => {
+    const range = parseRange(entry);
+    return range !== null && rangeContains(range, address.bytes);
+  });
+}
+
+/**
+ * Check a client IP against access lists (e.g. the global, function and key group lists).
+ * Every list must accept the address: it must not be denied by any of them, and
+ * must be on every allow list that isn't empty. An unknown address (null) can't
+ * be denied, but isn't on any allow list either.
+ *
+ * @returns The rejection reason, or null if the address is accepted
+ */
+export function checkIpAccess(ip: string | null, configs: (IpAccessConfig | undefined)[]): IpRejectionReason | null {
+  for (const config of configs) {
+    if (ip && config?.deny?.length && matchesIpRanges(ip, config.deny)) {
+      return "ip_denied";
+    }
+    if (config?.allow?.length && !(ip && matchesIpRanges(ip, config.allow))) {
+      return "ip_not_allowed";
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize an address from a connection or a forwarded header.
+ * Strips ports and brackets ("[2001:db8::1]:443", "192.0.2.1:8080") and unwraps
+ * IPv4-mapped addresses. Returns null if it isn't an IP address.
+ */
+function normalizeIp(value: string): string | null {
+  const address = value.match(/^\[(.+)\](?::\d+)?$/)?.[1] ??
+    value.match(/^(\d+\.\d+\.\d+\.\d+):\d+$/)?.[1] ??
+    value;
+
+  const range = parseRange(address);
+  if (!range || address.includes("/")) return null;
+  return range.bytes.length === 4 ? range.bytes.join(".") : address.toLowerCase();
+}
+
+/**
+ * Get the IP address of the client that sent a request.
+ *
+ * This is the address of the connection, unless the connection comes from one
+ * of the trusted proxies. Then X-Forwarded-For is read from right to left,
+ * skipping the trusted proxies the request passed through - the first other
+ * address is the client. Entries left of it could be made up by the client and
+ * are ignored, and without trusted proxies the header is never read.
+ *
+ * @param trustedProxies - Addresses and CIDR ranges of reverse proxies in front of the server
+ * @returns The client address, or null if unknown (e.g. requests built in-process)
+ */
+export function getClientIp(c: Context, trustedProxies: string[] = []): string | null {
+  // Deno.serve() passes the connection info as the env of the Hono app
+  const remoteAddr = (c.env as { remoteAddr?: Deno.Addr } | undefined)?.remoteAddr;
+  const peer = remoteAddr && "hostname" in remoteAddr ? normalizeIp(remoteAddr.hostname) : null;
+  if (!peer || !matchesIpRanges(peer, trustedProxies)) {
+    return peer;
+  }
+
+  const hops = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter((hop) => hop.length > 0);
+
+  let clientIp = peer;
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const hop = normalizeIp(hops[i]);
+    // A malformed entry can't be trusted - the proxy that added it is the closest known address
+    if (!hop) break;
+    clientIp = hop;
+    if (!matchesIpRanges(hop, trustedProxies)) break;
+  }
+  return clientIp;
+}
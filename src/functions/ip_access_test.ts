@@ -0,0 +1,69 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import type { Context } from "@hono/hono";
+import { checkIpAccess, getClientIp, isValidIpRange, matchesIpRanges } from "./ip_access.ts";
+
+// Helper to create a context for a request from the given address
+async function createContext(remoteAddress?: string, forwardedFor?: string): Promise<Context> {
+  const app = new Hono();
+  let capturedContext: Context | null = null;
+
+  app.all("*", (c) => {
+    capturedContext = c;
+    return c.text("ok");
+  });
+
+  const headers: Record<string, string> = forwardedFor ? { "X-Forwarded-For": forwardedFor } : {};
+  const env = remoteAddress ? { remoteAddr: { transport: "tcp", hostname: remoteAddress, port: 40000 } } : undefined;
+  await app.fetch(new Request("http://localhost/run/api", { headers }), env);
+  return capturedContext!;
+}
+
+Deno.test("isValidIpRange accepts IPv4 and IPv6 addresses and CIDR ranges", () => {
+  for (const entry of ["192.0.2.1", "10.0.0.0/8", "0.0.0.0/0", "::1", "2001:db8::/32", "::ffff:192.0.2.1", "fe80::1%eth0"]) {
+    expect(isValidIpRange(entry)).toBe(true);
+  }
+  for (const entry of ["", "192.0.2", "256.0.0.1", "10.0.0.0/33", "2001:db8::/129", "1::2::3", "example.com", "10.0.0.0/8/8"]) {
+    expect(isValidIpRange(entry)).toBe(false);
+  }
+});
+
+Deno.test("matchesIpRanges matches addresses against CIDR prefixes", () => {
+  expect(matchesIpRanges("192.168.1.130", ["192.168.1.128/25"])).toBe(true);
+  expect(matchesIpRanges("192.168.1.127", ["192.168.1.128/25"])).toBe(false);
+  expect(matchesIpRanges("2001:db8:1::5", ["2001:db8::/32"])).toBe(true);
+  expect(matchesIpRanges("2001:db9::5", ["2001:db8::/32"])).toBe(false);
+
+  // IPv4-mapped addresses of dual-stack listeners match IPv4 ranges, IPv4 never matches IPv6 ranges
+  expect(matchesIpRanges("::ffff:10.0.0.1", ["10.0.0.0/8"])).toBe(true);
+  expect(matchesIpRanges("10.0.0.1", ["::/0"])).toBe(false);
+});
+
+Deno.test("checkIpAccess requires every list to accept the address", () => {
+  const office = { allow: ["10.0.0.0/8"], deny: ["10.0.0.66"] };
+
+  expect(checkIpAccess("10.1.2.3", [{}, office])).toBeNull();
+  expect(checkIpAccess("10.0.0.66", [office])).toBe("ip_denied");
+  expect(checkIpAccess("192.0.2.1", [office])).toBe("ip_not_allowed");
+  expect(checkIpAccess("10.1.2.3", [office, { allow: ["10.2.0.0/16"] }])).toBe("ip_not_allowed");
+
+  // Unknown addresses can't be denied, but aren't allowed either
+  expect(checkIpAccess(null, [{ deny: ["0.0.0.0/0"] }])).toBeNull();
+  expect(checkIpAccess(null, [office])).toBe("ip_not_allowed");
+});
+
+Deno.test("getClientIp only reads X-Forwarded-For from trusted proxies", async () => {
+  const proxies = ["10.0.0.0/8"];
+
+  expect(getClientIp(await createContext(), proxies)).toBeNull();
+  expect(getClientIp(await createContext("203.0.113.9", "198.51.100.7"), proxies)).toBe("203.0.113.9");
+  expect(getClientIp(await createContext("10.0.0.1", "198.51.100.7"), [])).toBe("10.0.0.1");
+
+  // The rightmost address that isn't a trusted proxy is the client
+  expect(getClientIp(await createContext("10.0.0.1", "6.6.6.6, 198.51.100.7, 10.0.0.2"), proxies)).toBe("198.51.100.7");
+  expect(getClientIp(await createContext("10.0.0.1", "10.0.0.2"), proxies)).toBe("10.0.0.2");
+  expect(getClientIp(await createContext("10.0.0.1", "[2001:DB8::1]:443"), proxies)).toBe("2001:db8::1");
+
+  // Malformed entries stop the walk at the proxy that added them
+  expect(getClientIp(await createContext("10.0.0.1", "198.51.100.7, unknown"), proxies)).toBe("10.0.0.1");
+});
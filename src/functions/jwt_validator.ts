@@ -0,0 +1,334 @@
+import type { Context } from "@hono/hono";
+import { base64ToBytes } from "../encryption/utils.ts";
+import { logger } from "../utils/logger.ts";
+import type { JwtAlgorithm, JwtAuthConfig, JwtClaims, JwtClaimValue } from "./types.ts";
+
+/** Default allowed clock difference for the exp and nbf claims */
+export const DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS = 60;
+
+/** How long fetched key sets are used before they're fetched again (10 minutes) */
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Minimum time between refetches for tokens with an unknown key ID */
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+/** Timeout of JWKS requests */
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+/** Bearer tokens with the shape of a JWS compact serialization (header.payload.signature) */
+const BEARER_JWT_REGEX = /^Bearer ([A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+)$/;
+
+/** Web Crypto parameters of a JWS algorithm */
+interface AlgorithmParams {
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+/** Web Crypto parameters for importing keys and verifying signatures of each algorithm */
+const ALGORITHM_PARAMS: Record<JwtAlgorithm, AlgorithmParams> = {
+  RS256: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verifyParams: "RSASSA-PKCS1-v1_5" },
+  RS384: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verifyParams: "RSASSA-PKCS1-v1_5" },
+  RS512: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verifyParams: "RSASSA-PKCS1-v1_5" },
+  PS256: { importParams: { name: "RSA-PSS", hash: "SHA-256" }, verifyParams: { name: "RSA-PSS", saltLength: 32 } },
+  PS384: { importParams: { name: "RSA-PSS", hash: "SHA-384" }, verifyParams: { name: "RSA-PSS", saltLength: 48 } },
+  PS512: { importParams: { name: "RSA-PSS", hash: "SHA-512" }, verifyParams: { name: "RSA-PSS", saltLength: 64 } },
+  ES256: { importParams: { name: "ECDSA", namedCurve: "P-256" }, verifyParams: { name: "ECDSA", hash: "SHA-256" } },
+  ES384: { importParams: { name: "ECDSA", namedCurve: "P-384" }, verifyParams: { name: "ECDSA", hash: "SHA-384" } },
+  ES512: { importParams: { name: "ECDSA", namedCurve: "P-521" }, verifyParams: { name: "ECDSA", hash: "SHA-512" } },
+  EdDSA: { importParams: { name: "Ed25519" }, verifyParams: { name: "Ed25519" } },
+};
+
+/** Algorithms accepted when a function doesn't restrict them */
+const DEFAULT_ALGORITHMS = Object.keys(ALGORITHM_PARAMS) as JwtAlgorithm[];
+
+/**
+ * Why a request was rejected (logged with the exec_reject entry).
+ */
+export type JwtRejectionReason = "missing_jwt" | "invalid_jwt";
+
+export interface JwtValidationResult {
+  /** Whether the token is valid */
+  valid: boolean;
+  /** Verified claims of the token */
+  claims?: JwtClaims;
+  /** Error message if validation failed */
+  error?: string;
+  /** Rejection reason if validation failed */
+  reason?: JwtRejectionReason;
+}
+
+export interface JwtValidatorOptions {
+  /** Fetch implementation for JWKS requests (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/** Key set fetched from a JWKS endpoint */
+interface CachedKeySet {
+  keys: JsonWebKey[];
+  fetchedAt: number;
+}
+
+/** A verification key - a JWK, or the SPKI bytes of a PEM public key */
+type VerificationKey = { jwk: JsonWebKey & { kid?: string } } | { spki: Uint8Array<ArrayBuffer> };
+
+/**
+ * Get the bearer JWT of a request, if it carries one.
+ * Bearer values that aren't shaped like a JWT (e.g. API keys) are ignored.
+ */
+export function extractBearerJwt(c: Context): string | null {
+  return BEARER_JWT_REGEX.exec(c.req.header("Authorization") ?? "")?.[1] ?? null;
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return new Uint8Array(base64ToBytes(base64 + "=".repeat((4 - (base64.length % 4)) % 4)));
+}
+
+function decodeJsonPart(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlToBytes(value)));
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a static public key - PEM, a JWK or a JWK set.
+ */
+function parseStaticKeys(publicKey: string): VerificationKey[] {
+  const trimmed = publicKey.trim();
+  if (trimmed.startsWith("-----BEGIN PUBLIC KEY-----")) {
+    const base64 = trimmed
+      .replace("-----BEGIN PUBLIC KEY-----", "")
+      .replace("-----END PUBLIC KEY-----", "")
+      .replace(/\s+/g, "");
+    return [{ spki: new Uint8Array(base64ToBytes(base64)) }];
+  }
+
+  const parsed = JSON.parse(trimmed);
+  const keys: JsonWebKey[] = Array.isArray(parsed.keys) ? parsed.keys : [parsed];
+  return keys.map((jwk) => ({ jwk }));
+}
+
+/**
+ * Check a claim against its required value.
+ * Array claims must contain the value, and "scope" strings must contain it as
+ * one of their space-separated words.
+ */
+function claimMatches(name: string, claim: unknown, expected: JwtClaimValue): boolean {
+  if (Array.isArray(claim)) {
+    return claim.includes(expected);
+  }
+  if (name === "scope" && typeof claim === "string" && typeof expected === "string") {
+    return claim.split(" ").includes(expected);
+  }
+  return claim === expected;
+}
+
+/**
+ * Validates JWT bearer tokens for function routes.
+ *
+ * Tokens are verified with the issuer's keys (fetched from its JWKS endpoint
+ * or configured statically) and must have the expected issuer, audience and
+ * a current validity period. Key sets are cached for 10 minutes, and fetched
+ * again early when a token names a key ID that isn't in the cached set -
+ * so rotated issuer keys are picked up without a restart.
+ */
+export class JwtValidator {
+  private readonly fetchFn: typeof fetch;
+  private readonly keySets = new Map<string, CachedKeySet>();
+  private readonly pendingFetches = new Map<string, Promise<CachedKeySet | null>>();
+
+  constructor(options: JwtValidatorOptions = {}) {
+    this.fetchFn = options.fetchFn ?? fetch;
+  }
+
+  /**
+   * Validate the bearer JWT of a request.
+   * @param c - Hono context
+   * @param config - The function's JWT settings
+   * @param now - Reference time for the exp and nbf checks and the key cache (default: now)
+   */
+  async validate(c: Context, config: JwtAuthConfig, now: Date = new Date()): Promise<JwtValidationResult> {
+    const token = extractBearerJwt(c);
+    if (!token) {
+      return { valid: false, error: "Missing bearer token", reason: "missing_jwt" };
+    }
+
+    const [headerPart, payloadPart, signaturePart] = token.split(".");
+    const header = decodeJsonPart(headerPart);
+    const claims = decodeJsonPart(payloadPart);
+    if (!header || !claims) {
+      return this.reject("Malformed JWT");
+    }
+
+    const algorithm = header.alg as JwtAlgorithm;
+    if (!(config.algorithms ?? DEFAULT_ALGORITHMS).includes(algorithm)) {
+      return this.reject(`JWT algorithm '${String(header.alg)}' is not allowed`);
+    }
+
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = base64UrlToBytes(signaturePart);
+    } catch {
+      return this.reject("Malformed JWT");
+    }
+
+    const kid = typeof header.kid === "string" ? header.kid : undefined;
+    const keys = await this.getKeys(config, kid, now);
+    const signingInput = new TextEncoder().encode(`${headerPart}.${payloadPart}`);
+    if (!await this.verifySignature(keys, kid, algorithm, signature, signingInput)) {
+      return this.reject("Invalid JWT signature");
+    }
+
+    const claimError = this.checkClaims(claims, config, now);
+    if (claimError) {
+      return this.reject(claimError);
+    }
+
+    logger.debug(`JWT validated successfully (issuer: ${config.issuer}, subject: ${String(claims.sub)})`);
+    return { valid: true, claims };
+  }
+
+  private reject(error: string): JwtValidationResult {
+    logger.debug(`JWT validation failed: ${error}`);
+    return { valid: false, error, reason: "invalid_jwt" };
+  }
+
+  /**
+   * Get the candidate keys for a token - the static key, or the issuer's key set.
+   */
+  private async getKeys(config: JwtAuthConfig, kid: string | undefined, now: Date): Promise<VerificationKey[]> {
+    if (config.publicKey) {
+      try {
+        return parseStaticKeys(config.publicKey);
+      } catch (error) {
+        logger.warn(`[JWT] Static public key for issuer ${config.issuer} can't be parsed:`, error);
+        return [];
+      }
+    }
+
+    const url = config.jwksUrl!;
+    let keySet = this.keySets.get(url);
+    const age = keySet ? now.getTime() - keySet.fetchedAt : Infinity;
+    const unknownKid = kid !== undefined && !keySet?.keys.some((jwk) => (jwk as { kid?: string }).kid === kid);
+    if (age > JWKS_CACHE_TTL_MS || (unknownKid && age > JWKS_REFETCH_COOLDOWN_MS)) {
+      // Stale keys are still used if the endpoint can't be reached
+      keySet = (await this.fetchKeySet(url, now)) ?? keySet;
+    }
+    return keySet?.keys.map((jwk) => ({ jwk })) ?? [];
+  }
+
+  /**
+   * Fetch a key set, sharing the request between concurrent callers.
+   * @returns The key set, or null if it couldn't be fetched
+   */
+  private fetchKeySet(url: string, now: Date): Promise<CachedKeySet | null> {
+    let pending = this.pendingFetches.get(url);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const response = await this.fetchFn(url, {
+            headers: { Accept: "application/json" },
+            signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+          });
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const body = await response.json();
+          if (!Array.isArray(body?.keys)) {
+            throw new Error("response has no keys array");
+          }
+          const keySet = { keys: body.keys as JsonWebKey[], fetchedAt: now.getTime() };
+          this.keySets.set(url, keySet);
+          return keySet;
+        } catch (error) {
+          logger.warn(`[JWT] Failed to fetch JWKS from ${url}:`, error);
+          return null;
+        } finally {
+          this.pendingFetches.delete(url);
+        }
+      })();
+      this.pendingFetches.set(url, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Check the signature with every key that could have made it.
+   * JWKs are skipped if their kid, alg or use doesn't fit the token.
+   */
+  private async verifySignature(
+    keys: VerificationKey[],
+    kid: string | undefined,
+    algorithm: JwtAlgorithm,
+    signature: Uint8Array<ArrayBuffer>,
+    signingInput: Uint8Array<ArrayBuffer>
+  ): Promise<boolean> {
+    const { importParams, verifyParams } = ALGORITHM_PARAMS[algorithm];
+
+    for (const key of keys) {
+      let cryptoKey: CryptoKey;
+      try {
+        if ("spki" in key) {
+          cryptoKey = await crypto.subtle.importKey("spki", key.spki, importParams, false, ["verify"]);
+        } else {
+          const { kid: keyId, alg, use } = key.jwk as JsonWebKey & { kid?: string; use?: string };
+          if ((kid !== undefined && keyId !== undefined && keyId !== kid) || (alg && alg !== algorithm) || (use && use !== "sig")) {
+            continue;
+          }
+          // Only the key material is imported - key_ops of the issuer don't matter here
+          cryptoKey = await crypto.subtle.importKey("jwk", { ...key.jwk, key_ops: undefined }, importParams, false, ["verify"]);
+        }
+      } catch {
+        continue; // Key doesn't fit the algorithm
+      }
+
+      try {
+        if (await crypto.subtle.verify(verifyParams, cryptoKey, signature, signingInput)) {
+          return true;
+        }
+      } catch {
+        // Malformed signature for this key type
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check the registered and required claims of a verified token.
+   * @returns An error message, or null if the claims are valid
+   */
+  private checkClaims(claims: JwtClaims, config: JwtAuthConfig, now: Date): string | null {
+    const nowSeconds = now.getTime() / 1000;
+    const tolerance = config.clockToleranceSeconds ?? DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS;
+
+    if (claims.iss !== config.issuer) {
+      return "JWT issuer does not match";
+    }
+    if (config.audience !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(config.audience)) {
+        return "JWT audience does not match";
+      }
+    }
+
+    if (typeof claims.exp !== "number") {
+      return "JWT has no expiry (exp claim)";
+    }
+    if (nowSeconds > claims.exp + tolerance) {
+      return "JWT has expired";
+    }
+    if (typeof claims.nbf === "number" && nowSeconds < claims.nbf - tolerance) {
+      return "JWT is not valid yet";
+    }
+
+    for (const [name, expected] of Object.entries(config.requiredClaims ?? {})) {
+      if (!claimMatches(name, claims[name], expected)) {
+        return `JWT claim '${name}' does not have the required value`;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import type { Context } from "@hono/hono";
+import { JwtValidator } from "./jwt_validator.ts";
+import type { JwtAuthConfig } from "./types.ts";
+import { bytesToBase64 } from "../encryption/utils.ts";
+
+const ISSUER = "https://auth.example.com/";
+const NOW = new Date("2026-01-15T10:30:00Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+// Helper to create a context from a Request (same pattern as api_key_validator_test.ts)
+async function createContext(token?: string): Promise<Context> {
+  const app = new Hono();
+  let capturedContext: Context | null = null;
+
+  app.all("*", (c) => {
+    capturedContext = c;
+    return c.text("ok");
+  });
+
+  const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  await app.fetch(new Request("http://localhost/run/api", { headers }));
+  return capturedContext!;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function encodeJson(value: unknown): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function generateRsaKeys(): Promise<CryptoKeyPair> {
+  return await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"]
+  );
+}
+
+async function signRs256(privateKey: CryptoKey, header: Record<string, unknown>, claims: Record<string, unknown>): Promise<string> {
+  const signingInput = `${encodeJson({ alg: "RS256", typ: "JWT", ...header })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+async function toPem(publicKey: CryptoKey): Promise<string> {
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", publicKey));
+  return `-----BEGIN PUBLIC KEY-----\n${bytesToBase64(spki).match(/.{1,64}/g)!.join("\n")}\n-----END PUBLIC KEY-----`;
+}
+
+const validClaims = { iss: ISSUER, aud: "crude", sub: "user-1", exp: NOW_SECONDS + 600, groups: ["admins"] };
+
+Deno.test("JwtValidator accepts tokens signed with a static PEM key and returns the claims", async () => {
+  const keys = await generateRsaKeys();
+  const config: JwtAuthConfig = { issuer: ISSUER, audience: "crude", publicKey: await toPem(keys.publicKey) };
+  const validator = new JwtValidator();
+
+  const token = await signRs256(keys.privateKey, {}, validClaims);
+  const result = await validator.validate(await createContext(token), config, NOW);
+  expect(result.valid).toBe(true);
+  expect(result.claims).toEqual(validClaims);
+
+  // A token signed by another key is rejected
+  const otherKeys = await generateRsaKeys();
+  const forged = await signRs256(otherKeys.privateKey, {}, validClaims);
+  expect(await validator.validate(await createContext(forged), config, NOW)).toEqual({
+    valid: false,
+    error: "Invalid JWT signature",
+    reason: "invalid_jwt",
+  });
+});
+
+Deno.test("JwtValidator checks issuer, audience, expiry and required claims", async () => {
+  const keys = await generateRsaKeys();
+  const config: JwtAuthConfig = {
+    issuer: ISSUER,
+    audience: "crude",
+    publicKey: JSON.stringify(await crypto.subtle.exportKey("jwk", keys.publicKey)),
+    requiredClaims: { groups: "admins" },
+  };
+  const validator = new JwtValidator();
+  const errorFor = async (claims: Record<string, unknown>, now = NOW) =>
+    (await validator.validate(await createContext(await signRs256(keys.privateKey, {}, claims)), config, now)).error;
+
+  expect(await errorFor(validClaims)).toBeUndefined();
+  expect(await errorFor({ ...validClaims, iss: "https://evil.example.com/" })).toBe("JWT issuer does not match");
+  expect(await errorFor({ ...validClaims, aud: ["other", "crude"] })).toBeUndefined();
+  expect(await errorFor({ ...validClaims, aud: "other" })).toBe("JWT audience does not match");
+  expect(await errorFor({ ...validClaims, exp: undefined })).toBe("JWT has no expiry (exp claim)");
+  expect(await errorFor({ ...validClaims, nbf: NOW_SECONDS + 600 })).toBe("JWT is not valid yet");
+  expect(await errorFor({ ...validClaims, groups: ["users"] })).toBe("JWT claim 'groups' does not have the required value");
+
+  // Expiry allows for the default clock tolerance of 60 seconds
+  expect(await errorFor(validClaims, new Date((NOW_SECONDS + 650) * 1000))).toBeUndefined();
+  expect(await errorFor(validClaims, new Date((NOW_SECONDS + 700) * 1000))).toBe("JWT has expired");
+});
+
+Deno.test("JwtValidator rejects missing, malformed and unsigned tokens", async () => {
+  const keys = await generateRsaKeys();
+  const config: JwtAuthConfig = { issuer: ISSUER, publicKey: await toPem(keys.publicKey), algorithms: ["RS256"] };
+  const validator = new JwtValidator();
+
+  expect(await validator.validate(await createContext(), config, NOW)).toEqual({
+    valid: false,
+    error: "Missing bearer token",
+    reason: "missing_jwt",
+  });
+  // API keys aren't JWTs
+  expect((await validator.validate(await createContext("my-api-key"), config, NOW)).reason).toBe("missing_jwt");
+  expect((await validator.validate(await createContext("a.b.c"), config, NOW)).error).toBe("Malformed JWT");
+
+  const unsigned = `${encodeJson({ alg: "none" })}.${encodeJson(validClaims)}.x`;
+  expect((await validator.validate(await createContext(unsigned), config, NOW)).error).toBe(
+    "JWT algorithm 'none' is not allowed"
+  );
+});
+
+Deno.test("JwtValidator fetches and caches the JWKS, refetching for unknown key IDs", async () => {
+  const oldKeys = await generateRsaKeys();
+  const newKeys = await generateRsaKeys();
+  const jwks = { keys: [{ ...(await crypto.subtle.exportKey("jwk", oldKeys.publicKey)), kid: "old", alg: "RS256" }] };
+
+  let fetches = 0;
+  const validator = new JwtValidator({
+    fetchFn: () => {
+      fetches++;
+      return Promise.resolve(Response.json(jwks));
+    },
+  });
+  const config: JwtAuthConfig = { issuer: ISSUER, jwksUrl: "https://auth.example.com/.well-known/jwks.json" };
+
+  const oldToken = await signRs256(oldKeys.privateKey, { kid: "old" }, validClaims);
+  expect((await validator.validate(await createContext(oldToken), config, NOW)).valid).toBe(true);
+  expect((await validator.validate(await createContext(oldToken), config, NOW)).valid).toBe(true);
+  expect(fetches).toBe(1);
+
+  // The issuer rotates its key - the unknown key ID triggers a refetch once the cooldown has passed
+  jwks.keys.push({ ...(await crypto.subtle.exportKey("jwk", newKeys.publicKey)), kid: "new", alg: "RS256" });
+  const newToken = await signRs256(newKeys.privateKey, { kid: "new" }, validClaims);
+  expect((await validator.validate(await createContext(newToken), config, NOW)).valid).toBe(false);
+  expect(fetches).toBe(1);
+
+  const later = new Date(NOW.getTime() + 31 * 1000);
+  expect((await validator.validate(await createContext(newToken), config, later)).valid).toBe(true);
+  expect(fetches).toBe(2);
+
+  // Tokens can't be verified with a key that has another ID
+  const mislabeled = await signRs256(oldKeys.privateKey, { kid: "new" }, validClaims);
+  expect((await validator.validate(await createContext(mislabeled), config, later)).valid).toBe(false);
+  expect(fetches).toBe(2);
+});
@@ -0,0 +1,159 @@
+import type { Context } from "@hono/hono";
+import type { SecretsService } from "../secrets/secrets_service.ts";
+import { base64ToBytes } from "../encryption/utils.ts";
+import { logger } from "../utils/logger.ts";
+import type { SignatureAlgorithm, SignatureConfig } from "./types.ts";
+
+/** Default allowed clock difference of signed requests (5 minutes) */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Web Crypto hash names of the signature algorithms */
+const HASH_NAMES: Record<SignatureAlgorithm, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+  sha512: "SHA-512",
+};
+
+export interface SignatureVerificationResult {
+  /** Whether the request is signed correctly */
+  valid: boolean;
+  /** Error message if verification failed */
+  error?: string;
+}
+
+export interface SignatureVerifierOptions {
+  secretsService: SecretsService;
+}
+
+/**
+ * Get the values of a signature or timestamp header.
+ * The header is split on commas, and with a prefix only the parts starting
+ * with it are returned (without the prefix).
+ */
+function headerValues(value: string | undefined, prefix?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  if (!prefix) {
+    return [value.trim()];
+  }
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith(prefix))
+    .map((part) => part.slice(prefix.length));
+}
+
+/**
+ * Decode a signature from the header.
+ * @returns The signature bytes, or null if it isn't validly encoded
+ */
+function decodeSignature(value: string, encoding: SignatureConfig["encoding"]): Uint8Array<ArrayBuffer> | null {
+  if (encoding === "base64") {
+    try {
+      return new Uint8Array(base64ToBytes(value));
+    } catch {
+      return null;
+    }
+  }
+
+  if (value.length === 0 || value.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(value)) {
+    return null;
+  }
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Build the signed payload from the template, the timestamp and the raw body.
+ */
+function buildPayload(template: string, timestamp: string, body: Uint8Array): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const [before, after] = template.split("{body}").map((part) =>
+    encoder.encode(part.replaceAll("{timestamp}", timestamp))
+  );
+
+  const payload = new Uint8Array(before.length + body.length + after.length);
+  payload.set(before, 0);
+  payload.set(body, before.length);
+  payload.set(after, before.length + body.length);
+  return payload;
+}
+
+/**
+ * Verifies HMAC request signatures of functions that require them.
+ *
+ * The signing key is the function's secret with the configured name, or the
+ * global secret of that name. Signatures are compared in constant time by
+ * crypto.subtle.verify(). A request is accepted if any of the signatures in
+ * its header matches, so senders can sign with an old and a new key.
+ */
+export class SignatureVerifier {
+  private readonly secretsService: SecretsService;
+
+  constructor(options: SignatureVerifierOptions) {
+    this.secretsService = options.secretsService;
+  }
+
+  /**
+   * Verify the signature of a request.
+   * The body is read from a clone, so the handler can still read it.
+   * @param c - Hono context
+   * @param config - The function's signature settings
+   * @param functionId - The function ID (for secret resolution)
+   * @param now - Reference time for the timestamp check (default: now)
+   */
+  async verify(
+    c: Context,
+    config: SignatureConfig,
+    functionId: string,
+    now: Date = new Date()
+  ): Promise<SignatureVerificationResult> {
+    const signatures = headerValues(c.req.header(config.header), config.prefix);
+    if (signatures.length === 0) {
+      return { valid: false, error: "Missing request signature" };
+    }
+
+    let timestamp = "";
+    if (config.timestampHeader) {
+      timestamp = headerValues(c.req.header(config.timestampHeader), config.timestampPrefix)[0] ?? "";
+      if (!/^\d+$/.test(timestamp)) {
+        return { valid: false, error: "Missing request timestamp" };
+      }
+
+      const toleranceSeconds = config.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+      if (Math.abs(now.getTime() / 1000 - parseInt(timestamp, 10)) > toleranceSeconds) {
+        return { valid: false, error: "Request timestamp is outside the allowed tolerance" };
+      }
+    }
+
+    const secret = await this.secretsService.getSecretHierarchical(config.secret, functionId);
+    if (secret === undefined) {
+      logger.warn(`[Signature] Secret '${config.secret}' of function ${functionId} not found - rejecting request`);
+      return { valid: false, error: "Invalid request signature" };
+    }
+
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: HASH_NAMES[config.algorithm ?? "sha256"] },
+      false,
+      ["verify"]
+    );
+    const body = new Uint8Array(await c.req.raw.clone().arrayBuffer());
+    const payload = buildPayload(config.payload ?? "{body}", timestamp, body);
+
+    for (const value of signatures) {
+      const signature = decodeSignature(value, config.encoding);
+      if (signature && await crypto.subtle.verify("HMAC", key, signature, payload)) {
+        return { valid: true };
+      }
+    }
+
+    logger.debug(`Signature verification failed (function: ${functionId}, header: ${config.header})`);
+    return { valid: false, error: "Invalid request signature" };
+  }
+}
@@ -0,0 +1,148 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import type { Context } from "@hono/hono";
+import { SignatureVerifier } from "./signature_verifier.ts";
+import type { SecretsService } from "../secrets/secrets_service.ts";
+import { bytesToBase64 } from "../encryption/utils.ts";
+
+const SECRET = "webhook-signing-secret";
+const BODY = '{"event":"push"}';
+const NOW = new Date("2026-01-15T10:30:00Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+// Helper to create a context from a Request (same pattern as api_key_validator_test.ts)
+async function createContext(request: Request): Promise<Context> {
+  const app = new Hono();
+  let capturedContext: Context | null = null;
+
+  app.all("*", (c) => {
+    capturedContext = c;
+    return c.text("ok");
+  });
+
+  await app.fetch(request);
+  return capturedContext!;
+}
+
+function createRequest(headers: Record<string, string>, body = BODY): Request {
+  return new Request("http://localhost/run/hook", { method: "POST", headers, body });
+}
+
+// Mock SecretsService resolving only the "SIGNING_SECRET" secret
+function createVerifier(): SignatureVerifier {
+  const secretsService = {
+    getSecretHierarchical: (name: string) => Promise.resolve(name === "SIGNING_SECRET" ? SECRET : undefined),
+  } as unknown as SecretsService;
+  return new SignatureVerifier({ secretsService });
+}
+
+async function sign(payload: string, hash = "SHA-256"): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(SECRET),
+    { name: "HMAC", hash },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+Deno.test("SignatureVerifier accepts GitHub-style prefixed hex signatures", async () => {
+  const verifier = createVerifier();
+  const config = { header: "X-Hub-Signature-256", secret: "SIGNING_SECRET", prefix: "sha256=" };
+  const signature = toHex(await sign(BODY));
+
+  const valid = await createContext(createRequest({ "X-Hub-Signature-256": `sha256=${signature}` }));
+  expect(await verifier.verify(valid, config, "fn1", NOW)).toEqual({ valid: true });
+
+  const tampered = await createContext(createRequest({ "X-Hub-Signature-256": `sha256=${signature}` }, "{}"));
+  expect(await verifier.verify(tampered, config, "fn1", NOW)).toEqual({
+    valid: false,
+    error: "Invalid request signature",
+  });
+
+  const missing = await createContext(createRequest({}));
+  expect((await verifier.verify(missing, config, "fn1", NOW)).error).toBe("Missing request signature");
+});
+
+Deno.test("SignatureVerifier accepts Slack-style signatures over timestamp and body", async () => {
+  const verifier = createVerifier();
+  const config = {
+    header: "X-Slack-Signature",
+    secret: "SIGNING_SECRET",
+    prefix: "v0=",
+    payload: "v0:{timestamp}:{body}",
+    timestampHeader: "X-Slack-Request-Timestamp",
+  };
+  const signature = toHex(await sign(`v0:${NOW_SECONDS}:${BODY}`));
+
+  const c = await createContext(createRequest({
+    "X-Slack-Signature": `v0=${signature}`,
+    "X-Slack-Request-Timestamp": String(NOW_SECONDS),
+  }));
+  expect(await verifier.verify(c, config, "fn1", NOW)).toEqual({ valid: true });
+
+  // A replay after the default tolerance of 5 minutes is rejected
+  const later = new Date(NOW.getTime() + 301 * 1000);
+  expect((await verifier.verify(c, config, "fn1", later)).error).toBe(
+    "Request timestamp is outside the allowed tolerance"
+  );
+  expect((await verifier.verify(c, { ...config, toleranceSeconds: 600 }, "fn1", later)).valid).toBe(true);
+
+  const noTimestamp = await createContext(createRequest({ "X-Slack-Signature": `v0=${signature}` }));
+  expect((await verifier.verify(noTimestamp, config, "fn1", NOW)).error).toBe("Missing request timestamp");
+});
+
+Deno.test("SignatureVerifier accepts Stripe-style headers with several signatures", async () => {
+  const verifier = createVerifier();
+  const config = {
+    header: "Stripe-Signature",
+    secret: "SIGNING_SECRET",
+    prefix: "v1=",
+    payload: "{timestamp}.{body}",
+    timestampHeader: "Stripe-Signature",
+    timestampPrefix: "t=",
+  };
+  const signature = toHex(await sign(`${NOW_SECONDS}.${BODY}`));
+
+  // During a secret roll the sender signs with both secrets
+  const c = await createContext(createRequest({
+    "Stripe-Signature": `t=${NOW_SECONDS},v1=${"ab".repeat(32)},v1=${signature}`,
+  }));
+  expect(await verifier.verify(c, config, "fn1", NOW)).toEqual({ valid: true });
+});
+
+Deno.test("SignatureVerifier supports base64 encoding and other algorithms", async () => {
+  const verifier = createVerifier();
+  const config = {
+    header: "X-Signature",
+    secret: "SIGNING_SECRET",
+    algorithm: "sha512" as const,
+    encoding: "base64" as const,
+  };
+
+  const valid = await createContext(createRequest({ "X-Signature": bytesToBase64(await sign(BODY, "SHA-512")) }));
+  expect((await verifier.verify(valid, config, "fn1", NOW)).valid).toBe(true);
+
+  // A SHA-256 signature doesn't match a SHA-512 config
+  const wrongHash = await createContext(createRequest({ "X-Signature": bytesToBase64(await sign(BODY)) }));
+  expect((await verifier.verify(wrongHash, config, "fn1", NOW)).valid).toBe(false);
+
+  const notBase64 = await createContext(createRequest({ "X-Signature": "%%%" }));
+  expect((await verifier.verify(notBase64, config, "fn1", NOW)).valid).toBe(false);
+});
+
+Deno.test("SignatureVerifier rejects requests when the secret doesn't exist", async () => {
+  const verifier = createVerifier();
+  const config = { header: "X-Signature", secret: "MISSING_SECRET" };
+
+  const c = await createContext(createRequest({ "X-Signature": toHex(await sign(BODY)) }));
+  expect(await verifier.verify(c, config, "fn1", NOW)).toEqual({
+    valid: false,
+    error: "Invalid request signature",
+  });
+});
@@ -1,4 +1,6 @@
 import type { Context } from "@hono/hono";
+import type { FunctionKv } from "../kv/types.ts";
+import type { FunctionLogger } from "../logs/types.ts";
 
 /**
  * CORS configuration for a function endpoint.
@@ -19,6 +21,151 @@ export interface CorsConfig {
   exposeHeaders?: string[];
 }
 
+/**
+ * Cron schedule that invokes a function with a synthetic request.
+ * Each configured schedule is registered with the SchedulingService.
+ */
+export interface CronScheduleConfig {
+  /** Cron expression (5-field, e.g. "0 9 * * 1-5", or a macro like "@daily") */
+  expression: string;
+  /** IANA timezone the expression is evaluated in (default: "UTC") */
+  timezone?: string;
+  /** HTTP method of the synthetic request (default: the function's first method) */
+  method?: string;
+}
+
+/**
+ * Permission set for a function whose handler runs in a dedicated Deno Worker.
+ * When present on a function, the handler is isolated from the server process
+ * and can only use what is listed here - everything else is denied.
+ */
+export interface WorkerPermissions {
+  /** Hosts the handler may connect to (e.g. "api.example.com", "db.internal:5432") */
+  net?: string[];
+  /**
+   * Additional paths the handler may read. Relative paths resolve against the code directory.
+   * The directory containing the handler file is always readable.
+   */
+  read?: string[];
+  /** Paths the handler may write. Relative paths resolve against the code directory */
+  write?: string[];
+  /** Environment variable names the handler may read */
+  env?: string[];
+}
+
+/** HMAC hash algorithms for request signatures */
+export type SignatureAlgorithm = "sha1" | "sha256" | "sha512";
+
+/** Encodings of a request signature */
+export type SignatureEncoding = "hex" | "base64";
+
+/**
+ * HMAC request signature verification for a function.
+ * HTTP requests are rejected before the handler runs unless the signature
+ * header holds the HMAC of the signed payload, keyed with a secret.
+ *
+ * Header values are split on commas - with a prefix, every part starting with
+ * it is a candidate (e.g. Stripe's "t=...,v1=...,v1=...").
+ */
+export interface SignatureConfig {
+  /** Header carrying the signature (e.g. "X-Hub-Signature-256") */
+  header: string;
+  /** Name of the function or global secret holding the signing key */
+  secret: string;
+  /** Hash algorithm (default: "sha256") */
+  algorithm?: SignatureAlgorithm;
+  /** Signature encoding (default: "hex") */
+  encoding?: SignatureEncoding;
+  /** Text before the signature in the header (e.g. "sha256=", "v0=") */
+  prefix?: string;
+  /**
+   * What is signed - "{body}" is replaced with the raw request body and
+   * "{timestamp}" with the request timestamp (default: "{body}")
+   */
+  payload?: string;
+  /** Header carrying the request time in Unix seconds (required when the payload contains "{timestamp}") */
+  timestampHeader?: string;
+  /** Text before the timestamp in its header (e.g. "t=") */
+  timestampPrefix?: string;
+  /** Maximum difference between the request timestamp and the server clock in seconds (default: 300) */
+  toleranceSeconds?: number;
+}
+
+/** JWS algorithms accepted for JWT bearer tokens */
+export type JwtAlgorithm =
+  | "RS256" | "RS384" | "RS512"
+  | "PS256" | "PS384" | "PS512"
+  | "ES256" | "ES384" | "ES512"
+  | "EdDSA";
+
+/** Value a required JWT claim must have */
+export type JwtClaimValue = string | number | boolean;
+
+/** Verified claims of a JWT bearer token */
+export type JwtClaims = Record<string, unknown>;
+
+/**
+ * JWT bearer token authentication for a function.
+ * Requests with "Authorization: Bearer <jwt>" are accepted if the token is
+ * signed by one of the issuer's keys and its claims match. On functions that
+ * also require API keys, either credential is accepted.
+ *
+ * Keys come from a JWKS endpoint (cached, refetched for unknown key IDs) or a
+ * static public key - exactly one of jwksUrl and publicKey is set.
+ */
+export interface JwtAuthConfig {
+  /** Expected "iss" claim */
+  issuer: string;
+  /** Value the "aud" claim must be or contain (not checked if omitted) */
+  audience?: string;
+  /** URL of the issuer's JSON Web Key Set */
+  jwksUrl?: string;
+  /** Static public key - PEM ("BEGIN PUBLIC KEY"), a JWK or a JWK set as JSON */
+  publicKey?: string;
+  /** Accepted signing algorithms (default: all supported) */
+  algorithms?: JwtAlgorithm[];
+  /**
+   * Claims that must have the given value. Array claims (e.g. "groups")
+   * must contain it, "scope" strings must contain it as one of their words.
+   */
+  requiredClaims?: Record<string, JwtClaimValue>;
+  /** Allowed clock difference for the exp and nbf claims in seconds (default: 60) */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Client IP restrictions of a function or an API key group.
+ * Entries are IPv4/IPv6 addresses or CIDR ranges ("203.0.113.0/24", "2001:db8::/32").
+ * Denied addresses are rejected even if they're also allowed.
+ */
+export interface IpAccessConfig {
+  /** Only these addresses are accepted (every address if omitted) */
+  allow?: string[];
+  /** These addresses are rejected */
+  deny?: string[];
+}
+
+/**
+ * How a function invocation was triggered.
+ * - http: Incoming HTTP request
+ * - scheduled: Cron schedule configured on the function
+ * - async: HTTP request accepted for asynchronous execution, run as a job
+ * - invoke: Another function calling this one via ctx.invoke()
+ * - alert: Notification of an alert rule with the function channel
+ */
+export type InvocationTrigger = "http" | "scheduled" | "async" | "invoke" | "alert";
+
+/**
+ * Request options for ctx.invoke() - a standard RequestInit plus the path to call.
+ */
+export interface FunctionInvokeInit extends RequestInit {
+  /**
+   * Request path including any query string (e.g. "/users/42?full=1").
+   * Required for routes with parameters; defaults to the target's route.
+   */
+  path?: string;
+}
+
 /**
  * Metadata about the matched route
  */
@@ -49,10 +196,40 @@ export interface FunctionContext {
   query: Record<string, string>;
   /** The validated API key group that was used (if authentication required) */
   authenticatedKeyGroup?: string;
+  /** Claims of the verified JWT bearer token (if the request authenticated with one) */
+  jwtClaims?: JwtClaims;
   /** Request timestamp */
   requestedAt: Date;
   /** Unique request ID for tracing */
   requestId: string;
+  /** What triggered this invocation ("http", "scheduled", "async", "invoke" or "alert") */
+  trigger: InvocationTrigger;
+  /**
+   * Aborted when the handler exceeds its execution timeout.
+   * Pass it to fetch() or check it in long loops to stop work early.
+   */
+  signal: AbortSignal;
+  /**
+   * Key-value store scoped to this function - state that persists between invocations.
+   * Values must be JSON-serializable.
+   */
+  kv: FunctionKv;
+  /**
+   * Structured logger - entries are stored with typed key/value fields
+   * that can be filtered on in the logs API (e.g. field.userId=42).
+   */
+  log: FunctionLogger;
+
+  /**
+   * Invoke another function by name, in-process, and return its response.
+   * The call runs with this invocation's API key identity and is logged as a
+   * child of this request. Nesting is limited by the max invoke depth setting.
+   * @param functionName - Name of the function to call
+   * @param init - Request options; the method defaults to the target's first method
+   * @throws InvokeTargetNotFoundError if the function doesn't exist or is disabled
+   * @throws InvokeDepthExceededError if the call chain is too deep
+   */
+  invoke(functionName: string, init?: FunctionInvokeInit): Promise<Response>;
 
   /**
    * Get a secret value by name with hierarchical resolution
@@ -0,0 +1,398 @@
+import { dirname, isAbsolute, resolve } from "@std/path";
+import type { ConsoleLogService } from "../logs/console_log_service.ts";
+import type { ConsoleLogLevel, LogFields, RequestContext } from "../logs/types.ts";
+import type { OutboundCall } from "../outbound/types.ts";
+import type { HandlerLoader } from "./handler_loader.ts";
+import type { FunctionContext, WorkerPermissions } from "./types.ts";
+import type { FunctionKv } from "../kv/types.ts";
+import {
+  HandlerExportError,
+  HandlerLoadError,
+  HandlerSyntaxError,
+} from "./errors.ts";
+
+// ============== Worker message protocol ==============
+
+/** Serializable part of FunctionContext sent to the worker (accessors and signal are recreated there) */
+export type WorkerFunctionContext = Omit<
+  FunctionContext,
+  "signal" | "kv" | "log" | "invoke" | "getSecret" | "getCompleteSecret"
+>;
+
+/** ctx.kv methods the worker may call through the main thread */
+export type WorkerKvMethod = keyof FunctionKv;
+
+const WORKER_KV_METHODS: readonly WorkerKvMethod[] = ["get", "set", "delete", "list", "compareAndSet"];
+
+/**
+ * Log levels a worker may produce: console methods and its output streams.
+ * Execution events and outbound calls are logged by the main thread only,
+ * so other levels are stored as "log" instead of passing as one of them.
+ */
+const WORKER_LOG_LEVELS: readonly ConsoleLogLevel[] = [
+  "log", "debug", "info", "warn", "error", "trace", "stdout", "stderr",
+];
+
+/** Request of a ctx.invoke() call made in the worker (the body is buffered) */
+export interface WorkerCallRequest {
+  method?: string;
+  path?: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+}
+
+/** Response of a ctx.invoke() call made in the worker (the body is buffered) */
+export interface WorkerCallResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+}
+
+/** Main thread -> worker: run the handler for one request */
+export interface WorkerInvokeMessage {
+  type: "invoke";
+  /** file:// URL of the handler module (with cache-busting query) */
+  handlerUrl: string;
+  /** Route pattern, so c.req.param() resolves inside the worker */
+  routePath: string;
+  /** Hosts the handler may call via fetch() (undefined = no restriction) */
+  allowedHosts?: string[];
+  request: {
+    method: string;
+    url: string;
+    headers: [string, string][];
+    body: ArrayBuffer | null;
+  };
+  context: WorkerFunctionContext;
+}
+
+/** Main thread -> worker: result of a proxied ctx.getSecret()/ctx.getCompleteSecret()/ctx.kv/ctx.invoke() call */
+export interface WorkerResultMessage {
+  type: "result";
+  id: number;
+  value?: unknown;
+  error?: string;
+}
+
+export type WorkerInboundMessage = WorkerInvokeMessage | WorkerResultMessage;
+
+/** Worker -> main thread messages */
+export type WorkerOutboundMessage =
+  | { type: "log"; level: ConsoleLogLevel; message: string; args?: string; fields?: LogFields }
+  | { type: "outbound"; call: OutboundCall }
+  | {
+    type: "secret";
+    id: number;
+    name: string;
+    scope?: "global" | "function" | "group" | "key";
+    complete: boolean;
+  }
+  | { type: "kv"; id: number; method: WorkerKvMethod; args: unknown[] }
+  | { type: "call"; id: number; functionName: string; request: WorkerCallRequest }
+  | { type: "response"; status: number; statusText: string; headers: [string, string][]; hasBody: boolean }
+  | { type: "chunk"; data: Uint8Array }
+  | { type: "end" }
+  | {
+    type: "error";
+    kind: "export" | "syntax" | "load" | "execution";
+    name: string;
+    message: string;
+    stack?: string;
+  };
+
+/**
+ * Hosts remote modules may be imported from inside a worker.
+ * Matches Deno's default import allowlist.
+ */
+const WORKER_IMPORT_HOSTS = [
+  "deno.land:443",
+  "jsr.io:443",
+  "esm.sh:443",
+  "cdn.jsdelivr.net:443",
+  "raw.githubusercontent.com:443",
+  "gist.githubusercontent.com:443",
+];
+
+export interface WorkerExecutorOptions {
+  handlerLoader: HandlerLoader;
+  consoleLogService: ConsoleLogService;
+}
+
+export interface WorkerExecution {
+  /** The function's worker permission set */
+  permissions: WorkerPermissions;
+  /** Raw request passed to the handler */
+  request: Request;
+  /** Context of the invocation - secret accessors are proxied to the worker */
+  ctx: FunctionContext;
+  /** Request context used to attribute captured console output */
+  requestContext: RequestContext;
+}
+
+/**
+ * Runs function handlers inside dedicated Deno Workers.
+ *
+ * Each invocation gets a fresh worker restricted to the function's permission set.
+ * The request is marshalled into the worker, console output, ctx.log entries, fetch() calls,
+ * secret lookups and ctx.kv/ctx.invoke() calls are
+ * proxied back to the main thread, and the response body is streamed out chunk by chunk.
+ * The worker is terminated once the response completes or the invocation is aborted
+ * (e.g. on timeout), so a runaway handler cannot outlive its request.
+ */
+export class WorkerExecutor {
+  private readonly handlerLoader: HandlerLoader;
+  private readonly consoleLogService: ConsoleLogService;
+
+  constructor(options: WorkerExecutorOptions) {
+    this.handlerLoader = options.handlerLoader;
+    this.consoleLogService = options.consoleLogService;
+  }
+
+  /**
+   * Run the handler in a worker and return its response.
+   * Rejects with HandlerNotFoundError/HandlerExportError/HandlerSyntaxError/HandlerLoadError
+   * for load failures, and with the handler's error for execution failures.
+   */
+  async execute(execution: WorkerExecution): Promise<Response> {
+    const { ctx, request, requestContext } = execution;
+    const handlerPath = ctx.route.handler;
+
+    // Path checks run in the main thread - the worker never sees unvalidated paths
+    const { filePath, fileModTime } = await this.handlerLoader.resolve(handlerPath);
+    const body = request.body ? await request.arrayBuffer() : null;
+
+    const worker = new Worker(new URL("./handler_worker.ts", import.meta.url).href, {
+      type: "module",
+      name: `function:${ctx.route.name}`,
+      deno: { permissions: this.buildPermissions(execution.permissions, filePath) },
+    });
+
+    return await new Promise<Response>((resolvePromise, rejectPromise) => {
+      let settled = false;
+      let bodyController: ReadableStreamDefaultController<Uint8Array> | undefined;
+
+      const cleanup = () => {
+        worker.terminate();
+        ctx.signal.removeEventListener("abort", onAbort);
+      };
+
+      const fail = (error: unknown) => {
+        cleanup();
+        if (!settled) {
+          settled = true;
+          rejectPromise(error);
+        } else {
+          bodyController?.error(error);
+        }
+      };
+
+      const onAbort = () => fail(ctx.signal.reason);
+      ctx.signal.addEventListener("abort", onAbort);
+
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(new Error(event.message || "Worker crashed"));
+      };
+
+      worker.onmessage = (event: MessageEvent<WorkerOutboundMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "log":
+            this.consoleLogService.store({
+              requestId: requestContext.requestId,
+              functionId: requestContext.functionId,
+              level: WORKER_LOG_LEVELS.includes(message.level) ? message.level : "log",
+              message: message.message,
+              args: message.args,
+              fields: message.fields,
+            }, requestContext);
+            break;
+
+          case "outbound":
+            requestContext.outbound?.record(message.call);
+            break;
+
+          case "secret":
+            this.reply(
+              worker,
+              message.id,
+              message.complete
+                ? ctx.getCompleteSecret(message.name)
+                : ctx.getSecret(message.name, message.scope),
+            );
+            break;
+
+          case "kv":
+            this.reply(worker, message.id, this.callKv(ctx.kv, message));
+            break;
+
+          case "call":
+            this.reply(worker, message.id, this.callFunction(ctx, message));
+            break;
+
+          case "response": {
+            settled = true;
+            const stream = message.hasBody
+              ? new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                  bodyController = controller;
+                },
+                cancel: () => cleanup(),
+              })
+              : null;
+            resolvePromise(
+              new Response(stream, {
+                status: message.status,
+                statusText: message.statusText,
+                headers: message.headers,
+              }),
+            );
+            break;
+          }
+
+          case "chunk":
+            bodyController?.enqueue(message.data);
+            break;
+
+          case "end":
+            bodyController?.close();
+            cleanup();
+            break;
+
+          case "error":
+            fail(this.toHandlerError(handlerPath, message));
+            break;
+        }
+      };
+
+      const invoke: WorkerInvokeMessage = {
+        type: "invoke",
+        handlerUrl: `file://${filePath}?v=${fileModTime}`,
+        routePath: ctx.route.route,
+        allowedHosts: requestContext.outbound?.allowedHosts,
+        request: {
+          method: request.method,
+          url: request.url,
+          headers: [...request.headers.entries()],
+          body,
+        },
+        context: {
+          route: ctx.route,
+          params: ctx.params,
+          query: ctx.query,
+          authenticatedKeyGroup: ctx.authenticatedKeyGroup,
+          jwtClaims: ctx.jwtClaims,
+          requestedAt: ctx.requestedAt,
+          requestId: ctx.requestId,
+          trigger: ctx.trigger,
+        },
+      };
+      worker.postMessage(invoke, body ? [body] : []);
+    });
+  }
+
+  /**
+   * Build Deno worker permissions from the function's permission set.
+   * Everything not granted is denied, including subprocesses, FFI and system info.
+   */
+  private buildPermissions(
+    permissions: WorkerPermissions,
+    handlerFile: string,
+  ): Deno.PermissionOptionsObject {
+    const toPaths = (paths: string[] | undefined) =>
+      (paths ?? []).map((path) =>
+        isAbsolute(path) ? path : resolve(this.handlerLoader.baseDirectory, path)
+      );
+    const orDeny = <T>(list: T[]) => list.length > 0 ? list : false;
+
+    return {
+      // The handler's directory is readable so it can import its sibling modules
+      read: [dirname(handlerFile), ...toPaths(permissions.read)],
+      write: orDeny(toPaths(permissions.write)),
+      net: orDeny(permissions.net ?? []),
+      env: orDeny(permissions.env ?? []),
+      import: WORKER_IMPORT_HOSTS,
+      run: false,
+      ffi: false,
+      sys: false,
+    };
+  }
+
+  /**
+   * Run a ctx.kv call requested by the worker against the invocation's store.
+   */
+  private callKv(
+    kv: FunctionKv,
+    request: Extract<WorkerOutboundMessage, { type: "kv" }>,
+  ): Promise<unknown> {
+    if (!WORKER_KV_METHODS.includes(request.method)) {
+      return Promise.reject(new Error(`Unknown ctx.kv method: ${request.method}`));
+    }
+    const method = kv[request.method] as (...args: unknown[]) => Promise<unknown>;
+    return method(...request.args);
+  }
+
+  /**
+   * Run a ctx.invoke() call requested by the worker and buffer the response for transfer.
+   */
+  private async callFunction(
+    ctx: FunctionContext,
+    message: Extract<WorkerOutboundMessage, { type: "call" }>,
+  ): Promise<WorkerCallResponse> {
+    const { method, path, headers, body } = message.request;
+    const response = await ctx.invoke(message.functionName, { method, path, headers, body });
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers.entries()],
+      body: response.body ? await response.arrayBuffer() : null,
+    };
+  }
+
+  /**
+   * Send the outcome of a proxied call back to the worker.
+   */
+  private reply(worker: Worker, id: number, result: Promise<unknown>): void {
+    result
+      .then((value) => {
+        const reply: WorkerResultMessage = { type: "result", id, value };
+        worker.postMessage(reply);
+      })
+      .catch((error) => {
+        const reply: WorkerResultMessage = {
+          type: "result",
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        };
+        worker.postMessage(reply);
+      });
+  }
+
+  /**
+   * Rebuild a handler error reported by the worker as the matching error class.
+   */
+  private toHandlerError(
+    handlerPath: string,
+    message: Extract<WorkerOutboundMessage, { type: "error" }>,
+  ): Error {
+    const original = message.kind === "syntax"
+      ? new SyntaxError(message.message)
+      : new Error(message.message);
+    original.name = message.name;
+    if (message.stack) {
+      original.stack = message.stack;
+    }
+
+    switch (message.kind) {
+      case "export":
+        return new HandlerExportError(handlerPath);
+      case "syntax":
+        return new HandlerSyntaxError(handlerPath, original as SyntaxError);
+      case "load":
+        return new HandlerLoadError(handlerPath, original);
+      default:
+        return original;
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { RecordId } from "surrealdb";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import type { JobQueueService } from "../jobs/job_queue_service.ts";
+import type { Job, JobCompletionEvent } from "../jobs/types.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { IEncryptionService } from "../encryption/types.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
+import { recordIdToString, toDate } from "../database/surreal_helpers.ts";
+import { base64ToBytes, bytesToBase64 } from "../encryption/utils.ts";
+import { isTextContentType } from "../files/content_type.ts";
+import type { JwtClaims } from "../functions/types.ts";
+import {
+  ASYNC_INVOCATION_JOB_TYPE,
+  type AsyncInvocationPayload,
+  type AsyncInvocationRequest,
+  type AsyncInvocationRow,
+  type AsyncInvocationState,
+  type AsyncInvocationStatus,
+  type StoredResponse,
+} from "./types.ts";
+
+/** Maximum size of request and stored response bodies (1 MiB) */
+export const MAX_ASYNC_BODY_BYTES = 1024 * 1024;
+
+export interface AsyncInvocationServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+  jobQueueService: JobQueueService;
+  /** Optional - when provided, result retention is read from settings */
+  settingsService?: SettingsService;
+  /** Optional - when provided, captured requests are encrypted in job payloads */
+  encryptionService?: IEncryptionService;
+}
+
+/**
+ * Service for asynchronous function invocations.
+ *
+ * An invocation is a job in the job queue while it is pending or running.
+ * Jobs are deleted once they finish, so the handler's response is stored in
+ * the asyncInvocation table (keyed by the job ID) where callers can poll it
+ * until it is purged after the retention period. Jobs that end without a
+ * stored result (cancelled, or failed before the handler's response was
+ * stored) get a "failed" result with the reason.
+ *
+ * ID Handling: Invocations are identified by the string ID part of their job's RecordId.
+ */
+export class AsyncInvocationService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+  private readonly jobQueueService: JobQueueService;
+  private readonly settingsService?: SettingsService;
+  private readonly encryptionService?: IEncryptionService;
+
+  constructor(options: AsyncInvocationServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+    this.jobQueueService = options.jobQueueService;
+    this.settingsService = options.settingsService;
+    this.encryptionService = options.encryptionService;
+
+    this.jobQueueService.subscribeToTypeCompletion(
+      ASYNC_INVOCATION_JOB_TYPE,
+      (event) => this.handleJobCompletion(event),
+    );
+  }
+
+  /**
+   * Enqueue an invocation.
+   * @returns The job ID callers use to poll for the result
+   */
+  async enqueue(request: AsyncInvocationRequest): Promise<string> {
+    const sealed = JSON.stringify({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body !== undefined ? bytesToBase64(request.body) : undefined,
+      jwtClaims: request.jwtClaims,
+    });
+
+    const payload: AsyncInvocationPayload = {
+      functionId: request.functionId,
+      request: this.encryptionService ? await this.encryptionService.encrypt(sealed) : sealed,
+      authenticatedKeyGroup: request.authenticatedKeyGroup,
+      keyGroupId: request.keyGroupId,
+      keyId: request.keyId,
+    };
+
+    const job = await this.jobQueueService.enqueue({
+      type: ASYNC_INVOCATION_JOB_TYPE,
+      payload,
+      // A crashed invocation isn't replayed - handlers may not be idempotent
+      maxRetries: 0,
+      referenceType: "functionDef",
+      referenceId: request.functionId,
+      executionMode: "concurrent",
+    });
+    return recordIdToString(job.id);
+  }
+
+  /**
+   * Restore the captured request from an invocation job.
+   */
+  async getRequest(job: Job): Promise<AsyncInvocationRequest> {
+    const payload = job.payload as AsyncInvocationPayload;
+    const sealed = this.encryptionService
+      ? await this.encryptionService.decrypt(payload.request)
+      : payload.request;
+    const { method, url, headers, body, jwtClaims } = JSON.parse(sealed) as {
+      method: string;
+      url: string;
+      headers: [string, string][];
+      body?: string;
+      jwtClaims?: JwtClaims;
+    };
+
+    return {
+      functionId: payload.functionId,
+      method,
+      url,
+      headers,
+      body: body !== undefined ? base64ToBytes(body) : undefined,
+      authenticatedKeyGroup: payload.authenticatedKeyGroup,
+      keyGroupId: payload.keyGroupId,
+      keyId: payload.keyId,
+      jwtClaims,
+    };
+  }
+
+  /**
+   * Get the status of an invocation.
+   * @returns null if the job doesn't exist, isn't an invocation, or its result was purged
+   */
+  async getStatus(jobId: string): Promise<AsyncInvocationStatus | null> {
+    const row = await this.getResultRow(jobId);
+
+    if (row) {
+      return {
+        jobId,
+        functionId: recordIdToString(row.functionId),
+        status: row.status,
+        createdAt: toDate(row.createdAt),
+        startedAt: row.startedAt ? toDate(row.startedAt) : null,
+        completedAt: toDate(row.completedAt),
+        response: row.response ? JSON.parse(row.response) as StoredResponse : undefined,
+        error: row.error,
+      };
+    }
+
+    // No result yet - the invocation is still in the queue
+    const job = await this.jobQueueService.getJob(new RecordId("job", jobId));
+    if (!job || job.type !== ASYNC_INVOCATION_JOB_TYPE) {
+      return null;
+    }
+
+    const payload = job.payload as AsyncInvocationPayload | null;
+    return {
+      jobId,
+      functionId: payload?.functionId ?? job.referenceId ?? "",
+      status: job.status === "running" ? "running" : "pending",
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: null,
+    };
+  }
+
+  /**
+   * Store the handler's response for an invocation job.
+   * Must be called before the job completes (which deletes it).
+   */
+  async storeResponse(job: Job, response: Response): Promise<StoredResponse> {
+    const stored = await serializeResponse(response);
+    await this.storeResult(job, "completed", { response: JSON.stringify(stored) });
+    return stored;
+  }
+
+  /**
+   * Store the failure of an invocation job that produced no response.
+   */
+  async storeFailure(job: Job, error: string): Promise<void> {
+    await this.storeResult(job, "failed", { error });
+  }
+
+  /**
+   * Delete stored results older than the retention period.
+   * @returns Number of deleted results
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoffDate = new Date(Date.now() - (await this.getRetentionSeconds()) * 1000);
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[AsyncInvocationRow[]]>(
+        `DELETE asyncInvocation WHERE completedAt < $cutoffDate RETURN BEFORE`,
+        { cutoffDate },
+      );
+      return rows?.length ?? 0;
+    });
+  }
+
+  // ============== Helper Methods ==============
+
+  /**
+   * Store a failure for invocation jobs that ended without a result - the
+   * handler path stores its own response (or failure) before the job completes.
+   */
+  private async handleJobCompletion(event: JobCompletionEvent): Promise<void> {
+    if (event.type === "completed") return;
+    if (await this.getResultRow(recordIdToString(event.job.id))) return;
+
+    const { job } = event;
+    const error = event.type === "cancelled"
+      ? `Cancelled${job.cancelReason ? `: ${job.cancelReason}` : ""}`
+      : (job.result as { message?: string } | undefined)?.message ?? "Job failed";
+    await this.storeFailure(job, error);
+  }
+
+  private async getResultRow(jobId: string): Promise<AsyncInvocationRow | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[AsyncInvocationRow[]]>(
+        `SELECT * FROM $id`,
+        { id: new RecordId("asyncInvocation", jobId) },
+      );
+      return rows?.[0] ?? null;
+    });
+  }
+
+  private async storeResult(
+    job: Job,
+    status: Exclude<AsyncInvocationState, "pending" | "running">,
+    fields: { response?: string; error?: string },
+  ): Promise<void> {
+    const payload = job.payload as AsyncInvocationPayload;
+    await this.surrealFactory.withSystemConnection({}, async (db) => {
+      await db.query(
+        `UPSERT $id SET
+          functionId = $functionId,
+          status = $status,
+          response = $response,
+          error = $error,
+          createdAt = $createdAt,
+          startedAt = $startedAt,
+          completedAt = time::now()`,
+        {
+          id: new RecordId("asyncInvocation", recordIdToString(job.id)),
+          functionId: new RecordId("functionDef", payload.functionId),
+          status,
+          response: fields.response,
+          error: fields.error,
+          createdAt: job.createdAt,
+          startedAt: job.startedAt ?? undefined,
+        },
+      );
+    });
+  }
+
+  private async getRetentionSeconds(): Promise<number> {
+    const fallback = parseInt(
+      GlobalSettingDefaults[SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS],
+      10,
+    );
+    if (!this.settingsService) return fallback;
+
+    const value = await this.settingsService.getGlobalSetting(
+      SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS,
+    );
+    const parsed = parseInt(value ?? "", 10);
+    return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+  }
+}
+
+/**
+ * Capture a handler response for storage.
+ * Textual bodies are stored as-is, anything else as base64.
+ */
+async function serializeResponse(response: Response): Promise<StoredResponse> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const bodyTruncated = bytes.length > MAX_ASYNC_BODY_BYTES;
+  const body = bodyTruncated ? bytes.subarray(0, MAX_ASYNC_BODY_BYTES) : bytes;
+
+  const contentType = (response.headers.get("content-type") ?? "").split(";")[0].trim();
+  const isText = contentType !== "" && isTextContentType(contentType);
+
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers),
+    body: isText ? new TextDecoder().decode(body) : bytesToBase64(body),
+    bodyEncoding: isText ? "utf8" : "base64",
+    bodyTruncated,
+  };
+}
@@ -0,0 +1,160 @@
+import { expect } from "@std/expect";
+import { RecordId } from "surrealdb";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { JobProcessorService } from "../jobs/job_processor_service.ts";
+import { ASYNC_INVOCATION_JOB_TYPE } from "./types.ts";
+import { AsyncInvocationService } from "./async_invocation_service.ts";
+
+integrationTest("AsyncInvocationService seals the captured request in the job payload", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withEncryption()
+    .withJobQueue()
+    .withFunction("/reports", "reports.ts", { name: "reports", methods: ["POST"] })
+    .build();
+  const functionId = ctx.functionIds.reports;
+  const service = new AsyncInvocationService({
+    surrealFactory: ctx.surrealFactory,
+    jobQueueService: ctx.jobQueueService,
+    encryptionService: ctx.encryptionService,
+  });
+  try {
+    const jobId = await service.enqueue({
+      functionId,
+      method: "POST",
+      url: "http://localhost/reports?api_key=secret123",
+      headers: [["x-api-key", "secret123"]],
+      body: new TextEncoder().encode("{}"),
+      keyGroupId: "group1",
+    });
+
+    const job = await ctx.jobQueueService.getJob(new RecordId("job", jobId));
+    expect(JSON.stringify(job!.payload)).not.toContain("secret123");
+
+    const request = await service.getRequest(job!);
+    expect(request.url).toBe("http://localhost/reports?api_key=secret123");
+    expect(request.headers).toEqual([["x-api-key", "secret123"]]);
+    expect(new TextDecoder().decode(request.body)).toBe("{}");
+    expect(request.keyGroupId).toBe("group1");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AsyncInvocationService reports queued, completed and unknown invocations", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withEncryption()
+    .withJobQueue()
+    .withFunction("/reports", "reports.ts", { name: "reports", methods: ["POST"] })
+    .build();
+  const functionId = ctx.functionIds.reports;
+  const service = new AsyncInvocationService({
+    surrealFactory: ctx.surrealFactory,
+    jobQueueService: ctx.jobQueueService,
+    encryptionService: ctx.encryptionService,
+  });
+  try {
+    const jobId = await service.enqueue({ functionId, method: "POST", url: "http://localhost/reports", headers: [] });
+    expect((await service.getStatus(jobId))?.status).toBe("pending");
+
+    const job = await ctx.jobQueueService.claimJob(new RecordId("job", jobId));
+    expect((await service.getStatus(jobId))?.status).toBe("running");
+
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    await service.storeResponse(job, new Response(png, { headers: { "Content-Type": "image/png" } }));
+    await ctx.jobQueueService.completeJob(job.id);
+
+    const status = await service.getStatus(jobId);
+    expect(status?.status).toBe("completed");
+    expect(status?.functionId).toBe(functionId);
+    expect(status?.response).toMatchObject({ status: 200, body: "iVBORw==", bodyEncoding: "base64" });
+
+    expect(await service.getStatus("unknown")).toBeNull();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AsyncInvocationService reports cancelled invocations as failed", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withEncryption()
+    .withJobQueue()
+    .withFunction("/reports", "reports.ts", { name: "reports", methods: ["POST"] })
+    .build();
+  const functionId = ctx.functionIds.reports;
+  const service = new AsyncInvocationService({
+    surrealFactory: ctx.surrealFactory,
+    jobQueueService: ctx.jobQueueService,
+    encryptionService: ctx.encryptionService,
+  });
+  try {
+    const jobId = await service.enqueue({ functionId, method: "POST", url: "http://localhost/reports", headers: [] });
+    await ctx.jobQueueService.cancelJob(new RecordId("job", jobId), { reason: "no longer needed" });
+
+    const status = await service.getStatus(jobId);
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toBe("Cancelled: no longer needed");
+    expect(status?.startedAt).toBeNull();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AsyncInvocationService reports invocations whose job threw as failed", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withEncryption()
+    .withJobQueue()
+    .withFunction("/reports", "reports.ts", { name: "reports", methods: ["POST"] })
+    .build();
+  const functionId = ctx.functionIds.reports;
+  const service = new AsyncInvocationService({
+    surrealFactory: ctx.surrealFactory,
+    jobQueueService: ctx.jobQueueService,
+    encryptionService: ctx.encryptionService,
+  });
+  const processor = new JobProcessorService({
+    jobQueueService: ctx.jobQueueService,
+    instanceIdService: ctx.instanceIdService,
+    config: { pollingIntervalSeconds: 60 },
+  });
+  try {
+    processor.registerHandler(ASYNC_INVOCATION_JOB_TYPE, () => {
+      throw new Error("storage unavailable");
+    });
+    const jobId = await service.enqueue({ functionId, method: "POST", url: "http://localhost/reports", headers: [] });
+    await processor.processOne();
+
+    const status = await service.getStatus(jobId);
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toBe("storage unavailable");
+    expect(status?.startedAt).toBeInstanceOf(Date);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("AsyncInvocationService results are removed with their function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withEncryption()
+    .withJobQueue()
+    .withFunction("/reports", "reports.ts", { name: "reports", methods: ["POST"] })
+    .build();
+  const functionId = ctx.functionIds.reports;
+  const service = new AsyncInvocationService({
+    surrealFactory: ctx.surrealFactory,
+    jobQueueService: ctx.jobQueueService,
+    encryptionService: ctx.encryptionService,
+  });
+  try {
+    const jobId = await service.enqueue({ functionId, method: "POST", url: "http://localhost/reports", headers: [] });
+    const job = await ctx.jobQueueService.claimJob(new RecordId("job", jobId));
+    await service.storeFailure(job, "boom");
+    await ctx.jobQueueService.failJob(job.id, { error: "boom" });
+
+    await ctx.functionsService.removeFunction("reports");
+
+    expect(await service.getStatus(jobId)).toBeNull();
+  } finally {
+    await ctx.cleanup();
+  }
+});
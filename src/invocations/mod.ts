@@ -0,0 +1,22 @@
+/**
+ * Invocations Module
+ *
+ * Asynchronous function invocations:
+ * - Requests with "Prefer: respond-async" or under /run-async are enqueued as jobs
+ * - Callers get 202 with a job ID and poll /run-status/:jobId
+ * - Handler responses are stored until the retention period expires
+ */
+
+// Service
+export { AsyncInvocationService, MAX_ASYNC_BODY_BYTES } from "./async_invocation_service.ts";
+export type { AsyncInvocationServiceOptions } from "./async_invocation_service.ts";
+
+// Types
+export { ASYNC_INVOCATION_JOB_TYPE } from "./types.ts";
+export type {
+  AsyncInvocationPayload,
+  AsyncInvocationRequest,
+  AsyncInvocationState,
+  AsyncInvocationStatus,
+  StoredResponse,
+} from "./types.ts";
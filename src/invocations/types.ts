@@ -0,0 +1,98 @@
+import type { RecordId } from "surrealdb";
+import type { JwtClaims } from "../functions/types.ts";
+
+/** Job type of asynchronous function invocations */
+export const ASYNC_INVOCATION_JOB_TYPE = "function_async";
+
+/**
+ * Request captured for asynchronous execution.
+ */
+export interface AsyncInvocationRequest {
+  /** The string ID part of the function's RecordId */
+  functionId: string;
+  /** HTTP method of the original request */
+  method: string;
+  /** Request URL with the /run prefix stripped (e.g. "http://host/reports/42?format=csv") */
+  url: string;
+  /** Request headers as [name, value] pairs */
+  headers: [string, string][];
+  /** Request body (undefined if the request had no body) */
+  body?: Uint8Array;
+  /** Caller identity from API key validation at accept time */
+  authenticatedKeyGroup?: string;
+  keyGroupId?: string;
+  keyId?: string;
+  /** Claims of the JWT the request authenticated with */
+  jwtClaims?: JwtClaims;
+}
+
+/**
+ * Payload of jobs enqueued by asynchronous invocations.
+ * URL, headers and body may carry credentials, so they are sealed into a
+ * single string that is encrypted when an encryption service is configured.
+ */
+export interface AsyncInvocationPayload {
+  functionId: string;
+  /** JSON of { method, url, headers, body (base64), jwtClaims }, possibly encrypted */
+  request: string;
+  authenticatedKeyGroup?: string;
+  keyGroupId?: string;
+  keyId?: string;
+}
+
+/**
+ * State of an asynchronous invocation.
+ * - pending: Job is queued
+ * - running: Job is executing the handler
+ * - completed: Handler produced a response (which may itself be an error status)
+ * - failed: Function could not be invoked (deleted, disabled, job cancelled or failed)
+ */
+export type AsyncInvocationState = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Response produced by the handler of an asynchronous invocation.
+ */
+export interface StoredResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Record<string, string>;
+  /** Response body - plain text for textual content types, base64 otherwise */
+  body: string;
+  bodyEncoding: "utf8" | "base64";
+  /** True if the body exceeded MAX_ASYNC_BODY_BYTES and was cut off */
+  bodyTruncated: boolean;
+}
+
+/**
+ * Status of an asynchronous invocation as returned to polling callers.
+ */
+export interface AsyncInvocationStatus {
+  /** Job ID returned by the 202 response */
+  jobId: string;
+  /** The string ID part of the function's RecordId */
+  functionId: string;
+  status: AsyncInvocationState;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  /** Handler response (completed invocations only) */
+  response?: StoredResponse;
+  /** Failure reason (failed invocations only) */
+  error?: string;
+}
+
+/**
+ * Database row type for stored invocation results (SurrealDB).
+ * Dates come as SurrealDB DateTime objects - use toDate() helper.
+ */
+export interface AsyncInvocationRow {
+  id: RecordId;
+  functionId: RecordId;
+  status: "completed" | "failed";
+  response?: string; // JSON StoredResponse
+  error?: string;
+  createdAt: unknown;
+  startedAt?: unknown;
+  completedAt: unknown;
+}
@@ -65,6 +65,8 @@ export class JobQueueService {
   private readonly completionSubscribers = new Map<string, JobCompletionSubscriber[]>();
   /** Per-job subscribers for cancellation request events - keyed by recordIdToString */
   private readonly cancellationSubscribers = new Map<string, JobCancellationSubscriber[]>();
+  /** Subscribers for completion events of every job of a type - keyed by job type */
+  private readonly typeCompletionSubscribers = new Map<string, JobCompletionSubscriber[]>();
 
   constructor(options: JobQueueServiceOptions) {
     this.surrealFactory = options.surrealFactory;
@@ -216,6 +218,23 @@ export class JobQueueService {
     return this.rowToJob(row);
   }
 
+  /**
+   * Get all jobs in the queue.
+   * Ordered by priority DESC, then createdAt ASC (FIFO within same priority).
+   *
+   * @returns Array of all jobs
+   */
+  async getJobs(): Promise<Job[]> {
+    const rows = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      return await db.query<[JobRow[]]>(
+        `SELECT * FROM job
+         ORDER BY priority DESC, createdAt ASC`,
+      );
+    });
+
+    return Promise.all((rows[0] ?? []).map((row) => this.rowToJob(row)));
+  }
+
   /**
    * Get all jobs with a specific status.
    * Ordered by priority DESC, then createdAt ASC (FIFO within same priority).
@@ -797,6 +816,34 @@ export class JobQueueService {
     };
   }
 
+  /**
+   * Subscribe to completion events for all jobs of a type.
+   * Unlike per-job subscriptions, this also covers jobs enqueued before a
+   * restart and jobs cancelled or failed without ever running.
+   *
+   * @param type - Job type to subscribe to
+   * @param subscriber - Callback function
+   * @returns Unsubscribe function
+   */
+  subscribeToTypeCompletion(type: string, subscriber: JobCompletionSubscriber): () => void {
+    const subscribers = this.typeCompletionSubscribers.get(type) ?? [];
+    subscribers.push(subscriber);
+    this.typeCompletionSubscribers.set(type, subscribers);
+
+    return () => {
+      const current = this.typeCompletionSubscribers.get(type);
+      if (current) {
+        const index = current.indexOf(subscriber);
+        if (index !== -1) {
+          current.splice(index, 1);
+        }
+        if (current.length === 0) {
+          this.typeCompletionSubscribers.delete(type);
+        }
+      }
+    };
+  }
+
   /**
    * Subscribe to cancellation request events for a specific job.
    * Subscriber will be called when cancelJob() is called on a running job.
@@ -867,7 +914,10 @@ export class JobQueueService {
    */
   private async notifyCompletionAndDelete(job: Job, type: JobCompletionType): Promise<void> {
     const key = recordIdToString(job.id);
-    const subscribers = this.completionSubscribers.get(key) ?? [];
+    const subscribers = [
+      ...(this.completionSubscribers.get(key) ?? []),
+      ...(this.typeCompletionSubscribers.get(job.type) ?? []),
+    ];
 
     // Notify all subscribers with full job data
     for (const subscriber of subscribers) {
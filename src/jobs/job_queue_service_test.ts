@@ -211,6 +211,20 @@ integrationTest("JobQueueService.enqueueIfNotExists returns null on duplicate",
 // Query Operations
 // =============================================================================
 
+integrationTest("JobQueueService.getJobs returns all jobs ordered by priority", async () => {
+  const ctx = await TestSetupBuilder.create().withJobQueue().build();
+
+  try {
+    await ctx.jobQueueService.enqueue({ type: "low", priority: 0 });
+    await ctx.jobQueueService.enqueue({ type: "high", priority: 10 });
+
+    const jobs = await ctx.jobQueueService.getJobs();
+    expect(jobs.map((j) => j.type)).toEqual(["high", "low"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 integrationTest("JobQueueService.getJobsByStatus returns jobs with matching status", async () => {
   const ctx = await TestSetupBuilder.create().withJobQueue().build();
 
@@ -0,0 +1,118 @@
+import { Hono } from "@hono/hono";
+import { RecordId } from "surrealdb";
+import type { JobQueueService } from "./job_queue_service.ts";
+import { JobNotCancellableError, JobNotFoundError } from "./errors.ts";
+import type { Job } from "./types.ts";
+import { isJobStatus } from "./types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateSurrealId } from "../validation/common.ts";
+
+/**
+ * Transform Job entity to API response format.
+ */
+function jobToResponse(job: Job) {
+  return {
+    id: recordIdToString(job.id),
+    type: job.type,
+    status: job.status,
+    executionMode: job.executionMode,
+    payload: job.payload,
+    result: job.result,
+    processInstanceId: job.processInstanceId,
+    retryCount: job.retryCount,
+    maxRetries: job.maxRetries,
+    priority: job.priority,
+    referenceType: job.referenceType,
+    referenceId: job.referenceId,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+    cancelledAt: job.cancelledAt?.toISOString() ?? null,
+    cancelReason: job.cancelReason,
+  };
+}
+
+/**
+ * Create routes for job queue inspection and cancellation.
+ * Mounted at /api/jobs
+ */
+export function createJobRoutes(jobQueueService: JobQueueService): Hono {
+  const routes = new Hono();
+
+  // GET /api/jobs - List jobs (optional ?status= and ?type= filters) with counts per status
+  routes.get("/", async (c) => {
+    const status = c.req.query("status");
+    const type = c.req.query("type");
+
+    if (status !== undefined && !isJobStatus(status)) {
+      return c.json(
+        { error: `Invalid status: ${status}. Must be one of pending, running, completed, failed, cancelled` },
+        400,
+      );
+    }
+
+    let jobs: Job[];
+    if (type) {
+      jobs = await jobQueueService.getJobsByType(type, status);
+    } else if (status) {
+      jobs = await jobQueueService.getJobsByStatus(status);
+    } else {
+      jobs = await jobQueueService.getJobs();
+    }
+    const counts = await jobQueueService.getJobCounts();
+
+    return c.json({
+      jobs: jobs.map(jobToResponse),
+      counts,
+    });
+  });
+
+  // GET /api/jobs/:id - Get job by ID
+  routes.get("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid job ID" }, 400);
+    }
+
+    const job = await jobQueueService.getJob(new RecordId("job", id));
+    if (!job) {
+      return c.json({ error: "Job not found" }, 404);
+    }
+
+    return c.json(jobToResponse(job));
+  });
+
+  // POST /api/jobs/:id/cancel - Cancel a pending or running job
+  routes.post("/:id/cancel", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid job ID" }, 400);
+    }
+
+    let body: { reason?: string } = {};
+    if (c.req.header("Content-Type")?.includes("application/json")) {
+      try {
+        body = await c.req.json();
+      } catch {
+        return c.json({ error: "Invalid JSON body" }, 400);
+      }
+    }
+
+    try {
+      const job = await jobQueueService.cancelJob(new RecordId("job", id), {
+        reason: body.reason,
+      });
+      return c.json(jobToResponse(job));
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error instanceof JobNotCancellableError) {
+        return c.json({ error: error.message }, 409);
+      }
+      throw error;
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,118 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { createJobRoutes } from "./job_routes.ts";
+
+/**
+ * Create a test app with job routes.
+ */
+async function createTestApp() {
+  const ctx = await TestSetupBuilder.create().withJobQueue().build();
+
+  const app = new Hono();
+  app.route("/api/jobs", createJobRoutes(ctx.jobQueueService));
+
+  return { app, ctx };
+}
+
+integrationTest("GET /api/jobs lists jobs with payload and counts", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await ctx.jobQueueService.enqueue({ type: "test-job", payload: { n: 1 } });
+    await ctx.jobQueueService.enqueue({ type: "other-job", payload: { n: 2 } });
+
+    const res = await app.request("/api/jobs");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.jobs.length).toBe(2);
+    expect(body.counts.pending).toBe(2);
+    expect(body.counts.running).toBe(0);
+
+    const job = body.jobs.find((j: { type: string }) => j.type === "test-job");
+    expect(job.payload).toEqual({ n: 1 });
+    expect(job.status).toBe("pending");
+    expect(typeof job.createdAt).toBe("string");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/jobs filters by type and status", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await ctx.jobQueueService.enqueue({ type: "test-job" });
+    await ctx.jobQueueService.enqueue({ type: "other-job" });
+
+    const byType = await (await app.request("/api/jobs?type=other-job")).json();
+    expect(byType.jobs.length).toBe(1);
+    expect(byType.jobs[0].type).toBe("other-job");
+
+    const byStatus = await (await app.request("/api/jobs?status=running")).json();
+    expect(byStatus.jobs).toEqual([]);
+
+    const invalid = await app.request("/api/jobs?status=bogus");
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/jobs/:id returns job or 404", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const job = await ctx.jobQueueService.enqueue({ type: "test-job", payload: { a: true } });
+    const id = recordIdToString(job.id);
+
+    const res = await app.request(`/api/jobs/${id}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.id).toBe(id);
+    expect(body.payload).toEqual({ a: true });
+
+    const missing = await app.request("/api/jobs/nonexistent");
+    expect(missing.status).toBe(404);
+
+    const invalid = await app.request("/api/jobs/bad:id");
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/jobs/:id/cancel cancels a pending job", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const job = await ctx.jobQueueService.enqueue({ type: "test-job" });
+    const id = recordIdToString(job.id);
+
+    const res = await app.request(`/api/jobs/${id}/cancel`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason: "no longer needed" }),
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.status).toBe("cancelled");
+    expect(body.cancelReason).toBe("no longer needed");
+
+    // Cancelled pending jobs are removed from the queue
+    const getRes = await app.request(`/api/jobs/${id}`);
+    expect(getRes.status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/jobs/:id/cancel returns 404 for unknown job", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await app.request("/api/jobs/nonexistent/cancel", { method: "POST" });
+    expect(res.status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -16,6 +16,14 @@ import type { EventBus } from "../events/mod.ts";
  */
 export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
 
+/**
+ * Type guard for JobStatus values.
+ * Used for runtime validation of query parameters.
+ */
+export function isJobStatus(status: string): status is JobStatus {
+  return ["pending", "running", "completed", "failed", "cancelled"].includes(status);
+}
+
 /**
  * Execution mode determines how reference uniqueness is handled.
  *
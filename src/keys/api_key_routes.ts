@@ -1,16 +1,18 @@
 import { Hono } from "@hono/hono";
 import type { RecordId } from "surrealdb";
-import { ApiKeyService, type ApiKeyGroup, type ApiKey } from "./api_key_service.ts";
+import {
+  ApiKeyService,
+  DEFAULT_ROTATION_GRACE_HOURS,
+  generateApiKeyValue,
+  getApiKeyStatus,
+  type ApiKeyGroup,
+  type ApiKey,
+} from "./api_key_service.ts";
+import { API_KEY_USAGE_RETENTION_DAYS, type ApiKeyUsageService } from "./api_key_usage_service.ts";
 import { validateKeyGroup, validateKeyName, validateKeyValue } from "../validation/keys.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
-
-/**
- * Generate a URL-safe base64-encoded UUID for API keys.
- */
-function generateApiKey(): string {
-  const uuid = crypto.randomUUID().replace(/-/g, "");
-  return btoa(uuid).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
-}
+import { validateIpAccessConfig } from "../validation/routes.ts";
+import type { IpAccessConfig } from "../functions/types.ts";
 
 /**
  * Validate a SurrealDB record ID (string).
@@ -20,6 +22,44 @@ function isValidSurrealId(id: string | undefined): id is string {
   return !!id && id.length > 0 && /^[a-zA-Z0-9_-]+$/.test(id);
 }
 
+/**
+ * Parse an expiresAt body field - an ISO 8601 date, or null for no expiry.
+ * Returns an error message if the value is not a valid date.
+ */
+function parseExpiresAt(value: unknown): { expiresAt?: Date | null; error?: string } {
+  if (value === undefined || value === null) {
+    return { expiresAt: value };
+  }
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    return { error: "Invalid expiresAt. Must be an ISO 8601 date or null." };
+  }
+  return { expiresAt: date };
+}
+
+/**
+ * Usage and expiry fields of a key in API responses.
+ */
+function normalizeKeyUsage(key: ApiKey): Record<string, unknown> {
+  return {
+    status: getApiKeyStatus(key),
+    enabled: key.enabled,
+    expiresAt: key.expiresAt?.toISOString() ?? null,
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    requestCount: key.requestCount,
+    createdAt: key.createdAt.toISOString(),
+    rotation: key.rotatedToId
+      ? {
+        successorId: recordIdToString(key.rotatedToId),
+        rotatedAt: key.rotatedAt?.toISOString() ?? null,
+        retiresAt: key.expiresAt?.toISOString() ?? null,
+        // Callers still sending the old value
+        usedSinceRotation: !!key.lastUsedAt && !!key.rotatedAt && key.lastUsedAt > key.rotatedAt,
+      }
+      : null,
+  };
+}
+
 /**
  * Convert ApiKeyGroup (internal with RecordId) to API response (strings).
  */
@@ -28,6 +68,7 @@ function normalizeGroup(group: ApiKeyGroup): Record<string, unknown> {
     id: recordIdToString(group.id),
     name: group.name,
     description: group.description ?? null,
+    ipAccess: group.ipAccess ?? null,
   };
 }
 
@@ -40,6 +81,7 @@ function normalizeKey(key: ApiKey): Record<string, unknown> {
     name: key.name,
     value: key.value,
     description: key.description ?? null,
+    ...normalizeKeyUsage(key),
   };
 }
 
@@ -52,6 +94,7 @@ function normalizeKeyWithGroup(key: ApiKey & { groupId: RecordId; groupName: str
     name: key.name,
     value: key.value,
     description: key.description ?? null,
+    ...normalizeKeyUsage(key),
     groupId: recordIdToString(key.groupId),
     groupName: key.groupName,
   };
@@ -72,7 +115,7 @@ export function createApiKeyGroupRoutes(service: ApiKeyService): Hono {
 
   // POST /api/key-groups - Create a new group
   routes.post("/", async (c) => {
-    let body: { name?: string; description?: string };
+    let body: { name?: string; description?: string; ipAccess?: unknown };
     try {
       body = await c.req.json();
     } catch {
@@ -88,13 +131,20 @@ export function createApiKeyGroupRoutes(service: ApiKeyService): Hono {
       return c.json({ error: "Invalid group name. Must be lowercase alphanumeric with dashes/underscores." }, 400);
     }
 
+    let ipAccess: IpAccessConfig | undefined;
+    try {
+      ipAccess = validateIpAccessConfig(body.ipAccess);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid IP access config" }, 400);
+    }
+
     // Check if group already exists
     const existing = await service.getGroupByName(name);
     if (existing) {
       return c.json({ error: `Group '${name}' already exists` }, 409);
     }
 
-    const recordId = await service.createGroup(name, body.description);
+    const recordId = await service.createGroup(name, body.description, ipAccess);
     return c.json({ id: recordIdToString(recordId), name }, 201);
   });
 
@@ -125,14 +175,24 @@ export function createApiKeyGroupRoutes(service: ApiKeyService): Hono {
       return c.json({ error: "Group not found" }, 404);
     }
 
-    let body: { description?: string };
+    let body: { description?: string; ipAccess?: unknown };
     try {
       body = await c.req.json();
     } catch {
       return c.json({ error: "Invalid JSON body" }, 400);
     }
 
-    await service.updateGroup(groupId, body.description ?? "");
+    // Omitted IP restrictions are kept, null removes them
+    let ipAccess = group.ipAccess;
+    if (body.ipAccess !== undefined) {
+      try {
+        ipAccess = validateIpAccessConfig(body.ipAccess);
+      } catch (error) {
+        return c.json({ error: error instanceof Error ? error.message : "Invalid IP access config" }, 400);
+      }
+    }
+
+    await service.updateGroup(groupId, body.description ?? "", ipAccess);
     return c.json({ success: true });
   });
 
@@ -171,8 +231,9 @@ export function createApiKeyGroupRoutes(service: ApiKeyService): Hono {
 /**
  * Create routes for API key management.
  * Mounted at /api/keys
+ * @param usageService - Optional - when provided, GET /api/keys/:keyId/usage returns per-day usage
  */
-export function createApiKeyRoutes(service: ApiKeyService): Hono {
+export function createApiKeyRoutes(service: ApiKeyService, usageService?: ApiKeyUsageService): Hono {
   const routes = new Hono();
 
   // GET /api/keys - List all keys (optional ?groupId= filter)
@@ -199,13 +260,18 @@ export function createApiKeyRoutes(service: ApiKeyService): Hono {
 
   // POST /api/keys - Create a new key
   routes.post("/", async (c) => {
-    let body: { groupId?: string; name?: string; value?: string; description?: string };
+    let body: { groupId?: string; name?: string; value?: string; description?: string; expiresAt?: string | null };
     try {
       body = await c.req.json();
     } catch {
       return c.json({ error: "Invalid JSON body" }, 400);
     }
 
+    const expiry = parseExpiresAt(body.expiresAt);
+    if (expiry.error) {
+      return c.json({ error: expiry.error }, 400);
+    }
+
     // Validate groupId
     if (body.groupId === undefined) {
       return c.json({ error: "Missing required field: groupId" }, 400);
@@ -233,14 +299,20 @@ export function createApiKeyRoutes(service: ApiKeyService): Hono {
     }
 
     // Auto-generate value if not provided
-    const value = body.value ?? generateApiKey();
+    const value = body.value ?? generateApiKeyValue();
 
     if (!validateKeyValue(value)) {
       return c.json({ error: "Invalid key value. Must be alphanumeric with dashes/underscores." }, 400);
     }
 
     try {
-      const keyRecordId = await service.addKeyToGroup(groupId, name, value, body.description);
+      const keyRecordId = await service.addKeyToGroup(
+        groupId,
+        name,
+        value,
+        body.description,
+        expiry.expiresAt ?? undefined
+      );
       // Return the key value (important when auto-generated)
       return c.json({ id: recordIdToString(keyRecordId), name, value }, 201);
     } catch (error) {
@@ -273,13 +345,22 @@ export function createApiKeyRoutes(service: ApiKeyService): Hono {
       return c.json({ error: "Invalid key ID" }, 400);
     }
 
-    let body: { name?: string; value?: string; description?: string };
+    let body: { name?: string; value?: string; description?: string; expiresAt?: string | null; enabled?: boolean };
     try {
       body = await c.req.json();
     } catch {
       return c.json({ error: "Invalid JSON body" }, 400);
     }
 
+    const expiry = parseExpiresAt(body.expiresAt);
+    if (expiry.error) {
+      return c.json({ error: expiry.error }, 400);
+    }
+
+    if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+      return c.json({ error: "Invalid enabled. Must be a boolean." }, 400);
+    }
+
     // Validate name format if provided
     if (body.name !== undefined) {
       const normalizedName = body.name.trim().toLowerCase();
@@ -295,7 +376,13 @@ export function createApiKeyRoutes(service: ApiKeyService): Hono {
     }
 
     try {
-      await service.updateKey(keyId, body);
+      await service.updateKey(keyId, {
+        name: body.name,
+        value: body.value,
+        description: body.description,
+        expiresAt: expiry.expiresAt,
+        enabled: body.enabled,
+      });
       return c.json({ success: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -310,6 +397,82 @@ export function createApiKeyRoutes(service: ApiKeyService): Hono {
     }
   });
 
+  // GET /api/keys/:keyId/usage - Requests per day (optional ?days=, default 30)
+  routes.get("/:keyId/usage", async (c) => {
+    const keyId = c.req.param("keyId");
+    if (!isValidSurrealId(keyId)) {
+      return c.json({ error: "Invalid key ID" }, 400);
+    }
+    if (!usageService) {
+      return c.json({ error: "Usage tracking is not available" }, 404);
+    }
+
+    const days = parseInt(c.req.query("days") ?? "30", 10);
+    if (isNaN(days) || days < 1 || days > API_KEY_USAGE_RETENTION_DAYS) {
+      return c.json({ error: `Invalid days parameter. Must be between 1 and ${API_KEY_USAGE_RETENTION_DAYS}.` }, 400);
+    }
+
+    const result = await service.getById(keyId);
+    if (!result) {
+      return c.json({ error: "Key not found" }, 404);
+    }
+
+    const usage = await usageService.getDailyUsage(keyId, days);
+    return c.json({
+      ...normalizeKeyUsage(result.key),
+      days: usage.map((entry) => ({ day: entry.day.toISOString().slice(0, 10), count: entry.count })),
+    });
+  });
+
+  // POST /api/keys/:keyId/rotate - Replace a key, keeping the old one valid for a grace period
+  routes.post("/:keyId/rotate", async (c) => {
+    const keyId = c.req.param("keyId");
+    if (!isValidSurrealId(keyId)) {
+      return c.json({ error: "Invalid key ID" }, 400);
+    }
+
+    let body: { graceHours?: number } = {};
+    if (c.req.header("Content-Type")?.includes("application/json")) {
+      try {
+        body = await c.req.json();
+      } catch {
+        return c.json({ error: "Invalid JSON body" }, 400);
+      }
+    }
+
+    const graceHours = body.graceHours ?? DEFAULT_ROTATION_GRACE_HOURS;
+    if (typeof graceHours !== "number") {
+      return c.json({ error: "Invalid graceHours. Must be a number." }, 400);
+    }
+
+    try {
+      const rotation = await service.rotateKey(keyId, graceHours);
+      return c.json({
+        id: recordIdToString(rotation.successorId),
+        name: rotation.name,
+        value: rotation.value,
+        retiringKey: {
+          id: keyId,
+          name: rotation.retiringName,
+          retiresAt: rotation.retiresAt.toISOString(),
+        },
+      }, 201);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("not found")) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message.includes("Invalid grace period")) {
+          return c.json({ error: error.message }, 400);
+        }
+        if (error.message.includes("already")) {
+          return c.json({ error: error.message }, 409);
+        }
+      }
+      throw error;
+    }
+  });
+
   // DELETE /api/keys/:keyId - Delete a key
   routes.delete("/:keyId", async (c) => {
     const keyId = c.req.param("keyId");
@@ -5,6 +5,7 @@ import { createApiKeyGroupRoutes, createApiKeyRoutes } from "./api_key_routes.ts
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import type { ApiKeysContext, BaseTestContext } from "../test/types.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
+import { ApiKeyUsageService } from "./api_key_usage_service.ts";
 
 /**
  * Creates a Hono app with both API key routes from a TestSetupBuilder context.
@@ -232,6 +233,51 @@ integrationTest("PUT /api/key-groups/:groupId updates group description", async
   }
 });
 
+integrationTest("PUT /api/key-groups/:groupId updates IP restrictions and keeps them when omitted", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeys()
+    .build();
+
+  try {
+    const app = createTestApp(ctx);
+    const createRes = await app.request("/api/key-groups", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "office", ipAccess: { allow: ["203.0.113.0/24"] } }),
+    });
+    expect(createRes.status).toBe(201);
+    const { id } = await createRes.json();
+
+    const getRes = await app.request(`/api/key-groups/${id}`);
+    expect((await getRes.json()).ipAccess).toEqual({ allow: ["203.0.113.0/24"] });
+
+    // Updating only the description keeps the restrictions
+    await app.request(`/api/key-groups/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ description: "Office network" }),
+    });
+    expect((await ctx.apiKeyService.getGroupById(id))!.ipAccess).toEqual({ allow: ["203.0.113.0/24"] });
+
+    const invalidRes = await app.request(`/api/key-groups/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ipAccess: { deny: ["10.0.0.0/33"] } }),
+    });
+    expect(invalidRes.status).toBe(400);
+    expect((await invalidRes.json()).error).toContain("10.0.0.0/33");
+
+    await app.request(`/api/key-groups/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ipAccess: null }),
+    });
+    expect((await ctx.apiKeyService.getGroupById(id))!.ipAccess).toBeUndefined();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 integrationTest("PUT /api/key-groups/:groupId returns 404 for nonexistent", async () => {
   const ctx = await TestSetupBuilder.create()
     .withApiKeys()
@@ -964,6 +1010,140 @@ integrationTest("PUT /api/keys/:keyId returns 404 for nonexistent ID", async ()
   }
 });
 
+integrationTest("PUT /api/keys/:keyId updates expiry and enabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "key-one")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    const app = createTestApp(ctx);
+    const put = (body: Record<string, unknown>) =>
+      app.request(`/api/keys/${keyId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    expect((await put({ expiresAt: "not-a-date" })).status).toBe(400);
+    expect((await put({ enabled: "no" })).status).toBe(400);
+
+    expect((await put({ expiresAt: "2020-01-01T00:00:00.000Z", enabled: false })).status).toBe(200);
+    let json = await (await app.request(`/api/keys/${keyId}`)).json();
+    expect(json.key.expiresAt).toBe("2020-01-01T00:00:00.000Z");
+    expect(json.key.enabled).toBe(false);
+    expect(json.key.status).toBe("expired");
+    expect(json.key.lastUsedAt).toBeNull();
+    expect(json.key.requestCount).toBe(0);
+
+    expect((await put({ expiresAt: null, enabled: true })).status).toBe(200);
+    json = await (await app.request(`/api/keys/${keyId}`)).json();
+    expect(json.key.expiresAt).toBeNull();
+    expect(json.key.status).toBe("active");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/keys/:keyId/usage returns requests per day", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "key-one")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    const usageService = new ApiKeyUsageService({ surrealFactory: ctx.surrealFactory });
+    usageService.record(keyId);
+    usageService.record(keyId);
+    await usageService.flush();
+
+    const app = new Hono();
+    app.route("/api/keys", createApiKeyRoutes(ctx.apiKeyService, usageService));
+
+    const res = await app.request(`/api/keys/${keyId}/usage?days=7`);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.requestCount).toBe(2);
+    expect(json.days.length).toBe(7);
+    expect(json.days[6]).toEqual({ day: new Date().toISOString().slice(0, 10), count: 2 });
+
+    expect((await app.request(`/api/keys/${keyId}/usage?days=0`)).status).toBe(400);
+    expect((await app.request("/api/keys/nonexistent-id/usage")).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// POST /api/keys/:keyId/rotate tests
+integrationTest("POST /api/keys/:keyId/rotate returns the new key and reports the old one", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const app = createTestApp(ctx);
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    const res = await app.request(`/api/keys/${keyId}/rotate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ graceHours: 48 }),
+    });
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.name).toBe("billing");
+    expect(json.value).not.toBe("old-value");
+    expect(json.retiringKey.id).toBe(keyId);
+    expect(json.retiringKey.name).toBe("billing-retiring");
+
+    const old = await (await app.request(`/api/keys/${keyId}`)).json();
+    expect(old.key.rotation.successorId).toBe(json.id);
+    expect(old.key.rotation.retiresAt).toBe(json.retiringKey.retiresAt);
+    expect(old.key.rotation.usedSinceRotation).toBe(false);
+
+    const successor = await (await app.request(`/api/keys/${json.id}`)).json();
+    expect(successor.key.rotation).toBeNull();
+
+    // A key is rotated only once
+    expect((await app.request(`/api/keys/${keyId}/rotate`, { method: "POST" })).status).toBe(409);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/keys/:keyId/rotate validates the grace period", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const app = createTestApp(ctx);
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    const rotate = (body: unknown) =>
+      app.request(`/api/keys/${keyId}/rotate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    expect((await rotate({ graceHours: "24" })).status).toBe(400);
+    expect((await rotate({ graceHours: 10000 })).status).toBe(400);
+    expect((await app.request("/api/keys/nonexistent-id/rotate", { method: "POST" })).status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 // DELETE /api/keys/:keyId tests
 integrationTest("DELETE /api/keys/:keyId removes key by ID", async () => {
   const ctx = await TestSetupBuilder.create()
@@ -4,6 +4,8 @@ import type { SurrealConnectionFactory } from "../database/surreal_connection_fa
 import type { IEncryptionService } from "../encryption/types.ts";
 import type { HashService } from "../encryption/hash_service.ts";
 import { validateKeyName } from "../validation/keys.ts";
+import { toDate } from "../database/surreal_helpers.ts";
+import type { IpAccessConfig } from "../functions/types.ts";
 
 /**
  * Represents an API key group.
@@ -16,6 +18,8 @@ export interface ApiKeyGroup {
   name: string;
   /** Optional description */
   description?: string;
+  /** Client IP restrictions of the group's keys (undefined = every address) */
+  ipAccess?: IpAccessConfig;
 }
 
 /**
@@ -31,6 +35,70 @@ export interface ApiKey {
   value: string;
   /** Optional description of the key's purpose */
   description?: string;
+  /** When the key stops authenticating requests (undefined = never expires) */
+  expiresAt?: Date;
+  /** Disabled keys are rejected like expired ones */
+  enabled: boolean;
+  /** When the key last authenticated a request (undefined = never used) */
+  lastUsedAt?: Date;
+  /** Number of requests the key authenticated */
+  requestCount: number;
+  /** When the key was created */
+  createdAt: Date;
+  /** Successor of a rotated key - set until the key is retired */
+  rotatedToId?: RecordId;
+  /** When the key was rotated */
+  rotatedAt?: Date;
+}
+
+/** Grace period of a rotation when none is given */
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+
+/** Longest grace period of a rotation (30 days) */
+export const MAX_ROTATION_GRACE_HOURS = 720;
+
+/**
+ * Result of rotating a key.
+ */
+export interface ApiKeyRotation {
+  /** The new key */
+  successorId: RecordId;
+  /** Name of the new key (the rotated key's name) */
+  name: string;
+  /** Value of the new key */
+  value: string;
+  /** Name the rotated key was renamed to */
+  retiringName: string;
+  /** When the rotated key stops working and is retired */
+  retiresAt: Date;
+}
+
+/**
+ * Generate a URL-safe base64-encoded UUID for API keys.
+ */
+export function generateApiKeyValue(): string {
+  const uuid = crypto.randomUUID().replace(/-/g, "");
+  return btoa(uuid).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+/**
+ * Whether a key authenticates requests.
+ * Expiry takes precedence - an expired key is reported as expired even when
+ * it's also disabled.
+ */
+export type ApiKeyStatus = "active" | "disabled" | "expired";
+
+/**
+ * Get the status of a key at the given time.
+ */
+export function getApiKeyStatus(
+  key: { enabled: boolean; expiresAt?: Date },
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (key.expiresAt && key.expiresAt.getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return key.enabled ? "active" : "disabled";
 }
 
 export interface ApiKeyServiceOptions {
@@ -47,6 +115,7 @@ interface ApiKeyGroupRow {
   id: RecordId;
   name: string;
   description: string | null;
+  ipAccess: IpAccessConfig | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -59,8 +128,45 @@ interface ApiKeyRow {
   value: string;
   valueHash: string;
   description: string | null;
-  createdAt: Date;
-  updatedAt: Date;
+  expiresAt?: unknown;
+  enabled: boolean;
+  lastUsedAt?: unknown;
+  requestCount: number;
+  rotatedToId?: RecordId;
+  rotatedAt?: unknown;
+  createdAt: unknown;
+  updatedAt: unknown;
+}
+
+/**
+ * Convert a group row to an ApiKeyGroup.
+ */
+function rowToGroup(row: ApiKeyGroupRow): ApiKeyGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    ipAccess: row.ipAccess ?? undefined,
+  };
+}
+
+/**
+ * Convert a key row to an ApiKey with its decrypted value.
+ */
+function rowToKey(row: ApiKeyRow, value: string): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    value,
+    description: row.description ?? undefined,
+    expiresAt: row.expiresAt ? toDate(row.expiresAt) : undefined,
+    enabled: row.enabled,
+    lastUsedAt: row.lastUsedAt ? toDate(row.lastUsedAt) : undefined,
+    requestCount: row.requestCount,
+    createdAt: toDate(row.createdAt),
+    rotatedToId: row.rotatedToId ?? undefined,
+    rotatedAt: row.rotatedAt ? toDate(row.rotatedAt) : undefined,
+  };
 }
 
 /**
@@ -111,11 +217,7 @@ export class ApiKeyService {
         "SELECT * FROM apiKeyGroup ORDER BY name"
       );
 
-      return (rows ?? []).map((row) => ({
-        id: row.id,
-        name: row.name,
-        description: row.description ?? undefined,
-      }));
+      return (rows ?? []).map(rowToGroup);
     });
   }
 
@@ -134,11 +236,7 @@ export class ApiKeyService {
       const row = rows?.[0];
       if (!row) return null;
 
-      return {
-        id: row.id,
-        name: row.name,
-        description: row.description ?? undefined,
-      };
+      return rowToGroup(row);
     });
   }
 
@@ -156,27 +254,24 @@ export class ApiKeyService {
 
       if (!row) return null;
 
-      return {
-        id: row.id,
-        name: row.name,
-        description: row.description ?? undefined,
-      };
+      return rowToGroup(row);
     });
   }
 
   /**
    * Create a new group.
+   * @param ipAccess - Optional client IP restrictions of the group's keys
    * @returns RecordId of the created group
    */
-  async createGroup(name: string, description?: string): Promise<RecordId> {
+  async createGroup(name: string, description?: string, ipAccess?: IpAccessConfig): Promise<RecordId> {
     using _lock = await this.writeMutex.acquire();
 
     const normalizedName = name.toLowerCase();
 
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ApiKeyGroupRow[]]>(
-        "CREATE apiKeyGroup SET name = $name, description = $description",
-        { name: normalizedName, description }
+        "CREATE apiKeyGroup SET name = $name, description = $description, ipAccess = $ipAccess",
+        { name: normalizedName, description, ipAccess }
       );
 
       const row = rows?.[0];
@@ -189,17 +284,18 @@ export class ApiKeyService {
   }
 
   /**
-   * Update a group's description.
+   * Update a group's description and client IP restrictions.
+   * @param ipAccess - Client IP restrictions of the group's keys (undefined removes them)
    */
-  async updateGroup(id: string, description: string): Promise<void> {
+  async updateGroup(id: string, description: string, ipAccess?: IpAccessConfig): Promise<void> {
     using _lock = await this.writeMutex.acquire();
 
     const recordId = new RecordId("apiKeyGroup", id);
 
     await this.surrealFactory.withSystemConnection({}, async (db) => {
       await db.query(
-        "UPDATE $recordId SET description = $description",
-        { recordId, description }
+        "UPDATE $recordId SET description = $description, ipAccess = $ipAccess",
+        { recordId, description, ipAccess }
       );
     });
   }
@@ -275,11 +371,8 @@ export class ApiKeyService {
     // Decrypt all keys in parallel
     const decryptedRows = await Promise.all(
       rows.map(async (row) => ({
-        id: row.id,
         groupName: row.groupName,
-        name: row.name,
-        value: await this.decryptKey(row.value),
-        description: row.description ?? undefined,
+        key: rowToKey(row, await this.decryptKey(row.value)),
       }))
     );
 
@@ -287,12 +380,7 @@ export class ApiKeyService {
     const result = new Map<string, ApiKey[]>();
     for (const row of decryptedRows) {
       const existing = result.get(row.groupName) || [];
-      existing.push({
-        id: row.id,
-        name: row.name,
-        value: row.value,
-        description: row.description,
-      });
+      existing.push(row.key);
       result.set(row.groupName, existing);
     }
 
@@ -322,12 +410,7 @@ export class ApiKeyService {
 
     // Decrypt all keys in parallel
     const decryptedKeys = await Promise.all(
-      rows.map(async (r) => ({
-        id: r.id,
-        name: r.name,
-        value: await this.decryptKey(r.value),
-        description: r.description ?? undefined,
-      }))
+      rows.map(async (r) => rowToKey(r, await this.decryptKey(r.value)))
     );
 
     return decryptedKeys;
@@ -358,17 +441,8 @@ export class ApiKeyService {
     const decryptedValue = await this.decryptKey(result.value);
 
     return {
-      key: {
-        id: result.id,
-        name: result.name,
-        value: decryptedValue,
-        description: result.description ?? undefined,
-      },
-      group: {
-        id: result.groupRecord.id,
-        name: result.groupRecord.name,
-        description: result.groupRecord.description ?? undefined,
-      },
+      key: rowToKey(result, decryptedValue),
+      group: rowToGroup(result.groupRecord),
     };
   }
 
@@ -446,12 +520,7 @@ export class ApiKeyService {
 
     // Decrypt all keys in parallel
     const decryptedKeys = await Promise.all(
-      rows.map(async (r) => ({
-        id: r.id,
-        name: r.name,
-        value: await this.decryptKey(r.value),
-        description: r.description ?? undefined,
-      }))
+      rows.map(async (r) => rowToKey(r, await this.decryptKey(r.value)))
     );
 
     return decryptedKeys;
@@ -481,20 +550,43 @@ export class ApiKeyService {
    * Get key and group IDs for a specific key value in a group by ID.
    * Uses hash-based O(1) lookup instead of O(n) decryption.
    * Used by ApiKeyValidator to obtain IDs for secret resolution.
+   * Disabled and expired keys are returned too - check them with getApiKeyStatus().
    * @param groupId - The group ID (string, from URL params)
    * @param keyValue - The key value to look up
-   * @returns Object with keyId (RecordId), groupId (string), keyName, and groupName, or null if not found
+   * @returns Object with keyId (RecordId), groupId (string), keyName, groupName, groupIpAccess,
+   *   enabled, expiresAt and rotatedToId (the successor of a key being retired), or null if not found
    */
   async getKeyByValueInGroup(
     groupId: string,
     keyValue: string
-  ): Promise<{ keyId: RecordId; groupId: string; keyName: string; groupName: string } | null> {
+  ): Promise<
+    {
+      keyId: RecordId;
+      groupId: string;
+      keyName: string;
+      groupName: string;
+      groupIpAccess?: IpAccessConfig;
+      enabled: boolean;
+      expiresAt?: Date;
+      rotatedToId?: RecordId;
+    } | null
+  > {
     const valueHash = await this.hashService.computeHash(keyValue);
     const groupRecordId = new RecordId("apiKeyGroup", groupId);
 
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
-      const [rows] = await db.query<[Array<{ id: RecordId; name: string; groupName: string }>]>(
-        `SELECT id, name, groupId.name as groupName FROM apiKey
+      const [rows] = await db.query<[
+        Array<{
+          id: RecordId;
+          name: string;
+          groupName: string;
+          groupIpAccess?: IpAccessConfig | null;
+          enabled: boolean;
+          expiresAt?: unknown;
+          rotatedToId?: RecordId;
+        }>
+      ]>(
+        `SELECT id, name, groupId.name as groupName, groupId.ipAccess as groupIpAccess, enabled, expiresAt, rotatedToId FROM apiKey
          WHERE groupId = $groupId AND valueHash = $valueHash LIMIT 1`,
         { groupId: groupRecordId, valueHash }
       );
@@ -509,6 +601,10 @@ export class ApiKeyService {
         groupId: groupId,
         keyName: row.name,
         groupName: row.groupName,
+        groupIpAccess: row.groupIpAccess ?? undefined,
+        enabled: row.enabled,
+        expiresAt: row.expiresAt ? toDate(row.expiresAt) : undefined,
+        rotatedToId: row.rotatedToId ?? undefined,
       };
     });
   }
@@ -521,6 +617,7 @@ export class ApiKeyService {
    * @param name - The key name (will be normalized to lowercase, must be unique within group)
    * @param value - The key value
    * @param description - Optional description
+   * @param expiresAt - Optional expiry time (the key is rejected from then on)
    * @returns RecordId of the created (or existing) key
    * @throws Error if group doesn't exist or name conflicts
    */
@@ -528,7 +625,8 @@ export class ApiKeyService {
     groupId: string,
     name: string,
     value: string,
-    description?: string
+    description?: string,
+    expiresAt?: Date
   ): Promise<RecordId> {
     using _lock = await this.writeMutex.acquire();
 
@@ -585,13 +683,15 @@ export class ApiKeyService {
           name = $name,
           value = $value,
           valueHash = $valueHash,
-          description = $description`,
+          description = $description,
+          expiresAt = $expiresAt`,
         {
           groupId: groupRecordId,
           name: normalizedName,
           value: encryptedValue,
           valueHash,
           description,
+          expiresAt,
         }
       );
 
@@ -633,10 +733,7 @@ export class ApiKeyService {
     // Decrypt all keys in parallel
     const decryptedKeys = await Promise.all(
       rows.map(async (r) => ({
-        id: r.id,
-        name: r.name,
-        value: await this.decryptKey(r.value),
-        description: r.description ?? undefined,
+        ...rowToKey(r, await this.decryptKey(r.value)),
         groupId: r.groupId,
         groupName: r.groupName,
       }))
@@ -737,12 +834,12 @@ export class ApiKeyService {
   /**
    * Update an existing API key.
    * @param keyId - The key ID to update
-   * @param updates - Fields to update (all optional)
+   * @param updates - Fields to update (all optional, expiresAt: null removes the expiry)
    * @throws Error if key not found or name conflicts
    */
   async updateKey(
     keyId: string,
-    updates: { name?: string; value?: string; description?: string }
+    updates: { name?: string; value?: string; description?: string; expiresAt?: Date | null; enabled?: boolean }
   ): Promise<void> {
     using _lock = await this.writeMutex.acquire();
 
@@ -804,6 +901,18 @@ export class ApiKeyService {
       params.description = updates.description || undefined;
     }
 
+    // Handle expiry update
+    if (updates.expiresAt !== undefined) {
+      setFields.push("expiresAt = $expiresAt");
+      params.expiresAt = updates.expiresAt ?? undefined;
+    }
+
+    // Handle enabled update
+    if (updates.enabled !== undefined) {
+      setFields.push("enabled = $enabled");
+      params.enabled = updates.enabled;
+    }
+
     if (setFields.length === 0) {
       return; // Nothing to update
     }
@@ -816,6 +925,172 @@ export class ApiKeyService {
     });
   }
 
+  /**
+   * Disable enabled keys that haven't authenticated a request for the given
+   * number of days. Keys that were never used count from their creation.
+   * @param days - Days without use after which a key is disabled
+   * @param now - Reference time (default: now)
+   * @returns The disabled keys' IDs and names
+   */
+  async disableUnusedKeys(
+    days: number,
+    now: Date = new Date()
+  ): Promise<Array<{ id: RecordId; name: string; groupName: string }>> {
+    using _lock = await this.writeMutex.acquire();
+
+    const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[Array<{ id: RecordId; name: string; groupName: string }>]>(
+        `UPDATE apiKey SET enabled = false
+         WHERE enabled = true AND (lastUsedAt ?? createdAt) < $cutoff
+         RETURN id, name, groupId.name AS groupName`,
+        { cutoff }
+      );
+      return rows ?? [];
+    });
+  }
+
+  // ============== Rotation ==============
+
+  /**
+   * Rotate a key: create a successor with a new value and keep the old key
+   * valid for a grace period.
+   *
+   * The successor takes over the key's name, description, expiry, enabled
+   * state, key-scoped secrets and rate limit rule. The old key is renamed to
+   * "<name>-retiring" and expires when the grace period ends (or earlier, if
+   * it already expired earlier). retireRotatedKeys() deletes it afterwards.
+   * @param keyId - The key ID (string, from URL params)
+   * @param graceHours - Hours both keys stay valid (0 - MAX_ROTATION_GRACE_HOURS)
+   * @param now - Reference time (default: now)
+   * @throws Error if the key is not found, already rotated or its predecessor is still being retired
+   */
+  async rotateKey(
+    keyId: string,
+    graceHours: number,
+    now: Date = new Date()
+  ): Promise<ApiKeyRotation> {
+    if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+      throw new Error(`Invalid grace period. Must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours.`);
+    }
+
+    using _lock = await this.writeMutex.acquire();
+
+    const existing = await this.getById(keyId);
+    if (!existing) {
+      throw new Error(`API key with id ${keyId} not found`);
+    }
+    const { key, group } = existing;
+    const recordId = new RecordId("apiKey", keyId);
+
+    if (key.rotatedToId) {
+      throw new Error(`API key '${key.name}' has already been rotated`);
+    }
+
+    const retiringName = `${key.name}-retiring`;
+
+    const conflict = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [predecessors] = await db.query<[{ name: string }[]]>(
+        "SELECT name FROM apiKey WHERE rotatedToId = $recordId LIMIT 1",
+        { recordId }
+      );
+      if (predecessors?.[0]) {
+        return `API key '${key.name}' is already rotating - '${predecessors[0].name}' has not been retired yet`;
+      }
+
+      const [named] = await db.query<[{ id: RecordId }[]]>(
+        "SELECT id FROM apiKey WHERE groupId = $groupId AND name = $name LIMIT 1",
+        { groupId: group.id, name: retiringName }
+      );
+      if (named?.[0]) {
+        return `A key with name '${retiringName}' already exists in group '${group.name}'`;
+      }
+      return null;
+    });
+    if (conflict) {
+      throw new Error(conflict);
+    }
+
+    const value = generateApiKeyValue();
+    const encryptedValue = await this.encryptKey(value);
+    const valueHash = await this.hashService.computeHash(value);
+
+    let retiresAt = new Date(now.getTime() + graceHours * 60 * 60 * 1000);
+    if (key.expiresAt && key.expiresAt < retiresAt) {
+      retiresAt = key.expiresAt;
+    }
+
+    // One transaction, so a failure leaves the key untouched instead of renamed without a successor
+    const successorId = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const results = await db.query<unknown[]>(
+        `BEGIN TRANSACTION;
+        UPDATE $recordId SET name = $retiringName;
+        LET $successorId = (CREATE apiKey SET
+          groupId = $groupId,
+          name = $name,
+          value = $value,
+          valueHash = $valueHash,
+          description = $description,
+          expiresAt = $expiresAt,
+          enabled = $enabled)[0].id;
+        UPDATE secret SET scopeRef = $successorId WHERE scopeType = "key" AND scopeRef = $recordId;
+        UPDATE rateLimit SET scopeRef = $successorId WHERE scopeType = "key" AND scopeRef = $recordId;
+        UPDATE $recordId SET rotatedToId = $successorId, rotatedAt = $now, expiresAt = $retiresAt;
+        RETURN $successorId;
+        COMMIT TRANSACTION;`,
+        {
+          recordId,
+          retiringName,
+          groupId: group.id,
+          name: key.name,
+          value: encryptedValue,
+          valueHash,
+          description: key.description,
+          expiresAt: key.expiresAt,
+          enabled: key.enabled,
+          now,
+          retiresAt,
+        }
+      );
+      const id = results[results.length - 1];
+      if (!(id instanceof RecordId)) {
+        throw new Error("Failed to create API key");
+      }
+      return id;
+    });
+
+    return { successorId, name: key.name, value, retiringName, retiresAt };
+  }
+
+  /**
+   * Delete rotated keys whose grace period has ended.
+   * @param now - Reference time (default: now)
+   * @returns The retired keys' IDs and names
+   */
+  async retireRotatedKeys(
+    now: Date = new Date()
+  ): Promise<Array<{ id: RecordId; name: string; groupName: string }>> {
+    using _lock = await this.writeMutex.acquire();
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[Array<{ id: RecordId; name: string; groupName: string }>]>(
+        `SELECT id, name, groupId.name AS groupName FROM apiKey
+         WHERE rotatedToId IS NOT NONE AND expiresAt <= $now`,
+        { now }
+      );
+      if (!rows?.length) {
+        return [];
+      }
+
+      await db.query(
+        "DELETE apiKey WHERE id INSIDE $ids",
+        { ids: rows.map((row) => row.id) }
+      );
+      return rows;
+    });
+  }
+
   // ============== Private Encryption Helpers ==============
 
   /**
@@ -6,7 +6,9 @@ import {
   validateKeyValue,
 } from "../validation/keys.ts";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { getApiKeyStatus } from "./api_key_service.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
+import { RateLimitService } from "../rate_limits/rate_limit_service.ts";
 import { RecordId } from "surrealdb";
 
 // =====================
@@ -840,3 +842,288 @@ integrationTest("ApiKeyService.updateKey can update multiple fields", async () =
     await ctx.cleanup();
   }
 });
+
+// =====================
+// Expiry and auto-disable tests
+// =====================
+
+integrationTest("ApiKeyService.updateKey sets and clears expiry and enabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "test-key")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    expect(keys![0].enabled).toBe(true);
+    expect(keys![0].expiresAt).toBeUndefined();
+    expect(keys![0].lastUsedAt).toBeUndefined();
+    expect(keys![0].requestCount).toBe(0);
+
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+    await ctx.apiKeyService.updateKey(keyId, { expiresAt, enabled: false });
+
+    let updated = await ctx.apiKeyService.getById(keyId);
+    expect(updated!.key.expiresAt?.toISOString()).toBe(expiresAt.toISOString());
+    expect(updated!.key.enabled).toBe(false);
+
+    await ctx.apiKeyService.updateKey(keyId, { expiresAt: null, enabled: true });
+
+    updated = await ctx.apiKeyService.getById(keyId);
+    expect(updated!.key.expiresAt).toBeUndefined();
+    expect(updated!.key.enabled).toBe(true);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.getKeyByValueInGroup returns expiry and enabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .build();
+
+  try {
+    const group = await ctx.apiKeyService.getGroupByName("test-group");
+    const groupId = recordIdToString(group!.id);
+    const expiresAt = new Date(Date.now() - 1000);
+    await ctx.apiKeyService.addKeyToGroup(groupId, "contractor", "contractor-value", undefined, expiresAt);
+
+    const keyInfo = await ctx.apiKeyService.getKeyByValueInGroup(groupId, "contractor-value");
+    expect(keyInfo!.enabled).toBe(true);
+    expect(keyInfo!.expiresAt?.getTime()).toBe(expiresAt.getTime());
+    expect(getApiKeyStatus(keyInfo!)).toBe("expired");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("getApiKeyStatus reports expiry before the enabled flag", () => {
+  const now = new Date("2026-01-15T12:00:00.000Z");
+  const past = new Date("2026-01-15T11:00:00.000Z");
+  const future = new Date("2026-01-16T00:00:00.000Z");
+
+  expect(getApiKeyStatus({ enabled: true }, now)).toBe("active");
+  expect(getApiKeyStatus({ enabled: true, expiresAt: future }, now)).toBe("active");
+  expect(getApiKeyStatus({ enabled: false, expiresAt: future }, now)).toBe("disabled");
+  expect(getApiKeyStatus({ enabled: true, expiresAt: past }, now)).toBe("expired");
+  expect(getApiKeyStatus({ enabled: false, expiresAt: past }, now)).toBe("expired");
+});
+
+integrationTest("ApiKeyService.disableUnusedKeys disables keys unused since the cutoff", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "used-value", "used-key")
+    .withApiKey("test-group", "stale-value", "stale-key")
+    .withApiKey("test-group", "never-value", "never-used-key")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const idOf = (name: string) => keys!.find((k) => k.name === name)!.id;
+    const now = new Date();
+
+    await ctx.surrealFactory.withSystemConnection({}, async (db) => {
+      await db.query("UPDATE $id SET lastUsedAt = $at", {
+        id: idOf("used-key"),
+        at: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000),
+      });
+      await db.query("UPDATE $id SET lastUsedAt = $at", {
+        id: idOf("stale-key"),
+        at: new Date(now.getTime() - 40 * 24 * 60 * 60 * 1000),
+      });
+    });
+
+    // Keys created just now were never used, but aren't old enough yet
+    let disabled = await ctx.apiKeyService.disableUnusedKeys(30, now);
+    expect(disabled.map((k) => k.name)).toEqual(["stale-key"]);
+    expect(disabled[0].groupName).toBe("test-group");
+
+    // 60 days later, the never-used key and the key used 2 days ago count as unused
+    disabled = await ctx.apiKeyService.disableUnusedKeys(30, new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000));
+    expect(disabled.map((k) => k.name).sort()).toEqual(["never-used-key", "used-key"]);
+
+    const after = await ctx.apiKeyService.getKeys("test-group");
+    expect(after!.every((k) => !k.enabled)).toBe(true);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.rotateKey creates a successor and moves secrets and rate limit", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSecretsService()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing", "Billing service")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    const groupId = recordIdToString((await ctx.apiKeyService.getGroupByName("test-group"))!.id);
+    const rateLimitService = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    await ctx.secretsService.createKeySecret(keyId, "BILLING_TOKEN", "secret-value");
+    await rateLimitService.createRule({ scopeType: "key", scopeId: keyId, requests: 10, windowSeconds: 60 });
+
+    const now = new Date();
+    const rotation = await ctx.apiKeyService.rotateKey(keyId, 2, now);
+    const successorId = recordIdToString(rotation.successorId);
+    expect(rotation.name).toBe("billing");
+    expect(rotation.retiringName).toBe("billing-retiring");
+    expect(rotation.retiresAt.getTime()).toBe(now.getTime() + 2 * 60 * 60 * 1000);
+
+    const successor = (await ctx.apiKeyService.getById(successorId))!.key;
+    expect(successor.name).toBe("billing");
+    expect(successor.value).toBe(rotation.value);
+    expect(successor.description).toBe("Billing service");
+
+    const old = (await ctx.apiKeyService.getById(keyId))!.key;
+    expect(old.name).toBe("billing-retiring");
+    expect(old.rotatedToId && recordIdToString(old.rotatedToId)).toBe(successorId);
+    expect(old.expiresAt?.getTime()).toBe(rotation.retiresAt.getTime());
+    expect(getApiKeyStatus(old, now)).toBe("active");
+
+    // Both values authenticate - the old one points to its successor
+    const oldInfo = await ctx.apiKeyService.getKeyByValueInGroup(groupId, "old-value");
+    expect(oldInfo!.rotatedToId && recordIdToString(oldInfo!.rotatedToId)).toBe(successorId);
+    expect(await ctx.apiKeyService.hasKeyInGroup(groupId, rotation.value)).toBe(true);
+
+    expect(await ctx.secretsService.getKeySecrets(keyId)).toEqual([]);
+    const secrets = await ctx.secretsService.getKeySecrets(successorId);
+    expect(secrets.map((secret) => secret.value)).toEqual(["secret-value"]);
+
+    const [rule] = await rateLimitService.getRules("key");
+    expect(recordIdToString(rule.scopeRef)).toBe(successorId);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.rotateKey rejects keys that are already rotating", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    await expect(ctx.apiKeyService.rotateKey(keyId, -1)).rejects.toThrow("Invalid grace period");
+
+    const rotation = await ctx.apiKeyService.rotateKey(keyId, 24);
+    await expect(ctx.apiKeyService.rotateKey(keyId, 24)).rejects.toThrow("already been rotated");
+    await expect(
+      ctx.apiKeyService.rotateKey(recordIdToString(rotation.successorId), 24),
+    ).rejects.toThrow("'billing-retiring' has not been retired yet");
+    await expect(ctx.apiKeyService.rotateKey("nonexistent", 24)).rejects.toThrow("not found");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.rotateKey keeps a disabled key's successor disabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    await ctx.apiKeyService.updateKey(keyId, { enabled: false });
+
+    const rotation = await ctx.apiKeyService.rotateKey(keyId, 24);
+
+    const successor = (await ctx.apiKeyService.getById(recordIdToString(rotation.successorId)))!.key;
+    expect(successor.enabled).toBe(false);
+    expect(getApiKeyStatus(successor)).toBe("disabled");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.rotateKey keeps the expiry of an expiring key", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + 60 * 60 * 1000);
+    await ctx.apiKeyService.updateKey(keyId, { expiresAt });
+
+    // The grace period outlasts the key, so the old key still expires on time
+    const rotation = await ctx.apiKeyService.rotateKey(keyId, 24, now);
+    expect(rotation.retiresAt.getTime()).toBe(expiresAt.getTime());
+
+    const successor = (await ctx.apiKeyService.getById(recordIdToString(rotation.successorId)))!.key;
+    expect(successor.enabled).toBe(true);
+    expect(successor.expiresAt?.getTime()).toBe(expiresAt.getTime());
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.rotateKey leaves the key untouched when the rotation fails", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSecretsService()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "old-value", "billing")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+    const rateLimitService = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    await ctx.secretsService.createKeySecret(keyId, "BILLING_TOKEN", "secret-value");
+    await rateLimitService.createRule({ scopeType: "key", scopeId: keyId, requests: 10, windowSeconds: 60 });
+
+    // Fail the rotation after the rename, the successor and the secrets are written
+    await ctx.surrealFactory.withSystemConnection({}, async (db) => {
+      await db.query(`DEFINE EVENT failRotation ON TABLE rateLimit WHEN $event = "UPDATE" THEN { THROW "rate limit update failed" }`);
+    });
+
+    await expect(ctx.apiKeyService.rotateKey(keyId, 24)).rejects.toThrow();
+
+    const remaining = await ctx.apiKeyService.getKeys("test-group");
+    expect(remaining!.map((k) => k.name)).toEqual(["billing"]);
+    const key = (await ctx.apiKeyService.getById(keyId))!.key;
+    expect(key.rotatedToId).toBeUndefined();
+    expect(key.expiresAt).toBeUndefined();
+    const secrets = await ctx.secretsService.getKeySecrets(keyId);
+    expect(secrets.map((secret) => secret.value)).toEqual(["secret-value"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyService.retireRotatedKeys deletes rotated keys after their grace period", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "billing-value", "billing")
+    .withApiKey("test-group", "other-value", "other")
+    .build();
+
+  try {
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys!.find((k) => k.name === "billing")!.id);
+    const now = new Date();
+    const rotation = await ctx.apiKeyService.rotateKey(keyId, 1, now);
+
+    expect(await ctx.apiKeyService.retireRotatedKeys(now)).toEqual([]);
+
+    const retired = await ctx.apiKeyService.retireRotatedKeys(new Date(now.getTime() + 60 * 60 * 1000));
+    expect(retired.map((k) => k.name)).toEqual(["billing-retiring"]);
+    expect(retired[0].groupName).toBe("test-group");
+
+    const remaining = await ctx.apiKeyService.getKeys("test-group");
+    expect(remaining!.map((k) => k.name)).toEqual(["billing", "other"]);
+    expect(recordIdToString(remaining![0].id)).toBe(recordIdToString(rotation.successorId));
+  } finally {
+    await ctx.cleanup();
+  }
+});
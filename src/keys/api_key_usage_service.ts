@@ -0,0 +1,234 @@
+import { Mutex } from "@core/asyncutil/mutex";
+import { RecordId } from "surrealdb";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import { toDate } from "../database/surreal_helpers.ts";
+import { logger } from "../utils/logger.ts";
+
+/** Days of per-day usage kept by trimUsage() */
+export const API_KEY_USAGE_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ApiKeyUsageServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+  /** How often buffered usage is written to the database (default: 30000ms) */
+  flushIntervalMs?: number;
+}
+
+/** Requests a key authenticated on one UTC day */
+export interface ApiKeyDailyUsage {
+  /** Start of the day (UTC midnight) */
+  day: Date;
+  count: number;
+}
+
+/** Usage of one key buffered since the last flush */
+interface PendingUsage {
+  /** Requests per UTC day (keyed by the day's start in ms) */
+  days: Map<number, number>;
+  lastUsedAt: Date;
+}
+
+/** Database row type for per-day key usage */
+interface ApiKeyUsageRow {
+  id: RecordId;
+  keyId: RecordId;
+  day: unknown;
+  count: number;
+}
+
+/**
+ * Get the start of the UTC day containing the given time.
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Records which API keys authenticate requests.
+ *
+ * Requests are counted in memory and written by a timer, so validating a key
+ * never waits for a database write. Each flush adds the counts to the key's
+ * requestCount and per-day usage and moves its lastUsedAt forward. Counts
+ * buffered when the process dies are lost - usage is informational.
+ */
+export class ApiKeyUsageService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+  private readonly flushIntervalMs: number;
+  private readonly writeMutex = new Mutex();
+  private timerId: number | null = null;
+  private pending = new Map<string, PendingUsage>();
+  private isFlushing = false;
+
+  constructor(options: ApiKeyUsageServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+    this.flushIntervalMs = options.flushIntervalMs ?? 30000;
+  }
+
+  /**
+   * Start the flush timer.
+   */
+  start(): void {
+    if (this.timerId !== null) {
+      return; // Already running
+    }
+
+    this.timerId = setInterval(async () => {
+      await this.flush();
+    }, this.flushIntervalMs);
+  }
+
+  /**
+   * Stop the flush timer and write the remaining usage.
+   */
+  async stop(): Promise<void> {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Count a request authenticated by a key.
+   * @param keyId - The key ID (string)
+   * @param at - When the request was made (default: now)
+   */
+  record(keyId: string, at: Date = new Date()): void {
+    let usage = this.pending.get(keyId);
+    if (!usage) {
+      usage = { days: new Map(), lastUsedAt: at };
+      this.pending.set(keyId, usage);
+    }
+
+    const day = startOfUtcDay(at).getTime();
+    usage.days.set(day, (usage.days.get(day) ?? 0) + 1);
+    if (at > usage.lastUsedAt) {
+      usage.lastUsedAt = at;
+    }
+  }
+
+  /**
+   * Get the number of keys with usage not yet written to the database.
+   */
+  getPendingKeyCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Write all buffered usage to the database.
+   * Usage of keys deleted in the meantime is dropped.
+   */
+  async flush(): Promise<void> {
+    // Prevent concurrent flushes
+    if (this.isFlushing) return;
+
+    // Atomically swap buffer
+    const toFlush = this.pending;
+    this.pending = new Map();
+
+    if (toFlush.size === 0) return;
+
+    this.isFlushing = true;
+    try {
+      for (const [keyId, usage] of toFlush) {
+        try {
+          await this.writeUsage(new RecordId("apiKey", keyId), usage);
+        } catch (error) {
+          logger.warn(`[ApiKeyUsage] Failed to write usage of key ${keyId}:`, error);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async writeUsage(keyId: RecordId, usage: PendingUsage): Promise<void> {
+    let total = 0;
+    for (const count of usage.days.values()) {
+      total += count;
+    }
+
+    using _lock = await this.writeMutex.acquire();
+
+    await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [updated] = await db.query<[{ id: RecordId }[]]>(
+        `UPDATE $keyId SET
+          requestCount += $total,
+          lastUsedAt = $lastUsedAt
+         RETURN id`,
+        { keyId, total, lastUsedAt: usage.lastUsedAt },
+      );
+      if (!updated?.length) {
+        return; // Key was deleted
+      }
+
+      for (const [dayMs, count] of usage.days) {
+        const day = new Date(dayMs);
+        const [existing] = await db.query<[{ id: RecordId }[]]>(
+          `SELECT id FROM apiKeyUsage WHERE keyId = $keyId AND day = $day LIMIT 1`,
+          { keyId, day },
+        );
+
+        if (existing?.[0]) {
+          await db.query(`UPDATE $recordId SET count += $count`, { recordId: existing[0].id, count });
+        } else {
+          await db.query(
+            `CREATE apiKeyUsage SET keyId = $keyId, day = $day, count = $count`,
+            { keyId, day, count },
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Get a key's requests per UTC day, oldest first.
+   * Days without requests are included with a count of 0.
+   * @param keyId - The key ID (string)
+   * @param days - Number of days, ending with the current one
+   * @param now - Reference time (default: now)
+   */
+  async getDailyUsage(keyId: string, days: number, now: Date = new Date()): Promise<ApiKeyDailyUsage[]> {
+    const today = startOfUtcDay(now).getTime();
+    const since = new Date(today - (days - 1) * DAY_MS);
+
+    const rows = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [result] = await db.query<[ApiKeyUsageRow[]]>(
+        `SELECT * FROM apiKeyUsage WHERE keyId = $keyId AND day >= $since`,
+        { keyId: new RecordId("apiKey", keyId), since },
+      );
+      return result ?? [];
+    });
+
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      counts.set(toDate(row.day).getTime(), row.count);
+    }
+
+    const usage: ApiKeyDailyUsage[] = [];
+    for (let day = since.getTime(); day <= today; day += DAY_MS) {
+      usage.push({ day: new Date(day), count: counts.get(day) ?? 0 });
+    }
+    return usage;
+  }
+
+  /**
+   * Delete per-day usage older than the retention period.
+   * @param now - Reference time (default: now)
+   * @returns Number of deleted rows
+   */
+  async trimUsage(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(startOfUtcDay(now).getTime() - API_KEY_USAGE_RETENTION_DAYS * DAY_MS);
+
+    using _lock = await this.writeMutex.acquire();
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [deleted] = await db.query<[{ id: RecordId }[]]>(
+        `DELETE apiKeyUsage WHERE day < $cutoff RETURN BEFORE`,
+        { cutoff },
+      );
+      return deleted?.length ?? 0;
+    });
+  }
+}
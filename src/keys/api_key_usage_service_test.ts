@@ -0,0 +1,97 @@
+import { expect } from "@std/expect";
+import { integrationTest } from "../test/test_helpers.ts";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { ApiKeyUsageService } from "./api_key_usage_service.ts";
+
+integrationTest("ApiKeyUsageService buffers requests until flushed", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "test-key")
+    .build();
+
+  try {
+    const usageService = new ApiKeyUsageService({ surrealFactory: ctx.surrealFactory });
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const now = new Date();
+    usageService.record(keyId, yesterday);
+    usageService.record(keyId, now);
+    usageService.record(keyId, now);
+    expect(usageService.getPendingKeyCount()).toBe(1);
+
+    // Nothing is written before the flush
+    let key = (await ctx.apiKeyService.getById(keyId))!.key;
+    expect(key.requestCount).toBe(0);
+    expect(key.lastUsedAt).toBeUndefined();
+
+    await usageService.flush();
+    expect(usageService.getPendingKeyCount()).toBe(0);
+
+    key = (await ctx.apiKeyService.getById(keyId))!.key;
+    expect(key.requestCount).toBe(3);
+    expect(key.lastUsedAt?.getTime()).toBe(now.getTime());
+
+    // Later flushes add to the same day
+    usageService.record(keyId, now);
+    await usageService.flush();
+
+    const usage = await usageService.getDailyUsage(keyId, 7, now);
+    expect(usage.length).toBe(7);
+    expect(usage.map((entry) => entry.count)).toEqual([0, 0, 0, 0, 0, 1, 3]);
+    expect(usage[6].day.toISOString()).toBe(`${now.toISOString().slice(0, 10)}T00:00:00.000Z`);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyUsageService drops usage of deleted keys", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "test-key")
+    .build();
+
+  try {
+    const usageService = new ApiKeyUsageService({ surrealFactory: ctx.surrealFactory });
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    usageService.record(keyId);
+    await ctx.apiKeyService.removeKeyById(keyId);
+    await usageService.flush();
+
+    const usage = await usageService.getDailyUsage(keyId, 1);
+    expect(usage[0].count).toBe(0);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ApiKeyUsageService.trimUsage deletes usage older than the retention period", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("test-group")
+    .withApiKey("test-group", "value1", "test-key")
+    .build();
+
+  try {
+    const usageService = new ApiKeyUsageService({ surrealFactory: ctx.surrealFactory });
+    const keys = await ctx.apiKeyService.getKeys("test-group");
+    const keyId = recordIdToString(keys![0].id);
+
+    const now = new Date();
+    usageService.record(keyId, new Date(now.getTime() - 100 * 24 * 60 * 60 * 1000));
+    usageService.record(keyId, now);
+    await usageService.flush();
+
+    expect(await usageService.trimUsage(now)).toBe(1);
+    expect(await usageService.trimUsage(now)).toBe(0);
+
+    // The request counter keeps all requests
+    const key = (await ctx.apiKeyService.getById(keyId))!.key;
+    expect(key.requestCount).toBe(2);
+  } finally {
+    await ctx.cleanup();
+  }
+});
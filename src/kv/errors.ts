@@ -0,0 +1,29 @@
+/**
+ * Base error class for key-value store errors.
+ */
+export class KvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KvError";
+  }
+}
+
+/**
+ * Thrown when a key is empty or too long.
+ */
+export class InvalidKvKeyError extends KvError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidKvKeyError";
+  }
+}
+
+/**
+ * Thrown when a value is not JSON-serializable, too large, or has an invalid TTL.
+ */
+export class InvalidKvValueError extends KvError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidKvValueError";
+  }
+}
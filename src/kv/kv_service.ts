@@ -0,0 +1,344 @@
+import { RecordId } from "surrealdb";
+import { Mutex } from "@core/asyncutil/mutex";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import { toDate } from "../database/surreal_helpers.ts";
+import { InvalidKvKeyError, InvalidKvValueError } from "./errors.ts";
+import type {
+  FunctionKv,
+  KvEntry,
+  KvEntryRow,
+  KvListOptions,
+  KvSetOptions,
+} from "./types.ts";
+
+/** Maximum key length in characters */
+export const MAX_KV_KEY_LENGTH = 512;
+
+/** Maximum size of a serialized value in bytes (64 KiB) */
+export const MAX_KV_VALUE_BYTES = 65536;
+
+/** Default and maximum number of entries returned by list() */
+export const DEFAULT_KV_LIST_LIMIT = 100;
+export const MAX_KV_LIST_LIMIT = 1000;
+
+/** Condition matching entries that have not expired */
+const NOT_EXPIRED = "(expiresAt = NONE OR expiresAt > time::now())";
+
+export interface KvServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+}
+
+/**
+ * Service for the per-function key-value store.
+ *
+ * Entries are scoped to a function's record ID and deleted together with the
+ * function. Values are stored as JSON strings. Expired entries are invisible to
+ * reads and removed by purgeExpired().
+ *
+ * Writes of the same entry are serialized by a per-entry lock, which makes
+ * compareAndSet() atomic with respect to every other write of that key in this
+ * process. Writes of different keys don't wait for each other.
+ *
+ * ID Handling: Functions are identified by their string ID (as in FunctionContext).
+ */
+export class KvService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+
+  /** Locks serializing writes of the same entry, with the number of holders and waiters */
+  private readonly entryLocks = new Map<string, { mutex: Mutex; holders: number }>();
+
+  constructor(options: KvServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+  }
+
+  /**
+   * Create the ctx.kv accessor for a function.
+   */
+  forFunction(functionId: string): FunctionKv {
+    return {
+      get: (key) => this.get(functionId, key),
+      set: (key, value, options) => this.set(functionId, key, value, options),
+      delete: (key) => this.delete(functionId, key),
+      list: (prefix, options) => this.list(functionId, prefix, options),
+      compareAndSet: (key, expected, value, options) =>
+        this.compareAndSet(functionId, key, expected, value, options),
+    };
+  }
+
+  /**
+   * Get a value, or undefined if the key doesn't exist or has expired.
+   */
+  async get<T = unknown>(functionId: string, key: string): Promise<T | undefined> {
+    this.validateKey(key);
+    const row = await this.getRow(functionId, key);
+    return row ? JSON.parse(row.value) as T : undefined;
+  }
+
+  /**
+   * Get an entry with its metadata, or undefined if the key doesn't exist or has expired.
+   */
+  async getEntry<T = unknown>(functionId: string, key: string): Promise<KvEntry<T> | undefined> {
+    this.validateKey(key);
+    const row = await this.getRow(functionId, key);
+    return row ? this.rowToEntry<T>(row) : undefined;
+  }
+
+  /**
+   * Create or replace a value.
+   * @throws InvalidKvKeyError / InvalidKvValueError for invalid input
+   */
+  async set(
+    functionId: string,
+    key: string,
+    value: unknown,
+    options?: KvSetOptions,
+  ): Promise<void> {
+    this.validateKey(key);
+    const serialized = this.serializeValue(value);
+    const expiresAt = this.toExpiresAt(options);
+
+    using _lock = await this.acquireEntryLock(functionId, key);
+    await this.writeRow(functionId, key, serialized, expiresAt);
+  }
+
+  /**
+   * Delete a key.
+   * @returns true if a (non-expired) entry was deleted
+   */
+  async delete(functionId: string, key: string): Promise<boolean> {
+    this.validateKey(key);
+
+    using _lock = await this.acquireEntryLock(functionId, key);
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[KvEntryRow[]]>(
+        `DELETE $entryId RETURN BEFORE`,
+        { entryId: this.entryRecordId(functionId, key) },
+      );
+      return (rows ?? []).some((row) => !this.isExpired(row));
+    });
+  }
+
+  /**
+   * List entries whose key starts with prefix, ordered by key.
+   */
+  async list<T = unknown>(
+    functionId: string,
+    prefix = "",
+    options?: KvListOptions,
+  ): Promise<KvEntry<T>[]> {
+    const limit = Math.min(
+      Math.max(1, Math.floor(options?.limit ?? DEFAULT_KV_LIST_LIMIT)),
+      MAX_KV_LIST_LIMIT,
+    );
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[KvEntryRow[]]>(
+        `SELECT * FROM kvEntry
+          WHERE functionId = $functionId
+            AND string::starts_with(key, $prefix)
+            AND ${NOT_EXPIRED}
+          ORDER BY key
+          LIMIT $limit`,
+        { functionId: this.functionRecordId(functionId), prefix, limit },
+      );
+      return (rows ?? []).map((row) => this.rowToEntry<T>(row));
+    });
+  }
+
+  /**
+   * Set a value only if the current value equals `expected`.
+   * Pass undefined as `expected` to require that the key doesn't exist.
+   * Values are compared structurally (object key order doesn't matter).
+   * @returns true if the value was written
+   */
+  async compareAndSet(
+    functionId: string,
+    key: string,
+    expected: unknown,
+    value: unknown,
+    options?: KvSetOptions,
+  ): Promise<boolean> {
+    this.validateKey(key);
+    const serialized = this.serializeValue(value);
+    const expiresAt = this.toExpiresAt(options);
+
+    using _lock = await this.acquireEntryLock(functionId, key);
+
+    const current = await this.getRow(functionId, key);
+    if (expected === undefined ? current !== null : current === null) {
+      return false;
+    }
+    // Round-trip expected through JSON so it compares like a stored value
+    if (current && !jsonEquals(JSON.parse(current.value), JSON.parse(this.serializeValue(expected)))) {
+      return false;
+    }
+
+    await this.writeRow(functionId, key, serialized, expiresAt);
+    return true;
+  }
+
+  /**
+   * Delete all expired entries across all functions.
+   * @returns Number of deleted entries
+   */
+  async purgeExpired(): Promise<number> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[KvEntryRow[]]>(
+        `DELETE kvEntry WHERE expiresAt != NONE AND expiresAt <= time::now() RETURN BEFORE`,
+      );
+      return rows?.length ?? 0;
+    });
+  }
+
+  // ============== Helper Methods ==============
+
+  private functionRecordId(functionId: string): RecordId {
+    return new RecordId("functionDef", functionId);
+  }
+
+  /**
+   * Entries are keyed by [function, key] so lookups and upserts hit a single record.
+   */
+  private entryRecordId(functionId: string, key: string): RecordId {
+    return new RecordId("kvEntry", [this.functionRecordId(functionId), key]);
+  }
+
+  private async getRow(functionId: string, key: string): Promise<KvEntryRow | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[KvEntryRow[]]>(
+        `SELECT * FROM $entryId WHERE ${NOT_EXPIRED}`,
+        { entryId: this.entryRecordId(functionId, key) },
+      );
+      return rows?.[0] ?? null;
+    });
+  }
+
+  /**
+   * Acquire the lock of an entry. Locks are dropped once nobody holds or waits
+   * for them, so they don't pile up for every key ever written.
+   */
+  private async acquireEntryLock(functionId: string, key: string): Promise<Disposable> {
+    const lockKey = JSON.stringify([functionId, key]);
+    const entryLock = this.entryLocks.get(lockKey) ?? { mutex: new Mutex(), holders: 0 };
+    this.entryLocks.set(lockKey, entryLock);
+    entryLock.holders++;
+
+    const lock = await entryLock.mutex.acquire();
+    return {
+      [Symbol.dispose]: () => {
+        lock[Symbol.dispose]();
+        if (--entryLock.holders === 0) {
+          this.entryLocks.delete(lockKey);
+        }
+      },
+    };
+  }
+
+  /**
+   * Upsert an entry. Callers must hold the entry's lock.
+   */
+  private async writeRow(
+    functionId: string,
+    key: string,
+    value: string,
+    expiresAt: Date | undefined,
+  ): Promise<void> {
+    await this.surrealFactory.withSystemConnection({}, async (db) => {
+      await db.query(
+        `UPSERT $entryId SET
+          functionId = $functionId,
+          key = $key,
+          value = $value,
+          expiresAt = $expiresAt`,
+        {
+          entryId: this.entryRecordId(functionId, key),
+          functionId: this.functionRecordId(functionId),
+          key,
+          value,
+          expiresAt,
+        },
+      );
+    });
+  }
+
+  private rowToEntry<T>(row: KvEntryRow): KvEntry<T> {
+    return {
+      key: row.key,
+      value: JSON.parse(row.value) as T,
+      expiresAt: row.expiresAt ? toDate(row.expiresAt) : undefined,
+      updatedAt: toDate(row.updatedAt),
+    };
+  }
+
+  private isExpired(row: KvEntryRow): boolean {
+    return row.expiresAt !== undefined && toDate(row.expiresAt).getTime() <= Date.now();
+  }
+
+  /**
+   * Validates key format
+   * @throws InvalidKvKeyError if the key is empty or too long
+   */
+  private validateKey(key: string): void {
+    if (typeof key !== "string" || key.length === 0) {
+      throw new InvalidKvKeyError("Key must be a non-empty string");
+    }
+    if (key.length > MAX_KV_KEY_LENGTH) {
+      throw new InvalidKvKeyError(`Key must be at most ${MAX_KV_KEY_LENGTH} characters`);
+    }
+  }
+
+  /**
+   * Serialize a value to JSON
+   * @throws InvalidKvValueError if the value is not JSON-serializable or too large
+   */
+  private serializeValue(value: unknown): string {
+    let serialized: string | undefined;
+    try {
+      serialized = JSON.stringify(value);
+    } catch (error) {
+      throw new InvalidKvValueError(
+        `Value must be JSON-serializable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (serialized === undefined) {
+      throw new InvalidKvValueError("Value must be JSON-serializable (got undefined or a function)");
+    }
+    if (new TextEncoder().encode(serialized).length > MAX_KV_VALUE_BYTES) {
+      throw new InvalidKvValueError(`Value must be at most ${MAX_KV_VALUE_BYTES} bytes as JSON`);
+    }
+    return serialized;
+  }
+
+  /**
+   * Convert a TTL to an expiry date
+   * @throws InvalidKvValueError if the TTL is not a positive number
+   */
+  private toExpiresAt(options: KvSetOptions | undefined): Date | undefined {
+    if (options?.ttlMs === undefined) return undefined;
+    if (!Number.isFinite(options.ttlMs) || options.ttlMs <= 0) {
+      throw new InvalidKvValueError("ttlMs must be a positive number of milliseconds");
+    }
+    return new Date(Date.now() + options.ttlMs);
+  }
+}
+
+/**
+ * Structural equality of two JSON values.
+ */
+function jsonEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEquals(item, b[i]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  return aKeys.length === Object.keys(bRecord).length &&
+    aKeys.every((key) => Object.hasOwn(bRecord, key) && jsonEquals(aRecord[key], bRecord[key]));
+}
@@ -0,0 +1,171 @@
+import { expect } from "@std/expect";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { KvService } from "./kv_service.ts";
+import { InvalidKvKeyError, InvalidKvValueError } from "./errors.ts";
+
+integrationTest("KvService sets, gets and deletes values", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+
+    expect(await kv.get("missing")).toBeUndefined();
+
+    await kv.set("user", { name: "Ada", tags: ["admin"] });
+    expect(await kv.get("user")).toEqual({ name: "Ada", tags: ["admin"] });
+
+    await kv.set("user", 42);
+    expect(await kv.get("user")).toBe(42);
+
+    expect(await kv.delete("user")).toBe(true);
+    expect(await kv.delete("user")).toBe(false);
+    expect(await kv.get("user")).toBeUndefined();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService lists entries by prefix in key order", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+    await kv.set("session:b", 2);
+    await kv.set("session:a", 1);
+    await kv.set("other", 3);
+
+    const entries = await kv.list("session:");
+    expect(entries.map((e) => [e.key, e.value])).toEqual([["session:a", 1], ["session:b", 2]]);
+    expect(await kv.list("session:", { limit: 1 })).toHaveLength(1);
+    expect(await kv.list()).toHaveLength(3);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService hides and purges expired entries", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const service = new KvService({ surrealFactory: ctx.surrealFactory });
+    const kv = service.forFunction(functionId);
+
+    await kv.set("short", "gone soon", { ttlMs: 50 });
+    await kv.set("long", "stays", { ttlMs: 60_000 });
+    expect((await service.getEntry(functionId, "long"))?.expiresAt).toBeInstanceOf(Date);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(await kv.get("short")).toBeUndefined();
+    expect((await kv.list()).map((e) => e.key)).toEqual(["long"]);
+    expect(await service.purgeExpired()).toBe(1);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService compareAndSet only writes when the current value matches", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+
+    // undefined expects the key to be absent
+    expect(await kv.compareAndSet("lock", undefined, { owner: "a" })).toBe(true);
+    expect(await kv.compareAndSet("lock", undefined, { owner: "b" })).toBe(false);
+
+    expect(await kv.compareAndSet("lock", { owner: "b" }, { owner: "c" })).toBe(false);
+    expect(await kv.compareAndSet("lock", { owner: "a" }, { owner: "c" })).toBe(true);
+    expect(await kv.get("lock")).toEqual({ owner: "c" });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService compareAndSet is atomic per key under concurrent writes", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+    await kv.set("a", 0);
+    await kv.set("b", 0);
+
+    // Increment two counters concurrently, retrying on conflicts
+    const increment = async (key: string) => {
+      while (true) {
+        const current = await kv.get<number>(key);
+        if (await kv.compareAndSet(key, current, current! + 1)) return;
+      }
+    };
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => increment(i % 2 === 0 ? "a" : "b")),
+    );
+
+    expect(await kv.get("a")).toBe(5);
+    expect(await kv.get("b")).toBe(5);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService scopes entries to their function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/one", "one.ts", { name: "one", methods: ["GET"] })
+    .withFunction("/two", "two.ts", { name: "two", methods: ["GET"] })
+    .build();
+  try {
+    const service = new KvService({ surrealFactory: ctx.surrealFactory });
+    const one = service.forFunction(ctx.functionIds.one);
+    const two = service.forFunction(ctx.functionIds.two);
+
+    await one.set("shared", "one");
+    expect(await two.get("shared")).toBeUndefined();
+    expect(await two.list()).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService rejects invalid keys and values", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+
+    await expect(kv.set("", 1)).rejects.toThrow(InvalidKvKeyError);
+    await expect(kv.set("k", undefined)).rejects.toThrow(InvalidKvValueError);
+    await expect(kv.set("k", 1, { ttlMs: 0 })).rejects.toThrow(InvalidKvValueError);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("KvService entries are removed with their function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withFunction("/store", "store.ts", { name: "store", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.store;
+  try {
+    const kv = new KvService({ surrealFactory: ctx.surrealFactory }).forFunction(functionId);
+    await kv.set("counter", 1);
+
+    await ctx.functionsService.removeFunction("store");
+
+    expect(await kv.list()).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -0,0 +1,76 @@
+/**
+ * Types for the per-function key-value store
+ *
+ * ID Handling Pattern:
+ * - Runtime/Interfaces: Always use RecordId type
+ * - API/Web UI boundaries: Convert to string via recordIdToString()
+ */
+
+import type { RecordId } from "surrealdb";
+
+/**
+ * A key-value entry as returned to handlers and the web UI.
+ */
+export interface KvEntry<T = unknown> {
+  key: string;
+  value: T;
+  /** When the entry expires (undefined = never) */
+  expiresAt?: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Options for writing an entry.
+ */
+export interface KvSetOptions {
+  /** Time to live in milliseconds - the entry disappears after this long */
+  ttlMs?: number;
+}
+
+/**
+ * Options for listing entries.
+ */
+export interface KvListOptions {
+  /** Maximum number of entries to return (default: 100, max: 1000) */
+  limit?: number;
+}
+
+/**
+ * Key-value store of a single function, exposed to handlers as ctx.kv.
+ * Values must be JSON-serializable.
+ */
+export interface FunctionKv {
+  /** Get a value, or undefined if the key doesn't exist or has expired */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  /** Create or replace a value */
+  set(key: string, value: unknown, options?: KvSetOptions): Promise<void>;
+  /** Delete a key. Returns true if it existed */
+  delete(key: string): Promise<boolean>;
+  /** List entries whose key starts with prefix (all entries if omitted), ordered by key */
+  list<T = unknown>(prefix?: string, options?: KvListOptions): Promise<KvEntry<T>[]>;
+  /**
+   * Set a value only if the current value equals `expected`
+   * (pass undefined to require that the key doesn't exist).
+   * Returns true if the value was written.
+   */
+  compareAndSet(
+    key: string,
+    expected: unknown,
+    value: unknown,
+    options?: KvSetOptions,
+  ): Promise<boolean>;
+}
+
+/**
+ * Raw row from SurrealDB query.
+ * Values are stored as JSON strings.
+ */
+export interface KvEntryRow {
+  id: RecordId;
+  functionId: RecordId;
+  key: string;
+  value: string;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -3,8 +3,21 @@ import { RecordId } from "surrealdb";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 import type { SettingsService } from "../settings/settings_service.ts";
-import { SettingNames } from "../settings/types.ts";
-import type { ConsoleLog, NewConsoleLog, GetPaginatedOptions, PaginatedLogsResult, PaginationCursor } from "./types.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
+import { originalConsole } from "./stream_interceptor.ts";
+import { getCurrentRequestContext } from "./request_context.ts";
+import { compileRedactionPatterns, redactText } from "./log_redaction.ts";
+import type {
+  ConsoleLog,
+  NewConsoleLog,
+  GetPaginatedOptions,
+  PaginatedLogsResult,
+  PaginationCursor,
+  LiveConsoleLog,
+  LogFields,
+  LogSubscriptionFilter,
+  RequestContext,
+} from "./types.ts";
 
 export interface ConsoleLogServiceOptions {
   surrealFactory: SurrealConnectionFactory;
@@ -19,6 +32,12 @@ interface BufferedLogEntry extends NewConsoleLog {
   sequenceInBatch: number;
 }
 
+/** A live log subscription registered via subscribe() */
+interface LogSubscriber {
+  filter: LogSubscriptionFilter;
+  listener: (log: LiveConsoleLog) => void;
+}
+
 /** Database row type for execution logs */
 interface ExecutionLogRow {
   id: RecordId;
@@ -27,6 +46,8 @@ interface ExecutionLogRow {
   level: string;
   message: string;
   args: string | null;
+  fields?: LogFields | null;
+  parentRequestId?: string;
   sequence: number;
   timestamp: Date;
   createdAt: Date;
@@ -40,6 +61,11 @@ interface ExecutionLogRow {
  *
  * Uses batching to reduce database writes - logs are buffered in memory
  * and flushed either when the batch size is reached or after a delay.
+ * Subscribers receive entries as they are buffered, before the flush.
+ *
+ * Entries are redacted when stored: secret values the request read via
+ * ctx.getSecret() and matches of the configured redaction patterns never
+ * reach the buffer, the database or subscribers.
  */
 export class ConsoleLogService {
   private readonly surrealFactory: SurrealConnectionFactory;
@@ -51,10 +77,14 @@ export class ConsoleLogService {
   private flushTimer: number | null = null;
   private isFlushing = false;
   private isShutdown = false;
+  private readonly subscribers = new Set<LogSubscriber>();
 
   // Settings (refreshed periodically)
   private maxBatchSize = 50;
   private maxDelayMs = 50;
+  private redactionPatterns = compileRedactionPatterns(
+    GlobalSettingDefaults[SettingNames.LOG_REDACTION_PATTERNS],
+  );
   private lastSettingsRefresh = 0;
   private readonly settingsRefreshIntervalMs = 5000;
 
@@ -66,16 +96,27 @@ export class ConsoleLogService {
   /**
    * Store a console log entry.
    * Buffers the entry and schedules a flush. Fire-and-forget pattern.
+   *
+   * @param context - Context of the request that produced the entry, whose
+   *   resolved secrets are redacted. Defaults to the current request context;
+   *   pass it explicitly for entries captured outside of it (e.g. from workers).
    */
-  store(entry: NewConsoleLog): void {
+  store(entry: NewConsoleLog, context: RequestContext | undefined = getCurrentRequestContext()): void {
     if (this.isShutdown) return;
 
+    // Only the producing request's secrets apply (ctx.invoke() children carry their callers' secrets)
+    const secrets = context?.requestId === entry.requestId ? context.resolvedSecrets ?? [] : [];
+
     const bufferedEntry: BufferedLogEntry = {
       ...entry,
+      message: redactText(entry.message, secrets, this.redactionPatterns),
+      args: entry.args !== undefined ? redactText(entry.args, secrets, this.redactionPatterns) : undefined,
+      fields: entry.fields !== undefined ? this.redactFields(entry.fields, secrets) : undefined,
       capturedAt: new Date(),
       sequenceInBatch: this.buffer.length,
     };
     this.buffer.push(bufferedEntry);
+    this.notifySubscribers(bufferedEntry);
 
     if (this.buffer.length >= this.maxBatchSize) {
       this.scheduleFlush(true); // immediate flush
@@ -84,6 +125,89 @@ export class ConsoleLogService {
     }
   }
 
+  /**
+   * Redact the configured patterns and a request's resolved secrets from text
+   * stored outside the log, e.g. captured handler errors.
+   */
+  redact(text: string, context: RequestContext): string {
+    return redactText(text, context.resolvedSecrets ?? [], this.redactionPatterns);
+  }
+
+  /**
+   * Redact the string values of ctx.log fields.
+   */
+  private redactFields(fields: LogFields, secrets: Iterable<string>): LogFields {
+    const redacted: LogFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+      redacted[key] = typeof value === "string" ? redactText(value, secrets, this.redactionPatterns) : value;
+    }
+    return redacted;
+  }
+
+  /**
+   * Subscribe to log entries as they are captured, before they are written
+   * to the database. The listener is called synchronously from store(), so
+   * it must not block.
+   * @returns Function removing the subscription
+   */
+  subscribe(
+    filter: LogSubscriptionFilter,
+    listener: (log: LiveConsoleLog) => void,
+  ): () => void {
+    const subscriber: LogSubscriber = { filter, listener };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Get the number of live log subscriptions.
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Pass a captured entry to all subscribers whose filter matches.
+   */
+  private notifySubscribers(entry: BufferedLogEntry): void {
+    if (this.subscribers.size === 0) return;
+
+    const log: LiveConsoleLog = {
+      requestId: entry.requestId,
+      functionId: entry.functionId ?? "",
+      level: entry.level,
+      message: entry.message,
+      args: entry.args,
+      fields: entry.fields,
+      parentRequestId: entry.parentRequestId,
+      sequence: entry.sequenceInBatch,
+      timestamp: entry.capturedAt,
+    };
+
+    for (const { filter, listener } of this.subscribers) {
+      if (filter.functionId !== undefined && filter.functionId !== log.functionId) continue;
+      if (filter.requestId !== undefined && filter.requestId !== log.requestId) continue;
+      if (filter.levels && filter.levels.length > 0 && !filter.levels.includes(log.level)) continue;
+
+      try {
+        listener(log);
+      } catch (error) {
+        // A failing subscriber must not break log capture. Bypass the
+        // interceptor, the entry would be captured and passed back here.
+        originalConsole.error("[ConsoleLogService] Log subscriber failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of captured entries not yet written to the database.
+   */
+  getBufferSize(): number {
+    return this.buffer.length;
+  }
+
   /**
    * Flush any remaining buffered logs and stop the service.
    * Should be called during graceful shutdown before closing the database.
@@ -190,6 +314,8 @@ export class ConsoleLogService {
           level: entry.level,
           message: entry.message,
           args: entry.args ?? undefined, // NONE instead of NULL
+          fields: entry.fields,
+          parentRequestId: entry.parentRequestId,
           sequence: entry.sequenceInBatch,
           timestamp: entry.capturedAt,
         };
@@ -206,10 +332,17 @@ export class ConsoleLogService {
    * Refresh settings from database if the refresh interval has elapsed.
    */
   private async maybeRefreshSettings(): Promise<void> {
-    const now = Date.now();
-    if (now - this.lastSettingsRefresh < this.settingsRefreshIntervalMs) return;
+    if (Date.now() - this.lastSettingsRefresh < this.settingsRefreshIntervalMs) return;
+    await this.refreshSettings();
+  }
 
-    this.lastSettingsRefresh = now;
+  /**
+   * Load batching and redaction settings from the database.
+   * Called at startup so custom redaction patterns apply from the first entry,
+   * afterwards settings are refreshed periodically after flushes.
+   */
+  async refreshSettings(): Promise<void> {
+    this.lastSettingsRefresh = Date.now();
     try {
       const batchSizeStr = await this.settingsService.getGlobalSetting(
         SettingNames.LOG_BATCHING_MAX_BATCH_SIZE
@@ -231,6 +364,13 @@ export class ConsoleLogService {
           this.maxDelayMs = parsed;
         }
       }
+
+      const patternsStr = await this.settingsService.getGlobalSetting(
+        SettingNames.LOG_REDACTION_PATTERNS
+      );
+      if (patternsStr !== undefined) {
+        this.redactionPatterns = compileRedactionPatterns(patternsStr);
+      }
     } catch (error) {
       globalThis.console.error("[ConsoleLogService] Failed to refresh settings:", error);
     }
@@ -252,6 +392,23 @@ export class ConsoleLogService {
     });
   }
 
+  /**
+   * Retrieve the exec_start logs of invocations made by a request via ctx.invoke().
+   * Results are ordered from oldest to newest (call order).
+   */
+  async getChildInvocations(parentRequestId: string): Promise<ConsoleLog[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[ExecutionLogRow[]]>(
+        `SELECT *, timestamp as ts, sequence as seq FROM executionLog
+         WHERE parentRequestId = $parentRequestId AND level = "exec_start"
+         ORDER BY ts ASC, seq ASC`,
+        { parentRequestId }
+      );
+
+      return (rows ?? []).map((row) => this.rowToConsoleLog(row));
+    });
+  }
+
   /**
    * Retrieve logs for a specific function.
    * Results are ordered from newest to oldest.
@@ -339,9 +496,11 @@ export class ConsoleLogService {
    * Retrieve logs with cursor-based pagination.
    * Results are ordered from newest to oldest.
    * Cursor combines timestamp and RecordId to handle same-timestamp ambiguity.
+   * Search uses the full-text indexes on message and args.
+   * Field filters match ctx.log entries whose field equals one of the given values.
    */
   async getPaginated(options: GetPaginatedOptions): Promise<PaginatedLogsResult> {
-    const { functionId, levels, limit, cursor } = options;
+    const { functionId, levels, search, requestId, from, to, fields, limit, cursor } = options;
 
     // Validate limit
     if (limit < 1 || limit > 1000) {
@@ -376,6 +535,35 @@ export class ConsoleLogService {
         params.levels = levels;
       }
 
+      // Add full-text search if provided
+      if (search !== undefined && search.trim().length > 0) {
+        conditions.push("(message @0@ $search OR args @1@ $search)");
+        params.search = search.trim();
+      }
+
+      // Add requestId filter if provided
+      if (requestId !== undefined) {
+        conditions.push("requestId = $requestId");
+        params.requestId = requestId;
+      }
+
+      // Add time range filters if provided
+      if (from !== undefined) {
+        conditions.push("timestamp >= $from");
+        params.from = from;
+      }
+      if (to !== undefined) {
+        conditions.push("timestamp < $to");
+        params.to = to;
+      }
+
+      // Add structured field filters if provided (keys are bound as parameters, not inlined)
+      Object.entries(fields ?? {}).forEach(([key, values], i) => {
+        conditions.push(`fields[$fieldKey${i}] IN $fieldValues${i}`);
+        params[`fieldKey${i}`] = key;
+        params[`fieldValues${i}`] = values;
+      });
+
       // Add cursor filter if provided
       if (cursorData) {
         conditions.push(
@@ -566,6 +754,8 @@ export class ConsoleLogService {
       level: row.level as ConsoleLog["level"],
       message: row.message,
       args: row.args ?? undefined,
+      fields: row.fields ?? undefined,
+      parentRequestId: row.parentRequestId,
       sequence: row.sequence,
       timestamp: new Date(row.timestamp),
     };
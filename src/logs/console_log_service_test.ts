@@ -2,6 +2,8 @@ import { integrationTest } from "../test/test_helpers.ts";
 import { expect } from "@std/expect";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import type { BaseTestContext, LogsContext, FunctionsContext } from "../test/types.ts";
+import type { LiveConsoleLog } from "./types.ts";
+import { SettingNames } from "../settings/types.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 
 type LogsTestContext = BaseTestContext & LogsContext & FunctionsContext & {
@@ -325,6 +327,33 @@ integrationTest("ConsoleLogService stores all log levels", async () => {
   }
 });
 
+integrationTest("ConsoleLogService passes matching entries to subscribers before flushing", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    const received: LiveConsoleLog[] = [];
+    const unsubscribe = ctx.consoleLogService.subscribe(
+      { functionId: ctx.functionId1, levels: ["error", "warn"] },
+      (log) => received.push(log),
+    );
+
+    ctx.consoleLogService.store({ requestId: "r1", functionId: ctx.functionId1, level: "error", message: "boom" });
+    ctx.consoleLogService.store({ requestId: "r1", functionId: ctx.functionId1, level: "log", message: "skipped level" });
+    ctx.consoleLogService.store({ requestId: "r2", functionId: ctx.functionId2, level: "error", message: "other function" });
+
+    // Delivered synchronously from store(), before the batch is flushed
+    expect(received.map((log) => log.message)).toEqual(["boom"]);
+    expect(received[0].timestamp).toBeInstanceOf(Date);
+
+    unsubscribe();
+    ctx.consoleLogService.store({ requestId: "r1", functionId: ctx.functionId1, level: "warn", message: "after" });
+    expect(received.length).toBe(1);
+    expect(ctx.consoleLogService.getSubscriberCount()).toBe(0);
+  } finally {
+    await cleanup(ctx);
+  }
+});
+
 // =====================
 // trimToLimit tests
 // =====================
@@ -592,3 +621,175 @@ integrationTest("ConsoleLogService - getPaginated handles logs with same timesta
     await ctx.cleanup();
   }
 });
+
+integrationTest("ConsoleLogService - getPaginated searches message and args", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    ctx.consoleLogService.store({
+      requestId: "req1",
+      functionId: ctx.functionId1,
+      level: "info",
+      message: "Processing order 12345",
+    });
+    ctx.consoleLogService.store({
+      requestId: "req2",
+      functionId: ctx.functionId1,
+      level: "info",
+      message: "Charging card",
+      args: JSON.stringify([{ orderId: "order12345" }]),
+    });
+    ctx.consoleLogService.store({
+      requestId: "req3",
+      functionId: ctx.functionId2,
+      level: "info",
+      message: "Processing order 99999",
+    });
+
+    await ctx.consoleLogService.shutdown();
+
+    const byTerm = await ctx.consoleLogService.getPaginated({ search: "12345", limit: 10 });
+    expect(byTerm.logs.map((log) => log.requestId).sort()).toEqual(["req1", "req2"]);
+
+    // All terms must match, case-insensitively
+    const allTerms = await ctx.consoleLogService.getPaginated({ search: "PROCESSING 99999", limit: 10 });
+    expect(allTerms.logs.map((log) => log.requestId)).toEqual(["req3"]);
+
+    const withFunction = await ctx.consoleLogService.getPaginated({
+      functionId: ctx.functionId2,
+      search: "12345",
+      limit: 10,
+    });
+    expect(withFunction.logs).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("ConsoleLogService - getPaginated filters by requestId and time range", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    ctx.consoleLogService.store({ requestId: "req1", functionId: ctx.functionId1, level: "info", message: "First" });
+    await ctx.consoleLogService.flush();
+    const between = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    ctx.consoleLogService.store({ requestId: "req2", functionId: ctx.functionId1, level: "info", message: "Second" });
+    ctx.consoleLogService.store({ requestId: "req2", functionId: ctx.functionId1, level: "info", message: "Third" });
+
+    await ctx.consoleLogService.shutdown();
+
+    const byRequest = await ctx.consoleLogService.getPaginated({ requestId: "req2", limit: 10 });
+    expect(byRequest.logs.map((log) => log.message)).toEqual(["Third", "Second"]);
+
+    const before = await ctx.consoleLogService.getPaginated({ to: between, limit: 10 });
+    expect(before.logs.map((log) => log.message)).toEqual(["First"]);
+
+    const after = await ctx.consoleLogService.getPaginated({ from: between, limit: 10 });
+    expect(after.logs.map((log) => log.message)).toEqual(["Third", "Second"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// =====================
+// Redaction tests
+// =====================
+
+integrationTest("ConsoleLogService redacts the request's secrets and pattern matches before storing", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    const received: LiveConsoleLog[] = [];
+    ctx.consoleLogService.subscribe({}, (log) => received.push(log));
+    const context = { requestId: "req1", functionId: ctx.functionId1, resolvedSecrets: new Set(["s3cr3t-value"]) };
+
+    ctx.consoleLogService.store({
+      requestId: "req1",
+      functionId: ctx.functionId1,
+      level: "log",
+      message: "config loaded",
+      args: JSON.stringify([{ apiKey: "s3cr3t-value", card: "4242-4242-4242-4242" }]),
+    }, context);
+    // Another request's entry isn't redacted with this request's secrets
+    ctx.consoleLogService.store({
+      requestId: "req2",
+      functionId: ctx.functionId1,
+      level: "log",
+      message: "s3cr3t-value",
+    }, context);
+
+    expect(received[0].args).toBe('[{"apiKey":"[REDACTED]","card":"[REDACTED]"}]');
+
+    await ctx.consoleLogService.shutdown();
+    const [stored] = await ctx.consoleLogService.getByRequestId("req1");
+    expect(stored.args).toBe('[{"apiKey":"[REDACTED]","card":"[REDACTED]"}]');
+    const [other] = await ctx.consoleLogService.getByRequestId("req2");
+    expect(other.message).toBe("s3cr3t-value");
+  } finally {
+    await cleanup(ctx);
+  }
+});
+
+integrationTest("ConsoleLogService applies redaction patterns from settings", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    await ctx.settingsService.setGlobalSetting(SettingNames.LOG_REDACTION_PATTERNS, "order-\\d+");
+    await ctx.consoleLogService.refreshSettings();
+
+    ctx.consoleLogService.store({
+      requestId: "req1",
+      functionId: ctx.functionId1,
+      level: "log",
+      message: "paid order-123 with 4242-4242-4242-4242",
+    });
+
+    await ctx.consoleLogService.shutdown();
+    const [stored] = await ctx.consoleLogService.getByRequestId("req1");
+    expect(stored.message).toBe("paid [REDACTED] with 4242-4242-4242-4242");
+  } finally {
+    await cleanup(ctx);
+  }
+});
+
+integrationTest("ConsoleLogService stores ctx.log fields and filters on them", async () => {
+  const ctx = await createTestSetup();
+
+  try {
+    const context = { requestId: "req1", functionId: ctx.functionId1, resolvedSecrets: new Set(["s3cr3t-value"]) };
+    ctx.consoleLogService.store({
+      requestId: "req1",
+      functionId: ctx.functionId1,
+      level: "info",
+      message: "order paid",
+      fields: { userId: 42, plan: "pro", token: "s3cr3t-value", trial: false },
+    }, context);
+    ctx.consoleLogService.store({
+      requestId: "req1",
+      functionId: ctx.functionId1,
+      level: "info",
+      message: "order shipped",
+      fields: { userId: "7" },
+    }, context);
+    ctx.consoleLogService.store({ requestId: "req1", functionId: ctx.functionId1, level: "log", message: "plain" });
+    await ctx.consoleLogService.flush();
+
+    const [stored] = await ctx.consoleLogService.getByRequestId("req1");
+    expect(stored.fields).toEqual({ userId: 42, plan: "pro", token: "[REDACTED]", trial: false });
+
+    const byUser = await ctx.consoleLogService.getPaginated({ fields: { userId: ["42", 42] }, limit: 10 });
+    expect(byUser.logs.map((log) => log.message)).toEqual(["order paid"]);
+
+    const byEither = await ctx.consoleLogService.getPaginated({ fields: { userId: [42, "7"] }, limit: 10 });
+    expect(byEither.logs.map((log) => log.message)).toEqual(["order shipped", "order paid"]);
+
+    const byTwo = await ctx.consoleLogService.getPaginated({
+      fields: { userId: [42], trial: [true] },
+      limit: 10,
+    });
+    expect(byTwo.logs).toEqual([]);
+  } finally {
+    await cleanup(ctx);
+  }
+});
@@ -0,0 +1,21 @@
+import { serializeFields } from "./log_serialization.ts";
+import type { ConsoleLogLevel, FunctionLogger, LogFields } from "./types.ts";
+
+/** Writes a ctx.log entry (to the log service, or to the main thread from a worker) */
+export type FunctionLogWriter = (level: ConsoleLogLevel, message: string, fields?: LogFields) => void;
+
+/**
+ * Create the ctx.log logger of an invocation.
+ * Fields are serialized before they are passed to the writer.
+ */
+export function createFunctionLogger(write: FunctionLogWriter): FunctionLogger {
+  const method = (level: ConsoleLogLevel) => (message: string, fields?: Record<string, unknown>) =>
+    write(level, String(message), serializeFields(fields));
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
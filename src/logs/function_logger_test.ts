@@ -0,0 +1,39 @@
+import { expect } from "@std/expect";
+import { createFunctionLogger } from "./function_logger.ts";
+import type { ConsoleLogLevel, LogFields } from "./types.ts";
+
+Deno.test("createFunctionLogger writes entries with serialized fields", () => {
+  const written: { level: ConsoleLogLevel; message: string; fields?: LogFields }[] = [];
+  const log = createFunctionLogger((level, message, fields) => written.push({ level, message, fields }));
+
+  log.info("order paid", {
+    userId: 42,
+    plan: "pro",
+    trial: false,
+    coupon: null,
+    skipped: undefined,
+    paidAt: new Date("2026-01-01T00:00:00Z"),
+    items: ["a", "b"],
+    ratio: NaN,
+  });
+  log.warn("retrying");
+  log.error("failed", { skipped: undefined });
+
+  expect(written).toEqual([
+    {
+      level: "info",
+      message: "order paid",
+      fields: {
+        userId: 42,
+        plan: "pro",
+        trial: false,
+        coupon: null,
+        paidAt: "2026-01-01T00:00:00.000Z",
+        items: '["a","b"]',
+        ratio: "NaN",
+      },
+    },
+    { level: "warn", message: "retrying", fields: undefined },
+    { level: "error", message: "failed", fields: undefined },
+  ]);
+});
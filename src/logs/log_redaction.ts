@@ -0,0 +1,82 @@
+/** Replacement of redacted values in captured logs */
+export const REDACTED = "[REDACTED]";
+
+/** Secrets shorter than this aren't redacted - they would match too much unrelated text */
+export const MIN_REDACTED_SECRET_LENGTH = 4;
+
+/**
+ * Default redaction patterns, one regular expression per line:
+ * bearer tokens, card numbers, Stripe secret keys, GitHub tokens and AWS access key IDs.
+ */
+export const DEFAULT_REDACTION_PATTERNS = [
+  String.raw`Bearer\s+[A-Za-z0-9._~+/-]+=*`,
+  String.raw`\b(?:\d{4}[ -]?){3}\d{4}\b`,
+  String.raw`\b[sr]k_(?:live|test)_[A-Za-z0-9]{10,}\b`,
+  String.raw`\bgh[pousr]_[A-Za-z0-9]{36,}\b`,
+  String.raw`\bAKIA[0-9A-Z]{16}\b`,
+].join("\n");
+
+function splitPatterns(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Validate a redaction pattern list (one regular expression per line).
+ * @returns Error message for the first invalid pattern, or null if all are valid
+ */
+export function validateRedactionPatterns(value: string): string | null {
+  for (const pattern of splitPatterns(value)) {
+    try {
+      new RegExp(pattern, "g");
+    } catch (error) {
+      return `Invalid pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Compile a redaction pattern list (one regular expression per line).
+ * Invalid patterns are skipped.
+ */
+export function compileRedactionPatterns(value: string): RegExp[] {
+  const patterns: RegExp[] = [];
+  for (const pattern of splitPatterns(value)) {
+    try {
+      patterns.push(new RegExp(pattern, "g"));
+    } catch {
+      // Rejected when saving the setting - only reachable for values written directly to the database
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Replace secret values and pattern matches in a text with [REDACTED].
+ *
+ * Secrets are also matched in their JSON-escaped form, as console arguments
+ * are stored JSON-serialized.
+ */
+export function redactText(text: string, secrets: Iterable<string>, patterns: RegExp[]): string {
+  let result = text;
+
+  // Longest first, so a secret containing another one is redacted as a whole
+  const values = [...secrets]
+    .filter((secret) => secret.length >= MIN_REDACTED_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  for (const secret of values) {
+    result = result.replaceAll(secret, REDACTED);
+    const escaped = JSON.stringify(secret).slice(1, -1);
+    if (escaped !== secret) {
+      result = result.replaceAll(escaped, REDACTED);
+    }
+  }
+
+  for (const pattern of patterns) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
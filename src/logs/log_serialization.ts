@@ -0,0 +1,60 @@
+/**
+ * Serialization of console arguments and ctx.log fields for log storage.
+ * Shared by the in-process stream interceptor and worker-isolated handlers.
+ */
+
+import type { LogFields, LogFieldValue } from "./types.ts";
+
+/**
+ * Serialize a value to a string for storage.
+ */
+export function serializeMessage(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Serialize additional arguments to JSON for storage.
+ */
+export function serializeArgs(args: unknown[]): string | undefined {
+  if (args.length === 0) return undefined;
+
+  try {
+    return JSON.stringify(args);
+  } catch {
+    // If JSON serialization fails, convert each arg to string
+    return JSON.stringify(args.map((arg) => String(arg)));
+  }
+}
+
+/**
+ * Convert ctx.log fields to storable values.
+ * Strings, finite numbers, booleans and null are kept as they are, dates become
+ * ISO strings and other values are serialized. Undefined fields are dropped.
+ * @returns undefined if no fields remain
+ */
+export function serializeFields(fields: Record<string, unknown> | undefined): LogFields | undefined {
+  if (!fields) return undefined;
+
+  const result: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    result[key] = serializeFieldValue(value);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function serializeFieldValue(value: unknown): LogFieldValue {
+  if (value === null || typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : String(value);
+  if (value instanceof Date) return isNaN(value.getTime()) ? String(value) : value.toISOString();
+  if (typeof value === "bigint") return value.toString();
+  return serializeMessage(value);
+}
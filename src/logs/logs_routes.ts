@@ -1,14 +1,148 @@
-import { Hono } from "@hono/hono";
+import { Hono, type Context } from "@hono/hono";
+import { streamSSE } from "@hono/hono/streaming";
 import type { ConsoleLogService } from "./console_log_service.ts";
 import type { FunctionsService } from "../routes/functions_service.ts";
 import { validateSurrealId } from "../validation/common.ts";
-import type { ConsoleLogLevel } from "./types.ts";
+import type { ConsoleLogLevel, LiveConsoleLog, LogFieldValue } from "./types.ts";
 
 export interface LogsRoutesOptions {
   consoleLogService: ConsoleLogService;
   functionsService: FunctionsService;
 }
 
+const VALID_LEVELS = new Set<ConsoleLogLevel>([
+  "log", "debug", "info", "warn", "error", "trace",
+  "stdout", "stderr", "exec_start", "exec_end", "exec_reject", "outbound",
+]);
+
+/** Maximum length of the full-text search query */
+const MAX_SEARCH_LENGTH = 200;
+
+/** Query parameter prefix of structured field filters (field.userId=42) */
+const FIELD_FILTER_PREFIX = "field.";
+
+/** Maximum number of distinct fields filtered on in one query */
+const MAX_FIELD_FILTERS = 10;
+
+/** Allowed names of filtered fields */
+const FIELD_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+/** Interval of keep-alive comments on idle log streams (keeps proxies from closing them) */
+const STREAM_KEEPALIVE_MS = 15000;
+
+/** Entries queued for a slow stream client before the oldest are dropped */
+const STREAM_MAX_PENDING = 1000;
+
+type FilterParseResult<T> =
+  | { value: T | undefined; error?: undefined }
+  | { error: string; status: 400 | 404 };
+
+/**
+ * Parse the optional functionId query parameter and verify the function exists.
+ */
+async function parseFunctionId(
+  c: Context,
+  functionsService: FunctionsService,
+): Promise<FilterParseResult<string>> {
+  const functionIdParam = c.req.query("functionId");
+  if (!functionIdParam) {
+    return { value: undefined };
+  }
+
+  const parsed = validateSurrealId(functionIdParam);
+  if (parsed === null) {
+    return { error: "Invalid functionId parameter", status: 400 };
+  }
+
+  // Verify function exists
+  const func = await functionsService.getById(parsed);
+  if (!func) {
+    return { error: `Function with id ${parsed} not found`, status: 404 };
+  }
+
+  return { value: parsed };
+}
+
+/**
+ * Parse the optional level query parameter (comma-separated).
+ */
+function parseLevels(c: Context): FilterParseResult<ConsoleLogLevel[]> {
+  const levelParam = c.req.query("level");
+  if (!levelParam) {
+    return { value: undefined };
+  }
+
+  const requestedLevels = levelParam.split(",").map((l) => l.trim());
+  const invalidLevels = requestedLevels.filter((l) =>
+    !VALID_LEVELS.has(l as ConsoleLogLevel)
+  );
+
+  if (invalidLevels.length > 0) {
+    return {
+      error: `Invalid level values: ${invalidLevels.join(", ")}. Valid levels: ${
+        Array.from(VALID_LEVELS).join(", ")
+      }`,
+      status: 400,
+    };
+  }
+
+  return { value: requestedLevels as ConsoleLogLevel[] };
+}
+
+/**
+ * Parse an optional ISO 8601 timestamp query parameter.
+ */
+function parseTimestamp(c: Context, name: string): FilterParseResult<Date> {
+  const param = c.req.query(name);
+  if (!param) {
+    return { value: undefined };
+  }
+
+  const date = new Date(param);
+  if (isNaN(date.getTime())) {
+    return { error: `Invalid ${name} parameter. Must be an ISO 8601 timestamp`, status: 400 };
+  }
+  return { value: date };
+}
+
+/**
+ * Parse the optional field.<name> query parameters (repeatable per field).
+ * @returns The raw values by field name
+ */
+function parseFieldFilters(c: Context): FilterParseResult<Record<string, string[]>> {
+  const filters: Record<string, string[]> = {};
+  for (const [param, values] of Object.entries(c.req.queries())) {
+    if (!param.startsWith(FIELD_FILTER_PREFIX)) continue;
+
+    const name = param.slice(FIELD_FILTER_PREFIX.length);
+    if (!FIELD_NAME_PATTERN.test(name)) {
+      return { error: `Invalid field filter name: ${name}`, status: 400 };
+    }
+    filters[name] = values;
+  }
+
+  if (Object.keys(filters).length > MAX_FIELD_FILTERS) {
+    return { error: `Too many field filters. At most ${MAX_FIELD_FILTERS} fields can be filtered on`, status: 400 };
+  }
+  return { value: Object.keys(filters).length > 0 ? filters : undefined };
+}
+
+/**
+ * Get the stored values a field filter value matches. Query values are
+ * untyped, so "42" matches both the number 42 and the string "42".
+ */
+function fieldFilterValues(raw: string): LogFieldValue[] {
+  const values: LogFieldValue[] = [raw];
+  if (raw === "true" || raw === "false") {
+    values.push(raw === "true");
+  } else if (raw === "null") {
+    values.push(null);
+  } else if (/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(raw) && Number.isFinite(Number(raw))) {
+    values.push(Number(raw));
+  }
+  return values;
+}
+
 export function createLogsRoutes(options: LogsRoutesOptions): Hono {
   const { consoleLogService, functionsService } = options;
   const routes = new Hono();
@@ -16,55 +150,52 @@ export function createLogsRoutes(options: LogsRoutesOptions): Hono {
   // GET /api/logs - Query logs with optional filtering
   routes.get("/", async (c) => {
     // 1. Parse and validate functionId (optional)
-    const functionIdParam = c.req.query("functionId");
-    let functionId: string | undefined;
-
-    if (functionIdParam) {
-      const parsed = validateSurrealId(functionIdParam);
-      if (parsed === null) {
-        return c.json({ error: "Invalid functionId parameter" }, 400);
-      }
-
-      // Verify function exists
-      const func = await functionsService.getById(parsed);
-      if (!func) {
-        return c.json({ error: `Function with id ${parsed} not found` }, 404);
-      }
-
-      functionId = parsed;
+    const functionIdResult = await parseFunctionId(c, functionsService);
+    if (functionIdResult.error !== undefined) {
+      return c.json({ error: functionIdResult.error }, functionIdResult.status);
     }
+    const functionId = functionIdResult.value;
 
     // 2. Parse and validate level (optional, comma-separated)
-    const levelParam = c.req.query("level");
-    let levels: ConsoleLogLevel[] | undefined;
-
-    if (levelParam) {
-      const validLevels = new Set<ConsoleLogLevel>([
-        "log", "debug", "info", "warn", "error", "trace",
-        "stdout", "stderr", "exec_start", "exec_end", "exec_reject",
-      ]);
-
-      const requestedLevels = levelParam.split(",").map((l) => l.trim());
-      const invalidLevels = requestedLevels.filter((l) =>
-        !validLevels.has(l as ConsoleLogLevel)
+    const levelsResult = parseLevels(c);
+    if (levelsResult.error !== undefined) {
+      return c.json({ error: levelsResult.error }, levelsResult.status);
+    }
+    const levels = levelsResult.value;
+
+    // 3. Parse search, requestId, time range and field filters (all optional)
+    const search = c.req.query("q")?.trim() || undefined;
+    if (search !== undefined && search.length > MAX_SEARCH_LENGTH) {
+      return c.json(
+        { error: `Invalid q parameter. Must be at most ${MAX_SEARCH_LENGTH} characters` },
+        400,
       );
+    }
 
-      if (invalidLevels.length > 0) {
-        return c.json(
-          {
-            error:
-              `Invalid level values: ${invalidLevels.join(", ")}. Valid levels: ${
-                Array.from(validLevels).join(", ")
-              }`,
-          },
-          400,
-        );
-      }
+    const requestId = c.req.query("requestId")?.trim() || undefined;
+
+    const fromResult = parseTimestamp(c, "from");
+    if (fromResult.error !== undefined) {
+      return c.json({ error: fromResult.error }, fromResult.status);
+    }
+    const toResult = parseTimestamp(c, "to");
+    if (toResult.error !== undefined) {
+      return c.json({ error: toResult.error }, toResult.status);
+    }
+    const from = fromResult.value;
+    const to = toResult.value;
+
+    if (from && to && from >= to) {
+      return c.json({ error: "Invalid time range. from must be before to" }, 400);
+    }
 
-      levels = requestedLevels as ConsoleLogLevel[];
+    const fieldsResult = parseFieldFilters(c);
+    if (fieldsResult.error !== undefined) {
+      return c.json({ error: fieldsResult.error }, fieldsResult.status);
     }
+    const fieldFilters = fieldsResult.value;
 
-    // 3. Parse and validate limit
+    // 4. Parse and validate limit
     const limitParam = c.req.query("limit");
     const limit = limitParam ? parseInt(limitParam, 10) : 50;
 
@@ -75,19 +206,26 @@ export function createLogsRoutes(options: LogsRoutesOptions): Hono {
       );
     }
 
-    // 4. Get cursor (service validates format)
+    // 5. Get cursor (service validates format)
     const cursor = c.req.query("cursor");
 
-    // 5. Query logs
+    // 6. Query logs
     try {
       const result = await consoleLogService.getPaginated({
         functionId,
         levels,
+        search,
+        requestId,
+        from,
+        to,
+        fields: fieldFilters && Object.fromEntries(
+          Object.entries(fieldFilters).map(([name, values]) => [name, values.flatMap(fieldFilterValues)]),
+        ),
         limit,
         cursor,
       });
 
-      // 6. Build HATEOAS pagination links
+      // 7. Build HATEOAS pagination links
       const baseUrl = "/api/logs";
       const queryParams = new URLSearchParams();
 
@@ -97,6 +235,23 @@ export function createLogsRoutes(options: LogsRoutesOptions): Hono {
       if (levels !== undefined) {
         queryParams.set("level", levels.join(","));
       }
+      if (search !== undefined) {
+        queryParams.set("q", search);
+      }
+      if (requestId !== undefined) {
+        queryParams.set("requestId", requestId);
+      }
+      if (from !== undefined) {
+        queryParams.set("from", from.toISOString());
+      }
+      if (to !== undefined) {
+        queryParams.set("to", to.toISOString());
+      }
+      for (const [name, values] of Object.entries(fieldFilters ?? {})) {
+        for (const value of values) {
+          queryParams.append(`${FIELD_FILTER_PREFIX}${name}`, value);
+        }
+      }
       queryParams.set("limit", String(limit));
 
       const pagination: Record<string, unknown> = {
@@ -132,6 +287,78 @@ export function createLogsRoutes(options: LogsRoutesOptions): Hono {
     }
   });
 
+  // GET /api/logs/stream - Follow new logs as Server-Sent Events
+  routes.get("/stream", async (c) => {
+    const functionIdResult = await parseFunctionId(c, functionsService);
+    if (functionIdResult.error !== undefined) {
+      return c.json({ error: functionIdResult.error }, functionIdResult.status);
+    }
+
+    const levelsResult = parseLevels(c);
+    if (levelsResult.error !== undefined) {
+      return c.json({ error: levelsResult.error }, levelsResult.status);
+    }
+
+    const filter = {
+      functionId: functionIdResult.value,
+      levels: levelsResult.value,
+      requestId: c.req.query("requestId") || undefined,
+    };
+
+    return streamSSE(c, async (stream) => {
+      // Entries are captured synchronously, so queue them and write from this loop
+      const pending: LiveConsoleLog[] = [];
+      let dropped = 0;
+      let wake: (() => void) | null = null;
+
+      const unsubscribe = consoleLogService.subscribe(filter, (log) => {
+        pending.push(log);
+        if (pending.length > STREAM_MAX_PENDING) {
+          pending.shift();
+          dropped++;
+        }
+        wake?.();
+      });
+      stream.onAbort(() => {
+        unsubscribe();
+        wake?.();
+      });
+
+      try {
+        await stream.writeSSE({ event: "ready", data: JSON.stringify(filter) });
+
+        while (!stream.aborted) {
+          if (pending.length === 0) {
+            let keepaliveTimer: number | undefined;
+            await new Promise<void>((resolve) => {
+              wake = resolve;
+              keepaliveTimer = setTimeout(resolve, STREAM_KEEPALIVE_MS);
+            });
+            clearTimeout(keepaliveTimer);
+            wake = null;
+
+            if (pending.length === 0) {
+              if (!stream.aborted) {
+                await stream.write(": keepalive\n\n");
+              }
+              continue;
+            }
+          }
+
+          if (dropped > 0) {
+            await stream.writeSSE({ event: "dropped", data: JSON.stringify({ count: dropped }) });
+            dropped = 0;
+          }
+          for (const log of pending.splice(0)) {
+            await stream.writeSSE({ event: "log", data: JSON.stringify(log) });
+          }
+        }
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
+
   // DELETE /api/logs/:functionId - Delete logs for specific function
   routes.delete("/:functionId", async (c) => {
     const functionId = validateSurrealId(c.req.param("functionId"));
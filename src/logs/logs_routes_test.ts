@@ -776,3 +776,134 @@ integrationTest("GET /api/logs HATEOAS links are relative paths", async () => {
     await ctx.cleanup();
   }
 });
+
+// GET /api/logs - Search
+
+integrationTest("GET /api/logs searches logs and keeps filters in pagination links", async () => {
+  const ctx = await createTestContext();
+  try {
+    const functionId = recordIdToString(ctx.routes.route1.id);
+    await insertLogs(ctx.consoleLogService, functionId, 3);
+    ctx.consoleLogService.store({ requestId: "req-a", functionId, level: "info", message: "order 12345 paid" });
+    ctx.consoleLogService.store({ requestId: "req-b", functionId, level: "info", message: "order 12345 shipped" });
+    await ctx.consoleLogService.flush();
+
+    const res = await ctx.app.request("/api/logs?q=12345&limit=1");
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.logs.length).toBe(1);
+    expect(json.data.logs[0].message).toBe("order 12345 shipped");
+    expect(json.data.pagination.next).toContain("q=12345");
+
+    const byRequest = await (await ctx.app.request("/api/logs?requestId=req-a")).json();
+    expect(byRequest.data.logs.map((log: ConsoleLog) => log.message)).toEqual(["order 12345 paid"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/logs validates search and time range parameters", async () => {
+  const ctx = await createTestContext();
+  try {
+    expect((await ctx.app.request("/api/logs?from=yesterday")).status).toBe(400);
+    expect((await ctx.app.request(
+      "/api/logs?from=2026-01-02T00:00:00Z&to=2026-01-01T00:00:00Z",
+    )).status).toBe(400);
+    expect((await ctx.app.request(`/api/logs?q=${"a".repeat(201)}`)).status).toBe(400);
+
+    const res = await ctx.app.request("/api/logs?from=2026-01-01T00:00:00Z&to=2026-01-02T00:00:00Z");
+    expect(res.status).toBe(200);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/logs filters on ctx.log fields", async () => {
+  const ctx = await createTestContext();
+  try {
+    const functionId = recordIdToString(ctx.routes.route1.id);
+    ctx.consoleLogService.store({
+      requestId: "req-a", functionId, level: "info", message: "signed in", fields: { userId: 42, admin: true },
+    });
+    ctx.consoleLogService.store({
+      requestId: "req-b", functionId, level: "info", message: "signed out", fields: { userId: "42" },
+    });
+    ctx.consoleLogService.store({
+      requestId: "req-c", functionId, level: "info", message: "other user", fields: { userId: 43 },
+    });
+    await ctx.consoleLogService.flush();
+
+    const res = await ctx.app.request("/api/logs?field.userId=42&limit=1");
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.logs[0].fields).toEqual({ userId: "42" });
+    expect(json.data.pagination.next).toContain("field.userId=42");
+
+    const next = await (await ctx.app.request(json.data.pagination.next)).json();
+    expect(next.data.logs.map((log: ConsoleLog) => log.message)).toEqual(["signed in"]);
+
+    const both = await (await ctx.app.request("/api/logs?field.userId=42&field.admin=true")).json();
+    expect(both.data.logs.map((log: ConsoleLog) => log.message)).toEqual(["signed in"]);
+
+    expect((await ctx.app.request("/api/logs?field.=1")).status).toBe(400);
+    expect((await ctx.app.request("/api/logs?field.user%20id=1")).status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+// GET /api/logs/stream - Live Tail
+
+integrationTest("GET /api/logs/stream pushes matching entries as Server-Sent Events", async () => {
+  const ctx = await createTestContext();
+  try {
+    const functionId = recordIdToString(ctx.routes.route1.id);
+    const res = await ctx.app.request(`/api/logs/stream?functionId=${functionId}&level=error`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let received = "";
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error(`Stream ended before "${text}"`);
+        received += value;
+      }
+    };
+    await readUntil("event: ready");
+
+    ctx.consoleLogService.store({ requestId: "req-1", functionId, level: "log", message: "ignored level" });
+    ctx.consoleLogService.store({
+      requestId: "req-2",
+      functionId: recordIdToString(ctx.routes.route2.id),
+      level: "error",
+      message: "other function",
+    });
+    ctx.consoleLogService.store({ requestId: "req-3", functionId, level: "error", message: "streamed" });
+    await readUntil("streamed");
+
+    const events = received.split("\n\n").filter((event) => event.startsWith("event: log"));
+    expect(events.length).toBe(1);
+    const log = JSON.parse(events[0].split("data: ")[1]);
+    expect(log).toMatchObject({ requestId: "req-3", functionId, level: "error", message: "streamed" });
+
+    await reader.cancel();
+    expect(ctx.consoleLogService.getSubscriberCount()).toBe(0);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/logs/stream validates filters before streaming", async () => {
+  const ctx = await createTestContext();
+  try {
+    expect((await ctx.app.request("/api/logs/stream?level=verbose")).status).toBe(400);
+    expect((await ctx.app.request("/api/logs/stream?functionId=999999")).status).toBe(404);
+    expect(ctx.consoleLogService.getSubscriberCount()).toBe(0);
+  } finally {
+    await ctx.cleanup();
+  }
+});
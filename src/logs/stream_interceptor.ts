@@ -2,6 +2,7 @@ import process from "node:process";
 import type { ConsoleLogService } from "./console_log_service.ts";
 import type { ConsoleLogLevel } from "./types.ts";
 import { getCurrentRequestContext } from "./request_context.ts";
+import { serializeArgs, serializeMessage } from "./log_serialization.ts";
 
 /** Console methods that are intercepted */
 type InterceptedConsoleMethod = "log" | "debug" | "info" | "warn" | "error" | "trace";
@@ -316,32 +317,3 @@ export class StreamInterceptor {
     };
   }
 }
-
-/**
- * Serialize a value to a string for storage.
- */
-function serializeMessage(value: unknown): string {
-  if (typeof value === "string") return value;
-  if (value === undefined) return "undefined";
-  if (value === null) return "null";
-
-  try {
-    return JSON.stringify(value);
-  } catch {
-    return String(value);
-  }
-}
-
-/**
- * Serialize additional arguments to JSON for storage.
- */
-function serializeArgs(args: unknown[]): string | undefined {
-  if (args.length === 0) return undefined;
-
-  try {
-    return JSON.stringify(args);
-  } catch {
-    // If JSON serialization fails, convert each arg to string
-    return JSON.stringify(args.map((arg) => String(arg)));
-  }
-}
@@ -1,8 +1,17 @@
-/** Log levels captured from console methods, streams, and execution events */
+import type { OutboundTracker } from "../outbound/outbound_tracker.ts";
+
+/** Log levels captured from console methods, streams, execution events and outbound calls */
 export type ConsoleLogLevel =
   | "log" | "debug" | "info" | "warn" | "error" | "trace"
   | "stdout" | "stderr"
-  | "exec_start" | "exec_end" | "exec_reject";
+  | "exec_start" | "exec_end" | "exec_reject"
+  | "outbound";
+
+/** Value of a structured log field */
+export type LogFieldValue = string | number | boolean | null;
+
+/** Structured key/value fields of a log entry written via ctx.log */
+export type LogFields = Record<string, LogFieldValue>;
 
 /** A captured console log entry */
 export interface ConsoleLog {
@@ -12,19 +21,44 @@ export interface ConsoleLog {
   level: ConsoleLogLevel;
   message: string;
   args?: string; // JSON-serialized additional arguments
+  fields?: LogFields; // Structured fields (ctx.log entries only)
+  parentRequestId?: string; // Request that called this one via ctx.invoke() (set on exec_start only)
   sequence: number; // Sequence number within batch for ordering
   timestamp: Date;
 }
 
+/**
+ * Structured logger available to handlers as ctx.log.
+ * Fields are stored as typed key/value pairs and can be filtered on in /api/logs.
+ */
+export interface FunctionLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
 /** Context for the current request, stored in AsyncLocalStorage */
 export interface RequestContext {
   requestId: string;
   functionId: string;  // SurrealDB RecordId string of functionDef
+  resolvedSecrets?: Set<string>;  // Secret values read via ctx.getSecret() (redacted from the request's logs)
+  outbound?: OutboundTracker;  // Records the handler's fetch() calls
 }
 
 /** Input type for storing a new console log (id, sequence, and timestamp are auto-generated) */
 export type NewConsoleLog = Omit<ConsoleLog, "id" | "sequence" | "timestamp">;
 
+/** A log entry pushed to live subscribers as it is captured (not yet stored, so it has no id) */
+export type LiveConsoleLog = Omit<ConsoleLog, "id">;
+
+/** Filter of a live log subscription (entries must match every field that is set) */
+export interface LogSubscriptionFilter {
+  functionId?: string;  // SurrealDB RecordId string of functionDef
+  levels?: ConsoleLogLevel[];
+  requestId?: string;
+}
+
 /** Pagination cursor combining timestamp and sequence for robust pagination */
 export interface PaginationCursor {
   timestamp: string; // ISO timestamp
@@ -35,6 +69,11 @@ export interface PaginationCursor {
 export interface GetPaginatedOptions {
   functionId?: string;  // SurrealDB RecordId string of functionDef
   levels?: ConsoleLogLevel[]; // Optional log level filtering
+  search?: string; // Full-text search over message and args (all terms must match)
+  requestId?: string; // Only logs of this request
+  from?: Date; // Inclusive lower bound of the timestamp
+  to?: Date; // Exclusive upper bound of the timestamp
+  fields?: Record<string, LogFieldValue[]>; // Structured field filters (the field must equal one of the values)
   limit: number; // 1-1000
   cursor?: string; // base64-encoded PaginationCursor
 }
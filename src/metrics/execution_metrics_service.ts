@@ -1,5 +1,5 @@
 import { Mutex } from "@core/asyncutil/mutex";
-import { RecordId } from "surrealdb";
+import { RecordId, type Surreal } from "surrealdb";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import { toDate } from "../database/surreal_helpers.ts";
 import type {
@@ -7,24 +7,73 @@ import type {
   NewExecutionMetric,
   MetricType,
   AggregationResult,
+  ExecutionCounts,
   ExecutionMetricRow,
 } from "./types.ts";
 import { MetricTypeCode, MetricTypeFromCode } from "./types.ts";
+import { LatencySketch, sketchOf } from "./latency_sketch.ts";
 
 export interface ExecutionMetricsServiceOptions {
   surrealFactory: SurrealConnectionFactory;
 }
 
+/** Fields selected into ExecutionMetricRow (durations converted to microseconds) */
+const METRIC_FIELDS = `
+          id,
+          functionId,
+          type,
+          duration::micros(avgTime) as avgTimeUs,
+          duration::micros(maxTime) as maxTimeUs,
+          executionCount,
+          timeoutCount,
+          errorCount,
+          loadErrorCount,
+          status2xxCount,
+          status3xxCount,
+          status4xxCount,
+          status5xxCount,
+          outboundCallCount,
+          outboundTimeUs,
+          outcome,
+          statusCode,
+          latencySketch,
+          timestamp,
+          createdAt`;
+
+/** Counter fields summed during aggregation */
+const COUNT_FIELDS: (keyof ExecutionCounts)[] = [
+  "timeoutCount",
+  "errorCount",
+  "loadErrorCount",
+  "status2xxCount",
+  "status3xxCount",
+  "status4xxCount",
+  "status5xxCount",
+  "outboundCallCount",
+  "outboundTimeUs",
+];
+
+/** SELECT expressions summing the counter fields */
+const COUNT_SUMS = COUNT_FIELDS.map((field) => `math::sum(${field}) as ${field}`).join(",\n          ");
+
 // Row type for aggregation queries (microseconds)
-interface AggregationRow {
+type AggregationRow = { [K in keyof ExecutionCounts]: number | null } & {
   avgTimeUs: number | null;
   maxTimeUs: number | null;
   executionCount: number | null;
-}
+};
 
 // Row type for per-function aggregation queries
-interface PerFunctionAggregationRow extends AggregationRow {
+type PerFunctionAggregationRow = AggregationRow & {
   functionId: RecordId;
+};
+
+// Row type for collecting latency distributions during aggregation
+interface SketchRow {
+  functionId: RecordId;
+  avgTimeUs: number;
+  executionCount: number;
+  latencySketch?: string;
 }
 
 /**
@@ -60,27 +109,29 @@ export class ExecutionMetricsService {
         // - If metric.functionId exists (RecordId): Use $functionId parameter
         // - If metric.functionId is null/undefined: Use NONE literal to create field with NONE value
         // Note: Simply omitting the field doesn't work - field must be explicitly set to NONE
-        const query = metric.functionId
-          ? `CREATE executionMetric SET
-              functionId = $functionId,
-              type = $type,
-              avgTime = duration::from_micros($avgTimeUs),
-              maxTime = duration::from_micros($maxTimeUs),
-              executionCount = $executionCount,
-              timestamp = $timestamp`
-          : `CREATE executionMetric SET
-              functionId = none,
+        const fields = `
               type = $type,
               avgTime = duration::from_micros($avgTimeUs),
               maxTime = duration::from_micros($maxTimeUs),
               executionCount = $executionCount,
+              ${COUNT_FIELDS.map((field) => `${field} = $${field}`).join(",\n              ")},
+              outcome = $outcome,
+              statusCode = $statusCode,
+              latencySketch = $latencySketch,
               timestamp = $timestamp`;
+        const query = metric.functionId
+          ? `CREATE executionMetric SET functionId = $functionId, ${fields}`
+          : `CREATE executionMetric SET functionId = none, ${fields}`;
 
         const params: Record<string, unknown> = {
           type: MetricTypeCode[metric.type],
           avgTimeUs: Math.round(metric.avgTimeUs),
           maxTimeUs: Math.round(metric.maxTimeUs),
           executionCount: metric.executionCount,
+          ...countsOf(metric),
+          outcome: metric.outcome,
+          statusCode: metric.statusCode,
+          latencySketch: metric.latencySketch?.serialize(),
           timestamp: metric.timestamp ?? new Date(),
         };
 
@@ -210,15 +261,7 @@ export class ExecutionMetricsService {
     }
 
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
-      let query = `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+      let query = `SELECT ${METRIC_FIELDS}
         FROM executionMetric WHERE functionId = $functionId`;
       const params: Record<string, unknown> = { functionId };
 
@@ -249,15 +292,7 @@ export class ExecutionMetricsService {
 
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric ORDER BY timestamp DESC LIMIT $limit`,
         { limit }
       );
@@ -306,15 +341,7 @@ export class ExecutionMetricsService {
   ): Promise<ExecutionMetric[]> {
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric
          WHERE functionId = $functionId
            AND type = $type
@@ -338,15 +365,7 @@ export class ExecutionMetricsService {
   ): Promise<ExecutionMetric[]> {
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric
          WHERE functionId IS NONE
            AND type = $type
@@ -371,15 +390,7 @@ export class ExecutionMetricsService {
   ): Promise<ExecutionMetric[]> {
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric
          WHERE functionId IS NOT NONE
            AND type = $type
@@ -399,15 +410,7 @@ export class ExecutionMetricsService {
   async getMostRecentByType(type: MetricType): Promise<ExecutionMetric | null> {
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric
          WHERE type = $type
          ORDER BY timestamp DESC
@@ -426,15 +429,7 @@ export class ExecutionMetricsService {
   async getOldestByType(type: MetricType): Promise<ExecutionMetric | null> {
     return await this.surrealFactory.withSystemConnection({}, async (db) => {
       const [rows] = await db.query<[ExecutionMetricRow[]]>(
-        `SELECT
-          id,
-          functionId,
-          type,
-          duration::micros(avgTime) as avgTimeUs,
-          duration::micros(maxTime) as maxTimeUs,
-          executionCount,
-          timestamp,
-          createdAt
+        `SELECT ${METRIC_FIELDS}
         FROM executionMetric
          WHERE type = $type
          ORDER BY timestamp ASC
@@ -469,7 +464,8 @@ export class ExecutionMetricsService {
         `SELECT
           math::sum(duration::micros(avgTime) * executionCount) / math::sum(executionCount) as avgTimeUs,
           math::max(duration::micros(maxTime)) as maxTimeUs,
-          math::sum(executionCount) as executionCount
+          math::sum(executionCount) as executionCount,
+          ${COUNT_SUMS}
          FROM executionMetric
          WHERE type = $type
            AND functionId IS NOT NONE
@@ -484,11 +480,12 @@ export class ExecutionMetricsService {
         return null;
       }
 
-      return {
-        avgTimeUs: result.avgTimeUs ?? 0,
-        maxTimeUs: result.maxTimeUs ?? 0,
-        executionCount: result.executionCount,
-      };
+      const latencySketch = new LatencySketch();
+      for (const sketch of (await this.collectSketches(db, type, start, end)).values()) {
+        latencySketch.merge(sketch);
+      }
+
+      return this.toAggregationResult(result, latencySketch);
     });
   }
 
@@ -513,7 +510,8 @@ export class ExecutionMetricsService {
           functionId,
           math::sum(duration::micros(avgTime) * executionCount) / math::sum(executionCount) as avgTimeUs,
           math::max(duration::micros(maxTime)) as maxTimeUs,
-          math::sum(executionCount) as executionCount
+          math::sum(executionCount) as executionCount,
+          ${COUNT_SUMS}
          FROM executionMetric
          WHERE type = $type
            AND functionId IS NOT NONE
@@ -523,16 +521,13 @@ export class ExecutionMetricsService {
         { type: MetricTypeCode[type], start, end }
       );
 
+      const sketches = await this.collectSketches(db, type, start, end);
       const result = new Map<string, AggregationResult>();
       for (const row of rows ?? []) {
         if (row.executionCount !== null && row.executionCount > 0) {
           // Use RecordId's string representation as map key
           const key = row.functionId.id as string;
-          result.set(key, {
-            avgTimeUs: row.avgTimeUs ?? 0,
-            maxTimeUs: row.maxTimeUs ?? 0,
-            executionCount: row.executionCount,
-          });
+          result.set(key, this.toAggregationResult(row, sketches.get(key) ?? new LatencySketch()));
         }
       }
 
@@ -570,6 +565,61 @@ export class ExecutionMetricsService {
 
   // ============== Helper Methods ==============
 
+  /**
+   * Merge the latency distributions of all per-function records in a time window.
+   * @returns Map of functionId string to the merged sketch
+   */
+  private async collectSketches(
+    db: Surreal,
+    type: MetricType,
+    start: Date,
+    end: Date
+  ): Promise<Map<string, LatencySketch>> {
+    const [rows] = await db.query<[SketchRow[]]>(
+      `SELECT
+        functionId,
+        duration::micros(avgTime) as avgTimeUs,
+        executionCount,
+        latencySketch
+       FROM executionMetric
+       WHERE type = $type
+         AND functionId IS NOT NONE
+         AND timestamp >= $start
+         AND timestamp < $end`,
+      { type: MetricTypeCode[type], start, end }
+    );
+
+    const sketches = new Map<string, LatencySketch>();
+    for (const row of rows ?? []) {
+      const key = row.functionId.id as string;
+      let sketch = sketches.get(key);
+      if (!sketch) {
+        sketch = new LatencySketch();
+        sketches.set(key, sketch);
+      }
+      sketch.merge(sketchOf({
+        avgTimeUs: row.avgTimeUs,
+        executionCount: row.executionCount,
+        latencySketch: row.latencySketch ? LatencySketch.deserialize(row.latencySketch) : null,
+      }));
+    }
+    return sketches;
+  }
+
+  private toAggregationResult(row: AggregationRow, latencySketch: LatencySketch): AggregationResult {
+    const result: AggregationResult = {
+      avgTimeUs: row.avgTimeUs ?? 0,
+      maxTimeUs: row.maxTimeUs ?? 0,
+      executionCount: row.executionCount ?? 0,
+      ...emptyCounts(),
+      latencySketch,
+    };
+    for (const field of COUNT_FIELDS) {
+      result[field] = row[field] ?? 0;
+    }
+    return result;
+  }
+
   /**
    * Convert a database row to an ExecutionMetric model.
    * Row fields avgTimeUs and maxTimeUs are already numeric from duration::micros() conversion in query.
@@ -582,7 +632,57 @@ export class ExecutionMetricsService {
       avgTimeUs: row.avgTimeUs,
       maxTimeUs: row.maxTimeUs,
       executionCount: row.executionCount,
+      timeoutCount: row.timeoutCount,
+      errorCount: row.errorCount ?? 0,
+      loadErrorCount: row.loadErrorCount ?? 0,
+      status2xxCount: row.status2xxCount ?? 0,
+      status3xxCount: row.status3xxCount ?? 0,
+      status4xxCount: row.status4xxCount ?? 0,
+      status5xxCount: row.status5xxCount ?? 0,
+      outboundCallCount: row.outboundCallCount ?? 0,
+      outboundTimeUs: row.outboundTimeUs ?? 0,
+      outcome: row.outcome ?? null,
+      statusCode: row.statusCode ?? null,
+      latencySketch: row.latencySketch ? LatencySketch.deserialize(row.latencySketch) : null,
       timestamp: toDate(row.timestamp),
     };
   }
 }
+
+function emptyCounts(): ExecutionCounts {
+  return {
+    timeoutCount: 0,
+    errorCount: 0,
+    loadErrorCount: 0,
+    status2xxCount: 0,
+    status3xxCount: 0,
+    status4xxCount: 0,
+    status5xxCount: 0,
+    outboundCallCount: 0,
+    outboundTimeUs: 0,
+  };
+}
+
+/**
+ * Get the counters to store for a metric.
+ * Counters not given explicitly are derived from the outcome and status code
+ * (a raw execution counts once under its outcome and status class).
+ */
+function countsOf(metric: NewExecutionMetric): ExecutionCounts {
+  const derived = emptyCounts();
+  if (metric.outcome === "error") derived.errorCount = 1;
+  if (metric.outcome === "timeout") derived.timeoutCount = 1;
+  if (metric.outcome === "load_error") derived.loadErrorCount = 1;
+  switch (Math.floor((metric.statusCode ?? 0) / 100)) {
+    case 2: derived.status2xxCount = 1; break;
+    case 3: derived.status3xxCount = 1; break;
+    case 4: derived.status4xxCount = 1; break;
+    case 5: derived.status5xxCount = 1; break;
+  }
+
+  const counts = emptyCounts();
+  for (const field of COUNT_FIELDS) {
+    counts[field] = metric[field] ?? derived[field];
+  }
+  return counts;
+}
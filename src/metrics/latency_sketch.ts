@@ -0,0 +1,123 @@
+import type { ExecutionMetric } from "./types.ts";
+
+/** Relative accuracy of quantiles returned by the sketch (1%) */
+export const SKETCH_RELATIVE_ACCURACY = 0.01;
+
+const GAMMA = (1 + SKETCH_RELATIVE_ACCURACY) / (1 - SKETCH_RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+/** Serialized form stored in the executionMetric.latencySketch field */
+interface SerializedSketch {
+  /** Observations below 1µs */
+  zeroCount: number;
+  /** [bucket index, count] pairs */
+  bins: [number, number][];
+}
+
+/**
+ * Mergeable quantile sketch for execution durations (in microseconds).
+ *
+ * Durations are counted in logarithmically sized buckets (as in DDSketch), so
+ * any quantile is within 1% of the true value and sketches of different
+ * periods merge by adding their bucket counts. This is what lets minute
+ * records roll up into hours and days without keeping every execution.
+ */
+export class LatencySketch {
+  private readonly bins = new Map<number, number>();
+  private zeroCount = 0;
+  private total = 0;
+
+  /** Number of observations in the sketch */
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * Add a duration observed `count` times.
+   */
+  add(valueUs: number, count = 1): void {
+    if (count <= 0) return;
+    if (valueUs < 1) {
+      this.zeroCount += count;
+    } else {
+      const index = Math.ceil(Math.log(valueUs) / LOG_GAMMA);
+      this.bins.set(index, (this.bins.get(index) ?? 0) + count);
+    }
+    this.total += count;
+  }
+
+  /**
+   * Add all observations of another sketch to this one.
+   */
+  merge(other: LatencySketch): void {
+    for (const [index, count] of other.bins) {
+      this.bins.set(index, (this.bins.get(index) ?? 0) + count);
+    }
+    this.zeroCount += other.zeroCount;
+    this.total += other.total;
+  }
+
+  /**
+   * Get the duration at quantile q (0-1), in microseconds.
+   * @returns null if the sketch is empty
+   */
+  quantile(q: number): number | null {
+    if (this.total === 0) return null;
+
+    const rank = Math.min(Math.max(q, 0), 1) * (this.total - 1);
+    let cumulative = this.zeroCount;
+    if (cumulative > rank) return 0;
+
+    const indexes = [...this.bins.keys()].sort((a, b) => a - b);
+    for (const index of indexes) {
+      cumulative += this.bins.get(index)!;
+      if (cumulative > rank) {
+        return (2 * Math.pow(GAMMA, index)) / (GAMMA + 1);
+      }
+    }
+    return (2 * Math.pow(GAMMA, indexes[indexes.length - 1])) / (GAMMA + 1);
+  }
+
+  serialize(): string {
+    const serialized: SerializedSketch = {
+      zeroCount: this.zeroCount,
+      bins: [...this.bins.entries()].sort(([a], [b]) => a - b),
+    };
+    return JSON.stringify(serialized);
+  }
+
+  /**
+   * Restore a sketch from its serialized form.
+   * @throws Error if the value isn't a serialized sketch
+   */
+  static deserialize(value: string): LatencySketch {
+    const parsed = JSON.parse(value) as SerializedSketch;
+    if (typeof parsed?.zeroCount !== "number" || !Array.isArray(parsed.bins)) {
+      throw new Error("Invalid latency sketch");
+    }
+
+    const sketch = new LatencySketch();
+    sketch.zeroCount = parsed.zeroCount;
+    sketch.total = parsed.zeroCount;
+    for (const [index, count] of parsed.bins) {
+      sketch.bins.set(index, count);
+      sketch.total += count;
+    }
+    return sketch;
+  }
+}
+
+/**
+ * Get the latency distribution of a metric record.
+ *
+ * Raw executions (and records aggregated before sketches were introduced)
+ * have no sketch - their average duration stands in for every execution.
+ */
+export function sketchOf(metric: Pick<ExecutionMetric, "latencySketch" | "avgTimeUs" | "executionCount">): LatencySketch {
+  if (metric.latencySketch) {
+    return metric.latencySketch;
+  }
+  const sketch = new LatencySketch();
+  sketch.add(metric.avgTimeUs, metric.executionCount);
+  return sketch;
+}
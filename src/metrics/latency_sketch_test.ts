@@ -0,0 +1,57 @@
+import { expect } from "@std/expect";
+import { LatencySketch, SKETCH_RELATIVE_ACCURACY, sketchOf } from "./latency_sketch.ts";
+
+Deno.test("LatencySketch quantiles are within the relative accuracy", () => {
+  const sketch = new LatencySketch();
+  for (let us = 1; us <= 10000; us++) {
+    sketch.add(us * 100);
+  }
+
+  for (const [q, expected] of [[0.5, 500000], [0.9, 900000], [0.99, 990000]]) {
+    const value = sketch.quantile(q)!;
+    expect(Math.abs(value - expected) / expected).toBeLessThanOrEqual(SKETCH_RELATIVE_ACCURACY + 0.001);
+  }
+  expect(sketch.count).toBe(10000);
+});
+
+Deno.test("LatencySketch merges like a sketch of all observations", () => {
+  const fast = new LatencySketch();
+  const slow = new LatencySketch();
+  const all = new LatencySketch();
+  for (let i = 0; i < 90; i++) {
+    fast.add(1000);
+    all.add(1000);
+  }
+  slow.add(500000, 10);
+  all.add(500000, 10);
+
+  fast.merge(slow);
+
+  expect(fast.count).toBe(100);
+  expect(fast.serialize()).toBe(all.serialize());
+  expect(fast.quantile(0.5)).toBe(all.quantile(0.5));
+  expect(fast.quantile(0.99)).toBe(all.quantile(0.99));
+});
+
+Deno.test("LatencySketch survives a serialize round-trip", () => {
+  const sketch = new LatencySketch();
+  sketch.add(0.5);
+  sketch.add(2500, 3);
+  sketch.add(120000);
+
+  const restored = LatencySketch.deserialize(sketch.serialize());
+
+  expect(restored.count).toBe(5);
+  expect(restored.quantile(0)).toBe(0);
+  expect(restored.quantile(1)).toBe(sketch.quantile(1));
+  expect(() => LatencySketch.deserialize('{"bins":"nope"}')).toThrow("Invalid latency sketch");
+});
+
+Deno.test("sketchOf falls back to the average for records without a sketch", () => {
+  expect(new LatencySketch().quantile(0.5)).toBeNull();
+
+  const sketch = sketchOf({ latencySketch: null, avgTimeUs: 40000, executionCount: 4 });
+
+  expect(sketch.count).toBe(4);
+  expect(Math.abs(sketch.quantile(0.99)! - 40000) / 40000).toBeLessThanOrEqual(SKETCH_RELATIVE_ACCURACY);
+});
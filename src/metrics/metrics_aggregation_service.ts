@@ -22,6 +22,8 @@ export interface MetricsAggregationServiceOptions {
  * 3. DAYS PASS: Aggregate hours → day records (global + per-function)
  *
  * Global metrics (functionId=null) combine data from all functions.
+ * Outcome and status-class counters are summed, and latency sketches merged,
+ * so error rates and p50/p90/p99 stay available at every resolution.
  * Watermarks track progress to ensure crash recovery with minimal reprocessing.
  * Cleanup happens at the end of all passes.
  *
@@ -132,11 +134,9 @@ export class MetricsAggregationService {
 
         if (globalResult) {
           await this.metricsService.store({
+            ...globalResult,
             functionId: null,
             type: "minute",
-            avgTimeUs: globalResult.avgTimeUs,
-            maxTimeUs: globalResult.maxTimeUs,
-            executionCount: globalResult.executionCount,
             timestamp: windowStart,
           });
         }
@@ -151,11 +151,9 @@ export class MetricsAggregationService {
 
         for (const [functionIdStr, result] of perFunctionResults) {
           await this.metricsService.store({
+            ...result,
             functionId: new RecordId("functionDef", functionIdStr),
             type: "minute",
-            avgTimeUs: result.avgTimeUs,
-            maxTimeUs: result.maxTimeUs,
-            executionCount: result.executionCount,
             timestamp: windowStart,
           });
         }
@@ -243,11 +241,9 @@ export class MetricsAggregationService {
 
         if (globalResult) {
           await this.metricsService.store({
+            ...globalResult,
             functionId: null,
             type: "hour",
-            avgTimeUs: globalResult.avgTimeUs,
-            maxTimeUs: globalResult.maxTimeUs,
-            executionCount: globalResult.executionCount,
             timestamp: windowStart,
           });
         }
@@ -262,11 +258,9 @@ export class MetricsAggregationService {
 
         for (const [functionIdStr, result] of perFunctionResults) {
           await this.metricsService.store({
+            ...result,
             functionId: new RecordId("functionDef", functionIdStr),
             type: "hour",
-            avgTimeUs: result.avgTimeUs,
-            maxTimeUs: result.maxTimeUs,
-            executionCount: result.executionCount,
             timestamp: windowStart,
           });
         }
@@ -334,11 +328,9 @@ export class MetricsAggregationService {
 
         if (globalResult) {
           await this.metricsService.store({
+            ...globalResult,
             functionId: null,
             type: "day",
-            avgTimeUs: globalResult.avgTimeUs,
-            maxTimeUs: globalResult.maxTimeUs,
-            executionCount: globalResult.executionCount,
             timestamp: windowStart,
           });
         }
@@ -353,11 +345,9 @@ export class MetricsAggregationService {
 
         for (const [functionIdStr, result] of perFunctionResults) {
           await this.metricsService.store({
+            ...result,
             functionId: new RecordId("functionDef", functionIdStr),
             type: "day",
-            avgTimeUs: result.avgTimeUs,
-            maxTimeUs: result.maxTimeUs,
-            executionCount: result.executionCount,
             timestamp: windowStart,
           });
         }
@@ -1,6 +1,7 @@
 import { integrationTest } from "../test/test_helpers.ts";
 import { expect } from "@std/expect";
 import { MetricsAggregationService } from "./metrics_aggregation_service.ts";
+import { sketchOf } from "./latency_sketch.ts";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import type { BaseTestContext, MetricsContext, FunctionsContext } from "../test/types.ts";
 import type { FunctionDefinition } from "../routes/functions_service.ts";
@@ -287,6 +288,62 @@ integrationTest("MetricsAggregationService skips empty periods (no zero-value ro
   }
 });
 
+integrationTest("MetricsAggregationService sums outcome counts and merges latency sketches", async () => {
+  const setup = await createTestSetup();
+
+  try {
+    const minuteStart = getPastMinute(5);
+    const executions = [
+      { timeUs: 10000, outcome: "success", statusCode: 200 },
+      { timeUs: 20000, outcome: "success", statusCode: 302 },
+      { timeUs: 30000, outcome: "success", statusCode: 404 },
+      { timeUs: 40000, outcome: "error", statusCode: 500 },
+      { timeUs: 5000000, outcome: "timeout", statusCode: 504 },
+    ] as const;
+
+    for (const [i, execution] of executions.entries()) {
+      await setup.ctx.executionMetricsService.store({
+        functionId: setup.func1.id,
+        type: "execution",
+        avgTimeUs: execution.timeUs,
+        maxTimeUs: execution.timeUs,
+        executionCount: 1,
+        outcome: execution.outcome,
+        statusCode: execution.statusCode,
+        timestamp: new Date(minuteStart.getTime() + (i + 1) * 5000),
+      });
+    }
+
+    await setup.aggregationService.runOnce();
+
+    const [minute] = await setup.ctx.executionMetricsService.getByFunctionId(setup.func1.id, "minute");
+    expect(minute.executionCount).toBe(5);
+    expect(minute.errorCount).toBe(1);
+    expect(minute.timeoutCount).toBe(1);
+    expect(minute.loadErrorCount).toBe(0);
+    expect([minute.status2xxCount, minute.status3xxCount, minute.status4xxCount, minute.status5xxCount])
+      .toEqual([1, 1, 1, 2]);
+
+    // Median stays near 30ms even though the timeout skews the average
+    const sketch = sketchOf(minute);
+    expect(sketch.count).toBe(5);
+    expect(Math.round(sketch.quantile(0.5)! / 1000)).toBe(30);
+    expect(Math.round(sketch.quantile(1)! / 100000)).toBe(50);
+
+    // Global record carries the same breakdown
+    const [global] = await setup.ctx.executionMetricsService.getGlobalMetricsByTypeAndTimeRange(
+      "minute",
+      minuteStart,
+      new Date(minuteStart.getTime() + 60000),
+    );
+    expect(global.errorCount).toBe(1);
+    expect(global.status5xxCount).toBe(2);
+    expect(sketchOf(global).count).toBe(5);
+  } finally {
+    await cleanup(setup);
+  }
+});
+
 // =====================
 // Hour Aggregation Tests
 // =====================
@@ -6,6 +6,7 @@ import type { SettingsService } from "../settings/settings_service.ts";
 import { validateSurrealId } from "../validation/common.ts";
 import type { ExecutionMetric, MetricType } from "./types.ts";
 import { SettingNames } from "../settings/types.ts";
+import { LatencySketch, sketchOf } from "./latency_sketch.ts";
 
 export interface MetricsRoutesOptions {
   executionMetricsService: ExecutionMetricsService;
@@ -15,11 +16,37 @@ export interface MetricsRoutesOptions {
 
 interface MetricsSummary {
   totalExecutions: number;
+  totalTimeouts: number;
+  /** Handler errors, timeouts and load errors */
+  totalErrors: number;
+  /** Share of executions that failed (0-1) */
+  errorRate: number;
   avgExecutionTime: number;
   maxExecutionTime: number;
+  p50ExecutionTime: number | null;
+  p90ExecutionTime: number | null;
+  p99ExecutionTime: number | null;
+  totalOutboundCalls: number;
+  /** Average time per execution spent in outbound calls (ms) */
+  avgOutboundTime: number;
   periodCount: number;
 }
 
+/**
+ * Count the failed executions of a metric (handler errors, timeouts and load errors).
+ */
+function failedCount(metric: ExecutionMetric): number {
+  return metric.errorCount + metric.timeoutCount + metric.loadErrorCount;
+}
+
+/**
+ * Get a quantile of a sketch in milliseconds.
+ */
+function quantileMs(sketch: LatencySketch, q: number): number | null {
+  const us = sketch.quantile(q);
+  return us === null ? null : us / 1000;
+}
+
 const RESOLUTION_TO_TYPE: Record<string, MetricType> = {
   "minutes": "minute",
   "hours": "hour",
@@ -126,8 +153,16 @@ export function createMetricsRoutes(options: MetricsRoutesOptions): Hono {
     // 5. Calculate summary
     const summary: MetricsSummary = {
       totalExecutions: 0,
+      totalTimeouts: 0,
+      totalErrors: 0,
+      errorRate: 0,
       avgExecutionTime: 0,
       maxExecutionTime: 0,
+      p50ExecutionTime: null,
+      p90ExecutionTime: null,
+      p99ExecutionTime: null,
+      totalOutboundCalls: 0,
+      avgOutboundTime: 0,
       periodCount: metrics.length,
     };
 
@@ -136,6 +171,14 @@ export function createMetricsRoutes(options: MetricsRoutesOptions): Hono {
         (sum, m) => sum + m.executionCount,
         0,
       );
+      summary.totalTimeouts = metrics.reduce(
+        (sum, m) => sum + m.timeoutCount,
+        0,
+      );
+      summary.totalErrors = metrics.reduce(
+        (sum, m) => sum + failedCount(m),
+        0,
+      );
       // maxExecutionTime is in microseconds, convert to milliseconds for API
       summary.maxExecutionTime = Math.max(
         ...metrics.map((m) => m.maxTimeUs / 1000),
@@ -148,16 +191,51 @@ export function createMetricsRoutes(options: MetricsRoutesOptions): Hono {
           0,
         );
         summary.avgExecutionTime = (weightedSum / summary.totalExecutions) / 1000;
+        summary.errorRate = summary.totalErrors / summary.totalExecutions;
+
+        const outboundTimeUs = metrics.reduce((sum, m) => sum + m.outboundTimeUs, 0);
+        summary.avgOutboundTime = (outboundTimeUs / summary.totalExecutions) / 1000;
       }
+      summary.totalOutboundCalls = metrics.reduce(
+        (sum, m) => sum + m.outboundCallCount,
+        0,
+      );
+
+      // Percentiles over the whole range (merged latency sketches)
+      const combined = new LatencySketch();
+      for (const m of metrics) {
+        combined.merge(sketchOf(m));
+      }
+      summary.p50ExecutionTime = quantileMs(combined, 0.5);
+      summary.p90ExecutionTime = quantileMs(combined, 0.9);
+      summary.p99ExecutionTime = quantileMs(combined, 0.99);
     }
 
     // 6. Format response (convert microseconds to milliseconds for API backward compatibility)
-    const formattedMetrics = metrics.map((m) => ({
-      timestamp: m.timestamp.toISOString(),
-      avgTimeMs: m.avgTimeUs / 1000,
-      maxTimeMs: m.maxTimeUs / 1000,
-      executionCount: m.executionCount,
-    }));
+    const formattedMetrics = metrics.map((m) => {
+      const sketch = sketchOf(m);
+      return {
+        timestamp: m.timestamp.toISOString(),
+        avgTimeMs: m.avgTimeUs / 1000,
+        maxTimeMs: m.maxTimeUs / 1000,
+        p50TimeMs: quantileMs(sketch, 0.5),
+        p90TimeMs: quantileMs(sketch, 0.9),
+        p99TimeMs: quantileMs(sketch, 0.99),
+        executionCount: m.executionCount,
+        timeoutCount: m.timeoutCount,
+        errorCount: m.errorCount,
+        loadErrorCount: m.loadErrorCount,
+        errorRate: m.executionCount > 0 ? failedCount(m) / m.executionCount : 0,
+        statusCounts: {
+          "2xx": m.status2xxCount,
+          "3xx": m.status3xxCount,
+          "4xx": m.status4xxCount,
+          "5xx": m.status5xxCount,
+        },
+        outboundCallCount: m.outboundCallCount,
+        avgOutboundTimeMs: m.executionCount > 0 ? m.outboundTimeUs / m.executionCount / 1000 : 0,
+      };
+    });
 
     return c.json({
       data: {
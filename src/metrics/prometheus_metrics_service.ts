@@ -0,0 +1,197 @@
+import type { JobQueueService } from "../jobs/job_queue_service.ts";
+import type { ConsoleLogService } from "../logs/console_log_service.ts";
+import type { SurrealSupervisor } from "../database/surreal_supervisor.ts";
+import type { HealthStatus } from "../database/surreal_health_monitor.ts";
+import { logger } from "../utils/logger.ts";
+import type { ExecutionOutcome } from "./types.ts";
+
+/** Upper bounds (seconds) of the execution duration histogram buckets */
+export const DURATION_BUCKETS_SECONDS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+] as const;
+
+/** Prefix of all exported metric names */
+const METRIC_PREFIX = "crude";
+
+const OUTCOMES: readonly ExecutionOutcome[] = ["success", "error", "timeout", "load_error"];
+
+const HEALTH_STATUSES: readonly HealthStatus[] = ["healthy", "degraded", "unhealthy", "stopped"];
+
+export interface PrometheusMetricsServiceOptions {
+  /** Optional - when provided, job queue depths are exported */
+  jobQueueService?: JobQueueService;
+  /** Optional - when provided, the size of the unflushed log buffer is exported */
+  consoleLogService?: ConsoleLogService;
+  /** Optional - when provided, SurrealDB health is exported */
+  surrealSupervisor?: SurrealSupervisor;
+}
+
+/** Counters of a single function since process start */
+interface FunctionCounters {
+  /** Latest known function name (used as a label) */
+  name: string;
+  requests: Record<ExecutionOutcome, number>;
+  /** Non-cumulative counts per bucket (last entry is +Inf) */
+  buckets: number[];
+  durationSumSeconds: number;
+  durationCount: number;
+}
+
+/**
+ * Service exporting metrics in the Prometheus text exposition format.
+ *
+ * Unlike ExecutionMetricsService (which persists avg/max durations for the
+ * built-in charts), this keeps in-memory counters and histograms since process
+ * start, as Prometheus expects. Queue depths, database health and the log
+ * buffer are read at scrape time.
+ */
+export class PrometheusMetricsService {
+  private readonly jobQueueService?: JobQueueService;
+  private readonly consoleLogService?: ConsoleLogService;
+  private readonly surrealSupervisor?: SurrealSupervisor;
+  private readonly functions = new Map<string, FunctionCounters>();
+  private readonly startTimeSeconds = Date.now() / 1000;
+
+  constructor(options: PrometheusMetricsServiceOptions = {}) {
+    this.jobQueueService = options.jobQueueService;
+    this.consoleLogService = options.consoleLogService;
+    this.surrealSupervisor = options.surrealSupervisor;
+  }
+
+  /**
+   * Record a finished function execution.
+   * Executions whose handler failed to load have no duration observation.
+   */
+  recordExecution(
+    functionId: string,
+    functionName: string,
+    outcome: ExecutionOutcome,
+    durationMs: number,
+  ): void {
+    let counters = this.functions.get(functionId);
+    if (!counters) {
+      counters = {
+        name: functionName,
+        requests: { success: 0, error: 0, timeout: 0, load_error: 0 },
+        buckets: new Array(DURATION_BUCKETS_SECONDS.length + 1).fill(0),
+        durationSumSeconds: 0,
+        durationCount: 0,
+      };
+      this.functions.set(functionId, counters);
+    }
+    counters.name = functionName;
+    counters.requests[outcome]++;
+
+    if (outcome === "load_error") {
+      return;
+    }
+
+    const seconds = durationMs / 1000;
+    const index = DURATION_BUCKETS_SECONDS.findIndex((bound) => seconds <= bound);
+    counters.buckets[index === -1 ? DURATION_BUCKETS_SECONDS.length : index]++;
+    counters.durationSumSeconds += seconds;
+    counters.durationCount++;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format (version 0.0.4).
+   */
+  async render(): Promise<string> {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`, `# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) => {
+      lines.push(`${METRIC_PREFIX}_${name}${formatLabels(labels)} ${formatValue(value)}`);
+    };
+
+    family("process_start_time_seconds", "gauge", "Start time of the process since unix epoch in seconds.");
+    sample("process_start_time_seconds", {}, this.startTimeSeconds);
+
+    // ---- Function executions ----
+    const functions = [...this.functions.entries()].map(([id, counters]) => ({
+      labels: { function: counters.name, function_id: id },
+      counters,
+    }));
+
+    family("function_requests_total", "counter", "Function executions by outcome.");
+    for (const { labels, counters } of functions) {
+      for (const outcome of OUTCOMES) {
+        sample("function_requests_total", { ...labels, outcome }, counters.requests[outcome]);
+      }
+    }
+
+    family("function_errors_total", "counter", "Function executions that failed, timed out or couldn't load their handler.");
+    for (const { labels, counters } of functions) {
+      const { error, timeout, load_error } = counters.requests;
+      sample("function_errors_total", labels, error + timeout + load_error);
+    }
+
+    family("function_duration_seconds", "histogram", "Function execution duration in seconds.");
+    for (const { labels, counters } of functions) {
+      let cumulative = 0;
+      for (const [index, bound] of DURATION_BUCKETS_SECONDS.entries()) {
+        cumulative += counters.buckets[index];
+        sample("function_duration_seconds_bucket", { ...labels, le: String(bound) }, cumulative);
+      }
+      sample("function_duration_seconds_bucket", { ...labels, le: "+Inf" }, counters.durationCount);
+      sample("function_duration_seconds_sum", labels, counters.durationSumSeconds);
+      sample("function_duration_seconds_count", labels, counters.durationCount);
+    }
+
+    // ---- Job queue ----
+    if (this.jobQueueService) {
+      try {
+        const counts = await this.jobQueueService.getJobCounts();
+        family("jobs", "gauge", "Jobs in the queue by status.");
+        for (const [status, count] of Object.entries(counts)) {
+          sample("jobs", { status }, count);
+        }
+      } catch (error) {
+        // Database may be down - still export everything else
+        logger.warn("[Metrics] Failed to read job counts:", error);
+      }
+    }
+
+    // ---- SurrealDB ----
+    if (this.surrealSupervisor) {
+      const status = this.surrealSupervisor.getHealthStatus();
+      family("surreal_up", "gauge", "Whether SurrealDB is running and healthy or degraded (1) or not (0).");
+      sample("surreal_up", {}, this.surrealSupervisor.isHealthy() ? 1 : 0);
+      family("surreal_health_status", "gauge", "Current SurrealDB health status (1 for the active status).");
+      for (const candidate of HEALTH_STATUSES) {
+        sample("surreal_health_status", { status: candidate }, candidate === status ? 1 : 0);
+      }
+      family("surreal_restart_attempts", "gauge", "SurrealDB restart attempts since the last stable period.");
+      sample("surreal_restart_attempts", {}, this.surrealSupervisor.getRestartAttempts());
+    }
+
+    // ---- Logs ----
+    if (this.consoleLogService) {
+      family("log_buffer_entries", "gauge", "Captured log entries waiting to be written to the database.");
+      sample("log_buffer_entries", {}, this.consoleLogService.getBufferSize());
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Format a label set, escaping backslashes, quotes and newlines in values.
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${escaped.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
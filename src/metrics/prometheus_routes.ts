@@ -0,0 +1,89 @@
+import { Hono, type Context } from "@hono/hono";
+import type { PrometheusMetricsService } from "./prometheus_metrics_service.ts";
+import { getApiKeyStatus, type ApiKeyService } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { HashService } from "../encryption/hash_service.ts";
+import { SettingNames } from "../settings/types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+
+/** Content type of the Prometheus text exposition format */
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface PrometheusRoutesOptions {
+  prometheusMetricsService: PrometheusMetricsService;
+  apiKeyService: ApiKeyService;
+  settingsService: SettingsService;
+  hashService: HashService;
+  /** Optional - when provided, "Authorization: Bearer <token>" grants access */
+  token?: string;
+  /** Optional - when provided, scrapes are counted towards the usage of their API key */
+  apiKeyUsageService?: ApiKeyUsageService;
+}
+
+/**
+ * Creates the Prometheus scrape endpoint (GET /metrics).
+ *
+ * Not behind the management API auth, so scrapers don't need a session.
+ * Access is granted by either:
+ * - the dedicated token (METRICS_TOKEN) as a bearer token, or
+ * - an API key (X-API-Key header or bearer token) from a group selected in
+ *   the metrics.access-groups setting.
+ *
+ * Without a token and access groups, the endpoint rejects every request.
+ * Expired and disabled keys are rejected.
+ */
+export function createPrometheusRoutes(options: PrometheusRoutesOptions): Hono {
+  const {
+    prometheusMetricsService,
+    apiKeyService,
+    settingsService,
+    hashService,
+    token,
+    apiKeyUsageService,
+  } = options;
+  const routes = new Hono();
+
+  const isAuthorized = async (c: Context): Promise<boolean> => {
+    const bearer = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+    if (token && bearer && hashService.timingSafeEqual(token, bearer)) {
+      return true;
+    }
+
+    const apiKey = c.req.header("X-API-Key") ?? bearer;
+    if (!apiKey) {
+      return false;
+    }
+
+    const accessGroupsSetting = await settingsService.getGlobalSetting(
+      SettingNames.METRICS_ACCESS_GROUPS,
+    );
+    const groupIds = (accessGroupsSetting ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0);
+
+    for (const groupId of groupIds) {
+      const keyInfo = await apiKeyService.getKeyByValueInGroup(groupId, apiKey);
+      if (keyInfo && getApiKeyStatus(keyInfo) === "active") {
+        apiKeyUsageService?.record(recordIdToString(keyInfo.keyId));
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // GET /metrics - Prometheus text exposition
+  routes.get("/", async (c) => {
+    if (!(await isAuthorized(c))) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    return c.body(await prometheusMetricsService.render(), 200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    });
+  });
+
+  return routes;
+}
@@ -0,0 +1,77 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { integrationTest } from "../test/test_helpers.ts";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { SettingNames } from "../settings/types.ts";
+import { PrometheusMetricsService } from "./prometheus_metrics_service.ts";
+import { createPrometheusRoutes } from "./prometheus_routes.ts";
+
+Deno.test("PrometheusMetricsService renders counters and cumulative histograms", async () => {
+  const service = new PrometheusMetricsService();
+  service.recordExecution("abc", "hello", "success", 3);
+  service.recordExecution("abc", "hello", "success", 200);
+  service.recordExecution("abc", "hello", "timeout", 90000);
+  service.recordExecution("abc", "hello", "load_error", 1);
+
+  const text = await service.render();
+
+  expect(text).toContain("# TYPE crude_function_requests_total counter");
+  expect(text).toContain('crude_function_requests_total{function="hello",function_id="abc",outcome="success"} 2');
+  expect(text).toContain('crude_function_requests_total{function="hello",function_id="abc",outcome="load_error"} 1');
+  expect(text).toContain('crude_function_errors_total{function="hello",function_id="abc"} 2');
+  expect(text).toContain('crude_function_duration_seconds_bucket{function="hello",function_id="abc",le="0.005"} 1');
+  expect(text).toContain('crude_function_duration_seconds_bucket{function="hello",function_id="abc",le="0.25"} 2');
+  expect(text).toContain('crude_function_duration_seconds_bucket{function="hello",function_id="abc",le="60"} 2');
+  expect(text).toContain('crude_function_duration_seconds_bucket{function="hello",function_id="abc",le="+Inf"} 3');
+  expect(text).toContain('crude_function_duration_seconds_count{function="hello",function_id="abc"} 3');
+});
+
+Deno.test("PrometheusMetricsService escapes label values", async () => {
+  const service = new PrometheusMetricsService();
+  service.recordExecution("abc", 'say "hi"\\', "success", 1);
+
+  expect(await service.render()).toContain('function="say \\"hi\\"\\\\"');
+});
+
+integrationTest("GET /metrics requires the metrics token or a key from an access group", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withApiKeyGroup("monitoring", "Scrapers")
+    .withApiKey("monitoring", "scrape-key")
+    .withApiKeyGroup("other")
+    .withApiKey("other", "other-key")
+    .withJobQueueService()
+    .build();
+  try {
+    const group = await ctx.apiKeyService.getGroupByName("monitoring");
+    await ctx.settingsService.setGlobalSetting(
+      SettingNames.METRICS_ACCESS_GROUPS,
+      recordIdToString(group!.id),
+    );
+
+    const app = new Hono();
+    app.route("/metrics", createPrometheusRoutes({
+      prometheusMetricsService: new PrometheusMetricsService({ jobQueueService: ctx.jobQueueService }),
+      apiKeyService: ctx.apiKeyService,
+      settingsService: ctx.settingsService,
+      hashService: ctx.hashService,
+      token: "secret-token",
+    }));
+    const scrape = (headers: Record<string, string>) => app.request("/metrics", { headers });
+
+    expect((await scrape({})).status).toBe(401);
+    expect((await scrape({ Authorization: "Bearer wrong-token" })).status).toBe(401);
+    expect((await scrape({ "X-API-Key": "other-key" })).status).toBe(401);
+
+    const byToken = await scrape({ Authorization: "Bearer secret-token" });
+    expect(byToken.status).toBe(200);
+    expect(byToken.headers.get("Content-Type")).toContain("text/plain; version=0.0.4");
+    expect(await byToken.text()).toContain('crude_jobs{status="pending"} 0');
+
+    expect((await scrape({ "X-API-Key": "scrape-key" })).status).toBe(200);
+    expect((await scrape({ Authorization: "Bearer scrape-key" })).status).toBe(200);
+  } finally {
+    await ctx.cleanup();
+  }
+});
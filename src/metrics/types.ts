@@ -1,4 +1,5 @@
 import type { RecordId } from "surrealdb";
+import type { LatencySketch } from "./latency_sketch.ts";
 
 /** Metric types for execution tracking */
 export type MetricType = "execution" | "minute" | "hour" | "day";
@@ -19,8 +20,30 @@ export const MetricTypeFromCode: Record<number, MetricType> = {
   3: "day",
 };
 
+/** Outcome of a function execution */
+export type ExecutionOutcome = "success" | "error" | "timeout" | "load_error";
+
+/** Per-outcome, per-status-class and outbound call counters (summed during aggregation) */
+export interface ExecutionCounts {
+  /** Number of executions that hit the handler timeout */
+  timeoutCount: number;
+  /** Number of executions where the handler threw */
+  errorCount: number;
+  /** Number of executions whose handler failed to load */
+  loadErrorCount: number;
+  /** Number of responses per HTTP status class */
+  status2xxCount: number;
+  status3xxCount: number;
+  status4xxCount: number;
+  status5xxCount: number;
+  /** Number of outbound fetch() calls made by the handler */
+  outboundCallCount: number;
+  /** Total duration of the outbound calls in microseconds */
+  outboundTimeUs: number;
+}
+
 /** A stored execution metric entry */
-export interface ExecutionMetric {
+export interface ExecutionMetric extends ExecutionCounts {
   /** Unique identifier (SurrealDB RecordId) */
   id: RecordId;
   /** Function reference (RecordId), or null for global/combined metrics */
@@ -31,25 +54,43 @@ export interface ExecutionMetric {
   /** Maximum execution time in microseconds */
   maxTimeUs: number;
   executionCount: number;
+  /** Outcome of a raw execution (null for aggregated records) */
+  outcome: ExecutionOutcome | null;
+  /** Response status of a raw execution (null for aggregated records) */
+  statusCode: number | null;
+  /** Latency distribution of aggregated records (null for raw executions and older records) */
+  latencySketch: LatencySketch | null;
   timestamp: Date;
 }
 
-/** Input type for storing a new metric (id is auto-generated, timestamp optional for aggregates) */
-export type NewExecutionMetric = Omit<ExecutionMetric, "id" | "timestamp"> & {
-  timestamp?: Date;
-};
+/**
+ * Input type for storing a new metric (id is auto-generated, everything else but timing optional).
+ * Counters of raw executions default from their outcome and status code.
+ */
+export type NewExecutionMetric =
+  & Pick<ExecutionMetric, "functionId" | "type" | "avgTimeUs" | "maxTimeUs" | "executionCount">
+  & Partial<ExecutionCounts>
+  & {
+    outcome?: ExecutionOutcome;
+    statusCode?: number;
+    latencySketch?: LatencySketch;
+    timestamp?: Date;
+  };
 
 /**
  * Database row type for SELECT queries with duration::micros() conversion.
  * Queries use duration::micros(avgTime) as avgTimeUs to get numeric values directly.
  */
-export interface ExecutionMetricRow {
+export interface ExecutionMetricRow extends ExecutionCounts {
   id: RecordId;
   functionId: RecordId | undefined; // NONE in SurrealDB = undefined in JS
   type: number;
   avgTimeUs: number; // Converted from duration using duration::micros()
   maxTimeUs: number; // Converted from duration using duration::micros()
   executionCount: number;
+  outcome?: ExecutionOutcome;
+  statusCode?: number;
+  latencySketch?: string; // Serialized LatencySketch
   timestamp: Date;
   createdAt: Date;
 }
@@ -70,13 +111,15 @@ export interface MetricsAggregationConfig {
   retentionDays: number;
 }
 
-/** Result of an aggregation query */
-export interface AggregationResult {
+/** Result of an aggregation query (counters are totals over the window) */
+export interface AggregationResult extends ExecutionCounts {
   /** Average execution time in microseconds */
   avgTimeUs: number;
   /** Maximum execution time in microseconds */
   maxTimeUs: number;
   executionCount: number;
+  /** Merged latency distribution of all executions in the window */
+  latencySketch: LatencySketch;
 }
 
 /** Keys used in metricsState table for tracking aggregation progress */
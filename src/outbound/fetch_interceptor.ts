@@ -0,0 +1,60 @@
+import { getCurrentRequestContext } from "../logs/request_context.ts";
+import { trackFetch } from "./outbound_fetch.ts";
+
+/**
+ * Original fetch reference - stored before replacement.
+ * System code uses it when outside handler context.
+ */
+let originalFetch: typeof fetch;
+
+/**
+ * Replaces globalThis.fetch with a wrapper that tracks handler calls:
+ * - Inside handler context (runInRequestContext), each call is reported to the
+ *   request's OutboundTracker and checked against the function's allowed hosts
+ * - Outside handler context (system code), fetch works normally
+ *
+ * Worker-isolated handlers have their own fetch, which handler_worker.ts wraps
+ * the same way.
+ */
+export class FetchInterceptor {
+  private isInstalled = false;
+
+  /**
+   * Install the fetch wrapper.
+   * Call this once at application startup, before any handlers load.
+   */
+  install(): void {
+    if (this.isInstalled) return;
+
+    originalFetch = globalThis.fetch;
+
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+      const outbound = getCurrentRequestContext()?.outbound;
+      if (!outbound) {
+        return originalFetch(input, init);
+      }
+      return trackFetch(originalFetch, input, init, outbound.allowedHosts, (call) => outbound.record(call));
+    };
+
+    this.isInstalled = true;
+  }
+
+  /**
+   * Restore the original fetch.
+   * Primarily useful for testing.
+   */
+  uninstall(): void {
+    if (!this.isInstalled) return;
+
+    globalThis.fetch = originalFetch;
+
+    this.isInstalled = false;
+  }
+
+  /**
+   * Check if the interceptor is currently installed.
+   */
+  get installed(): boolean {
+    return this.isInstalled;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Outbound fetch() tracking and host allowlist checks.
+ * Shared by the in-process fetch interceptor and worker-isolated handlers.
+ */
+
+import { OutboundHostBlockedError } from "../functions/errors.ts";
+import type { OutboundCall } from "./types.ts";
+
+const DEFAULT_PORTS: Record<string, string> = { "http:": "80", "https:": "443" };
+
+/**
+ * Check whether a URL's host is in an allowed hosts list.
+ *
+ * Entries match the hostname exactly (case-insensitive), "*.example.com" matches
+ * any subdomain of example.com, and an entry with a port ("localhost:8080") only
+ * matches that port.
+ *
+ * @param allowedHosts - Allowed hosts, or undefined to allow every host
+ */
+export function isHostAllowed(url: URL, allowedHosts: string[] | undefined): boolean {
+  if (!allowedHosts) return true;
+
+  const hostname = url.hostname.toLowerCase();
+  const port = url.port || DEFAULT_PORTS[url.protocol] || "";
+
+  return allowedHosts.some((entry) => {
+    const [, entryHost, entryPort] = entry.toLowerCase().match(/^(.*?)(?::(\d+))?$/)!;
+    if (entryPort !== undefined && entryPort !== port) return false;
+    if (entryHost.startsWith("*.")) return hostname.endsWith(entryHost.slice(1));
+    return hostname === entryHost;
+  });
+}
+
+/** Redirects followed per call when allowedHosts is set (the limit of fetch() itself) */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Headers describing a request body, dropped when a redirect turns the request into a GET */
+const BODY_HEADERS = ["content-type", "content-length", "content-encoding", "content-language", "content-location"];
+
+/**
+ * Run a fetch() call, reporting its method, host, status and duration.
+ *
+ * Calls to hosts outside allowedHosts are reported as blocked and rejected with
+ * OutboundHostBlockedError without being sent. With allowedHosts set, redirects
+ * are followed here instead of by fetch(), so every hop is checked and reported
+ * as a call of its own. Non-HTTP URLs (data:, blob:, file:) are passed through
+ * untracked.
+ */
+export async function trackFetch(
+  fetchFn: typeof fetch,
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+  allowedHosts: string[] | undefined,
+  onCall: (call: OutboundCall) => void,
+): Promise<Response> {
+  let url: URL;
+  try {
+    url = new URL(input instanceof Request ? input.url : input);
+  } catch {
+    // Let fetch() report the invalid URL
+    return fetchFn(input, init);
+  }
+  if (!(url.protocol in DEFAULT_PORTS)) {
+    return fetchFn(input, init);
+  }
+
+  const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+  const redirect = init?.redirect ?? (input instanceof Request ? input.redirect : "follow");
+
+  if (!allowedHosts || redirect !== "follow") {
+    return await trackCall(url, method, allowedHosts, onCall, () => fetchFn(input, init));
+  }
+
+  // The body is buffered so 307/308 redirects can send it again
+  const request = new Request(input, init);
+  let requestMethod = method;
+  const headers = new Headers(request.headers);
+  let body = request.body ? await request.arrayBuffer() : null;
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await trackCall(url, requestMethod, allowedHosts, onCall, () =>
+      fetchFn(url, { ...init, method: requestMethod, headers, body, signal: request.signal, redirect: "manual" }));
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || location === null) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new TypeError(`fetch() to ${url.host} exceeded ${MAX_REDIRECTS} redirects`);
+    }
+
+    const next = new URL(location, url);
+    if (next.origin !== url.origin) {
+      headers.delete("authorization");
+    }
+    if (
+      (response.status === 303 && requestMethod !== "GET" && requestMethod !== "HEAD") ||
+      ((response.status === 301 || response.status === 302) && requestMethod === "POST")
+    ) {
+      requestMethod = "GET";
+      body = null;
+      BODY_HEADERS.forEach((name) => headers.delete(name));
+    }
+    url = next;
+  }
+}
+
+/**
+ * Send a single request after checking its host, and report it.
+ *
+ * @param method - Upper-cased HTTP method, as reported
+ */
+async function trackCall(
+  url: URL,
+  method: string,
+  allowedHosts: string[] | undefined,
+  onCall: (call: OutboundCall) => void,
+  send: () => Promise<Response>,
+): Promise<Response> {
+  const host = url.host;
+
+  if (!isHostAllowed(url, allowedHosts)) {
+    onCall({ method, host, durationMs: 0, blocked: true });
+    throw new OutboundHostBlockedError(host);
+  }
+
+  const startTime = performance.now();
+  try {
+    const response = await send();
+    onCall({ method, host, status: response.status, durationMs: performance.now() - startTime });
+    return response;
+  } catch (error) {
+    onCall({
+      method,
+      host,
+      durationMs: performance.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,132 @@
+import { expect } from "@std/expect";
+import { OutboundHostBlockedError } from "../functions/errors.ts";
+import { isHostAllowed, trackFetch } from "./outbound_fetch.ts";
+import type { OutboundCall } from "./types.ts";
+
+Deno.test("isHostAllowed matches exact hosts, subdomain wildcards and ports", () => {
+  const allowed = ["api.example.com", "*.stripe.com", "localhost:8080"];
+
+  expect(isHostAllowed(new URL("https://API.example.com/v1"), allowed)).toBe(true);
+  expect(isHostAllowed(new URL("https://files.example.com"), allowed)).toBe(false);
+  expect(isHostAllowed(new URL("https://api.stripe.com"), allowed)).toBe(true);
+  expect(isHostAllowed(new URL("https://stripe.com"), allowed)).toBe(false);
+  expect(isHostAllowed(new URL("http://localhost:8080/hook"), allowed)).toBe(true);
+  expect(isHostAllowed(new URL("http://localhost:9000/hook"), allowed)).toBe(false);
+});
+
+Deno.test("isHostAllowed uses default ports and allows everything without a list", () => {
+  expect(isHostAllowed(new URL("https://example.com"), ["example.com:443"])).toBe(true);
+  expect(isHostAllowed(new URL("http://example.com"), ["example.com:443"])).toBe(false);
+  expect(isHostAllowed(new URL("https://anything.test"), undefined)).toBe(true);
+  expect(isHostAllowed(new URL("https://anything.test"), [])).toBe(false);
+});
+
+Deno.test("trackFetch reports method, host and status of a call", async () => {
+  const calls: OutboundCall[] = [];
+  const fakeFetch = (() => Promise.resolve(new Response("ok", { status: 201 }))) as typeof fetch;
+
+  const response = await trackFetch(fakeFetch, "https://api.example.com/items", { method: "post" }, undefined, (call) =>
+    calls.push(call));
+
+  expect(response.status).toBe(201);
+  expect(calls.length).toBe(1);
+  expect(calls[0]).toMatchObject({ method: "POST", host: "api.example.com", status: 201 });
+  expect(calls[0].durationMs).toBeGreaterThanOrEqual(0);
+});
+
+Deno.test("trackFetch blocks hosts outside the allowed list without calling fetch", async () => {
+  const calls: OutboundCall[] = [];
+  let fetched = false;
+  const fakeFetch = (() => {
+    fetched = true;
+    return Promise.resolve(new Response("ok"));
+  }) as typeof fetch;
+
+  await expect(
+    trackFetch(fakeFetch, new Request("https://evil.test/"), undefined, ["api.example.com"], (call) => calls.push(call)),
+  ).rejects.toThrow(OutboundHostBlockedError);
+
+  expect(fetched).toBe(false);
+  expect(calls).toEqual([{ method: "GET", host: "evil.test", durationMs: 0, blocked: true }]);
+});
+
+Deno.test("trackFetch reports failed calls and passes non-HTTP URLs through", async () => {
+  const calls: OutboundCall[] = [];
+  const failingFetch = (() => Promise.reject(new TypeError("connection refused"))) as typeof fetch;
+
+  await expect(trackFetch(failingFetch, "http://localhost:1/", undefined, undefined, (call) => calls.push(call)))
+    .rejects.toThrow("connection refused");
+  expect(calls[0]).toMatchObject({ method: "GET", host: "localhost:1", error: "connection refused" });
+
+  const dataFetch = (() => Promise.resolve(new Response("data"))) as typeof fetch;
+  await trackFetch(dataFetch, "data:text/plain,hi", undefined, [], (call) => calls.push(call));
+  expect(calls.length).toBe(1);
+});
+
+Deno.test("trackFetch blocks redirects from an allowed host to a disallowed one", async () => {
+  const calls: OutboundCall[] = [];
+  const fetched: string[] = [];
+  const fakeFetch = ((input: string | URL | Request) => {
+    fetched.push(String(input));
+    return Promise.resolve(new Response(null, { status: 302, headers: { Location: "https://evil.test/steal" } }));
+  }) as typeof fetch;
+
+  await expect(
+    trackFetch(fakeFetch, "https://api.example.com/login", undefined, ["api.example.com"], (call) => calls.push(call)),
+  ).rejects.toThrow(OutboundHostBlockedError);
+
+  expect(fetched).toEqual(["https://api.example.com/login"]);
+  expect(calls.length).toBe(2);
+  expect(calls[0]).toMatchObject({ method: "GET", host: "api.example.com", status: 302 });
+  expect(calls[1]).toEqual({ method: "GET", host: "evil.test", durationMs: 0, blocked: true });
+});
+
+Deno.test("trackFetch follows allowed redirects hop by hop", async () => {
+  const calls: OutboundCall[] = [];
+  const requests: { url: string; method?: string; body: string | null; auth: string | null }[] = [];
+  const responses = [
+    new Response(null, { status: 307, headers: { Location: "/v2/orders" } }),
+    new Response(null, { status: 303, headers: { Location: "https://cdn.example.com/orders/1" } }),
+    new Response("done"),
+  ];
+  const fakeFetch = ((input: string | URL | Request, init?: RequestInit) => {
+    expect(init?.redirect).toBe("manual");
+    const headers = new Headers(init?.headers);
+    requests.push({
+      url: String(input),
+      method: init?.method,
+      body: init?.body ? new TextDecoder().decode(init.body as ArrayBuffer) : null,
+      auth: headers.get("authorization"),
+    });
+    return Promise.resolve(responses.shift()!);
+  }) as typeof fetch;
+
+  const response = await trackFetch(
+    fakeFetch,
+    "https://api.example.com/v1/orders",
+    { method: "POST", body: "order", headers: { Authorization: "Bearer t" } },
+    ["api.example.com", "cdn.example.com"],
+    (call) => calls.push(call),
+  );
+
+  expect(await response.text()).toBe("done");
+  // 307 resends the body, 303 switches to GET, credentials stay on the original origin
+  expect(requests).toEqual([
+    { url: "https://api.example.com/v1/orders", method: "POST", body: "order", auth: "Bearer t" },
+    { url: "https://api.example.com/v2/orders", method: "POST", body: "order", auth: "Bearer t" },
+    { url: "https://cdn.example.com/orders/1", method: "GET", body: null, auth: null },
+  ]);
+  expect(calls.map((call) => call.status)).toEqual([307, 303, 200]);
+});
+
+Deno.test("trackFetch gives up after too many redirects", async () => {
+  let fetchCount = 0;
+  const loopingFetch = (() => {
+    fetchCount++;
+    return Promise.resolve(new Response(null, { status: 302, headers: { Location: "/again" } }));
+  }) as typeof fetch;
+
+  await expect(trackFetch(loopingFetch, "https://api.example.com/", undefined, ["api.example.com"], () => {}))
+    .rejects.toThrow("exceeded 20 redirects");
+  expect(fetchCount).toBe(21);
+});
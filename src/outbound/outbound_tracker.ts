@@ -0,0 +1,94 @@
+import type { LogFields } from "../logs/types.ts";
+import { nowMs, type Span } from "../tracing/span.ts";
+import type { OutboundCall } from "./types.ts";
+
+export interface OutboundTrackerOptions {
+  /** Hosts the handler may call (undefined = no restriction) */
+  allowedHosts?: string[];
+  /** Writes the "outbound" log entry of a call */
+  log: (message: string, fields: LogFields) => void;
+  /** Execution span of the invocation - each call is recorded as a client span under it */
+  span?: Span;
+}
+
+/**
+ * Records the outbound calls of one invocation.
+ *
+ * Created by the router for each request and carried in its request context,
+ * so the fetch interceptor (or the worker executor, for worker-isolated handlers)
+ * can report calls to it. Each call is logged (and traced, when tracing is
+ * enabled), and the call count and total outbound time are stored with the
+ * execution metric.
+ */
+export class OutboundTracker {
+  readonly allowedHosts?: string[];
+  private readonly log: (message: string, fields: LogFields) => void;
+  private readonly span?: Span;
+  private calls = 0;
+  private totalTimeMs = 0;
+
+  constructor(options: OutboundTrackerOptions) {
+    this.allowedHosts = options.allowedHosts;
+    this.log = options.log;
+    this.span = options.span;
+  }
+
+  /** Number of calls made (including failed and blocked calls) */
+  get callCount(): number {
+    return this.calls;
+  }
+
+  /** Sum of the durations of all calls, in microseconds (overlapping calls add up) */
+  get totalTimeUs(): number {
+    return Math.round(this.totalTimeMs * 1000);
+  }
+
+  /**
+   * Record a completed, failed or blocked call.
+   */
+  record(call: OutboundCall): void {
+    this.calls++;
+    this.totalTimeMs += call.durationMs;
+
+    const durationMs = Math.round(call.durationMs);
+    const fields: LogFields = {
+      method: call.method,
+      host: call.host,
+      status: call.status ?? null,
+      durationMs,
+    };
+    let message: string;
+    if (call.blocked) {
+      fields.blocked = true;
+      message = `${call.method} ${call.host} blocked (not an allowed host)`;
+    } else if (call.error !== undefined) {
+      fields.error = call.error;
+      message = `${call.method} ${call.host} failed after ${durationMs}ms: ${call.error}`;
+    } else {
+      message = `${call.method} ${call.host} ${call.status} ${durationMs}ms`;
+    }
+    this.log(message, fields);
+    this.traceCall(call);
+  }
+
+  /**
+   * Record a call as a client span, ending now (calls are reported once completed).
+   */
+  private traceCall(call: OutboundCall): void {
+    if (!this.span) return;
+
+    const endTimeMs = nowMs();
+    const callSpan = this.span.startChild(call.method, {
+      kind: "client",
+      startTimeMs: endTimeMs - call.durationMs,
+      attributes: { "http.request.method": call.method, "server.address": call.host },
+    });
+    callSpan.setAttribute("http.response.status_code", call.status);
+    if (call.blocked) {
+      callSpan.setError("Host is not in the function's allowed hosts");
+    } else if (call.error !== undefined) {
+      callSpan.setError(call.error);
+    }
+    callSpan.end(endTimeMs);
+  }
+}
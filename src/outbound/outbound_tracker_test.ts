@@ -0,0 +1,61 @@
+import { expect } from "@std/expect";
+import type { LogFields } from "../logs/types.ts";
+import { Span } from "../tracing/span.ts";
+import type { FinishedSpan } from "../tracing/types.ts";
+import { OutboundTracker } from "./outbound_tracker.ts";
+
+Deno.test("OutboundTracker logs each call and sums call count and time", () => {
+  const entries: { message: string; fields: LogFields }[] = [];
+  const tracker = new OutboundTracker({ log: (message, fields) => entries.push({ message, fields }) });
+
+  tracker.record({ method: "GET", host: "api.example.com", status: 200, durationMs: 12.4 });
+  tracker.record({ method: "POST", host: "api.example.com", durationMs: 3, error: "connection reset" });
+
+  expect(tracker.callCount).toBe(2);
+  expect(tracker.totalTimeUs).toBe(15400);
+  expect(entries[0]).toEqual({
+    message: "GET api.example.com 200 12ms",
+    fields: { method: "GET", host: "api.example.com", status: 200, durationMs: 12 },
+  });
+  expect(entries[1].message).toBe("POST api.example.com failed after 3ms: connection reset");
+  expect(entries[1].fields).toMatchObject({ status: null, error: "connection reset" });
+});
+
+Deno.test("OutboundTracker logs blocked calls", () => {
+  const entries: { message: string; fields: LogFields }[] = [];
+  const tracker = new OutboundTracker({
+    allowedHosts: ["api.example.com"],
+    log: (message, fields) => entries.push({ message, fields }),
+  });
+
+  tracker.record({ method: "GET", host: "evil.test", durationMs: 0, blocked: true });
+
+  expect(tracker.allowedHosts).toEqual(["api.example.com"]);
+  expect(tracker.callCount).toBe(1);
+  expect(entries[0].message).toBe("GET evil.test blocked (not an allowed host)");
+  expect(entries[0].fields.blocked).toBe(true);
+});
+
+Deno.test("OutboundTracker records calls as client spans of the execution span", () => {
+  const spans: FinishedSpan[] = [];
+  const span = new Span({
+    name: "GET /orders",
+    kind: "server",
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    onEnd: (finished) => spans.push(finished),
+  });
+  const tracker = new OutboundTracker({ span, log: () => {} });
+
+  tracker.record({ method: "GET", host: "api.example.com", status: 503, durationMs: 20 });
+  tracker.record({ method: "GET", host: "evil.test", durationMs: 0, blocked: true });
+
+  expect(spans.length).toBe(2);
+  expect(spans[0]).toMatchObject({
+    name: "GET",
+    kind: "client",
+    parentSpanId: span.spanId,
+    attributes: { "server.address": "api.example.com", "http.response.status_code": 503 },
+  });
+  expect(spans[0].endTimeMs - spans[0].startTimeMs).toBeCloseTo(20);
+  expect(spans[1].status).toBe("error");
+});
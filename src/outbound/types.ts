@@ -0,0 +1,15 @@
+/** An outbound fetch() call made by a function handler */
+export interface OutboundCall {
+  /** HTTP method of the request */
+  method: string;
+  /** Host (and port, if not the default) of the request URL */
+  host: string;
+  /** Response status (undefined when the call failed or was blocked) */
+  status?: number;
+  /** Time until the response headers arrived, in milliseconds */
+  durationMs: number;
+  /** Whether the call was blocked by the function's allowed hosts */
+  blocked?: boolean;
+  /** Error message of a failed call */
+  error?: string;
+}
@@ -0,0 +1,42 @@
+/**
+ * Base error class for rate limit errors.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Thrown when a rate limit rule is not found by ID.
+ */
+export class RateLimitRuleNotFoundError extends RateLimitError {
+  public readonly ruleId: string;
+
+  constructor(ruleId: string) {
+    super(`Rate limit rule '${ruleId}' not found`);
+    this.name = "RateLimitRuleNotFoundError";
+    this.ruleId = ruleId;
+  }
+}
+
+/**
+ * Thrown when creating a rule for a scope target that already has one.
+ */
+export class DuplicateRateLimitRuleError extends RateLimitError {
+  constructor(scopeType: string, scopeId: string) {
+    super(`A rate limit rule for ${scopeType} '${scopeId}' already exists`);
+    this.name = "DuplicateRateLimitRuleError";
+  }
+}
+
+/**
+ * Thrown when a rule's limits or scope are invalid.
+ */
+export class InvalidRateLimitRuleError extends RateLimitError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRateLimitRuleError";
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Rate Limits Module
+ *
+ * Throttles function invocations with token bucket rules:
+ * - Per function, per API key group and per API key
+ * - Requests per window with an optional burst allowance
+ * - In-memory counters, optionally persisted to SurrealDB
+ */
+
+// Service
+export { RateLimitService } from "./rate_limit_service.ts";
+export type { RateLimitServiceOptions } from "./rate_limit_service.ts";
+
+// Routes
+export { createRateLimitRoutes } from "./rate_limit_routes.ts";
+
+// Errors
+export {
+  RateLimitError,
+  RateLimitRuleNotFoundError,
+  DuplicateRateLimitRuleError,
+  InvalidRateLimitRuleError,
+} from "./errors.ts";
+
+// Types
+export { isRateLimitScopeType, RATE_LIMIT_SCOPE_TYPES } from "./types.ts";
+export type {
+  RateLimitRule,
+  NewRateLimitRule,
+  RateLimitRuleUpdate,
+  RateLimitScopeType,
+  RateLimitSubject,
+  RateLimitDecision,
+  RateLimitBucket,
+} from "./types.ts";
@@ -0,0 +1,181 @@
+import { Hono } from "@hono/hono";
+import type { RateLimitService } from "./rate_limit_service.ts";
+import {
+  DuplicateRateLimitRuleError,
+  InvalidRateLimitRuleError,
+  RateLimitRuleNotFoundError,
+} from "./errors.ts";
+import type { RateLimitRule, RateLimitRuleUpdate } from "./types.ts";
+import { isRateLimitScopeType } from "./types.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+
+/**
+ * Transform RateLimitRule entity to API response format.
+ */
+function ruleToResponse(rule: RateLimitRule) {
+  return {
+    id: recordIdToString(rule.id),
+    scopeType: rule.scopeType,
+    scopeId: recordIdToString(rule.scopeRef),
+    requests: rule.requests,
+    windowSeconds: rule.windowSeconds,
+    burst: rule.burst ?? null,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * Map rate limit errors to JSON error responses.
+ * Returns null for errors that should propagate.
+ */
+function rateLimitErrorResponse(error: unknown): { message: string; status: 400 | 404 | 409 } | null {
+  if (error instanceof RateLimitRuleNotFoundError) {
+    return { message: error.message, status: 404 };
+  }
+  if (error instanceof DuplicateRateLimitRuleError) {
+    return { message: error.message, status: 409 };
+  }
+  if (error instanceof InvalidRateLimitRuleError) {
+    return { message: error.message, status: 400 };
+  }
+  return null;
+}
+
+/**
+ * Create routes for rate limit rule management.
+ * Mounted at /api/rate-limits
+ */
+export function createRateLimitRoutes(rateLimitService: RateLimitService): Hono {
+  const routes = new Hono();
+
+  // GET /api/rate-limits - List rules (optional ?scope= filter)
+  routes.get("/", async (c) => {
+    const scope = c.req.query("scope");
+    if (scope !== undefined && !isRateLimitScopeType(scope)) {
+      return c.json(
+        { error: `Invalid scope '${scope}'. Must be one of: function, group, key` },
+        400,
+      );
+    }
+
+    const rules = await rateLimitService.getRules(scope);
+    return c.json({ rules: rules.map(ruleToResponse) });
+  });
+
+  // GET /api/rate-limits/:id - Get rule by ID
+  routes.get("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid rate limit ID" }, 400);
+    }
+
+    const rule = await rateLimitService.getRuleById(id);
+    if (!rule) {
+      return c.json({ error: "Rate limit rule not found" }, 404);
+    }
+    return c.json(ruleToResponse(rule));
+  });
+
+  // POST /api/rate-limits - Create a rule
+  routes.post("/", async (c) => {
+    let body: {
+      scopeType?: string;
+      scopeId?: string;
+      requests?: number;
+      windowSeconds?: number;
+      burst?: number | null;
+    };
+
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    if (!body.scopeType || !isRateLimitScopeType(body.scopeType)) {
+      return c.json(
+        { error: "Missing or invalid scopeType. Must be one of: function, group, key" },
+        400,
+      );
+    }
+
+    const scopeId = body.scopeId ? validateSurrealId(body.scopeId) : null;
+    if (!scopeId) {
+      return c.json({ error: "Missing or invalid scopeId" }, 400);
+    }
+
+    if (body.requests === undefined || body.windowSeconds === undefined) {
+      return c.json({ error: "Missing required fields: requests, windowSeconds" }, 400);
+    }
+
+    try {
+      const rule = await rateLimitService.createRule({
+        scopeType: body.scopeType,
+        scopeId,
+        requests: body.requests,
+        windowSeconds: body.windowSeconds,
+        burst: body.burst ?? undefined,
+      });
+      return c.json(ruleToResponse(rule), 201);
+    } catch (error) {
+      const response = rateLimitErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // PUT /api/rate-limits/:id - Update a rule's limits (burst: null resets burst to requests)
+  routes.put("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid rate limit ID" }, 400);
+    }
+
+    let body: RateLimitRuleUpdate;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    try {
+      const rule = await rateLimitService.updateRule(id, {
+        requests: body.requests,
+        windowSeconds: body.windowSeconds,
+        burst: body.burst,
+      });
+      return c.json(ruleToResponse(rule));
+    } catch (error) {
+      const response = rateLimitErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // DELETE /api/rate-limits/:id - Delete a rule
+  routes.delete("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.json({ error: "Invalid rate limit ID" }, 400);
+    }
+
+    try {
+      await rateLimitService.deleteRule(id);
+      return c.json({ success: true });
+    } catch (error) {
+      const response = rateLimitErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,108 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { RateLimitService } from "./rate_limit_service.ts";
+import { createRateLimitRoutes } from "./rate_limit_routes.ts";
+
+/**
+ * Create a test app with rate limit routes and one API key group.
+ */
+async function createTestApp() {
+  const ctx = await TestSetupBuilder.create()
+    .withApiKeyGroup("partners", "Partner integrations")
+    .build();
+
+  const rateLimitService = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+  const app = new Hono();
+  app.route("/api/rate-limits", createRateLimitRoutes(rateLimitService));
+
+  const group = await ctx.apiKeyService.getGroupByName("partners");
+  return { app, ctx, groupId: recordIdToString(group!.id) };
+}
+
+function postRule(app: Hono, body: Record<string, unknown>) {
+  return app.request("/api/rate-limits", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+integrationTest("POST /api/rate-limits creates a rule and GET lists it", async () => {
+  const { app, ctx, groupId } = await createTestApp();
+  try {
+    const res = await postRule(app, { scopeType: "group", scopeId: groupId, requests: 100, windowSeconds: 60, burst: 20 });
+    expect(res.status).toBe(201);
+
+    const created = await res.json();
+    expect(created.scopeType).toBe("group");
+    expect(created.scopeId).toBe(groupId);
+    expect(created.burst).toBe(20);
+
+    const list = await (await app.request("/api/rate-limits?scope=group")).json();
+    expect(list.rules.map((r: { id: string }) => r.id)).toEqual([created.id]);
+
+    const invalidScope = await app.request("/api/rate-limits?scope=global");
+    expect(invalidScope.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/rate-limits rejects invalid and duplicate rules", async () => {
+  const { app, ctx, groupId } = await createTestApp();
+  try {
+    const missing = await postRule(app, { scopeType: "group", scopeId: groupId });
+    expect(missing.status).toBe(400);
+
+    const invalid = await postRule(app, { scopeType: "group", scopeId: groupId, requests: 1.5, windowSeconds: 60 });
+    expect(invalid.status).toBe(400);
+
+    const unknownTarget = await postRule(app, { scopeType: "key", scopeId: "nope", requests: 1, windowSeconds: 60 });
+    expect(unknownTarget.status).toBe(400);
+
+    expect((await postRule(app, { scopeType: "group", scopeId: groupId, requests: 1, windowSeconds: 60 })).status)
+      .toBe(201);
+    const duplicate = await postRule(app, { scopeType: "group", scopeId: groupId, requests: 2, windowSeconds: 60 });
+    expect(duplicate.status).toBe(409);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("PUT and DELETE /api/rate-limits/:id update and remove a rule", async () => {
+  const { app, ctx, groupId } = await createTestApp();
+  try {
+    const created = await (await postRule(app, {
+      scopeType: "group",
+      scopeId: groupId,
+      requests: 10,
+      windowSeconds: 60,
+      burst: 50,
+    })).json();
+
+    const updateRes = await app.request(`/api/rate-limits/${created.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ requests: 20, burst: null }),
+    });
+    expect(updateRes.status).toBe(200);
+    const updated = await updateRes.json();
+    expect(updated.requests).toBe(20);
+    expect(updated.windowSeconds).toBe(60);
+    expect(updated.burst).toBeNull();
+
+    const deleteRes = await app.request(`/api/rate-limits/${created.id}`, { method: "DELETE" });
+    expect(deleteRes.status).toBe(200);
+
+    const getRes = await app.request(`/api/rate-limits/${created.id}`);
+    expect(getRes.status).toBe(404);
+
+    const deleteAgain = await app.request(`/api/rate-limits/${created.id}`, { method: "DELETE" });
+    expect(deleteAgain.status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -0,0 +1,484 @@
+import { RecordId } from "surrealdb";
+import { Mutex } from "@core/asyncutil/mutex";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
+import { recordIdToString, toDate } from "../database/surreal_helpers.ts";
+import {
+  DuplicateRateLimitRuleError,
+  InvalidRateLimitRuleError,
+  RateLimitRuleNotFoundError,
+} from "./errors.ts";
+import type {
+  NewRateLimitRule,
+  RateLimitBucket,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitRuleUpdate,
+  RateLimitScopeType,
+  RateLimitSubject,
+} from "./types.ts";
+
+/** Upper bound for requests and burst of a single rule */
+export const MAX_RATE_LIMIT_REQUESTS = 1_000_000;
+
+/** Upper bound for a rule's window (1 day) */
+export const MAX_RATE_LIMIT_WINDOW_SECONDS = 86400;
+
+/** Table holding the records each scope type points at */
+const SCOPE_TABLES: Record<RateLimitScopeType, string> = {
+  function: "functionDef",
+  group: "apiKeyGroup",
+  key: "apiKey",
+};
+
+export interface RateLimitServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+  /** Optional - when provided, counter persistence is read from settings */
+  settingsService?: SettingsService;
+}
+
+/**
+ * Service for rate limit rules and the token buckets that enforce them.
+ *
+ * Rules are stored in SurrealDB and cached in memory. Bucket state is kept in
+ * memory by default; with the rate-limit.persist-counters setting enabled,
+ * bucket changes are also written to the rateLimitBucket table in the
+ * background and buckets are loaded from there on first use, so limits survive
+ * restarts. Checks only lock the buckets they touch and never wait for writes.
+ *
+ * ID Handling: All IDs are RecordId internally. Convert to string only at API/UI boundaries.
+ */
+export class RateLimitService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+  private readonly settingsService?: SettingsService;
+  private readonly writeMutex = new Mutex();
+
+  /** Locks serializing checks of the same bucket, keyed by rule ID */
+  private readonly bucketLocks = new Map<string, Mutex>();
+
+  /** Rules keyed by "scopeType:scopeRef" */
+  private rules: Map<string, RateLimitRule> | null = null;
+  private rulesLoadedAt = 0;
+  private readonly rulesRefreshIntervalMs = 5000;
+
+  /** Bucket state keyed by rule ID */
+  private readonly buckets = new Map<string, RateLimitBucket>();
+
+  /** Rules whose bucket changed since it was last persisted, keyed by rule ID */
+  private readonly dirtyBuckets = new Map<string, RateLimitRule>();
+  private persisting: Promise<void> | null = null;
+
+  // Settings (refreshed periodically)
+  private persistCounters = GlobalSettingDefaults[SettingNames.RATE_LIMIT_PERSIST_COUNTERS] === "true";
+  private lastSettingsRefresh = 0;
+  private readonly settingsRefreshIntervalMs = 5000;
+
+  constructor(options: RateLimitServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+    this.settingsService = options.settingsService;
+  }
+
+  // ============== Rule Management ==============
+
+  /**
+   * List rules, optionally filtered by scope type.
+   */
+  async getRules(scopeType?: RateLimitScopeType): Promise<RateLimitRule[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = scopeType
+        ? await db.query<[RateLimitRule[]]>(
+          `SELECT * FROM rateLimit WHERE scopeType = $scopeType ORDER BY createdAt`,
+          { scopeType },
+        )
+        : await db.query<[RateLimitRule[]]>(`SELECT * FROM rateLimit ORDER BY createdAt`);
+      return rows ?? [];
+    });
+  }
+
+  /**
+   * Get a rule by ID.
+   */
+  async getRuleById(id: string): Promise<RateLimitRule | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[RateLimitRule[]]>(
+        `SELECT * FROM $recordId`,
+        { recordId: new RecordId("rateLimit", id) },
+      );
+      return rows?.[0] ?? null;
+    });
+  }
+
+  /**
+   * Create a rule for a function, API key group or API key.
+   * @throws InvalidRateLimitRuleError if limits are invalid or the scope target doesn't exist
+   * @throws DuplicateRateLimitRuleError if the scope target already has a rule
+   */
+  async createRule(input: NewRateLimitRule): Promise<RateLimitRule> {
+    using _lock = await this.writeMutex.acquire();
+    this.validateLimits(input.requests, input.windowSeconds, input.burst);
+
+    const scopeRef = new RecordId(SCOPE_TABLES[input.scopeType], input.scopeId);
+
+    try {
+      const rule = await this.surrealFactory.withSystemConnection({}, async (db) => {
+        const [targets] = await db.query<[{ id: RecordId }[]]>(
+          `SELECT id FROM $scopeRef`,
+          { scopeRef },
+        );
+        if (!targets?.length) {
+          throw new InvalidRateLimitRuleError(
+            `${SCOPE_TABLES[input.scopeType]} '${input.scopeId}' does not exist`,
+          );
+        }
+
+        const [rows] = await db.query<[RateLimitRule[]]>(
+          `CREATE rateLimit SET
+            scopeType = $scopeType,
+            scopeRef = $scopeRef,
+            requests = $requests,
+            windowSeconds = $windowSeconds,
+            burst = $burst`,
+          {
+            scopeType: input.scopeType,
+            scopeRef,
+            requests: input.requests,
+            windowSeconds: input.windowSeconds,
+            burst: input.burst,
+          },
+        );
+        return rows[0];
+      });
+      this.rules = null;
+      return rule;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("unique_rateLimit_scope")) {
+        throw new DuplicateRateLimitRuleError(input.scopeType, input.scopeId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule's limits. The rule's bucket keeps its tokens (capped at the new burst).
+   * @throws RateLimitRuleNotFoundError if the rule doesn't exist
+   * @throws InvalidRateLimitRuleError if the resulting limits are invalid
+   */
+  async updateRule(id: string, update: RateLimitRuleUpdate): Promise<RateLimitRule> {
+    using _lock = await this.writeMutex.acquire();
+
+    const existing = await this.getRuleById(id);
+    if (!existing) {
+      throw new RateLimitRuleNotFoundError(id);
+    }
+
+    const requests = update.requests ?? existing.requests;
+    const windowSeconds = update.windowSeconds ?? existing.windowSeconds;
+    const burst = update.burst === null ? undefined : update.burst ?? existing.burst;
+    this.validateLimits(requests, windowSeconds, burst);
+
+    const rule = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[RateLimitRule[]]>(
+        `UPDATE $recordId SET
+          requests = $requests,
+          windowSeconds = $windowSeconds,
+          burst = $burst`,
+        { recordId: existing.id, requests, windowSeconds, burst },
+      );
+      return rows[0];
+    });
+    this.rules = null;
+    return rule;
+  }
+
+  /**
+   * Delete a rule and its bucket.
+   * @throws RateLimitRuleNotFoundError if the rule doesn't exist
+   */
+  async deleteRule(id: string): Promise<void> {
+    using _lock = await this.writeMutex.acquire();
+
+    const recordId = new RecordId("rateLimit", id);
+    const deleted = await this.surrealFactory.withSystemConnection({}, async (db) => {
+      // Persisted bucket is removed by the delete_rateLimit_bucket event
+      const [rows] = await db.query<[RateLimitRule[]]>(
+        `DELETE $recordId RETURN BEFORE`,
+        { recordId },
+      );
+      return rows ?? [];
+    });
+
+    if (deleted.length === 0) {
+      throw new RateLimitRuleNotFoundError(id);
+    }
+
+    const ruleId = recordIdToString(recordId);
+    this.buckets.delete(ruleId);
+    this.dirtyBuckets.delete(ruleId);
+    this.bucketLocks.delete(ruleId);
+    this.rules = null;
+  }
+
+  // ============== Enforcement ==============
+
+  /**
+   * Check a request against the function, key group and key rules that apply to it,
+   * consuming one token from each bucket if all of them allow the request.
+   * A rejected request consumes nothing.
+   */
+  async check(subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const rules = await this.loadRules();
+    const applicable = [
+      rules.get(`function:${subject.functionId}`),
+      subject.keyGroupId ? rules.get(`group:${subject.keyGroupId}`) : undefined,
+      subject.keyId ? rules.get(`key:${subject.keyId}`) : undefined,
+    ].filter((rule): rule is RateLimitRule => rule !== undefined);
+
+    if (applicable.length === 0) {
+      return { allowed: true };
+    }
+
+    await this.maybeRefreshSettings();
+
+    // Only checks sharing a bucket wait for each other - a persisted bucket is
+    // read from the database on first use, so its state spans an await
+    const locks = await this.acquireBucketLocks(applicable);
+    let decision: RateLimitDecision;
+    try {
+      decision = await this.consume(applicable);
+    } finally {
+      for (const lock of locks) {
+        lock[Symbol.dispose]();
+      }
+    }
+
+    if (this.dirtyBuckets.size > 0) {
+      // Written in the background - a slow database doesn't hold up requests
+      this.flush();
+    }
+    return decision;
+  }
+
+  /**
+   * Write bucket changes that haven't been persisted yet to the database.
+   * Resolves once every change made before the call has been written.
+   */
+  flush(): Promise<void> {
+    this.persisting ??= this.persistDirtyBuckets().finally(() => {
+      this.persisting = null;
+    });
+    return this.persisting;
+  }
+
+  // ============== Helper Methods ==============
+
+  /**
+   * Validates a rule's limits
+   * @throws InvalidRateLimitRuleError if any limit is out of range
+   */
+  private validateLimits(requests: number, windowSeconds: number, burst: number | undefined): void {
+    if (!Number.isInteger(requests) || requests < 1 || requests > MAX_RATE_LIMIT_REQUESTS) {
+      throw new InvalidRateLimitRuleError(
+        `requests must be a whole number between 1 and ${MAX_RATE_LIMIT_REQUESTS}`,
+      );
+    }
+    if (
+      !Number.isInteger(windowSeconds) || windowSeconds < 1 ||
+      windowSeconds > MAX_RATE_LIMIT_WINDOW_SECONDS
+    ) {
+      throw new InvalidRateLimitRuleError(
+        `windowSeconds must be a whole number between 1 and ${MAX_RATE_LIMIT_WINDOW_SECONDS}`,
+      );
+    }
+    if (
+      burst !== undefined &&
+      (!Number.isInteger(burst) || burst < 1 || burst > MAX_RATE_LIMIT_REQUESTS)
+    ) {
+      throw new InvalidRateLimitRuleError(
+        `burst must be a whole number between 1 and ${MAX_RATE_LIMIT_REQUESTS}`,
+      );
+    }
+  }
+
+  /**
+   * Load rules into the cache if it was invalidated or is stale.
+   * Cascade deletes of functions and keys happen in the database, so the cache
+   * is also reloaded periodically.
+   */
+  private async loadRules(): Promise<Map<string, RateLimitRule>> {
+    if (this.rules && Date.now() - this.rulesLoadedAt < this.rulesRefreshIntervalMs) {
+      return this.rules;
+    }
+
+    const rules = new Map<string, RateLimitRule>();
+    for (const rule of await this.getRules()) {
+      rules.set(`${rule.scopeType}:${recordIdToString(rule.scopeRef)}`, rule);
+    }
+    this.rules = rules;
+    this.rulesLoadedAt = Date.now();
+    return rules;
+  }
+
+  /**
+   * Acquire the locks of the rules' buckets, always in the same order so checks
+   * of overlapping buckets can't deadlock.
+   */
+  private async acquireBucketLocks(rules: RateLimitRule[]): Promise<Disposable[]> {
+    const ruleIds = rules.map((rule) => recordIdToString(rule.id)).sort();
+    const locks: Disposable[] = [];
+    for (const ruleId of ruleIds) {
+      let mutex = this.bucketLocks.get(ruleId);
+      if (!mutex) {
+        mutex = new Mutex();
+        this.bucketLocks.set(ruleId, mutex);
+      }
+      locks.push(await mutex.acquire());
+    }
+    return locks;
+  }
+
+  /**
+   * Refill the rules' buckets and take one token from each if all of them have one.
+   * Must be called with the buckets' locks held.
+   */
+  private async consume(rules: RateLimitRule[]): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const refilled: { rule: RateLimitRule; bucket: RateLimitBucket }[] = [];
+    for (const rule of rules) {
+      refilled.push({ rule, bucket: this.refill(rule, await this.getBucket(rule, now), now) });
+    }
+
+    const exhausted = refilled.filter(({ bucket }) => bucket.tokens < 1);
+    if (exhausted.length > 0) {
+      // Keep refill progress so time already waited still counts
+      for (const { rule, bucket } of refilled) {
+        this.saveBucket(rule, bucket);
+      }
+
+      const retryAfterSeconds = Math.max(
+        ...exhausted.map(({ rule, bucket }) =>
+          Math.ceil((1 - bucket.tokens) / this.refillRatePerSecond(rule))
+        ),
+      );
+      return { allowed: false, scopeType: exhausted[0].rule.scopeType, retryAfterSeconds };
+    }
+
+    for (const { rule, bucket } of refilled) {
+      this.saveBucket(rule, { tokens: bucket.tokens - 1, updatedAt: bucket.updatedAt });
+    }
+    return { allowed: true };
+  }
+
+  private capacity(rule: RateLimitRule): number {
+    return rule.burst ?? rule.requests;
+  }
+
+  private refillRatePerSecond(rule: RateLimitRule): number {
+    return rule.requests / rule.windowSeconds;
+  }
+
+  /**
+   * Add the tokens accrued since the bucket was last updated, capped at capacity.
+   */
+  private refill(rule: RateLimitRule, bucket: RateLimitBucket, now: number): RateLimitBucket {
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    const tokens = Math.min(
+      this.capacity(rule),
+      bucket.tokens + elapsedSeconds * this.refillRatePerSecond(rule),
+    );
+    return { tokens, updatedAt: now };
+  }
+
+  /**
+   * Get a rule's bucket - from memory, the database when persistence is enabled,
+   * or a new full bucket.
+   */
+  private async getBucket(rule: RateLimitRule, now: number): Promise<RateLimitBucket> {
+    const ruleId = recordIdToString(rule.id);
+    const cached = this.buckets.get(ruleId);
+    if (cached) return cached;
+
+    if (this.persistCounters) {
+      const persisted = await this.surrealFactory.withSystemConnection({}, async (db) => {
+        const [rows] = await db.query<[{ tokens: number; refilledAt: Date }[]]>(
+          `SELECT tokens, refilledAt FROM $bucketId`,
+          { bucketId: new RecordId("rateLimitBucket", ruleId) },
+        );
+        return rows?.[0];
+      });
+      if (persisted) {
+        return { tokens: persisted.tokens, updatedAt: toDate(persisted.refilledAt).getTime() };
+      }
+    }
+
+    return { tokens: this.capacity(rule), updatedAt: now };
+  }
+
+  /**
+   * Update a bucket in memory and, with persistence enabled, mark it for the next write.
+   */
+  private saveBucket(rule: RateLimitRule, bucket: RateLimitBucket): void {
+    const ruleId = recordIdToString(rule.id);
+    this.buckets.set(ruleId, bucket);
+
+    if (this.persistCounters) {
+      this.dirtyBuckets.set(ruleId, rule);
+    }
+  }
+
+  /**
+   * Write the current state of changed buckets until none are left.
+   * A bucket that changes again while a write is running is written once more,
+   * so several changes in quick succession cost a single write.
+   */
+  private async persistDirtyBuckets(): Promise<void> {
+    while (this.dirtyBuckets.size > 0) {
+      const batch = [...this.dirtyBuckets];
+      this.dirtyBuckets.clear();
+
+      for (const [ruleId, rule] of batch) {
+        const bucket = this.buckets.get(ruleId);
+        if (!bucket) continue; // Rule was deleted
+
+        try {
+          await this.surrealFactory.withSystemConnection({}, async (db) => {
+            await db.query(
+              `UPSERT $bucketId SET rule = $rule, tokens = $tokens, refilledAt = $refilledAt`,
+              {
+                bucketId: new RecordId("rateLimitBucket", ruleId),
+                rule: rule.id,
+                tokens: bucket.tokens,
+                refilledAt: new Date(bucket.updatedAt),
+              },
+            );
+          });
+        } catch (error) {
+          // The in-memory bucket stays authoritative - a failed write only loses durability
+          globalThis.console.error("[RateLimitService] Failed to persist bucket:", error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Refresh the counter persistence flag from settings if the refresh interval has elapsed.
+   */
+  private async maybeRefreshSettings(): Promise<void> {
+    if (!this.settingsService) return;
+
+    const now = Date.now();
+    if (now - this.lastSettingsRefresh < this.settingsRefreshIntervalMs) return;
+
+    this.lastSettingsRefresh = now;
+    try {
+      const persist = await this.settingsService.getGlobalSetting(
+        SettingNames.RATE_LIMIT_PERSIST_COUNTERS,
+      );
+      if (persist) {
+        this.persistCounters = persist === "true";
+      }
+    } catch (error) {
+      globalThis.console.error("[RateLimitService] Failed to refresh settings:", error);
+    }
+  }
+}
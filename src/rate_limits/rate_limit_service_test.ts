@@ -0,0 +1,145 @@
+import { expect } from "@std/expect";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { SettingNames } from "../settings/types.ts";
+import { RateLimitService } from "./rate_limit_service.ts";
+import { DuplicateRateLimitRuleError, InvalidRateLimitRuleError } from "./errors.ts";
+
+integrationTest("RateLimitService allows burst then rejects with retry delay", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.limited;
+  try {
+    const service = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    await service.createRule({
+      scopeType: "function",
+      scopeId: functionId,
+      requests: 6,
+      windowSeconds: 60,
+      burst: 3,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await service.check({ functionId })).allowed).toBe(true);
+    }
+
+    // Refill rate is 6/60s = one token every 10 seconds
+    const decision = await service.check({ functionId });
+    expect(decision).toEqual({ allowed: false, scopeType: "function", retryAfterSeconds: 10 });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("RateLimitService admits no more than the burst for concurrent checks", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.limited;
+  try {
+    await ctx.settingsService.setGlobalSetting(SettingNames.RATE_LIMIT_PERSIST_COUNTERS, "true");
+    const service = new RateLimitService({
+      surrealFactory: ctx.surrealFactory,
+      settingsService: ctx.settingsService,
+    });
+    await service.createRule({ scopeType: "function", scopeId: functionId, requests: 3, windowSeconds: 3600 });
+
+    const decisions = await Promise.all(
+      Array.from({ length: 6 }, () => service.check({ functionId })),
+    );
+    expect(decisions.filter((decision) => decision.allowed).length).toBe(3);
+    await service.flush();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("RateLimitService ignores requests without applicable rules", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  try {
+    const service = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    for (let i = 0; i < 5; i++) {
+      expect((await service.check({ functionId: "other", keyGroupId: "g", keyId: "k" })).allowed)
+        .toBe(true);
+    }
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("RateLimitService validates limits and rejects duplicate scopes", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.limited;
+  try {
+    const service = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+
+    await expect(
+      service.createRule({ scopeType: "function", scopeId: functionId, requests: 0, windowSeconds: 60 }),
+    ).rejects.toThrow(InvalidRateLimitRuleError);
+    await expect(
+      service.createRule({ scopeType: "group", scopeId: "missing", requests: 1, windowSeconds: 60 }),
+    ).rejects.toThrow(InvalidRateLimitRuleError);
+
+    await service.createRule({ scopeType: "function", scopeId: functionId, requests: 1, windowSeconds: 60 });
+    await expect(
+      service.createRule({ scopeType: "function", scopeId: functionId, requests: 5, windowSeconds: 60 }),
+    ).rejects.toThrow(DuplicateRateLimitRuleError);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("RateLimitService persists counters across instances when enabled", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.limited;
+  try {
+    await ctx.settingsService.setGlobalSetting(SettingNames.RATE_LIMIT_PERSIST_COUNTERS, "true");
+
+    const first = new RateLimitService({
+      surrealFactory: ctx.surrealFactory,
+      settingsService: ctx.settingsService,
+    });
+    await first.createRule({ scopeType: "function", scopeId: functionId, requests: 1, windowSeconds: 3600 });
+    expect((await first.check({ functionId })).allowed).toBe(true);
+    await first.flush();
+
+    // A new instance (e.g. after restart) picks up the exhausted bucket
+    const second = new RateLimitService({
+      surrealFactory: ctx.surrealFactory,
+      settingsService: ctx.settingsService,
+    });
+    expect((await second.check({ functionId })).allowed).toBe(false);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("RateLimitService rules are removed with their function", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSettings()
+    .withFunction("/limited", "limited.ts", { name: "limited", methods: ["GET"] })
+    .build();
+  const functionId = ctx.functionIds.limited;
+  try {
+    const service = new RateLimitService({ surrealFactory: ctx.surrealFactory });
+    await service.createRule({ scopeType: "function", scopeId: functionId, requests: 1, windowSeconds: 60 });
+
+    await ctx.functionsService.removeFunction("limited");
+
+    expect(await service.getRules()).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
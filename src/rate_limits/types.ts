@@ -0,0 +1,103 @@
+/**
+ * Types for the rate limiting system
+ *
+ * ID Handling Pattern:
+ * - Runtime/Interfaces: Always use RecordId type
+ * - API/Web UI boundaries: Convert to string via recordIdToString()
+ */
+
+import type { RecordId } from "surrealdb";
+
+/**
+ * What a rate limit rule applies to.
+ * - function: all HTTP requests to one function
+ * - group: all requests authenticated by any key of an API key group
+ * - key: all requests authenticated by one API key
+ */
+export type RateLimitScopeType = "function" | "group" | "key";
+
+export const RATE_LIMIT_SCOPE_TYPES: readonly RateLimitScopeType[] = ["function", "group", "key"];
+
+/**
+ * Type guard for rate limit scope strings (e.g. from query parameters).
+ */
+export function isRateLimitScopeType(value: string): value is RateLimitScopeType {
+  return (RATE_LIMIT_SCOPE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * A rate limit rule - at most one per scope target.
+ *
+ * Limits are enforced as a token bucket: the bucket holds up to `burst`
+ * tokens (default: `requests`) and refills at `requests / windowSeconds`
+ * tokens per second. Each request consumes one token.
+ */
+export interface RateLimitRule {
+  id: RecordId;
+  scopeType: RateLimitScopeType;
+  /** functionDef, apiKeyGroup or apiKey record the rule applies to */
+  scopeRef: RecordId;
+  /** Sustained number of requests allowed per window */
+  requests: number;
+  /** Window length in seconds */
+  windowSeconds: number;
+  /** Maximum requests allowed in a burst (NONE in SurrealDB = same as requests) */
+  burst?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Input for creating a rate limit rule.
+ */
+export interface NewRateLimitRule {
+  scopeType: RateLimitScopeType;
+  /** Record ID string of the scope target (without table prefix) */
+  scopeId: string;
+  requests: number;
+  windowSeconds: number;
+  burst?: number;
+}
+
+/**
+ * Fields that can be changed on an existing rule.
+ * Passing `burst: null` clears the burst override.
+ */
+export interface RateLimitRuleUpdate {
+  requests?: number;
+  windowSeconds?: number;
+  burst?: number | null;
+}
+
+/**
+ * Identifies the request being checked against rate limits.
+ * String IDs as provided by FunctionRouter/ApiKeyValidator.
+ */
+export interface RateLimitSubject {
+  functionId: string;
+  keyGroupId?: string;
+  keyId?: string;
+}
+
+/**
+ * Outcome of a rate limit check.
+ */
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+    allowed: false;
+    /** Scope of the first exhausted bucket */
+    scopeType: RateLimitScopeType;
+    /** Seconds until a request would be allowed again (for Retry-After) */
+    retryAfterSeconds: number;
+  };
+
+/**
+ * Token bucket state.
+ * Persisted to the rateLimitBucket table when counter persistence is enabled.
+ */
+export interface RateLimitBucket {
+  tokens: number;
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number;
+}
@@ -2,16 +2,33 @@ import { Hono } from "@hono/hono";
 import {
   FunctionsService,
   type FunctionDefinition,
+  type FunctionSecuritySettings,
   type NewFunctionDefinition,
 } from "./functions_service.ts";
 import {
   validateFunctionName,
   validateFunctionPath,
   validateMethods,
+  validateTimeoutMs,
+  validateCorsConfig,
+  validateCronSchedulesConfig,
+  validateWorkerConfig,
+  validateAllowedHostsConfig,
+  validateSignatureConfig,
+  validateJwtConfig,
+  validateIpAccessConfig,
+  MAX_TIMEOUT_MS,
 } from "../validation/routes.ts";
 import { validateSurrealId } from "../validation/common.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
-import type { CorsConfig } from "../functions/types.ts";
+import type {
+  CorsConfig,
+  CronScheduleConfig,
+  IpAccessConfig,
+  JwtAuthConfig,
+  SignatureConfig,
+  WorkerPermissions,
+} from "../functions/types.ts";
 
 /**
  * Normalize a FunctionDefinition for API responses.
@@ -28,92 +45,28 @@ function normalizeFunctionDef(func: FunctionDefinition): Record<string, unknown>
     methods: func.methods,
     keys: func.keys ?? null,
     cors: func.cors ?? null,
+    cronSchedules: func.cronSchedules ?? null,
+    timeoutMs: func.timeoutMs ?? null,
+    worker: func.worker ?? null,
+    allowedHosts: func.allowedHosts ?? null,
+    signature: func.signature ?? null,
+    jwt: func.jwt ?? null,
+    ipAccess: func.ipAccess ?? null,
+    sourceId: func.sourceId ?? null,
     enabled: func.enabled,
   };
 }
 
 /**
- * Validate CORS configuration from API request body.
- * Returns validated CorsConfig or null if not provided.
- * Throws Error with descriptive message if invalid.
+ * Error message for changes to a function managed by a code source manifest,
+ * or null if the function can be changed (or doesn't exist).
  */
-function validateCorsConfig(cors: unknown): CorsConfig | undefined {
-  if (cors === undefined || cors === null) {
-    return undefined;
+async function getManagedFunctionError(service: FunctionsService, id: string): Promise<string | null> {
+  const func = await service.getById(id);
+  if (!func?.sourceId) {
+    return null;
   }
-
-  if (typeof cors !== "object" || Array.isArray(cors)) {
-    throw new Error("cors must be an object");
-  }
-
-  const config = cors as Record<string, unknown>;
-
-  // Validate origins (required when cors is provided)
-  if (!Array.isArray(config.origins) || config.origins.length === 0) {
-    throw new Error("cors.origins must be a non-empty array of strings");
-  }
-  for (const origin of config.origins) {
-    if (typeof origin !== "string" || origin.length === 0) {
-      throw new Error("cors.origins must contain only non-empty strings");
-    }
-    // Validate origin format (must be "*" or a valid URL)
-    if (origin !== "*") {
-      try {
-        new URL(origin);
-      } catch {
-        throw new Error(`cors.origins contains invalid URL: ${origin}`);
-      }
-    }
-  }
-
-  // Validate credentials (optional boolean)
-  if (config.credentials !== undefined && typeof config.credentials !== "boolean") {
-    throw new Error("cors.credentials must be a boolean");
-  }
-
-  // credentials: true cannot be used with origin "*"
-  if (config.credentials === true && config.origins.includes("*")) {
-    throw new Error("cors.credentials cannot be true when origins includes '*'");
-  }
-
-  // Validate maxAge (optional positive integer)
-  if (config.maxAge !== undefined) {
-    if (typeof config.maxAge !== "number" || !Number.isInteger(config.maxAge) || config.maxAge < 0) {
-      throw new Error("cors.maxAge must be a non-negative integer");
-    }
-  }
-
-  // Validate allowHeaders (optional array of strings)
-  if (config.allowHeaders !== undefined) {
-    if (!Array.isArray(config.allowHeaders)) {
-      throw new Error("cors.allowHeaders must be an array of strings");
-    }
-    for (const header of config.allowHeaders) {
-      if (typeof header !== "string" || header.length === 0) {
-        throw new Error("cors.allowHeaders must contain only non-empty strings");
-      }
-    }
-  }
-
-  // Validate exposeHeaders (optional array of strings)
-  if (config.exposeHeaders !== undefined) {
-    if (!Array.isArray(config.exposeHeaders)) {
-      throw new Error("cors.exposeHeaders must be an array of strings");
-    }
-    for (const header of config.exposeHeaders) {
-      if (typeof header !== "string" || header.length === 0) {
-        throw new Error("cors.exposeHeaders must contain only non-empty strings");
-      }
-    }
-  }
-
-  return {
-    origins: config.origins as string[],
-    credentials: config.credentials as boolean | undefined,
-    maxAge: config.maxAge as number | undefined,
-    allowHeaders: config.allowHeaders as string[] | undefined,
-    exposeHeaders: config.exposeHeaders as string[] | undefined,
-  };
+  return `Function '${func.name}' is managed by a code source manifest and is read-only, except for its security settings`;
 }
 
 export function createFunctionsRoutes(service: FunctionsService): Hono {
@@ -151,6 +104,13 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       description?: string;
       keys?: string[];
       cors?: unknown;
+      cronSchedules?: unknown;
+      timeoutMs?: unknown;
+      worker?: unknown;
+      allowedHosts?: unknown;
+      signature?: unknown;
+      jwt?: unknown;
+      ipAccess?: unknown;
     };
     try {
       body = await c.req.json();
@@ -192,6 +152,60 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: error instanceof Error ? error.message : "Invalid CORS config" }, 400);
     }
 
+    // Validate cron schedules if provided
+    let cronSchedules: CronScheduleConfig[] | undefined;
+    try {
+      cronSchedules = validateCronSchedulesConfig(body.cronSchedules, body.methods);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid cron schedules" }, 400);
+    }
+
+    // Validate timeout if provided (omitted = use global default)
+    const hasTimeout = body.timeoutMs !== undefined && body.timeoutMs !== null;
+    if (hasTimeout && (typeof body.timeoutMs !== "number" || !validateTimeoutMs(body.timeoutMs))) {
+      return c.json({ error: `timeoutMs must be an integer between 1 and ${MAX_TIMEOUT_MS}` }, 400);
+    }
+
+    // Validate worker permissions if provided (omitted = run in-process)
+    let worker: WorkerPermissions | undefined;
+    try {
+      worker = validateWorkerConfig(body.worker);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid worker config" }, 400);
+    }
+
+    // Validate allowed outbound hosts if provided (omitted = every host is allowed)
+    let allowedHosts: string[] | undefined;
+    try {
+      allowedHosts = validateAllowedHostsConfig(body.allowedHosts);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid allowed hosts" }, 400);
+    }
+
+    // Validate request signature settings if provided (omitted = requests aren't signed)
+    let signature: SignatureConfig | undefined;
+    try {
+      signature = validateSignatureConfig(body.signature);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid signature config" }, 400);
+    }
+
+    // Validate JWT authentication settings if provided (omitted = JWTs aren't accepted)
+    let jwt: JwtAuthConfig | undefined;
+    try {
+      jwt = validateJwtConfig(body.jwt);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid JWT config" }, 400);
+    }
+
+    // Validate client IP restrictions if provided (omitted = every address is accepted)
+    let ipAccess: IpAccessConfig | undefined;
+    try {
+      ipAccess = validateIpAccessConfig(body.ipAccess);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid IP access config" }, 400);
+    }
+
     const newFunction: NewFunctionDefinition = {
       name: body.name,
       handler: body.handler,
@@ -200,6 +214,13 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       description: body.description,
       keys: body.keys,
       cors: corsConfig,
+      cronSchedules,
+      timeoutMs: hasTimeout ? body.timeoutMs as number : undefined,
+      worker,
+      allowedHosts,
+      signature,
+      jwt,
+      ipAccess,
     };
 
     try {
@@ -220,6 +241,11 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: "Invalid function ID" }, 400);
     }
 
+    const managedError = await getManagedFunctionError(service, id);
+    if (managedError) {
+      return c.json({ error: managedError }, 409);
+    }
+
     // API body type - uses 'route' as the external field name
     let body: {
       name?: string;
@@ -229,6 +255,13 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       description?: string;
       keys?: string[];
       cors?: unknown;
+      cronSchedules?: unknown;
+      timeoutMs?: unknown;
+      worker?: unknown;
+      allowedHosts?: unknown;
+      signature?: unknown;
+      jwt?: unknown;
+      ipAccess?: unknown;
     };
     try {
       body = await c.req.json();
@@ -270,6 +303,60 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: error instanceof Error ? error.message : "Invalid CORS config" }, 400);
     }
 
+    // Validate cron schedules if provided
+    let cronSchedules: CronScheduleConfig[] | undefined;
+    try {
+      cronSchedules = validateCronSchedulesConfig(body.cronSchedules, body.methods);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid cron schedules" }, 400);
+    }
+
+    // Validate timeout if provided (omitted = use global default)
+    const hasTimeout = body.timeoutMs !== undefined && body.timeoutMs !== null;
+    if (hasTimeout && (typeof body.timeoutMs !== "number" || !validateTimeoutMs(body.timeoutMs))) {
+      return c.json({ error: `timeoutMs must be an integer between 1 and ${MAX_TIMEOUT_MS}` }, 400);
+    }
+
+    // Validate worker permissions if provided (omitted = run in-process)
+    let worker: WorkerPermissions | undefined;
+    try {
+      worker = validateWorkerConfig(body.worker);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid worker config" }, 400);
+    }
+
+    // Validate allowed outbound hosts if provided (omitted = every host is allowed)
+    let allowedHosts: string[] | undefined;
+    try {
+      allowedHosts = validateAllowedHostsConfig(body.allowedHosts);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid allowed hosts" }, 400);
+    }
+
+    // Validate request signature settings if provided (omitted = requests aren't signed)
+    let signature: SignatureConfig | undefined;
+    try {
+      signature = validateSignatureConfig(body.signature);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid signature config" }, 400);
+    }
+
+    // Validate JWT authentication settings if provided (omitted = JWTs aren't accepted)
+    let jwt: JwtAuthConfig | undefined;
+    try {
+      jwt = validateJwtConfig(body.jwt);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid JWT config" }, 400);
+    }
+
+    // Validate client IP restrictions if provided (omitted = every address is accepted)
+    let ipAccess: IpAccessConfig | undefined;
+    try {
+      ipAccess = validateIpAccessConfig(body.ipAccess);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid IP access config" }, 400);
+    }
+
     const updatedFunction: NewFunctionDefinition = {
       name: body.name,
       handler: body.handler,
@@ -278,6 +365,13 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       description: body.description,
       keys: body.keys,
       cors: corsConfig,
+      cronSchedules,
+      timeoutMs: hasTimeout ? body.timeoutMs as number : undefined,
+      worker,
+      allowedHosts,
+      signature,
+      jwt,
+      ipAccess,
     };
 
     try {
@@ -296,6 +390,64 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
     }
   });
 
+  // PUT /api/functions/:id/security - Replace security settings (also allowed for managed functions)
+  routes.put("/:id/security", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (id === null) {
+      return c.json({ error: "Invalid function ID" }, 400);
+    }
+
+    let body: {
+      keys?: string[];
+      worker?: unknown;
+      allowedHosts?: unknown;
+      signature?: unknown;
+      jwt?: unknown;
+      ipAccess?: unknown;
+    };
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    // Validate keys are array of string IDs (group IDs) if provided
+    if (body.keys !== undefined && body.keys !== null) {
+      if (!Array.isArray(body.keys)) {
+        return c.json({ error: "keys must be an array of group IDs" }, 400);
+      }
+      for (const keyId of body.keys) {
+        if (typeof keyId !== "string" || keyId.length === 0 || !/^[a-zA-Z0-9_-]+$/.test(keyId)) {
+          return c.json({ error: "keys must be an array of valid string group IDs" }, 400);
+        }
+      }
+    }
+
+    let settings: FunctionSecuritySettings;
+    try {
+      settings = {
+        keys: body.keys ?? undefined,
+        worker: validateWorkerConfig(body.worker),
+        allowedHosts: validateAllowedHostsConfig(body.allowedHosts),
+        signature: validateSignatureConfig(body.signature),
+        jwt: validateJwtConfig(body.jwt),
+        ipAccess: validateIpAccessConfig(body.ipAccess),
+      };
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid security settings" }, 400);
+    }
+
+    try {
+      const updated = await service.updateSecuritySettings(id, settings);
+      return c.json({ function: normalizeFunctionDef(updated) });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return c.json({ error: error.message }, 404);
+      }
+      throw error;
+    }
+  });
+
   // DELETE /api/functions/:id - Delete function (returns 204 No Content)
   routes.delete("/:id", async (c) => {
     const id = validateSurrealId(c.req.param("id"));
@@ -308,6 +460,11 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: `Function with id '${id}' not found` }, 404);
     }
 
+    const managedError = await getManagedFunctionError(service, id);
+    if (managedError) {
+      return c.json({ error: managedError }, 409);
+    }
+
     await service.removeFunctionById(id);
     return c.body(null, 204);
   });
@@ -319,6 +476,11 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: "Invalid function ID" }, 400);
     }
 
+    const managedError = await getManagedFunctionError(service, id);
+    if (managedError) {
+      return c.json({ error: managedError }, 409);
+    }
+
     try {
       const updated = await service.setFunctionEnabled(id, true);
       return c.json({ function: normalizeFunctionDef(updated) });
@@ -337,6 +499,11 @@ export function createFunctionsRoutes(service: FunctionsService): Hono {
       return c.json({ error: "Invalid function ID" }, 400);
     }
 
+    const managedError = await getManagedFunctionError(service, id);
+    if (managedError) {
+      return c.json({ error: managedError }, 409);
+    }
+
     try {
       const updated = await service.setFunctionEnabled(id, false);
       return c.json({ function: normalizeFunctionDef(updated) });
@@ -292,6 +292,211 @@ integrationTest("POST /api/functions returns 409 on duplicate route+method", asy
   }
 });
 
+integrationTest("POST /api/functions stores worker permissions", async () => {
+  const ctx = await buildTestContext();
+  const app = createTestApp(ctx);
+
+  try {
+    const res = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "isolated",
+        handler: "isolated.ts",
+        route: "/isolated",
+        methods: ["GET"],
+        worker: { net: ["api.example.com"], env: ["TZ"] },
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.function.worker.net).toEqual(["api.example.com"]);
+    expect(json.function.worker.env).toEqual(["TZ"]);
+
+    const invalid = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "bad-worker",
+        handler: "bad.ts",
+        route: "/bad-worker",
+        methods: ["GET"],
+        worker: { net: ["https://api.example.com"] },
+      }),
+    });
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/functions stores allowed hosts", async () => {
+  const ctx = await buildTestContext();
+  const app = createTestApp(ctx);
+
+  try {
+    const res = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "outbound",
+        handler: "outbound.ts",
+        route: "/outbound",
+        methods: ["GET"],
+        allowedHosts: ["api.example.com", "*.stripe.com", "localhost:8080"],
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.function.allowedHosts).toEqual(["api.example.com", "*.stripe.com", "localhost:8080"]);
+
+    const invalid = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "bad-outbound",
+        handler: "bad.ts",
+        route: "/bad-outbound",
+        methods: ["GET"],
+        allowedHosts: ["https://api.example.com"],
+      }),
+    });
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/functions stores request signature settings", async () => {
+  const ctx = await buildTestContext();
+  const app = createTestApp(ctx);
+
+  try {
+    const res = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "github-hook",
+        handler: "hook.ts",
+        route: "/github-hook",
+        methods: ["POST"],
+        signature: { header: "X-Hub-Signature-256", secret: "GITHUB_WEBHOOK_SECRET", prefix: "sha256=" },
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.function.signature).toEqual({
+      header: "X-Hub-Signature-256",
+      secret: "GITHUB_WEBHOOK_SECRET",
+      prefix: "sha256=",
+    });
+
+    const invalid = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "bad-hook",
+        handler: "bad.ts",
+        route: "/bad-hook",
+        methods: ["POST"],
+        signature: { header: "X-Signature", secret: "SECRET", algorithm: "md5" },
+      }),
+    });
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/functions stores JWT authentication settings", async () => {
+  const ctx = await buildTestContext();
+  const app = createTestApp(ctx);
+
+  try {
+    const res = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "jwt-api",
+        handler: "api.ts",
+        route: "/jwt-api",
+        methods: ["GET"],
+        jwt: {
+          issuer: "https://auth.example.com/",
+          audience: "crude",
+          jwksUrl: "https://auth.example.com/.well-known/jwks.json",
+          requiredClaims: { email_verified: true },
+        },
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.function.jwt).toEqual({
+      issuer: "https://auth.example.com/",
+      audience: "crude",
+      jwksUrl: "https://auth.example.com/.well-known/jwks.json",
+      requiredClaims: { email_verified: true },
+    });
+
+    const invalid = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "bad-jwt-api",
+        handler: "bad.ts",
+        route: "/bad-jwt-api",
+        methods: ["GET"],
+        jwt: { issuer: "https://auth.example.com/" },
+      }),
+    });
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/functions stores client IP restrictions", async () => {
+  const ctx = await buildTestContext();
+  const app = createTestApp(ctx);
+
+  try {
+    const res = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "internal-api",
+        handler: "api.ts",
+        route: "/internal-api",
+        methods: ["GET"],
+        ipAccess: { allow: ["10.0.0.0/8"], deny: [] },
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.function.ipAccess).toEqual({ allow: ["10.0.0.0/8"] });
+
+    const invalid = await app.request("/api/functions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "bad-ip-api",
+        handler: "bad.ts",
+        route: "/bad-ip-api",
+        methods: ["GET"],
+        ipAccess: { deny: ["10.0.0.300"] },
+      }),
+    });
+    expect(invalid.status).toBe(400);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 integrationTest("POST /api/functions rejects invalid JSON", async () => {
   const ctx = await buildTestContext();
   const app = createTestApp(ctx);
@@ -712,3 +917,101 @@ integrationTest("enable and disable toggle function state correctly", async () =
     await ctx.cleanup();
   }
 });
+
+// ============== Manifest-managed functions ==============
+
+integrationTest("Functions managed by a source manifest are read-only", async () => {
+  const ctx = await TestSetupBuilder.create().withFunctions().withCodeSources().build();
+  const app = createTestApp(ctx);
+
+  try {
+    const source = await ctx.codeSourceService.create({ name: "app", type: "manual" });
+    const func = await ctx.functionsService.addFunction({
+      name: "managed",
+      handler: "app/managed.ts",
+      routePath: "/managed",
+      methods: ["GET"],
+      sourceId: source.id,
+    });
+    const funcId = recordIdToString(func.id);
+
+    const getRes = await app.request(`/api/functions/${funcId}`);
+    expect((await getRes.json()).function.sourceId).toBe(source.id);
+
+    const putRes = await app.request(`/api/functions/${funcId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "managed", handler: "other.ts", route: "/managed", methods: ["GET"] }),
+    });
+    expect(putRes.status).toBe(409);
+    expect((await putRes.json()).error).toContain("read-only");
+
+    for (const action of ["enable", "disable"]) {
+      const res = await app.request(`/api/functions/${funcId}/${action}`, { method: "PUT" });
+      expect(res.status).toBe(409);
+      expect((await res.json()).error).toContain("read-only");
+    }
+
+    const deleteRes = await app.request(`/api/functions/${funcId}`, { method: "DELETE" });
+    expect(deleteRes.status).toBe(409);
+    expect((await deleteRes.json()).error).toContain("read-only");
+
+    expect((await ctx.functionsService.getById(funcId))?.handler).toBe("app/managed.ts");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("Security settings of managed functions can be changed", async () => {
+  const ctx = await TestSetupBuilder.create().withFunctions().withCodeSources().build();
+  const app = createTestApp(ctx);
+
+  try {
+    const source = await ctx.codeSourceService.create({ name: "app", type: "manual" });
+    const func = await ctx.functionsService.addFunction({
+      name: "managed",
+      handler: "app/managed.ts",
+      routePath: "/managed",
+      methods: ["GET"],
+      sourceId: source.id,
+    });
+    const funcId = recordIdToString(func.id);
+
+    const res = await app.request(`/api/functions/${funcId}/security`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        keys: ["group1"],
+        allowedHosts: ["api.example.com"],
+        ipAccess: { allow: ["10.0.0.0/8"] },
+      }),
+    });
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.function.keys).toEqual(["group1"]);
+    expect(json.function.allowedHosts).toEqual(["api.example.com"]);
+    expect(json.function.ipAccess).toEqual({ allow: ["10.0.0.0/8"] });
+
+    // Manifest-owned fields are untouched
+    const updated = await ctx.functionsService.getById(funcId);
+    expect(updated?.handler).toBe("app/managed.ts");
+    expect(updated?.sourceId).toBe(source.id);
+
+    // Invalid settings are rejected
+    const invalidRes = await app.request(`/api/functions/${funcId}/security`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ allowedHosts: "everything" }),
+    });
+    expect(invalidRes.status).toBe(400);
+
+    const missingRes = await app.request(`/api/functions/missing/security`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(missingRes.status).toBe(404);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -2,9 +2,20 @@ import { Mutex } from "@core/asyncutil/mutex";
 import { RecordId } from "surrealdb";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import type { SecretsService } from "../secrets/secrets_service.ts";
-import type { CorsConfig } from "../functions/types.ts";
+import type { SchedulingService } from "../scheduling/scheduling_service.ts";
+import type { Schedule } from "../scheduling/types.ts";
+import type {
+  CorsConfig,
+  CronScheduleConfig,
+  IpAccessConfig,
+  JwtAuthConfig,
+  SignatureConfig,
+  WorkerPermissions,
+} from "../functions/types.ts";
 import { normalizeRoutePattern } from "../functions/route_helpers.ts";
 import { parseSurrealError } from "../database/surreal_error_parser.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { logger } from "../utils/logger.ts";
 
 /**
  * Represents a function definition.
@@ -27,6 +38,26 @@ export interface FunctionDefinition {
   keys?: string[];
   /** CORS configuration (optional). When present, enables automatic CORS handling */
   cors?: CorsConfig;
+  /** Cron schedules that invoke the function (optional) */
+  cronSchedules?: CronScheduleConfig[];
+  /** Handler execution timeout in milliseconds (optional, falls back to the global default) */
+  timeoutMs?: number;
+  /** Worker permission set (optional). When present, the handler runs in an isolated Deno Worker */
+  worker?: WorkerPermissions;
+  /** Hosts the handler may call via fetch() (optional). When absent, every host is allowed */
+  allowedHosts?: string[];
+  /** HMAC signature verification (optional). When present, HTTP requests must be signed */
+  signature?: SignatureConfig;
+  /** JWT bearer token authentication (optional). When present, requests may authenticate with a JWT */
+  jwt?: JwtAuthConfig;
+  /** Client IP restrictions (optional). When absent, every address is accepted */
+  ipAccess?: IpAccessConfig;
+  /**
+   * ID of the code source whose manifest declares this function (optional).
+   * Set for functions managed by a crude.json manifest - only their security settings
+   * can be changed in the API, everything else comes from the manifest.
+   */
+  sourceId?: string;
   /** Whether the function is enabled */
   enabled: boolean;
 }
@@ -34,11 +65,37 @@ export interface FunctionDefinition {
 /** Input type for adding new function definitions (id and enabled are auto-generated/defaulted) */
 export type NewFunctionDefinition = Omit<FunctionDefinition, "id" | "enabled">;
 
+/**
+ * Settings that decide who can call a function and how far its handler is trusted.
+ * Admins own them even for functions managed by a code source manifest.
+ */
+export type FunctionSecuritySettings = Pick<
+  FunctionDefinition,
+  "keys" | "worker" | "allowedHosts" | "signature" | "jwt" | "ipAccess"
+>;
+
 export interface FunctionsServiceOptions {
   /** SurrealDB connection factory */
   surrealFactory: SurrealConnectionFactory;
   /** Optional - when provided, function-scoped secrets are cascade deleted with function definitions */
   secretsService?: SecretsService;
+  /** Optional - when provided, cron schedules configured on functions are registered with the scheduler */
+  schedulingService?: SchedulingService;
+}
+
+/** Job type enqueued by function cron schedules */
+export const FUNCTION_CRON_JOB_TYPE = "function_cron";
+
+/** Payload of jobs enqueued by function cron schedules */
+export interface FunctionCronJobPayload {
+  /** The string ID part of the function's RecordId */
+  functionId: string;
+  /** Cron expression that triggered the job */
+  expression: string;
+  /** Timezone the expression is evaluated in */
+  timezone: string;
+  /** HTTP method of the synthetic request (undefined = function's first method) */
+  method?: string;
 }
 
 /** Database record type for function definitions (SurrealDB uses records, not rows) */
@@ -51,6 +108,14 @@ interface FunctionDefRecord {
   methods: string[];
   keys: string[] | null;
   cors: CorsConfig | null;
+  cronSchedules: CronScheduleConfig[] | null;
+  timeoutMs: number | null;
+  worker: WorkerPermissions | null;
+  allowedHosts: string[] | null;
+  signature: SignatureConfig | null;
+  jwt: JwtAuthConfig | null;
+  ipAccess: IpAccessConfig | null;
+  sourceId: RecordId | null;
   enabled: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -63,16 +128,19 @@ interface FunctionDefRecord {
  * - Dirty flag tracking for efficient rebuild detection
  * - Mutex-protected rebuilds to prevent concurrent router regeneration
  * - Write operations wait for any in-progress rebuild before modifying
+ * - Cron schedules of enabled functions are kept in sync with the scheduler
  */
 export class FunctionsService {
   private readonly surrealFactory: SurrealConnectionFactory;
   private readonly secretsService?: SecretsService;
+  private readonly schedulingService?: SchedulingService;
   private readonly rebuildMutex = new Mutex();
   private dirty = true; // Start dirty to force initial build
 
   constructor(options: FunctionsServiceOptions) {
     this.surrealFactory = options.surrealFactory;
     this.secretsService = options.secretsService;
+    this.schedulingService = options.schedulingService;
   }
 
   // ============== Change Detection & Rebuild Coordination ==============
@@ -170,6 +238,21 @@ export class FunctionsService {
     });
   }
 
+  /**
+   * Get the function definitions declared in a code source's manifest.
+   * @param sourceId - The string ID part of the codeSource RecordId
+   */
+  async getBySourceId(sourceId: string): Promise<FunctionDefinition[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [records] = await db.query<[FunctionDefRecord[]]>(
+        "SELECT * FROM functionDef WHERE sourceId = $sourceId ORDER BY name",
+        { sourceId: new RecordId("codeSource", sourceId) }
+      );
+
+      return (records ?? []).map((record) => this.recordToFunctionDef(record));
+    });
+  }
+
   private recordToFunctionDef(record: FunctionDefRecord): FunctionDefinition {
     // SurrealDB returns set<string> as a JavaScript Set, convert to array for interface compatibility
     const methods = record.methods instanceof Set
@@ -197,6 +280,38 @@ export class FunctionsService {
       func.cors = record.cors;
     }
 
+    if (record.cronSchedules && record.cronSchedules.length > 0) {
+      func.cronSchedules = record.cronSchedules;
+    }
+
+    if (record.timeoutMs) {
+      func.timeoutMs = record.timeoutMs;
+    }
+
+    if (record.worker) {
+      func.worker = record.worker;
+    }
+
+    if (record.allowedHosts) {
+      func.allowedHosts = record.allowedHosts;
+    }
+
+    if (record.signature) {
+      func.signature = record.signature;
+    }
+
+    if (record.jwt) {
+      func.jwt = record.jwt;
+    }
+
+    if (record.ipAccess) {
+      func.ipAccess = record.ipAccess;
+    }
+
+    if (record.sourceId) {
+      func.sourceId = recordIdToString(record.sourceId);
+    }
+
     return func;
   }
 
@@ -208,6 +323,12 @@ export class FunctionsService {
    * @returns The created function definition with its assigned ID
    */
   async addFunction(func: NewFunctionDefinition): Promise<FunctionDefinition> {
+    const created = await this.addFunctionRecord(func);
+    await this.syncCronSchedules(created);
+    return created;
+  }
+
+  private async addFunctionRecord(func: NewFunctionDefinition): Promise<FunctionDefinition> {
     // Wait for any in-progress rebuild to complete
     using _lock = await this.rebuildMutex.acquire();
 
@@ -232,6 +353,14 @@ export class FunctionsService {
             methods = <set>$methods,
             keys = $keys,
             cors = $cors,
+            cronSchedules = $cronSchedules,
+            timeoutMs = $timeoutMs,
+            worker = $worker,
+            allowedHosts = $allowedHosts,
+            signature = $signature,
+            jwt = $jwt,
+            ipAccess = $ipAccess,
+            sourceId = $sourceId,
             enabled = true`,
           {
             name: func.name,
@@ -242,6 +371,14 @@ export class FunctionsService {
             methods: func.methods,
             keys: func.keys && func.keys.length > 0 ? func.keys : undefined,
             cors: func.cors,
+            cronSchedules: toCronSchedulesRecord(func.cronSchedules),
+            timeoutMs: func.timeoutMs,
+            worker: toWorkerRecord(func.worker),
+            allowedHosts: func.allowedHosts,
+            signature: func.signature,
+            jwt: func.jwt,
+            ipAccess: func.ipAccess,
+            sourceId: func.sourceId ? new RecordId("codeSource", func.sourceId) : undefined,
           }
         );
       } catch (error) {
@@ -281,10 +418,17 @@ export class FunctionsService {
    * Note: Function-scoped secrets are cascade-deleted by SurrealDB event.
    */
   async removeFunction(name: string): Promise<void> {
+    const removedId = await this.removeFunctionRecord(name);
+    if (removedId) {
+      await this.deleteCronSchedules(removedId);
+    }
+  }
+
+  private async removeFunctionRecord(name: string): Promise<string | null> {
     // Wait for any in-progress rebuild to complete
     using _lock = await this.rebuildMutex.acquire();
 
-    await this.surrealFactory.withSystemConnection({}, async (db) => {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
       // Get the function ID first (for logging purposes and to check if exists)
       const [records] = await db.query<[FunctionDefRecord[]]>(
         "SELECT id FROM functionDef WHERE name = $name LIMIT 1",
@@ -292,11 +436,12 @@ export class FunctionsService {
       );
 
       const func = records?.[0];
-      if (!func) return; // No-op if doesn't exist
+      if (!func) return null; // No-op if doesn't exist
 
       // Delete the function definition (secrets cascade-deleted by SurrealDB event)
       await db.query("DELETE $recordId", { recordId: func.id });
       this.markDirty();
+      return recordIdToString(func.id);
     });
   }
 
@@ -308,6 +453,12 @@ export class FunctionsService {
    * @returns The updated function definition
    */
   async updateFunction(id: string, func: NewFunctionDefinition): Promise<FunctionDefinition> {
+    const updated = await this.updateFunctionRecord(id, func);
+    await this.syncCronSchedules(updated);
+    return updated;
+  }
+
+  private async updateFunctionRecord(id: string, func: NewFunctionDefinition): Promise<FunctionDefinition> {
     // Wait for any in-progress rebuild to complete
     using _lock = await this.rebuildMutex.acquire();
 
@@ -341,7 +492,15 @@ export class FunctionsService {
             normalizedRoute = $normalizedRoute,
             methods = <set>$methods,
             keys = $keys,
-            cors = $cors`,
+            cors = $cors,
+            cronSchedules = $cronSchedules,
+            timeoutMs = $timeoutMs,
+            worker = $worker,
+            allowedHosts = $allowedHosts,
+            signature = $signature,
+            jwt = $jwt,
+            ipAccess = $ipAccess,
+            sourceId = $sourceId`,
           {
             recordId,
             name: func.name,
@@ -352,6 +511,14 @@ export class FunctionsService {
             methods: func.methods,
             keys: func.keys && func.keys.length > 0 ? func.keys : undefined,
             cors: func.cors,
+            cronSchedules: toCronSchedulesRecord(func.cronSchedules),
+            timeoutMs: func.timeoutMs,
+            worker: toWorkerRecord(func.worker),
+            allowedHosts: func.allowedHosts,
+            signature: func.signature,
+            jwt: func.jwt,
+            ipAccess: func.ipAccess,
+            sourceId: func.sourceId ? new RecordId("codeSource", func.sourceId) : undefined,
           }
         );
       } catch (error) {
@@ -386,6 +553,58 @@ export class FunctionsService {
     });
   }
 
+  /**
+   * Replace the security settings of a function definition by ID, leaving its other fields alone.
+   * Waits for any in-progress rebuild to complete before modifying.
+   * @param id - The string ID part of the RecordId
+   * @returns The updated function definition
+   */
+  async updateSecuritySettings(id: string, settings: FunctionSecuritySettings): Promise<FunctionDefinition> {
+    // Wait for any in-progress rebuild to complete
+    using _lock = await this.rebuildMutex.acquire();
+
+    const recordId = new RecordId("functionDef", id);
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      // Verify function definition exists
+      const [existing] = await db.query<[FunctionDefRecord | undefined]>(
+        "RETURN $recordId.*",
+        { recordId }
+      );
+      if (!existing) {
+        throw new Error(`Function with id '${id}' not found`);
+      }
+
+      await db.query(
+        `UPDATE $recordId SET
+          keys = $keys,
+          worker = $worker,
+          allowedHosts = $allowedHosts,
+          signature = $signature,
+          jwt = $jwt,
+          ipAccess = $ipAccess`,
+        {
+          recordId,
+          keys: settings.keys && settings.keys.length > 0 ? settings.keys : undefined,
+          worker: toWorkerRecord(settings.worker),
+          allowedHosts: settings.allowedHosts,
+          signature: settings.signature,
+          jwt: settings.jwt,
+          ipAccess: settings.ipAccess,
+        }
+      );
+
+      this.markDirty();
+
+      // Fetch and return the updated function definition
+      const updated = await this.getById(id);
+      if (!updated) {
+        throw new Error("Failed to retrieve updated function definition");
+      }
+      return updated;
+    });
+  }
+
   /**
    * Remove a function definition by ID.
    * Waits for any in-progress rebuild to complete before modifying.
@@ -393,6 +612,11 @@ export class FunctionsService {
    * @param id - The string ID part of the RecordId
    */
   async removeFunctionById(id: string): Promise<void> {
+    await this.removeFunctionRecordById(id);
+    await this.deleteCronSchedules(id);
+  }
+
+  private async removeFunctionRecordById(id: string): Promise<void> {
     // Wait for any in-progress rebuild to complete
     using _lock = await this.rebuildMutex.acquire();
 
@@ -419,6 +643,12 @@ export class FunctionsService {
    * @returns The updated function definition
    */
   async setFunctionEnabled(id: string, enabled: boolean): Promise<FunctionDefinition> {
+    const updated = await this.setFunctionEnabledRecord(id, enabled);
+    await this.syncCronSchedules(updated);
+    return updated;
+  }
+
+  private async setFunctionEnabledRecord(id: string, enabled: boolean): Promise<FunctionDefinition> {
     // Wait for any in-progress rebuild to complete
     using _lock = await this.rebuildMutex.acquire();
 
@@ -450,4 +680,194 @@ export class FunctionsService {
       return updated;
     });
   }
+
+  // ============== Cron Schedule Management ==============
+
+  /**
+   * Reconcile cron schedules of all functions with the scheduler.
+   * Creates missing schedules, updates changed ones and deletes schedules
+   * belonging to functions that no longer exist (or are disabled).
+   * Called on startup after the scheduling service has started.
+   */
+  async reconcileCronSchedules(): Promise<void> {
+    if (!this.schedulingService) {
+      return;
+    }
+
+    const functions = await this.getAll();
+    const functionIds = new Set(functions.map((func) => recordIdToString(func.id)));
+
+    for (const func of functions) {
+      try {
+        await this.syncCronSchedules(func);
+      } catch (error) {
+        logger.error(
+          `[Functions] Failed to sync cron schedules for function '${func.name}':`,
+          error,
+        );
+      }
+    }
+
+    // Remove schedules of functions deleted while the scheduler wasn't tracking them
+    for (const schedule of await this.schedulingService.getSchedules()) {
+      if (schedule.jobType !== FUNCTION_CRON_JOB_TYPE) continue;
+      const payload = schedule.jobPayload as FunctionCronJobPayload | null;
+      if (payload?.functionId && !functionIds.has(payload.functionId)) {
+        await this.schedulingService.deleteSchedule(schedule.name);
+        logger.info(
+          `[Functions] Deleted orphaned cron schedule '${schedule.name}'`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the schedule name for a function's cron schedule.
+   */
+  private getCronScheduleName(functionId: string, index: number): string {
+    return `function_cron_${functionId}_${index}`;
+  }
+
+  /**
+   * Ensure the scheduler holds exactly the cron schedules configured on a function.
+   * Disabled functions have no schedules. Unchanged schedules are left alone so
+   * that a manual pause survives edits of unrelated function fields.
+   *
+   * @param func - The function to manage schedules for
+   */
+  private async syncCronSchedules(func: FunctionDefinition): Promise<void> {
+    if (!this.schedulingService) {
+      return;
+    }
+
+    const functionId = recordIdToString(func.id);
+    const configs = func.enabled ? (func.cronSchedules ?? []) : [];
+    const existingSchedules = await this.getCronSchedules(functionId);
+
+    for (const [index, config] of configs.entries()) {
+      const scheduleName = this.getCronScheduleName(functionId, index);
+      const payload: FunctionCronJobPayload = {
+        functionId,
+        expression: config.expression,
+        timezone: config.timezone ?? "UTC",
+        method: config.method,
+      };
+
+      const existing = existingSchedules.get(scheduleName);
+      existingSchedules.delete(scheduleName);
+
+      if (existing) {
+        const existingPayload = existing.jobPayload as FunctionCronJobPayload | null;
+        const unchanged = existing.cronExpression === payload.expression &&
+          existing.timezone === payload.timezone &&
+          existingPayload?.method === payload.method &&
+          (existing.status === "active" || existing.status === "paused");
+        if (unchanged) {
+          continue;
+        }
+        await this.schedulingService.deleteSchedule(scheduleName);
+      }
+
+      await this.schedulingService.registerSchedule({
+        name: scheduleName,
+        description: `Cron schedule '${payload.expression}' (${payload.timezone}) for function '${func.name}'`,
+        type: "cron",
+        isPersistent: true,
+        cronExpression: payload.expression,
+        timezone: payload.timezone,
+        jobType: FUNCTION_CRON_JOB_TYPE,
+        jobPayload: payload,
+        jobReferenceType: "function",
+        jobReferenceId: functionId,
+        jobExecutionMode: "concurrent",
+      });
+      logger.info(
+        `[Functions] ${existing ? "Updated" : "Created"} cron schedule '${payload.expression}' for function '${func.name}'`,
+      );
+    }
+
+    // Schedules beyond the configured count (removed entries or disabled function)
+    for (const scheduleName of existingSchedules.keys()) {
+      await this.schedulingService.deleteSchedule(scheduleName);
+      logger.info(
+        `[Functions] Deleted cron schedule '${scheduleName}' for function '${func.name}'`,
+      );
+    }
+  }
+
+  /**
+   * Delete all cron schedules for a function.
+   * Called internally after the function is removed.
+   *
+   * @param functionId - The string ID part of the function's RecordId
+   */
+  private async deleteCronSchedules(functionId: string): Promise<void> {
+    if (!this.schedulingService) {
+      return;
+    }
+
+    try {
+      for (const scheduleName of (await this.getCronSchedules(functionId)).keys()) {
+        await this.schedulingService.deleteSchedule(scheduleName, {
+          cancelRunningJob: true,
+          reason: "Function deleted",
+        });
+      }
+    } catch (error) {
+      // Log but don't fail - schedule cleanup is best-effort
+      logger.debug(
+        `[Functions] Cron schedule cleanup for function ${functionId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get the existing cron schedules of a function, keyed by schedule name.
+   */
+  private async getCronSchedules(functionId: string): Promise<Map<string, Schedule>> {
+    const prefix = `function_cron_${functionId}_`;
+    const schedules = await this.schedulingService!.getSchedules();
+    return new Map(
+      schedules
+        .filter((schedule) => schedule.name.startsWith(prefix))
+        .map((schedule) => [schedule.name, schedule]),
+    );
+  }
+}
+
+/**
+ * Convert cron schedule config to its database representation.
+ * Note: For option<T> fields, undefined maps to NONE, null is not valid
+ */
+function toCronSchedulesRecord(
+  schedules: CronScheduleConfig[] | undefined,
+): CronScheduleConfig[] | undefined {
+  if (!schedules || schedules.length === 0) {
+    return undefined;
+  }
+  return schedules.map((schedule) => ({
+    expression: schedule.expression.trim(),
+    timezone: schedule.timezone || undefined,
+    method: schedule.method || undefined,
+  }));
+}
+
+/**
+ * Normalize worker permissions for storage.
+ * Empty lists are dropped so the record only holds granted permissions.
+ */
+function toWorkerRecord(
+  worker: WorkerPermissions | undefined,
+): WorkerPermissions | undefined {
+  if (!worker) {
+    return undefined;
+  }
+  const nonEmpty = (list: string[] | undefined) =>
+    list && list.length > 0 ? list : undefined;
+  return {
+    net: nonEmpty(worker.net),
+    read: nonEmpty(worker.read),
+    write: nonEmpty(worker.write),
+    env: nonEmpty(worker.env),
+  };
 }
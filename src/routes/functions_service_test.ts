@@ -1,5 +1,5 @@
 import { expect } from "@std/expect";
-import type { FunctionDefinition } from "./functions_service.ts";
+import { FunctionsService, type FunctionDefinition } from "./functions_service.ts";
 import {
   validateFunctionName,
   validateFunctionPath,
@@ -864,3 +864,96 @@ integrationTest("FunctionsService.addFunction creates route with wildcard CORS o
     await ctx.cleanup();
   }
 });
+
+// ============== Cron Schedule Tests ==============
+
+integrationTest("FunctionsService.addFunction registers cron schedules with the scheduler", async () => {
+  const ctx = await TestSetupBuilder.create().withFunctions().withScheduling().build();
+  const functionsService = new FunctionsService({
+    surrealFactory: ctx.surrealFactory,
+    schedulingService: ctx.schedulingService,
+  });
+  try {
+    const created = await functionsService.addFunction({
+      name: "cron-func",
+      handler: "cron.ts",
+      routePath: "/cron-func",
+      methods: ["GET", "POST"],
+      cronSchedules: [
+        { expression: "*/5 * * * *" },
+        { expression: "0 9 * * 1-5", timezone: "Europe/Warsaw", method: "POST" },
+      ],
+    });
+    const functionId = recordIdToString(created.id);
+
+    expect(created.cronSchedules).toEqual([
+      { expression: "*/5 * * * *" },
+      { expression: "0 9 * * 1-5", timezone: "Europe/Warsaw", method: "POST" },
+    ]);
+
+    const first = await ctx.schedulingService.getSchedule(`function_cron_${functionId}_0`);
+    expect(first?.type).toBe("cron");
+    expect(first?.cronExpression).toBe("*/5 * * * *");
+    expect(first?.timezone).toBe("UTC");
+    expect(first?.jobType).toBe("function_cron");
+    expect(first?.jobExecutionMode).toBe("concurrent");
+    expect(first?.jobPayload).toEqual({
+      functionId,
+      expression: "*/5 * * * *",
+      timezone: "UTC",
+    });
+
+    const second = await ctx.schedulingService.getSchedule(`function_cron_${functionId}_1`);
+    expect(second?.timezone).toBe("Europe/Warsaw");
+    expect((second?.jobPayload as { method?: string }).method).toBe("POST");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionsService keeps cron schedules in sync on update, disable and delete", async () => {
+  const ctx = await TestSetupBuilder.create().withFunctions().withScheduling().build();
+  const functionsService = new FunctionsService({
+    surrealFactory: ctx.surrealFactory,
+    schedulingService: ctx.schedulingService,
+  });
+  try {
+    const created = await functionsService.addFunction({
+      name: "cron-sync",
+      handler: "cron.ts",
+      routePath: "/cron-sync",
+      methods: ["GET"],
+      cronSchedules: [{ expression: "@hourly" }, { expression: "@daily" }],
+    });
+    const functionId = recordIdToString(created.id);
+    const cronScheduleNames = async () =>
+      (await ctx.schedulingService.getSchedules())
+        .filter((schedule) => schedule.jobType === "function_cron")
+        .map((schedule) => `${schedule.name}=${schedule.cronExpression}`)
+        .sort();
+
+    // Update: first entry changed, second removed
+    await functionsService.updateFunction(functionId, {
+      name: "cron-sync",
+      handler: "cron.ts",
+      routePath: "/cron-sync",
+      methods: ["GET"],
+      cronSchedules: [{ expression: "@weekly" }],
+    });
+    expect(await cronScheduleNames()).toEqual([`function_cron_${functionId}_0=@weekly`]);
+
+    // Disable removes schedules, enable restores them
+    await functionsService.setFunctionEnabled(functionId, false);
+    expect(await cronScheduleNames()).toEqual([]);
+    await functionsService.setFunctionEnabled(functionId, true);
+    expect(await cronScheduleNames()).toEqual([`function_cron_${functionId}_0=@weekly`]);
+
+    // Delete removes schedules
+    await functionsService.removeFunctionById(functionId);
+    expect(await cronScheduleNames()).toEqual([]);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
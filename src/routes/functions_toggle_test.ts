@@ -12,6 +12,7 @@ import { Hono } from "@hono/hono";
 import { TestSetupBuilder } from "../test/test_setup_builder.ts";
 import { integrationTest } from "../test/test_helpers.ts";
 import { FunctionRouter } from "../functions/function_router.ts";
+import { KvService } from "../kv/kv_service.ts";
 import type { TestContext } from "../test/types.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 
@@ -29,6 +30,7 @@ function createFunctionRouterWithContext(ctx: TestContext) {
     consoleLogService: ctx.consoleLogService,
     executionMetricsService: ctx.executionMetricsService,
     secretsService: ctx.secretsService,
+    kvService: new KvService({ surrealFactory: ctx.surrealFactory }),
     codeDirectory: ctx.codeDir,
   });
 }
@@ -0,0 +1,355 @@
+/**
+ * Cron expression parsing and next-occurrence calculation.
+ *
+ * Supports the standard 5-field format evaluated in an IANA timezone:
+ *
+ * ```
+ * ┌───────────── minute (0-59)
+ * │ ┌─────────── hour (0-23)
+ * │ │ ┌───────── day of month (1-31)
+ * │ │ │ ┌─────── month (1-12 or JAN-DEC)
+ * │ │ │ │ ┌───── day of week (0-7 or SUN-SAT, 0 and 7 are Sunday)
+ * │ │ │ │ │
+ * * * * * *
+ * ```
+ *
+ * Each field accepts `*`, single values, ranges (`1-5`), lists (`1,15,30`)
+ * and steps (`*\/15`, `0-30/10`). The macros `@yearly`, `@annually`,
+ * `@monthly`, `@weekly`, `@daily`, `@midnight` and `@hourly` are also accepted.
+ *
+ * When both day-of-month and day-of-week are restricted, a day matches if
+ * EITHER field matches (classic Vixie cron semantics).
+ *
+ * @module cron
+ */
+
+import { InvalidCronExpressionError } from "./errors.ts";
+
+/**
+ * A parsed cron expression with expanded field values.
+ */
+export interface CronExpression {
+  /** Original expression as provided */
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not `*`) */
+  daysOfMonthRestricted: boolean;
+  /** Whether day-of-week was restricted (not `*`) */
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index to get its numeric value */
+  nameOffset?: number;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/** Safety bound for the next-occurrence search (covers several years of day skips) */
+const MAX_SEARCH_ITERATIONS = 50000;
+
+/** Cache of Intl formatters per timezone (creating them is comparatively expensive) */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a cron expression.
+ *
+ * @param expression - 5-field cron expression or macro
+ * @returns The parsed expression
+ * @throws {InvalidCronExpressionError} If the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  if (trimmed === "") {
+    throw new InvalidCronExpressionError(expression, "expression is empty");
+  }
+
+  const expanded = trimmed.startsWith("@")
+    ? MACROS[trimmed.toLowerCase()]
+    : trimmed;
+  if (!expanded) {
+    throw new InvalidCronExpressionError(expression, `unknown macro '${trimmed}'`);
+  }
+
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidCronExpressionError(
+      expression,
+      `expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(expression, field, FIELD_SPECS[index]),
+  );
+
+  // Normalize Sunday: 7 -> 0
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== "*" && fields[2] !== "?",
+    daysOfWeekRestricted: fields[4] !== "*" && fields[4] !== "?",
+  };
+}
+
+/**
+ * Check whether a cron expression is valid.
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a timezone is a valid IANA timezone identifier.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone || timezone.trim() === "") {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calculate the next time a cron expression fires, strictly after `after`.
+ *
+ * The expression is evaluated against wall-clock time in the given timezone,
+ * so "0 9 * * *" with "Europe/Warsaw" fires at 09:00 local time across DST
+ * changes. Wall-clock times skipped by a DST jump never fire.
+ *
+ * @param expression - Parsed expression or raw expression string
+ * @param after - Reference time (result is always later than this)
+ * @param timezone - IANA timezone (default: "UTC")
+ * @returns The next occurrence
+ * @throws {InvalidCronExpressionError} If the expression or timezone is invalid, or no occurrence exists
+ */
+export function getNextCronOccurrence(
+  expression: CronExpression | string,
+  after: Date,
+  timezone = "UTC",
+): Date {
+  const cron = typeof expression === "string"
+    ? parseCronExpression(expression)
+    : expression;
+
+  if (!isValidTimezone(timezone)) {
+    throw new InvalidCronExpressionError(cron.source, `unknown timezone '${timezone}'`);
+  }
+
+  // Start at the beginning of the next whole minute
+  let candidate = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  for (let i = 0; i < MAX_SEARCH_ITERATIONS; i++) {
+    const parts = getWallClockParts(new Date(candidate), timezone);
+
+    if (!cron.months.has(parts.month) || !matchesDay(cron, parts)) {
+      candidate += minutesTowardsNextDay(parts) * 60000;
+      continue;
+    }
+
+    if (!cron.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * 60000;
+      continue;
+    }
+
+    if (!cron.minutes.has(parts.minute)) {
+      candidate += 60000;
+      continue;
+    }
+
+    return new Date(candidate);
+  }
+
+  throw new InvalidCronExpressionError(cron.source, "no upcoming occurrence found");
+}
+
+// ============== Internal helpers ==============
+
+interface WallClockParts {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function parseField(expression: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    if (part === "") {
+      throw new InvalidCronExpressionError(expression, `empty list item in ${spec.name} field`);
+    }
+
+    const [rangePart, stepPart, ...rest] = part.split("/");
+    if (rest.length > 0) {
+      throw new InvalidCronExpressionError(expression, `invalid step in ${spec.name} field: '${part}'`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new InvalidCronExpressionError(expression, `invalid step in ${spec.name} field: '${part}'`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*" || rangePart === "?") {
+      start = spec.min;
+      end = spec.name === "day of week" ? 6 : spec.max;
+    } else if (rangePart.includes("-")) {
+      const [startStr, endStr, ...extra] = rangePart.split("-");
+      if (extra.length > 0) {
+        throw new InvalidCronExpressionError(expression, `invalid range in ${spec.name} field: '${part}'`);
+      }
+      start = parseValue(expression, startStr, spec);
+      end = parseValue(expression, endStr, spec);
+      if (start > end) {
+        throw new InvalidCronExpressionError(expression, `range start exceeds end in ${spec.name} field: '${part}'`);
+      }
+    } else {
+      start = parseValue(expression, rangePart, spec);
+      // "5/15" means "starting at 5, every 15 until max"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(expression: string, raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names) {
+    const nameIndex = spec.names.indexOf(upper);
+    if (nameIndex !== -1) {
+      return nameIndex + (spec.nameOffset ?? 0);
+    }
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new InvalidCronExpressionError(expression, `invalid value in ${spec.name} field: '${raw}'`);
+  }
+
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new InvalidCronExpressionError(
+      expression,
+      `${spec.name} value ${value} out of range (${spec.min}-${spec.max})`,
+    );
+  }
+  return value;
+}
+
+function matchesDay(cron: CronExpression, parts: WallClockParts): boolean {
+  const domMatch = cron.daysOfMonth.has(parts.day);
+  const dowMatch = cron.daysOfWeek.has(parts.weekday);
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Minutes to skip when the current day does not match.
+ *
+ * Jumps to 21:00 local time rather than straight to midnight so that a DST
+ * transition (which shortens or lengthens the day) can never carry the
+ * candidate past the first hours of the next day. The remaining hours are
+ * covered by hour-sized steps.
+ */
+function minutesTowardsNextDay(parts: WallClockParts): number {
+  if (parts.hour < 21) {
+    return (21 - parts.hour) * 60 - parts.minute;
+  }
+  return 60 - parts.minute;
+}
+
+function getWallClockParts(date: Date, timezone: string): WallClockParts {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  const parts: WallClockParts = { month: 0, day: 0, weekday: 0, hour: 0, minute: 0 };
+  for (const part of formatter.formatToParts(date)) {
+    switch (part.type) {
+      case "month":
+        parts.month = parseInt(part.value, 10);
+        break;
+      case "day":
+        parts.day = parseInt(part.value, 10);
+        break;
+      case "weekday":
+        parts.weekday = DAY_NAMES.indexOf(part.value.toUpperCase());
+        break;
+      case "hour":
+        parts.hour = parseInt(part.value, 10) % 24;
+        break;
+      case "minute":
+        parts.minute = parseInt(part.value, 10);
+        break;
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,193 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  getNextCronOccurrence,
+  isValidCronExpression,
+  isValidTimezone,
+  parseCronExpression,
+} from "./cron.ts";
+import { InvalidCronExpressionError } from "./errors.ts";
+
+// =====================
+// parseCronExpression
+// =====================
+
+Deno.test("parseCronExpression - expands wildcards", () => {
+  const cron = parseCronExpression("* * * * *");
+
+  assertEquals(cron.minutes.size, 60);
+  assertEquals(cron.hours.size, 24);
+  assertEquals(cron.daysOfMonth.size, 31);
+  assertEquals(cron.months.size, 12);
+  assertEquals(cron.daysOfWeek.size, 7);
+  assertEquals(cron.daysOfMonthRestricted, false);
+  assertEquals(cron.daysOfWeekRestricted, false);
+});
+
+Deno.test("parseCronExpression - supports lists, ranges and steps", () => {
+  const cron = parseCronExpression("*/15 9-17/4 1,15 * 1-5");
+
+  assertEquals([...cron.minutes], [0, 15, 30, 45]);
+  assertEquals([...cron.hours], [9, 13, 17]);
+  assertEquals([...cron.daysOfMonth], [1, 15]);
+  assertEquals([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+Deno.test("parseCronExpression - supports month and day names", () => {
+  const cron = parseCronExpression("0 0 * jan,JUL mon-fri");
+
+  assertEquals([...cron.months], [1, 7]);
+  assertEquals([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+Deno.test("parseCronExpression - treats 7 as Sunday", () => {
+  const cron = parseCronExpression("0 0 * * 7");
+
+  assertEquals([...cron.daysOfWeek], [0]);
+});
+
+Deno.test("parseCronExpression - expands macros", () => {
+  const cron = parseCronExpression("@daily");
+
+  assertEquals([...cron.minutes], [0]);
+  assertEquals([...cron.hours], [0]);
+  assertEquals(cron.daysOfMonth.size, 31);
+});
+
+Deno.test("parseCronExpression - rejects invalid expressions", () => {
+  const invalid = [
+    "",
+    "* * * *",
+    "* * * * * *",
+    "60 * * * *",
+    "* 24 * * *",
+    "* * 0 * *",
+    "* * * 13 *",
+    "*/0 * * * *",
+    "5-1 * * * *",
+    "a * * * *",
+    "@sometimes",
+  ];
+
+  for (const expression of invalid) {
+    assertThrows(
+      () => parseCronExpression(expression),
+      InvalidCronExpressionError,
+      undefined,
+      `expected '${expression}' to be rejected`,
+    );
+  }
+});
+
+// =====================
+// isValidCronExpression / isValidTimezone
+// =====================
+
+Deno.test("isValidCronExpression - returns boolean", () => {
+  assertEquals(isValidCronExpression("0 9 * * 1-5"), true);
+  assertEquals(isValidCronExpression("@hourly"), true);
+  assertEquals(isValidCronExpression("not a cron"), false);
+});
+
+Deno.test("isValidTimezone - accepts IANA names and rejects unknown", () => {
+  assertEquals(isValidTimezone("UTC"), true);
+  assertEquals(isValidTimezone("Europe/Warsaw"), true);
+  assertEquals(isValidTimezone("Mars/Olympus_Mons"), false);
+  assertEquals(isValidTimezone(""), false);
+});
+
+// =====================
+// getNextCronOccurrence
+// =====================
+
+Deno.test("getNextCronOccurrence - every minute returns the next whole minute", () => {
+  const next = getNextCronOccurrence("* * * * *", new Date("2026-03-10T10:15:30.500Z"));
+
+  assertEquals(next.toISOString(), "2026-03-10T10:16:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - result is strictly after the reference time", () => {
+  const next = getNextCronOccurrence("0 10 * * *", new Date("2026-03-10T10:00:00.000Z"));
+
+  assertEquals(next.toISOString(), "2026-03-11T10:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - finds next step in the same hour", () => {
+  const next = getNextCronOccurrence("*/15 * * * *", new Date("2026-03-10T10:16:00.000Z"));
+
+  assertEquals(next.toISOString(), "2026-03-10T10:30:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - skips to matching weekday", () => {
+  // 2026-03-13 is a Friday
+  const next = getNextCronOccurrence("0 9 * * 1", new Date("2026-03-13T12:00:00.000Z"));
+
+  assertEquals(next.toISOString(), "2026-03-16T09:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - day of month and day of week match with OR", () => {
+  // 1st of the month OR Monday - from Friday 2026-03-13, next Monday (16th) comes first
+  const next = getNextCronOccurrence("0 0 1 * 1", new Date("2026-03-13T12:00:00.000Z"));
+
+  assertEquals(next.toISOString(), "2026-03-16T00:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - handles leap day", () => {
+  const next = getNextCronOccurrence("0 0 29 2 *", new Date("2026-03-01T00:00:00.000Z"));
+
+  assertEquals(next.toISOString(), "2028-02-29T00:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - evaluates in the given timezone", () => {
+  // 09:00 in Warsaw is 08:00 UTC in winter (CET, UTC+1)
+  const next = getNextCronOccurrence(
+    "0 9 * * *",
+    new Date("2026-01-15T12:00:00.000Z"),
+    "Europe/Warsaw",
+  );
+
+  assertEquals(next.toISOString(), "2026-01-16T08:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - follows DST changes", () => {
+  // Europe/Warsaw switches to CEST (UTC+2) on 2026-03-29
+  const before = getNextCronOccurrence(
+    "0 9 * * *",
+    new Date("2026-03-28T00:00:00.000Z"),
+    "Europe/Warsaw",
+  );
+  const after = getNextCronOccurrence(
+    "0 9 * * *",
+    new Date("2026-03-29T00:00:00.000Z"),
+    "Europe/Warsaw",
+  );
+
+  assertEquals(before.toISOString(), "2026-03-28T08:00:00.000Z");
+  assertEquals(after.toISOString(), "2026-03-29T07:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - midnight after a short DST day is not skipped", () => {
+  // 2026-03-29 has 23 hours in Warsaw - the following midnight must still fire
+  const next = getNextCronOccurrence(
+    "0 0 * * 1",
+    new Date("2026-03-28T23:30:00.000Z"),
+    "Europe/Warsaw",
+  );
+
+  assertEquals(next.toISOString(), "2026-03-29T22:00:00.000Z");
+});
+
+Deno.test("getNextCronOccurrence - rejects unknown timezone", () => {
+  assertThrows(
+    () => getNextCronOccurrence("* * * * *", new Date(), "Nowhere/Special"),
+    InvalidCronExpressionError,
+    "unknown timezone",
+  );
+});
+
+Deno.test("getNextCronOccurrence - throws when expression never fires", () => {
+  assertThrows(
+    () => getNextCronOccurrence("0 0 31 2 *", new Date("2026-01-01T00:00:00.000Z")),
+    InvalidCronExpressionError,
+    "no upcoming occurrence",
+  );
+});
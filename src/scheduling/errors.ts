@@ -44,6 +44,19 @@ export class InvalidScheduleConfigError extends SchedulingError {
   }
 }
 
+/**
+ * Thrown when a cron expression or its timezone cannot be parsed.
+ */
+export class InvalidCronExpressionError extends SchedulingError {
+  public readonly expression: string;
+
+  constructor(expression: string, message: string) {
+    super(`Invalid cron expression '${expression}': ${message}`);
+    this.name = "InvalidCronExpressionError";
+    this.expression = expression;
+  }
+}
+
 /**
  * Thrown when attempting an operation on a schedule in an incompatible state.
  */
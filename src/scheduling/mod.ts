@@ -5,6 +5,7 @@
  * - One-off schedules at specific times
  * - Dynamic recurring schedules with handler-determined intervals
  * - Fixed interval schedules (sequential or concurrent)
+ * - Cron expression schedules evaluated in a timezone
  * - Transient vs persistent schedules
  *
  * The SchedulingService manages WHEN to execute tasks while delegating
@@ -36,6 +37,15 @@
  *   jobType: "log-cleanup",
  * });
  *
+ * // Create a cron schedule (09:00 on weekdays, Warsaw time)
+ * await schedulingService.registerSchedule({
+ *   name: "daily-digest",
+ *   type: "cron",
+ *   cronExpression: "0 9 * * 1-5",
+ *   timezone: "Europe/Warsaw",
+ *   jobType: "send-digest",
+ * });
+ *
  * schedulingService.start();
  * ```
  */
@@ -49,9 +59,19 @@ export {
   ScheduleNotFoundError,
   DuplicateScheduleError,
   InvalidScheduleConfigError,
+  InvalidCronExpressionError,
   ScheduleStateError,
 } from "./errors.ts";
 
+// Cron
+export {
+  parseCronExpression,
+  isValidCronExpression,
+  isValidTimezone,
+  getNextCronOccurrence,
+} from "./cron.ts";
+export type { CronExpression } from "./cron.ts";
+
 // Types
 export type {
   Schedule,
@@ -0,0 +1,248 @@
+import { Hono } from "@hono/hono";
+import type { SchedulingService } from "./scheduling_service.ts";
+import {
+  InvalidScheduleConfigError,
+  ScheduleNotFoundError,
+  ScheduleStateError,
+} from "./errors.ts";
+import type { Schedule, ScheduleUpdate, UpdateScheduleOptions } from "./types.ts";
+import { isScheduleStatus } from "./types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+
+/**
+ * Transform Schedule entity to API response format.
+ */
+function scheduleToResponse(schedule: Schedule) {
+  return {
+    id: recordIdToString(schedule.id),
+    name: schedule.name,
+    description: schedule.description,
+    type: schedule.type,
+    status: schedule.status,
+    isPersistent: schedule.isPersistent,
+    nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+    intervalMs: schedule.intervalMs,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    jobType: schedule.jobType,
+    jobPayload: schedule.jobPayload,
+    jobPriority: schedule.jobPriority,
+    jobMaxRetries: schedule.jobMaxRetries,
+    jobExecutionMode: schedule.jobExecutionMode,
+    jobReferenceType: schedule.jobReferenceType,
+    jobReferenceId: schedule.jobReferenceId,
+    activeJobId: schedule.activeJobId ? recordIdToString(schedule.activeJobId) : null,
+    consecutiveFailures: schedule.consecutiveFailures,
+    maxConsecutiveFailures: schedule.maxConsecutiveFailures,
+    lastError: schedule.lastError,
+    createdAt: schedule.createdAt.toISOString(),
+    updatedAt: schedule.updatedAt.toISOString(),
+    lastTriggeredAt: schedule.lastTriggeredAt?.toISOString() ?? null,
+    lastCompletedAt: schedule.lastCompletedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Map scheduling errors to JSON error responses.
+ * Returns null for errors that should propagate.
+ */
+function scheduleErrorResponse(error: unknown): { message: string; status: 400 | 404 | 409 } | null {
+  if (error instanceof ScheduleNotFoundError) {
+    return { message: error.message, status: 404 };
+  }
+  if (error instanceof ScheduleStateError) {
+    return { message: error.message, status: 409 };
+  }
+  if (error instanceof InvalidScheduleConfigError) {
+    return { message: error.message, status: 400 };
+  }
+  return null;
+}
+
+/**
+ * Create routes for schedule management.
+ * Mounted at /api/schedules
+ */
+export function createSchedulingRoutes(schedulingService: SchedulingService): Hono {
+  const routes = new Hono();
+
+  // GET /api/schedules - List schedules (optional ?status= filter)
+  routes.get("/", async (c) => {
+    const status = c.req.query("status");
+    if (status !== undefined && !isScheduleStatus(status)) {
+      return c.json(
+        { error: `Invalid status: ${status}. Must be one of active, paused, completed, error` },
+        400,
+      );
+    }
+
+    const schedules = await schedulingService.getSchedules(status);
+    return c.json({ schedules: schedules.map(scheduleToResponse) });
+  });
+
+  // GET /api/schedules/:name - Get schedule by name
+  routes.get("/:name", async (c) => {
+    const schedule = await schedulingService.getSchedule(c.req.param("name"));
+    if (!schedule) {
+      return c.json({ error: "Schedule not found" }, 404);
+    }
+    return c.json(scheduleToResponse(schedule));
+  });
+
+  // PUT /api/schedules/:name - Update schedule configuration
+  routes.put("/:name", async (c) => {
+    const name = c.req.param("name");
+
+    let body: {
+      description?: string | null;
+      intervalMs?: number;
+      cronExpression?: string;
+      timezone?: string;
+      jobPayload?: unknown;
+      jobPriority?: number;
+      jobMaxRetries?: number;
+      maxConsecutiveFailures?: number;
+      nextRunAt?: string | null;
+      nextRunAtBehavior?: UpdateScheduleOptions["nextRunAtBehavior"];
+    };
+
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    if (
+      body.nextRunAtBehavior !== undefined &&
+      !["reset", "preserve", "explicit"].includes(body.nextRunAtBehavior)
+    ) {
+      return c.json(
+        { error: "Invalid nextRunAtBehavior. Must be one of reset, preserve, explicit" },
+        400,
+      );
+    }
+
+    const update: ScheduleUpdate = {
+      description: body.description,
+      intervalMs: body.intervalMs,
+      cronExpression: body.cronExpression,
+      timezone: body.timezone,
+      jobPayload: body.jobPayload,
+      jobPriority: body.jobPriority,
+      jobMaxRetries: body.jobMaxRetries,
+      maxConsecutiveFailures: body.maxConsecutiveFailures,
+    };
+
+    if (body.nextRunAt !== undefined) {
+      if (body.nextRunAt === null) {
+        update.nextRunAt = null;
+      } else {
+        const nextRunAt = new Date(body.nextRunAt);
+        if (isNaN(nextRunAt.getTime())) {
+          return c.json({ error: "Invalid nextRunAt: must be an ISO 8601 date" }, 400);
+        }
+        update.nextRunAt = nextRunAt;
+      }
+    }
+
+    try {
+      const schedule = await schedulingService.updateSchedule(name, update, {
+        nextRunAtBehavior: body.nextRunAtBehavior,
+      });
+      return c.json(scheduleToResponse(schedule));
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // DELETE /api/schedules/:name - Delete schedule (?cancelRunningJob=true to also cancel its job)
+  routes.delete("/:name", async (c) => {
+    const name = c.req.param("name");
+    const cancelRunningJob = c.req.query("cancelRunningJob") === "true";
+
+    try {
+      await schedulingService.deleteSchedule(name, { cancelRunningJob });
+      return c.json({ success: true });
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // POST /api/schedules/:name/trigger - Run the schedule's job immediately
+  routes.post("/:name/trigger", async (c) => {
+    try {
+      const job = await schedulingService.triggerNow(c.req.param("name"));
+      return c.json({ message: "Schedule triggered", jobId: recordIdToString(job.id) });
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // POST /api/schedules/:name/pause - Pause an active schedule
+  routes.post("/:name/pause", async (c) => {
+    try {
+      const schedule = await schedulingService.pauseSchedule(c.req.param("name"));
+      return c.json(scheduleToResponse(schedule));
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // POST /api/schedules/:name/resume - Resume a paused schedule
+  routes.post("/:name/resume", async (c) => {
+    try {
+      const schedule = await schedulingService.resumeSchedule(c.req.param("name"));
+      return c.json(scheduleToResponse(schedule));
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  // POST /api/schedules/:name/cancel - Cancel a schedule (marks it completed)
+  routes.post("/:name/cancel", async (c) => {
+    let body: { cancelRunningJob?: boolean; reason?: string } = {};
+    if (c.req.header("Content-Type")?.includes("application/json")) {
+      try {
+        body = await c.req.json();
+      } catch {
+        return c.json({ error: "Invalid JSON body" }, 400);
+      }
+    }
+
+    try {
+      const schedule = await schedulingService.cancelSchedule(c.req.param("name"), {
+        cancelRunningJob: body.cancelRunningJob === true,
+        reason: body.reason,
+      });
+      return c.json(scheduleToResponse(schedule));
+    } catch (error) {
+      const response = scheduleErrorResponse(error);
+      if (response) {
+        return c.json({ error: response.message }, response.status);
+      }
+      throw error;
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,249 @@
+import { expect } from "@std/expect";
+import { Hono } from "@hono/hono";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { createSchedulingRoutes } from "./scheduling_routes.ts";
+
+/**
+ * Create a test app with scheduling routes.
+ */
+async function createTestApp() {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  const app = new Hono();
+  app.route("/api/schedules", createSchedulingRoutes(ctx.schedulingService));
+
+  return { app, ctx };
+}
+
+/**
+ * Register an interval schedule whose first run is far enough in the future that it never fires during a test.
+ */
+async function registerFutureSchedule(
+  ctx: Awaited<ReturnType<typeof createTestApp>>["ctx"],
+  name: string,
+) {
+  return await ctx.schedulingService.registerSchedule({
+    name,
+    type: "sequential_interval",
+    intervalMs: 3600000,
+    nextRunAt: new Date(Date.now() + 3600000),
+    jobType: "test-job",
+    jobPayload: { hello: "world" },
+  });
+}
+
+// =============================================================================
+// List and Get
+// =============================================================================
+
+integrationTest("GET /api/schedules lists schedules", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "list-test");
+
+    const res = await app.request("/api/schedules");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    const schedule = body.schedules.find((s: { name: string }) => s.name === "list-test");
+    expect(schedule).toBeDefined();
+    expect(schedule.status).toBe("active");
+    expect(schedule.consecutiveFailures).toBe(0);
+    expect(schedule.lastError).toBeNull();
+    expect(typeof schedule.nextRunAt).toBe("string");
+    expect(schedule.jobPayload).toEqual({ hello: "world" });
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/schedules filters by status", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "filter-active");
+    await registerFutureSchedule(ctx, "filter-paused");
+    await ctx.schedulingService.pauseSchedule("filter-paused");
+
+    const res = await app.request("/api/schedules?status=paused");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    const names = body.schedules.map((s: { name: string }) => s.name);
+    expect(names).toContain("filter-paused");
+    expect(names).not.toContain("filter-active");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/schedules rejects invalid status filter", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await app.request("/api/schedules?status=bogus");
+    expect(res.status).toBe(400);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/schedules/:name returns 404 for unknown schedule", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await app.request("/api/schedules/does-not-exist");
+    expect(res.status).toBe(404);
+
+    const body = await res.json();
+    expect(body.error).toContain("not found");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+integrationTest("POST /api/schedules/:name/pause and /resume toggle status", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "pause-test");
+
+    const pauseRes = await app.request("/api/schedules/pause-test/pause", { method: "POST" });
+    expect(pauseRes.status).toBe(200);
+    expect((await pauseRes.json()).status).toBe("paused");
+
+    // Pausing again is a state conflict
+    const conflictRes = await app.request("/api/schedules/pause-test/pause", { method: "POST" });
+    expect(conflictRes.status).toBe(409);
+
+    const resumeRes = await app.request("/api/schedules/pause-test/resume", { method: "POST" });
+    expect(resumeRes.status).toBe(200);
+    expect((await resumeRes.json()).status).toBe("active");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/schedules/:name/trigger enqueues a job", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "trigger-test");
+
+    const res = await app.request("/api/schedules/trigger-test/trigger", { method: "POST" });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.message).toBe("Schedule triggered");
+    expect(typeof body.jobId).toBe("string");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/schedules/:name/cancel marks schedule completed", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "cancel-test");
+
+    const res = await app.request("/api/schedules/cancel-test/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cancelRunningJob: true }),
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.status).toBe("completed");
+    expect(body.nextRunAt).toBeNull();
+
+    // Completed schedules cannot be triggered
+    const triggerRes = await app.request("/api/schedules/cancel-test/trigger", { method: "POST" });
+    expect(triggerRes.status).toBe(409);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/schedules/:name/trigger returns 404 for unknown schedule", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await app.request("/api/schedules/missing/trigger", { method: "POST" });
+    expect(res.status).toBe(404);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+// =============================================================================
+// Update and Delete
+// =============================================================================
+
+integrationTest("PUT /api/schedules/:name updates interval", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "update-test");
+
+    const res = await app.request("/api/schedules/update-test", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intervalMs: 7200000, description: "Every two hours" }),
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.intervalMs).toBe(7200000);
+    expect(body.description).toBe("Every two hours");
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("PUT /api/schedules/:name rejects invalid update", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "invalid-update");
+
+    const res = await app.request("/api/schedules/invalid-update", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intervalMs: -5 }),
+    });
+    expect(res.status).toBe(400);
+
+    const badDate = await app.request("/api/schedules/invalid-update", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ nextRunAt: "not-a-date", nextRunAtBehavior: "explicit" }),
+    });
+    expect(badDate.status).toBe(400);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("DELETE /api/schedules/:name removes schedule", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    await registerFutureSchedule(ctx, "delete-test");
+
+    const res = await app.request("/api/schedules/delete-test", { method: "DELETE" });
+    expect(res.status).toBe(200);
+
+    const getRes = await app.request("/api/schedules/delete-test");
+    expect(getRes.status).toBe(404);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
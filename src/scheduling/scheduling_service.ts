@@ -23,7 +23,9 @@ import {
   DuplicateScheduleError,
   InvalidScheduleConfigError,
   ScheduleStateError,
+  InvalidCronExpressionError,
 } from "./errors.ts";
+import { getNextCronOccurrence, parseCronExpression, isValidTimezone } from "./cron.ts";
 import { logger } from "../utils/logger.ts";
 
 /**
@@ -33,7 +35,7 @@ import { logger } from "../utils/logger.ts";
  * never query this table directly - always go through this service.
  *
  * Features:
- * - Multiple schedule types (one-off, dynamic, interval-based)
+ * - Multiple schedule types (one-off, dynamic, interval-based, cron)
  * - Efficient timeout-based triggering (not polling)
  * - Transient vs persistent schedules
  * - Integration with existing job queue
@@ -227,6 +229,8 @@ export class SchedulingService {
       schedule.type === "concurrent_interval"
     ) {
       nextRunAt = new Date(Date.now() + (schedule.intervalMs ?? 0));
+    } else if (schedule.type === "cron") {
+      nextRunAt = this.getNextCronRunAt(schedule.cronExpression!, schedule.timezone);
     }
 
     // Return undefined (not null) to map to SurrealDB NONE instead of NULL
@@ -251,6 +255,8 @@ export class SchedulingService {
            isPersistent = $isPersistent,
            nextRunAt = $nextRunAt,
            intervalMs = $intervalMs,
+           cronExpression = $cronExpression,
+           timezone = $timezone,
            jobType = $jobType,
            jobPayload = $jobPayload,
            jobPriority = $jobPriority,
@@ -274,6 +280,8 @@ export class SchedulingService {
           isPersistent: schedule.isPersistent ?? true,
           nextRunAt: nextRunAt,
           intervalMs: schedule.intervalMs ?? undefined,
+          cronExpression: schedule.type === "cron" ? schedule.cronExpression!.trim() : undefined,
+          timezone: schedule.type === "cron" ? (schedule.timezone ?? "UTC") : undefined,
           jobType: schedule.jobType,
           jobPayload: payloadStr,
           jobPriority: schedule.jobPriority ?? 0,
@@ -609,6 +617,14 @@ export class SchedulingService {
       updateFields.intervalMs = update.intervalMs;
     }
 
+    if (update.cronExpression !== undefined) {
+      updateFields.cronExpression = update.cronExpression.trim();
+    }
+
+    if (update.timezone !== undefined) {
+      updateFields.timezone = update.timezone;
+    }
+
     if (update.jobPayload !== undefined) {
       updateFields.jobPayload = JSON.stringify(update.jobPayload);
     }
@@ -717,10 +733,55 @@ export class SchedulingService {
       }
       return new Date();
     }
+    if (schedule.type === "cron") {
+      return this.getNextCronRunAt(schedule.cronExpression!, schedule.timezone);
+    }
     // For interval types (sequential_interval, concurrent_interval)
     return new Date(Date.now() + (schedule.intervalMs ?? 0));
   }
 
+  /**
+   * Calculate the next occurrence of a cron expression after now.
+   *
+   * @throws {InvalidScheduleConfigError} If the expression or timezone is invalid
+   */
+  private getNextCronRunAt(
+    cronExpression: string,
+    timezone: string | null | undefined,
+  ): Date {
+    try {
+      return getNextCronOccurrence(cronExpression, new Date(), timezone ?? "UTC");
+    } catch (error) {
+      if (error instanceof InvalidCronExpressionError) {
+        throw new InvalidScheduleConfigError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a cron expression and timezone pair.
+   */
+  private validateCronConfig(
+    cronExpression: string | undefined,
+    timezone: string | undefined,
+  ): void {
+    if (cronExpression !== undefined) {
+      try {
+        parseCronExpression(cronExpression);
+      } catch (error) {
+        if (error instanceof InvalidCronExpressionError) {
+          throw new InvalidScheduleConfigError(error.message);
+        }
+        throw error;
+      }
+    }
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      throw new InvalidScheduleConfigError(`Unknown timezone '${timezone}'`);
+    }
+  }
+
   /**
    * Validate new schedule configuration.
    */
@@ -754,6 +815,15 @@ export class SchedulingService {
         "intervalMs must be positive for interval-based schedules",
       );
     }
+
+    if (schedule.type === "cron") {
+      if (!schedule.cronExpression || schedule.cronExpression.trim() === "") {
+        throw new InvalidScheduleConfigError(
+          "cronExpression is required for cron schedules",
+        );
+      }
+      this.validateCronConfig(schedule.cronExpression, schedule.timezone);
+    }
   }
 
   /**
@@ -779,6 +849,16 @@ export class SchedulingService {
         );
       }
     }
+
+    // cronExpression and timezone only valid for cron schedules
+    if (update.cronExpression !== undefined || update.timezone !== undefined) {
+      if (schedule.type !== "cron") {
+        throw new InvalidScheduleConfigError(
+          `Cannot update cron settings on ${schedule.type} schedule`,
+        );
+      }
+      this.validateCronConfig(update.cronExpression, update.timezone);
+    }
   }
 
   /**
@@ -817,6 +897,19 @@ export class SchedulingService {
       return new Date(Date.now() + update.intervalMs);
     }
 
+    // If cron expression or timezone changed
+    if (update.cronExpression !== undefined || update.timezone !== undefined) {
+      if (behavior === "preserve" || schedule.status !== "active") {
+        return undefined;
+      }
+
+      // Default "reset": next occurrence of the updated expression
+      return this.getNextCronRunAt(
+        update.cronExpression ?? schedule.cronExpression!,
+        update.timezone ?? schedule.timezone,
+      );
+    }
+
     // No interval change and no explicit nextRunAt - don't update
     return undefined;
   }
@@ -876,9 +969,10 @@ export class SchedulingService {
 
       if (
         schedule.type === "sequential_interval" ||
-        schedule.type === "concurrent_interval"
+        schedule.type === "concurrent_interval" ||
+        schedule.type === "cron"
       ) {
-        const nextRunAt = new Date(Date.now() + (schedule.intervalMs ?? 0));
+        const nextRunAt = this.calculateNextRunAtFromNow(schedule, false);
         await this.surrealFactory.withSystemConnection({}, async (db) => {
           await db.query(
             `UPDATE $scheduleId SET
@@ -1060,6 +1154,21 @@ export class SchedulingService {
           { scheduleId: schedule.id, nextRunAt },
         );
       });
+    } else if (schedule.type === "cron") {
+      // Cron: schedule the next occurrence immediately (like concurrent).
+      // The failure count is only reset once the job succeeds.
+      const nextRunAt = this.getNextCronRunAt(schedule.cronExpression!, schedule.timezone);
+      await this.surrealFactory.withSystemConnection({}, async (db) => {
+        await db.query(
+          `UPDATE $scheduleId SET
+             nextRunAt = $nextRunAt,
+             lastTriggeredAt = time::now(),
+             updatedAt = time::now()`,
+          { scheduleId: schedule.id, nextRunAt },
+        );
+      });
+
+      this.subscribeToCronJobOutcome(schedule.id, job.id);
     }
 
     return job;
@@ -1112,6 +1221,37 @@ export class SchedulingService {
     });
   }
 
+  /**
+   * Track the outcome of a cron job without holding back the next occurrence.
+   * A successful run resets the failure count; failed and cancelled runs count
+   * towards maxConsecutiveFailures like trigger errors do.
+   */
+  private subscribeToCronJobOutcome(scheduleId: RecordId, jobId: RecordId): void {
+    this.jobQueueService.subscribeToCompletion(jobId, async (event: JobCompletionEvent) => {
+      const schedule = await this.getScheduleInternal(scheduleId);
+      if (!schedule || schedule.status !== "active") {
+        return;
+      }
+
+      if (event.type === "completed") {
+        await this.surrealFactory.withSystemConnection({}, async (db) => {
+          await db.query(
+            `UPDATE $scheduleId SET
+               consecutiveFailures = 0,
+               lastCompletedAt = time::now(),
+               updatedAt = time::now()`,
+            { scheduleId },
+          );
+        });
+      } else {
+        logger.warn(
+          `[Scheduling] Job ${recordIdToString(event.job.id)} ${event.job.status} for schedule '${schedule.name}'`,
+        );
+        await this.handleScheduleError(schedule, this.getJobErrorMessage(event.job));
+      }
+    });
+  }
+
   /**
    * Handle a job completion event from the subscription.
    */
@@ -1237,10 +1377,7 @@ export class SchedulingService {
     );
 
     const newFailureCount = schedule.consecutiveFailures + 1;
-    const errorMessage =
-      job.status === "cancelled"
-        ? `Job cancelled: ${job.cancelReason ?? "no reason"}`
-        : JSON.stringify(job.result);
+    const errorMessage = this.getJobErrorMessage(job);
 
     if (newFailureCount >= schedule.maxConsecutiveFailures) {
       // Enter error state
@@ -1288,6 +1425,15 @@ export class SchedulingService {
     }
   }
 
+  /**
+   * Error message recorded on a schedule for a failed or cancelled job.
+   */
+  private getJobErrorMessage(job: Job): string {
+    return job.status === "cancelled"
+      ? `Job cancelled: ${job.cancelReason ?? "no reason"}`
+      : JSON.stringify(job.result);
+  }
+
   /**
    * Reset schedule when its job has been deleted.
    */
@@ -1372,6 +1518,8 @@ export class SchedulingService {
       isPersistent: row.isPersistent,
       nextRunAt: row.nextRunAt ? toDate(row.nextRunAt) : null,
       intervalMs: row.intervalMs ?? null,
+      cronExpression: row.cronExpression ?? null,
+      timezone: row.timezone ?? null,
       jobType: row.jobType,
       jobPayload: payload,
       jobPriority: row.jobPriority,
@@ -145,6 +145,180 @@ integrationTest("SchedulingService.registerSchedule creates dynamic schedule", a
   }
 });
 
+// =============================================================================
+// Schedule Registration - Cron
+// =============================================================================
+
+integrationTest("SchedulingService.registerSchedule creates cron schedule", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    const before = Date.now();
+    const schedule = await ctx.schedulingService.registerSchedule({
+      name: "test-cron",
+      type: "cron",
+      cronExpression: "*/5 * * * *",
+      timezone: "Europe/Warsaw",
+      jobType: "cron-job",
+    });
+
+    expect(schedule.name).toBe("test-cron");
+    expect(schedule.type).toBe("cron");
+    expect(schedule.cronExpression).toBe("*/5 * * * *");
+    expect(schedule.timezone).toBe("Europe/Warsaw");
+    expect(schedule.intervalMs).toBeNull();
+    // Next run is the next 5-minute boundary
+    expect(schedule.nextRunAt!.getTime()).toBeGreaterThan(before);
+    expect(schedule.nextRunAt!.getTime()).toBeLessThanOrEqual(before + 5 * 60 * 1000);
+    expect(schedule.nextRunAt!.getUTCMinutes() % 5).toBe(0);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SchedulingService.registerSchedule defaults cron timezone to UTC", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    const schedule = await ctx.schedulingService.registerSchedule({
+      name: "test-cron-utc",
+      type: "cron",
+      cronExpression: "@daily",
+      jobType: "cron-job",
+    });
+
+    expect(schedule.timezone).toBe("UTC");
+    expect(schedule.nextRunAt!.getUTCHours()).toBe(0);
+    expect(schedule.nextRunAt!.getUTCMinutes()).toBe(0);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SchedulingService.registerSchedule validates cron expression and timezone", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    await expect(
+      ctx.schedulingService.registerSchedule({
+        name: "invalid-cron",
+        type: "cron",
+        // cronExpression missing
+        jobType: "test-job",
+      }),
+    ).rejects.toThrow(InvalidScheduleConfigError);
+
+    await expect(
+      ctx.schedulingService.registerSchedule({
+        name: "invalid-cron",
+        type: "cron",
+        cronExpression: "61 * * * *",
+        jobType: "test-job",
+      }),
+    ).rejects.toThrow(InvalidScheduleConfigError);
+
+    await expect(
+      ctx.schedulingService.registerSchedule({
+        name: "invalid-cron",
+        type: "cron",
+        cronExpression: "* * * * *",
+        timezone: "Nowhere/Special",
+        jobType: "test-job",
+      }),
+    ).rejects.toThrow(InvalidScheduleConfigError);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SchedulingService.triggerNow advances cron schedule to next occurrence", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    await ctx.schedulingService.registerSchedule({
+      name: "cron-trigger",
+      type: "cron",
+      cronExpression: "0 0 1 1 *",
+      jobType: "cron-job",
+      jobExecutionMode: "concurrent",
+    });
+
+    const job = await ctx.schedulingService.triggerNow("cron-trigger");
+    expect(job.type).toBe("cron-job");
+
+    const schedule = await ctx.schedulingService.getSchedule("cron-trigger");
+    expect(schedule!.status).toBe("active");
+    expect(schedule!.activeJobId).toBeNull();
+    expect(schedule!.lastTriggeredAt).not.toBeNull();
+    expect(schedule!.nextRunAt!.getUTCMonth()).toBe(0);
+    expect(schedule!.nextRunAt!.getUTCDate()).toBe(1);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SchedulingService cron schedule enters error state after consecutive job failures", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  const processor = new JobProcessorService({
+    jobQueueService: ctx.jobQueueService,
+    instanceIdService: ctx.instanceIdService,
+    config: { pollingIntervalSeconds: 60 },
+  });
+
+  try {
+    let succeed = false;
+    processor.registerHandler("failing-cron-job", () => {
+      if (!succeed) throw new Error("handler failed");
+      return { ok: true };
+    });
+
+    await ctx.schedulingService.registerSchedule({
+      name: "failing-cron",
+      type: "cron",
+      cronExpression: "0 0 1 1 *",
+      jobType: "failing-cron-job",
+      jobExecutionMode: "concurrent",
+      maxConsecutiveFailures: 2,
+    });
+
+    // A failure followed by a success resets the count
+    await ctx.schedulingService.triggerNow("failing-cron");
+    await processor.processOne();
+    let schedule = await ctx.schedulingService.getSchedule("failing-cron");
+    expect(schedule!.consecutiveFailures).toBe(1);
+    expect(schedule!.lastError).toContain("handler failed");
+
+    succeed = true;
+    await ctx.schedulingService.triggerNow("failing-cron");
+    await processor.processOne();
+    schedule = await ctx.schedulingService.getSchedule("failing-cron");
+    expect(schedule!.status).toBe("active");
+    expect(schedule!.consecutiveFailures).toBe(0);
+
+    // Triggering alone doesn't reset it - consecutive failures end in the error state
+    succeed = false;
+    await ctx.schedulingService.triggerNow("failing-cron");
+    await processor.processOne();
+    await ctx.schedulingService.triggerNow("failing-cron");
+    schedule = await ctx.schedulingService.getSchedule("failing-cron");
+    expect(schedule!.consecutiveFailures).toBe(1);
+    await processor.processOne();
+
+    schedule = await ctx.schedulingService.getSchedule("failing-cron");
+    expect(schedule!.status).toBe("error");
+    expect(schedule!.consecutiveFailures).toBe(2);
+  } finally {
+    await ctx.schedulingService.stop();
+    await processor.stop();
+    await ctx.cleanup();
+  }
+});
+
 // =============================================================================
 // Schedule Registration - Validation
 // =============================================================================
@@ -1179,6 +1353,51 @@ integrationTest("SchedulingService.updateSchedule throws for intervalMs on one_o
   }
 });
 
+integrationTest("SchedulingService.updateSchedule updates cron expression and recalculates nextRunAt", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    await ctx.schedulingService.registerSchedule({
+      name: "cron-update",
+      type: "cron",
+      cronExpression: "0 0 1 1 *",
+      jobType: "test-job",
+    });
+
+    const updated = await ctx.schedulingService.updateSchedule("cron-update", {
+      cronExpression: "* * * * *",
+      timezone: "America/New_York",
+    });
+
+    expect(updated.cronExpression).toBe("* * * * *");
+    expect(updated.timezone).toBe("America/New_York");
+    expect(updated.nextRunAt!.getTime()).toBeLessThanOrEqual(Date.now() + 60000);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SchedulingService.updateSchedule throws for cron settings on interval schedule", async () => {
+  const ctx = await TestSetupBuilder.create().withScheduling().build();
+
+  try {
+    await ctx.schedulingService.registerSchedule({
+      name: "interval-cron-update",
+      type: "sequential_interval",
+      intervalMs: 60000,
+      jobType: "test-job",
+    });
+
+    await expect(
+      ctx.schedulingService.updateSchedule("interval-cron-update", { cronExpression: "* * * * *" }),
+    ).rejects.toThrow(InvalidScheduleConfigError);
+  } finally {
+    await ctx.schedulingService.stop();
+    await ctx.cleanup();
+  }
+});
+
 integrationTest("SchedulingService.updateSchedule throws for intervalMs on dynamic schedule", async () => {
   const ctx = await TestSetupBuilder.create().withScheduling().build();
 
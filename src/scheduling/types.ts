@@ -10,12 +10,14 @@ import type { ExecutionMode } from "../jobs/types.ts";
  * - dynamic: After job completes, handler returns next time via result
  * - sequential_interval: Wait for job completion, then schedule next after intervalMs
  * - concurrent_interval: Enqueue at every interval regardless of running jobs
+ * - cron: Enqueue at every occurrence of a cron expression (in a timezone) regardless of running jobs
  */
 export type ScheduleType =
   | "one_off"
   | "dynamic"
   | "sequential_interval"
-  | "concurrent_interval";
+  | "concurrent_interval"
+  | "cron";
 
 /**
  * Schedule status.
@@ -32,7 +34,7 @@ export type ScheduleStatus = "active" | "paused" | "completed" | "error";
  * Used for runtime validation of database values.
  */
 export function isScheduleType(type: string): type is ScheduleType {
-  return ["one_off", "dynamic", "sequential_interval", "concurrent_interval"].includes(type);
+  return ["one_off", "dynamic", "sequential_interval", "concurrent_interval", "cron"].includes(type);
 }
 
 /**
@@ -63,6 +65,10 @@ export interface Schedule {
   nextRunAt: Date | null;
   /** Interval in milliseconds (for interval types) */
   intervalMs: number | null;
+  /** Cron expression (for cron type) */
+  cronExpression: string | null;
+  /** IANA timezone the cron expression is evaluated in (for cron type) */
+  timezone: string | null;
   /** Job type to enqueue when triggered */
   jobType: string;
   /** Job payload (decrypted) */
@@ -112,6 +118,7 @@ export interface NewSchedule {
    * - For one_off: Required, the single execution time
    * - For dynamic: Required, first execution time
    * - For interval types: Optional, defaults to now + intervalMs
+   * - For cron: Optional, defaults to the next cron occurrence
    */
   nextRunAt?: Date;
   /**
@@ -120,6 +127,13 @@ export interface NewSchedule {
    * Ignored for one_off and dynamic.
    */
   intervalMs?: number;
+  /**
+   * Cron expression (5-field or macro such as "@daily").
+   * Required for cron schedules, ignored otherwise.
+   */
+  cronExpression?: string;
+  /** IANA timezone for the cron expression (default: "UTC") */
+  timezone?: string;
   /** Job type to enqueue */
   jobType: string;
   /** Job payload (optional) */
@@ -155,6 +169,8 @@ export interface CancelScheduleOptions {
 export interface ScheduleUpdate {
   description?: string | null;
   intervalMs?: number;
+  cronExpression?: string;
+  timezone?: string;
   jobPayload?: unknown;
   nextRunAt?: Date | null;
   jobPriority?: number;
@@ -167,8 +183,8 @@ export interface ScheduleUpdate {
  */
 export interface UpdateScheduleOptions {
   /**
-   * How to handle nextRunAt when intervalMs changes.
-   * - 'reset': Set to now + newIntervalMs (default)
+   * How to handle nextRunAt when intervalMs (or the cron expression/timezone) changes.
+   * - 'reset': Set to now + newIntervalMs, or the next cron occurrence (default)
    * - 'preserve': Keep existing nextRunAt
    * - 'explicit': Use the nextRunAt provided in update
    */
@@ -230,6 +246,8 @@ export interface ScheduleRow {
   isPersistent: boolean;
   nextRunAt: unknown | null;
   intervalMs: number | null;
+  cronExpression: string | null;
+  timezone: string | null;
   jobType: string;
   jobPayload: string | null;
   jobPriority: number;
@@ -1,3 +1,5 @@
+import { DEFAULT_REDACTION_PATTERNS } from "../logs/log_redaction.ts";
+
 /**
  * All known setting names as a const for type safety and autocomplete.
  * Setting names use dot notation to group related settings.
@@ -10,10 +12,25 @@ export const SettingNames = {
   LOG_TRIMMING_RETENTION_SECONDS: "log.trimming.retention-seconds",
   LOG_BATCHING_MAX_BATCH_SIZE: "log.batching.max-batch-size",
   LOG_BATCHING_MAX_DELAY_MS: "log.batching.max-delay-ms",
+  LOG_REDACTION_PATTERNS: "log.redaction.patterns",
 
   // Metrics
   METRICS_AGGREGATION_INTERVAL_SECONDS: "metrics.aggregation-interval-seconds",
   METRICS_RETENTION_DAYS: "metrics.retention-days",
+  METRICS_ACCESS_GROUPS: "metrics.access-groups",
+
+  // Tracing
+  TRACING_ENABLED: "tracing.enabled",
+  TRACING_OTLP_ENDPOINT: "tracing.otlp-endpoint",
+  TRACING_SERVICE_NAME: "tracing.service-name",
+
+  // Alerts
+  ALERTS_SMTP_HOST: "alerts.smtp.host",
+  ALERTS_SMTP_PORT: "alerts.smtp.port",
+  ALERTS_SMTP_SECURITY: "alerts.smtp.security",
+  ALERTS_SMTP_USERNAME: "alerts.smtp.username",
+  ALERTS_SMTP_PASSWORD_SECRET: "alerts.smtp.password-secret",
+  ALERTS_SMTP_FROM: "alerts.smtp.from",
 
   // Encryption key rotation
   ENCRYPTION_KEY_ROTATION_INTERVAL_DAYS: "encryption.key-rotation.interval-days",
@@ -22,6 +39,10 @@ export const SettingNames = {
 
   // Security
   API_ACCESS_GROUPS: "api.access-groups",
+  API_KEYS_AUTO_DISABLE_UNUSED_DAYS: "api-keys.auto-disable-unused-days",
+  IP_ALLOWLIST: "ip-access.allowlist",
+  IP_DENYLIST: "ip-access.denylist",
+  IP_TRUSTED_PROXIES: "ip-access.trusted-proxies",
 
   // Files
   FILES_MAX_SIZE_BYTES: "files.max-size-bytes",
@@ -29,6 +50,12 @@ export const SettingNames = {
   // Jobs
   JOB_PROCESSOR_POLLING_INTERVAL_SECONDS: "job.processor.polling-interval-seconds",
 
+  // Functions
+  FUNCTION_DEFAULT_TIMEOUT_MS: "function.default-timeout-ms",
+  FUNCTION_ASYNC_RESULT_RETENTION_SECONDS: "function.async-result-retention-seconds",
+  FUNCTION_MAX_INVOKE_DEPTH: "function.max-invoke-depth",
+  RATE_LIMIT_PERSIST_COUNTERS: "rate-limit.persist-counters",
+
   // General
   SERVER_NAME: "server.name",
 } as const;
@@ -50,14 +77,33 @@ export const GlobalSettingDefaults: Record<SettingName, string> = {
   [SettingNames.LOG_TRIMMING_RETENTION_SECONDS]: "7776000", // 90 days
   [SettingNames.LOG_BATCHING_MAX_BATCH_SIZE]: "50",
   [SettingNames.LOG_BATCHING_MAX_DELAY_MS]: "50",
+  [SettingNames.LOG_REDACTION_PATTERNS]: DEFAULT_REDACTION_PATTERNS,
   [SettingNames.METRICS_AGGREGATION_INTERVAL_SECONDS]: "60",
   [SettingNames.METRICS_RETENTION_DAYS]: "90",
+  [SettingNames.METRICS_ACCESS_GROUPS]: "",
+  [SettingNames.TRACING_ENABLED]: "false",
+  [SettingNames.TRACING_OTLP_ENDPOINT]: "http://localhost:4318/v1/traces",
+  [SettingNames.TRACING_SERVICE_NAME]: "crude-functions",
+  [SettingNames.ALERTS_SMTP_HOST]: "",
+  [SettingNames.ALERTS_SMTP_PORT]: "587",
+  [SettingNames.ALERTS_SMTP_SECURITY]: "starttls",
+  [SettingNames.ALERTS_SMTP_USERNAME]: "",
+  [SettingNames.ALERTS_SMTP_PASSWORD_SECRET]: "",
+  [SettingNames.ALERTS_SMTP_FROM]: "crude-functions@localhost",
   [SettingNames.ENCRYPTION_KEY_ROTATION_INTERVAL_DAYS]: "90",
   [SettingNames.ENCRYPTION_KEY_ROTATION_BATCH_SIZE]: "100",
   [SettingNames.ENCRYPTION_KEY_ROTATION_BATCH_SLEEP_MS]: "100",
   [SettingNames.API_ACCESS_GROUPS]: "",
+  [SettingNames.API_KEYS_AUTO_DISABLE_UNUSED_DAYS]: "0",
+  [SettingNames.IP_ALLOWLIST]: "",
+  [SettingNames.IP_DENYLIST]: "",
+  [SettingNames.IP_TRUSTED_PROXIES]: "",
   [SettingNames.FILES_MAX_SIZE_BYTES]: "52428800", // 50 MB
   [SettingNames.JOB_PROCESSOR_POLLING_INTERVAL_SECONDS]: "5",
+  [SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS]: "30000", // 30 seconds
+  [SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS]: "86400", // 24 hours
+  [SettingNames.FUNCTION_MAX_INVOKE_DEPTH]: "5",
+  [SettingNames.RATE_LIMIT_PERSIST_COUNTERS]: "false",
   [SettingNames.SERVER_NAME]: "Crude Functions",
 };
 
@@ -68,11 +114,11 @@ export interface SettingMetadata {
   name: SettingName;
   label: string;
   description: string;
-  inputType: "text" | "number" | "select" | "checkboxGroup";
+  inputType: "text" | "number" | "select" | "checkboxGroup" | "patternList" | "ipList" | "url";
   options?: readonly string[];
   min?: number;
   max?: number;
-  category: "General" | "Logging" | "Metrics" | "Encryption" | "Security" | "Jobs";
+  category: "General" | "Logging" | "Metrics" | "Tracing" | "Alerts" | "Encryption" | "Security" | "Jobs" | "Functions";
 }
 
 /**
@@ -133,6 +179,13 @@ export const SettingsMetadata: Record<SettingName, SettingMetadata> = {
     max: 5000,
     category: "Logging",
   },
+  [SettingNames.LOG_REDACTION_PATTERNS]: {
+    name: SettingNames.LOG_REDACTION_PATTERNS,
+    label: "Log Redaction Patterns",
+    description: "Regular expressions (one per line) whose matches are replaced with [REDACTED] in captured logs. Secret values read by a request are always redacted from its logs",
+    inputType: "patternList",
+    category: "Logging",
+  },
   [SettingNames.METRICS_AGGREGATION_INTERVAL_SECONDS]: {
     name: SettingNames.METRICS_AGGREGATION_INTERVAL_SECONDS,
     label: "Metrics Aggregation Interval",
@@ -151,6 +204,80 @@ export const SettingsMetadata: Record<SettingName, SettingMetadata> = {
     max: 365,
     category: "Metrics",
   },
+  [SettingNames.METRICS_ACCESS_GROUPS]: {
+    name: SettingNames.METRICS_ACCESS_GROUPS,
+    label: "Metrics Access Groups",
+    description: "API key groups allowed to scrape the Prometheus /metrics endpoint",
+    inputType: "checkboxGroup",
+    category: "Metrics",
+  },
+  [SettingNames.TRACING_ENABLED]: {
+    name: SettingNames.TRACING_ENABLED,
+    label: "Export Traces",
+    description: "Send an OpenTelemetry span for each function execution (with child spans for ctx.invoke(), secret lookups and outbound fetches) to the OTLP endpoint",
+    inputType: "select",
+    options: ["false", "true"],
+    category: "Tracing",
+  },
+  [SettingNames.TRACING_OTLP_ENDPOINT]: {
+    name: SettingNames.TRACING_OTLP_ENDPOINT,
+    label: "OTLP Endpoint",
+    description: "OTLP/HTTP traces endpoint of the collector (JSON encoding)",
+    inputType: "url",
+    category: "Tracing",
+  },
+  [SettingNames.TRACING_SERVICE_NAME]: {
+    name: SettingNames.TRACING_SERVICE_NAME,
+    label: "Service Name",
+    description: "service.name resource attribute of exported spans",
+    inputType: "text",
+    category: "Tracing",
+  },
+  [SettingNames.ALERTS_SMTP_HOST]: {
+    name: SettingNames.ALERTS_SMTP_HOST,
+    label: "SMTP Host",
+    description: "Mail server for email alert channels (empty = email alerts can't be sent)",
+    inputType: "text",
+    category: "Alerts",
+  },
+  [SettingNames.ALERTS_SMTP_PORT]: {
+    name: SettingNames.ALERTS_SMTP_PORT,
+    label: "SMTP Port",
+    description: "Port of the mail server (usually 587 for STARTTLS, 465 for TLS, 25 without encryption)",
+    inputType: "number",
+    min: 1,
+    max: 65535,
+    category: "Alerts",
+  },
+  [SettingNames.ALERTS_SMTP_SECURITY]: {
+    name: SettingNames.ALERTS_SMTP_SECURITY,
+    label: "SMTP Security",
+    description: "Connection encryption: STARTTLS upgrade, implicit TLS, or none",
+    inputType: "select",
+    options: ["starttls", "tls", "none"],
+    category: "Alerts",
+  },
+  [SettingNames.ALERTS_SMTP_USERNAME]: {
+    name: SettingNames.ALERTS_SMTP_USERNAME,
+    label: "SMTP Username",
+    description: "Username for SMTP authentication (empty = no authentication)",
+    inputType: "text",
+    category: "Alerts",
+  },
+  [SettingNames.ALERTS_SMTP_PASSWORD_SECRET]: {
+    name: SettingNames.ALERTS_SMTP_PASSWORD_SECRET,
+    label: "SMTP Password Secret",
+    description: "Name of the global secret holding the SMTP password",
+    inputType: "text",
+    category: "Alerts",
+  },
+  [SettingNames.ALERTS_SMTP_FROM]: {
+    name: SettingNames.ALERTS_SMTP_FROM,
+    label: "Sender Address",
+    description: "From address of alert emails",
+    inputType: "text",
+    category: "Alerts",
+  },
   [SettingNames.ENCRYPTION_KEY_ROTATION_INTERVAL_DAYS]: {
     name: SettingNames.ENCRYPTION_KEY_ROTATION_INTERVAL_DAYS,
     label: "Key Rotation Interval",
@@ -185,6 +312,36 @@ export const SettingsMetadata: Record<SettingName, SettingMetadata> = {
     inputType: "checkboxGroup",
     category: "Security",
   },
+  [SettingNames.API_KEYS_AUTO_DISABLE_UNUSED_DAYS]: {
+    name: SettingNames.API_KEYS_AUTO_DISABLE_UNUSED_DAYS,
+    label: "Disable Unused API Keys",
+    description: "Disable API keys that haven't been used for this many days (keys never used count from their creation). Checked hourly. Set to 0 to disable.",
+    inputType: "number",
+    min: 0,
+    max: 3650,
+    category: "Security",
+  },
+  [SettingNames.IP_ALLOWLIST]: {
+    name: SettingNames.IP_ALLOWLIST,
+    label: "Allowed Client IPs",
+    description: "Only these addresses and CIDR ranges may call functions, one per line. Leave empty to allow every address.",
+    inputType: "ipList",
+    category: "Security",
+  },
+  [SettingNames.IP_DENYLIST]: {
+    name: SettingNames.IP_DENYLIST,
+    label: "Denied Client IPs",
+    description: "Addresses and CIDR ranges that may not call functions, one per line",
+    inputType: "ipList",
+    category: "Security",
+  },
+  [SettingNames.IP_TRUSTED_PROXIES]: {
+    name: SettingNames.IP_TRUSTED_PROXIES,
+    label: "Trusted Proxies",
+    description: "Reverse proxies in front of the server, one address or CIDR range per line. The client IP of their requests is read from X-Forwarded-For.",
+    inputType: "ipList",
+    category: "Security",
+  },
   [SettingNames.FILES_MAX_SIZE_BYTES]: {
     name: SettingNames.FILES_MAX_SIZE_BYTES,
     label: "Maximum File Size",
@@ -203,6 +360,41 @@ export const SettingsMetadata: Record<SettingName, SettingMetadata> = {
     max: 60,
     category: "Jobs",
   },
+  [SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS]: {
+    name: SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS,
+    label: "Default Handler Timeout",
+    description: "Maximum handler execution time for functions without their own timeout (milliseconds). Set to 0 to disable.",
+    inputType: "number",
+    min: 0,
+    max: 3600000, // 1 hour
+    category: "Functions",
+  },
+  [SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS]: {
+    name: SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS,
+    label: "Async Result Retention",
+    description: "How long responses of asynchronous invocations stay available for polling (seconds)",
+    inputType: "number",
+    min: 60,
+    max: 2592000, // 30 days
+    category: "Functions",
+  },
+  [SettingNames.FUNCTION_MAX_INVOKE_DEPTH]: {
+    name: SettingNames.FUNCTION_MAX_INVOKE_DEPTH,
+    label: "Max Invoke Depth",
+    description: "Maximum nesting of function-to-function calls via ctx.invoke() (a top-level request is depth 0)",
+    inputType: "number",
+    min: 1,
+    max: 32,
+    category: "Functions",
+  },
+  [SettingNames.RATE_LIMIT_PERSIST_COUNTERS]: {
+    name: SettingNames.RATE_LIMIT_PERSIST_COUNTERS,
+    label: "Persist Rate Limit Counters",
+    description: "Store rate limit counters in the database so limits survive restarts (adds a database write per rate-limited request)",
+    inputType: "select",
+    options: ["false", "true"],
+    category: "Functions",
+  },
   [SettingNames.SERVER_NAME]: {
     name: SettingNames.SERVER_NAME,
     label: "Server Name",
@@ -226,10 +418,25 @@ export const SettingsByCategory = {
     SettingNames.LOG_TRIMMING_RETENTION_SECONDS,
     SettingNames.LOG_BATCHING_MAX_BATCH_SIZE,
     SettingNames.LOG_BATCHING_MAX_DELAY_MS,
+    SettingNames.LOG_REDACTION_PATTERNS,
   ],
   Metrics: [
     SettingNames.METRICS_AGGREGATION_INTERVAL_SECONDS,
     SettingNames.METRICS_RETENTION_DAYS,
+    SettingNames.METRICS_ACCESS_GROUPS,
+  ],
+  Tracing: [
+    SettingNames.TRACING_ENABLED,
+    SettingNames.TRACING_OTLP_ENDPOINT,
+    SettingNames.TRACING_SERVICE_NAME,
+  ],
+  Alerts: [
+    SettingNames.ALERTS_SMTP_HOST,
+    SettingNames.ALERTS_SMTP_PORT,
+    SettingNames.ALERTS_SMTP_SECURITY,
+    SettingNames.ALERTS_SMTP_USERNAME,
+    SettingNames.ALERTS_SMTP_PASSWORD_SECRET,
+    SettingNames.ALERTS_SMTP_FROM,
   ],
   Encryption: [
     SettingNames.ENCRYPTION_KEY_ROTATION_INTERVAL_DAYS,
@@ -238,9 +445,19 @@ export const SettingsByCategory = {
   ],
   Security: [
     SettingNames.API_ACCESS_GROUPS,
+    SettingNames.API_KEYS_AUTO_DISABLE_UNUSED_DAYS,
+    SettingNames.IP_ALLOWLIST,
+    SettingNames.IP_DENYLIST,
+    SettingNames.IP_TRUSTED_PROXIES,
     SettingNames.FILES_MAX_SIZE_BYTES,
   ],
   Jobs: [
     SettingNames.JOB_PROCESSOR_POLLING_INTERVAL_SECONDS,
   ],
+  Functions: [
+    SettingNames.FUNCTION_DEFAULT_TIMEOUT_MS,
+    SettingNames.FUNCTION_ASYNC_RESULT_RETENTION_SECONDS,
+    SettingNames.FUNCTION_MAX_INVOKE_DEPTH,
+    SettingNames.RATE_LIMIT_PERSIST_COUNTERS,
+  ],
 } as const;
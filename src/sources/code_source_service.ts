@@ -18,8 +18,13 @@ import type {
   CodeSourceProvider,
   CodeSourceServiceOptions,
   SyncJobPayload,
+  SyncTrigger,
+  GitTypeSettings,
+  SourceDeployment,
 } from "./types.ts";
 import { isCodeSourceType } from "./types.ts";
+import type { FunctionManifestService } from "./function_manifest_service.ts";
+import type { SourceDeploymentService } from "./source_deployment_service.ts";
 import {
   SourceNotFoundError,
   DuplicateSourceError,
@@ -28,6 +33,8 @@ import {
   SourceNotSyncableError,
   WebhookAuthError,
   WebhookDisabledError,
+  DeploymentNotFoundError,
+  RollbackNotAvailableError,
 } from "./errors.ts";
 import { logger } from "../utils/logger.ts";
 
@@ -70,6 +77,8 @@ export class CodeSourceService {
   private readonly jobQueueService: JobQueueService;
   private readonly schedulingService: SchedulingService;
   private readonly codeDirectory: string;
+  private readonly manifestService?: FunctionManifestService;
+  private readonly deploymentService?: SourceDeploymentService;
   private readonly writeMutex = new Mutex();
 
   // Provider registry: type -> provider instance
@@ -81,6 +90,8 @@ export class CodeSourceService {
     this.jobQueueService = options.jobQueueService;
     this.schedulingService = options.schedulingService;
     this.codeDirectory = options.codeDirectory;
+    this.manifestService = options.manifestService;
+    this.deploymentService = options.deploymentService;
   }
 
   // ============== Provider Registration ==============
@@ -387,6 +398,9 @@ export class CodeSourceService {
     // Delete schedule first
     await this.deleteSchedule(id);
 
+    // Functions declared by the source's manifest become regular functions
+    await this.manifestService?.releaseSource(id);
+
     // Delete directory if requested and provider exists
     if (deleteDirectory && this.hasProvider(source.type)) {
       const provider = this.getProvider(source.type);
@@ -760,6 +774,80 @@ export class CodeSourceService {
     return job;
   }
 
+  /**
+   * Get a source's deployment history, newest first.
+   * Empty if no deployment service is configured.
+   *
+   * @param id - Source ID
+   * @param limit - Maximum number of deployments to return
+   */
+  async getDeployments(id: string, limit?: number): Promise<SourceDeployment[]> {
+    return await this.deploymentService?.getBySource(id, limit) ?? [];
+  }
+
+  /**
+   * Roll back a git source to the commit of a previous deployment.
+   * Pins the source to that commit (replacing its branch or tag) and enqueues a sync.
+   * Tracking a branch or tag again means editing the source's settings.
+   *
+   * @param id - Source ID
+   * @param deploymentId - Deployment whose commit to restore
+   * @returns The created job, or null if sync already in progress
+   * @throws {SourceNotFoundError} If source doesn't exist
+   * @throws {DeploymentNotFoundError} If the deployment doesn't belong to the source
+   * @throws {RollbackNotAvailableError} If the source isn't a git source or the deployment has no commit
+   */
+  async rollback(id: string, deploymentId: string): Promise<Job | null> {
+    const source = await this.getById(id);
+    if (!source) {
+      throw new SourceNotFoundError(id);
+    }
+
+    const deployment = await this.deploymentService?.getById(deploymentId);
+    if (!deployment || deployment.sourceId !== id) {
+      throw new DeploymentNotFoundError(deploymentId);
+    }
+
+    if (source.type !== "git") {
+      throw new RollbackNotAvailableError(source.name, "only git sources can be rolled back");
+    }
+    if (!deployment.success || !deployment.newCommit) {
+      throw new RollbackNotAvailableError(source.name, "the deployment has no commit to restore");
+    }
+
+    // Check if sync already in progress
+    if (source.lastSyncStartedAt) {
+      logger.info(
+        `[CodeSource] Sync already in progress for source '${source.name}'`,
+      );
+      return null;
+    }
+
+    // Pin the source to the deployment's commit (branch, tag and commit are mutually exclusive)
+    const { branch: _branch, tag: _tag, ...typeSettings } = source.typeSettings as GitTypeSettings;
+    await this.update(id, {
+      typeSettings: { ...typeSettings, commit: deployment.newCommit },
+    });
+
+    const job = await this.jobQueueService.enqueue({
+      type: "source_sync",
+      payload: {
+        sourceId: id,
+        triggeredBy: "rollback",
+      } as SyncJobPayload,
+      priority: 10, // Same priority as manual syncs
+      referenceType: "code_source",
+      referenceId: id,
+      executionMode: "sequential",
+    });
+
+    logger.info(
+      `[CodeSource] Rolling back source '${source.name}' to commit ${deployment.newCommit.substring(0, 8)} (job: ${job.id})`,
+    );
+
+    return job;
+  }
+
   // ============== Sync Operations (delegates to provider) ==============
 
   /**
@@ -770,13 +858,21 @@ export class CodeSourceService {
    * 1. Look up source and provider
    * 2. Mark sync started
    * 3. Call provider.sync()
-   * 4. Mark sync completed/failed
+   * 4. Reconcile functions with the source's manifest (if a manifest service is configured)
+   * 5. Mark sync completed/failed
+   * 6. Record the deployment (if a deployment service is configured)
+   *
+   * @param triggeredBy - What started the sync (from the job payload)
    *
    * @throws {SourceNotFoundError} If source doesn't exist
    * @throws {SourceNotSyncableError} If source type doesn't support sync
    * @throws {ProviderNotFoundError} If no provider registered for type
    */
-  async syncSource(id: string, token: CancellationToken): Promise<SyncResult> {
+  async syncSource(
+    id: string,
+    token: CancellationToken,
+    triggeredBy?: SyncTrigger,
+  ): Promise<SyncResult> {
     const source = await this.getById(id);
     if (!source) {
       throw new SourceNotFoundError(id);
@@ -799,6 +895,10 @@ export class CodeSourceService {
       token.throwIfCancelled();
       result = await provider.sync(source, token);
 
+      if (result.success && this.manifestService) {
+        result.manifest = await this.manifestService.reconcile(source);
+      }
+
       if (result.success) {
         await this.markSyncCompleted(id);
         logger.info(
@@ -825,6 +925,15 @@ export class CodeSourceService {
       );
     }
 
+    try {
+      await this.deploymentService?.record(id, result, triggeredBy);
+    } catch (error) {
+      // History is best-effort - the sync itself already completed
+      logger.warn(
+        `[CodeSource] Failed to record deployment for source '${source.name}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
     return result;
   }
 
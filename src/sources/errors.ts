@@ -137,3 +137,55 @@ export class GitOperationError extends CodeSourceError {
     this.name = "GitOperationError";
   }
 }
+
+/**
+ * Thrown when a source's function manifest is malformed or references unknown key groups.
+ */
+export class InvalidManifestError extends CodeSourceError {
+  constructor(
+    public readonly sourceName: string,
+    message: string,
+  ) {
+    super(`Invalid function manifest in source '${sourceName}': ${message}`);
+    this.name = "InvalidManifestError";
+  }
+}
+
+/**
+ * Thrown when a manifest declares a function whose name is taken by a function
+ * that the source doesn't manage.
+ */
+export class ManifestConflictError extends CodeSourceError {
+  constructor(
+    public readonly sourceName: string,
+    public readonly functionName: string,
+  ) {
+    super(
+      `Function '${functionName}' declared in the manifest of source '${sourceName}' already exists and is not managed by this source`,
+    );
+    this.name = "ManifestConflictError";
+  }
+}
+
+/**
+ * Thrown when a deployment doesn't exist or belongs to another source.
+ */
+export class DeploymentNotFoundError extends CodeSourceError {
+  constructor(public readonly deploymentId: string) {
+    super(`Deployment '${deploymentId}' not found`);
+    this.name = "DeploymentNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a source can't be rolled back to a deployment.
+ */
+export class RollbackNotAvailableError extends CodeSourceError {
+  constructor(
+    public readonly sourceName: string,
+    reason: string,
+  ) {
+    super(`Cannot roll back source '${sourceName}': ${reason}`);
+    this.name = "RollbackNotAvailableError";
+  }
+}
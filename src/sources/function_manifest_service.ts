@@ -0,0 +1,375 @@
+import { join } from "@std/path";
+import type { ApiKeyService } from "../keys/api_key_service.ts";
+import type {
+  FunctionDefinition,
+  FunctionsService,
+  NewFunctionDefinition,
+} from "../routes/functions_service.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { normalizeRoutePattern } from "../functions/route_helpers.ts";
+import {
+  MAX_TIMEOUT_MS,
+  validateCorsConfig,
+  validateCronSchedulesConfig,
+  validateFunctionName,
+  validateFunctionPath,
+  validateMethods,
+  validateTimeoutMs,
+} from "../validation/routes.ts";
+import type {
+  CodeSource,
+  FunctionManifest,
+  FunctionManifestEntry,
+  ManifestReconcileResult,
+} from "./types.ts";
+import { InvalidManifestError, ManifestConflictError } from "./errors.ts";
+import { logger } from "../utils/logger.ts";
+
+/** Name of the manifest file at the root of a code source */
+export const MANIFEST_FILE_NAME = "crude.json";
+
+/**
+ * Function fields a manifest can't set. They decide how far a handler is
+ * trusted, so they stay with the admins rather than whoever can push to the source.
+ */
+const SECURITY_FIELDS = ["worker", "allowedHosts", "signature", "jwt", "ipAccess"];
+
+export interface FunctionManifestServiceOptions {
+  functionsService: FunctionsService;
+  apiKeyService: ApiKeyService;
+  /** Base code directory (e.g., "./code") */
+  codeDirectory: string;
+}
+
+/**
+ * Service for declarative function manifests.
+ *
+ * A code source can declare its functions in a crude.json file at its root.
+ * After each sync the source's functions are reconciled with the manifest:
+ * new entries are created, changed entries are updated, and functions removed
+ * from the manifest are disabled (not deleted, so their secrets, KV entries and
+ * logs survive an accidental removal).
+ *
+ * Functions created from a manifest record the source's ID in sourceId and are
+ * read-only in the UI and API - the manifest is their source of truth - except for
+ * their security settings (API key groups, worker sandbox, allowed hosts, signatures,
+ * JWT and IP restrictions), which admins own. Manifests can't set security settings,
+ * apart from the key groups of newly created functions; reconciling never changes
+ * the security settings of an existing function, so pushing to a source can't
+ * make a function public.
+ */
+export class FunctionManifestService {
+  private readonly functionsService: FunctionsService;
+  private readonly apiKeyService: ApiKeyService;
+  private readonly codeDirectory: string;
+
+  constructor(options: FunctionManifestServiceOptions) {
+    this.functionsService = options.functionsService;
+    this.apiKeyService = options.apiKeyService;
+    this.codeDirectory = options.codeDirectory;
+  }
+
+  /**
+   * Reconcile a source's functions with its manifest.
+   * A source without a manifest manages no functions.
+   *
+   * @throws {InvalidManifestError} If the manifest is malformed or a route collides with another function
+   * @throws {ManifestConflictError} If a declared name belongs to another function
+   */
+  async reconcile(source: CodeSource): Promise<ManifestReconcileResult> {
+    const sourceId = source.id;
+    const manifest = await this.readManifest(source);
+    const desired = manifest
+      ? await this.toFunctionDefinitions(source, sourceId, manifest)
+      : [];
+
+    // Validate the whole manifest before changing anything
+    const functions = await this.functionsService.getAll();
+    for (const def of desired) {
+      const existing = functions.find((func) => func.name === def.name);
+      if (existing && existing.sourceId !== sourceId) {
+        throw new ManifestConflictError(source.name, def.name);
+      }
+    }
+    this.checkRouteCollisions(source, desired, functions);
+
+    const owned = new Map(
+      (await this.functionsService.getBySourceId(sourceId)).map((func) => [func.name, func]),
+    );
+    const result: ManifestReconcileResult = { created: 0, updated: 0, disabled: 0 };
+
+    for (const def of desired) {
+      const existing = owned.get(def.name);
+      owned.delete(def.name);
+
+      if (!existing) {
+        await this.functionsService.addFunction(def);
+        result.created++;
+        continue;
+      }
+
+      const id = recordIdToString(existing.id);
+      const changed = !definitionsEqual(existing, def);
+      if (changed) {
+        await this.functionsService.updateFunction(id, withSecuritySettings(def, existing));
+      }
+      if (!existing.enabled) {
+        await this.functionsService.setFunctionEnabled(id, true);
+      }
+      if (changed || !existing.enabled) {
+        result.updated++;
+      }
+    }
+
+    // Whatever is left was removed from the manifest
+    for (const func of owned.values()) {
+      if (func.enabled) {
+        await this.functionsService.setFunctionEnabled(recordIdToString(func.id), false);
+        result.disabled++;
+      }
+    }
+
+    if (result.created || result.updated || result.disabled) {
+      logger.info(
+        `[CodeSource] Manifest of source '${source.name}' applied (${result.created} created, ${result.updated} updated, ${result.disabled} disabled)`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Release the functions managed by a source that is being deleted.
+   * They are disabled and become regular, editable functions.
+   */
+  async releaseSource(sourceId: string): Promise<void> {
+    for (const func of await this.functionsService.getBySourceId(sourceId)) {
+      const { id, enabled, sourceId: _sourceId, ...definition } = func;
+      const functionId = recordIdToString(id);
+      await this.functionsService.updateFunction(functionId, definition);
+      if (enabled) {
+        await this.functionsService.setFunctionEnabled(functionId, false);
+      }
+    }
+  }
+
+  // ============== Helper Methods ==============
+
+  /**
+   * Read and parse the manifest.
+   * @returns null if the source has no manifest
+   * @throws {InvalidManifestError} If the file isn't valid JSON
+   */
+  private async readManifest(source: CodeSource): Promise<FunctionManifest | null> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(join(this.codeDirectory, source.name, MANIFEST_FILE_NAME));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new InvalidManifestError(
+        source.name,
+        `not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (
+      typeof parsed !== "object" || parsed === null || Array.isArray(parsed) ||
+      !Array.isArray((parsed as Record<string, unknown>).functions)
+    ) {
+      throw new InvalidManifestError(source.name, "expected an object with a 'functions' array");
+    }
+    return parsed as FunctionManifest;
+  }
+
+  /**
+   * Validate manifest entries and map them to function definitions.
+   * @throws {InvalidManifestError} If an entry is invalid
+   */
+  private async toFunctionDefinitions(
+    source: CodeSource,
+    sourceId: string,
+    manifest: FunctionManifest,
+  ): Promise<NewFunctionDefinition[]> {
+    const definitions: NewFunctionDefinition[] = [];
+    const names = new Set<string>();
+
+    for (const [index, entry] of manifest.functions.entries()) {
+      const invalid = (message: string) =>
+        new InvalidManifestError(source.name, `functions[${index}]: ${message}`);
+
+      if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+        throw invalid("must be an object");
+      }
+      const securityField = SECURITY_FIELDS.find((field) => field in entry);
+      if (securityField) {
+        throw invalid(`'${securityField}' can't be set in a manifest`);
+      }
+      if (typeof entry.name !== "string" || !validateFunctionName(entry.name)) {
+        throw invalid("invalid or missing name");
+      }
+      if (names.has(entry.name)) {
+        throw invalid(`duplicate function name '${entry.name}'`);
+      }
+      names.add(entry.name);
+
+      if (entry.description !== undefined && typeof entry.description !== "string") {
+        throw invalid("description must be a string");
+      }
+      if (typeof entry.routePath !== "string" || !validateFunctionPath(entry.routePath)) {
+        throw invalid("invalid or missing route path");
+      }
+      if (!Array.isArray(entry.methods) || !validateMethods(entry.methods)) {
+        throw invalid("invalid or missing methods");
+      }
+      if (entry.timeoutMs !== undefined && !validateTimeoutMs(entry.timeoutMs)) {
+        throw invalid(`timeoutMs must be an integer between 1 and ${MAX_TIMEOUT_MS}`);
+      }
+
+      let definition: NewFunctionDefinition;
+      try {
+        definition = {
+          name: entry.name,
+          description: entry.description,
+          handler: this.resolveHandler(source, entry),
+          routePath: entry.routePath,
+          methods: entry.methods,
+          keys: await this.resolveKeyGroups(entry),
+          cors: validateCorsConfig(entry.cors),
+          cronSchedules: validateCronSchedulesConfig(entry.cronSchedules, entry.methods),
+          timeoutMs: entry.timeoutMs,
+          sourceId,
+        };
+      } catch (error) {
+        throw invalid(error instanceof Error ? error.message : String(error));
+      }
+      definitions.push(definition);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Check that no two functions would share a method on the same route once the
+   * manifest is applied. The database rejects such collisions too, but only one
+   * write at a time - after earlier entries have already been applied.
+   *
+   * @param functions - All current functions; those not in the manifest keep their
+   *   routes (functions removed from the manifest are only disabled)
+   * @throws {InvalidManifestError} If a route collides
+   */
+  private checkRouteCollisions(
+    source: CodeSource,
+    desired: NewFunctionDefinition[],
+    functions: FunctionDefinition[],
+  ): void {
+    const desiredNames = new Set(desired.map((def) => def.name));
+    const claimed: { name: string; route: string; methods: string[] }[] = functions
+      .filter((func) => !desiredNames.has(func.name))
+      .map((func) => ({ name: func.name, route: normalizeRoutePattern(func.routePath), methods: func.methods }));
+
+    for (const def of desired) {
+      const route = normalizeRoutePattern(def.routePath);
+      for (const other of claimed) {
+        const shared = def.methods.filter((method) => other.methods.includes(method));
+        if (other.route === route && shared.length > 0) {
+          throw new InvalidManifestError(
+            source.name,
+            `route '${def.routePath}' of function '${def.name}' collides with function '${other.name}' (${shared.join(", ")})`,
+          );
+        }
+      }
+      claimed.push({ name: def.name, route, methods: def.methods });
+    }
+  }
+
+  /**
+   * Map a handler path relative to the source root to one relative to the code directory.
+   * @throws Error if the path is missing or escapes the source directory
+   */
+  private resolveHandler(source: CodeSource, entry: FunctionManifestEntry): string {
+    if (typeof entry.handler !== "string" || entry.handler.trim() === "") {
+      throw new Error("invalid or missing handler");
+    }
+    const segments = entry.handler.split("/");
+    if (entry.handler.startsWith("/") || segments.some((s) => s === ".." || s === "")) {
+      throw new Error("handler must be a relative path inside the source");
+    }
+    return `${source.name}/${segments.filter((s) => s !== ".").join("/")}`;
+  }
+
+  /**
+   * Resolve API key group names to group IDs.
+   * @throws Error if a group doesn't exist
+   */
+  private async resolveKeyGroups(entry: FunctionManifestEntry): Promise<string[] | undefined> {
+    if (entry.keys === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(entry.keys)) {
+      throw new Error("keys must be an array of API key group names");
+    }
+
+    const groupIds: string[] = [];
+    for (const name of entry.keys) {
+      const group = typeof name === "string" ? await this.apiKeyService.getGroupByName(name) : null;
+      if (!group) {
+        throw new Error(`unknown API key group '${name}'`);
+      }
+      groupIds.push(recordIdToString(group.id));
+    }
+    return groupIds;
+  }
+}
+
+/**
+ * Compare the manifest-owned fields of a stored function with a manifest definition.
+ * Security settings are left out - they belong to the admins once the function exists.
+ * Method order doesn't matter, and empty optional fields equal absent ones.
+ */
+function definitionsEqual(existing: FunctionDefinition, desired: NewFunctionDefinition): boolean {
+  const canonical = (def: NewFunctionDefinition) =>
+    stableStringify({
+      description: def.description || undefined,
+      handler: def.handler,
+      routePath: normalizeRoutePattern(def.routePath),
+      methods: [...def.methods].sort(),
+      cors: def.cors,
+      cronSchedules: def.cronSchedules?.length ? def.cronSchedules : undefined,
+      timeoutMs: def.timeoutMs,
+    });
+  return canonical(existing) === canonical(desired);
+}
+
+/**
+ * Take a manifest definition with the security settings of the stored function,
+ * so updating a managed function leaves them as the admins set them.
+ */
+function withSecuritySettings(desired: NewFunctionDefinition, existing: FunctionDefinition): NewFunctionDefinition {
+  return {
+    ...desired,
+    keys: existing.keys,
+    worker: existing.worker,
+    allowedHosts: existing.allowedHosts,
+    signature: existing.signature,
+    jwt: existing.jwt,
+    ipAccess: existing.ipAccess,
+  };
+}
+
+/**
+ * JSON.stringify with object keys sorted (the database doesn't preserve key order).
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    typeof val === "object" && val !== null && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).filter(([, v]) => v != null).sort(([a], [b]) => a.localeCompare(b)))
+      : val);
+}
@@ -0,0 +1,209 @@
+import { expect } from "@std/expect";
+import { join } from "@std/path";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { FunctionManifestService, MANIFEST_FILE_NAME } from "./function_manifest_service.ts";
+import { InvalidManifestError, ManifestConflictError } from "./errors.ts";
+import type { FunctionManifest } from "./types.ts";
+
+/**
+ * Create a test context with a manual source named "app" and a manifest service.
+ */
+async function createTestContext() {
+  const ctx = await TestSetupBuilder.create()
+    .withAll()
+    .withApiKeyGroup("api", "API consumers")
+    .build();
+
+  const source = await ctx.codeSourceService.create({ name: "app", type: "manual" });
+  const service = new FunctionManifestService({
+    functionsService: ctx.functionsService,
+    apiKeyService: ctx.apiKeyService,
+    codeDirectory: ctx.codeDir,
+  });
+  const writeManifest = (manifest: FunctionManifest | string) =>
+    Deno.writeTextFile(
+      join(ctx.codeDir, "app", MANIFEST_FILE_NAME),
+      typeof manifest === "string" ? manifest : JSON.stringify(manifest),
+    );
+
+  return { ctx, source, service, writeManifest };
+}
+
+integrationTest("FunctionManifestService creates, updates and disables functions", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await writeManifest({
+      functions: [
+        { name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"], keys: ["api"] },
+        { name: "bye", handler: "./handlers/bye.ts", routePath: "/bye", methods: ["POST"] },
+      ],
+    });
+
+    expect(await service.reconcile(source)).toEqual({ created: 2, updated: 0, disabled: 0 });
+
+    const hello = await ctx.functionsService.getByName("hello");
+    const group = await ctx.apiKeyService.getGroupByName("api");
+    expect(hello?.handler).toBe("app/hello.ts");
+    expect(hello?.keys).toEqual([recordIdToString(group!.id)]);
+    expect(hello?.sourceId).toBe(source.id);
+    expect((await ctx.functionsService.getByName("bye"))?.handler).toBe("app/handlers/bye.ts");
+
+    // Unchanged manifest is a no-op
+    expect(await service.reconcile(source)).toEqual({ created: 0, updated: 0, disabled: 0 });
+
+    // Changed entry is updated, removed entry is disabled
+    await writeManifest({
+      functions: [
+        { name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET", "POST"], keys: ["api"] },
+      ],
+    });
+    expect(await service.reconcile(source)).toEqual({ created: 0, updated: 1, disabled: 1 });
+    expect((await ctx.functionsService.getByName("hello"))?.methods.sort()).toEqual(["GET", "POST"]);
+    expect((await ctx.functionsService.getByName("bye"))?.enabled).toBe(false);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionManifestService rejects names owned by other functions", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await ctx.functionsService.addFunction({
+      name: "hello",
+      handler: "hello.ts",
+      routePath: "/manual-hello",
+      methods: ["GET"],
+    });
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"] }],
+    });
+
+    await expect(service.reconcile(source)).rejects.toThrow(ManifestConflictError);
+    expect((await ctx.functionsService.getByName("hello"))?.sourceId).toBeUndefined();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionManifestService rejects route collisions before changing anything", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await ctx.functionsService.addFunction({
+      name: "manual",
+      handler: "manual.ts",
+      routePath: "/users/:id",
+      methods: ["GET"],
+    });
+
+    // The first entry is fine on its own - it mustn't be created when a later one collides
+    await writeManifest({
+      functions: [
+        { name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"] },
+        { name: "user", handler: "user.ts", routePath: "/users/:userId", methods: ["GET", "PUT"] },
+      ],
+    });
+    await expect(service.reconcile(source)).rejects.toThrow("collides with function 'manual' (GET)");
+
+    await writeManifest({
+      functions: [
+        { name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"] },
+        { name: "hello-again", handler: "hello.ts", routePath: "/hello", methods: ["GET", "POST"] },
+      ],
+    });
+    await expect(service.reconcile(source)).rejects.toThrow(InvalidManifestError);
+
+    expect((await ctx.functionsService.getAll()).map((func) => func.name)).toEqual(["manual"]);
+
+    // Other methods on the same route are fine
+    await writeManifest({
+      functions: [{ name: "user", handler: "user.ts", routePath: "/users/:userId", methods: ["PUT"] }],
+    });
+    expect(await service.reconcile(source)).toEqual({ created: 1, updated: 0, disabled: 0 });
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionManifestService rejects invalid manifests", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await writeManifest("{ not json");
+    await expect(service.reconcile(source)).rejects.toThrow(InvalidManifestError);
+
+    await writeManifest({
+      functions: [{ name: "escape", handler: "../other/secret.ts", routePath: "/escape", methods: ["GET"] }],
+    });
+    await expect(service.reconcile(source)).rejects.toThrow(InvalidManifestError);
+
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"], keys: ["missing"] }],
+    });
+    await expect(service.reconcile(source)).rejects.toThrow(InvalidManifestError);
+
+    // Security settings stay with the admins
+    await writeManifest(JSON.stringify({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"], worker: { net: ["*"] } }],
+    }));
+    await expect(service.reconcile(source)).rejects.toThrow("'worker' can't be set in a manifest");
+
+    expect(await ctx.functionsService.getAll()).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionManifestService keeps the security settings of existing functions", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"], keys: ["api"] }],
+    });
+    await service.reconcile(source);
+
+    const hello = await ctx.functionsService.getByName("hello");
+    const helloId = recordIdToString(hello!.id);
+    await ctx.functionsService.updateSecuritySettings(helloId, {
+      keys: hello!.keys,
+      allowedHosts: ["api.example.com"],
+    });
+
+    // Dropping the key groups doesn't make the function public
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"] }],
+    });
+    expect(await service.reconcile(source)).toEqual({ created: 0, updated: 0, disabled: 0 });
+
+    // Other changes are applied without touching the security settings
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET", "POST"] }],
+    });
+    expect(await service.reconcile(source)).toEqual({ created: 0, updated: 1, disabled: 0 });
+
+    const updated = await ctx.functionsService.getByName("hello");
+    expect(updated?.methods.sort()).toEqual(["GET", "POST"]);
+    expect(updated?.keys).toEqual(hello!.keys);
+    expect(updated?.allowedHosts).toEqual(["api.example.com"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("FunctionManifestService releases functions of a deleted source", async () => {
+  const { ctx, source, service, writeManifest } = await createTestContext();
+  try {
+    await writeManifest({
+      functions: [{ name: "hello", handler: "hello.ts", routePath: "/hello", methods: ["GET"] }],
+    });
+    await service.reconcile(source);
+
+    await service.releaseSource(source.id);
+
+    const hello = await ctx.functionsService.getByName("hello");
+    expect(hello?.sourceId).toBeUndefined();
+    expect(hello?.enabled).toBe(false);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -499,6 +499,7 @@ export class GitCodeSourceProvider implements CodeSourceProvider {
       return {
         success: true,
         filesChanged: await this.countFiles(dirPath),
+        newCommit: (await this.resolveHead(dirPath)) ?? undefined,
         durationMs,
       };
     } catch (error) {
@@ -529,16 +530,7 @@ export class GitCodeSourceProvider implements CodeSourceProvider {
     const targetRef = this.getTargetRef(settings);
 
     // Get current HEAD before fetch
-    let oldHead = "";
-    try {
-      oldHead = await git.resolveRef({
-        fs: denoFs,
-        dir: dirPath,
-        ref: "HEAD",
-      });
-    } catch {
-      // Ignore if we can't get HEAD
-    }
+    const oldHead = await this.resolveHead(dirPath);
 
     token.throwIfCancelled();
 
@@ -600,31 +592,41 @@ export class GitCodeSourceProvider implements CodeSourceProvider {
     await this.cleanUntrackedFiles(dirPath);
 
     // Get new HEAD
-    let newHead = "";
-    try {
-      newHead = await git.resolveRef({
-        fs: denoFs,
-        dir: dirPath,
-        ref: "HEAD",
-      });
-    } catch {
-      // Ignore if we can't get HEAD
-    }
+    const newHead = await this.resolveHead(dirPath);
 
-    // Count changed files if heads differ
-    let filesChanged = 0;
+    // List changed files if heads differ
+    let changedFiles: string[] = [];
     if (oldHead && newHead && oldHead !== newHead) {
-      filesChanged = await this.countChangedFiles(dirPath, oldHead, newHead);
+      changedFiles = await this.listChangedFiles(dirPath, oldHead, newHead);
     }
 
     const durationMs = Date.now() - startTime;
     return {
       success: true,
-      filesChanged,
+      filesChanged: changedFiles.length,
+      changedFiles,
+      oldCommit: oldHead ?? undefined,
+      newCommit: newHead ?? undefined,
       durationMs,
     };
   }
 
+  /**
+   * Resolve the commit checked out in a repository.
+   * @returns The commit SHA, or null if HEAD can't be resolved
+   */
+  private async resolveHead(dirPath: string): Promise<string | null> {
+    try {
+      return await git.resolveRef({
+        fs: denoFs,
+        dir: dirPath,
+        ref: "HEAD",
+      });
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Clean untracked files from the working directory.
    * isomorphic-git doesn't have a clean command, so we implement it manually.
@@ -676,13 +678,13 @@ export class GitCodeSourceProvider implements CodeSourceProvider {
   }
 
   /**
-   * Count changed files between two commits using tree walking.
+   * List files changed between two commits using tree walking.
    */
-  private async countChangedFiles(
+  private async listChangedFiles(
     dirPath: string,
     oldHead: string,
     newHead: string,
-  ): Promise<number> {
+  ): Promise<string[]> {
     try {
       const changedFiles = new Set<string>();
 
@@ -700,17 +702,25 @@ export class GitCodeSourceProvider implements CodeSourceProvider {
           const oldOid = oldEntry ? await oldEntry.oid() : null;
           const newOid = newEntry ? await newEntry.oid() : null;
 
-          if (oldOid !== newOid) {
+          // Unchanged file or subtree - returning null skips its children
+          if (oldOid === newOid) {
+            return null;
+          }
+
+          // Changed directories are descended into, only files are listed
+          const isFile = (oldEntry && (await oldEntry.type()) === "blob") ||
+            (newEntry && (await newEntry.type()) === "blob");
+          if (isFile) {
             changedFiles.add(filepath);
           }
 
-          return null;
+          return undefined;
         },
       });
 
-      return changedFiles.size;
+      return [...changedFiles].sort();
     } catch {
-      return 0;
+      return [];
     }
   }
 }
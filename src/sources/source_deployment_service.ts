@@ -0,0 +1,130 @@
+import { RecordId } from "surrealdb";
+import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
+import { recordIdToString, toDate } from "../database/surreal_helpers.ts";
+import type {
+  SourceDeployment,
+  SourceDeploymentRow,
+  SyncResult,
+  SyncTrigger,
+} from "./types.ts";
+
+/** Maximum number of changed file paths stored per deployment */
+export const MAX_DEPLOYMENT_CHANGED_FILES = 500;
+
+/** Number of deployments kept per source (older ones are deleted) */
+export const MAX_DEPLOYMENTS_PER_SOURCE = 100;
+
+export interface SourceDeploymentServiceOptions {
+  surrealFactory: SurrealConnectionFactory;
+}
+
+/**
+ * Service for the deployment history of code sources.
+ *
+ * Every sync is recorded with its trigger, result and (for git sources) the
+ * commits before and after it. Records are deleted with their source, and
+ * only the latest MAX_DEPLOYMENTS_PER_SOURCE are kept per source.
+ *
+ * ID Handling: Deployments and sources are identified by their string IDs.
+ */
+export class SourceDeploymentService {
+  private readonly surrealFactory: SurrealConnectionFactory;
+
+  constructor(options: SourceDeploymentServiceOptions) {
+    this.surrealFactory = options.surrealFactory;
+  }
+
+  /**
+   * Record a finished sync.
+   */
+  async record(
+    sourceId: string,
+    result: SyncResult,
+    triggeredBy?: SyncTrigger,
+  ): Promise<SourceDeployment> {
+    const sourceRecordId = new RecordId("codeSource", sourceId);
+    const changedFiles = (result.changedFiles ?? []).slice(0, MAX_DEPLOYMENT_CHANGED_FILES);
+
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [created] = await db.query<[SourceDeploymentRow[]]>(
+        `CREATE sourceDeployment SET
+          sourceId = $sourceId,
+          triggeredBy = $triggeredBy,
+          success = $success,
+          error = $error,
+          oldCommit = $oldCommit,
+          newCommit = $newCommit,
+          filesChanged = $filesChanged,
+          changedFiles = $changedFiles,
+          durationMs = $durationMs`,
+        {
+          sourceId: sourceRecordId,
+          triggeredBy,
+          success: result.success,
+          error: result.error,
+          oldCommit: result.oldCommit,
+          newCommit: result.newCommit,
+          filesChanged: result.filesChanged ?? changedFiles.length,
+          changedFiles,
+          durationMs: Math.round(result.durationMs),
+        },
+      );
+
+      // Keep only the latest deployments of the source
+      await db.query(
+        `DELETE sourceDeployment WHERE sourceId = $sourceId AND id NOT IN (
+          SELECT id, createdAt FROM sourceDeployment WHERE sourceId = $sourceId
+            ORDER BY createdAt DESC LIMIT $keep
+        ).id`,
+        { sourceId: sourceRecordId, keep: MAX_DEPLOYMENTS_PER_SOURCE },
+      );
+
+      return this.rowToDeployment(created[0]);
+    });
+  }
+
+  /**
+   * Get a source's deployments, newest first.
+   */
+  async getBySource(sourceId: string, limit = MAX_DEPLOYMENTS_PER_SOURCE): Promise<SourceDeployment[]> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[SourceDeploymentRow[]]>(
+        `SELECT * FROM sourceDeployment WHERE sourceId = $sourceId ORDER BY createdAt DESC LIMIT $limit`,
+        { sourceId: new RecordId("codeSource", sourceId), limit },
+      );
+      return (rows ?? []).map((row) => this.rowToDeployment(row));
+    });
+  }
+
+  /**
+   * Get a deployment by ID.
+   * @returns null if the deployment doesn't exist
+   */
+  async getById(id: string): Promise<SourceDeployment | null> {
+    return await this.surrealFactory.withSystemConnection({}, async (db) => {
+      const [rows] = await db.query<[SourceDeploymentRow[]]>(
+        `SELECT * FROM $id`,
+        { id: new RecordId("sourceDeployment", id) },
+      );
+      return rows?.[0] ? this.rowToDeployment(rows[0]) : null;
+    });
+  }
+
+  // ============== Helper Methods ==============
+
+  private rowToDeployment(row: SourceDeploymentRow): SourceDeployment {
+    return {
+      id: recordIdToString(row.id),
+      sourceId: recordIdToString(row.sourceId),
+      triggeredBy: row.triggeredBy,
+      success: row.success,
+      error: row.error,
+      oldCommit: row.oldCommit,
+      newCommit: row.newCommit,
+      filesChanged: row.filesChanged,
+      changedFiles: row.changedFiles ?? [],
+      durationMs: row.durationMs,
+      createdAt: toDate(row.createdAt),
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { expect } from "@std/expect";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { integrationTest } from "../test/test_helpers.ts";
+import { CodeSourceService } from "./code_source_service.ts";
+import { SourceDeploymentService } from "./source_deployment_service.ts";
+import { DeploymentNotFoundError, RollbackNotAvailableError } from "./errors.ts";
+import type {
+  CodeSourceProvider,
+  GitTypeSettings,
+  SyncResult,
+  TypeSettings,
+} from "./types.ts";
+import type { CancellationToken } from "../jobs/types.ts";
+
+const mockToken: CancellationToken = {
+  isCancelled: false,
+  whenCancelled: new Promise<void>(() => {}), // Never resolves
+  throwIfCancelled: () => {},
+};
+
+/**
+ * Create a git provider whose syncs return the queued results in order.
+ */
+function createScriptedGitProvider(results: SyncResult[]): CodeSourceProvider {
+  return {
+    type: "git",
+    getCapabilities: () => ({ isSyncable: true, isEditable: false }),
+    encryptSensitiveFields: (settings: TypeSettings) => Promise.resolve(settings),
+    decryptSensitiveFields: (settings: TypeSettings) => Promise.resolve(settings),
+    sync: () => Promise.resolve(results.shift() ?? { success: true, filesChanged: 0, durationMs: 1 }),
+    ensureDirectory: () => Promise.resolve(),
+    deleteDirectory: () => Promise.resolve(),
+    directoryExists: () => Promise.resolve(true),
+  };
+}
+
+/**
+ * Create a code source service that records deployments, with one git source.
+ */
+async function createTestContext(results: SyncResult[]) {
+  const ctx = await TestSetupBuilder.create().withCodeSources().build();
+  const deploymentService = new SourceDeploymentService({ surrealFactory: ctx.surrealFactory });
+  const codeSourceService = new CodeSourceService({
+    surrealFactory: ctx.surrealFactory,
+    encryptionService: ctx.encryptionService,
+    jobQueueService: ctx.jobQueueService,
+    schedulingService: ctx.schedulingService,
+    codeDirectory: ctx.codeDir,
+    deploymentService,
+  });
+  codeSourceService.registerProvider(createScriptedGitProvider(results));
+
+  const source = await codeSourceService.create({
+    name: "repo",
+    type: "git",
+    typeSettings: { url: "https://github.com/user/repo.git", branch: "main" },
+  });
+  return { ctx, codeSourceService, deploymentService, source };
+}
+
+integrationTest("CodeSourceService.syncSource records deployments", async () => {
+  const { ctx, codeSourceService, source } = await createTestContext([
+    { success: true, filesChanged: 3, newCommit: "aaaa1111", durationMs: 10 },
+    {
+      success: true,
+      filesChanged: 1,
+      changedFiles: ["api/hello.ts"],
+      oldCommit: "aaaa1111",
+      newCommit: "bbbb2222",
+      durationMs: 5,
+    },
+    { success: false, error: "fetch failed", durationMs: 2 },
+  ]);
+  try {
+    await codeSourceService.syncSource(source.id, mockToken, "manual");
+    await codeSourceService.syncSource(source.id, mockToken, "webhook");
+    await codeSourceService.syncSource(source.id, mockToken, "interval");
+
+    const deployments = await codeSourceService.getDeployments(source.id);
+    expect(deployments.map((d) => [d.triggeredBy, d.success, d.newCommit])).toEqual([
+      ["interval", false, undefined],
+      ["webhook", true, "bbbb2222"],
+      ["manual", true, "aaaa1111"],
+    ]);
+    expect(deployments[0].error).toBe("fetch failed");
+    expect(deployments[1].oldCommit).toBe("aaaa1111");
+    expect(deployments[1].changedFiles).toEqual(["api/hello.ts"]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("CodeSourceService.rollback pins the source and enqueues a sync", async () => {
+  const { ctx, codeSourceService, source } = await createTestContext([
+    { success: true, filesChanged: 3, newCommit: "aaaa1111", durationMs: 10 },
+    { success: true, filesChanged: 1, oldCommit: "aaaa1111", newCommit: "bbbb2222", durationMs: 5 },
+  ]);
+  try {
+    await codeSourceService.syncSource(source.id, mockToken, "manual");
+    await codeSourceService.syncSource(source.id, mockToken, "manual");
+    const [, first] = await codeSourceService.getDeployments(source.id);
+
+    const job = await codeSourceService.rollback(source.id, first.id);
+    expect(job?.payload).toEqual({ sourceId: source.id, triggeredBy: "rollback" });
+
+    const settings = (await codeSourceService.getById(source.id))!.typeSettings as GitTypeSettings;
+    expect(settings.commit).toBe("aaaa1111");
+    expect(settings.branch).toBeUndefined();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("CodeSourceService.rollback rejects unknown and failed deployments", async () => {
+  const { ctx, codeSourceService, source } = await createTestContext([
+    { success: false, error: "fetch failed", durationMs: 2 },
+  ]);
+  try {
+    await codeSourceService.syncSource(source.id, mockToken, "manual");
+    const [failed] = await codeSourceService.getDeployments(source.id);
+
+    await expect(codeSourceService.rollback(source.id, "missing"))
+      .rejects.toThrow(DeploymentNotFoundError);
+    await expect(codeSourceService.rollback(source.id, failed.id))
+      .rejects.toThrow(RollbackNotAvailableError);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("SourceDeploymentService deletes history with the source", async () => {
+  const { ctx, codeSourceService, deploymentService, source } = await createTestContext([]);
+  try {
+    await codeSourceService.syncSource(source.id, mockToken, "manual");
+    expect(await deploymentService.getBySource(source.id)).toHaveLength(1);
+
+    await codeSourceService.delete(source.id);
+
+    expect(await deploymentService.getBySource(source.id)).toEqual([]);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -1,10 +1,12 @@
 import { Hono } from "@hono/hono";
 import { CodeSourceService } from "./code_source_service.ts";
 import {
+  DeploymentNotFoundError,
   DuplicateSourceError,
   InvalidSourceConfigError,
   SourceNotFoundError,
   SourceNotSyncableError,
+  RollbackNotAvailableError,
   WebhookAuthError,
   WebhookDisabledError,
 } from "./errors.ts";
@@ -13,6 +15,7 @@ import type {
   CodeSourceType,
   GitTypeSettings,
   NewCodeSource,
+  SourceDeployment,
   SyncSettings,
   TypeSettings,
   UpdateCodeSource,
@@ -69,6 +72,24 @@ function sourceToResponse(source: CodeSource) {
   };
 }
 
+/**
+ * Transform SourceDeployment to API response format.
+ */
+function deploymentToResponse(deployment: SourceDeployment) {
+  return {
+    id: deployment.id,
+    triggeredBy: deployment.triggeredBy ?? null,
+    success: deployment.success,
+    error: deployment.error ?? null,
+    oldCommit: deployment.oldCommit ?? null,
+    newCommit: deployment.newCommit ?? null,
+    filesChanged: deployment.filesChanged,
+    changedFiles: deployment.changedFiles,
+    durationMs: deployment.durationMs,
+    createdAt: deployment.createdAt.toISOString(),
+  };
+}
+
 /**
  * Create the webhook route for code sources.
  * This is exported separately because webhook endpoints require no auth
@@ -313,6 +334,41 @@ export function createSourceRoutes(options: SourceRoutesOptions): Hono {
     }
   });
 
+  // GET /api/sources/:id/deployments - Deployment history (newest first)
+  routes.get("/:id/deployments", async (c) => {
+    const id = c.req.param("id");
+
+    const source = await codeSourceService.getById(id);
+    if (!source) {
+      return c.json({ error: "Source not found" }, 404);
+    }
+
+    const deployments = await codeSourceService.getDeployments(id);
+    return c.json({ deployments: deployments.map(deploymentToResponse) });
+  });
+
+  // POST /api/sources/:id/deployments/:deploymentId/rollback - Pin to a deployment's commit and re-sync
+  routes.post("/:id/deployments/:deploymentId/rollback", async (c) => {
+    const id = c.req.param("id");
+    const deploymentId = c.req.param("deploymentId");
+
+    try {
+      const job = await codeSourceService.rollback(id, deploymentId);
+      if (job === null) {
+        return c.json({ message: "Sync already in progress" }, 409);
+      }
+      return c.json({ message: "Rollback triggered", jobId: job.id });
+    } catch (error) {
+      if (error instanceof SourceNotFoundError || error instanceof DeploymentNotFoundError) {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error instanceof RollbackNotAvailableError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  });
+
   // GET /api/sources/:id/status - Get sync status
   routes.get("/:id/status", async (c) => {
     const id = c.req.param("id");
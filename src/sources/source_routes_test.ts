@@ -453,6 +453,139 @@ integrationTest("GET /api/sources/:id/status returns correct capabilities for gi
   }
 });
 
+// =============================================================================
+// Deployments and Rollback
+// =============================================================================
+
+integrationTest("GET /api/sources/:id/deployments lists deployments newest first", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const source = await ctx.codeSourceService.create({
+      name: "test-deployments",
+      type: "git",
+      typeSettings: { url: "https://github.com/octocat/Hello-World.git", branch: "master" },
+    });
+    await ctx.sourceDeploymentService.record(
+      source.id,
+      { success: true, filesChanged: 3, newCommit: "aaaa1111", durationMs: 10 },
+      "manual",
+    );
+    await ctx.sourceDeploymentService.record(
+      source.id,
+      { success: false, error: "fetch failed", durationMs: 2 },
+      "webhook",
+    );
+
+    const res = await app.request(`/api/sources/${source.id}/deployments`);
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.deployments).toHaveLength(2);
+    expect(body.deployments[0].triggeredBy).toBe("webhook");
+    expect(body.deployments[0].success).toBe(false);
+    expect(body.deployments[0].error).toBe("fetch failed");
+    expect(body.deployments[1].triggeredBy).toBe("manual");
+    expect(body.deployments[1].newCommit).toBe("aaaa1111");
+    expect(body.deployments[1].filesChanged).toBe(3);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("GET /api/sources/:id/deployments returns 404 for non-existent source", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const res = await app.request("/api/sources/nonexistent-id/deployments");
+    expect(res.status).toBe(404);
+
+    const body = await res.json();
+    expect(body.error).toContain("not found");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/sources/:id/deployments/:deploymentId/rollback pins the commit", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const source = await ctx.codeSourceService.create({
+      name: "test-rollback",
+      type: "git",
+      typeSettings: { url: "https://github.com/octocat/Hello-World.git", branch: "master" },
+    });
+    const deployment = await ctx.sourceDeploymentService.record(
+      source.id,
+      { success: true, filesChanged: 3, newCommit: "aaaa1111", durationMs: 10 },
+      "manual",
+    );
+
+    const res = await app.request(
+      `/api/sources/${source.id}/deployments/${deployment.id}/rollback`,
+      { method: "POST" },
+    );
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.message).toBe("Rollback triggered");
+    expect(body.jobId).toBeDefined();
+
+    // Source is pinned to the deployment's commit instead of the branch
+    const getRes = await app.request(`/api/sources/${source.id}`);
+    const updated = await getRes.json();
+    expect(updated.typeSettings.commit).toBe("aaaa1111");
+    expect(updated.typeSettings.branch).toBeUndefined();
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/sources/:id/deployments/:deploymentId/rollback returns 404 for unknown deployment", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const source = await ctx.codeSourceService.create({
+      name: "test-rollback-unknown",
+      type: "git",
+      typeSettings: { url: "https://github.com/octocat/Hello-World.git", branch: "master" },
+    });
+
+    const res = await app.request(
+      `/api/sources/${source.id}/deployments/nonexistent-id/rollback`,
+      { method: "POST" },
+    );
+    expect(res.status).toBe(404);
+
+    const body = await res.json();
+    expect(body.error).toContain("not found");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("POST /api/sources/:id/deployments/:deploymentId/rollback returns 400 for manual source", async () => {
+  const { app, ctx } = await createTestApp();
+  try {
+    const source = await ctx.codeSourceService.create({
+      name: "test-rollback-manual",
+      type: "manual",
+    });
+    const deployment = await ctx.sourceDeploymentService.record(
+      source.id,
+      { success: true, filesChanged: 1, newCommit: "aaaa1111", durationMs: 1 },
+    );
+
+    const res = await app.request(
+      `/api/sources/${source.id}/deployments/${deployment.id}/rollback`,
+      { method: "POST" },
+    );
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error).toContain("only git sources");
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
 // =============================================================================
 // Webhook Operations
 // =============================================================================
@@ -3,7 +3,10 @@ import type { JobQueueService } from "../jobs/job_queue_service.ts";
 import type { SchedulingService } from "../scheduling/scheduling_service.ts";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import type { CancellationToken } from "../jobs/types.ts";
+import type { FunctionManifestService } from "./function_manifest_service.ts";
+import type { SourceDeploymentService } from "./source_deployment_service.ts";
 import type { RecordId } from "surrealdb";
+import type { CorsConfig, CronScheduleConfig } from "../functions/types.ts";
 
 // ============================================================================
 // Source Types
@@ -176,8 +179,22 @@ export interface SyncResult {
   error?: string;
   /** Duration in milliseconds */
   durationMs: number;
+  /** Commit checked out before the sync (git sources, not set for the initial clone) */
+  oldCommit?: string;
+  /** Commit checked out after the sync (git sources) */
+  newCommit?: string;
+  /** Paths of files added/updated/deleted (may be capped, see filesChanged for the count) */
+  changedFiles?: string[];
+  /** Changes applied from the source's function manifest (if manifests are enabled) */
+  manifest?: ManifestReconcileResult;
 }
 
+/**
+ * What started a sync.
+ * "rollback" syncs pin the source to a previous deployment's commit.
+ */
+export type SyncTrigger = "manual" | "interval" | "webhook" | "rollback";
+
 /**
  * Payload for source_sync jobs.
  */
@@ -185,7 +202,96 @@ export interface SyncJobPayload {
   /** Source ID to sync (same as source name) */
   sourceId: string;
   /** What triggered this sync */
-  triggeredBy?: "manual" | "interval" | "webhook";
+  triggeredBy?: SyncTrigger;
+}
+
+// ============================================================================
+// Deployment Types
+// ============================================================================
+
+/**
+ * A recorded sync of a code source.
+ */
+export interface SourceDeployment {
+  /** Deployment ID (string part of the sourceDeployment RecordId) */
+  id: string;
+  /** Source ID */
+  sourceId: string;
+  /** What triggered the sync (undefined for syncs run without a trigger) */
+  triggeredBy?: SyncTrigger;
+  success: boolean;
+  error?: string;
+  /** Commit before the sync (undefined for the initial clone and non-git sources) */
+  oldCommit?: string;
+  /** Commit after the sync (undefined for failed syncs and non-git sources) */
+  newCommit?: string;
+  /** Number of changed files */
+  filesChanged: number;
+  /** Paths of changed files (capped at MAX_DEPLOYMENT_CHANGED_FILES) */
+  changedFiles: string[];
+  durationMs: number;
+  createdAt: Date;
+}
+
+/**
+ * Database row for sourceDeployment.
+ */
+export interface SourceDeploymentRow {
+  id: RecordId<"sourceDeployment">;
+  sourceId: RecordId<"codeSource">;
+  triggeredBy?: SyncTrigger;
+  success: boolean;
+  error?: string;
+  oldCommit?: string;
+  newCommit?: string;
+  filesChanged: number;
+  changedFiles: string[];
+  durationMs: number;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Function Manifest Types
+// ============================================================================
+
+/**
+ * A function declared in a source's crude.json manifest.
+ * Mirrors FunctionDefinition, except that the handler path is relative to the
+ * source root, key groups are referenced by name and security settings
+ * (worker, allowedHosts, signature, jwt, ipAccess) can't be set.
+ */
+export interface FunctionManifestEntry {
+  name: string;
+  description?: string;
+  /** Handler file relative to the source root (e.g., "api/hello.ts") */
+  handler: string;
+  /** URL path pattern (e.g., "/users/:id") */
+  routePath: string;
+  methods: string[];
+  /** Names of the API key groups required for access */
+  keys?: string[];
+  cors?: CorsConfig;
+  cronSchedules?: CronScheduleConfig[];
+  timeoutMs?: number;
+}
+
+/**
+ * Parsed crude.json manifest.
+ */
+export interface FunctionManifest {
+  functions: FunctionManifestEntry[];
+}
+
+/**
+ * Changes applied when reconciling a source's functions with its manifest.
+ */
+export interface ManifestReconcileResult {
+  /** Functions created from new manifest entries */
+  created: number;
+  /** Functions updated (or re-enabled) to match their manifest entry */
+  updated: number;
+  /** Functions disabled because they were removed from the manifest */
+  disabled: number;
 }
 
 // ============================================================================
@@ -331,4 +437,8 @@ export interface CodeSourceServiceOptions {
   jobQueueService: JobQueueService;
   schedulingService: SchedulingService;
   codeDirectory: string;
+  /** Optional - when provided, crude.json manifests are reconciled after each successful sync */
+  manifestService?: FunctionManifestService;
+  /** Optional - when provided, every sync is recorded in the deployment history (enables rollback) */
+  deploymentService?: SourceDeploymentService;
 }
@@ -31,6 +31,7 @@ import { SchedulingService } from "../scheduling/scheduling_service.ts";
 import { CodeSourceService } from "../sources/code_source_service.ts";
 import { ManualCodeSourceProvider } from "../sources/manual_code_source_provider.ts";
 import { GitCodeSourceProvider } from "../sources/git_code_source_provider.ts";
+import { SourceDeploymentService } from "../sources/source_deployment_service.ts";
 import { createAuth } from "../auth/auth.ts";
 import type { EncryptionKeyFile } from "../encryption/key_storage_types.ts";
 import type { betterAuth } from "better-auth";
@@ -480,10 +481,20 @@ export function createSchedulingService(
 // Code Source Factory
 // =============================================================================
 
+/**
+ * Creates the SourceDeploymentService.
+ * Requires SurrealDB connection factory.
+ */
+export function createSourceDeploymentService(
+  surrealFactory: SurrealConnectionFactory
+): SourceDeploymentService {
+  return new SourceDeploymentService({ surrealFactory });
+}
+
 /**
  * Creates the CodeSourceService with providers registered.
  * Requires SurrealDB connection factory, encryption service, job queue service,
- * scheduling service, and code directory.
+ * scheduling service, code directory, and deployment service.
  */
 export function createCodeSourceService(
   surrealFactory: SurrealConnectionFactory,
@@ -491,6 +502,7 @@ export function createCodeSourceService(
   jobQueueService: JobQueueService,
   schedulingService: SchedulingService,
   codeDir: string,
+  deploymentService: SourceDeploymentService,
 ): CodeSourceService {
   const service = new CodeSourceService({
     surrealFactory,
@@ -498,6 +510,7 @@ export function createCodeSourceService(
     jobQueueService,
     schedulingService,
     codeDirectory: codeDir,
+    deploymentService,
   });
 
   // Register providers (manual and git)
@@ -144,9 +144,11 @@ import {
   createInstanceIdService,
   createJobQueueService,
   createSchedulingService,
+  createSourceDeploymentService,
   createCodeSourceService,
   createCleanupFunction,
 } from "./service_factories.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
 
 /**
  * Builder for creating isolated test environments with real migrations.
@@ -834,6 +836,7 @@ export class TestSetupBuilder<TContext extends BaseTestContext = BaseTestContext
     if (this.flags.functionsService) {
       // Pass secretsService for cascade delete of function-scoped secrets
       context.functionsService = createFunctionsService(surrealFactory, context.secretsService);
+      context.functionIds = {};
 
       // Create deferred functions
       for (const { path, fileName, options } of this.deferredFunctions) {
@@ -853,7 +856,7 @@ export class TestSetupBuilder<TContext extends BaseTestContext = BaseTestContext
           });
         }
 
-        await context.functionsService.addFunction({
+        const created = await context.functionsService.addFunction({
           name: options?.name ?? fileName.replace(/\.ts$/, ""),
           description: options?.description,
           handler: fileName,
@@ -861,7 +864,14 @@ export class TestSetupBuilder<TContext extends BaseTestContext = BaseTestContext
           methods: options?.methods ?? ["GET"],
           keys: resolvedKeys,
           cors: options?.cors,
+          timeoutMs: options?.timeoutMs,
+          worker: options?.worker,
+          allowedHosts: options?.allowedHosts,
+          signature: options?.signature,
+          jwt: options?.jwt,
+          ipAccess: options?.ipAccess,
         });
+        context.functionIds[created.name] = recordIdToString(created.id);
       }
     }
 
@@ -981,12 +991,14 @@ export class TestSetupBuilder<TContext extends BaseTestContext = BaseTestContext
 
     // STEP 14: Create code source service if needed
     if (this.flags.codeSourceService) {
+      context.sourceDeploymentService = createSourceDeploymentService(surrealFactory);
       context.codeSourceService = createCodeSourceService(
         surrealFactory,
         context.encryptionService,
         context.jobQueueService,
         context.schedulingService,
         codeDir,
+        context.sourceDeploymentService,
       );
     }
 
@@ -5,6 +5,7 @@
 import { expect } from "@std/expect";
 import { TestSetupBuilder } from "./test_setup_builder.ts";
 import { integrationTest } from "./test_helpers.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
 import type { FullTestContext } from "./types.ts";
 
 integrationTest("TestSetupBuilder creates basic context with all services", async () => {
@@ -86,6 +87,7 @@ integrationTest("TestSetupBuilder.withFunction creates function", async () => {
     expect(functions[0].handler).toBe("test.ts");
     expect(functions[0].methods).toContain("GET");
     expect(functions[0].methods).toContain("POST");
+    expect(ctx.functionIds.test).toBe(recordIdToString(functions[0].id));
   } finally {
     await ctx.cleanup();
   }
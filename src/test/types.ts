@@ -47,9 +47,10 @@ import type { JobQueueService } from "../jobs/job_queue_service.ts";
 import type { JobStatus, ExecutionMode } from "../jobs/types.ts";
 import type { SchedulingService } from "../scheduling/scheduling_service.ts";
 import type { CodeSourceService } from "../sources/code_source_service.ts";
+import type { SourceDeploymentService } from "../sources/source_deployment_service.ts";
 import type { betterAuth } from "better-auth";
 import type { SettingName } from "../settings/types.ts";
-import type { CorsConfig } from "../functions/types.ts";
+import type { CorsConfig, IpAccessConfig, JwtAuthConfig, SignatureConfig, WorkerPermissions } from "../functions/types.ts";
 
 // =============================================================================
 // Base Context (Always Present)
@@ -165,6 +166,8 @@ export interface MetricsContext {
 export interface FunctionsContext {
   /** Functions service instance */
   functionsService: FunctionsService;
+  /** String IDs of the functions created with withFunction(), keyed by function name */
+  functionIds: Record<string, string>;
 }
 
 /**
@@ -246,6 +249,8 @@ export interface SchedulingContext extends JobQueueContext {
 export interface CodeSourcesContext extends SchedulingContext, EncryptionContext {
   /** Code source service instance */
   codeSourceService: CodeSourceService;
+  /** Deployment history service used by the code source service */
+  sourceDeploymentService: SourceDeploymentService;
 }
 
 
@@ -298,6 +303,18 @@ export interface FunctionOptions {
   keys?: string[];
   /** CORS configuration for the function (optional) */
   cors?: CorsConfig;
+  /** Handler timeout in milliseconds (optional, defaults to the global setting) */
+  timeoutMs?: number;
+  /** Worker permission set (optional). When present, the handler runs in an isolated worker */
+  worker?: WorkerPermissions;
+  /** Hosts the handler may call via fetch() (optional, defaults to every host) */
+  allowedHosts?: string[];
+  /** HMAC signature verification (optional). When present, HTTP requests must be signed */
+  signature?: SignatureConfig;
+  /** JWT bearer token authentication (optional). When present, requests may authenticate with a JWT */
+  jwt?: JwtAuthConfig;
+  /** Client IP restrictions (optional, defaults to every address) */
+  ipAccess?: IpAccessConfig;
 }
 
 /**
@@ -359,7 +376,7 @@ export interface DeferredSetting {
 export interface DeferredConsoleLog {
   requestId: string;
   functionId: string;  // SurrealDB RecordId string of functionDef
-  level: "log" | "debug" | "info" | "warn" | "error" | "trace" | "stdout" | "stderr" | "exec_start" | "exec_end" | "exec_reject";
+  level: "log" | "debug" | "info" | "warn" | "error" | "trace" | "stdout" | "stderr" | "exec_start" | "exec_end" | "exec_reject" | "outbound";
   message: string;
   args?: string; // JSON-serialized additional arguments
 }
@@ -0,0 +1,78 @@
+/**
+ * OTLP/HTTP JSON encoding of spans (ExportTraceServiceRequest).
+ * See https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+import type { FinishedSpan, SpanAttributes, SpanKind, SpanStatus } from "./types.ts";
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODES: Record<SpanStatus, number> = { unset: 0, ok: 1, error: 2 };
+
+/** Resource and instrumentation scope of exported spans */
+export interface OtlpResource {
+  serviceName: string;
+  serviceVersion: string;
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * Convert milliseconds since the epoch to a nanosecond timestamp string
+ * (nanoseconds exceed Number.MAX_SAFE_INTEGER).
+ */
+export function toUnixNano(ms: number): string {
+  const wholeMs = Math.floor(ms);
+  const fractionNs = Math.round((ms - wholeMs) * 1_000_000);
+  return (BigInt(wholeMs) * 1_000_000n + BigInt(fractionNs)).toString();
+}
+
+function encodeAttributes(attributes: SpanAttributes): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === "boolean") return { key, value: { boolValue: value } };
+    if (typeof value === "number") {
+      return Number.isInteger(value)
+        ? { key, value: { intValue: String(value) } }
+        : { key, value: { doubleValue: value } };
+    }
+    return { key, value: { stringValue: value } };
+  });
+}
+
+/**
+ * Encode spans as an OTLP/HTTP JSON export request body.
+ */
+export function encodeSpans(spans: FinishedSpan[], resource: OtlpResource): string {
+  return JSON.stringify({
+    resourceSpans: [{
+      resource: {
+        attributes: encodeAttributes({
+          "service.name": resource.serviceName,
+          "service.version": resource.serviceVersion,
+        }),
+      },
+      scopeSpans: [{
+        scope: { name: "crude-functions", version: resource.serviceVersion },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId,
+          name: span.name,
+          kind: SPAN_KIND_CODES[span.kind],
+          startTimeUnixNano: toUnixNano(span.startTimeMs),
+          endTimeUnixNano: toUnixNano(span.endTimeMs),
+          attributes: encodeAttributes(span.attributes),
+          status: { code: STATUS_CODES[span.status], message: span.statusMessage },
+        })),
+      }],
+    }],
+  });
+}
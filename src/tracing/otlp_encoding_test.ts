@@ -0,0 +1,41 @@
+import { expect } from "@std/expect";
+import { encodeSpans, toUnixNano } from "./otlp_encoding.ts";
+
+Deno.test("toUnixNano keeps sub-millisecond precision beyond safe integers", () => {
+  expect(toUnixNano(1767225600000)).toBe("1767225600000000000");
+  expect(toUnixNano(1767225600000.25)).toBe("1767225600000250000");
+});
+
+Deno.test("encodeSpans produces an OTLP/HTTP JSON export request", () => {
+  const body = JSON.parse(encodeSpans([{
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    parentSpanId: "b7ad6b7169203331",
+    name: "GET /users",
+    kind: "server",
+    startTimeMs: 1767225600000,
+    endTimeMs: 1767225600012.5,
+    attributes: { "http.route": "/users", "http.response.status_code": 500, "crude.secret.found": false, ratio: 0.5 },
+    status: "error",
+    statusMessage: "boom",
+  }], { serviceName: "crude-test", serviceVersion: "dev" }));
+
+  const resource = body.resourceSpans[0].resource;
+  expect(resource.attributes).toContainEqual({ key: "service.name", value: { stringValue: "crude-test" } });
+
+  const span = body.resourceSpans[0].scopeSpans[0].spans[0];
+  expect(span).toMatchObject({
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    parentSpanId: "b7ad6b7169203331",
+    kind: 2,
+    startTimeUnixNano: "1767225600000000000",
+    endTimeUnixNano: "1767225600012500000",
+    status: { code: 2, message: "boom" },
+  });
+  expect(span.attributes).toEqual([
+    { key: "http.route", value: { stringValue: "/users" } },
+    { key: "http.response.status_code", value: { intValue: "500" } },
+    { key: "crude.secret.found", value: { boolValue: false } },
+    { key: "ratio", value: { doubleValue: 0.5 } },
+  ]);
+});
@@ -0,0 +1,128 @@
+import { formatTraceparent, generateSpanId } from "./trace_context.ts";
+import type { FinishedSpan, SpanAttributes, SpanAttributeValue, SpanKind, SpanStatus } from "./types.ts";
+
+export interface SpanOptions {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  parentSpanId?: string;
+  attributes?: SpanAttributes;
+  /** Milliseconds since the Unix epoch (default: now) */
+  startTimeMs?: number;
+  /** Receives the span when it ends (queues it for export) */
+  onEnd: (span: FinishedSpan) => void;
+}
+
+/** Options of a child span */
+export type ChildSpanOptions = Pick<SpanOptions, "kind" | "attributes" | "startTimeMs">;
+
+/** Current time in milliseconds since the Unix epoch, with sub-millisecond precision */
+export function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * A timed operation within a trace.
+ *
+ * Spans are created by TracingService.startSpan() (or startChild() of a parent
+ * span) and queued for export when end() is called. Ending a span twice has
+ * no effect.
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  private readonly startTimeMs: number;
+  private readonly attributes: SpanAttributes;
+  private readonly onEnd: (span: FinishedSpan) => void;
+  private status: SpanStatus = "unset";
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(options: SpanOptions) {
+    this.traceId = options.traceId;
+    this.spanId = generateSpanId();
+    this.parentSpanId = options.parentSpanId;
+    this.name = options.name;
+    this.kind = options.kind;
+    this.startTimeMs = options.startTimeMs ?? nowMs();
+    this.attributes = { ...options.attributes };
+    this.onEnd = options.onEnd;
+  }
+
+  /** W3C traceparent header value identifying this span */
+  get traceparent(): string {
+    return formatTraceparent(this.traceId, this.spanId);
+  }
+
+  /**
+   * Start a span for an operation within this span.
+   */
+  startChild(name: string, options: ChildSpanOptions = { kind: "internal" }): Span {
+    return new Span({
+      ...options,
+      name,
+      traceId: this.traceId,
+      parentSpanId: this.spanId,
+      onEnd: this.onEnd,
+    });
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+  }
+
+  /**
+   * Mark the operation as failed.
+   */
+  setError(message: string): void {
+    this.status = "error";
+    this.statusMessage = message;
+  }
+
+  /**
+   * End the span and queue it for export.
+   */
+  end(endTimeMs: number = nowMs()): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.onEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: Math.max(endTimeMs, this.startTimeMs),
+      attributes: { ...this.attributes },
+      status: this.status,
+      statusMessage: this.statusMessage,
+    });
+  }
+}
+
+/**
+ * Run an operation in a child span of `parent`, recording thrown errors.
+ * Runs the operation untraced when there is no parent (tracing disabled).
+ */
+export async function withChildSpan<T>(
+  parent: Span | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span | undefined) => Promise<T>,
+): Promise<T> {
+  const span = parent?.startChild(name, { kind: "internal", attributes });
+  try {
+    return await fn(span);
+  } catch (error) {
+    span?.setError(error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    span?.end();
+  }
+}
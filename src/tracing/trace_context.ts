@@ -0,0 +1,51 @@
+import type { TraceParent } from "./types.ts";
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Generate a random 16-byte trace ID (32 hex characters) */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/** Generate a random 8-byte span ID (16 hex characters) */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Parse a W3C traceparent header ("00-<trace-id>-<parent-id>-<flags>").
+ *
+ * Versions other than 00 are accepted as long as the first four fields are
+ * valid, as the Trace Context spec requires for forward compatibility.
+ *
+ * @returns The remote parent, or null if the header is missing or invalid
+ */
+export function parseTraceparent(header: string | null | undefined): TraceParent | null {
+  if (!header) return null;
+
+  const value = header.trim().toLowerCase();
+  // Future versions may append fields after the flags
+  const match = value.slice(0, 55).match(TRACEPARENT_PATTERN);
+  if (!match) return null;
+
+  const [, version, traceId, spanId, flags] = match;
+  if (version === "ff" || (version === "00" && value.length !== 55)) return null;
+  if (value.length > 55 && value[55] !== "-") return null;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 0x01) === 1 };
+}
+
+/**
+ * Format a W3C traceparent header for a span.
+ */
+export function formatTraceparent(traceId: string, spanId: string, sampled = true): string {
+  return `00-${traceId}-${spanId}-${sampled ? "01" : "00"}`;
+}
@@ -0,0 +1,30 @@
+import { expect } from "@std/expect";
+import { formatTraceparent, generateSpanId, generateTraceId, parseTraceparent } from "./trace_context.ts";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+Deno.test("parseTraceparent reads trace ID, parent span ID and sampled flag", () => {
+  expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: true });
+  expect(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-00`)?.sampled).toBe(false);
+  // Future versions may append fields
+  expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+});
+
+Deno.test("parseTraceparent rejects malformed headers and all-zero IDs", () => {
+  expect(parseTraceparent(undefined)).toBeNull();
+  expect(parseTraceparent("not-a-traceparent")).toBeNull();
+  expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+  expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+  expect(parseTraceparent(`00-${"0".repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+  expect(parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`)).toBeNull();
+});
+
+Deno.test("formatTraceparent round-trips generated IDs", () => {
+  const traceId = generateTraceId();
+  const spanId = generateSpanId();
+
+  expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+  expect(spanId).toMatch(/^[0-9a-f]{16}$/);
+  expect(parseTraceparent(formatTraceparent(traceId, spanId))).toEqual({ traceId, spanId, sampled: true });
+});
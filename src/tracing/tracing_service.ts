@@ -0,0 +1,192 @@
+import type { SettingsService } from "../settings/settings_service.ts";
+import { GlobalSettingDefaults, SettingNames } from "../settings/types.ts";
+import { APP_VERSION } from "../version.ts";
+import { logger } from "../utils/logger.ts";
+import { encodeSpans } from "./otlp_encoding.ts";
+import { Span } from "./span.ts";
+import { generateTraceId } from "./trace_context.ts";
+import type { FinishedSpan, SpanAttributes, SpanKind, TraceParent } from "./types.ts";
+
+/** Spans kept in memory between exports - spans beyond this are dropped */
+export const MAX_QUEUED_SPANS = 2048;
+/** Spans sent per export request */
+export const MAX_EXPORT_BATCH_SIZE = 512;
+
+export interface TracingServiceOptions {
+  settingsService: SettingsService;
+  /** How often queued spans are exported and settings refreshed (default: 5000ms) */
+  exportIntervalMs?: number;
+  /** fetch used to send export requests (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+export interface StartSpanOptions {
+  kind: SpanKind;
+  /** Parent span, or the remote parent of an incoming traceparent header (null = new trace) */
+  parent?: Span | TraceParent | null;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Creates spans for function executions and exports them to an OTLP/HTTP
+ * collector in batches.
+ *
+ * Finished spans are queued in memory and sent by a timer, so exporting never
+ * happens inside a request (where the fetch interceptor would track it as the
+ * handler's outbound call). When the queue is full, new spans are dropped.
+ *
+ * startSpan() returns undefined while tracing is disabled, so callers create
+ * child spans with optional chaining.
+ */
+export class TracingService {
+  private readonly settingsService: SettingsService;
+  private readonly exportIntervalMs: number;
+  private readonly fetchFn: typeof fetch;
+  private timerId: number | null = null;
+  private queue: FinishedSpan[] = [];
+  private droppedSpans = 0;
+  private isExporting = false;
+
+  // Settings (refreshed by the export timer)
+  private enabled = GlobalSettingDefaults[SettingNames.TRACING_ENABLED] === "true";
+  private endpoint = GlobalSettingDefaults[SettingNames.TRACING_OTLP_ENDPOINT];
+  private serviceName = GlobalSettingDefaults[SettingNames.TRACING_SERVICE_NAME];
+
+  constructor(options: TracingServiceOptions) {
+    this.settingsService = options.settingsService;
+    this.exportIntervalMs = options.exportIntervalMs ?? 5000;
+    this.fetchFn = options.fetchFn ?? ((input, init) => fetch(input, init));
+  }
+
+  /** Whether spans are currently recorded */
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Load settings and start the export timer.
+   */
+  async start(): Promise<void> {
+    if (this.timerId !== null) {
+      return; // Already running
+    }
+
+    await this.refreshSettings();
+    this.timerId = setInterval(async () => {
+      await this.flush();
+      await this.refreshSettings();
+    }, this.exportIntervalMs);
+  }
+
+  /**
+   * Stop the export timer and export the remaining spans.
+   */
+  async stop(): Promise<void> {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Start a span.
+   * A span without a parent starts a new trace.
+   *
+   * @returns The span, or undefined if tracing is disabled
+   */
+  startSpan(name: string, options: StartSpanOptions): Span | undefined {
+    if (!this.enabled) return undefined;
+
+    const parent = options.parent;
+    if (parent instanceof Span) {
+      return parent.startChild(name, { kind: options.kind, attributes: options.attributes });
+    }
+
+    return new Span({
+      name,
+      kind: options.kind,
+      traceId: parent?.traceId ?? generateTraceId(),
+      parentSpanId: parent?.spanId,
+      attributes: options.attributes,
+      onEnd: (span) => this.enqueue(span),
+    });
+  }
+
+  private enqueue(span: FinishedSpan): void {
+    if (this.queue.length >= MAX_QUEUED_SPANS) {
+      this.droppedSpans++;
+      return;
+    }
+    this.queue.push(span);
+  }
+
+  /**
+   * Export all queued spans.
+   * Failed batches are dropped - traces are best-effort.
+   */
+  async flush(): Promise<void> {
+    // Prevent concurrent exports
+    if (this.isExporting) return;
+
+    // Atomically swap queue
+    const toExport = this.queue;
+    this.queue = [];
+
+    if (this.droppedSpans > 0) {
+      logger.warn(`[Tracing] Dropped ${this.droppedSpans} spans (export queue full)`);
+      this.droppedSpans = 0;
+    }
+    if (toExport.length === 0) return;
+
+    this.isExporting = true;
+    try {
+      for (let i = 0; i < toExport.length; i += MAX_EXPORT_BATCH_SIZE) {
+        await this.exportBatch(toExport.slice(i, i + MAX_EXPORT_BATCH_SIZE));
+      }
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
+  private async exportBatch(spans: FinishedSpan[]): Promise<void> {
+    try {
+      const response = await this.fetchFn(this.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: encodeSpans(spans, { serviceName: this.serviceName, serviceVersion: APP_VERSION }),
+        signal: AbortSignal.timeout(10000),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        logger.warn(`[Tracing] Export of ${spans.length} spans to ${this.endpoint} failed with HTTP ${response.status}`);
+      }
+    } catch (error) {
+      logger.warn(`[Tracing] Export of ${spans.length} spans to ${this.endpoint} failed:`, error);
+    }
+  }
+
+  /**
+   * Load tracing settings from the database.
+   */
+  async refreshSettings(): Promise<void> {
+    try {
+      const enabledStr = await this.settingsService.getGlobalSetting(SettingNames.TRACING_ENABLED);
+      if (enabledStr !== undefined) {
+        this.enabled = enabledStr === "true";
+      }
+
+      const endpointStr = await this.settingsService.getGlobalSetting(SettingNames.TRACING_OTLP_ENDPOINT);
+      if (endpointStr) {
+        this.endpoint = endpointStr;
+      }
+
+      const serviceNameStr = await this.settingsService.getGlobalSetting(SettingNames.TRACING_SERVICE_NAME);
+      if (serviceNameStr) {
+        this.serviceName = serviceNameStr;
+      }
+    } catch (error) {
+      logger.error("[Tracing] Failed to refresh settings:", error);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { expect } from "@std/expect";
+import { integrationTest } from "../test/test_helpers.ts";
+import { TestSetupBuilder } from "../test/test_setup_builder.ts";
+import { SettingNames } from "../settings/types.ts";
+import { MAX_QUEUED_SPANS, TracingService } from "./tracing_service.ts";
+
+interface ExportRequest {
+  resourceSpans: {
+    resource: { attributes: { key: string; value: Record<string, unknown> }[] };
+    scopeSpans: { spans: { traceId: string; spanId: string; parentSpanId?: string; name: string }[] }[];
+  }[];
+}
+
+/** Collects export requests instead of sending them */
+function createExportRecorder() {
+  const requests: { url: string; body: ExportRequest }[] = [];
+  const fetchFn = ((input: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(input), body: JSON.parse(init!.body as string) });
+    return Promise.resolve(new Response(null, { status: 200 }));
+  }) as typeof fetch;
+  return { requests, fetchFn };
+}
+
+integrationTest("TracingService records no spans while disabled", async () => {
+  const ctx = await TestSetupBuilder.create().withSettings().build();
+
+  try {
+    const recorder = createExportRecorder();
+    const tracing = new TracingService({ settingsService: ctx.settingsService, fetchFn: recorder.fetchFn });
+    await tracing.refreshSettings();
+
+    expect(tracing.isEnabled).toBe(false);
+    expect(tracing.startSpan("GET /hello", { kind: "server" })).toBeUndefined();
+    await tracing.flush();
+    expect(recorder.requests.length).toBe(0);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("TracingService exports spans with their parent to the configured endpoint", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSetting(SettingNames.TRACING_ENABLED, "true")
+    .withSetting(SettingNames.TRACING_OTLP_ENDPOINT, "http://collector.test:4318/v1/traces")
+    .withSetting(SettingNames.TRACING_SERVICE_NAME, "crude-test")
+    .build();
+
+  try {
+    const recorder = createExportRecorder();
+    const tracing = new TracingService({ settingsService: ctx.settingsService, fetchFn: recorder.fetchFn });
+    await tracing.refreshSettings();
+
+    const span = tracing.startSpan("GET /hello", {
+      kind: "server",
+      parent: { traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7", sampled: true },
+      attributes: { "http.route": "/hello" },
+    })!;
+    span.startChild("secret lookup").end();
+    span.end();
+    await tracing.flush();
+
+    expect(recorder.requests.length).toBe(1);
+    expect(recorder.requests[0].url).toBe("http://collector.test:4318/v1/traces");
+    const resourceSpans = recorder.requests[0].body.resourceSpans[0];
+    expect(resourceSpans.resource.attributes).toContainEqual({ key: "service.name", value: { stringValue: "crude-test" } });
+
+    const [child, server] = resourceSpans.scopeSpans[0].spans;
+    expect(server.traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(server.parentSpanId).toBe("00f067aa0ba902b7");
+    expect(child.traceId).toBe(server.traceId);
+    expect(child.parentSpanId).toBe(server.spanId);
+  } finally {
+    await ctx.cleanup();
+  }
+});
+
+integrationTest("TracingService drops spans when the export queue is full", async () => {
+  const ctx = await TestSetupBuilder.create()
+    .withSetting(SettingNames.TRACING_ENABLED, "true")
+    .build();
+
+  try {
+    const recorder = createExportRecorder();
+    const tracing = new TracingService({ settingsService: ctx.settingsService, fetchFn: recorder.fetchFn });
+    await tracing.refreshSettings();
+
+    for (let i = 0; i < MAX_QUEUED_SPANS + 10; i++) {
+      tracing.startSpan(`span ${i}`, { kind: "internal" })!.end();
+    }
+    await tracing.flush();
+
+    const exported = recorder.requests.reduce(
+      (total, request) => total + request.body.resourceSpans[0].scopeSpans[0].spans.length,
+      0,
+    );
+    expect(exported).toBe(MAX_QUEUED_SPANS);
+    expect(recorder.requests.length).toBeGreaterThan(1);
+  } finally {
+    await ctx.cleanup();
+  }
+});
@@ -0,0 +1,41 @@
+/** Attribute values of a span (OTLP AnyValue scalars) */
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Role of a span in a trace:
+ * - server: handles a request from outside (HTTP and async invocations)
+ * - client: calls another service (outbound fetch)
+ * - internal: work within the server (ctx.invoke, secret lookups)
+ */
+export type SpanKind = "server" | "client" | "internal";
+
+/** Outcome of a span - unset unless the operation failed or completed */
+export type SpanStatus = "unset" | "ok" | "error";
+
+/** Remote parent of a trace, parsed from a W3C traceparent header */
+export interface TraceParent {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Whether the caller sampled the trace */
+  sampled: boolean;
+}
+
+/** A completed span, queued for export */
+export interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** Milliseconds since the Unix epoch (with sub-millisecond fraction) */
+  startTimeMs: number;
+  /** Milliseconds since the Unix epoch (with sub-millisecond fraction) */
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+}
@@ -2,6 +2,21 @@
  * Validation utilities for function definitions.
  */
 
+import type {
+  CorsConfig,
+  CronScheduleConfig,
+  IpAccessConfig,
+  JwtAlgorithm,
+  JwtAuthConfig,
+  JwtClaimValue,
+  SignatureAlgorithm,
+  SignatureConfig,
+  SignatureEncoding,
+  WorkerPermissions,
+} from "../functions/types.ts";
+import { isValidCronExpression, isValidTimezone } from "../scheduling/cron.ts";
+import { isValidIpRange } from "../functions/ip_access.ts";
+
 const VALID_METHODS = [
   "GET",
   "POST",
@@ -12,6 +27,32 @@ const VALID_METHODS = [
   "OPTIONS",
 ];
 
+/** Maximum per-function handler timeout (1 hour) */
+export const MAX_TIMEOUT_MS = 3600000;
+
+/** HMAC algorithms accepted for request signatures */
+export const SIGNATURE_ALGORITHMS: readonly SignatureAlgorithm[] = ["sha1", "sha256", "sha512"];
+
+/** Encodings accepted for request signatures */
+export const SIGNATURE_ENCODINGS: readonly SignatureEncoding[] = ["hex", "base64"];
+
+/** Maximum allowed clock difference of signed requests (1 day) */
+export const MAX_SIGNATURE_TOLERANCE_SECONDS = 86400;
+
+// HTTP header names (RFC 9110 token characters)
+const HEADER_NAME_REGEX = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+/** JWS algorithms accepted for JWT bearer tokens */
+export const JWT_ALGORITHMS: readonly JwtAlgorithm[] = [
+  "RS256", "RS384", "RS512",
+  "PS256", "PS384", "PS512",
+  "ES256", "ES384", "ES512",
+  "EdDSA",
+];
+
+/** Maximum allowed clock difference for JWT exp/nbf checks (1 hour) */
+export const MAX_JWT_CLOCK_TOLERANCE_SECONDS = 3600;
+
 /**
  * Validates that a function name is non-empty
  */
@@ -36,9 +77,580 @@ export function validateMethods(methods: string[]): boolean {
   return methods.every((m) => VALID_METHODS.includes(m));
 }
 
+/**
+ * Validates that a handler timeout is a whole number of milliseconds within range
+ */
+export function validateTimeoutMs(timeoutMs: number): boolean {
+  return Number.isInteger(timeoutMs) && timeoutMs > 0 && timeoutMs <= MAX_TIMEOUT_MS;
+}
+
 /**
  * Get list of valid HTTP methods
  */
 export function getValidMethods(): string[] {
   return [...VALID_METHODS];
 }
+
+/**
+ * Validates cron schedule configuration for a function.
+ * Returns an error message, or null if valid.
+ */
+export function validateCronSchedules(
+  schedules: CronScheduleConfig[],
+  methods: string[],
+): string | null {
+  for (const [index, schedule] of schedules.entries()) {
+    const label = `Cron schedule ${index + 1}`;
+    if (!schedule.expression || !isValidCronExpression(schedule.expression)) {
+      return `${label}: invalid cron expression '${schedule.expression ?? ""}'`;
+    }
+    if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+      return `${label}: unknown timezone '${schedule.timezone}'`;
+    }
+    if (schedule.method !== undefined && !methods.includes(schedule.method)) {
+      return `${label}: method '${schedule.method}' is not one of the function's methods`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the permission set of a worker-isolated function.
+ * Returns an error message, or null if valid.
+ */
+export function validateWorkerPermissions(permissions: WorkerPermissions): string | null {
+  for (const host of permissions.net ?? []) {
+    if (!/^[A-Za-z0-9.\-\[\]:]+$/.test(host)) {
+      return `Worker net entry '${host}' must be a hostname or IP with an optional port (no scheme or path)`;
+    }
+  }
+  for (const [kind, paths] of [["read", permissions.read], ["write", permissions.write]] as const) {
+    for (const path of paths ?? []) {
+      if (path.trim().length === 0) {
+        return `Worker ${kind} paths must be non-empty`;
+      }
+    }
+  }
+  for (const name of permissions.env ?? []) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      return `Worker env entry '${name}' is not a valid environment variable name`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the hosts a function may call via fetch().
+ * Returns an error message, or null if valid.
+ */
+export function validateAllowedHosts(hosts: string[]): string | null {
+  for (const host of hosts) {
+    if (!/^(?:(?:\*\.)?[A-Za-z0-9.\-]+|\[[0-9A-Fa-f:.]+\])(?::\d{1,5})?$/.test(host)) {
+      return `Allowed host '${host}' must be a hostname or IP with an optional port and an optional *. prefix (no scheme or path)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates a list of IPv4/IPv6 addresses and CIDR ranges.
+ * Returns an error message, or null if valid.
+ */
+export function validateIpRanges(ranges: string[]): string | null {
+  for (const range of ranges) {
+    if (!isValidIpRange(range)) {
+      return `'${range}' is not an IP address or CIDR range (e.g. 203.0.113.7, 10.0.0.0/8 or 2001:db8::/32)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates client IP restrictions of a function or an API key group.
+ * Returns an error message, or null if valid.
+ */
+export function validateIpAccess(ipAccess: IpAccessConfig): string | null {
+  const allowError = validateIpRanges(ipAccess.allow ?? []);
+  if (allowError) {
+    return `Allowed IPs: ${allowError}`;
+  }
+  const denyError = validateIpRanges(ipAccess.deny ?? []);
+  if (denyError) {
+    return `Denied IPs: ${denyError}`;
+  }
+  return null;
+}
+
+/**
+ * Validates the request signature settings of a function.
+ * Returns an error message, or null if valid.
+ */
+export function validateSignature(signature: SignatureConfig): string | null {
+  if (!HEADER_NAME_REGEX.test(signature.header)) {
+    return `Signature header '${signature.header}' is not a valid header name`;
+  }
+  if (!signature.secret.trim()) {
+    return "Signature secret name is required";
+  }
+  if (signature.algorithm !== undefined && !SIGNATURE_ALGORITHMS.includes(signature.algorithm)) {
+    return `Signature algorithm must be one of: ${SIGNATURE_ALGORITHMS.join(", ")}`;
+  }
+  if (signature.encoding !== undefined && !SIGNATURE_ENCODINGS.includes(signature.encoding)) {
+    return `Signature encoding must be one of: ${SIGNATURE_ENCODINGS.join(", ")}`;
+  }
+
+  const payload = signature.payload ?? "{body}";
+  if (payload.split("{body}").length !== 2) {
+    return "Signature payload must contain {body} exactly once";
+  }
+  const signsTimestamp = payload.includes("{timestamp}");
+  if (signature.timestampHeader !== undefined) {
+    if (!HEADER_NAME_REGEX.test(signature.timestampHeader)) {
+      return `Signature timestamp header '${signature.timestampHeader}' is not a valid header name`;
+    }
+    // An unsigned timestamp could be replaced by an attacker
+    if (!signsTimestamp) {
+      return "Signature payload must contain {timestamp} when a timestamp header is set";
+    }
+  } else if (signsTimestamp) {
+    return "Signature timestamp header is required when the payload contains {timestamp}";
+  }
+
+  if (
+    signature.toleranceSeconds !== undefined &&
+    (!Number.isInteger(signature.toleranceSeconds) || signature.toleranceSeconds <= 0 ||
+      signature.toleranceSeconds > MAX_SIGNATURE_TOLERANCE_SECONDS)
+  ) {
+    return `Signature tolerance must be a whole number of seconds between 1 and ${MAX_SIGNATURE_TOLERANCE_SECONDS}`;
+  }
+  return null;
+}
+
+/**
+ * Validates the JWT authentication settings of a function.
+ * Returns an error message, or null if valid.
+ */
+export function validateJwt(jwt: JwtAuthConfig): string | null {
+  if (!jwt.issuer.trim()) {
+    return "JWT issuer is required";
+  }
+  if (jwt.audience !== undefined && !jwt.audience.trim()) {
+    return "JWT audience must not be empty";
+  }
+
+  if ((jwt.jwksUrl === undefined) === (jwt.publicKey === undefined)) {
+    return "JWT authentication needs either a JWKS URL or a public key";
+  }
+  if (jwt.jwksUrl !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(jwt.jwksUrl);
+    } catch {
+      return `JWKS URL '${jwt.jwksUrl}' is not a valid URL`;
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "JWKS URL must use http or https";
+    }
+  }
+  if (jwt.publicKey !== undefined && !isPublicKeySyntax(jwt.publicKey)) {
+    return "JWT public key must be a PEM public key (BEGIN PUBLIC KEY), a JWK or a JWK set";
+  }
+
+  if (jwt.algorithms !== undefined) {
+    if (jwt.algorithms.length === 0) {
+      return "JWT algorithms must not be empty";
+    }
+    for (const algorithm of jwt.algorithms) {
+      if (!JWT_ALGORITHMS.includes(algorithm)) {
+        return `JWT algorithm '${algorithm}' is not supported (use ${JWT_ALGORITHMS.join(", ")})`;
+      }
+    }
+  }
+
+  for (const [name, value] of Object.entries(jwt.requiredClaims ?? {})) {
+    if (!name) {
+      return "Required JWT claim names must not be empty";
+    }
+    if (!["string", "number", "boolean"].includes(typeof value)) {
+      return `Required JWT claim '${name}' must be a string, number or boolean`;
+    }
+  }
+
+  if (
+    jwt.clockToleranceSeconds !== undefined &&
+    (!Number.isInteger(jwt.clockToleranceSeconds) || jwt.clockToleranceSeconds < 0 ||
+      jwt.clockToleranceSeconds > MAX_JWT_CLOCK_TOLERANCE_SECONDS)
+  ) {
+    return `JWT clock tolerance must be a whole number of seconds between 0 and ${MAX_JWT_CLOCK_TOLERANCE_SECONDS}`;
+  }
+  return null;
+}
+
+/**
+ * Check that a static key looks like a PEM public key, a JWK or a JWK set.
+ * Whether the key itself is usable is only known when a token is verified.
+ */
+function isPublicKeySyntax(publicKey: string): boolean {
+  const trimmed = publicKey.trim();
+  if (trimmed.startsWith("-----BEGIN PUBLIC KEY-----")) {
+    return trimmed.endsWith("-----END PUBLIC KEY-----");
+  }
+  try {
+    const parsed = JSON.parse(trimmed);
+    return typeof parsed === "object" && parsed !== null &&
+      (typeof parsed.kty === "string" || Array.isArray(parsed.keys));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate CORS configuration from a request body or manifest.
+ * Returns validated CorsConfig or null if not provided.
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateCorsConfig(cors: unknown): CorsConfig | undefined {
+  if (cors === undefined || cors === null) {
+    return undefined;
+  }
+
+  if (typeof cors !== "object" || Array.isArray(cors)) {
+    throw new Error("cors must be an object");
+  }
+
+  const config = cors as Record<string, unknown>;
+
+  // Validate origins (required when cors is provided)
+  if (!Array.isArray(config.origins) || config.origins.length === 0) {
+    throw new Error("cors.origins must be a non-empty array of strings");
+  }
+  for (const origin of config.origins) {
+    if (typeof origin !== "string" || origin.length === 0) {
+      throw new Error("cors.origins must contain only non-empty strings");
+    }
+    // Validate origin format (must be "*" or a valid URL)
+    if (origin !== "*") {
+      try {
+        new URL(origin);
+      } catch {
+        throw new Error(`cors.origins contains invalid URL: ${origin}`);
+      }
+    }
+  }
+
+  // Validate credentials (optional boolean)
+  if (config.credentials !== undefined && typeof config.credentials !== "boolean") {
+    throw new Error("cors.credentials must be a boolean");
+  }
+
+  // credentials: true cannot be used with origin "*"
+  if (config.credentials === true && config.origins.includes("*")) {
+    throw new Error("cors.credentials cannot be true when origins includes '*'");
+  }
+
+  // Validate maxAge (optional positive integer)
+  if (config.maxAge !== undefined) {
+    if (typeof config.maxAge !== "number" || !Number.isInteger(config.maxAge) || config.maxAge < 0) {
+      throw new Error("cors.maxAge must be a non-negative integer");
+    }
+  }
+
+  // Validate allowHeaders (optional array of strings)
+  if (config.allowHeaders !== undefined) {
+    if (!Array.isArray(config.allowHeaders)) {
+      throw new Error("cors.allowHeaders must be an array of strings");
+    }
+    for (const header of config.allowHeaders) {
+      if (typeof header !== "string" || header.length === 0) {
+        throw new Error("cors.allowHeaders must contain only non-empty strings");
+      }
+    }
+  }
+
+  // Validate exposeHeaders (optional array of strings)
+  if (config.exposeHeaders !== undefined) {
+    if (!Array.isArray(config.exposeHeaders)) {
+      throw new Error("cors.exposeHeaders must be an array of strings");
+    }
+    for (const header of config.exposeHeaders) {
+      if (typeof header !== "string" || header.length === 0) {
+        throw new Error("cors.exposeHeaders must contain only non-empty strings");
+      }
+    }
+  }
+
+  return {
+    origins: config.origins as string[],
+    credentials: config.credentials as boolean | undefined,
+    maxAge: config.maxAge as number | undefined,
+    allowHeaders: config.allowHeaders as string[] | undefined,
+    exposeHeaders: config.exposeHeaders as string[] | undefined,
+  };
+}
+
+/**
+ * Validate cron schedule configuration from a request body or manifest.
+ * Returns validated schedules or undefined if not provided.
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateCronSchedulesConfig(
+  cronSchedules: unknown,
+  methods: string[],
+): CronScheduleConfig[] | undefined {
+  if (cronSchedules === undefined || cronSchedules === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(cronSchedules)) {
+    throw new Error("cronSchedules must be an array");
+  }
+
+  const schedules: CronScheduleConfig[] = [];
+  for (const entry of cronSchedules) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      throw new Error("cronSchedules must contain only objects");
+    }
+    const config = entry as Record<string, unknown>;
+    if (typeof config.expression !== "string") {
+      throw new Error("cronSchedules[].expression must be a string");
+    }
+    if (config.timezone !== undefined && typeof config.timezone !== "string") {
+      throw new Error("cronSchedules[].timezone must be a string");
+    }
+    if (config.method !== undefined && typeof config.method !== "string") {
+      throw new Error("cronSchedules[].method must be a string");
+    }
+    schedules.push({
+      expression: config.expression,
+      timezone: config.timezone as string | undefined,
+      method: (config.method as string | undefined)?.toUpperCase(),
+    });
+  }
+
+  const error = validateCronSchedules(schedules, methods);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return schedules;
+}
+
+/**
+ * Validate worker permission set from a request body or manifest.
+ * Returns validated WorkerPermissions or undefined if not provided (handler runs in-process).
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateWorkerConfig(worker: unknown): WorkerPermissions | undefined {
+  if (worker === undefined || worker === null) {
+    return undefined;
+  }
+
+  if (typeof worker !== "object" || Array.isArray(worker)) {
+    throw new Error("worker must be an object");
+  }
+
+  const config = worker as Record<string, unknown>;
+  const permissions: WorkerPermissions = {};
+  for (const field of ["net", "read", "write", "env"] as const) {
+    const value = config[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!Array.isArray(value) || !value.every((entry) => typeof entry === "string")) {
+      throw new Error(`worker.${field} must be an array of strings`);
+    }
+    permissions[field] = value.map((entry) => entry.trim());
+  }
+
+  const error = validateWorkerPermissions(permissions);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return permissions;
+}
+
+/**
+ * Validate the allowed outbound hosts from a request body or manifest.
+ * Returns the validated hosts or undefined if not provided (every host is allowed).
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateAllowedHostsConfig(allowedHosts: unknown): string[] | undefined {
+  if (allowedHosts === undefined || allowedHosts === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(allowedHosts) || !allowedHosts.every((entry) => typeof entry === "string")) {
+    throw new Error("allowedHosts must be an array of strings");
+  }
+
+  const hosts = allowedHosts.map((entry) => entry.trim());
+  const error = validateAllowedHosts(hosts);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return hosts;
+}
+
+/**
+ * Validate request signature settings from a request body or manifest.
+ * Returns the validated SignatureConfig or undefined if not provided (requests aren't signed).
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateSignatureConfig(signature: unknown): SignatureConfig | undefined {
+  if (signature === undefined || signature === null) {
+    return undefined;
+  }
+
+  if (typeof signature !== "object" || Array.isArray(signature)) {
+    throw new Error("signature must be an object");
+  }
+
+  const config = signature as Record<string, unknown>;
+  for (const field of ["header", "secret"] as const) {
+    if (typeof config[field] !== "string") {
+      throw new Error(`signature.${field} must be a string`);
+    }
+  }
+  for (const field of ["algorithm", "encoding", "prefix", "payload", "timestampHeader", "timestampPrefix"] as const) {
+    if (config[field] !== undefined && config[field] !== null && typeof config[field] !== "string") {
+      throw new Error(`signature.${field} must be a string`);
+    }
+  }
+  if (
+    config.toleranceSeconds !== undefined && config.toleranceSeconds !== null &&
+    typeof config.toleranceSeconds !== "number"
+  ) {
+    throw new Error("signature.toleranceSeconds must be a number");
+  }
+
+  // Empty optional fields are dropped so defaults apply
+  const optional = (value: unknown) => (value as string | null | undefined)?.trim() || undefined;
+  const result: SignatureConfig = {
+    header: (config.header as string).trim(),
+    secret: (config.secret as string).trim(),
+    algorithm: optional(config.algorithm)?.toLowerCase() as SignatureAlgorithm | undefined,
+    encoding: optional(config.encoding)?.toLowerCase() as SignatureEncoding | undefined,
+    // Prefixes and payloads are matched exactly - only empty strings are dropped
+    prefix: (config.prefix as string | null | undefined) || undefined,
+    payload: (config.payload as string | null | undefined) || undefined,
+    timestampHeader: optional(config.timestampHeader),
+    timestampPrefix: (config.timestampPrefix as string | null | undefined) || undefined,
+    toleranceSeconds: (config.toleranceSeconds as number | null | undefined) ?? undefined,
+  };
+
+  const error = validateSignature(result);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return result;
+}
+
+/**
+ * Validate JWT authentication settings from a request body or manifest.
+ * Returns validated JwtAuthConfig or undefined if not provided.
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateJwtConfig(jwt: unknown): JwtAuthConfig | undefined {
+  if (jwt === undefined || jwt === null) {
+    return undefined;
+  }
+
+  if (typeof jwt !== "object" || Array.isArray(jwt)) {
+    throw new Error("jwt must be an object");
+  }
+
+  const config = jwt as Record<string, unknown>;
+  if (typeof config.issuer !== "string") {
+    throw new Error("jwt.issuer must be a string");
+  }
+  for (const field of ["audience", "jwksUrl", "publicKey"] as const) {
+    if (config[field] !== undefined && config[field] !== null && typeof config[field] !== "string") {
+      throw new Error(`jwt.${field} must be a string`);
+    }
+  }
+  if (
+    config.algorithms !== undefined && config.algorithms !== null &&
+    (!Array.isArray(config.algorithms) || config.algorithms.some((a) => typeof a !== "string"))
+  ) {
+    throw new Error("jwt.algorithms must be an array of strings");
+  }
+  if (
+    config.requiredClaims !== undefined && config.requiredClaims !== null &&
+    (typeof config.requiredClaims !== "object" || Array.isArray(config.requiredClaims))
+  ) {
+    throw new Error("jwt.requiredClaims must be an object");
+  }
+  if (
+    config.clockToleranceSeconds !== undefined && config.clockToleranceSeconds !== null &&
+    typeof config.clockToleranceSeconds !== "number"
+  ) {
+    throw new Error("jwt.clockToleranceSeconds must be a number");
+  }
+
+  // Empty optional fields are dropped so defaults apply
+  const optional = (value: unknown) => (value as string | null | undefined)?.trim() || undefined;
+  const requiredClaims = config.requiredClaims as Record<string, JwtClaimValue> | null | undefined;
+  const result: JwtAuthConfig = {
+    issuer: config.issuer.trim(),
+    audience: optional(config.audience),
+    jwksUrl: optional(config.jwksUrl),
+    publicKey: optional(config.publicKey),
+    algorithms: (config.algorithms as JwtAlgorithm[] | null | undefined) ?? undefined,
+    requiredClaims: requiredClaims && Object.keys(requiredClaims).length > 0 ? requiredClaims : undefined,
+    clockToleranceSeconds: (config.clockToleranceSeconds as number | null | undefined) ?? undefined,
+  };
+
+  const error = validateJwt(result);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return result;
+}
+
+/**
+ * Validate client IP restrictions from a request body or manifest.
+ * Returns the validated IpAccessConfig or undefined if not provided or both lists
+ * are empty (every address is accepted).
+ * Throws Error with descriptive message if invalid.
+ */
+export function validateIpAccessConfig(ipAccess: unknown): IpAccessConfig | undefined {
+  if (ipAccess === undefined || ipAccess === null) {
+    return undefined;
+  }
+
+  if (typeof ipAccess !== "object" || Array.isArray(ipAccess)) {
+    throw new Error("ipAccess must be an object");
+  }
+
+  const config = ipAccess as Record<string, unknown>;
+  for (const field of ["allow", "deny"] as const) {
+    const value = config[field];
+    if (
+      value !== undefined && value !== null &&
+      (!Array.isArray(value) || value.some((entry) => typeof entry !== "string"))
+    ) {
+      throw new Error(`ipAccess.${field} must be an array of strings`);
+    }
+  }
+
+  // Empty lists are dropped - they don't restrict anything
+  const list = (value: unknown) => {
+    const entries = ((value as string[] | null | undefined) ?? []).map((entry) => entry.trim());
+    return entries.length > 0 ? entries : undefined;
+  };
+  const result: IpAccessConfig = { allow: list(config.allow), deny: list(config.deny) };
+  if (!result.allow && !result.deny) {
+    return undefined;
+  }
+
+  const error = validateIpAccess(result);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return result;
+}
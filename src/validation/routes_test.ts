@@ -4,6 +4,14 @@ import {
   validateMethods,
   validateFunctionName,
   validateFunctionPath,
+  validateCronSchedules,
+  validateTimeoutMs,
+  validateWorkerPermissions,
+  validateAllowedHosts,
+  validateSignatureConfig,
+  validateJwtConfig,
+  validateIpAccessConfig,
+  MAX_TIMEOUT_MS,
 } from "./routes.ts";
 
 // =====================
@@ -187,3 +195,187 @@ Deno.test("getValidMethods returns a copy (not the original array)", () => {
   expect(methods1).not.toBe(methods2);
   expect(methods1).toEqual(methods2);
 });
+
+// =====================
+// validateCronSchedules
+// =====================
+
+Deno.test("validateCronSchedules accepts valid schedules", () => {
+  expect(validateCronSchedules([
+    { expression: "*/5 * * * *" },
+    { expression: "@daily", timezone: "Europe/Warsaw", method: "POST" },
+  ], ["GET", "POST"])).toBeNull();
+});
+
+Deno.test("validateCronSchedules rejects invalid expression", () => {
+  expect(validateCronSchedules([{ expression: "every day" }], ["GET"]))
+    .toContain("invalid cron expression");
+});
+
+Deno.test("validateCronSchedules rejects unknown timezone", () => {
+  expect(validateCronSchedules([{ expression: "@daily", timezone: "Mars/Base" }], ["GET"]))
+    .toContain("unknown timezone");
+});
+
+Deno.test("validateCronSchedules rejects method not allowed by function", () => {
+  expect(validateCronSchedules([{ expression: "@daily", method: "DELETE" }], ["GET"]))
+    .toContain("method 'DELETE'");
+});
+
+// =====================
+// validateTimeoutMs
+// =====================
+
+Deno.test("validateTimeoutMs accepts positive integers up to the maximum", () => {
+  expect(validateTimeoutMs(1)).toBe(true);
+  expect(validateTimeoutMs(30000)).toBe(true);
+  expect(validateTimeoutMs(MAX_TIMEOUT_MS)).toBe(true);
+});
+
+Deno.test("validateTimeoutMs rejects zero, negatives, fractions and values above the maximum", () => {
+  expect(validateTimeoutMs(0)).toBe(false);
+  expect(validateTimeoutMs(-100)).toBe(false);
+  expect(validateTimeoutMs(1.5)).toBe(false);
+  expect(validateTimeoutMs(NaN)).toBe(false);
+  expect(validateTimeoutMs(MAX_TIMEOUT_MS + 1)).toBe(false);
+});
+
+// =====================
+// validateWorkerPermissions
+// =====================
+
+Deno.test("validateWorkerPermissions accepts hosts, paths and env names", () => {
+  expect(validateWorkerPermissions({
+    net: ["api.example.com", "db.internal:5432", "10.0.0.1"],
+    read: ["shared/", "/srv/reports"],
+    write: ["/tmp/out"],
+    env: ["TZ", "MY_SERVICE_URL"],
+  })).toBeNull();
+  expect(validateWorkerPermissions({})).toBeNull();
+});
+
+Deno.test("validateWorkerPermissions rejects net entries with scheme or path", () => {
+  expect(validateWorkerPermissions({ net: ["https://api.example.com"] }))
+    .toContain("Worker net entry");
+  expect(validateWorkerPermissions({ net: ["example.com/path"] }))
+    .toContain("Worker net entry");
+});
+
+Deno.test("validateWorkerPermissions rejects empty paths and invalid env names", () => {
+  expect(validateWorkerPermissions({ read: ["  "] })).toContain("read paths");
+  expect(validateWorkerPermissions({ env: ["MY-VAR"] })).toContain("Worker env entry");
+});
+
+// =====================
+// validateAllowedHosts
+// =====================
+
+Deno.test("validateAllowedHosts accepts hosts, wildcards, ports and IPs", () => {
+  expect(validateAllowedHosts(["api.example.com", "*.stripe.com", "localhost:8080", "10.0.0.1", "[::1]:3000"]))
+    .toBeNull();
+  expect(validateAllowedHosts([])).toBeNull();
+});
+
+Deno.test("validateAllowedHosts rejects schemes, paths and inner wildcards", () => {
+  expect(validateAllowedHosts(["https://api.example.com"])).toContain("Allowed host");
+  expect(validateAllowedHosts(["example.com/path"])).toContain("Allowed host");
+  expect(validateAllowedHosts(["api.*.example.com"])).toContain("Allowed host");
+});
+
+// =====================
+// validateSignatureConfig
+// =====================
+
+Deno.test("validateSignatureConfig normalizes a valid config", () => {
+  expect(validateSignatureConfig(undefined)).toBeUndefined();
+  expect(validateSignatureConfig({
+    header: " X-Slack-Signature ",
+    secret: "SLACK_SECRET",
+    algorithm: "SHA256",
+    prefix: "v0=",
+    payload: "v0:{timestamp}:{body}",
+    timestampHeader: "X-Slack-Request-Timestamp",
+    timestampPrefix: "",
+  })).toEqual({
+    header: "X-Slack-Signature",
+    secret: "SLACK_SECRET",
+    algorithm: "sha256",
+    encoding: undefined,
+    prefix: "v0=",
+    payload: "v0:{timestamp}:{body}",
+    timestampHeader: "X-Slack-Request-Timestamp",
+    timestampPrefix: undefined,
+    toleranceSeconds: undefined,
+  });
+});
+
+Deno.test("validateSignatureConfig rejects invalid configs", () => {
+  const base = { header: "X-Signature", secret: "SECRET" };
+  expect(() => validateSignatureConfig("X-Signature")).toThrow("signature must be an object");
+  expect(() => validateSignatureConfig({ header: "X-Signature" })).toThrow("signature.secret must be a string");
+  expect(() => validateSignatureConfig({ ...base, header: "X Signature" })).toThrow("not a valid header name");
+  expect(() => validateSignatureConfig({ ...base, algorithm: "md5" })).toThrow("Signature algorithm");
+  expect(() => validateSignatureConfig({ ...base, encoding: "base32" })).toThrow("Signature encoding");
+  expect(() => validateSignatureConfig({ ...base, payload: "{timestamp}" })).toThrow("{body} exactly once");
+  expect(() => validateSignatureConfig({ ...base, payload: "{timestamp}.{body}" })).toThrow("timestamp header is required");
+  expect(() => validateSignatureConfig({ ...base, timestampHeader: "X-Timestamp" })).toThrow("must contain {timestamp}");
+  expect(() => validateSignatureConfig({ ...base, toleranceSeconds: 0 })).toThrow("Signature tolerance");
+});
+
+// =====================
+// validateJwtConfig
+// =====================
+
+Deno.test("validateJwtConfig normalizes a valid config", () => {
+  expect(validateJwtConfig(null)).toBeUndefined();
+  expect(validateJwtConfig({
+    issuer: " https://auth.example.com/ ",
+    audience: "",
+    jwksUrl: "https://auth.example.com/.well-known/jwks.json",
+    algorithms: ["RS256", "ES256"],
+    requiredClaims: {},
+  })).toEqual({
+    issuer: "https://auth.example.com/",
+    audience: undefined,
+    jwksUrl: "https://auth.example.com/.well-known/jwks.json",
+    publicKey: undefined,
+    algorithms: ["RS256", "ES256"],
+    requiredClaims: undefined,
+    clockToleranceSeconds: undefined,
+  });
+});
+
+Deno.test("validateJwtConfig rejects invalid configs", () => {
+  const base = { issuer: "https://auth.example.com/", jwksUrl: "https://auth.example.com/jwks.json" };
+  const pem = "-----BEGIN PUBLIC KEY-----\nMFkw\n-----END PUBLIC KEY-----";
+  expect(() => validateJwtConfig({ jwksUrl: base.jwksUrl })).toThrow("jwt.issuer must be a string");
+  expect(() => validateJwtConfig({ issuer: base.issuer })).toThrow("either a JWKS URL or a public key");
+  expect(() => validateJwtConfig({ ...base, publicKey: pem })).toThrow("either a JWKS URL or a public key");
+  expect(() => validateJwtConfig({ ...base, jwksUrl: "ftp://auth.example.com/jwks" })).toThrow("http or https");
+  expect(() => validateJwtConfig({ issuer: base.issuer, publicKey: "not a key" })).toThrow("JWT public key");
+  expect(() => validateJwtConfig({ ...base, algorithms: ["HS256"] })).toThrow("not supported");
+  expect(() => validateJwtConfig({ ...base, requiredClaims: { groups: ["admins"] } })).toThrow("string, number or boolean");
+  expect(() => validateJwtConfig({ ...base, clockToleranceSeconds: -1 })).toThrow("JWT clock tolerance");
+
+  expect(validateJwtConfig({ issuer: base.issuer, publicKey: pem })?.publicKey).toBe(pem);
+});
+
+// =====================
+// validateIpAccessConfig
+// =====================
+
+Deno.test("validateIpAccessConfig trims entries and drops empty lists", () => {
+  expect(validateIpAccessConfig(undefined)).toBeUndefined();
+  expect(validateIpAccessConfig({ allow: [], deny: null })).toBeUndefined();
+  expect(validateIpAccessConfig({ allow: [" 10.0.0.0/8 ", "2001:db8::/32"], deny: [] })).toEqual({
+    allow: ["10.0.0.0/8", "2001:db8::/32"],
+    deny: undefined,
+  });
+});
+
+Deno.test("validateIpAccessConfig rejects invalid configs", () => {
+  expect(() => validateIpAccessConfig(["10.0.0.0/8"])).toThrow("ipAccess must be an object");
+  expect(() => validateIpAccessConfig({ allow: "10.0.0.0/8" })).toThrow("ipAccess.allow must be an array of strings");
+  expect(() => validateIpAccessConfig({ allow: ["10.0.0.0/33"] })).toThrow("Allowed IPs: '10.0.0.0/33'");
+  expect(() => validateIpAccessConfig({ deny: ["office"] })).toThrow("Denied IPs: 'office'");
+});
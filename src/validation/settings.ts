@@ -3,6 +3,9 @@ import {
   SettingNames,
   type SettingName,
 } from "../settings/types.ts";
+import { validateRedactionPatterns } from "../logs/log_redaction.ts";
+import { validateIpRanges } from "./routes.ts";
+import { parseIpList } from "../functions/ip_access.ts";
 
 /**
  * Validation result for a single setting
@@ -97,6 +100,32 @@ export function validateSettingValue(
       break;
     }
 
+    case "patternList": {
+      // One regular expression per line, empty is valid (no patterns)
+      const error = validateRedactionPatterns(value);
+      if (error) {
+        return { valid: false, error };
+      }
+      break;
+    }
+
+    case "ipList": {
+      // Addresses and CIDR ranges, empty is valid (no restriction)
+      const error = validateIpRanges(parseIpList(value));
+      if (error) {
+        return { valid: false, error };
+      }
+      break;
+    }
+
+    case "url": {
+      const error = validateHttpUrl(value);
+      if (error) {
+        return { valid: false, error };
+      }
+      break;
+    }
+
     case "text": {
       // Text values are always valid
       break;
@@ -106,6 +135,24 @@ export function validateSettingValue(
   return { valid: true };
 }
 
+/**
+ * Validates an http(s) URL setting value.
+ *
+ * @returns Error message, or null if the value is a valid URL
+ */
+export function validateHttpUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Must be a valid URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Must be an http:// or https:// URL";
+  }
+  return null;
+}
+
 /**
  * Validates multiple settings at once.
  * Returns all validation errors, not just the first one.
@@ -118,6 +118,44 @@ Deno.test("validateSettingValue - rejects invalid checkboxGroup format with trai
   }
 });
 
+Deno.test("validateSettingValue - accepts empty and valid patternList values", () => {
+  expect(validateSettingValue(SettingNames.LOG_REDACTION_PATTERNS, "").valid).toBe(true);
+  expect(validateSettingValue(SettingNames.LOG_REDACTION_PATTERNS, "token=\\w+\nsecret").valid).toBe(true);
+});
+
+Deno.test("validateSettingValue - rejects invalid regular expression in patternList", () => {
+  const result = validateSettingValue(SettingNames.LOG_REDACTION_PATTERNS, "valid\n(unclosed");
+  expect(result.valid).toBe(false);
+  if (!result.valid) {
+    expect(result.error).toContain('Invalid pattern "(unclosed"');
+  }
+});
+
+Deno.test("validateSettingValue - validates ipList values", () => {
+  expect(validateSettingValue(SettingNames.IP_ALLOWLIST, "").valid).toBe(true);
+  expect(validateSettingValue(SettingNames.IP_TRUSTED_PROXIES, "10.0.0.0/8\n::1").valid).toBe(true);
+
+  const result = validateSettingValue(SettingNames.IP_DENYLIST, "10.0.0.0/8\nlocalhost");
+  expect(result.valid).toBe(false);
+  if (!result.valid) {
+    expect(result.error).toContain("'localhost' is not an IP address or CIDR range");
+  }
+});
+
+Deno.test("validateSettingValue - accepts http(s) URLs for url input", () => {
+  expect(validateSettingValue(SettingNames.TRACING_OTLP_ENDPOINT, "http://localhost:4318/v1/traces").valid).toBe(true);
+  expect(validateSettingValue(SettingNames.TRACING_OTLP_ENDPOINT, "https://tempo.example.com/v1/traces").valid).toBe(true);
+});
+
+Deno.test("validateSettingValue - rejects invalid URLs for url input", () => {
+  const result = validateSettingValue(SettingNames.TRACING_OTLP_ENDPOINT, "localhost:4318");
+  expect(result.valid).toBe(false);
+  if (!result.valid) {
+    expect(result.error).toContain("http");
+  }
+  expect(validateSettingValue(SettingNames.TRACING_OTLP_ENDPOINT, "not a url").valid).toBe(false);
+});
+
 Deno.test("validateSettingValue - accepts any string for text input", () => {
   // FILES_MAX_SIZE_BYTES is a number type, let's find a text type if exists
   // For now, test with any valid setting that would be text
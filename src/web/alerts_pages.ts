@@ -0,0 +1,423 @@
+import { Hono } from "@hono/hono";
+import type { AlertService } from "../alerts/alert_service.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { ErrorStateService } from "../errors/mod.ts";
+import type { AlertHistoryEntry, AlertRule, NewAlertRule } from "../alerts/types.ts";
+import { ALERT_CHANNELS, ALERT_CONDITIONS } from "../alerts/types.ts";
+import {
+  DEFAULT_ERROR_RATE_MIN_EXECUTIONS,
+  DEFAULT_ERROR_RATE_WINDOW_MINUTES,
+} from "../alerts/alert_service.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import {
+  layout,
+  escapeHtml,
+  flashMessages,
+  confirmPage,
+  buttonLink,
+  formatDate,
+  getLayoutUser,
+  getCsrfToken,
+} from "./templates.ts";
+import { csrfInput } from "../csrf/csrf_helpers.ts";
+
+/**
+ * Options for creating the alerts pages router.
+ */
+export interface AlertsPagesOptions {
+  alertService: AlertService;
+  settingsService: SettingsService;
+  errorStateService: ErrorStateService;
+}
+
+/** Number of history entries shown on the alerts page */
+const HISTORY_PAGE_SIZE = 50;
+
+const CONDITION_LABELS: Record<string, string> = {
+  source_sync_failed: "Source sync failed",
+  schedule_error: "Schedule in error state",
+  error_rate: "Function error rate",
+  database_unavailable: "Database unavailable",
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  webhook: "Webhook",
+  email: "Email",
+  function: "Function",
+};
+
+/**
+ * Status badge colors per notification status.
+ */
+function historyStatusBadge(entry: AlertHistoryEntry): string {
+  const colors: Record<string, { bg: string; fg: string }> = {
+    firing: { bg: "#f8d7da", fg: "#721c24" },
+    resolved: { bg: "#d4edda", fg: "#155724" },
+    test: { bg: "#e2e3e5", fg: "#383d41" },
+  };
+  const { bg, fg } = colors[entry.status] ?? colors.test;
+  return `<span style="display: inline-block; padding: 0.25rem 0.5rem; border-radius: 4px; font-size: 0.85rem; font-weight: bold; background-color: ${bg}; color: ${fg};">${escapeHtml(entry.status)}</span>`;
+}
+
+function describeCondition(rule: AlertRule): string {
+  const label = CONDITION_LABELS[rule.condition] ?? rule.condition;
+  if (rule.condition !== "error_rate") return escapeHtml(label);
+  return `${escapeHtml(label)} <small>≥ ${rule.threshold}% over ${rule.windowMinutes} min, min. ${rule.minExecutions} executions</small>`;
+}
+
+/**
+ * Creates the alerts page router.
+ *
+ * Manages alert rules (create, edit, delete, send a test notification) and
+ * lists the most recent notifications.
+ */
+export function createAlertsPages(options: AlertsPagesOptions): Hono {
+  const { alertService, settingsService, errorStateService } = options;
+  const routes = new Hono();
+
+  // GET / - List rules and recent notifications
+  routes.get("/", async (c) => {
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const csrfToken = getCsrfToken(c);
+
+    const [rules, history] = await Promise.all([
+      alertService.getRules(),
+      alertService.getHistory({ limit: HISTORY_PAGE_SIZE }),
+    ]);
+
+    const ruleRows = rules.map((rule) => {
+      const id = recordIdToString(rule.id);
+      return `
+        <tr>
+          <td><strong>${escapeHtml(rule.name)}</strong>${rule.enabled ? "" : " <em>(disabled)</em>"}</td>
+          <td>${describeCondition(rule)}</td>
+          <td>${escapeHtml(CHANNEL_LABELS[rule.channel] ?? rule.channel)}<br><small>${escapeHtml(rule.target)}</small></td>
+          <td>${rule.cooldownMinutes} min</td>
+          <td class="actions" style="white-space: nowrap;">
+            <form method="POST" action="/web/alerts/test/${id}" style="display: inline-block; margin: 0; width: auto;">
+              ${csrfInput(csrfToken)}
+              <button type="submit" class="outline secondary" style="padding: 0.25rem 0.5rem; font-size: 1rem; line-height: 1; width: auto; min-width: auto;" title="Send test notification">📨</button>
+            </form>
+            <a href="/web/alerts/edit/${id}" title="Edit" style="text-decoration: none; font-size: 1.2rem; margin: 0 0.5rem;">✏️</a>
+            <a href="/web/alerts/delete/${id}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>
+          </td>
+        </tr>
+      `;
+    }).join("");
+
+    const historyRows = history.map((entry) => `
+      <tr>
+        <td>${formatDate(entry.createdAt)}</td>
+        <td>${escapeHtml(entry.ruleName)}</td>
+        <td>${historyStatusBadge(entry)}</td>
+        <td><small>${escapeHtml(entry.message.substring(0, 200))}</small></td>
+        <td>${escapeHtml(CHANNEL_LABELS[entry.channel] ?? entry.channel)}</td>
+        <td>${entry.delivered ? "✅" : `❌ <small>${escapeHtml(entry.error ?? "")}</small>`}</td>
+      </tr>
+    `).join("");
+
+    const content = `
+      <h1>Alerts</h1>
+      ${flashMessages(success, error)}
+      <p>
+        ${buttonLink("/web/alerts/create", "Create Alert Rule")}
+      </p>
+      ${
+        rules.length === 0
+          ? "<p>No alert rules configured.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Condition</th>
+              <th>Channel</th>
+              <th>Cooldown</th>
+              <th class="actions">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${ruleRows}
+          </tbody>
+        </table>
+      `
+      }
+      <h2>History</h2>
+      ${
+        history.length === 0
+          ? "<p>No notifications sent yet.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Rule</th>
+              <th>Status</th>
+              <th>Message</th>
+              <th>Channel</th>
+              <th>Delivered</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${historyRows}
+          </tbody>
+        </table>
+      `
+      }
+    `;
+
+    return c.html(await layout({ title: "Alerts", content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // GET /create - Create rule form
+  routes.get("/create", async (c) => {
+    const csrfToken = getCsrfToken(c);
+    return c.html(await layout({
+      title: "Create Alert Rule",
+      content: renderRuleForm("Create Alert Rule", "/web/alerts/create", {}, undefined, csrfToken),
+      user: getLayoutUser(c),
+      settingsService,
+      errorStateService,
+    }));
+  });
+
+  // POST /create - Handle rule creation
+  routes.post("/create", async (c) => {
+    let formData: FormData;
+    try {
+      formData = await c.req.formData();
+    } catch {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Invalid form data"));
+    }
+
+    const input = parseRuleFormData(formData);
+    try {
+      const rule = await alertService.createRule(input);
+      return c.redirect("/web/alerts?success=" + encodeURIComponent(`Alert rule created: ${rule.name}`));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to create alert rule";
+      return c.html(
+        await layout({
+          title: "Create Alert Rule",
+          content: renderRuleForm("Create Alert Rule", "/web/alerts/create", input, message, getCsrfToken(c)),
+          user: getLayoutUser(c),
+          settingsService,
+          errorStateService,
+        }),
+        400,
+      );
+    }
+  });
+
+  // GET /edit/:id - Edit rule form
+  routes.get("/edit/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    const rule = id ? await alertService.getRuleById(id) : null;
+    if (!id || !rule) {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Alert rule not found"));
+    }
+
+    return c.html(await layout({
+      title: `Edit: ${rule.name}`,
+      content: renderRuleForm("Edit Alert Rule", `/web/alerts/edit/${id}`, rule, undefined, getCsrfToken(c)),
+      user: getLayoutUser(c),
+      settingsService,
+      errorStateService,
+    }));
+  });
+
+  // POST /edit/:id - Handle rule update
+  routes.post("/edit/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Alert rule not found"));
+    }
+
+    let formData: FormData;
+    try {
+      formData = await c.req.formData();
+    } catch {
+      return c.redirect(`/web/alerts/edit/${id}?error=` + encodeURIComponent("Invalid form data"));
+    }
+
+    const input = parseRuleFormData(formData);
+    try {
+      const rule = await alertService.updateRule(id, input);
+      return c.redirect("/web/alerts?success=" + encodeURIComponent(`Alert rule updated: ${rule.name}`));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update alert rule";
+      return c.html(
+        await layout({
+          title: "Edit Alert Rule",
+          content: renderRuleForm("Edit Alert Rule", `/web/alerts/edit/${id}`, input, message, getCsrfToken(c)),
+          user: getLayoutUser(c),
+          settingsService,
+          errorStateService,
+        }),
+        400,
+      );
+    }
+  });
+
+  // POST /test/:id - Send a test notification
+  routes.post("/test/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Alert rule not found"));
+    }
+
+    try {
+      await alertService.sendTest(id);
+      return c.redirect("/web/alerts?success=" + encodeURIComponent("Test notification sent"));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to send test notification";
+      return c.redirect("/web/alerts?error=" + encodeURIComponent(`Test notification failed: ${message}`));
+    }
+  });
+
+  // GET /delete/:id - Delete confirmation
+  routes.get("/delete/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    const rule = id ? await alertService.getRuleById(id) : null;
+    if (!id || !rule) {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Alert rule not found"));
+    }
+
+    return c.html(
+      await confirmPage({
+        title: "Delete Alert Rule",
+        message: `Are you sure you want to delete the alert rule "${rule.name}"? Its notification history is kept.`,
+        actionUrl: `/web/alerts/delete/${id}`,
+        cancelUrl: "/web/alerts",
+        user: getLayoutUser(c),
+        settingsService,
+        errorStateService,
+        csrfToken: getCsrfToken(c),
+      }),
+    );
+  });
+
+  // POST /delete/:id - Handle deletion
+  routes.post("/delete/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.redirect("/web/alerts?error=" + encodeURIComponent("Alert rule not found"));
+    }
+
+    try {
+      await alertService.deleteRule(id);
+      return c.redirect("/web/alerts?success=" + encodeURIComponent("Alert rule deleted"));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to delete alert rule";
+      return c.redirect("/web/alerts?error=" + encodeURIComponent(message));
+    }
+  });
+
+  return routes;
+}
+
+/**
+ * Renders the create/edit rule form.
+ */
+function renderRuleForm(
+  title: string,
+  action: string,
+  data: Partial<NewAlertRule>,
+  error?: string,
+  csrfToken: string = "",
+): string {
+  const option = (value: string, label: string, selected: string | undefined) =>
+    `<option value="${escapeHtml(value)}"${value === selected ? " selected" : ""}>${escapeHtml(label)}</option>`;
+  const numberValue = (value: number | undefined) => value === undefined ? "" : String(value);
+
+  return `
+    <h1>${escapeHtml(title)}</h1>
+    ${error ? flashMessages(undefined, error) : ""}
+    <form method="POST" action="${escapeHtml(action)}">
+      ${csrfToken ? csrfInput(csrfToken) : ""}
+      <label>
+        Name
+        <input type="text" name="name" value="${escapeHtml(data.name ?? "")}" required maxlength="100" />
+      </label>
+      <label>
+        <input type="checkbox" name="enabled" value="true"${data.enabled === false ? "" : " checked"} />
+        Enabled
+      </label>
+      <label>
+        Condition
+        <select name="condition" required>
+          ${ALERT_CONDITIONS.map((c) => option(c, CONDITION_LABELS[c], data.condition)).join("")}
+        </select>
+      </label>
+      <fieldset>
+        <legend><small>Error rate parameters (only used by the function error rate condition)</small></legend>
+        <div class="grid">
+          <label>
+            Threshold (%)
+            <input type="number" name="threshold" min="0.1" max="100" step="0.1" value="${numberValue(data.threshold)}" />
+          </label>
+          <label>
+            Window (minutes)
+            <input type="number" name="windowMinutes" min="1" step="1" value="${numberValue(data.windowMinutes)}"
+                   placeholder="${DEFAULT_ERROR_RATE_WINDOW_MINUTES}" />
+          </label>
+          <label>
+            Minimum executions
+            <input type="number" name="minExecutions" min="1" step="1" value="${numberValue(data.minExecutions)}"
+                   placeholder="${DEFAULT_ERROR_RATE_MIN_EXECUTIONS}" />
+          </label>
+        </div>
+      </fieldset>
+      <label>
+        Channel
+        <select name="channel" required>
+          ${ALERT_CHANNELS.map((c) => option(c, CHANNEL_LABELS[c], data.channel)).join("")}
+        </select>
+      </label>
+      <label>
+        Target
+        <input type="text" name="target" value="${escapeHtml(data.target ?? "")}" required />
+        <small>Webhook URL, comma-separated email addresses, or function name. Email needs the SMTP settings in the Alerts category.</small>
+      </label>
+      <label>
+        Cooldown (minutes)
+        <input type="number" name="cooldownMinutes" min="0" step="1" value="${numberValue(data.cooldownMinutes ?? 60)}" />
+        <small>Minimum time between notifications about the same problem while it keeps firing</small>
+      </label>
+      <label>
+        <input type="checkbox" name="notifyOnResolve" value="true"${data.notifyOnResolve === false ? "" : " checked"} />
+        Notify when resolved
+      </label>
+      <div class="grid" style="margin-bottom: 0;">
+        <button type="submit" style="margin-bottom: 0;">Save</button>
+        <a href="/web/alerts" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
+      </div>
+    </form>
+  `;
+}
+
+/**
+ * Parse rule form data. Validation happens in AlertService.
+ */
+function parseRuleFormData(formData: FormData): NewAlertRule {
+  const text = (name: string) => formData.get(name)?.toString().trim() ?? "";
+  const number = (name: string) => {
+    const value = text(name);
+    return value === "" ? undefined : Number(value);
+  };
+
+  return {
+    name: text("name"),
+    enabled: formData.get("enabled") === "true",
+    condition: text("condition") as NewAlertRule["condition"],
+    threshold: number("threshold"),
+    windowMinutes: number("windowMinutes"),
+    minExecutions: number("minExecutions"),
+    channel: text("channel") as NewAlertRule["channel"],
+    target: text("target"),
+    cooldownMinutes: number("cooldownMinutes"),
+    notifyOnResolve: formData.get("notifyOnResolve") === "true",
+  };
+}
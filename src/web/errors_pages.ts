@@ -0,0 +1,262 @@
+import { Hono } from "@hono/hono";
+import type { ErrorGroupService } from "../error_groups/error_group_service.ts";
+import type { FunctionsService } from "../routes/functions_service.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { ErrorStateService } from "../errors/mod.ts";
+import type { ErrorGroup, ErrorGroupStatus } from "../error_groups/types.ts";
+import { ERROR_GROUP_STATUSES, isErrorGroupStatus } from "../error_groups/types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import {
+  layout,
+  escapeHtml,
+  flashMessages,
+  formatDate,
+  getLayoutUser,
+  getCsrfToken,
+} from "./templates.ts";
+import { csrfInput } from "../csrf/csrf_helpers.ts";
+
+/**
+ * Options for creating the errors pages router.
+ */
+export interface ErrorsPagesOptions {
+  errorGroupService: ErrorGroupService;
+  functionsService: FunctionsService;
+  settingsService: SettingsService;
+  errorStateService: ErrorStateService;
+}
+
+/** Status changes offered per group status, as [action, icon, title] */
+const STATUS_ACTIONS: Record<ErrorGroupStatus, [string, string, string][]> = {
+  open: [["resolve", "✅", "Resolve"], ["ignore", "🔕", "Ignore"]],
+  resolved: [["reopen", "↩️", "Reopen"]],
+  ignored: [["reopen", "↩️", "Reopen"]],
+};
+
+const ACTION_STATUSES: Record<string, ErrorGroupStatus> = {
+  resolve: "resolved",
+  ignore: "ignored",
+  reopen: "open",
+};
+
+/**
+ * Status badge colors per error group status.
+ */
+function statusBadge(status: ErrorGroupStatus): string {
+  const colors: Record<ErrorGroupStatus, { bg: string; fg: string }> = {
+    open: { bg: "#f8d7da", fg: "#721c24" },
+    resolved: { bg: "#d4edda", fg: "#155724" },
+    ignored: { bg: "#e2e3e5", fg: "#383d41" },
+  };
+  const { bg, fg } = colors[status];
+  return `<span class="status-badge" style="background-color: ${bg}; color: ${fg};">${escapeHtml(status)}</span>`;
+}
+
+/**
+ * Small icon button wrapped in a POST form.
+ */
+function actionButton(action: string, icon: string, title: string, csrfToken: string): string {
+  return `<form method="POST" action="${escapeHtml(action)}" style="display: inline-block; margin: 0; width: auto;">
+    ${csrfInput(csrfToken)}
+    <button type="submit" class="outline secondary" style="padding: 0.25rem 0.5rem; font-size: 1rem; line-height: 1; width: auto; min-width: auto;" title="${escapeHtml(title)}">${icon}</button>
+  </form>`;
+}
+
+function groupActions(group: ErrorGroup, csrfToken: string): string {
+  const id = recordIdToString(group.id);
+  return STATUS_ACTIONS[group.status]
+    .map(([action, icon, title]) => actionButton(`/web/errors/${id}/${action}`, icon, title, csrfToken))
+    .join("\n");
+}
+
+const STATUS_BADGE_STYLE = `
+  <style>
+    .status-badge {
+      display: inline-block;
+      padding: 0.25rem 0.5rem;
+      border-radius: 4px;
+      font-size: 0.85rem;
+      font-weight: bold;
+    }
+  </style>
+`;
+
+/**
+ * Creates the errors page router.
+ *
+ * Lists grouped handler errors (open ones by default) with resolve, ignore
+ * and reopen actions, and shows a group's stack trace and recent events.
+ */
+export function createErrorsPages(options: ErrorsPagesOptions): Hono {
+  const { errorGroupService, functionsService, settingsService, errorStateService } = options;
+  const routes = new Hono();
+
+  // GET / - List error groups (?status=open|resolved|ignored|all, default open)
+  routes.get("/", async (c) => {
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const statusParam = c.req.query("status") ?? "open";
+    const status = isErrorGroupStatus(statusParam) ? statusParam : undefined;
+    const csrfToken = getCsrfToken(c);
+
+    const [groups, functions] = await Promise.all([
+      errorGroupService.getGroups({ status }),
+      functionsService.getAll(),
+    ]);
+    const functionNames = new Map(functions.map((fn) => [recordIdToString(fn.id), fn.name]));
+
+    const filterLinks = [
+      ...ERROR_GROUP_STATUSES.map((s) =>
+        `<a href="/web/errors?status=${s}"${status === s ? ' aria-current="page"' : ""}>${s}</a>`
+      ),
+      `<a href="/web/errors?status=all"${status === undefined ? ' aria-current="page"' : ""}>All</a>`,
+    ].join(" · ");
+
+    const rows = groups.map((group) => {
+      const id = recordIdToString(group.id);
+      const functionName = functionNames.get(recordIdToString(group.functionId)) ?? "(deleted)";
+
+      return `
+        <tr>
+          <td>${escapeHtml(functionName)}</td>
+          <td>
+            <a href="/web/errors/${id}"><strong>${escapeHtml(group.errorType)}</strong></a>
+            ${group.kind === "load" ? " <small>(load)</small>" : ""}
+            <br><small>${escapeHtml(group.message.substring(0, 200))}</small>
+          </td>
+          <td>${statusBadge(group.status)}</td>
+          <td>${group.count}</td>
+          <td>${formatDate(group.firstSeen)}</td>
+          <td>${formatDate(group.lastSeen)}</td>
+          <td style="white-space: nowrap;">${groupActions(group, csrfToken)}</td>
+        </tr>
+      `;
+    }).join("");
+
+    const content = `
+      ${STATUS_BADGE_STYLE}
+      <h1>Errors</h1>
+      ${flashMessages(success, error)}
+      <p>${filterLinks}</p>
+      ${
+        groups.length === 0
+          ? "<p>No errors found.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>Function</th>
+              <th>Error</th>
+              <th>Status</th>
+              <th>Count</th>
+              <th>First Seen</th>
+              <th>Last Seen</th>
+              <th class="actions">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+      `
+      }
+    `;
+
+    return c.html(await layout({ title: "Errors", content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // GET /:id - Error group details with recent events
+  routes.get("/:id", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    const group = id ? await errorGroupService.getGroupById(id) : null;
+    if (!id || !group) {
+      return c.redirect("/web/errors?error=" + encodeURIComponent("Error group not found"));
+    }
+
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const csrfToken = getCsrfToken(c);
+    const functionId = recordIdToString(group.functionId);
+    const [events, fn] = await Promise.all([
+      errorGroupService.getEvents(id),
+      functionsService.getById(functionId),
+    ]);
+
+    const eventRows = events.map((event) => `
+      <tr>
+        <td>${formatDate(event.timestamp)}</td>
+        <td><a href="/web/functions/logs/${functionId}?requestId=${encodeURIComponent(event.requestId)}"><code>${escapeHtml(event.requestId)}</code></a></td>
+        <td><code>${escapeHtml(event.method)}</code> <small>${escapeHtml(event.url)}</small></td>
+        <td>${escapeHtml(event.trigger)}</td>
+        <td>${event.keyGroup ? escapeHtml(event.keyGroup) : "-"}</td>
+        <td><small>${escapeHtml(event.message.substring(0, 200))}</small></td>
+      </tr>
+    `).join("");
+
+    const content = `
+      ${STATUS_BADGE_STYLE}
+      <h1>${escapeHtml(group.errorType)}</h1>
+      ${flashMessages(success, error)}
+      <p>
+        ${statusBadge(group.status)}
+        &nbsp; ${fn ? `<a href="/web/functions">${escapeHtml(fn.name)}</a>` : "(deleted function)"}
+        &nbsp;|&nbsp; ${group.kind === "load" ? "Load error" : "Execution error"}
+        &nbsp;|&nbsp; ${group.count} occurrence${group.count === 1 ? "" : "s"}
+        &nbsp;|&nbsp; first seen ${formatDate(group.firstSeen)}, last seen ${formatDate(group.lastSeen)}
+        ${group.resolvedAt ? `&nbsp;|&nbsp; resolved ${formatDate(group.resolvedAt)}` : ""}
+      </p>
+      <p>${groupActions(group, csrfToken)} <a href="/web/errors">Back to errors</a></p>
+      <article>
+        <header><strong>${escapeHtml(group.message)}</strong></header>
+        ${
+          group.stack
+            ? `<pre style="white-space: pre-wrap; font-size: 0.8rem;">${escapeHtml(group.stack)}</pre>`
+            : "<p><small>No stack trace</small></p>"
+        }
+      </article>
+      <h2>Recent Events</h2>
+      ${
+        events.length === 0
+          ? "<p>No events recorded.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Request ID</th>
+              <th>Request</th>
+              <th>Trigger</th>
+              <th>Key Group</th>
+              <th>Message</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${eventRows}
+          </tbody>
+        </table>
+      `
+      }
+    `;
+
+    return c.html(await layout({ title: `Error: ${group.errorType}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // POST /:id/resolve, /:id/ignore, /:id/reopen - Change group status
+  routes.post("/:id/:action{resolve|ignore|reopen}", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.redirect("/web/errors?error=" + encodeURIComponent("Invalid error group ID"));
+    }
+
+    const status = ACTION_STATUSES[c.req.param("action")];
+    try {
+      const group = await errorGroupService.setStatus(id, status);
+      return c.redirect("/web/errors?success=" + encodeURIComponent(`Error '${group.errorType}' marked ${status}`));
+    } catch (error) {
+      return c.redirect("/web/errors?error=" + encodeURIComponent(error instanceof Error ? error.message : "Failed to update error"));
+    }
+  });
+
+  return routes;
+}
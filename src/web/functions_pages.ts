@@ -1,18 +1,47 @@
 import { Hono } from "@hono/hono";
 import type { FunctionsService, FunctionDefinition, NewFunctionDefinition } from "../routes/functions_service.ts";
-import type { CorsConfig } from "../functions/types.ts";
+import type {
+  CorsConfig,
+  CronScheduleConfig,
+  JwtAlgorithm,
+  JwtAuthConfig,
+  JwtClaimValue,
+  SignatureAlgorithm,
+  SignatureConfig,
+  SignatureEncoding,
+  WorkerPermissions,
+} from "../functions/types.ts";
 import {
   validateFunctionName,
   validateFunctionPath,
   validateMethods,
+  validateCronSchedules,
+  validateTimeoutMs,
+  validateWorkerPermissions,
+  validateAllowedHosts,
+  validateSignature,
+  validateJwt,
+  MAX_TIMEOUT_MS,
+  MAX_JWT_CLOCK_TOLERANCE_SECONDS,
+  JWT_ALGORITHMS,
+  MAX_SIGNATURE_TOLERANCE_SECONDS,
+  SIGNATURE_ALGORITHMS,
+  SIGNATURE_ENCODINGS,
 } from "../validation/routes.ts";
 import type { ConsoleLogService } from "../logs/console_log_service.ts";
 import type { ConsoleLog } from "../logs/types.ts";
 import type { ExecutionMetricsService } from "../metrics/execution_metrics_service.ts";
-import type { ExecutionMetric, MetricType } from "../metrics/types.ts";
+import type { ExecutionCounts, ExecutionMetric, MetricType } from "../metrics/types.ts";
+import { LatencySketch, sketchOf } from "../metrics/latency_sketch.ts";
 import type { ApiKeyService, ApiKeyGroup } from "../keys/api_key_service.ts";
 import type { SecretsService } from "../secrets/secrets_service.ts";
 import type { Secret, SecretPreview } from "../secrets/types.ts";
+import type { KvService } from "../kv/kv_service.ts";
+import { MAX_KV_LIST_LIMIT } from "../kv/kv_service.ts";
+import type { KvEntry } from "../kv/types.ts";
+import { DEFAULT_SIGNATURE_TOLERANCE_SECONDS } from "../functions/signature_verifier.ts";
+import { DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS } from "../functions/jwt_validator.ts";
+import type { CodeSourceService } from "../sources/code_source_service.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
 import { RecordId } from "surrealdb";
 import type { SettingsService } from "../settings/settings_service.ts";
@@ -32,6 +61,8 @@ import {
   secretScripts,
   parseSecretFormData,
   parseSecretEditFormData,
+  ipAccessFields,
+  parseIpAccessFormData,
 } from "./templates.ts";
 import { csrfInput } from "../csrf/csrf_helpers.ts";
 import { validateSurrealId } from "../validation/common.ts";
@@ -47,16 +78,42 @@ interface ChartDataPoint {
   timestamp: Date;
   avgTimeMs: number;
   maxTimeMs: number;
+  p50TimeMs: number;
+  p90TimeMs: number;
+  p99TimeMs: number;
   executionCount: number;
+  /** Handler errors, timeouts and load errors */
+  errorCount: number;
+  status4xxCount: number;
+  status5xxCount: number;
+  /** Average time per execution spent in outbound calls */
+  avgOutboundTimeMs: number;
+  /** Latency distribution of the period (null for empty periods) */
+  latencySketch: LatencySketch | null;
   isCurrent: boolean;
   isInterpolated: boolean;
 }
 
+/** Time series interpolated across periods without activity */
+const INTERPOLATED_TIME_FIELDS = [
+  "avgTimeMs",
+  "maxTimeMs",
+  "p50TimeMs",
+  "p90TimeMs",
+  "p99TimeMs",
+  "avgOutboundTimeMs",
+] as const;
+
 interface MetricsSummary {
   avgExecutionsPerPeriod: number;
   avgExecutionTime: number;
   maxExecutionTime: number;
+  p99ExecutionTime: number;
+  /** Average time per execution spent in outbound calls */
+  avgOutboundTime: number;
   totalExecutions: number;
+  /** Share of executions that failed (0-1) */
+  errorRate: number;
   periodCount: number;
 }
 
@@ -162,22 +219,39 @@ function renderSecretsPreview(previews: SecretPreview[]): string {
   `;
 }
 
+/** Styles of the log level badges (shared with the live log rows rendered in the browser) */
+const LOG_LEVEL_COLORS: Record<string, string> = {
+  error: "color: #dc3545;",
+  warn: "color: #fd7e14;",
+  log: "color: #6c757d;",
+  debug: "color: #6c757d;",
+  info: "color: #17a2b8;",
+  trace: "color: #adb5bd;",
+  exec_start: "color: #28a745;",
+  exec_end: "color: #28a745;",
+  exec_reject: "color: #dc3545;",
+  outbound: "color: #6f42c1;",
+};
+
 function renderLogLevelBadge(level: string): string {
-  const levelColors: Record<string, string> = {
-    error: "color: #dc3545;",
-    warn: "color: #fd7e14;",
-    log: "color: #6c757d;",
-    debug: "color: #6c757d;",
-    info: "color: #17a2b8;",
-    trace: "color: #adb5bd;",
-    exec_start: "color: #28a745;",
-    exec_end: "color: #28a745;",
-    exec_reject: "color: #dc3545;",
-  };
-  const style = levelColors[level] ?? "";
+  const style = LOG_LEVEL_COLORS[level] ?? "";
   return `<span style="font-weight: bold; ${style}">${escapeHtml(level.toUpperCase())}</span>`;
 }
 
+/**
+ * The trigger of an execution that didn't come from an HTTP request
+ * ("scheduled", "async", "invoke" or "alert"), read from its exec_start entry.
+ */
+function getInvocationTrigger(log: ConsoleLog): string | undefined {
+  if (log.level !== "exec_start" || !log.args) return undefined;
+  try {
+    const trigger = JSON.parse(log.args).trigger;
+    return typeof trigger === "string" ? trigger : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 function formatTimeShort(date: Date): string {
   const h = date.getHours().toString().padStart(2, "0");
   const m = date.getMinutes().toString().padStart(2, "0");
@@ -255,30 +329,48 @@ function formatMetricsTimeLabel(date: Date, mode: MetricsDisplayMode): string {
  * Aggregate a list of metrics into a single summary.
  * Returns times in microseconds (matching database storage).
  */
-function aggregateMetrics(metrics: ExecutionMetric[]): {
+function aggregateMetrics(metrics: ExecutionMetric[]): ExecutionCounts & {
   avgTimeUs: number;
   maxTimeUs: number;
   executionCount: number;
+  latencySketch: LatencySketch;
 } {
-  if (metrics.length === 0) {
-    return { avgTimeUs: 0, maxTimeUs: 0, executionCount: 0 };
-  }
+  const result = {
+    avgTimeUs: 0,
+    maxTimeUs: 0,
+    executionCount: 0,
+    timeoutCount: 0,
+    errorCount: 0,
+    loadErrorCount: 0,
+    status2xxCount: 0,
+    status3xxCount: 0,
+    status4xxCount: 0,
+    status5xxCount: 0,
+    outboundCallCount: 0,
+    outboundTimeUs: 0,
+    latencySketch: new LatencySketch(),
+  };
 
   let totalWeightedSum = 0;
-  let totalCount = 0;
-  let maxTime = 0;
 
   for (const record of metrics) {
     totalWeightedSum += record.avgTimeUs * record.executionCount;
-    totalCount += record.executionCount;
-    maxTime = Math.max(maxTime, record.maxTimeUs);
+    result.executionCount += record.executionCount;
+    result.timeoutCount += record.timeoutCount;
+    result.errorCount += record.errorCount;
+    result.loadErrorCount += record.loadErrorCount;
+    result.status2xxCount += record.status2xxCount;
+    result.status3xxCount += record.status3xxCount;
+    result.status4xxCount += record.status4xxCount;
+    result.status5xxCount += record.status5xxCount;
+    result.outboundCallCount += record.outboundCallCount;
+    result.outboundTimeUs += record.outboundTimeUs;
+    result.maxTimeUs = Math.max(result.maxTimeUs, record.maxTimeUs);
+    result.latencySketch.merge(sketchOf(record));
   }
 
-  return {
-    avgTimeUs: totalCount > 0 ? totalWeightedSum / totalCount : 0,
-    maxTimeUs: maxTime,
-    executionCount: totalCount,
-  };
+  result.avgTimeUs = result.executionCount > 0 ? totalWeightedSum / result.executionCount : 0;
+  return result;
 }
 
 /**
@@ -352,18 +444,49 @@ async function calculateCurrentPeriodMetric(
   }
 
   return {
+    ...aggregated,
     id: new RecordId("metrics", "synthetic"), // Synthetic metric for current period
     functionId: routeId ? new RecordId("functionDef", routeId) : null,
     type: "execution", // Doesn't matter for display purposes
-    avgTimeUs: aggregated.avgTimeUs,
-    maxTimeUs: aggregated.maxTimeUs,
-    executionCount: aggregated.executionCount,
+    outcome: null,
+    statusCode: null,
     timestamp: periodStart,
   };
 }
 
 /**
- * Apply time interpolation to data points for avgTimeMs and maxTimeMs.
+ * Build a chart data point from a metric record, or an empty one for a period without activity.
+ */
+function toChartDataPoint(
+  slotTime: Date,
+  mode: MetricsDisplayMode,
+  metric: ExecutionMetric | null,
+  isCurrent: boolean
+): ChartDataPoint {
+  const sketch = metric ? sketchOf(metric) : null;
+  const quantileMs = (q: number) => (sketch?.quantile(q) ?? 0) / 1000;
+
+  return {
+    label: formatMetricsTimeLabel(slotTime, mode),
+    timestamp: slotTime,
+    avgTimeMs: metric ? metric.avgTimeUs / 1000 : 0,
+    maxTimeMs: metric ? metric.maxTimeUs / 1000 : 0,
+    p50TimeMs: quantileMs(0.5),
+    p90TimeMs: quantileMs(0.9),
+    p99TimeMs: quantileMs(0.99),
+    executionCount: metric?.executionCount ?? 0,
+    errorCount: metric ? metric.errorCount + metric.timeoutCount + metric.loadErrorCount : 0,
+    status4xxCount: metric?.status4xxCount ?? 0,
+    status5xxCount: metric?.status5xxCount ?? 0,
+    avgOutboundTimeMs: metric && metric.executionCount > 0 ? metric.outboundTimeUs / metric.executionCount / 1000 : 0,
+    latencySketch: sketch,
+    isCurrent,
+    isInterpolated: false, // Will be set by applyTimeInterpolation
+  };
+}
+
+/**
+ * Apply time interpolation to data points for the time series (avg, max and percentiles).
  * - Before first real data: use first real value
  * - Between real data points: linear interpolation
  * - After last real data: use last real value
@@ -390,37 +513,32 @@ function applyTimeInterpolation(dataPoints: ChartDataPoint[]): ChartDataPoint[]
     }
 
     // Interpolated point
-    let avgTimeMs: number;
-    let maxTimeMs: number;
+    const interpolated: ChartDataPoint = { ...point, isInterpolated: true };
 
     if (i < firstReal) {
       // Before first real: use first real value
-      avgTimeMs = dataPoints[firstReal].avgTimeMs;
-      maxTimeMs = dataPoints[firstReal].maxTimeMs;
+      for (const field of INTERPOLATED_TIME_FIELDS) {
+        interpolated[field] = dataPoints[firstReal][field];
+      }
     } else if (i > lastReal) {
       // After last real: use last real value
-      avgTimeMs = dataPoints[lastReal].avgTimeMs;
-      maxTimeMs = dataPoints[lastReal].maxTimeMs;
+      for (const field of INTERPOLATED_TIME_FIELDS) {
+        interpolated[field] = dataPoints[lastReal][field];
+      }
     } else {
       // Between real points: linear interpolation
       const prevReal = realIndices.filter((idx) => idx < i).pop()!;
       const nextReal = realIndices.find((idx) => idx > i)!;
       const ratio = (i - prevReal) / (nextReal - prevReal);
 
-      avgTimeMs =
-        dataPoints[prevReal].avgTimeMs +
-        ratio * (dataPoints[nextReal].avgTimeMs - dataPoints[prevReal].avgTimeMs);
-      maxTimeMs =
-        dataPoints[prevReal].maxTimeMs +
-        ratio * (dataPoints[nextReal].maxTimeMs - dataPoints[prevReal].maxTimeMs);
+      for (const field of INTERPOLATED_TIME_FIELDS) {
+        interpolated[field] =
+          dataPoints[prevReal][field] +
+          ratio * (dataPoints[nextReal][field] - dataPoints[prevReal][field]);
+      }
     }
 
-    return {
-      ...point,
-      avgTimeMs,
-      maxTimeMs,
-      isInterpolated: true,
-    };
+    return interpolated;
   });
 }
 
@@ -494,36 +612,12 @@ async function fetchMetricsData(
     const isCurrent = i === 0;
 
     if (isCurrent && currentMetric) {
-      rawDataPoints.push({
-        label: formatMetricsTimeLabel(slotTime, mode),
-        timestamp: slotTime,
-        avgTimeMs: currentMetric.avgTimeUs / 1000,
-        maxTimeMs: currentMetric.maxTimeUs / 1000,
-        executionCount: currentMetric.executionCount,
-        isCurrent: true,
-        isInterpolated: false,
-      });
+      rawDataPoints.push(toChartDataPoint(slotTime, mode, currentMetric, true));
     } else if (metric) {
-      rawDataPoints.push({
-        label: formatMetricsTimeLabel(slotTime, mode),
-        timestamp: slotTime,
-        avgTimeMs: metric.avgTimeUs / 1000,
-        maxTimeMs: metric.maxTimeUs / 1000,
-        executionCount: metric.executionCount,
-        isCurrent: false,
-        isInterpolated: false,
-      });
+      rawDataPoints.push(toChartDataPoint(slotTime, mode, metric, false));
     } else {
       // Empty period - show as 0 (will be interpolated later)
-      rawDataPoints.push({
-        label: formatMetricsTimeLabel(slotTime, mode),
-        timestamp: slotTime,
-        avgTimeMs: 0,
-        maxTimeMs: 0,
-        executionCount: 0,
-        isCurrent: isCurrent,
-        isInterpolated: false, // Will be set true by applyTimeInterpolation
-      });
+      rawDataPoints.push(toChartDataPoint(slotTime, mode, null, isCurrent));
     }
   }
 
@@ -542,26 +636,40 @@ function calculateSummary(dataPoints: ChartDataPoint[]): MetricsSummary {
       avgExecutionsPerPeriod: 0,
       avgExecutionTime: 0,
       maxExecutionTime: 0,
+      p99ExecutionTime: 0,
+      avgOutboundTime: 0,
       totalExecutions: 0,
+      errorRate: 0,
       periodCount: dataPoints.length,
     };
   }
 
   let totalExecutions = 0;
+  let totalErrors = 0;
   let weightedTimeSum = 0;
+  let weightedOutboundSum = 0;
   let maxTime = 0;
+  const combined = new LatencySketch();
 
   for (const point of nonZeroPoints) {
     totalExecutions += point.executionCount;
+    totalErrors += point.errorCount;
     weightedTimeSum += point.avgTimeMs * point.executionCount;
+    weightedOutboundSum += point.avgOutboundTimeMs * point.executionCount;
     maxTime = Math.max(maxTime, point.maxTimeMs);
+    if (point.latencySketch) {
+      combined.merge(point.latencySketch);
+    }
   }
 
   return {
     avgExecutionsPerPeriod: totalExecutions / dataPoints.length,
     avgExecutionTime: totalExecutions > 0 ? weightedTimeSum / totalExecutions : 0,
     maxExecutionTime: maxTime,
+    p99ExecutionTime: (combined.quantile(0.99) ?? 0) / 1000,
+    avgOutboundTime: totalExecutions > 0 ? weightedOutboundSum / totalExecutions : 0,
     totalExecutions,
+    errorRate: totalExecutions > 0 ? totalErrors / totalExecutions : 0,
     periodCount: dataPoints.length,
   };
 }
@@ -573,111 +681,333 @@ interface LogsPaginationOptions {
   hasMore: boolean;
 }
 
+/** Search filters of the logs page (times are UTC, like all displayed timestamps) */
+interface LogsSearchOptions {
+  search?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Parse the value of a datetime-local input as UTC.
+ * @returns undefined for empty or invalid values
+ */
+function parseUtcDateTimeInput(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value) ? `${value}Z` : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Format a date as the value of a datetime-local input (UTC, second precision).
+ */
+function toUtcDateTimeInput(date: Date | undefined): string {
+  return date ? date.toISOString().substring(0, 19) : "";
+}
+
+/** Styles of the logs table (ANSI colours are rendered by ansi_up) */
+const LOGS_TABLE_STYLES = `
+  <script src="https://cdn.jsdelivr.net/npm/ansi_up@4.0.4/ansi_up.js"></script>
+  <style>
+    .logs-table { font-size: 0.85em; }
+    .logs-table th, .logs-table td { padding: 0.4em 0.6em; }
+    .logs-table th:nth-child(1), .logs-table td:nth-child(1) { width: 1%; white-space: nowrap; }
+    .logs-table th:nth-child(2), .logs-table td:nth-child(2) { width: 1%; white-space: nowrap; }
+    .logs-table th:nth-child(3), .logs-table td:nth-child(3) { width: 1%; white-space: nowrap; }
+    .logs-table th:nth-child(4), .logs-table td:nth-child(4) { width: auto; }
+    .logs-table .log-message { font-family: monospace; word-break: break-word; }
+    .logs-table .log-row { cursor: pointer; }
+    .logs-table .log-row:hover { background: rgba(0,0,0,0.05); }
+    .logs-table .log-detail { display: none; }
+    .logs-table .log-detail.expanded { display: table-row; }
+    .logs-table .log-detail td { padding: 0.8em; background: #1a1a2e; }
+    .logs-table .log-detail pre {
+      margin: 0;
+      padding: 1em;
+      background: #0d0d1a;
+      border-radius: 4px;
+      overflow-x: auto;
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 0.95em;
+      color: #e0e0e0;
+    }
+    .request-id-copy {
+      cursor: pointer;
+      text-decoration: underline dotted;
+    }
+    .request-id-copy:hover { color: #17a2b8; }
+    .logs-controls { display: flex; gap: 0.5rem; align-items: center; flex-wrap: wrap; }
+    .logs-controls select { width: auto; margin: 0; padding: 0.4em 0.6em; }
+    .logs-search { display: flex; gap: 0.5rem; align-items: flex-end; flex-wrap: wrap; margin-bottom: 1rem; }
+    .logs-search input, .logs-search button, .logs-search a[role="button"] { margin: 0; }
+    .logs-search label { margin: 0; font-size: 0.85em; }
+    .logs-search input[type="datetime-local"] { width: auto; }
+  </style>
+`;
+
+/** Scripts of the logs table: ANSI rendering, row expansion and request ID copying */
+const LOGS_TABLE_SCRIPT = `
+  <script>
+    // Initialize ANSI to HTML converter
+    const ansiUp = new AnsiUp();
+    ansiUp.use_classes = false;
+
+    // Decode base64 with proper UTF-8 handling
+    function decodeBase64Utf8(base64) {
+      const binary = atob(base64);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return new TextDecoder().decode(bytes);
+    }
+
+    // Convert all log messages on page load
+    document.addEventListener('DOMContentLoaded', function() {
+      // Convert table cell messages
+      document.querySelectorAll('.log-message[data-raw]').forEach(function(el) {
+        const raw = el.getAttribute('data-raw');
+        if (raw) {
+          const decoded = decodeBase64Utf8(raw);
+          el.innerHTML = ansiUp.ansi_to_html(decoded);
+        }
+      });
+      // Convert expanded detail messages
+      document.querySelectorAll('.log-detail-content[data-raw]').forEach(function(el) {
+        const raw = el.getAttribute('data-raw');
+        if (raw) {
+          const decoded = decodeBase64Utf8(raw);
+          el.innerHTML = ansiUp.ansi_to_html(decoded);
+        }
+      });
+    });
+
+    function toggleLogDetail(rowId) {
+      const detail = document.getElementById('detail-' + rowId);
+      if (detail) {
+        detail.classList.toggle('expanded');
+      }
+    }
+    function copyRequestId(event, fullId) {
+      event.stopPropagation();
+      navigator.clipboard.writeText(fullId).then(() => {
+        const el = event.target;
+        const original = el.textContent;
+        el.textContent = 'copied!';
+        setTimeout(() => { el.textContent = original; }, 1000);
+      });
+    }
+  </script>
+`;
+
+/**
+ * Render log entries as an expandable table.
+ * @param rowIdPrefix - Prefix of the detail row IDs, unique per table on the page
+ */
+function renderLogsTable(logs: ConsoleLog[], rowIdPrefix: string): string {
+  return `
+    <table class="logs-table">
+      <thead>
+        <tr>
+          <th>Time</th>
+          <th>Level</th>
+          <th>Req ID</th>
+          <th>Message</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${logs
+          .map(
+            (log, i) => {
+              const rowId = `${rowIdPrefix}-${i}`;
+              const fullMessage = log.message +
+                (log.args ? `\n\nArgs: ${log.args}` : "") +
+                (log.fields ? `\n\nFields: ${JSON.stringify(log.fields)}` : "");
+              const requestIdShort = log.requestId.slice(-5);
+              // Truncate for table cell display (before encoding)
+              const truncatedMessage = log.message.substring(0, 120) + (log.message.length > 120 ? "..." : "");
+              // Base64 encode messages for safe transmission (handles ANSI codes and special chars)
+              const truncatedBase64 = toBase64(truncatedMessage);
+              const fullBase64 = toBase64(fullMessage);
+              const trigger = getInvocationTrigger(log);
+              return `
+          <tr class="log-row" onclick="toggleLogDetail('${rowId}')">
+            <td><code title="${escapeHtml(formatForDisplay(log.timestamp))}">${formatTimeShort(log.timestamp)}</code></td>
+            <td>${renderLogLevelBadge(log.level)}${trigger ? ` <small style="color: #6f42c1;">${escapeHtml(trigger)}</small>` : ""}</td>
+            <td>
+              <code class="request-id-copy" title="Click to copy: ${escapeHtml(log.requestId)}" onclick="copyRequestId(event, '${escapeHtml(log.requestId)}')">${escapeHtml(requestIdShort)}</code>
+              <a href="/web/functions/requests/${encodeURIComponent(log.requestId)}" title="View request and the functions it invoked" onclick="event.stopPropagation()">&#8599;</a>
+            </td>
+            <td class="log-message" data-raw="${truncatedBase64}"></td>
+          </tr>
+          <tr id="detail-${rowId}" class="log-detail">
+            <td colspan="4"><pre class="log-detail-content" data-raw="${fullBase64}"></pre></td>
+          </tr>
+        `;
+            }
+          )
+          .join("")}
+      </tbody>
+    </table>
+  `;
+}
+
 function renderLogsPage(
   functionName: string,
   functionId: string,
   logs: ConsoleLog[],
-  pagination: LogsPaginationOptions
+  pagination: LogsPaginationOptions,
+  searchOptions: LogsSearchOptions = {}
 ): string {
-  const logsTableStyles = `
-    <script src="https://cdn.jsdelivr.net/npm/ansi_up@4.0.4/ansi_up.js"></script>
-    <style>
-      .logs-table { font-size: 0.85em; }
-      .logs-table th, .logs-table td { padding: 0.4em 0.6em; }
-      .logs-table th:nth-child(1), .logs-table td:nth-child(1) { width: 1%; white-space: nowrap; }
-      .logs-table th:nth-child(2), .logs-table td:nth-child(2) { width: 1%; white-space: nowrap; }
-      .logs-table th:nth-child(3), .logs-table td:nth-child(3) { width: 1%; white-space: nowrap; }
-      .logs-table th:nth-child(4), .logs-table td:nth-child(4) { width: auto; }
-      .logs-table .log-message { font-family: monospace; word-break: break-word; }
-      .logs-table .log-row { cursor: pointer; }
-      .logs-table .log-row:hover { background: rgba(0,0,0,0.05); }
-      .logs-table .log-detail { display: none; }
-      .logs-table .log-detail.expanded { display: table-row; }
-      .logs-table .log-detail td { padding: 0.8em; background: #1a1a2e; }
-      .logs-table .log-detail pre {
-        margin: 0;
-        padding: 1em;
-        background: #0d0d1a;
-        border-radius: 4px;
-        overflow-x: auto;
-        white-space: pre-wrap;
-        word-break: break-word;
-        font-size: 0.95em;
-        color: #e0e0e0;
+  // Keep the search filters on every link of the page
+  const filterParams = new URLSearchParams();
+  if (searchOptions.search) filterParams.set("q", searchOptions.search);
+  if (searchOptions.requestId) filterParams.set("requestId", searchOptions.requestId);
+  if (searchOptions.from) filterParams.set("from", toUtcDateTimeInput(searchOptions.from));
+  if (searchOptions.to) filterParams.set("to", toUtcDateTimeInput(searchOptions.to));
+  const isFiltered = filterParams.size > 0;
+  const filterQuery = isFiltered ? `&${filterParams.toString()}` : "";
+
+  const paginationScript = `
+    <script>
+      function changePageSize(select) {
+        const limit = select.value;
+        window.location.href = '/web/functions/logs/${functionId}?limit=' + limit + '${filterQuery}';
+      }
+      function goToNextPage() {
+        const nextCursor = ${pagination.nextCursor ? `"${pagination.nextCursor}"` : "null"};
+        if (nextCursor) {
+          window.location.href = '/web/functions/logs/${functionId}?limit=${pagination.limit}${filterQuery}&cursor=' + encodeURIComponent(nextCursor);
+        }
       }
-      .request-id-copy {
-        cursor: pointer;
-        text-decoration: underline dotted;
+      function resetToNewest() {
+        window.location.href = '/web/functions/logs/${functionId}?limit=${pagination.limit}${filterQuery}';
       }
-      .request-id-copy:hover { color: #17a2b8; }
-      .logs-controls { display: flex; gap: 0.5rem; align-items: center; flex-wrap: wrap; }
-      .logs-controls select { width: auto; margin: 0; padding: 0.4em 0.6em; }
-    </style>
+    </script>
   `;
 
-  const logsTableScript = `
+  // Search terms as the index tokenizes them (runs of letters or digits)
+  const searchTerms = searchOptions.search?.match(/[\p{L}\p{N}]+/gu) ?? [];
+  const highlightScript = searchTerms.length === 0 ? "" : `
     <script>
-      // Initialize ANSI to HTML converter
-      const ansiUp = new AnsiUp();
-      ansiUp.use_classes = false;
-
-      // Decode base64 with proper UTF-8 handling
-      function decodeBase64Utf8(base64) {
-        const binary = atob(base64);
-        const bytes = new Uint8Array(binary.length);
-        for (let i = 0; i < binary.length; i++) {
-          bytes[i] = binary.charCodeAt(i);
-        }
-        return new TextDecoder().decode(bytes);
+      // Wrap matches of the search terms in <mark>, after the ANSI conversion
+      function highlightSearchTerms(root, pattern) {
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+        const nodes = [];
+        while (walker.nextNode()) nodes.push(walker.currentNode);
+        nodes.forEach(function(node) {
+          const text = node.nodeValue;
+          pattern.lastIndex = 0;
+          if (!pattern.test(text)) return;
+          const fragment = document.createDocumentFragment();
+          let last = 0;
+          text.replace(pattern, function(match, offset) {
+            fragment.append(text.slice(last, offset));
+            const mark = document.createElement('mark');
+            mark.textContent = match;
+            fragment.append(mark);
+            last = offset + match.length;
+            return match;
+          });
+          fragment.append(text.slice(last));
+          node.replaceWith(fragment);
+        });
       }
-
-      // Convert all log messages on page load
       document.addEventListener('DOMContentLoaded', function() {
-        // Convert table cell messages
-        document.querySelectorAll('.log-message[data-raw]').forEach(function(el) {
-          const raw = el.getAttribute('data-raw');
-          if (raw) {
-            const decoded = decodeBase64Utf8(raw);
-            el.innerHTML = ansiUp.ansi_to_html(decoded);
-          }
-        });
-        // Convert expanded detail messages
-        document.querySelectorAll('.log-detail-content[data-raw]').forEach(function(el) {
-          const raw = el.getAttribute('data-raw');
-          if (raw) {
-            const decoded = decodeBase64Utf8(raw);
-            el.innerHTML = ansiUp.ansi_to_html(decoded);
-          }
+        const pattern = new RegExp(${JSON.stringify(searchTerms.join("|"))}, 'giu');
+        document.querySelectorAll('.log-message, .log-detail-content').forEach(function(el) {
+          highlightSearchTerms(el, pattern);
         });
       });
+    </script>
+  `;
 
-      function toggleLogDetail(rowId) {
-        const detail = document.getElementById('detail-' + rowId);
-        if (detail) {
-          detail.classList.toggle('expanded');
-        }
-      }
-      function copyRequestId(event, fullId) {
-        event.stopPropagation();
-        navigator.clipboard.writeText(fullId).then(() => {
-          const el = event.target;
-          const original = el.textContent;
-          el.textContent = 'copied!';
-          setTimeout(() => { el.textContent = original; }, 1000);
-        });
+  // Follow mode: prepend entries streamed from /api/logs/stream, rendered like renderLogsTable() rows
+  const followScript = `
+    <script>
+      const LOG_LEVEL_COLORS = ${JSON.stringify(LOG_LEVEL_COLORS)};
+      let logStream = null;
+      let liveRowCount = 0;
+
+      function escapeLiveHtml(text) {
+        return String(text)
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&#39;');
       }
-      function changePageSize(select) {
-        const limit = select.value;
-        window.location.href = '/web/functions/logs/${functionId}?limit=' + limit;
+      function formatLiveTime(date) {
+        const pad = (value, length) => String(value).padStart(length, '0');
+        return pad(date.getHours(), 2) + ':' + pad(date.getMinutes(), 2) + ':' +
+          pad(date.getSeconds(), 2) + '.' + pad(date.getMilliseconds(), 3);
       }
-      function goToNextPage() {
-        const nextCursor = ${pagination.nextCursor ? `"${pagination.nextCursor}"` : "null"};
-        if (nextCursor) {
-          window.location.href = '/web/functions/logs/${functionId}?limit=${pagination.limit}&cursor=' + encodeURIComponent(nextCursor);
+      function getLiveTrigger(log) {
+        if (log.level !== 'exec_start' || !log.args) return null;
+        try {
+          const trigger = JSON.parse(log.args).trigger;
+          return typeof trigger === 'string' ? trigger : null;
+        } catch {
+          return null;
         }
       }
-      function resetToNewest() {
-        window.location.href = '/web/functions/logs/${functionId}?limit=${pagination.limit}';
+
+      function prependLiveLog(log) {
+        const tbody = document.querySelector('#logs-table-container tbody');
+        const rowId = 'live-' + (liveRowCount++);
+        const timestamp = new Date(log.timestamp);
+        const fullMessage = log.message +
+          (log.args ? '\\n\\nArgs: ' + log.args : '') +
+          (log.fields ? '\\n\\nFields: ' + JSON.stringify(log.fields) : '');
+        const truncatedMessage = log.message.substring(0, 120) + (log.message.length > 120 ? '...' : '');
+        const trigger = getLiveTrigger(log);
+
+        const row = document.createElement('tr');
+        row.className = 'log-row';
+        row.onclick = function() { toggleLogDetail(rowId); };
+        row.innerHTML =
+          '<td><code title="' + escapeLiveHtml(timestamp.toLocaleString()) + '">' + formatLiveTime(timestamp) + '</code></td>' +
+          '<td><span style="font-weight: bold; ' + (LOG_LEVEL_COLORS[log.level] || '') + '">' + escapeLiveHtml(log.level.toUpperCase()) + '</span>' +
+            (trigger ? ' <small style="color: #6f42c1;">' + escapeLiveHtml(trigger) + '</small>' : '') + '</td>' +
+          '<td><code class="request-id-copy" title="Click to copy: ' + escapeLiveHtml(log.requestId) + '">' + escapeLiveHtml(log.requestId.slice(-5)) + '</code> ' +
+            '<a href="/web/functions/requests/' + encodeURIComponent(log.requestId) + '" title="View request and the functions it invoked" onclick="event.stopPropagation()">&#8599;</a></td>' +
+          '<td class="log-message"></td>';
+        row.querySelector('.request-id-copy').onclick = function(event) { copyRequestId(event, log.requestId); };
+        row.querySelector('.log-message').innerHTML = ansiUp.ansi_to_html(truncatedMessage);
+
+        const detail = document.createElement('tr');
+        detail.id = 'detail-' + rowId;
+        detail.className = 'log-detail';
+        detail.innerHTML = '<td colspan="4"><pre class="log-detail-content"></pre></td>';
+        detail.querySelector('pre').innerHTML = ansiUp.ansi_to_html(fullMessage);
+
+        tbody.prepend(row, detail);
+      }
+
+      function setFollow(enabled) {
+        const status = document.getElementById('follow-status');
+        if (logStream) {
+          logStream.close();
+          logStream = null;
+        }
+        if (!enabled) {
+          status.textContent = '';
+          return;
+        }
+
+        document.getElementById('logs-empty')?.remove();
+        document.getElementById('logs-table-container').hidden = false;
+
+        // EventSource reconnects by itself after network errors
+        logStream = new EventSource('/api/logs/stream?functionId=' + encodeURIComponent('${functionId}'));
+        logStream.addEventListener('ready', function() { status.textContent = 'Following new logs'; });
+        logStream.addEventListener('log', function(event) { prependLiveLog(JSON.parse(event.data)); });
+        logStream.addEventListener('dropped', function(event) {
+          status.textContent = 'Following new logs (' + JSON.parse(event.data).count + ' skipped, browser too slow)';
+        });
+        logStream.onerror = function() { status.textContent = 'Reconnecting...'; };
       }
     </script>
   `;
@@ -686,78 +1016,126 @@ function renderLogsPage(
   const isViewingOlder = pagination.cursor !== null;
 
   return `
-    ${logsTableStyles}
+    ${LOGS_TABLE_STYLES}
     <h1>Logs: ${escapeHtml(functionName)}</h1>
     <div class="grid" style="margin-bottom: 1rem;">
       <div>
         <a href="/web/functions" role="button" class="secondary outline">&larr; Back to Functions</a>
       </div>
       <div style="text-align: right;" class="logs-controls">
+        ${isViewingOlder || isFiltered ? "" : `
+        <small id="follow-status" style="color: #6c757d;"></small>
+        <label style="margin: 0;" title="Show new logs as they are captured">
+          <input type="checkbox" role="switch" onchange="setFollow(this.checked)"> Follow
+        </label>
+        `}
         <label style="margin: 0;">Show:</label>
         <select onchange="changePageSize(this)">
           ${pageSizeOptions.map((size) => `<option value="${size}"${size === pagination.limit ? " selected" : ""}>${size}</option>`).join("")}
         </select>
         ${isViewingOlder ? `<button class="outline" onclick="resetToNewest()">Reset to Newest</button>` : ""}
-        <a href="/web/functions/logs/${functionId}?limit=${pagination.limit}${isViewingOlder && pagination.cursor ? "&cursor=" + encodeURIComponent(pagination.cursor) : ""}" role="button" class="outline">Refresh</a>
+        <a href="/web/functions/logs/${functionId}?limit=${pagination.limit}${filterQuery}${isViewingOlder && pagination.cursor ? "&cursor=" + encodeURIComponent(pagination.cursor) : ""}" role="button" class="outline">Refresh</a>
       </div>
     </div>
+    <form method="get" action="/web/functions/logs/${functionId}" class="logs-search">
+      <input type="hidden" name="limit" value="${pagination.limit}">
+      <input type="search" name="q" placeholder="Search messages and args" value="${escapeHtml(searchOptions.search ?? "")}" style="flex: 2 1 16rem;">
+      <input type="text" name="requestId" placeholder="Request ID" value="${escapeHtml(searchOptions.requestId ?? "")}" style="flex: 1 1 10rem;">
+      <label>From (UTC) <input type="datetime-local" step="1" name="from" value="${toUtcDateTimeInput(searchOptions.from)}"></label>
+      <label>To (UTC) <input type="datetime-local" step="1" name="to" value="${toUtcDateTimeInput(searchOptions.to)}"></label>
+      <button type="submit">Search</button>
+      ${isFiltered ? `<a href="/web/functions/logs/${functionId}?limit=${pagination.limit}" role="button" class="secondary outline">Clear</a>` : ""}
+    </form>
     ${
       logs.length === 0
-        ? "<p><em>No logs recorded for this function.</em></p>"
+        ? `<p id="logs-empty"><em>${isFiltered ? "No logs match the search." : "No logs recorded for this function."}</em></p>`
         : `
       <p style="color: #6c757d;">
-        Showing ${logs.length} log${logs.length === 1 ? "" : "s"}${isViewingOlder ? " (viewing older)" : " (newest)"}:
+        Showing ${logs.length} ${isFiltered ? "matching " : ""}log${logs.length === 1 ? "" : "s"}${isViewingOlder ? " (viewing older)" : " (newest)"}:
         <strong>${formatForDisplay(logs[logs.length - 1].timestamp)}</strong> to <strong>${formatForDisplay(logs[0].timestamp)}</strong>.
         Click a row to expand.
-      </p>
-      <table class="logs-table">
-        <thead>
-          <tr>
-            <th>Time</th>
-            <th>Level</th>
-            <th>Req ID</th>
-            <th>Message</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${logs
-            .map(
-              (log, i) => {
-                const fullMessage = log.args
-                  ? `${log.message}\n\nArgs: ${log.args}`
-                  : log.message;
-                const requestIdShort = log.requestId.slice(-5);
-                // Truncate for table cell display (before encoding)
-                const truncatedMessage = log.message.substring(0, 120) + (log.message.length > 120 ? "..." : "");
-                // Base64 encode messages for safe transmission (handles ANSI codes and special chars)
-                const truncatedBase64 = toBase64(truncatedMessage);
-                const fullBase64 = toBase64(fullMessage);
-                return `
-            <tr class="log-row" onclick="toggleLogDetail(${i})">
-              <td><code title="${escapeHtml(formatForDisplay(log.timestamp))}">${formatTimeShort(log.timestamp)}</code></td>
-              <td>${renderLogLevelBadge(log.level)}</td>
-              <td><code class="request-id-copy" title="Click to copy: ${escapeHtml(log.requestId)}" onclick="copyRequestId(event, '${escapeHtml(log.requestId)}')">${escapeHtml(requestIdShort)}</code></td>
-              <td class="log-message" data-raw="${truncatedBase64}"></td>
-            </tr>
-            <tr id="detail-${i}" class="log-detail">
-              <td colspan="4"><pre class="log-detail-content" data-raw="${fullBase64}"></pre></td>
-            </tr>
-          `;
-              }
-            )
-            .join("")}
-        </tbody>
-      </table>
-      ${pagination.hasMore ? `
+      </p>`
+    }
+    <div id="logs-table-container"${logs.length === 0 ? " hidden" : ""}>
+      ${renderLogsTable(logs, "log")}
+    </div>
+    ${
+      logs.length === 0
+        ? ""
+        : pagination.hasMore ? `
         <div style="margin-top: 1rem; text-align: center;">
           <button onclick="goToNextPage()">Load Older Logs &rarr;</button>
         </div>
       ` : `
         <p style="margin-top: 1rem; text-align: center; color: #6c757d;"><em>No more logs</em></p>
-      `}
-      ${logsTableScript}
-    `
+      `
     }
+    ${LOGS_TABLE_SCRIPT}
+    ${paginationScript}
+    ${highlightScript}
+    ${isViewingOlder || isFiltered ? "" : followScript}
+  `;
+}
+
+/** A request's logs together with the invocations it made via ctx.invoke() */
+interface RequestLogTree {
+  requestId: string;
+  functionName: string;
+  logs: ConsoleLog[];
+  children: RequestLogTree[];
+}
+
+/** Deepest call level loaded for the request page (the max invoke depth setting's upper bound) */
+const MAX_REQUEST_TREE_DEPTH = 32;
+
+/**
+ * Render a request's logs with each child invocation nested beneath it.
+ */
+function renderRequestTree(node: RequestLogTree, rowIdPrefix: string): string {
+  return `
+    ${renderLogsTable(node.logs, rowIdPrefix)}
+    ${node.children
+      .map(
+        (child, i) => `
+      <div style="margin: 0 0 1rem 1.5rem; padding-left: 1rem; border-left: 3px solid #6f42c1;">
+        <p style="margin-bottom: 0.5rem;">
+          &#8627; <strong>${escapeHtml(child.functionName)}</strong>
+          <a href="/web/functions/requests/${encodeURIComponent(child.requestId)}"><code>${escapeHtml(child.requestId.slice(-5))}</code></a>
+        </p>
+        ${renderRequestTree(child, `${rowIdPrefix}-c${i}`)}
+      </div>
+    `
+      )
+      .join("")}
+  `;
+}
+
+function renderRequestPage(
+  tree: RequestLogTree,
+  functionId: string,
+  parentRequestId: string | undefined
+): string {
+  return `
+    ${LOGS_TABLE_STYLES}
+    <h1>Request: ${escapeHtml(tree.functionName)}</h1>
+    <div class="grid" style="margin-bottom: 1rem;">
+      <div>
+        ${functionId
+          ? `<a href="/web/functions/logs/${functionId}" role="button" class="secondary outline">&larr; Back to Logs</a>`
+          : `<a href="/web/functions" role="button" class="secondary outline">&larr; Back to Functions</a>`}
+      </div>
+      <div style="text-align: right;">
+        ${parentRequestId
+          ? `<a href="/web/functions/requests/${encodeURIComponent(parentRequestId)}" role="button" class="outline">Called by ${escapeHtml(parentRequestId.slice(-5))} &uarr;</a>`
+          : ""}
+      </div>
+    </div>
+    <p style="color: #6c757d;">
+      Request <code>${escapeHtml(tree.requestId)}</code>.
+      Functions it invoked via <code>ctx.invoke()</code> are nested beneath it. Click a row to expand.
+    </p>
+    ${renderRequestTree(tree, "req")}
+    ${LOGS_TABLE_SCRIPT}
   `;
 }
 
@@ -789,7 +1167,16 @@ function renderMetricsPage(
   const labels = JSON.stringify(dataPoints.map((p) => p.label));
   const avgTimes = JSON.stringify(dataPoints.map((p) => Number(p.avgTimeMs.toFixed(2))));
   const maxTimes = JSON.stringify(dataPoints.map((p) => Number(p.maxTimeMs.toFixed(2))));
+  const p50Times = JSON.stringify(dataPoints.map((p) => Number(p.p50TimeMs.toFixed(2))));
+  const p90Times = JSON.stringify(dataPoints.map((p) => Number(p.p90TimeMs.toFixed(2))));
+  const p99Times = JSON.stringify(dataPoints.map((p) => Number(p.p99TimeMs.toFixed(2))));
+  const outboundTimes = JSON.stringify(dataPoints.map((p) => Number(p.avgOutboundTimeMs.toFixed(2))));
   const execCounts = JSON.stringify(dataPoints.map((p) => p.executionCount));
+  // Rates in percent of the period's executions (0 for periods without activity)
+  const percentOf = (count: number, total: number) => total > 0 ? Number((count / total * 100).toFixed(2)) : 0;
+  const errorRates = JSON.stringify(dataPoints.map((p) => percentOf(p.errorCount, p.executionCount)));
+  const status5xxRates = JSON.stringify(dataPoints.map((p) => percentOf(p.status5xxCount, p.executionCount)));
+  const status4xxRates = JSON.stringify(dataPoints.map((p) => percentOf(p.status4xxCount, p.executionCount)));
   const currentFlags = JSON.stringify(dataPoints.map((p) => p.isCurrent));
   const interpolatedFlags = JSON.stringify(dataPoints.map((p) => p.isInterpolated));
 
@@ -868,7 +1255,14 @@ function renderMetricsPage(
         const labels = ${labels};
         const avgTimes = ${avgTimes};
         const maxTimes = ${maxTimes};
+        const p50Times = ${p50Times};
+        const p90Times = ${p90Times};
+        const p99Times = ${p99Times};
+        const outboundTimes = ${outboundTimes};
         const execCounts = ${execCounts};
+        const errorRates = ${errorRates};
+        const status5xxRates = ${status5xxRates};
+        const status4xxRates = ${status4xxRates};
         const currentFlags = ${currentFlags};
         const interpolatedFlags = ${interpolatedFlags};
 
@@ -886,6 +1280,26 @@ function renderMetricsPage(
           return normalColor;
         }
 
+        // Percentile line (thin, dashed across periods without activity)
+        function percentileDataset(label, data, color) {
+          return {
+            label: label,
+            data: data,
+            borderColor: color,
+            borderWidth: 1.5,
+            tension: 0.1,
+            fill: false,
+            segment: {
+              borderDash: function(ctx) {
+                return interpolatedFlags[ctx.p0DataIndex] && interpolatedFlags[ctx.p1DataIndex] ? [5, 5] : [];
+              }
+            },
+            pointBackgroundColor: data.map((_, i) => getPointColor(i, color)),
+            pointBorderColor: data.map((_, i) => getPointColor(i, color)),
+            pointRadius: data.map((_, i) => currentFlags[i] ? 4 : 0),
+          };
+        }
+
         // Execution Time Chart
         const timeCtx = document.getElementById('executionTimeChart').getContext('2d');
         new Chart(timeCtx, {
@@ -946,7 +1360,11 @@ function renderMetricsPage(
                 pointBackgroundColor: maxTimes.map((_, i) => getPointColor(i, maxColor)),
                 pointBorderColor: maxTimes.map((_, i) => getPointColor(i, maxColor)),
                 pointRadius: maxTimes.map((_, i) => currentFlags[i] ? 6 : (interpolatedFlags[i] ? 2 : 3)),
-              }
+              },
+              percentileDataset('p50 (ms)', p50Times, 'rgb(54, 162, 235)'),
+              percentileDataset('p90 (ms)', p90Times, 'rgb(153, 102, 255)'),
+              percentileDataset('p99 (ms)', p99Times, 'rgb(201, 203, 207)'),
+              percentileDataset('Avg Outbound (ms)', outboundTimes, 'rgb(111, 66, 193)')
             ]
           },
           options: {
@@ -980,6 +1398,71 @@ function renderMetricsPage(
           }
         });
 
+        // Error Rate Chart
+        const errorCtx = document.getElementById('errorRateChart').getContext('2d');
+        new Chart(errorCtx, {
+          type: 'line',
+          data: {
+            labels: labels,
+            datasets: [
+              {
+                label: 'Failed executions (%)',
+                data: errorRates,
+                borderColor: maxColor,
+                backgroundColor: 'rgba(255, 99, 132, 0.1)',
+                tension: 0.1,
+                fill: true,
+                pointBackgroundColor: errorRates.map((_, i) => currentFlags[i] ? currentColor : maxColor),
+                pointRadius: errorRates.map((_, i) => currentFlags[i] ? 6 : 2),
+              },
+              {
+                label: '5xx responses (%)',
+                data: status5xxRates,
+                borderColor: 'rgb(255, 159, 64)',
+                borderWidth: 1.5,
+                tension: 0.1,
+                fill: false,
+                pointRadius: 0,
+              },
+              {
+                label: '4xx responses (%)',
+                data: status4xxRates,
+                borderColor: 'rgb(255, 205, 86)',
+                borderWidth: 1.5,
+                tension: 0.1,
+                fill: false,
+                pointRadius: 0,
+              }
+            ]
+          },
+          options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            scales: {
+              y: {
+                beginAtZero: true,
+                suggestedMax: 5,
+                title: {
+                  display: true,
+                  text: 'Share of executions (%)'
+                }
+              }
+            },
+            plugins: {
+              tooltip: {
+                callbacks: {
+                  afterLabel: function(context) {
+                    if (currentFlags[context.dataIndex]) {
+                      return '(Current period - live data)';
+                    }
+                    return '';
+                  }
+                }
+              }
+            }
+          }
+        });
+
         // Request Count Chart
         const countCtx = document.getElementById('requestCountChart').getContext('2d');
         new Chart(countCtx, {
@@ -1077,10 +1560,22 @@ function renderMetricsPage(
           <h3>Avg Execution Time</h3>
           <div class="value">${summary.avgExecutionTime.toFixed(1)} ms</div>
         </div>
+        <div class="summary-card">
+          <h3>p99 Execution Time</h3>
+          <div class="value">${summary.p99ExecutionTime.toFixed(1)} ms</div>
+        </div>
+        <div class="summary-card">
+          <h3>Avg Outbound Time</h3>
+          <div class="value">${summary.avgOutboundTime.toFixed(1)} ms</div>
+        </div>
         <div class="summary-card">
           <h3>Max Execution Time</h3>
           <div class="value">${summary.maxExecutionTime.toFixed(1)} ms</div>
         </div>
+        <div class="summary-card">
+          <h3>Error Rate</h3>
+          <div class="value">${(summary.errorRate * 100).toFixed(2)}%</div>
+        </div>
         <div class="summary-card">
           <h3>Total Executions</h3>
           <div class="value">${summary.totalExecutions}</div>
@@ -1092,6 +1587,11 @@ function renderMetricsPage(
         <canvas id="executionTimeChart"></canvas>
       </div>
 
+      <h3>Error Rate</h3>
+      <div class="chart-container">
+        <canvas id="errorRateChart"></canvas>
+      </div>
+
       <h3>Request Count</h3>
       <div class="chart-container">
         <canvas id="requestCountChart"></canvas>
@@ -1153,6 +1653,12 @@ function renderFunctionForm(
                required placeholder="/api/users/:id">
         <small>URL path pattern (must start with /)</small>
       </label>
+      <label>
+        Timeout (ms)
+        <input type="number" name="timeoutMs" value="${route.timeoutMs ?? ""}"
+               min="1" max="${MAX_TIMEOUT_MS}" placeholder="Use global default">
+        <small>Maximum handler run time before a 504 is returned. Leave empty to use the default from settings.</small>
+      </label>
       <fieldset>
         <legend>HTTP Methods</legend>
         ${ALL_METHODS.map(
@@ -1206,6 +1712,124 @@ function renderFunctionForm(
           </label>
         </div>
       </fieldset>
+      <fieldset>
+        <legend>Cron Schedules</legend>
+        <label>
+          Schedules (one per line, optional)
+          <textarea name="cronSchedules" rows="3" placeholder="*/15 * * * *&#10;0 9 * * 1-5 | Europe/Warsaw&#10;@daily | UTC | POST">${escapeHtml(formatCronSchedules(route.cronSchedules))}</textarea>
+          <small>Format: <code>expression | timezone | method</code>. Timezone defaults to UTC, method to the first selected method.
+          Scheduled runs skip API key checks and appear as "scheduled" in the logs.</small>
+        </label>
+      </fieldset>
+      <fieldset>
+        <legend>Worker Isolation</legend>
+        <label>
+          <input type="checkbox" name="workerEnabled"
+                 ${route.worker ? "checked" : ""}
+                 onchange="document.getElementById('workerConfig').style.display = this.checked ? 'block' : 'none'">
+          Run handler in an isolated worker
+        </label>
+        <small>The handler runs in a dedicated Deno Worker and can only use the permissions below. Everything else is denied.</small>
+        <div id="workerConfig" style="${route.worker ? "" : "display:none"}; margin-top: 1rem;">
+          <label>
+            Network hosts (one per line, optional)
+            <textarea name="workerNet" rows="2" placeholder="api.example.com&#10;db.internal:5432">${escapeHtml(route.worker?.net?.join("\n") ?? "")}</textarea>
+          </label>
+          <label>
+            Readable paths (one per line, optional)
+            <textarea name="workerRead" rows="2" placeholder="shared/&#10;/srv/reports">${escapeHtml(route.worker?.read?.join("\n") ?? "")}</textarea>
+            <small>Relative paths are resolved against the code directory. The handler's own directory is always readable.</small>
+          </label>
+          <label>
+            Writable paths (one per line, optional)
+            <textarea name="workerWrite" rows="2" placeholder="/tmp/my-function">${escapeHtml(route.worker?.write?.join("\n") ?? "")}</textarea>
+          </label>
+          <label>
+            Environment variables (one per line, optional)
+            <textarea name="workerEnv" rows="2" placeholder="TZ&#10;MY_SERVICE_URL">${escapeHtml(route.worker?.env?.join("\n") ?? "")}</textarea>
+          </label>
+        </div>
+      </fieldset>
+      <fieldset>
+        <legend>Outbound Requests</legend>
+        <label>
+          <input type="checkbox" name="allowedHostsEnabled"
+                 ${route.allowedHosts ? "checked" : ""}
+                 onchange="document.getElementById('allowedHostsConfig').style.display = this.checked ? 'block' : 'none'">
+          Only allow calls to specific hosts
+        </label>
+        <small>Every fetch() call is logged at the "outbound" level. With this enabled, calls to other hosts fail before they are sent.</small>
+        <div id="allowedHostsConfig" style="${route.allowedHosts ? "" : "display:none"}; margin-top: 1rem;">
+          <label>
+            Allowed hosts (one per line)
+            <textarea name="allowedHosts" rows="2" placeholder="api.example.com&#10;*.stripe.com&#10;localhost:8080">${escapeHtml(route.allowedHosts?.join("\n") ?? "")}</textarea>
+            <small><code>*.example.com</code> allows any subdomain. Leave empty to block all outbound calls.</small>
+          </label>
+        </div>
+      </fieldset>
+      <fieldset>
+        <legend>Request Signature</legend>
+        <label>
+          <input type="checkbox" name="signatureEnabled"
+                 ${route.signature ? "checked" : ""}
+                 onchange="document.getElementById('signatureConfig').style.display = this.checked ? 'block' : 'none'">
+          Require an HMAC signature on HTTP requests
+        </label>
+        <small>For webhooks from GitHub, Slack, Stripe and similar services. Unsigned requests are rejected with 401 before the handler runs.</small>
+        <div id="signatureConfig" style="${route.signature ? "" : "display:none"}; margin-top: 1rem;">
+          <label>
+            Signature header
+            <input type="text" name="signatureHeader" value="${escapeHtml(route.signature?.header ?? "")}"
+                   placeholder="X-Hub-Signature-256">
+          </label>
+          <label>
+            Secret name
+            <input type="text" name="signatureSecret" value="${escapeHtml(route.signature?.secret ?? "")}"
+                   placeholder="WEBHOOK_SECRET">
+            <small>Function or global secret holding the signing key</small>
+          </label>
+          <label>
+            Algorithm
+            <select name="signatureAlgorithm">
+              ${SIGNATURE_ALGORITHMS.map((algorithm) => `<option value="${algorithm}"${algorithm === (route.signature?.algorithm ?? "sha256") ? " selected" : ""}>HMAC-${algorithm.toUpperCase()}</option>`).join("")}
+            </select>
+          </label>
+          <label>
+            Encoding
+            <select name="signatureEncoding">
+              ${SIGNATURE_ENCODINGS.map((encoding) => `<option value="${encoding}"${encoding === (route.signature?.encoding ?? "hex") ? " selected" : ""}>${encoding}</option>`).join("")}
+            </select>
+          </label>
+          <label>
+            Signature prefix (optional)
+            <input type="text" name="signaturePrefix" value="${escapeHtml(route.signature?.prefix ?? "")}"
+                   placeholder="sha256=">
+            <small>With a prefix the header is split on commas and every part starting with it is checked</small>
+          </label>
+          <label>
+            Signed payload (optional)
+            <input type="text" name="signaturePayload" value="${escapeHtml(route.signature?.payload ?? "")}"
+                   placeholder="{body}">
+            <small>Template of the signed content, e.g. <code>v0:{timestamp}:{body}</code>. Defaults to the raw body.</small>
+          </label>
+          <label>
+            Timestamp header (optional)
+            <input type="text" name="signatureTimestampHeader" value="${escapeHtml(route.signature?.timestampHeader ?? "")}"
+                   placeholder="X-Slack-Request-Timestamp">
+          </label>
+          <label>
+            Timestamp prefix (optional)
+            <input type="text" name="signatureTimestampPrefix" value="${escapeHtml(route.signature?.timestampPrefix ?? "")}"
+                   placeholder="t=">
+          </label>
+          <label>
+            Timestamp tolerance (seconds)
+            <input type="number" name="signatureToleranceSeconds" value="${route.signature?.toleranceSeconds ?? ""}"
+                   min="1" max="${MAX_SIGNATURE_TOLERANCE_SECONDS}" placeholder="${DEFAULT_SIGNATURE_TOLERANCE_SECONDS}">
+            <small>Requests with an older or newer timestamp are rejected to prevent replays</small>
+          </label>
+        </div>
+      </fieldset>
       <fieldset>
         <legend>Required API Key Groups</legend>
         <small>Select which API key groups are allowed to access this function (optional)</small>
@@ -1226,6 +1850,59 @@ function renderFunctionForm(
               ).join("")
         }
       </fieldset>
+      <fieldset>
+        <legend>JWT Authentication</legend>
+        <label>
+          <input type="checkbox" name="jwtEnabled"
+                 ${route.jwt ? "checked" : ""}
+                 onchange="document.getElementById('jwtConfig').style.display = this.checked ? 'block' : 'none'">
+          Accept JWT bearer tokens from an identity provider
+        </label>
+        <small>Requests with <code>Authorization: Bearer &lt;jwt&gt;</code> are verified against the issuer's keys. With API key groups selected above, either credential is accepted.</small>
+        <div id="jwtConfig" style="${route.jwt ? "" : "display:none"}; margin-top: 1rem;">
+          <label>
+            Issuer
+            <input type="text" name="jwtIssuer" value="${escapeHtml(route.jwt?.issuer ?? "")}"
+                   placeholder="https://auth.example.com/">
+            <small>Must match the token's <code>iss</code> claim exactly</small>
+          </label>
+          <label>
+            Audience (optional)
+            <input type="text" name="jwtAudience" value="${escapeHtml(route.jwt?.audience ?? "")}"
+                   placeholder="crude-functions">
+          </label>
+          <label>
+            JWKS URL
+            <input type="url" name="jwtJwksUrl" value="${escapeHtml(route.jwt?.jwksUrl ?? "")}"
+                   placeholder="https://auth.example.com/.well-known/jwks.json">
+          </label>
+          <label>
+            Static public key (instead of a JWKS URL)
+            <textarea name="jwtPublicKey" rows="3" placeholder="-----BEGIN PUBLIC KEY-----">${escapeHtml(route.jwt?.publicKey ?? "")}</textarea>
+            <small>A PEM public key, a JWK or a JWK set - for offline testing or issuers without a JWKS endpoint</small>
+          </label>
+          <label>
+            Algorithms (optional, comma-separated)
+            <input type="text" name="jwtAlgorithms" value="${escapeHtml(route.jwt?.algorithms?.join(", ") ?? "")}"
+                   placeholder="${JWT_ALGORITHMS.join(", ")}">
+          </label>
+          <label>
+            Required claims (one per line, optional)
+            <textarea name="jwtRequiredClaims" rows="2" placeholder="email_verified=true&#10;groups=admins">${escapeHtml(formatRequiredClaims(route.jwt?.requiredClaims))}</textarea>
+            <small><code>true</code>, <code>false</code> and numbers are compared as such - quote them to compare strings. Array claims must contain the value.</small>
+          </label>
+          <label>
+            Clock tolerance (seconds)
+            <input type="number" name="jwtClockToleranceSeconds" value="${route.jwt?.clockToleranceSeconds ?? ""}"
+                   min="0" max="${MAX_JWT_CLOCK_TOLERANCE_SECONDS}" placeholder="${DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS}">
+          </label>
+        </div>
+      </fieldset>
+      <fieldset>
+        <legend><strong>Client IP Access</strong></legend>
+        <small>HTTP requests from other addresses are rejected before authentication. The global lists in Settings apply too.</small>
+        ${ipAccessFields(route.ipAccess)}
+      </fieldset>
       ${isEdit && route.id ? `
       <div style="margin: 1rem 0;">
         <button type="button" id="secrets-preview-btn"
@@ -1348,6 +2025,16 @@ function parseFormData(formData: FormData): {
     errors.push("At least one valid HTTP method must be selected");
   }
 
+  // Timeout is optional - empty means use the global default
+  const timeoutStr = formData.get("timeoutMs")?.toString().trim() ?? "";
+  let timeoutMs: number | undefined = undefined;
+  if (timeoutStr) {
+    timeoutMs = Number(timeoutStr);
+    if (!validateTimeoutMs(timeoutMs)) {
+      errors.push(`Timeout must be a whole number of milliseconds between 1 and ${MAX_TIMEOUT_MS}`);
+    }
+  }
+
   // Keys are optional - only include if any selected
   const keys = keysArray.length > 0 ? keysArray : undefined;
 
@@ -1407,6 +2094,100 @@ function parseFormData(formData: FormData): {
     };
   }
 
+  // Parse cron schedules (one per line: "expression | timezone | method")
+  const cronSchedulesText = formData.get("cronSchedules")?.toString() ?? "";
+  const cronScheduleList = parseCronSchedules(cronSchedulesText);
+  const cronError = validateCronSchedules(cronScheduleList, methods);
+  if (cronError) {
+    errors.push(cronError);
+  }
+  const cronSchedules = cronScheduleList.length > 0 ? cronScheduleList : undefined;
+
+  // Parse worker permissions (one entry per line)
+  let worker: WorkerPermissions | undefined = undefined;
+  if (formData.get("workerEnabled") === "on") {
+    const lines = (field: string) => {
+      const entries = (formData.get(field)?.toString() ?? "")
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+      return entries.length > 0 ? entries : undefined;
+    };
+    worker = {
+      net: lines("workerNet"),
+      read: lines("workerRead"),
+      write: lines("workerWrite"),
+      env: lines("workerEnv"),
+    };
+    const workerError = validateWorkerPermissions(worker);
+    if (workerError) {
+      errors.push(workerError);
+    }
+  }
+
+  // Parse allowed outbound hosts (one per line, an empty list blocks all calls)
+  let allowedHosts: string[] | undefined = undefined;
+  if (formData.get("allowedHostsEnabled") === "on") {
+    allowedHosts = (formData.get("allowedHosts")?.toString() ?? "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    const allowedHostsError = validateAllowedHosts(allowedHosts);
+    if (allowedHostsError) {
+      errors.push(allowedHostsError);
+    }
+  }
+
+  // Parse request signature settings (empty optional fields use the defaults)
+  let signature: SignatureConfig | undefined = undefined;
+  if (formData.get("signatureEnabled") === "on") {
+    const field = (name: string) => formData.get(name)?.toString() || undefined;
+    const toleranceStr = formData.get("signatureToleranceSeconds")?.toString().trim();
+    signature = {
+      header: formData.get("signatureHeader")?.toString().trim() ?? "",
+      secret: formData.get("signatureSecret")?.toString().trim() ?? "",
+      algorithm: field("signatureAlgorithm") as SignatureAlgorithm | undefined,
+      encoding: field("signatureEncoding") as SignatureEncoding | undefined,
+      prefix: field("signaturePrefix"),
+      payload: field("signaturePayload"),
+      timestampHeader: field("signatureTimestampHeader")?.trim() || undefined,
+      timestampPrefix: field("signatureTimestampPrefix"),
+      toleranceSeconds: toleranceStr ? Number(toleranceStr) : undefined,
+    };
+    const signatureError = validateSignature(signature);
+    if (signatureError) {
+      errors.push(signatureError);
+    }
+  }
+
+  // Parse JWT authentication settings (empty optional fields use the defaults)
+  let jwt: JwtAuthConfig | undefined = undefined;
+  if (formData.get("jwtEnabled") === "on") {
+    const field = (name: string) => formData.get(name)?.toString().trim() || undefined;
+    const algorithms = field("jwtAlgorithms")?.split(",").map((a) => a.trim()).filter((a) => a.length > 0);
+    const requiredClaims = parseRequiredClaims(formData.get("jwtRequiredClaims")?.toString() ?? "");
+    const toleranceStr = field("jwtClockToleranceSeconds");
+    jwt = {
+      issuer: field("jwtIssuer") ?? "",
+      audience: field("jwtAudience"),
+      jwksUrl: field("jwtJwksUrl"),
+      publicKey: field("jwtPublicKey"),
+      algorithms: algorithms?.length ? algorithms as JwtAlgorithm[] : undefined,
+      requiredClaims: Object.keys(requiredClaims).length > 0 ? requiredClaims : undefined,
+      clockToleranceSeconds: toleranceStr ? Number(toleranceStr) : undefined,
+    };
+    const jwtError = validateJwt(jwt);
+    if (jwtError) {
+      errors.push(jwtError);
+    }
+  }
+
+  const { ipAccess, errors: ipAccessErrors } = parseIpAccessFormData(
+    formData.get("ipAllow")?.toString() ?? "",
+    formData.get("ipDeny")?.toString() ?? ""
+  );
+  errors.push(...ipAccessErrors);
+
   const route: NewFunctionDefinition = {
     name,
     description,
@@ -1415,11 +2196,86 @@ function parseFormData(formData: FormData): {
     methods,
     keys,
     cors,
+    cronSchedules,
+    timeoutMs,
+    worker,
+    allowedHosts,
+    signature,
+    jwt,
+    ipAccess,
   };
 
   return { route, errors };
 }
 
+/**
+ * Parse required JWT claims (one "name=value" per line). Unquoted true, false
+ * and numbers are typed values, anything else (or a quoted value) is a string.
+ */
+function parseRequiredClaims(text: string): Record<string, JwtClaimValue> {
+  const claims: Record<string, JwtClaimValue> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    const name = line.slice(0, separator).trim();
+    const raw = line.slice(separator + 1).trim();
+    if (/^".*"$/.test(raw)) {
+      claims[name] = raw.slice(1, -1);
+    } else if (raw === "true" || raw === "false") {
+      claims[name] = raw === "true";
+    } else if (raw !== "" && !isNaN(Number(raw))) {
+      claims[name] = Number(raw);
+    } else {
+      claims[name] = raw;
+    }
+  }
+  return claims;
+}
+
+/**
+ * Format required JWT claims for the form (inverse of parseRequiredClaims).
+ */
+function formatRequiredClaims(claims: Record<string, JwtClaimValue> | undefined): string {
+  return Object.entries(claims ?? {})
+    .map(([name, value]) => {
+      const typedLooking = value === "true" || value === "false" || (value !== "" && !isNaN(Number(value)));
+      return `${name}=${typeof value === "string" && typedLooking ? `"${value}"` : value}`;
+    })
+    .join("\n");
+}
+
+function parseCronSchedules(text: string): CronScheduleConfig[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [expression, timezone, method] = line.split("|").map((part) => part.trim());
+      return {
+        expression,
+        timezone: timezone || undefined,
+        method: method ? method.toUpperCase() : undefined,
+      };
+    });
+}
+
+function formatCronSchedules(schedules: CronScheduleConfig[] | undefined): string {
+  return (schedules ?? [])
+    .map((schedule) => {
+      const parts = [schedule.expression];
+      if (schedule.timezone || schedule.method) {
+        parts.push(schedule.timezone ?? "UTC");
+      }
+      if (schedule.method) {
+        parts.push(schedule.method);
+      }
+      return parts.join(" | ");
+    })
+    .join("\n");
+}
+
 /**
  * Renders the secrets table with show/hide and copy functionality
  */
@@ -1565,6 +2421,90 @@ function renderFunctionSecretEditForm(
   `;
 }
 
+/**
+ * Renders the key-value entries table
+ */
+function renderKvTable(entries: KvEntry[], functionId: string): string {
+  return `
+    <table>
+      <thead>
+        <tr>
+          <th>Key</th>
+          <th>Value</th>
+          <th>Expires</th>
+          <th>Modified</th>
+          <th class="actions">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${entries
+          .map((entry) => {
+            const keyParam = encodeURIComponent(entry.key);
+            return `
+          <tr>
+            <td><code>${escapeHtml(entry.key)}</code></td>
+            <td><pre style="white-space: pre-wrap; font-size: 0.8rem; margin: 0;">${escapeHtml(JSON.stringify(entry.value, null, 2))}</pre></td>
+            <td>${entry.expiresAt ? formatDate(entry.expiresAt) : "<em>never</em>"}</td>
+            <td>${formatDate(entry.updatedAt)}</td>
+            <td class="actions">
+              <a href="/web/functions/kv/${functionId}/edit?key=${keyParam}" title="Edit" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">✏️</a>
+              <a href="/web/functions/kv/${functionId}/delete?key=${keyParam}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>
+            </td>
+          </tr>
+        `;
+          })
+          .join("")}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Renders the create/edit key-value entry form.
+ * The key is fixed when editing an existing entry.
+ */
+function renderKvEntryForm(
+  functionId: string,
+  data: { key?: string; value?: string; ttlSeconds?: string; expiresAt?: Date },
+  isEdit: boolean,
+  error?: string,
+  csrfToken: string = ""
+): string {
+  return `
+    ${error ? flashMessages(undefined, error) : ""}
+    <form method="POST" action="/web/functions/kv/${functionId}/edit">
+      ${csrfToken ? csrfInput(csrfToken) : ""}
+      ${isEdit ? `<input type="hidden" name="existing" value="1" />` : ""}
+      <label>
+        Key *
+        <input type="text" name="key" value="${escapeHtml(data.key ?? "")}"
+               required ${isEdit ? "readonly" : "autofocus"}
+               placeholder="counters/visits" />
+        ${isEdit ? "<small>Keys cannot be changed</small>" : ""}
+      </label>
+      <label>
+        Value (JSON) *
+        <textarea name="value" required rows="8"
+                  placeholder='{"count": 1}'>${escapeHtml(data.value ?? "")}</textarea>
+        <small>Any JSON value: object, array, string (quoted), number, boolean or null</small>
+      </label>
+      <label>
+        Time to Live (seconds)
+        <input type="number" name="ttlSeconds" min="1" step="1" value="${escapeHtml(data.ttlSeconds ?? "")}" />
+        <small>${
+          data.expiresAt
+            ? `Currently expires ${escapeHtml(formatDate(data.expiresAt))}. `
+            : ""
+        }Leave empty for an entry that never expires</small>
+      </label>
+      <div class="grid" style="margin-bottom: 0;">
+        <button type="submit" style="margin-bottom: 0;">${isEdit ? "Save Changes" : "Create Entry"}</button>
+        <a href="/web/functions/kv/${functionId}" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
+      </div>
+    </form>
+  `;
+}
+
 /**
  * Options for creating the functions pages router.
  */
@@ -1574,12 +2514,17 @@ export interface FunctionsPagesOptions {
   executionMetricsService: ExecutionMetricsService;
   apiKeyService: ApiKeyService;
   secretsService: SecretsService;
+  kvService: KvService;
   settingsService: SettingsService;
   errorStateService: ErrorStateService;
+  codeSourceService: CodeSourceService;
 }
 
+/** Flash message for attempts to change a function owned by a code source manifest */
+const MANAGED_FUNCTION_ERROR = "Function is managed by a code source manifest - change the source's crude.json instead";
+
 export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
-  const { functionsService, consoleLogService, executionMetricsService, apiKeyService, secretsService, settingsService, errorStateService } = options;
+  const { functionsService, consoleLogService, executionMetricsService, apiKeyService, secretsService, kvService, settingsService, errorStateService, codeSourceService } = options;
   const routes = new Hono();
 
   // Helper function to render key group names for a function route
@@ -1598,17 +2543,44 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     return escapeHtml(groupNames.join(", "));
   }
 
+  // Load a request's logs and, recursively, those of the invocations it made
+  async function loadRequestLogTree(
+    requestId: string,
+    functionNames: Map<string, string>,
+    depth = 0
+  ): Promise<RequestLogTree> {
+    const logs = await consoleLogService.getByRequestId(requestId);
+    const calls = depth < MAX_REQUEST_TREE_DEPTH
+      ? await consoleLogService.getChildInvocations(requestId)
+      : [];
+
+    const children: RequestLogTree[] = [];
+    for (const call of calls) {
+      children.push(await loadRequestLogTree(call.requestId, functionNames, depth + 1));
+    }
+
+    return {
+      requestId,
+      functionName: functionNames.get(logs[0]?.functionId ?? "") ?? "(deleted function)",
+      logs,
+      children,
+    };
+  }
+
   // List all functions
   routes.get("/", async (c) => {
     const success = c.req.query("success");
     const error = c.req.query("error");
     const allRoutes = await functionsService.getAll();
+    const sourceNames = new Map(
+      (await codeSourceService.getAll()).map((source) => [source.id, source.name])
+    );
 
     // Pre-render key group names for all routes
     const routesWithGroupNames = await Promise.all(
       allRoutes.map(async (route) => ({
         ...route,
-        keyGroupNames: await renderKeyGroupNames(route.keys),
+        keyGroupNames: route.jwt && !route.keys?.length ? "" : await renderKeyGroupNames(route.keys),
       }))
     );
 
@@ -1638,6 +2610,15 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
           background-color: #f8d7da;
           color: #721c24;
         }
+        .source-badge {
+          display: inline-block;
+          margin-left: 0.5rem;
+          padding: 0.1rem 0.4rem;
+          border-radius: 4px;
+          font-size: 0.75rem;
+          background-color: #e2e3e5;
+          color: #383d41;
+        }
       </style>
       <h1>Functions</h1>
       ${flashMessages(success, error)}
@@ -1665,27 +2646,42 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
               .map(
                 (fn) => {
                   const fnId = recordIdToString(fn.id);
+                  const sourceName = fn.sourceId
+                    ? sourceNames.get(fn.sourceId) ?? `Unknown(${fn.sourceId})`
+                    : null;
                   return `
               <tr id="route-row-${fnId}">
                 <td style="text-align: center;">
-                  <span
+                  ${
+                    sourceName
+                      ? `<span title="Managed by the manifest of source ${escapeHtml(sourceName)}">${fn.enabled ? '✅' : '❌'}</span>`
+                      : `<span
                     class="toggle-switch"
                     id="toggle-${fnId}"
                     onclick="toggleRoute('${fnId}')"
                     title="Click to ${fn.enabled ? 'disable' : 'enable'}"
-                  >${fn.enabled ? '✅' : '❌'}</span>
+                  >${fn.enabled ? '✅' : '❌'}</span>`
+                  }
+                </td>
+                <td>
+                  <strong>${escapeHtml(fn.name)}</strong>
+                  ${sourceName ? `<span class="source-badge" title="Read-only - declared in the source's crude.json">📦 ${escapeHtml(sourceName)}</span>` : ""}
                 </td>
-                <td><strong>${escapeHtml(fn.name)}</strong></td>
                 <td><code>${escapeHtml(fn.routePath)}</code></td>
                 <td>${renderMethodBadges(fn.methods)}</td>
-                <td>${fn.keyGroupNames}</td>
+                <td>${fn.keyGroupNames}${fn.jwt ? ` <span title="Accepts JWTs from ${escapeHtml(fn.jwt.issuer)}">🪪 JWT</span>` : ""}</td>
                 <td>${fn.description ? escapeHtml(fn.description) : ""}</td>
                 <td class="actions">
                   <a href="/web/functions/logs/${fnId}" title="Logs" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">📝</a>
                   <a href="/web/functions/metrics/${fnId}" title="Metrics" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">📊</a>
                   <a href="/web/functions/secrets/${fnId}" title="Secrets" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">🔐</a>
-                  <a href="/web/functions/edit/${fnId}" title="Edit" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">✏️</a>
-                  <a href="/web/functions/delete/${fnId}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>
+                  <a href="/web/functions/kv/${fnId}" title="Key-Value Store" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">🗄️</a>
+                  ${
+                    sourceName
+                      ? ""
+                      : `<a href="/web/functions/edit/${fnId}" title="Edit" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">✏️</a>
+                  <a href="/web/functions/delete/${fnId}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>`
+                  }
                 </td>
               </tr>
             `;
@@ -1793,6 +2789,9 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     if (!route) {
       return c.redirect("/web/functions?error=" + encodeURIComponent("Function not found"));
     }
+    if (route.sourceId) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent(MANAGED_FUNCTION_ERROR));
+    }
 
     const groups = await apiKeyService.getGroups();
     return c.html(
@@ -1819,6 +2818,9 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     if (!existingRoute) {
       return c.redirect("/web/functions?error=" + encodeURIComponent("Function not found"));
     }
+    if (existingRoute.sourceId) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent(MANAGED_FUNCTION_ERROR));
+    }
 
     let formData: FormData;
     try {
@@ -1902,6 +2904,9 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     if (!route) {
       return c.redirect("/web/functions?error=" + encodeURIComponent("Function not found"));
     }
+    if (route.sourceId) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent(MANAGED_FUNCTION_ERROR));
+    }
 
     return c.html(
       await confirmPage({
@@ -1928,6 +2933,9 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     // Get the route name for the success message before deletion
     const route = await functionsService.getById(id);
     const routeName = route?.name ?? `ID ${id}`;
+    if (route?.sourceId) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent(MANAGED_FUNCTION_ERROR));
+    }
 
     try {
       await functionsService.removeFunctionById(id);
@@ -1959,9 +2967,18 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
       ? parseInt(limitParam, 10)
       : 100;
 
+    // Parse search filters (all optional)
+    const searchOptions: LogsSearchOptions = {
+      search: c.req.query("q")?.trim().substring(0, 200) || undefined,
+      requestId: c.req.query("requestId")?.trim() || undefined,
+      from: parseUtcDateTimeInput(c.req.query("from")),
+      to: parseUtcDateTimeInput(c.req.query("to")),
+    };
+
     // Use getPaginated which handles cursor-based pagination properly
     const paginatedResult = await consoleLogService.getPaginated({
       functionId: id,
+      ...searchOptions,
       limit,
       cursor: cursorParam ?? undefined,
     });
@@ -1971,10 +2988,31 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
       cursor: cursorParam ?? null,
       nextCursor: paginatedResult.nextCursor ?? null,
       hasMore: paginatedResult.hasMore,
-    });
+    }, searchOptions);
     return c.html(await layout({ title: `Logs: ${route.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
   });
 
+  // View a request's logs with the functions it invoked nested beneath
+  routes.get("/requests/:requestId", async (c) => {
+    const requestId = c.req.param("requestId");
+
+    if (!/^[0-9a-f-]{1,64}$/i.test(requestId)) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent("Invalid request ID"));
+    }
+
+    const functions = await functionsService.getAll();
+    const functionNames = new Map(functions.map((fn) => [recordIdToString(fn.id), fn.name]));
+
+    const tree = await loadRequestLogTree(requestId, functionNames);
+    if (tree.logs.length === 0) {
+      return c.redirect("/web/functions?error=" + encodeURIComponent("No logs found for this request"));
+    }
+
+    const parentRequestId = tree.logs.find((log) => log.parentRequestId)?.parentRequestId;
+    const content = renderRequestPage(tree, tree.logs[0].functionId, parentRequestId);
+    return c.html(await layout({ title: `Request: ${tree.functionName}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
   // View global (server-wide) metrics
   routes.get("/metrics/global", async (c) => {
     const modeParam = c.req.query("mode") || "hour";
@@ -2465,5 +3503,246 @@ export function createFunctionsPages(options: FunctionsPagesOptions): Hono {
     }
   });
 
+  // ============== Function Key-Value Store ==============
+
+  // GET /kv/:id - List key-value entries for function (optional ?prefix= filter)
+  routes.get("/kv/:id", async (c) => {
+    const functionId = validateSurrealId(c.req.param("id"));
+
+    if (!functionId) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Invalid function ID")
+      );
+    }
+
+    const route = await functionsService.getById(functionId);
+    if (!route) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Function not found")
+      );
+    }
+
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const prefix = c.req.query("prefix") ?? "";
+
+    const entries = await kvService.list(functionId, prefix, { limit: MAX_KV_LIST_LIMIT });
+
+    const content = `
+      <h1>Key-Value Store for ${escapeHtml(route.name)}</h1>
+      <p>
+        <a href="/web/functions" role="button" class="secondary">
+          ← Back to Functions
+        </a>
+      </p>
+      ${flashMessages(success, error)}
+      <form method="GET" action="/web/functions/kv/${functionId}" class="grid">
+        <input type="text" name="prefix" value="${escapeHtml(prefix)}" placeholder="Filter by key prefix" />
+        <button type="submit" class="secondary">Filter</button>
+      </form>
+      <p>
+        ${buttonLink(`/web/functions/kv/${functionId}/edit`, "Add Entry")}
+      </p>
+      ${
+        entries.length === 0
+          ? `<p>${prefix ? "No entries match this prefix." : "No entries stored for this function. Handlers write entries with <code>ctx.kv.set()</code>."}</p>`
+          : renderKvTable(entries, functionId)
+      }
+      ${entries.length === MAX_KV_LIST_LIMIT ? `<p><small>Showing the first ${MAX_KV_LIST_LIMIT} entries - filter by prefix to narrow down.</small></p>` : ""}
+    `;
+
+    return c.html(
+      await layout({ title: `Key-Value Store: ${route.name}`, content, user: getLayoutUser(c), settingsService, errorStateService })
+    );
+  });
+
+  // GET /kv/:id/edit - Create entry form, or edit form when ?key= is given
+  routes.get("/kv/:id/edit", async (c) => {
+    const functionId = validateSurrealId(c.req.param("id"));
+
+    if (!functionId) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Invalid function ID")
+      );
+    }
+
+    const route = await functionsService.getById(functionId);
+    if (!route) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Function not found")
+      );
+    }
+
+    const key = c.req.query("key");
+    let data: { key?: string; value?: string; expiresAt?: Date } = {};
+
+    if (key !== undefined) {
+      const entry = await kvService.getEntry(functionId, key).catch(() => undefined);
+      if (!entry) {
+        return c.redirect(
+          `/web/functions/kv/${functionId}?error=` + encodeURIComponent("Entry not found")
+        );
+      }
+      data = {
+        key: entry.key,
+        value: JSON.stringify(entry.value, null, 2),
+        expiresAt: entry.expiresAt,
+      };
+    }
+
+    const title = key !== undefined ? "Edit Entry" : "Add Entry";
+    const content = `
+      <h1>${title} for ${escapeHtml(route.name)}</h1>
+      <p>
+        <a href="/web/functions/kv/${functionId}" role="button" class="secondary">
+          ← Back to Key-Value Store
+        </a>
+      </p>
+      ${renderKvEntryForm(functionId, data, key !== undefined, undefined, getCsrfToken(c))}
+    `;
+
+    return c.html(
+      await layout({ title: `${title}: ${route.name}`, content, user: getLayoutUser(c), settingsService, errorStateService })
+    );
+  });
+
+  // POST /kv/:id/edit - Handle entry create/update
+  routes.post("/kv/:id/edit", async (c) => {
+    const functionId = validateSurrealId(c.req.param("id"));
+
+    if (!functionId) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Invalid function ID")
+      );
+    }
+
+    const route = await functionsService.getById(functionId);
+    if (!route) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Function not found")
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await c.req.formData();
+    } catch {
+      return c.redirect(
+        `/web/functions/kv/${functionId}/edit?error=` +
+          encodeURIComponent("Invalid form data")
+      );
+    }
+
+    const isEdit = formData.get("existing") === "1";
+    const data = {
+      key: formData.get("key")?.toString() ?? "",
+      value: formData.get("value")?.toString() ?? "",
+      ttlSeconds: formData.get("ttlSeconds")?.toString().trim() ?? "",
+    };
+
+    const renderError = async (message: string) => {
+      const title = isEdit ? "Edit Entry" : "Add Entry";
+      const content = `
+        <h1>${title} for ${escapeHtml(route.name)}</h1>
+        <p>
+          <a href="/web/functions/kv/${functionId}" role="button" class="secondary">
+            ← Back to Key-Value Store
+          </a>
+        </p>
+        ${renderKvEntryForm(functionId, data, isEdit, message, getCsrfToken(c))}
+      `;
+      return c.html(
+        await layout({ title: `${title}: ${route.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }),
+        400
+      );
+    };
+
+    let value: unknown;
+    try {
+      value = JSON.parse(data.value);
+    } catch {
+      return await renderError("Value must be valid JSON");
+    }
+
+    let ttlMs: number | undefined;
+    if (data.ttlSeconds !== "") {
+      const ttlSeconds = Number(data.ttlSeconds);
+      if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+        return await renderError("Time to live must be a whole number of seconds");
+      }
+      ttlMs = ttlSeconds * 1000;
+    }
+
+    try {
+      await kvService.set(functionId, data.key, value, { ttlMs });
+      return c.redirect(
+        `/web/functions/kv/${functionId}?success=` +
+          encodeURIComponent(`Entry saved: ${data.key}`)
+      );
+    } catch (err) {
+      return await renderError(err instanceof Error ? err.message : "Failed to save entry");
+    }
+  });
+
+  // GET /kv/:id/delete?key= - Delete confirmation
+  routes.get("/kv/:id/delete", async (c) => {
+    const functionId = validateSurrealId(c.req.param("id"));
+    const key = c.req.query("key");
+
+    if (!functionId || !key) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Invalid ID")
+      );
+    }
+
+    const route = await functionsService.getById(functionId);
+    if (!route) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Function not found")
+      );
+    }
+
+    return c.html(
+      await confirmPage({
+        title: "Delete Entry",
+        message: `Are you sure you want to delete the entry "${key}" from function "${route.name}"? This action cannot be undone.`,
+        actionUrl: `/web/functions/kv/${functionId}/delete?key=${encodeURIComponent(key)}`,
+        cancelUrl: `/web/functions/kv/${functionId}`,
+        user: getLayoutUser(c),
+        settingsService,
+        errorStateService,
+        csrfToken: getCsrfToken(c),
+      })
+    );
+  });
+
+  // POST /kv/:id/delete?key= - Handle deletion
+  routes.post("/kv/:id/delete", async (c) => {
+    const functionId = validateSurrealId(c.req.param("id"));
+    const key = c.req.query("key");
+
+    if (!functionId || !key) {
+      return c.redirect(
+        "/web/functions?error=" + encodeURIComponent("Invalid ID")
+      );
+    }
+
+    try {
+      const deleted = await kvService.delete(functionId, key);
+      return c.redirect(
+        `/web/functions/kv/${functionId}?` +
+          (deleted
+            ? "success=" + encodeURIComponent(`Entry deleted: ${key}`)
+            : "error=" + encodeURIComponent("Entry not found"))
+      );
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to delete entry";
+      return c.redirect(
+        `/web/functions/kv/${functionId}?error=` + encodeURIComponent(message)
+      );
+    }
+  });
+
   return routes;
 }
@@ -0,0 +1,186 @@
+import { Hono } from "@hono/hono";
+import { RecordId } from "surrealdb";
+import type { JobQueueService } from "../jobs/job_queue_service.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { ErrorStateService } from "../errors/mod.ts";
+import type { Job, JobStatus } from "../jobs/types.ts";
+import { isJobStatus } from "../jobs/types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateSurrealId } from "../validation/common.ts";
+import {
+  layout,
+  escapeHtml,
+  flashMessages,
+  formatDate,
+  getLayoutUser,
+  getCsrfToken,
+} from "./templates.ts";
+import { csrfInput } from "../csrf/csrf_helpers.ts";
+
+/**
+ * Options for creating the jobs pages router.
+ */
+export interface JobsPagesOptions {
+  jobQueueService: JobQueueService;
+  settingsService: SettingsService;
+  errorStateService: ErrorStateService;
+}
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "failed", "cancelled"];
+
+/**
+ * Status badge colors per job status.
+ */
+function statusBadge(status: JobStatus): string {
+  const colors: Record<JobStatus, { bg: string; fg: string }> = {
+    pending: { bg: "#fff3cd", fg: "#856404" },
+    running: { bg: "#cce5ff", fg: "#004085" },
+    completed: { bg: "#d4edda", fg: "#155724" },
+    failed: { bg: "#f8d7da", fg: "#721c24" },
+    cancelled: { bg: "#e2e3e5", fg: "#383d41" },
+  };
+  const { bg, fg } = colors[status];
+  return `<span class="status-badge" style="background-color: ${bg}; color: ${fg};">${escapeHtml(status)}</span>`;
+}
+
+/**
+ * Render a JSON value as a collapsible block.
+ */
+function jsonDetails(label: string, value: unknown): string {
+  if (value === null || value === undefined) {
+    return "-";
+  }
+  return `<details><summary>${escapeHtml(label)}</summary><pre style="white-space: pre-wrap; font-size: 0.8rem;">${escapeHtml(JSON.stringify(value, null, 2))}</pre></details>`;
+}
+
+/**
+ * Creates the job queue page router.
+ *
+ * Lists queued and running jobs with their payload/result and allows
+ * cancelling them. Terminal jobs are removed from the queue once processed,
+ * so they only appear briefly.
+ */
+export function createJobsPages(options: JobsPagesOptions): Hono {
+  const { jobQueueService, settingsService, errorStateService } = options;
+  const routes = new Hono();
+
+  // GET / - List jobs (optional ?status= filter)
+  routes.get("/", async (c) => {
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const statusParam = c.req.query("status");
+    const status = statusParam && isJobStatus(statusParam) ? statusParam : undefined;
+    const csrfToken = getCsrfToken(c);
+
+    const jobs = status
+      ? await jobQueueService.getJobsByStatus(status)
+      : await jobQueueService.getJobs();
+    const counts = await jobQueueService.getJobCounts();
+
+    const filterLinks = [
+      `<a href="/web/jobs"${status === undefined ? ' aria-current="page"' : ""}>All</a>`,
+      ...JOB_STATUSES.map((s) =>
+        `<a href="/web/jobs?status=${s}"${status === s ? ' aria-current="page"' : ""}>${s} (${counts[s]})</a>`
+      ),
+    ].join(" · ");
+
+    const rows = jobs.map((job: Job) => {
+      const id = recordIdToString(job.id);
+      const cancellable = (job.status === "pending" || job.status === "running") && !job.cancelledAt;
+
+      return `
+        <tr id="job-${escapeHtml(id)}">
+          <td><code>${escapeHtml(id)}</code></td>
+          <td><strong>${escapeHtml(job.type)}</strong></td>
+          <td>
+            ${statusBadge(job.status)}
+            ${job.cancelledAt ? `<br><small style="color: #856404;" title="${escapeHtml(job.cancelReason ?? "")}">cancelling</small>` : ""}
+          </td>
+          <td>${job.referenceType ? `${escapeHtml(job.referenceType)}:${escapeHtml(job.referenceId ?? "")}` : "-"}</td>
+          <td>${job.priority}</td>
+          <td>${job.retryCount} / ${job.maxRetries}</td>
+          <td>${formatDate(job.createdAt)}</td>
+          <td>${job.startedAt ? formatDate(job.startedAt) : "-"}</td>
+          <td>${jsonDetails("Payload", job.payload)}</td>
+          <td>${jsonDetails("Result", job.result)}</td>
+          <td style="white-space: nowrap;">
+            ${
+              cancellable
+                ? `<form method="POST" action="/web/jobs/${encodeURIComponent(id)}/cancel" style="display: inline-block; margin: 0; width: auto;">
+                    ${csrfInput(csrfToken)}
+                    <button type="submit" class="outline contrast" style="padding: 0.25rem 0.5rem; font-size: 1rem; line-height: 1; width: auto; min-width: auto;" title="Cancel">⏹️</button>
+                  </form>`
+                : ""
+            }
+          </td>
+        </tr>
+      `;
+    }).join("");
+
+    const content = `
+      <style>
+        .status-badge {
+          display: inline-block;
+          padding: 0.25rem 0.5rem;
+          border-radius: 4px;
+          font-size: 0.85rem;
+          font-weight: bold;
+        }
+      </style>
+      <h1>Job Queue</h1>
+      ${flashMessages(success, error)}
+      <p>${filterLinks} &nbsp;|&nbsp; <a href="/web/schedules">View schedules</a></p>
+      ${
+        jobs.length === 0
+          ? "<p>No jobs found.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>ID</th>
+              <th>Type</th>
+              <th>Status</th>
+              <th>Reference</th>
+              <th>Priority</th>
+              <th>Retries</th>
+              <th>Created</th>
+              <th>Started</th>
+              <th>Payload</th>
+              <th>Result</th>
+              <th class="actions">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+      `
+      }
+    `;
+
+    return c.html(await layout({ title: "Job Queue", content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // POST /:id/cancel - Cancel a pending or running job
+  routes.post("/:id/cancel", async (c) => {
+    const id = validateSurrealId(c.req.param("id"));
+    if (!id) {
+      return c.redirect("/web/jobs?error=" + encodeURIComponent("Invalid job ID"));
+    }
+
+    try {
+      const job = await jobQueueService.cancelJob(new RecordId("job", id), {
+        reason: "Cancelled from web UI",
+      });
+      const message = job.status === "running"
+        ? `Cancellation requested for running job ${id}`
+        : `Job ${id} cancelled`;
+      return c.redirect("/web/jobs?success=" + encodeURIComponent(message));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to cancel job";
+      return c.redirect("/web/jobs?error=" + encodeURIComponent(message));
+    }
+  });
+
+  return routes;
+}
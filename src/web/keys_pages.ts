@@ -1,5 +1,13 @@
 import { Hono } from "@hono/hono";
-import type { ApiKeyService, ApiKeyGroup } from "../keys/api_key_service.ts";
+import {
+  DEFAULT_ROTATION_GRACE_HOURS,
+  MAX_ROTATION_GRACE_HOURS,
+  getApiKeyStatus,
+  type ApiKey,
+  type ApiKeyService,
+  type ApiKeyGroup,
+} from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import { validateKeyGroup, validateKeyName, validateKeyValue } from "../validation/keys.ts";
 import type { SecretsService } from "../secrets/secrets_service.ts";
 import type { Secret } from "../secrets/types.ts";
@@ -20,6 +28,8 @@ import {
   parseSecretEditFormData,
   generateValueButton,
   valueGeneratorScripts,
+  ipAccessFields,
+  parseIpAccessFormData,
 } from "./templates.ts";
 import { csrfInput } from "../csrf/csrf_helpers.ts";
 
@@ -28,13 +38,117 @@ import { csrfInput } from "../csrf/csrf_helpers.ts";
  */
 export interface KeysPagesOptions {
   apiKeyService: ApiKeyService;
+  apiKeyUsageService: ApiKeyUsageService;
   secretsService: SecretsService;
   settingsService: SettingsService;
   errorStateService: ErrorStateService;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days without use after which a key is badged as unused */
+const UNUSED_BADGE_DAYS = 7;
+
+/** Days shown in the key usage chart */
+const USAGE_CHART_DAYS = 30;
+
+const KEY_BADGE_STYLE = `
+  <style>
+    .status-badge {
+      display: inline-block;
+      padding: 0.1rem 0.4rem;
+      border-radius: 4px;
+      font-size: 0.8rem;
+      font-weight: bold;
+      white-space: nowrap;
+    }
+  </style>
+`;
+
+function badge(label: string, bg: string, fg: string): string {
+  return `<span class="status-badge" style="background-color: ${bg}; color: ${fg};">${escapeHtml(label)}</span>`;
+}
+
+/**
+ * Whether callers sent a rotated key after it was rotated.
+ */
+function usedSinceRotation(key: ApiKey): boolean {
+  return !!key.lastUsedAt && !!key.rotatedAt && key.lastUsedAt > key.rotatedAt;
+}
+
+/**
+ * Badges for keys that don't authenticate requests or aren't being used.
+ */
+function keyStatusBadges(key: ApiKey, now: Date): string {
+  const badges: string[] = [];
+
+  const status = getApiKeyStatus(key, now);
+  if (status === "expired") {
+    badges.push(badge("expired", "#f8d7da", "#721c24"));
+  } else if (status === "disabled") {
+    badges.push(badge("disabled", "#e2e3e5", "#383d41"));
+  }
+
+  // A rotated key in its grace period - is anyone still sending it?
+  if (key.rotatedToId && status !== "expired") {
+    badges.push(badge("retiring", "#cce5ff", "#004085"));
+    badges.push(
+      usedSinceRotation(key)
+        ? badge("still in use", "#fff3cd", "#856404")
+        : badge("unused since rotation", "#d4edda", "#155724")
+    );
+    return badges.join(" ");
+  }
+
+  if (!key.lastUsedAt) {
+    badges.push(badge("never used", "#fff3cd", "#856404"));
+  } else {
+    const unusedDays = Math.floor((now.getTime() - key.lastUsedAt.getTime()) / DAY_MS);
+    if (unusedDays >= UNUSED_BADGE_DAYS) {
+      badges.push(badge(`unused for ${unusedDays} days`, "#fff3cd", "#856404"));
+    }
+  }
+
+  return badges.join(" ");
+}
+
+/**
+ * Summary of a key's usage and expiry for the key list.
+ */
+function keyUsageCell(key: ApiKey, now: Date): string {
+  const details = [`${key.requestCount} request${key.requestCount === 1 ? "" : "s"}`];
+  if (key.lastUsedAt) {
+    details.push(`last used ${formatDate(key.lastUsedAt)}`);
+  }
+  if (key.expiresAt && getApiKeyStatus(key, now) !== "expired") {
+    details.push(`${key.rotatedToId ? "retires" : "expires"} ${formatDate(key.expiresAt)}`);
+  }
+
+  const badges = keyStatusBadges(key, now);
+  return `${badges ? `${badges}<br>` : ""}<small style="color: var(--pico-muted-color);">${escapeHtml(details.join(" · "))}</small>`;
+}
+
+/**
+ * Parse an expiry date form field (YYYY-MM-DD). The key expires at the end
+ * of that day (UTC).
+ * @returns The expiry time, or null if the field is empty
+ * @throws Error if the date is invalid
+ */
+function parseExpiryDate(value: string | undefined): Date | null {
+  const trimmed = value?.trim() ?? "";
+  if (!trimmed) {
+    return null;
+  }
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? new Date(`${trimmed}T23:59:59.999Z`) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new Error("Invalid expiry date");
+  }
+  return date;
+}
+
 export function createKeysPages(options: KeysPagesOptions): Hono {
-  const { apiKeyService, secretsService, settingsService, errorStateService } = options;
+  const { apiKeyService, apiKeyUsageService, secretsService, settingsService, errorStateService } = options;
   const routes = new Hono();
 
   // List all keys grouped by group
@@ -43,6 +157,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     const error = c.req.query("error");
     const allKeys = await apiKeyService.getAll();
     const groups = await apiKeyService.getGroups();
+    const now = new Date();
 
     // Create a map of group name -> group for description lookup
     const groupMap = new Map<string, ApiKeyGroup>();
@@ -57,6 +172,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     const sortedGroupNames = [...allGroupNames].sort();
 
     const content = `
+      ${KEY_BADGE_STYLE}
       <h1>API Keys</h1>
       ${flashMessages(success, error)}
       <p>
@@ -76,6 +192,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
                   <div style="display: flex; justify-content: space-between; align-items: center;">
                     <div>
                       <strong>${escapeHtml(groupName)}</strong>
+                      ${groupInfo?.ipAccess ? `<small title="Keys only work from allowed client IPs">🌐 IP restricted</small>` : ""}
                       ${groupInfo?.description ? `<br><small style="color: var(--pico-muted-color);">${escapeHtml(groupInfo.description)}</small>` : ""}
                     </div>
                     <div>
@@ -99,6 +216,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
                       <th>Name</th>
                       <th>Value</th>
                       <th>Description</th>
+                      <th>Usage</th>
                       <th class="actions">Actions</th>
                     </tr>
                   </thead>
@@ -123,8 +241,9 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
                           </button>
                         </td>
                         <td>${key.description ? escapeHtml(key.description) : "<em>none</em>"}</td>
+                        <td>${keyUsageCell(key, now)}</td>
                         <td class="actions">
-                          <a href="/web/keys/${recordIdToString(key.id)}/secrets" title="Manage Secrets" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">🔐</a><a href="/web/keys/delete?id=${recordIdToString(key.id)}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>
+                          <a href="/web/keys/${recordIdToString(key.id)}/usage" title="Usage" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">📊</a><a href="/web/keys/edit/${recordIdToString(key.id)}" title="Edit" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">✏️</a>${key.rotatedToId ? "" : `<a href="/web/keys/rotate/${recordIdToString(key.id)}" title="Rotate" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">🔄</a>`}<a href="/web/keys/${recordIdToString(key.id)}/secrets" title="Manage Secrets" style="text-decoration: none; font-size: 1.2rem; margin-right: 0.5rem;">🔐</a><a href="/web/keys/delete?id=${recordIdToString(key.id)}" title="Delete" style="color: #d32f2f; text-decoration: none; font-size: 1.2rem;">❌</a>
                         </td>
                       </tr>
                     `
@@ -163,6 +282,11 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
           Description
           <input type="text" name="description" placeholder="Optional description for this group">
         </label>
+        <fieldset>
+          <legend><strong>Client IP Access</strong></legend>
+          <small>Keys of this group only authenticate requests from these addresses</small>
+          ${ipAccessFields()}
+        </fieldset>
         <div class="grid" style="margin-bottom: 0;">
           <button type="submit" style="margin-bottom: 0;">Create Group</button>
           <a href="/web/keys" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
@@ -174,7 +298,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
 
   // Handle create group
   routes.post("/create-group", async (c) => {
-    let body: { name?: string; description?: string };
+    let body: { name?: string; description?: string; ipAllow?: string; ipDeny?: string };
     try {
       body = (await c.req.parseBody()) as typeof body;
     } catch {
@@ -183,6 +307,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
 
     const name = (body.name as string | undefined)?.trim().toLowerCase() ?? "";
     const description = (body.description as string | undefined)?.trim() || undefined;
+    const { ipAccess, errors: ipErrors } = parseIpAccessFormData(body.ipAllow ?? "", body.ipDeny ?? "");
 
     if (!name) {
       return c.redirect("/web/keys/create-group?error=" + encodeURIComponent("Group name is required"));
@@ -195,6 +320,10 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
       );
     }
 
+    if (ipErrors.length > 0) {
+      return c.redirect(`/web/keys/create-group?error=` + encodeURIComponent(ipErrors.join(", ")));
+    }
+
     // Check if group already exists
     const existing = await apiKeyService.getGroupByName(name);
     if (existing) {
@@ -204,7 +333,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     }
 
     try {
-      await apiKeyService.createGroup(name, description);
+      await apiKeyService.createGroup(name, description, ipAccess);
       return c.redirect("/web/keys?success=" + encodeURIComponent(`Group created: ${name}`));
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to create group";
@@ -241,6 +370,11 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
           Description
           <input type="text" name="description" value="${escapeHtml(group.description ?? "")}" placeholder="Optional description for this group">
         </label>
+        <fieldset>
+          <legend><strong>Client IP Access</strong></legend>
+          <small>Keys of this group only authenticate requests from these addresses</small>
+          ${ipAccessFields(group.ipAccess)}
+        </fieldset>
         <div class="grid" style="margin-bottom: 0;">
           <button type="submit" style="margin-bottom: 0;">Save Changes</button>
           <a href="/web/keys" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
@@ -263,7 +397,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
       return c.redirect("/web/keys?error=" + encodeURIComponent("Group not found"));
     }
 
-    let body: { description?: string };
+    let body: { description?: string; ipAllow?: string; ipDeny?: string };
     try {
       body = (await c.req.parseBody()) as typeof body;
     } catch {
@@ -271,9 +405,13 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     }
 
     const description = (body.description as string | undefined)?.trim() ?? "";
+    const { ipAccess, errors: ipErrors } = parseIpAccessFormData(body.ipAllow ?? "", body.ipDeny ?? "");
+    if (ipErrors.length > 0) {
+      return c.redirect(`/web/keys/edit-group/${id}?error=` + encodeURIComponent(ipErrors.join(", ")));
+    }
 
     try {
-      await apiKeyService.updateGroup(id, description);
+      await apiKeyService.updateGroup(id, description, ipAccess);
       return c.redirect("/web/keys?success=" + encodeURIComponent(`Group updated: ${group.name}`));
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to update group";
@@ -339,6 +477,11 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
           Description
           <input type="text" name="description" placeholder="Optional description">
         </label>
+        <label>
+          Expires
+          <input type="date" name="expiresAt">
+          <small>Optional. The key stops working at the end of this day (UTC).</small>
+        </label>
         <div class="grid" style="margin-bottom: 0;">
           <button type="submit" style="margin-bottom: 0;">Create Key</button>
           <a href="/web/keys" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
@@ -367,7 +510,14 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
 
   // Handle create
   routes.post("/create", async (c) => {
-    let body: { groupId?: string; newGroupName?: string; name?: string; value?: string; description?: string };
+    let body: {
+      groupId?: string;
+      newGroupName?: string;
+      name?: string;
+      value?: string;
+      description?: string;
+      expiresAt?: string;
+    };
     try {
       body = (await c.req.parseBody()) as typeof body;
     } catch {
@@ -380,6 +530,13 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     const value = (body.value as string | undefined)?.trim() ?? "";
     const description = (body.description as string | undefined)?.trim() || undefined;
 
+    let expiresAt: Date | null;
+    try {
+      expiresAt = parseExpiryDate(body.expiresAt as string | undefined);
+    } catch (err) {
+      return c.redirect("/web/keys/create?error=" + encodeURIComponent((err as Error).message));
+    }
+
     let groupId: string;
     let groupName: string;
 
@@ -449,7 +606,7 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     }
 
     try {
-      await apiKeyService.addKeyToGroup(groupId, name, value, description);
+      await apiKeyService.addKeyToGroup(groupId, name, value, description, expiresAt ?? undefined);
       return c.redirect("/web/keys?success=" + encodeURIComponent(`Key '${name}' created for group: ${groupName}`));
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to create key";
@@ -459,6 +616,239 @@ export function createKeysPages(options: KeysPagesOptions): Hono {
     }
   });
 
+  // Edit key form
+  routes.get("/edit/:keyId", async (c) => {
+    const keyId = c.req.param("keyId");
+    const error = c.req.query("error");
+    const csrfToken = getCsrfToken(c);
+
+    const result = await apiKeyService.getById(keyId);
+    if (!result) {
+      return c.redirect("/web/keys?error=" + encodeURIComponent("Key not found"));
+    }
+    const { key, group } = result;
+
+    const content = `
+      <h1>Edit Key: ${escapeHtml(key.name)}</h1>
+      ${error ? flashMessages(undefined, error) : ""}
+      <form method="POST" action="/web/keys/edit/${keyId}">
+        ${csrfInput(csrfToken)}
+        <label>
+          Key Group
+          <input type="text" value="${escapeHtml(group.name)}" readonly disabled>
+        </label>
+        <label>
+          Key Name
+          <input type="text" value="${escapeHtml(key.name)}" readonly disabled>
+          <small>Key names cannot be changed</small>
+        </label>
+        <label>
+          Description
+          <input type="text" name="description" value="${escapeHtml(key.description ?? "")}" placeholder="Optional description">
+        </label>
+        <label>
+          Expires
+          <input type="date" name="expiresAt" value="${key.expiresAt ? key.expiresAt.toISOString().slice(0, 10) : ""}">
+          <small>The key stops working at the end of this day (UTC). Leave empty to never expire.</small>
+        </label>
+        <label>
+          <input type="checkbox" name="enabled" value="true" role="switch"${key.enabled ? " checked" : ""}>
+          Enabled
+          <br><small>Disabled keys are rejected like unknown keys</small>
+        </label>
+        <div class="grid" style="margin-bottom: 0;">
+          <button type="submit" style="margin-bottom: 0;">Save Changes</button>
+          <a href="/web/keys" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
+        </div>
+      </form>
+    `;
+    return c.html(await layout({ title: `Edit Key: ${key.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // Handle edit key
+  routes.post("/edit/:keyId", async (c) => {
+    const keyId = c.req.param("keyId");
+
+    let body: { description?: string; expiresAt?: string; enabled?: string };
+    try {
+      body = (await c.req.parseBody()) as typeof body;
+    } catch {
+      return c.redirect(`/web/keys/edit/${keyId}?error=` + encodeURIComponent("Invalid form data"));
+    }
+
+    let expiresAt: Date | null;
+    try {
+      expiresAt = parseExpiryDate(body.expiresAt as string | undefined);
+    } catch (err) {
+      return c.redirect(`/web/keys/edit/${keyId}?error=` + encodeURIComponent((err as Error).message));
+    }
+
+    try {
+      await apiKeyService.updateKey(keyId, {
+        description: (body.description as string | undefined)?.trim() ?? "",
+        expiresAt,
+        enabled: body.enabled === "true",
+      });
+      return c.redirect("/web/keys?success=" + encodeURIComponent("Key updated"));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update key";
+      return c.redirect(`/web/keys/edit/${keyId}?error=` + encodeURIComponent(message));
+    }
+  });
+
+  // Key usage (requests per day)
+  routes.get("/:keyId/usage", async (c) => {
+    const keyId = c.req.param("keyId");
+
+    const result = await apiKeyService.getById(keyId);
+    if (!result) {
+      return c.redirect("/web/keys?error=" + encodeURIComponent("Key not found"));
+    }
+    const { key, group } = result;
+
+    const now = new Date();
+    const usage = await apiKeyUsageService.getDailyUsage(keyId, USAGE_CHART_DAYS, now);
+    const periodTotal = usage.reduce((sum, entry) => sum + entry.count, 0);
+    const labels = JSON.stringify(usage.map((entry) => entry.day.toISOString().slice(5, 10)));
+    const counts = JSON.stringify(usage.map((entry) => entry.count));
+    const badges = keyStatusBadges(key, now);
+
+    const content = `
+      ${KEY_BADGE_STYLE}
+      <style>
+        .chart-container {
+          position: relative;
+          width: 100%;
+          height: 300px;
+          margin-bottom: 2rem;
+        }
+      </style>
+      <h1>Key Usage: ${escapeHtml(group.name)} / ${escapeHtml(key.name)}</h1>
+      ${badges ? `<p>${badges}</p>` : ""}
+      <table>
+        <tbody>
+          <tr><th>Created</th><td>${formatDate(key.createdAt)}</td></tr>
+          <tr><th>Last Used</th><td>${key.lastUsedAt ? formatDate(key.lastUsedAt) : "<em>never</em>"}</td></tr>
+          <tr><th>Total Requests</th><td>${key.requestCount}</td></tr>
+          <tr><th>Last ${USAGE_CHART_DAYS} Days</th><td>${periodTotal}</td></tr>
+          <tr><th>Expires</th><td>${key.expiresAt ? formatDate(key.expiresAt) : "<em>never</em>"}</td></tr>
+          ${key.rotatedAt ? `<tr><th>Rotated</th><td>${formatDate(key.rotatedAt)}${usedSinceRotation(key) ? " - callers still send this key" : ""}</td></tr>` : ""}
+        </tbody>
+      </table>
+
+      <h3>Requests per Day (UTC)</h3>
+      <div class="chart-container">
+        <canvas id="keyUsageChart"></canvas>
+      </div>
+      <p style="color: var(--pico-muted-color); font-size: 0.85em;">
+        Usage is written every 30 seconds - the latest requests may not be counted yet.
+      </p>
+      <p>
+        ${buttonLink(`/web/keys/edit/${keyId}`, "Edit Key")}
+        ${buttonLink("/web/keys", "Back to API Keys", "secondary")}
+      </p>
+
+      <script src="https://cdn.jsdelivr.net/npm/chart.js@4.4.1/dist/chart.umd.min.js"></script>
+      <script>
+        document.addEventListener('DOMContentLoaded', function() {
+          const ctx = document.getElementById('keyUsageChart').getContext('2d');
+          new Chart(ctx, {
+            type: 'bar',
+            data: {
+              labels: ${labels},
+              datasets: [{
+                label: 'Requests',
+                data: ${counts},
+                backgroundColor: 'rgba(54, 162, 235, 0.8)',
+                borderColor: 'rgb(54, 162, 235)',
+                borderWidth: 1
+              }]
+            },
+            options: {
+              responsive: true,
+              maintainAspectRatio: false,
+              scales: {
+                y: {
+                  beginAtZero: true,
+                  ticks: { precision: 0 }
+                }
+              }
+            }
+          });
+        });
+      </script>
+    `;
+    return c.html(await layout({ title: `Key Usage: ${key.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // Rotate key form
+  routes.get("/rotate/:keyId", async (c) => {
+    const keyId = c.req.param("keyId");
+    const error = c.req.query("error");
+    const csrfToken = getCsrfToken(c);
+
+    const result = await apiKeyService.getById(keyId);
+    if (!result) {
+      return c.redirect("/web/keys?error=" + encodeURIComponent("Key not found"));
+    }
+    const { key, group } = result;
+
+    if (key.rotatedToId) {
+      return c.redirect("/web/keys?error=" + encodeURIComponent(`Key '${key.name}' has already been rotated`));
+    }
+
+    const content = `
+      <h1>Rotate Key: ${escapeHtml(group.name)} / ${escapeHtml(key.name)}</h1>
+      ${error ? flashMessages(undefined, error) : ""}
+      <p>
+        Rotating creates a new key named <strong>${escapeHtml(key.name)}</strong> with a new value. It takes over
+        this key's description, secrets and rate limit.
+        This key is renamed to <strong>${escapeHtml(key.name)}-retiring</strong> and keeps working until the grace
+        period ends, then it's deleted.
+      </p>
+      <form method="POST" action="/web/keys/rotate/${keyId}">
+        ${csrfInput(csrfToken)}
+        <label>
+          Grace Period (hours)
+          <input type="number" name="graceHours" value="${DEFAULT_ROTATION_GRACE_HOURS}" min="0" max="${MAX_ROTATION_GRACE_HOURS}" required>
+          <small>How long both keys are valid. The key list shows whether callers still send the old key.</small>
+        </label>
+        <div class="grid" style="margin-bottom: 0;">
+          <button type="submit" style="margin-bottom: 0;">Rotate Key</button>
+          <a href="/web/keys" role="button" class="secondary" style="margin-bottom: 0;">Cancel</a>
+        </div>
+      </form>
+    `;
+    return c.html(await layout({ title: `Rotate Key: ${key.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // Handle rotate key
+  routes.post("/rotate/:keyId", async (c) => {
+    const keyId = c.req.param("keyId");
+
+    let body: { graceHours?: string };
+    try {
+      body = (await c.req.parseBody()) as typeof body;
+    } catch {
+      return c.redirect(`/web/keys/rotate/${keyId}?error=` + encodeURIComponent("Invalid form data"));
+    }
+
+    const graceHours = Number((body.graceHours as string | undefined)?.trim() || NaN);
+
+    try {
+      const rotation = await apiKeyService.rotateKey(keyId, graceHours);
+      return c.redirect(
+        "/web/keys?success=" +
+          encodeURIComponent(
+            `Key '${rotation.name}' rotated - '${rotation.retiringName}' stops working ${formatDate(rotation.retiresAt)}`
+          )
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to rotate key";
+      return c.redirect(`/web/keys/rotate/${keyId}?error=` + encodeURIComponent(message));
+    }
+  });
+
   // Delete key by ID confirmation
   routes.get("/delete", async (c) => {
     const id = c.req.query("id");
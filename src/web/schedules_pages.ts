@@ -0,0 +1,283 @@
+import { Hono } from "@hono/hono";
+import type { SchedulingService } from "../scheduling/scheduling_service.ts";
+import type { SettingsService } from "../settings/settings_service.ts";
+import type { ErrorStateService } from "../errors/mod.ts";
+import type { Schedule, ScheduleStatus } from "../scheduling/types.ts";
+import { isScheduleStatus } from "../scheduling/types.ts";
+import { recordIdToString } from "../database/surreal_helpers.ts";
+import {
+  layout,
+  escapeHtml,
+  flashMessages,
+  formatDate,
+  getLayoutUser,
+  getCsrfToken,
+} from "./templates.ts";
+import { csrfInput } from "../csrf/csrf_helpers.ts";
+
+/**
+ * Options for creating the schedules pages router.
+ */
+export interface SchedulesPagesOptions {
+  schedulingService: SchedulingService;
+  settingsService: SettingsService;
+  errorStateService: ErrorStateService;
+}
+
+const STATUS_FILTERS: ScheduleStatus[] = ["active", "paused", "error", "completed"];
+
+/**
+ * Status badge colors per schedule status.
+ */
+function statusBadge(status: ScheduleStatus): string {
+  const colors: Record<ScheduleStatus, { bg: string; fg: string }> = {
+    active: { bg: "#d4edda", fg: "#155724" },
+    paused: { bg: "#fff3cd", fg: "#856404" },
+    error: { bg: "#f8d7da", fg: "#721c24" },
+    completed: { bg: "#e2e3e5", fg: "#383d41" },
+  };
+  const { bg, fg } = colors[status];
+  return `<span class="status-badge" style="background-color: ${bg}; color: ${fg};">${escapeHtml(status)}</span>`;
+}
+
+/**
+ * Human-readable description of when a schedule fires.
+ */
+function formatTiming(schedule: Schedule): string {
+  switch (schedule.type) {
+    case "cron":
+      return `<code>${escapeHtml(schedule.cronExpression ?? "")}</code> <small>${escapeHtml(schedule.timezone ?? "UTC")}</small>`;
+    case "sequential_interval":
+    case "concurrent_interval":
+      return schedule.intervalMs !== null ? `every ${formatInterval(schedule.intervalMs)}` : "-";
+    case "one_off":
+      return "once";
+    case "dynamic":
+      return "dynamic";
+  }
+}
+
+function formatInterval(ms: number): string {
+  if (ms % 86400000 === 0) return `${ms / 86400000}d`;
+  if (ms % 3600000 === 0) return `${ms / 3600000}h`;
+  if (ms % 60000 === 0) return `${ms / 60000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
+
+/**
+ * Small icon button wrapped in a POST form.
+ */
+function actionButton(action: string, icon: string, title: string, csrfToken: string): string {
+  return `<form method="POST" action="${escapeHtml(action)}" style="display: inline-block; margin: 0; width: auto;">
+    ${csrfInput(csrfToken)}
+    <button type="submit" class="outline secondary" style="padding: 0.25rem 0.5rem; font-size: 1rem; line-height: 1; width: auto; min-width: auto;" title="${escapeHtml(title)}">${icon}</button>
+  </form>`;
+}
+
+/**
+ * Creates the schedules page router.
+ *
+ * Lists all schedules with their state and provides trigger, pause,
+ * resume and cancel actions.
+ */
+export function createSchedulesPages(options: SchedulesPagesOptions): Hono {
+  const { schedulingService, settingsService, errorStateService } = options;
+  const routes = new Hono();
+
+  // GET / - List schedules (optional ?status= filter)
+  routes.get("/", async (c) => {
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const statusParam = c.req.query("status");
+    const status = statusParam && isScheduleStatus(statusParam) ? statusParam : undefined;
+    const csrfToken = getCsrfToken(c);
+
+    const schedules = await schedulingService.getSchedules(status);
+
+    const filterLinks = [
+      `<a href="/web/schedules"${status === undefined ? ' aria-current="page"' : ""}>All</a>`,
+      ...STATUS_FILTERS.map((s) =>
+        `<a href="/web/schedules?status=${s}"${status === s ? ' aria-current="page"' : ""}>${s}</a>`
+      ),
+    ].join(" · ");
+
+    const rows = schedules.map((schedule) => {
+      const name = encodeURIComponent(schedule.name);
+      const actions: string[] = [];
+      if (schedule.status === "active" || schedule.status === "paused") {
+        actions.push(actionButton(`/web/schedules/${name}/trigger`, "▶️", "Trigger now", csrfToken));
+      }
+      if (schedule.status === "active") {
+        actions.push(actionButton(`/web/schedules/${name}/pause`, "⏸️", "Pause", csrfToken));
+      }
+      if (schedule.status === "paused") {
+        actions.push(actionButton(`/web/schedules/${name}/resume`, "⏯️", "Resume", csrfToken));
+      }
+      if (schedule.status !== "completed") {
+        actions.push(
+          `<a href="/web/schedules/${name}/cancel" class="outline contrast" role="button" style="padding: 0.25rem 0.5rem; font-size: 1rem; line-height: 1;" title="Cancel">⏹️</a>`,
+        );
+      }
+
+      const failures = schedule.maxConsecutiveFailures > 0
+        ? `${schedule.consecutiveFailures} / ${schedule.maxConsecutiveFailures}`
+        : String(schedule.consecutiveFailures);
+
+      return `
+        <tr>
+          <td>
+            <strong>${escapeHtml(schedule.name)}</strong>
+            ${schedule.description ? `<br><small>${escapeHtml(schedule.description)}</small>` : ""}
+          </td>
+          <td>${statusBadge(schedule.status)}</td>
+          <td><small>${escapeHtml(schedule.type)}</small><br>${formatTiming(schedule)}</td>
+          <td>${schedule.nextRunAt ? formatDate(schedule.nextRunAt) : "-"}</td>
+          <td>${schedule.lastTriggeredAt ? formatDate(schedule.lastTriggeredAt) : "-"}</td>
+          <td style="${schedule.consecutiveFailures > 0 ? "color: #d32f2f;" : ""}">${failures}</td>
+          <td>${
+            schedule.lastError
+              ? `<details><summary style="color: #d32f2f;">Error</summary><pre style="white-space: pre-wrap; font-size: 0.8rem;">${escapeHtml(schedule.lastError)}</pre></details>`
+              : "-"
+          }</td>
+          <td>
+            ${
+              schedule.activeJobId
+                ? `<a href="/web/jobs#job-${escapeHtml(recordIdToString(schedule.activeJobId))}"><small>${escapeHtml(recordIdToString(schedule.activeJobId))}</small></a>`
+                : "-"
+            }
+          </td>
+          <td style="white-space: nowrap;">${actions.join("\n")}</td>
+        </tr>
+      `;
+    }).join("");
+
+    const content = `
+      <style>
+        .status-badge {
+          display: inline-block;
+          padding: 0.25rem 0.5rem;
+          border-radius: 4px;
+          font-size: 0.85rem;
+          font-weight: bold;
+        }
+      </style>
+      <h1>Schedules</h1>
+      ${flashMessages(success, error)}
+      <p>${filterLinks} &nbsp;|&nbsp; <a href="/web/jobs">View job queue</a></p>
+      ${
+        schedules.length === 0
+          ? "<p>No schedules found.</p>"
+          : `
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Status</th>
+              <th>Timing</th>
+              <th>Next Run</th>
+              <th>Last Triggered</th>
+              <th>Failures</th>
+              <th>Last Error</th>
+              <th>Active Job</th>
+              <th class="actions">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+      `
+      }
+    `;
+
+    return c.html(await layout({ title: "Schedules", content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // POST /:name/trigger - Trigger schedule immediately
+  routes.post("/:name/trigger", async (c) => {
+    const name = c.req.param("name");
+    try {
+      await schedulingService.triggerNow(name);
+      return c.redirect("/web/schedules?success=" + encodeURIComponent(`Schedule '${name}' triggered`));
+    } catch (error) {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent(error instanceof Error ? error.message : "Failed to trigger schedule"));
+    }
+  });
+
+  // POST /:name/pause - Pause schedule
+  routes.post("/:name/pause", async (c) => {
+    const name = c.req.param("name");
+    try {
+      await schedulingService.pauseSchedule(name);
+      return c.redirect("/web/schedules?success=" + encodeURIComponent(`Schedule '${name}' paused`));
+    } catch (error) {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent(error instanceof Error ? error.message : "Failed to pause schedule"));
+    }
+  });
+
+  // POST /:name/resume - Resume schedule
+  routes.post("/:name/resume", async (c) => {
+    const name = c.req.param("name");
+    try {
+      await schedulingService.resumeSchedule(name);
+      return c.redirect("/web/schedules?success=" + encodeURIComponent(`Schedule '${name}' resumed`));
+    } catch (error) {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent(error instanceof Error ? error.message : "Failed to resume schedule"));
+    }
+  });
+
+  // GET /:name/cancel - Cancel confirmation
+  routes.get("/:name/cancel", async (c) => {
+    const name = c.req.param("name");
+    const schedule = await schedulingService.getSchedule(name);
+    if (!schedule) {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent("Schedule not found"));
+    }
+
+    const csrfToken = getCsrfToken(c);
+    const content = `
+      <h1>Cancel Schedule</h1>
+      <article>
+        <p>Are you sure you want to cancel the schedule "<strong>${escapeHtml(schedule.name)}</strong>"? It will be marked completed and will not run again.</p>
+        <form method="POST" action="/web/schedules/${encodeURIComponent(schedule.name)}/cancel">
+          ${csrfInput(csrfToken)}
+          ${
+            schedule.activeJobId
+              ? `<label><input type="checkbox" name="cancelRunningJob" value="true"> Also cancel the running job</label>`
+              : ""
+          }
+          <footer>
+            <button type="submit" class="contrast">Cancel Schedule</button>
+            <a href="/web/schedules" role="button" class="secondary">Back</a>
+          </footer>
+        </form>
+      </article>
+    `;
+
+    return c.html(await layout({ title: "Cancel Schedule", content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  // POST /:name/cancel - Handle schedule cancellation
+  routes.post("/:name/cancel", async (c) => {
+    const name = c.req.param("name");
+
+    let formData: FormData;
+    try {
+      formData = await c.req.formData();
+    } catch {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent("Invalid form data"));
+    }
+
+    try {
+      await schedulingService.cancelSchedule(name, {
+        cancelRunningJob: formData.get("cancelRunningJob") === "true",
+      });
+      return c.redirect("/web/schedules?success=" + encodeURIComponent(`Schedule '${name}' cancelled`));
+    } catch (error) {
+      return c.redirect("/web/schedules?error=" + encodeURIComponent(error instanceof Error ? error.message : "Failed to cancel schedule"));
+    }
+  });
+
+  return routes;
+}
@@ -18,6 +18,10 @@ import {
 } from "./templates.ts";
 import { csrfInput } from "../csrf/csrf_helpers.ts";
 import { recordIdToString } from "../database/surreal_helpers.ts";
+import { validateRedactionPatterns } from "../logs/log_redaction.ts";
+import { validateHttpUrl } from "../validation/settings.ts";
+import { validateIpRanges } from "../validation/routes.ts";
+import { parseIpList } from "../functions/ip_access.ts";
 
 export interface SettingsPagesOptions {
   settingsService: SettingsService;
@@ -296,6 +300,20 @@ function renderSettingsForm(
             </fieldset>
           `;
         }
+      } else if (metadata.inputType === "patternList" || metadata.inputType === "ipList") {
+        inputHtml = `
+          <textarea name="${escapeHtml(name)}"
+                    rows="${Math.max(3, value.split("\n").length + 1)}"
+                    style="font-family: monospace;"
+                    spellcheck="false">${escapeHtml(value)}</textarea>
+        `;
+      } else if (metadata.inputType === "url") {
+        inputHtml = `
+          <input type="url"
+                 name="${escapeHtml(name)}"
+                 value="${escapeHtml(value)}"
+                 required />
+        `;
       } else {
         inputHtml = `
           <input type="text"
@@ -352,6 +370,30 @@ function parseAndValidateSettings(
 
     const value = formData.get(name)?.toString().trim() ?? "";
 
+    if (metadata.inputType === "patternList") {
+      // Pattern lists are optional (empty = no patterns)
+      const patterns = value.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0).join("\n");
+      const error = validateRedactionPatterns(patterns);
+      if (error) {
+        errors.push(`${metadata.label}: ${error}`);
+        continue;
+      }
+      updates[name] = patterns;
+      continue;
+    }
+
+    if (metadata.inputType === "ipList") {
+      // IP lists are optional (empty = no restriction)
+      const ranges = parseIpList(value);
+      const error = validateIpRanges(ranges);
+      if (error) {
+        errors.push(`${metadata.label}: ${error}`);
+        continue;
+      }
+      updates[name] = ranges.join("\n");
+      continue;
+    }
+
     if (!value) {
       errors.push(`${metadata.label} is required`);
       continue;
@@ -369,6 +411,12 @@ function parseAndValidateSettings(
         errors.push(`${metadata.label}: Invalid value "${value}"`);
         continue;
       }
+    } else if (metadata.inputType === "url") {
+      const error = validateHttpUrl(value);
+      if (error) {
+        errors.push(`${metadata.label}: ${error}`);
+        continue;
+      }
     }
 
     updates[name] = value;
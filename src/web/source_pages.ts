@@ -6,6 +6,7 @@ import type { ErrorStateService } from "../errors/mod.ts";
 import type {
   CodeSource,
   GitTypeSettings,
+  SourceDeployment,
   SyncSettings,
   NewCodeSource,
   UpdateCodeSource,
@@ -261,6 +262,34 @@ export function createSourcePages(options: SourcePagesOptions): Hono {
     </div>`;
   }
 
+  /**
+   * Display an abbreviated commit SHA (full SHA in the tooltip).
+   */
+  function shortCommit(commit: string | undefined): string {
+    if (!commit) return "<em>-</em>";
+    return `<code title="${escapeHtml(commit)}">${escapeHtml(commit.substring(0, 8))}</code>`;
+  }
+
+  /**
+   * Render the changed files of a deployment as a collapsible list.
+   */
+  function changedFilesDisplay(deployment: SourceDeployment): string {
+    if (deployment.filesChanged === 0) {
+      return "0";
+    }
+    if (deployment.changedFiles.length === 0) {
+      return String(deployment.filesChanged);
+    }
+    const more = deployment.filesChanged - deployment.changedFiles.length;
+    return `<details>
+      <summary>${deployment.filesChanged}</summary>
+      <ul style="margin: 0;">
+        ${deployment.changedFiles.map((path) => `<li><code>${escapeHtml(path)}</code></li>`).join("")}
+        ${more > 0 ? `<li><em>and ${more} more</em></li>` : ""}
+      </ul>
+    </details>`;
+  }
+
   /**
    * Parse source ID from route param.
    * Returns null if ID is empty/missing.
@@ -807,6 +836,7 @@ export function createSourcePages(options: SourcePagesOptions): Hono {
                     ${source.lastSyncStartedAt ? "Syncing..." : "Sync Now"}
                   </button>
                 </form>
+                <a href="/web/code/sources/${source.id}/deployments" role="button" class="outline" style="padding: 0.25rem 0.5rem; margin: 0; line-height: 1.5; display: inline-block;">History</a>
                 <a href="/web/code/sources/${source.id}/edit" role="button" class="outline" style="padding: 0.25rem 0.5rem; margin: 0; line-height: 1.5; display: inline-block;">Edit</a>
                 <a href="/web/code/sources/${source.id}/delete" role="button" class="outline contrast" style="padding: 0.25rem 0.5rem; margin: 0; line-height: 1.5; display: inline-block;">Delete</a>
               </div>
@@ -1279,6 +1309,136 @@ export function createSourcePages(options: SourcePagesOptions): Hono {
     }
   });
 
+  // ============================================================================
+  // Deployment History and Rollback (Git Sources)
+  // ============================================================================
+
+  routes.get("/sources/:id/deployments", async (c) => {
+    const id = parseSourceId(c.req.param("id"));
+    if (id === null) {
+      return c.redirect("/web/code?error=" + encodeURIComponent("Invalid source ID"));
+    }
+
+    const source = await codeSourceService.getById(id);
+    if (!source) {
+      return c.redirect("/web/code?error=" + encodeURIComponent("Source not found"));
+    }
+
+    const success = c.req.query("success");
+    const error = c.req.query("error");
+    const deployments = await codeSourceService.getDeployments(id);
+    const gitSettings = source.type === "git" ? source.typeSettings as GitTypeSettings : null;
+    // The newest successful deployment is what's currently checked out
+    const currentId = deployments.find((d) => d.success && d.newCommit)?.id;
+
+    const pinnedNotice = gitSettings?.commit
+      ? `<div style="padding: 1rem; margin-bottom: 1rem; border-radius: 0.25rem; background: #fff3cd; color: #856404; border: 1px solid #ffeeba;">
+          <strong>Pinned to commit</strong> ${shortCommit(gitSettings.commit)} - syncs won't pick up new commits.
+          <a href="/web/code/sources/${source.id}/edit">Edit the source</a> to track a branch or tag again.
+        </div>`
+      : "";
+
+    const table = deployments.length === 0
+      ? "<p>No deployments recorded yet. Every sync adds an entry.</p>"
+      : `<table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Trigger</th>
+              <th>Result</th>
+              <th>Commit</th>
+              <th>Files Changed</th>
+              <th>Duration</th>
+              <th class="actions">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${deployments.map((d) => `
+              <tr>
+                <td>${formatDate(d.createdAt)}</td>
+                <td>${escapeHtml(d.triggeredBy ?? "unknown")}</td>
+                <td>${d.success ? "✅" : `❌ <small>${escapeHtml(d.error ?? "")}</small>`}</td>
+                <td>${d.oldCommit && d.oldCommit !== d.newCommit ? `${shortCommit(d.oldCommit)} → ` : ""}${shortCommit(d.newCommit)}</td>
+                <td>${changedFilesDisplay(d)}</td>
+                <td>${d.durationMs}ms</td>
+                <td class="actions">
+                  ${d.id === currentId
+                    ? "<small>Current</small>"
+                    : gitSettings && d.success && d.newCommit
+                      ? `<a href="/web/code/sources/${source.id}/deployments/${encodeURIComponent(d.id)}/rollback" title="Roll back to this commit" style="text-decoration: none; font-size: 1.2rem;">⏪</a>`
+                      : ""}
+                </td>
+              </tr>
+            `).join("")}
+          </tbody>
+        </table>`;
+
+    const content = `
+      <h1>Deployments: ${escapeHtml(source.name)}</h1>
+      <p>
+        <a href="/web/code/sources/${source.id}" role="button" class="secondary outline">Back to Source</a>
+      </p>
+      ${flashMessages(success, error)}
+      ${pinnedNotice}
+      ${table}
+    `;
+
+    return c.html(await layout({ title: `Deployments: ${source.name}`, content, user: getLayoutUser(c), settingsService, errorStateService }));
+  });
+
+  routes.get("/sources/:id/deployments/:deploymentId/rollback", async (c) => {
+    const id = parseSourceId(c.req.param("id"));
+    if (id === null) {
+      return c.redirect("/web/code?error=" + encodeURIComponent("Invalid source ID"));
+    }
+
+    const source = await codeSourceService.getById(id);
+    if (!source) {
+      return c.redirect("/web/code?error=" + encodeURIComponent("Source not found"));
+    }
+
+    const deploymentId = c.req.param("deploymentId");
+    const deployment = (await codeSourceService.getDeployments(id)).find((d) => d.id === deploymentId);
+    if (!deployment?.newCommit) {
+      return c.redirect(`/web/code/sources/${id}/deployments?error=` + encodeURIComponent("Deployment not found"));
+    }
+
+    return c.html(
+      await confirmPage({
+        title: "Roll Back Source",
+        message: `Roll back the source "${escapeHtml(source.name)}" to commit ${escapeHtml(deployment.newCommit.substring(0, 8))} (deployed ${formatDate(deployment.createdAt)})? The source will be pinned to this commit and synced. Edit the source afterwards to track a branch or tag again.`,
+        actionUrl: `/web/code/sources/${source.id}/deployments/${encodeURIComponent(deploymentId)}/rollback`,
+        cancelUrl: `/web/code/sources/${source.id}/deployments`,
+        user: getLayoutUser(c),
+        settingsService,
+        errorStateService,
+        csrfToken: getCsrfToken(c),
+      })
+    );
+  });
+
+  routes.post("/sources/:id/deployments/:deploymentId/rollback", async (c) => {
+    const id = parseSourceId(c.req.param("id"));
+    if (id === null) {
+      return c.redirect("/web/code?error=" + encodeURIComponent("Invalid source ID"));
+    }
+
+    const deploymentId = c.req.param("deploymentId");
+    const historyUrl = `/web/code/sources/${id}/deployments`;
+
+    try {
+      const job = await codeSourceService.rollback(id, deploymentId);
+      if (job === null) {
+        return c.redirect(`${historyUrl}?error=` + encodeURIComponent("Sync already in progress"));
+      }
+      return c.redirect(`${historyUrl}?success=` + encodeURIComponent("Rollback started"));
+    } catch (error) {
+      // DeploymentNotFoundError, RollbackNotAvailableError, SourceNotFoundError
+      const message = error instanceof Error ? error.message : "Failed to roll back";
+      return c.redirect(`${historyUrl}?error=` + encodeURIComponent(message));
+    }
+  });
+
   // ============================================================================
   // File Upload (Manual Sources Only)
   // ============================================================================
@@ -3,6 +3,9 @@ import type { ErrorStateService } from "../errors/mod.ts";
 import { SettingNames, GlobalSettingDefaults } from "../settings/types.ts";
 import { APP_VERSION } from "../version.ts";
 import { csrfInput } from "../csrf/csrf_helpers.ts";
+import type { IpAccessConfig } from "../functions/types.ts";
+import { parseIpList } from "../functions/ip_access.ts";
+import { validateIpAccess } from "../validation/routes.ts";
 
 /**
  * Escapes HTML special characters to prevent XSS attacks.
@@ -254,6 +257,9 @@ export async function layout(options: LayoutOptions): Promise<string> {
         <li><a href="/web/functions" title="Functions">⚡</a></li>
         <li><a href="/web/keys" title="API Keys">🔑</a></li>
         <li><a href="/web/secrets" title="Secrets">🔒</a></li>
+        <li><a href="/web/schedules" title="Schedules">⏰</a></li>
+        <li><a href="/web/errors" title="Errors">🐞</a></li>
+        <li><a href="/web/alerts" title="Alerts">🔔</a></li>
         <li><a href="/web/users" title="Users">👥</a></li>
         <li><a href="/web/settings" title="Settings">⚙️</a></li>
         <li><a href="https://crude-functions.xkonti.tech" target="_blank" rel="noopener noreferrer" title="Documentation">❔</a></li>
@@ -490,3 +496,47 @@ export function parseSecretEditFormData(formData: FormData): {
     errors,
   };
 }
+
+/**
+ * Returns the allowed and denied client IP fields of a function or key group form.
+ */
+export function ipAccessFields(ipAccess?: IpAccessConfig): string {
+  return `
+    <div class="grid">
+      <label>
+        Allowed IPs
+        <textarea name="ipAllow" rows="3" style="font-family: monospace;" spellcheck="false"
+                  placeholder="203.0.113.0/24&#10;2001:db8::/32">${escapeHtml(ipAccess?.allow?.join("\n") ?? "")}</textarea>
+        <small>One address or CIDR range per line. Leave empty to allow every address.</small>
+      </label>
+      <label>
+        Denied IPs
+        <textarea name="ipDeny" rows="3" style="font-family: monospace;" spellcheck="false"
+                  placeholder="198.51.100.7">${escapeHtml(ipAccess?.deny?.join("\n") ?? "")}</textarea>
+        <small>Rejected even if they're allowed</small>
+      </label>
+    </div>
+  `;
+}
+
+/**
+ * Parse and validate the client IP fields rendered by ipAccessFields().
+ * Returns no config if both lists are empty.
+ */
+export function parseIpAccessFormData(allow: string, deny: string): {
+  ipAccess?: IpAccessConfig;
+  errors: string[];
+} {
+  const allowList = parseIpList(allow);
+  const denyList = parseIpList(deny);
+  if (allowList.length === 0 && denyList.length === 0) {
+    return { errors: [] };
+  }
+
+  const ipAccess: IpAccessConfig = {
+    allow: allowList.length > 0 ? allowList : undefined,
+    deny: denyList.length > 0 ? denyList : undefined,
+  };
+  const error = validateIpAccess(ipAccess);
+  return { ipAccess, errors: error ? [error] : [] };
+}
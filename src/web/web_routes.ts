@@ -9,21 +9,31 @@ import { createKeysPages } from "./keys_pages.ts";
 import { createSecretsPages } from "./secrets_pages.ts";
 import { createSettingsPages } from "./settings_pages.ts";
 import { createQueryPages } from "./query_pages.ts";
+import { createSchedulesPages } from "./schedules_pages.ts";
+import { createJobsPages } from "./jobs_pages.ts";
+import { createErrorsPages } from "./errors_pages.ts";
+import { createAlertsPages } from "./alerts_pages.ts";
 import { layout, getLayoutUser } from "./templates.ts";
 import { createSessionAuthMiddleware } from "../auth/auth_middleware.ts";
 import type { Auth } from "../auth/auth.ts";
 import type { SurrealConnectionFactory } from "../database/surreal_connection_factory.ts";
 import type { FunctionsService } from "../routes/functions_service.ts";
 import type { ApiKeyService } from "../keys/api_key_service.ts";
+import type { ApiKeyUsageService } from "../keys/api_key_usage_service.ts";
 import type { ConsoleLogService } from "../logs/console_log_service.ts";
 import type { ExecutionMetricsService } from "../metrics/execution_metrics_service.ts";
 import type { IEncryptionService } from "../encryption/types.ts";
 import { SecretsService } from "../secrets/secrets_service.ts";
+import type { KvService } from "../kv/kv_service.ts";
 import type { SettingsService } from "../settings/settings_service.ts";
 import type { UserService } from "../users/user_service.ts";
 import type { CodeSourceService } from "../sources/code_source_service.ts";
 import type { SourceFileService } from "../files/source_file_service.ts";
+import type { SchedulingService } from "../scheduling/scheduling_service.ts";
+import type { JobQueueService } from "../jobs/job_queue_service.ts";
 import type { ErrorStateService } from "../errors/mod.ts";
+import type { ErrorGroupService } from "../error_groups/error_group_service.ts";
+import type { AlertService } from "../alerts/alert_service.ts";
 
 export interface WebRoutesOptions {
   auth: Auth;
@@ -31,17 +41,23 @@ export interface WebRoutesOptions {
   userService: UserService;
   functionsService: FunctionsService;
   apiKeyService: ApiKeyService;
+  apiKeyUsageService: ApiKeyUsageService;
   consoleLogService: ConsoleLogService;
   executionMetricsService: ExecutionMetricsService;
   encryptionService: IEncryptionService;
+  kvService: KvService;
   settingsService: SettingsService;
   codeSourceService: CodeSourceService;
   sourceFileService: SourceFileService;
+  schedulingService: SchedulingService;
+  jobQueueService: JobQueueService;
+  errorGroupService: ErrorGroupService;
+  alertService: AlertService;
   errorStateService: ErrorStateService;
 }
 
 export function createWebRoutes(options: WebRoutesOptions): Hono {
-  const { auth, surrealFactory, userService, functionsService, apiKeyService, consoleLogService, executionMetricsService, encryptionService, settingsService, codeSourceService, sourceFileService, errorStateService } = options;
+  const { auth, surrealFactory, userService, functionsService, apiKeyService, apiKeyUsageService, consoleLogService, executionMetricsService, encryptionService, kvService, settingsService, codeSourceService, sourceFileService, schedulingService, jobQueueService, errorGroupService, alertService, errorStateService } = options;
   const routes = new Hono();
 
   // Initialize secrets service
@@ -109,6 +125,27 @@ export function createWebRoutes(options: WebRoutesOptions): Hono {
             <a href="/web/secrets" role="button">Manage Secrets</a>
           </footer>
         </article>
+        <article>
+          <header><strong>Schedules</strong></header>
+          <p>Monitor scheduled tasks and background jobs, and trigger, pause or cancel them.</p>
+          <footer>
+            <a href="/web/schedules" role="button">Manage Schedules</a>
+          </footer>
+        </article>
+        <article>
+          <header><strong>Errors</strong></header>
+          <p>Review grouped handler errors and resolve or ignore them.</p>
+          <footer>
+            <a href="/web/errors" role="button">View Errors</a>
+          </footer>
+        </article>
+        <article>
+          <header><strong>Alerts</strong></header>
+          <p>Configure alert rules and review sent notifications.</p>
+          <footer>
+            <a href="/web/alerts" role="button">Manage Alerts</a>
+          </footer>
+        </article>
       </div>
     `;
     return c.html(await layout({
@@ -124,11 +161,15 @@ export function createWebRoutes(options: WebRoutesOptions): Hono {
   routes.route("/password", createPasswordPages({ settingsService, errorStateService }));
   routes.route("/users", createUsersPages({ userService, settingsService, errorStateService }));
   routes.route("/code", createSourcePages({ codeSourceService, sourceFileService, settingsService, errorStateService }));
-  routes.route("/functions", createFunctionsPages({ functionsService, consoleLogService, executionMetricsService, apiKeyService, secretsService, settingsService, errorStateService }));
-  routes.route("/keys", createKeysPages({ apiKeyService, secretsService, settingsService, errorStateService }));
+  routes.route("/functions", createFunctionsPages({ functionsService, consoleLogService, executionMetricsService, apiKeyService, secretsService, kvService, settingsService, errorStateService, codeSourceService }));
+  routes.route("/keys", createKeysPages({ apiKeyService, apiKeyUsageService, secretsService, settingsService, errorStateService }));
   routes.route("/secrets", createSecretsPages({ surrealFactory, encryptionService, settingsService, errorStateService }));
   routes.route("/settings", createSettingsPages({ settingsService, apiKeyService, errorStateService }));
   routes.route("/query", createQueryPages({ surrealFactory, settingsService, errorStateService }));
+  routes.route("/schedules", createSchedulesPages({ schedulingService, settingsService, errorStateService }));
+  routes.route("/jobs", createJobsPages({ jobQueueService, settingsService, errorStateService }));
+  routes.route("/errors", createErrorsPages({ errorGroupService, functionsService, settingsService, errorStateService }));
+  routes.route("/alerts", createAlertsPages({ alertService, settingsService, errorStateService }));
 
   return routes;
 }